@@ -1,5 +1,5 @@
 import { BullModule } from '@nestjs/bullmq';
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { APP_FILTER, APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { EventEmitterModule } from '@nestjs/event-emitter';
@@ -12,6 +12,7 @@ import { SnakeNamingStrategy } from 'typeorm-naming-strategies';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { SentryInterceptor } from './common/interceptors/sentry.interceptor';
+import { RequestContextMiddleware } from './common/middleware/request-context.middleware';
 import { SentryMonitoringService } from './common/services/sentry-monitoring.service';
 import { AuthModule } from './modules/auth/auth.module';
 import { ChatModule } from './modules/chat/chat.module';
@@ -30,6 +31,7 @@ import { ClaimsModule } from './modules/vaults/claims/claims.module';
 import { AcquireModule } from './modules/vaults/phase-management/acquire/acquire.module';
 import { ContributionModule } from './modules/vaults/phase-management/contribution/contribution.module';
 import { GovernanceModule } from './modules/vaults/phase-management/governance/governance.module';
+import { VaultStateMachineModule } from './modules/vaults/phase-management/state-machine/vault-state-machine.module';
 import { TransactionsModule } from './modules/vaults/processing-tx/offchain-tx/transactions.module';
 import { BlockchainModule } from './modules/vaults/processing-tx/onchain/blockchain.module';
 import { TreasureWalletModule } from './modules/vaults/treasure/treasure-wallet.module';
@@ -38,11 +40,15 @@ import { VyfiModule } from './modules/vyfi/vyfi.module';
 import { WayUpModule } from './modules/wayup/wayup.module';
 
 import { AlertsModule } from '@/modules/alerts/alerts.module';
+import { AdminAuditInterceptor } from '@/modules/audit-log/admin-audit.interceptor';
+import { AuditLogModule } from '@/modules/audit-log/audit-log.module';
+import { JobCoordinatorModule } from '@/modules/job-coordinator/job-coordinator.module';
 import { NotificationModule } from '@/modules/notification/notification.module';
 import { OgModule } from '@/modules/og/og.module';
 import { PresetsModule } from '@/modules/presets/presets.module';
 import { RewardsModule } from '@/modules/rewards/rewards.module';
 import { StakeModule } from '@/modules/stake/stake.module';
+import { VaultJobsModule } from '@/modules/vault-jobs/vault-jobs.module';
 import { AssetsModule } from '@/modules/vaults/assets/assets.module';
 
 @Module({
@@ -109,6 +115,10 @@ import { AssetsModule } from '@/modules/vaults/assets/assets.module';
     NotificationModule,
     ChatModule,
     GoogleCloudModule,
+    AuditLogModule,
+    JobCoordinatorModule,
+    VaultJobsModule,
+    VaultStateMachineModule,
     TreasureWalletModule,
     DexHunterModule,
     WayUpModule,
@@ -130,10 +140,18 @@ import { AssetsModule } from '@/modules/vaults/assets/assets.module';
       provide: APP_INTERCEPTOR,
       useClass: SentryInterceptor,
     },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: AdminAuditInterceptor,
+    },
     {
       provide: APP_FILTER,
       useClass: SentryGlobalFilter,
     },
   ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(RequestContextMiddleware).forRoutes('*');
+  }
+}
@@ -0,0 +1,127 @@
+import { Buffer } from 'buffer';
+
+import {
+  AlgorithmId,
+  BigNum,
+  CBORValue,
+  COSEKey,
+  COSESign1,
+  COSESign1Builder,
+  HeaderMap,
+  Headers,
+  Int,
+  KeyType,
+  Label,
+  ProtectedHeaderMap,
+} from '@emurgo/cardano-message-signing-nodejs';
+import { Address, BaseAddress, Credential, PrivateKey } from '@emurgo/cardano-serialization-lib-nodejs';
+import { describe, expect, it } from '@jest/globals';
+
+import { decodeCip30Signature, Cip30SignatureData } from './cip30-signature';
+
+const TESTNET = 0;
+
+function baseAddress(paymentKey: PrivateKey, stakeKey: PrivateKey): Address {
+  return BaseAddress.new(
+    TESTNET,
+    Credential.from_keyhash(paymentKey.to_public().hash()),
+    Credential.from_keyhash(stakeKey.to_public().hash())
+  ).to_address();
+}
+
+function coseKey(signingKey: PrivateKey): string {
+  const key = COSEKey.new(Label.from_key_type(KeyType.OKP));
+  key.set_algorithm_id(Label.from_algorithm_id(AlgorithmId.EdDSA));
+  // crv: Ed25519
+  key.set_header(Label.new_int(Int.new_negative(BigNum.from_str('1'))), CBORValue.new_int(Int.new_i32(6)));
+  // x: public key bytes
+  key.set_header(
+    Label.new_int(Int.new_negative(BigNum.from_str('2'))),
+    CBORValue.new_bytes(signingKey.to_public().as_bytes())
+  );
+  return Buffer.from(key.to_bytes()).toString('hex');
+}
+
+function protectedHeaders(address: Address): Headers {
+  const headers = HeaderMap.new();
+  headers.set_algorithm_id(Label.from_algorithm_id(AlgorithmId.EdDSA));
+  headers.set_header(Label.new_text('address'), CBORValue.new_bytes(address.to_bytes()));
+  return Headers.new(ProtectedHeaderMap.new(headers), HeaderMap.new());
+}
+
+/** Mirrors what a CIP-30 wallet returns from `signData(address, payload)`. */
+function signData(signingKey: PrivateKey, address: Address, payload: string): Cip30SignatureData {
+  const builder = COSESign1Builder.new(protectedHeaders(address), Buffer.from(payload, 'utf8'), false);
+  const signature = signingKey.sign(builder.make_data_to_sign().to_bytes());
+  const coseSign1 = builder.build(signature.to_bytes());
+
+  return {
+    key: coseKey(signingKey),
+    signature: Buffer.from(coseSign1.to_bytes()).toString('hex'),
+  };
+}
+
+describe('decodeCip30Signature', () => {
+  const paymentKey = PrivateKey.generate_ed25519();
+  const stakeKey = PrivateKey.generate_ed25519();
+  const address = baseAddress(paymentKey, stakeKey);
+  const payload = JSON.stringify({ proposalId: 'proposal-1', option: 'yes' });
+
+  it('verifies a signature made with the payment key of the signing address', () => {
+    const decoded = decodeCip30Signature(signData(paymentKey, address, payload));
+
+    expect(decoded.isVerified).toBe(true);
+    expect(decoded.keyMatchesAddress).toBe(true);
+    expect(decoded.payload).toBe(payload);
+    expect(decoded.signerAddress).toBe(address.to_bech32());
+    expect(decoded.signerStakeAddress).toMatch(/^stake_test1/);
+    expect(decoded.publicKeyHash).toBe(paymentKey.to_public().hash().to_hex());
+  });
+
+  it('accepts the stake key of the signing address', () => {
+    const decoded = decodeCip30Signature(signData(stakeKey, address, payload));
+
+    expect(decoded.isVerified).toBe(true);
+    expect(decoded.keyMatchesAddress).toBe(true);
+  });
+
+  it('rejects a tampered payload', () => {
+    const data = signData(paymentKey, address, payload);
+    const original = COSESign1.from_bytes(Buffer.from(data.signature, 'hex'));
+    const tampered = COSESign1.new(
+      original.headers(),
+      Buffer.from(JSON.stringify({ proposalId: 'proposal-1', option: 'no' }), 'utf8'),
+      original.signature()
+    );
+
+    const decoded = decodeCip30Signature({ ...data, signature: Buffer.from(tampered.to_bytes()).toString('hex') });
+
+    expect(decoded.isVerified).toBe(false);
+  });
+
+  it('rejects a COSE key that did not produce the signature', () => {
+    const data = signData(paymentKey, address, payload);
+
+    const decoded = decodeCip30Signature({ ...data, key: coseKey(PrivateKey.generate_ed25519()) });
+
+    expect(decoded.isVerified).toBe(false);
+    expect(decoded.keyMatchesAddress).toBe(false);
+  });
+
+  it('flags a valid signature whose key does not belong to the claimed address', () => {
+    const otherAddress = baseAddress(PrivateKey.generate_ed25519(), PrivateKey.generate_ed25519());
+
+    const decoded = decodeCip30Signature(signData(paymentKey, otherAddress, payload));
+
+    expect(decoded.isVerified).toBe(true);
+    expect(decoded.keyMatchesAddress).toBe(false);
+    expect(decoded.signerAddress).toBe(otherAddress.to_bech32());
+  });
+
+  it('throws on malformed COSE input', () => {
+    const data = signData(paymentKey, address, payload);
+
+    expect(() => decodeCip30Signature({ ...data, signature: 'deadbeef' })).toThrow();
+    expect(() => decodeCip30Signature({ ...data, key: 'not-hex' })).toThrow();
+  });
+});
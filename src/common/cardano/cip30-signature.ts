@@ -0,0 +1,95 @@
+import { Buffer } from 'buffer';
+
+import { BigNum, COSEKey, COSESign1, Int, Label } from '@emurgo/cardano-message-signing-nodejs';
+import {
+  Address,
+  BaseAddress,
+  Credential,
+  Ed25519Signature,
+  EnterpriseAddress,
+  PublicKey,
+  RewardAddress,
+} from '@emurgo/cardano-serialization-lib-nodejs';
+
+/** Raw CIP-30 `signData` result: hex-encoded COSE_Key and COSE_Sign1. */
+export interface Cip30SignatureData {
+  key: string;
+  signature: string;
+}
+
+export interface DecodedCip30Signature {
+  /** Ed25519 signature over the COSE Sig_structure is valid for the embedded public key */
+  isVerified: boolean;
+  /** Public key hash matches the payment or stake credential of the signing address */
+  keyMatchesAddress: boolean;
+  /** UTF-8 decoded signed payload */
+  payload: string;
+  /** Address from the protected `address` header (bech32) */
+  signerAddress: string;
+  /** Reward (stake) address derived from the signing address, null for enterprise addresses */
+  signerStakeAddress: string | null;
+  /** Hex-encoded hash of the signing public key */
+  publicKeyHash: string;
+}
+
+/**
+ * Returns the bech32 reward address for a base or reward address, null otherwise.
+ */
+export function getStakeAddress(address: Address): string | null {
+  const reward = RewardAddress.from_address(address);
+  if (reward) {
+    return reward.to_address().to_bech32();
+  }
+
+  const base = BaseAddress.from_address(address);
+  if (base) {
+    return RewardAddress.new(base.network_id(), base.stake_cred()).to_address().to_bech32();
+  }
+
+  return null;
+}
+
+function getKeyCredentials(address: Address): Credential[] {
+  const base = BaseAddress.from_address(address);
+  if (base) return [base.payment_cred(), base.stake_cred()];
+
+  const reward = RewardAddress.from_address(address);
+  if (reward) return [reward.payment_cred()];
+
+  const enterprise = EnterpriseAddress.from_address(address);
+  if (enterprise) return [enterprise.payment_cred()];
+
+  return [];
+}
+
+/**
+ * Decodes a CIP-8/CIP-30 COSE_Sign1 message and verifies its signature.
+ * Callers are responsible for checking the payload and signer against their own expectations.
+ */
+export function decodeCip30Signature(data: Cip30SignatureData): DecodedCip30Signature {
+  const decoded = COSESign1.from_bytes(Buffer.from(data.signature, 'hex'));
+  const headermap = decoded.headers().protected().deserialized_headers();
+  const addressHex = Buffer.from(headermap.header(Label.new_text('address')).to_bytes())
+    .toString('hex')
+    .substring(4);
+  const address = Address.from_bytes(Buffer.from(addressHex, 'hex'));
+
+  const key = COSEKey.from_bytes(Buffer.from(data.key, 'hex'));
+  const pubKeyBytes = key.header(Label.new_int(Int.new_negative(BigNum.from_str('2')))).as_bytes();
+  const publicKey = PublicKey.from_bytes(pubKeyBytes);
+  const publicKeyHash = publicKey.hash().to_hex();
+
+  const sig = Ed25519Signature.from_bytes(decoded.signature());
+  const signedData = decoded.signed_data().to_bytes();
+
+  const keyMatchesAddress = getKeyCredentials(address).some(cred => cred.to_keyhash()?.to_hex() === publicKeyHash);
+
+  return {
+    isVerified: publicKey.verify(signedData, sig),
+    keyMatchesAddress,
+    payload: Buffer.from(decoded.payload()).toString('utf8'),
+    signerAddress: address.to_bech32(),
+    signerStakeAddress: getStakeAddress(address),
+    publicKeyHash,
+  };
+}
@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface JobContextData {
+  name: string;
+  /** Monotonic per job; a newer lease always carries a larger token */
+  fencingToken: number;
+  /** Value stored under the lease key while this run holds it */
+  leaseValue: string;
+  /** Set when lease renewal finds the lease gone */
+  leaseLost: boolean;
+}
+
+const jobContextStorage = new AsyncLocalStorage<JobContextData>();
+
+/**
+ * Runs `callback` as the coordinated job described by `context`; everything awaited inside sees it
+ */
+export function runWithJobContext<T>(context: JobContextData, callback: () => T): T {
+  return jobContextStorage.run(context, callback);
+}
+
+/**
+ * Lease of the coordinated job being run, or undefined outside of one
+ */
+export function getJobContext(): JobContextData | undefined {
+  return jobContextStorage.getStore();
+}
@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContextData {
+  requestId: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  method: string;
+  path: string;
+  /** Set by the auth guards once the caller is known (`user:<id>` or `admin`) */
+  actor?: string;
+}
+
+const requestContextStorage = new AsyncLocalStorage<RequestContextData>();
+
+/**
+ * Runs `callback` with `context` as the current request context; everything awaited inside sees it
+ */
+export function runWithRequestContext<T>(context: RequestContextData, callback: () => T): T {
+  return requestContextStorage.run(context, callback);
+}
+
+/**
+ * Context of the HTTP request being handled, or undefined in cron jobs, queue workers and event handlers
+ * that were not triggered inside a request
+ */
+export function getRequestContext(): RequestContextData | undefined {
+  return requestContextStorage.getStore();
+}
+
+export function setRequestActor(actor: string): void {
+  const context = requestContextStorage.getStore();
+
+  if (context) {
+    context.actor = actor;
+  }
+}
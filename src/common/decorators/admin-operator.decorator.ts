@@ -0,0 +1,15 @@
+import { createParamDecorator, ExecutionContext, ForbiddenException } from '@nestjs/common';
+
+/**
+ * Name of the admin authenticated with a personal token by `AdminGuard`.
+ * Rejects the shared service token, which does not identify who is acting.
+ */
+export const AdminOperator = createParamDecorator((data: unknown, ctx: ExecutionContext): string => {
+  const request = ctx.switchToHttp().getRequest();
+
+  if (!request.adminOperator) {
+    throw new ForbiddenException('This action requires a personal admin token (ADMIN_OPERATOR_TOKENS)');
+  }
+
+  return request.adminOperator;
+});
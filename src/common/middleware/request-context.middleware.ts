@@ -0,0 +1,34 @@
+import { randomUUID } from 'crypto';
+
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+
+import { runWithRequestContext } from '../context/request-context';
+
+/**
+ * Opens a request context (request ID, client IP, user agent) for every HTTP request.
+ * The client IP is `req.ip`, resolved by Express from X-Forwarded-For up to the `trust proxy` hops set in main.ts.
+ */
+@Injectable()
+export class RequestContextMiddleware implements NestMiddleware {
+  use(req: Request, res: Response, next: NextFunction): void {
+    const requestIdHeader = req.headers['x-request-id'];
+    const requestId = (Array.isArray(requestIdHeader) ? requestIdHeader[0] : requestIdHeader) || randomUUID();
+    res.setHeader('X-Request-Id', requestId);
+
+    runWithRequestContext(
+      {
+        requestId,
+        ipAddress: this.getClientIp(req),
+        userAgent: req.headers['user-agent'] ?? null,
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+      },
+      next
+    );
+  }
+
+  private getClientIp(req: Request): string | null {
+    return req.ip || req.socket?.remoteAddress || null;
+  }
+}
@@ -0,0 +1,80 @@
+import { Expose } from 'class-transformer';
+import { Column, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+import { AuditLogAction, AuditLogOutcome } from '../types/audit-log.types';
+
+/**
+ * Append-only record of a privileged operation.
+ * Entries form a hash chain: `hash` covers every other column plus `prev_hash` (the hash of entry `sequence - 1`),
+ * and a database trigger rejects UPDATE, DELETE and TRUNCATE on the table.
+ */
+@Entity('audit_log_entries')
+@Index(['action', 'created_at'])
+@Index(['vault_id', 'created_at'])
+export class AuditLogEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Gapless position in the chain; bigint is returned as a string by pg
+  @Expose({ name: 'sequence' })
+  @Column({ name: 'sequence', type: 'bigint', unique: true })
+  sequence: string;
+
+  @Expose({ name: 'action' })
+  @Column({ name: 'action', type: 'varchar' })
+  action: AuditLogAction;
+
+  @Expose({ name: 'outcome' })
+  @Column({ name: 'outcome', type: 'enum', enum: AuditLogOutcome, default: AuditLogOutcome.SUCCESS })
+  outcome: AuditLogOutcome;
+
+  // `user:<id>`, `admin` or `system` for work not triggered by a request
+  @Expose({ name: 'actor' })
+  @Column({ name: 'actor', type: 'varchar' })
+  actor: string;
+
+  @Expose({ name: 'userId' })
+  @Column({ name: 'user_id', type: 'varchar', nullable: true })
+  user_id: string | null;
+
+  @Expose({ name: 'vaultId' })
+  @Column({ name: 'vault_id', type: 'uuid', nullable: true })
+  vault_id: string | null;
+
+  @Expose({ name: 'requestId' })
+  @Column({ name: 'request_id', type: 'varchar', nullable: true })
+  request_id: string | null;
+
+  @Expose({ name: 'ipAddress' })
+  @Column({ name: 'ip_address', type: 'varchar', nullable: true })
+  ip_address: string | null;
+
+  @Expose({ name: 'userAgent' })
+  @Column({ name: 'user_agent', type: 'varchar', nullable: true })
+  user_agent: string | null;
+
+  @Expose({ name: 'method' })
+  @Column({ name: 'method', type: 'varchar', nullable: true })
+  method: string | null;
+
+  @Expose({ name: 'path' })
+  @Column({ name: 'path', type: 'varchar', nullable: true })
+  path: string | null;
+
+  @Expose({ name: 'details' })
+  @Column({ name: 'details', type: 'jsonb', default: {} })
+  details: Record<string, unknown>;
+
+  @Expose({ name: 'prevHash' })
+  @Column({ name: 'prev_hash', type: 'varchar', length: 64, nullable: true })
+  prev_hash: string | null;
+
+  @Expose({ name: 'hash' })
+  @Column({ name: 'hash', type: 'varchar', length: 64, unique: true })
+  hash: string;
+
+  // Set by the service rather than the database because it is part of the hashed content
+  @Expose({ name: 'createdAt' })
+  @Column({ name: 'created_at', type: 'timestamptz' })
+  created_at: Date;
+}
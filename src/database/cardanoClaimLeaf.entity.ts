@@ -0,0 +1,71 @@
+import { Expose } from 'class-transformer';
+import { Column, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+import { ColumnBigintStringTransformer } from './column-bigint-string.transformer';
+
+/**
+ * One address allocation of a `CardanoClaimSet` with its proof against the set's root.
+ * See `cardano-claims-merkle.ts` for the leaf encoding.
+ */
+@Entity('cardano_claim_leaves')
+@Index('IDX_cardano_claim_leaves_set_address', ['claimSetId', 'address'], { unique: true })
+@Index('IDX_cardano_claim_leaves_vault_address', ['vaultId', 'address'])
+export class CardanoClaimLeaf {
+  @Expose({ name: 'id' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'claimSetId' })
+  @Column({ name: 'claim_set_id', type: 'uuid' })
+  claimSetId: string;
+
+  @Expose({ name: 'vaultId' })
+  @Column({ name: 'vault_id', type: 'uuid' })
+  vaultId: string;
+
+  // Position in the address-ordered leaf list
+  @Expose({ name: 'leafIndex' })
+  @Column({ name: 'leaf_index', type: 'int' })
+  leafIndex: number;
+
+  @Expose({ name: 'address' })
+  @Column({ name: 'address', type: 'varchar' })
+  address: string;
+
+  @Expose({ name: 'userId' })
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId: string | null;
+
+  @Expose({ name: 'vtAmount' })
+  @Column({
+    name: 'vt_amount',
+    type: 'decimal',
+    precision: 78,
+    scale: 0,
+    transformer: new ColumnBigintStringTransformer(),
+  })
+  vtAmount: string;
+
+  @Expose({ name: 'lovelaceAmount' })
+  @Column({
+    name: 'lovelace_amount',
+    type: 'decimal',
+    precision: 78,
+    scale: 0,
+    transformer: new ColumnBigintStringTransformer(),
+  })
+  lovelaceAmount: string;
+
+  // Claims aggregated into this leaf
+  @Expose({ name: 'claimIds' })
+  @Column({ name: 'claim_ids', type: 'jsonb' })
+  claimIds: string[];
+
+  @Expose({ name: 'leafHash' })
+  @Column({ name: 'leaf_hash', type: 'varchar', length: 66 })
+  leafHash: string;
+
+  @Expose({ name: 'proof' })
+  @Column({ name: 'proof', type: 'jsonb' })
+  proof: string[];
+}
@@ -0,0 +1,62 @@
+import { Expose } from 'class-transformer';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+import { ColumnBigintStringTransformer } from './column-bigint-string.transformer';
+
+/**
+ * Merkle commitment over a Cardano vault's contributor and acquirer claims, taken when a distribution starts.
+ * Immutable once written; a later distribution with changed allocations (e.g. after an expansion) adds a new set
+ * and moves `vaults.claims_merkle_root` to it.
+ */
+@Entity('cardano_claim_sets')
+@Index('IDX_cardano_claim_sets_vault_root', ['vaultId', 'root'], { unique: true })
+export class CardanoClaimSet {
+  @Expose({ name: 'id' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'vaultId' })
+  @Column({ name: 'vault_id', type: 'uuid' })
+  vaultId: string;
+
+  @Expose({ name: 'root' })
+  @Column({ name: 'root', type: 'varchar', length: 66 })
+  root: string;
+
+  @Expose({ name: 'leafCount' })
+  @Column({ name: 'leaf_count', type: 'int' })
+  leafCount: number;
+
+  @Expose({ name: 'totalVt' })
+  @Column({
+    name: 'total_vt',
+    type: 'decimal',
+    precision: 78,
+    scale: 0,
+    transformer: new ColumnBigintStringTransformer(),
+  })
+  totalVt: string;
+
+  @Expose({ name: 'totalLovelace' })
+  @Column({
+    name: 'total_lovelace',
+    type: 'decimal',
+    precision: 78,
+    scale: 0,
+    transformer: new ColumnBigintStringTransformer(),
+  })
+  totalLovelace: string;
+
+  // Transaction carrying the root in its 674 metadata, when published
+  @Expose({ name: 'metadataTxHash' })
+  @Column({ name: 'metadata_tx_hash', type: 'varchar', nullable: true })
+  metadataTxHash: string | null;
+
+  @Expose({ name: 'publishedAt' })
+  @Column({ name: 'published_at', type: 'timestamptz', nullable: true })
+  publishedAt: Date | null;
+
+  @Expose({ name: 'createdAt' })
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,142 @@
+import { Expose } from 'class-transformer';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+import {
+  CalculationClaimDiscrepancy,
+  ClaimReconciliationStatus,
+  ClaimReconciliationTrigger,
+  OnChainClaimDiscrepancy,
+} from '../types/claims-reconciliation.types';
+
+import { ColumnBigintStringTransformer } from './column-bigint-string.transformer';
+import { ColumnNumericTransformer } from './column-numeric.transformer';
+
+/**
+ * Result of reconciling a vault's claims: DB claims against the distribution math (as in `verifyClaims`) and
+ * distributed claims against the VT and ADA their addresses actually received on-chain.
+ */
+@Entity('claim_reconciliation_reports')
+@Index('IDX_claim_reconciliation_reports_vault_created', ['vaultId', 'createdAt'])
+export class ClaimReconciliationReport {
+  @Expose({ name: 'id' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'vaultId' })
+  @Column({ name: 'vault_id', type: 'uuid' })
+  vaultId: string;
+
+  @Expose({ name: 'trigger' })
+  @Column({ name: 'trigger', type: 'enum', enum: ClaimReconciliationTrigger })
+  trigger: ClaimReconciliationTrigger;
+
+  @Expose({ name: 'status' })
+  @Column({ name: 'status', type: 'enum', enum: ClaimReconciliationStatus })
+  status: ClaimReconciliationStatus;
+
+  @Expose({ name: 'claimsChecked' })
+  @Column({ name: 'claims_checked', type: 'int', default: 0 })
+  claimsChecked: number;
+
+  // Claims differing from the recalculated amounts by more than the tolerance
+  @Expose({ name: 'calculationDiscrepancies' })
+  @Column({ name: 'calculation_discrepancies', type: 'int', default: 0 })
+  calculationDiscrepancies: number;
+
+  // Total DB claims minus the recalculated total
+  @Expose({ name: 'vtDifference' })
+  @Column({
+    name: 'vt_difference',
+    type: 'decimal',
+    precision: 40,
+    scale: 6,
+    default: 0,
+    transformer: new ColumnNumericTransformer(),
+  })
+  vtDifference: number;
+
+  @Expose({ name: 'lovelaceDifference' })
+  @Column({
+    name: 'lovelace_difference',
+    type: 'decimal',
+    precision: 40,
+    scale: 6,
+    default: 0,
+    transformer: new ColumnNumericTransformer(),
+  })
+  lovelaceDifference: number;
+
+  @Expose({ name: 'distributedClaimsChecked' })
+  @Column({ name: 'distributed_claims_checked', type: 'int', default: 0 })
+  distributedClaimsChecked: number;
+
+  // Addresses whose received VT or ADA differs from their claims by more than the tolerance
+  @Expose({ name: 'onChainDiscrepancies' })
+  @Column({ name: 'on_chain_discrepancies', type: 'int', default: 0 })
+  onChainDiscrepancies: number;
+
+  // Distribution transactions not found on-chain yet; their claims are checked on a later run
+  @Expose({ name: 'unconfirmedDistributionTxs' })
+  @Column({ name: 'unconfirmed_distribution_txs', type: 'int', default: 0 })
+  unconfirmedDistributionTxs: number;
+
+  @Expose({ name: 'onChainExpectedVt' })
+  @Column({
+    name: 'on_chain_expected_vt',
+    type: 'decimal',
+    precision: 78,
+    scale: 0,
+    default: 0,
+    transformer: new ColumnBigintStringTransformer(),
+  })
+  onChainExpectedVt: string;
+
+  @Expose({ name: 'onChainReceivedVt' })
+  @Column({
+    name: 'on_chain_received_vt',
+    type: 'decimal',
+    precision: 78,
+    scale: 0,
+    default: 0,
+    transformer: new ColumnBigintStringTransformer(),
+  })
+  onChainReceivedVt: string;
+
+  @Expose({ name: 'onChainExpectedLovelace' })
+  @Column({
+    name: 'on_chain_expected_lovelace',
+    type: 'decimal',
+    precision: 78,
+    scale: 0,
+    default: 0,
+    transformer: new ColumnBigintStringTransformer(),
+  })
+  onChainExpectedLovelace: string;
+
+  @Expose({ name: 'onChainReceivedLovelace' })
+  @Column({
+    name: 'on_chain_received_lovelace',
+    type: 'decimal',
+    precision: 78,
+    scale: 0,
+    default: 0,
+    transformer: new ColumnBigintStringTransformer(),
+  })
+  onChainReceivedLovelace: string;
+
+  // Discrepancies above tolerance, capped per kind
+  @Expose({ name: 'discrepancies' })
+  @Column({ name: 'discrepancies', type: 'jsonb', default: {} })
+  discrepancies: {
+    calculation?: CalculationClaimDiscrepancy[];
+    onChain?: OnChainClaimDiscrepancy[];
+  };
+
+  @Expose({ name: 'error' })
+  @Column({ name: 'error', type: 'text', nullable: true })
+  error: string | null;
+
+  @Expose({ name: 'createdAt' })
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
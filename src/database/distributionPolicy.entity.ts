@@ -0,0 +1,92 @@
+import { Expose } from 'class-transformer';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+import { DistributionPolicyStatus } from '../types/distribution-policy.types';
+
+import { DistributionPolicyRun } from './distributionPolicyRun.entity';
+import { Proposal } from './proposal.entity';
+import { Vault } from './vault.entity';
+
+/**
+ * Standing distribution approved once by a DISTRIBUTION_POLICY proposal.
+ * Every interval the scheduler distributes a share of the treasury ADA above the floor to VT holders.
+ */
+@Entity('distribution_policies')
+@Index(['status', 'nextRunAt'])
+export class DistributionPolicy {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'vaultId' })
+  @Column({ name: 'vault_id', type: 'uuid' })
+  vaultId: string;
+
+  @ManyToOne(() => Vault, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vault_id' })
+  vault: Vault;
+
+  @Expose({ name: 'proposalId' })
+  @Column({ name: 'proposal_id', type: 'uuid', unique: true })
+  proposalId: string;
+
+  @ManyToOne(() => Proposal, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'proposal_id' })
+  proposal: Proposal;
+
+  @Expose({ name: 'status' })
+  @Column({ name: 'status', type: 'enum', enum: DistributionPolicyStatus, default: DistributionPolicyStatus.ACTIVE })
+  status: DistributionPolicyStatus;
+
+  @Expose({ name: 'percentOfExcess' })
+  @Column({ name: 'percent_of_excess', type: 'numeric', precision: 5, scale: 2 })
+  percentOfExcess: string;
+
+  @Expose({ name: 'floorLovelace' })
+  @Column({ name: 'floor_lovelace', type: 'numeric' })
+  floorLovelace: string;
+
+  @Expose({ name: 'intervalMs' })
+  @Column({ name: 'interval_ms', type: 'bigint' })
+  intervalMs: string;
+
+  @Expose({ name: 'runCount' })
+  @Column({ name: 'run_count', type: 'int' })
+  runCount: number;
+
+  @Expose({ name: 'runsCompleted' })
+  @Column({ name: 'runs_completed', type: 'int', default: 0 })
+  runsCompleted: number;
+
+  @Expose({ name: 'nextRunAt' })
+  @Column({ name: 'next_run_at', type: 'timestamptz', nullable: true })
+  nextRunAt?: Date;
+
+  @Expose({ name: 'revokedByProposalId' })
+  @Column({ name: 'revoked_by_proposal_id', type: 'uuid', nullable: true })
+  revokedByProposalId?: string;
+
+  @Expose({ name: 'revokedAt' })
+  @Column({ name: 'revoked_at', type: 'timestamptz', nullable: true })
+  revokedAt?: Date;
+
+  @OneToMany(() => DistributionPolicyRun, run => run.policy)
+  runs: DistributionPolicyRun[];
+
+  @Expose({ name: 'createdAt' })
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Expose({ name: 'updatedAt' })
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,69 @@
+import { Expose } from 'class-transformer';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, JoinColumn, Index } from 'typeorm';
+
+import { DistributionMetadata } from '../modules/vaults/phase-management/governance/dto/distribution.dto';
+import { DistributionPolicyRunStatus } from '../types/distribution-policy.types';
+
+import { DistributionPolicy } from './distributionPolicy.entity';
+
+/**
+ * One scheduled payout of a distribution policy, with the batch tracking of its distribution.
+ */
+@Entity('distribution_policy_runs')
+@Index(['policyId', 'runNumber'], { unique: true })
+export class DistributionPolicyRun {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'policyId' })
+  @Column({ name: 'policy_id', type: 'uuid' })
+  policyId: string;
+
+  @ManyToOne(() => DistributionPolicy, policy => policy.runs, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'policy_id' })
+  policy: DistributionPolicy;
+
+  @Expose({ name: 'runNumber' })
+  @Column({ name: 'run_number', type: 'int' })
+  runNumber: number;
+
+  @Expose({ name: 'status' })
+  @Column({ name: 'status', type: 'enum', enum: DistributionPolicyRunStatus })
+  status: DistributionPolicyRunStatus;
+
+  @Expose({ name: 'scheduledAt' })
+  @Column({ name: 'scheduled_at', type: 'timestamptz' })
+  scheduledAt: Date;
+
+  @Expose({ name: 'snapshotId' })
+  @Column({ name: 'snapshot_id', type: 'uuid', nullable: true })
+  snapshotId?: string;
+
+  @Expose({ name: 'treasuryLovelace' })
+  @Column({ name: 'treasury_lovelace', type: 'numeric', nullable: true })
+  treasuryLovelace?: string;
+
+  @Expose({ name: 'distributedLovelace' })
+  @Column({ name: 'distributed_lovelace', type: 'numeric', default: 0 })
+  distributedLovelace: string;
+
+  @Expose({ name: 'recipientCount' })
+  @Column({ name: 'recipient_count', type: 'int', default: 0 })
+  recipientCount: number;
+
+  @Expose({ name: 'distribution' })
+  @Column({ name: 'distribution', type: 'jsonb', nullable: true })
+  distribution?: DistributionMetadata;
+
+  @Expose({ name: 'error' })
+  @Column({ name: 'error', type: 'text', nullable: true })
+  error?: string;
+
+  @Expose({ name: 'createdAt' })
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Expose({ name: 'finishedAt' })
+  @Column({ name: 'finished_at', type: 'timestamptz', nullable: true })
+  finishedAt?: Date;
+}
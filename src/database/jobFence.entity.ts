@@ -0,0 +1,17 @@
+import { Column, Entity, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * Highest fencing token that has written for a coordinated job. Fenced writes only move it forward,
+ * so a run whose lease was taken over cannot write after its successor.
+ */
+@Entity('job_fences')
+export class JobFence {
+  @PrimaryColumn({ name: 'name', type: 'varchar' })
+  name: string;
+
+  @Column({ name: 'fencing_token', type: 'bigint' })
+  fencingToken: string;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
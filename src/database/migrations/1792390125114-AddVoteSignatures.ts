@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddVoteSignatures1792390125114 implements MigrationInterface {
+  name = 'AddVoteSignatures1792390125114';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "vote" ADD "signed_payload" text`);
+    await queryRunner.query(`ALTER TABLE "vote" ADD "signature" text`);
+    await queryRunner.query(`ALTER TABLE "vote" ADD "signature_key" text`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "vote" DROP COLUMN "signature_key"`);
+    await queryRunner.query(`ALTER TABLE "vote" DROP COLUMN "signature"`);
+    await queryRunner.query(`ALTER TABLE "vote" DROP COLUMN "signed_payload"`);
+  }
+}
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddVoteHistory1792411904532 implements MigrationInterface {
+  name = 'AddVoteHistory1792411904532';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TYPE "public"."vote_history_action_enum" AS ENUM('cast', 'change', 'revoke')`);
+    await queryRunner.query(`CREATE TYPE "public"."vote_history_previous_vote_enum" AS ENUM('yes', 'no', 'abstain')`);
+    await queryRunner.query(`CREATE TYPE "public"."vote_history_new_vote_enum" AS ENUM('yes', 'no', 'abstain')`);
+    await queryRunner.query(
+      `CREATE TABLE "vote_history" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "proposal_id" uuid NOT NULL, "vote_id" uuid NOT NULL, "voter_address" character varying NOT NULL, "action" "public"."vote_history_action_enum" NOT NULL, "previous_vote" "public"."vote_history_previous_vote_enum", "new_vote" "public"."vote_history_new_vote_enum", "vote_weight" character varying NOT NULL, "signed_payload" text, "signature" text, "signature_key" text, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "voter_id" uuid NOT NULL, CONSTRAINT "PK_vote_history_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_vote_history_proposal_voter" ON "vote_history" ("proposal_id", "voter_address")`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "vote_history" ADD CONSTRAINT "FK_vote_history_proposal" FOREIGN KEY ("proposal_id") REFERENCES "proposal"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "vote_history" ADD CONSTRAINT "FK_vote_history_voter" FOREIGN KEY ("voter_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+
+    // Seed history with votes cast before vote changes were possible
+    await queryRunner.query(
+      `INSERT INTO "vote_history" ("proposal_id", "vote_id", "voter_address", "action", "new_vote", "vote_weight", "signed_payload", "signature", "signature_key", "timestamp", "voter_id")
+       SELECT "proposal_id", "id", "voter_address", 'cast', "vote"::text::"public"."vote_history_new_vote_enum", "vote_weight", "signed_payload", "signature", "signature_key", "timestamp", "voter_id" FROM "vote"`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "vote_history" DROP CONSTRAINT "FK_vote_history_voter"`);
+    await queryRunner.query(`ALTER TABLE "vote_history" DROP CONSTRAINT "FK_vote_history_proposal"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_vote_history_proposal_voter"`);
+    await queryRunner.query(`DROP TABLE "vote_history"`);
+    await queryRunner.query(`DROP TYPE "public"."vote_history_new_vote_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."vote_history_previous_vote_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."vote_history_action_enum"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddVoteDelegations1792433518207 implements MigrationInterface {
+  name = 'AddVoteDelegations1792433518207';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "vote_delegations" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "vault_id" uuid NOT NULL, "delegator_id" uuid NOT NULL, "delegator_address" character varying NOT NULL, "delegate_address" character varying NOT NULL, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "revoked_at" TIMESTAMP WITH TIME ZONE, CONSTRAINT "PK_vote_delegations_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_vote_delegations_active_delegator" ON "vote_delegations" ("vault_id", "delegator_address") WHERE "revoked_at" IS NULL`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_vote_delegations_delegate" ON "vote_delegations" ("vault_id", "delegate_address")`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "vote_delegations" ADD CONSTRAINT "FK_vote_delegations_vault" FOREIGN KEY ("vault_id") REFERENCES "vaults"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "vote_delegations" ADD CONSTRAINT "FK_vote_delegations_delegator" FOREIGN KEY ("delegator_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(`ALTER TABLE "vote" ADD "delegated_from" jsonb`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "vote" DROP COLUMN "delegated_from"`);
+    await queryRunner.query(`ALTER TABLE "vote_delegations" DROP CONSTRAINT "FK_vote_delegations_delegator"`);
+    await queryRunner.query(`ALTER TABLE "vote_delegations" DROP CONSTRAINT "FK_vote_delegations_vault"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_vote_delegations_delegate"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_vote_delegations_active_delegator"`);
+    await queryRunner.query(`DROP TABLE "vote_delegations"`);
+  }
+}
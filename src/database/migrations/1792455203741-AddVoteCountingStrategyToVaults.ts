@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddVoteCountingStrategyToVaults1792455203741 implements MigrationInterface {
+  name = 'AddVoteCountingStrategyToVaults1792455203741';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."vaults_vote_counting_strategy_enum" AS ENUM('linear', 'quadratic', 'capped', 'one_address_one_vote')`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "vaults" ADD "vote_counting_strategy" "public"."vaults_vote_counting_strategy_enum" NOT NULL DEFAULT 'linear'`
+    );
+    await queryRunner.query(`ALTER TABLE "vaults" ADD "vote_counting_cap_percent" numeric`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "vaults" DROP COLUMN "vote_counting_cap_percent"`);
+    await queryRunner.query(`ALTER TABLE "vaults" DROP COLUMN "vote_counting_strategy"`);
+    await queryRunner.query(`DROP TYPE "public"."vaults_vote_counting_strategy_enum"`);
+  }
+}
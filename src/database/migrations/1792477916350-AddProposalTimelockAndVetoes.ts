@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddProposalTimelockAndVetoes1792477916350 implements MigrationInterface {
+  name = 'AddProposalTimelockAndVetoes1792477916350';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TYPE "public"."proposal_status_enum" ADD VALUE IF NOT EXISTS 'vetoed'`);
+    await queryRunner.query(`ALTER TABLE "proposal" ADD "executable_at" TIMESTAMP WITH TIME ZONE`);
+    await queryRunner.query(
+      `CREATE TABLE "proposal_vetoes" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "proposal_id" uuid NOT NULL, "voter_id" uuid NOT NULL, "voter_address" character varying NOT NULL, "weight" numeric NOT NULL, "signed_payload" text NOT NULL, "signature" text NOT NULL, "signature_key" text NOT NULL, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_proposal_vetoes_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_proposal_vetoes_proposal_voter" ON "proposal_vetoes" ("proposal_id", "voter_address")`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "proposal_vetoes" ADD CONSTRAINT "FK_proposal_vetoes_proposal" FOREIGN KEY ("proposal_id") REFERENCES "proposal"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "proposal_vetoes" ADD CONSTRAINT "FK_proposal_vetoes_voter" FOREIGN KEY ("voter_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "proposal_vetoes" DROP CONSTRAINT "FK_proposal_vetoes_voter"`);
+    await queryRunner.query(`ALTER TABLE "proposal_vetoes" DROP CONSTRAINT "FK_proposal_vetoes_proposal"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_proposal_vetoes_proposal_voter"`);
+    await queryRunner.query(`DROP TABLE "proposal_vetoes"`);
+    await queryRunner.query(`ALTER TABLE "proposal" DROP COLUMN "executable_at"`);
+    await queryRunner.query(`UPDATE "proposal" SET "status" = 'rejected' WHERE "status" = 'vetoed'`);
+    await queryRunner.query(`ALTER TYPE "public"."proposal_status_enum" RENAME TO "proposal_status_enum_old"`);
+    await queryRunner.query(
+      `CREATE TYPE "public"."proposal_status_enum" AS ENUM('unpaid', 'upcoming', 'active', 'passed', 'rejected', 'executed')`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "proposal" ALTER COLUMN "status" TYPE "public"."proposal_status_enum" USING "status"::"text"::"public"."proposal_status_enum"`
+    );
+    await queryRunner.query(`DROP TYPE "public"."proposal_status_enum_old"`);
+  }
+}
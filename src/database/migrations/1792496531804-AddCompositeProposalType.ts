@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCompositeProposalType1792496531804 implements MigrationInterface {
+  name = 'AddCompositeProposalType1792496531804';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TYPE "public"."proposal_proposal_type_enum" ADD VALUE IF NOT EXISTS 'composite'`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM "proposal" WHERE "proposal_type" = 'composite'`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."proposal_proposal_type_enum" RENAME TO "proposal_proposal_type_enum_old"`
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."proposal_proposal_type_enum" AS ENUM('staking', 'distribution', 'termination', 'burning', 'buy_sell', 'marketplace_action', 'expansion', 'acquire_expansion', 'asset_whitelist_update')`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "proposal" ALTER COLUMN "proposal_type" TYPE "public"."proposal_proposal_type_enum" USING "proposal_type"::"text"::"public"."proposal_proposal_type_enum"`
+    );
+    await queryRunner.query(`DROP TYPE "public"."proposal_proposal_type_enum_old"`);
+  }
+}
@@ -0,0 +1,68 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDistributionPolicies1792519874412 implements MigrationInterface {
+  name = 'AddDistributionPolicies1792519874412';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."proposal_proposal_type_enum" ADD VALUE IF NOT EXISTS 'distribution_policy'`
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."proposal_proposal_type_enum" ADD VALUE IF NOT EXISTS 'revoke_distribution_policy'`
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."distribution_policies_status_enum" AS ENUM('active', 'completed', 'revoked')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "distribution_policies" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "vault_id" uuid NOT NULL, "proposal_id" uuid NOT NULL, "status" "public"."distribution_policies_status_enum" NOT NULL DEFAULT 'active', "percent_of_excess" numeric(5,2) NOT NULL, "floor_lovelace" numeric NOT NULL, "interval_ms" bigint NOT NULL, "run_count" integer NOT NULL, "runs_completed" integer NOT NULL DEFAULT '0', "next_run_at" TIMESTAMP WITH TIME ZONE, "revoked_by_proposal_id" uuid, "revoked_at" TIMESTAMP WITH TIME ZONE, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "UQ_distribution_policies_proposal" UNIQUE ("proposal_id"), CONSTRAINT "PK_distribution_policies_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_distribution_policies_status_next_run" ON "distribution_policies" ("status", "next_run_at")`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "distribution_policies" ADD CONSTRAINT "FK_distribution_policies_vault" FOREIGN KEY ("vault_id") REFERENCES "vaults"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "distribution_policies" ADD CONSTRAINT "FK_distribution_policies_proposal" FOREIGN KEY ("proposal_id") REFERENCES "proposal"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."distribution_policy_runs_status_enum" AS ENUM('running', 'completed', 'partially_failed', 'failed', 'skipped')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "distribution_policy_runs" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "policy_id" uuid NOT NULL, "run_number" integer NOT NULL, "status" "public"."distribution_policy_runs_status_enum" NOT NULL, "scheduled_at" TIMESTAMP WITH TIME ZONE NOT NULL, "snapshot_id" uuid, "treasury_lovelace" numeric, "distributed_lovelace" numeric NOT NULL DEFAULT '0', "recipient_count" integer NOT NULL DEFAULT '0', "distribution" jsonb, "error" text, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "finished_at" TIMESTAMP WITH TIME ZONE, CONSTRAINT "PK_distribution_policy_runs_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_distribution_policy_runs_policy_run" ON "distribution_policy_runs" ("policy_id", "run_number")`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "distribution_policy_runs" ADD CONSTRAINT "FK_distribution_policy_runs_policy" FOREIGN KEY ("policy_id") REFERENCES "distribution_policies"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "distribution_policy_runs" DROP CONSTRAINT "FK_distribution_policy_runs_policy"`
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_distribution_policy_runs_policy_run"`);
+    await queryRunner.query(`DROP TABLE "distribution_policy_runs"`);
+    await queryRunner.query(`DROP TYPE "public"."distribution_policy_runs_status_enum"`);
+    await queryRunner.query(`ALTER TABLE "distribution_policies" DROP CONSTRAINT "FK_distribution_policies_proposal"`);
+    await queryRunner.query(`ALTER TABLE "distribution_policies" DROP CONSTRAINT "FK_distribution_policies_vault"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_distribution_policies_status_next_run"`);
+    await queryRunner.query(`DROP TABLE "distribution_policies"`);
+    await queryRunner.query(`DROP TYPE "public"."distribution_policies_status_enum"`);
+    await queryRunner.query(
+      `DELETE FROM "proposal" WHERE "proposal_type" IN ('distribution_policy', 'revoke_distribution_policy')`
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."proposal_proposal_type_enum" RENAME TO "proposal_proposal_type_enum_old"`
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."proposal_proposal_type_enum" AS ENUM('staking', 'distribution', 'termination', 'burning', 'buy_sell', 'marketplace_action', 'expansion', 'acquire_expansion', 'asset_whitelist_update', 'composite')`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "proposal" ALTER COLUMN "proposal_type" TYPE "public"."proposal_proposal_type_enum" USING "proposal_type"::"text"::"public"."proposal_proposal_type_enum"`
+    );
+    await queryRunner.query(`DROP TYPE "public"."proposal_proposal_type_enum_old"`);
+  }
+}
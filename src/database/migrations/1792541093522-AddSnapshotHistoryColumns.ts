@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSnapshotHistoryColumns1792541093522 implements MigrationInterface {
+  name = 'AddSnapshotHistoryColumns1792541093522';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."snapshot_source_enum" AS ENUM('automatic', 'on_demand', 'historical')`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "snapshot" ADD "source" "public"."snapshot_source_enum" NOT NULL DEFAULT 'automatic'`
+    );
+    await queryRunner.query(`ALTER TABLE "snapshot" ADD "slot" bigint`);
+    await queryRunner.query(`ALTER TABLE "snapshot" ADD "holder_count" integer NOT NULL DEFAULT 0`);
+    await queryRunner.query(`ALTER TABLE "snapshot" ADD "total_balance" numeric NOT NULL DEFAULT 0`);
+    await queryRunner.query(
+      `UPDATE "snapshot" SET
+        "holder_count" = (SELECT COUNT(*) FROM jsonb_object_keys("address_balances")),
+        "total_balance" = (SELECT COALESCE(SUM(value::numeric), 0) FROM jsonb_each_text("address_balances"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_snapshot_vault_created_at" ON "snapshot" ("vault_id", "created_at")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "public"."IDX_snapshot_vault_created_at"`);
+    await queryRunner.query(`ALTER TABLE "snapshot" DROP COLUMN "total_balance"`);
+    await queryRunner.query(`ALTER TABLE "snapshot" DROP COLUMN "holder_count"`);
+    await queryRunner.query(`ALTER TABLE "snapshot" DROP COLUMN "slot"`);
+    await queryRunner.query(`ALTER TABLE "snapshot" DROP COLUMN "source"`);
+    await queryRunner.query(`DROP TYPE "public"."snapshot_source_enum"`);
+  }
+}
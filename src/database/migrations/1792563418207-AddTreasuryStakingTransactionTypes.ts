@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTreasuryStakingTransactionTypes1792563418207 implements MigrationInterface {
+  name = 'AddTreasuryStakingTransactionTypes1792563418207';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TYPE "transactions_type_enum" ADD VALUE IF NOT EXISTS 'treasury-stake-register'`);
+    await queryRunner.query(`ALTER TYPE "transactions_type_enum" ADD VALUE IF NOT EXISTS 'treasury-stake-delegate'`);
+    await queryRunner.query(`ALTER TYPE "transactions_type_enum" ADD VALUE IF NOT EXISTS 'treasury-reward-withdrawal'`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot DROP VALUE from an enum; only the rows using the values are removed
+    await queryRunner.query(
+      `DELETE FROM "transactions" WHERE "type" IN ('treasury-stake-register', 'treasury-stake-delegate', 'treasury-reward-withdrawal')`
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMultisigTreasury1792587265914 implements MigrationInterface {
+  name = 'AddMultisigTreasury1792587265914';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."vault_treasury_wallets_mode_enum" AS ENUM('single_key', 'multisig')`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "vault_treasury_wallets" ADD "mode" "public"."vault_treasury_wallets_mode_enum" NOT NULL DEFAULT 'single_key'`
+    );
+    await queryRunner.query(`ALTER TABLE "vault_treasury_wallets" ADD "native_script" text`);
+    await queryRunner.query(`ALTER TABLE "vault_treasury_wallets" ADD "signers" jsonb`);
+    await queryRunner.query(`ALTER TABLE "vault_treasury_wallets" ADD "required_signatures" integer`);
+    await queryRunner.query(
+      `CREATE TYPE "public"."treasury_pending_transactions_status_enum" AS ENUM('collecting', 'submitted', 'expired', 'failed')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "treasury_pending_transactions" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "vault_id" uuid NOT NULL, "transaction_id" uuid, "purpose" character varying(50) NOT NULL, "status" "public"."treasury_pending_transactions_status_enum" NOT NULL DEFAULT 'collecting', "tx_hash" character varying(64) NOT NULL, "tx_cbor" text NOT NULL, "required_signatures" integer NOT NULL, "signed_by" jsonb NOT NULL DEFAULT '[]', "spent_inputs" jsonb NOT NULL DEFAULT '[]', "expires_at" TIMESTAMP WITH TIME ZONE, "submitted_at" TIMESTAMP WITH TIME ZONE, "error" text, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_treasury_pending_transactions_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_treasury_pending_transactions_vault_status" ON "treasury_pending_transactions" ("vault_id", "status")`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "treasury_pending_transactions" ADD CONSTRAINT "FK_treasury_pending_transactions_vault" FOREIGN KEY ("vault_id") REFERENCES "vaults"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "treasury_pending_transactions" ADD CONSTRAINT "FK_treasury_pending_transactions_transaction" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "treasury_pending_transactions" DROP CONSTRAINT "FK_treasury_pending_transactions_transaction"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "treasury_pending_transactions" DROP CONSTRAINT "FK_treasury_pending_transactions_vault"`
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_treasury_pending_transactions_vault_status"`);
+    await queryRunner.query(`DROP TABLE "treasury_pending_transactions"`);
+    await queryRunner.query(`DROP TYPE "public"."treasury_pending_transactions_status_enum"`);
+    await queryRunner.query(`ALTER TABLE "vault_treasury_wallets" DROP COLUMN "required_signatures"`);
+    await queryRunner.query(`ALTER TABLE "vault_treasury_wallets" DROP COLUMN "signers"`);
+    await queryRunner.query(`ALTER TABLE "vault_treasury_wallets" DROP COLUMN "native_script"`);
+    await queryRunner.query(`ALTER TABLE "vault_treasury_wallets" DROP COLUMN "mode"`);
+    await queryRunner.query(`DROP TYPE "public"."vault_treasury_wallets_mode_enum"`);
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTreasuryKeyRotationJobs1792609183346 implements MigrationInterface {
+  name = 'AddTreasuryKeyRotationJobs1792609183346';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."treasury_key_rotation_jobs_status_enum" AS ENUM('running', 'completed', 'failed')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "treasury_key_rotation_jobs" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "status" "public"."treasury_key_rotation_jobs_status_enum" NOT NULL DEFAULT 'running', "target_key_name" character varying NOT NULL, "target_key_version" character varying NOT NULL, "requested_by" character varying NOT NULL, "total_wallets" integer NOT NULL DEFAULT 0, "rotated_count" integer NOT NULL DEFAULT 0, "skipped_count" integer NOT NULL DEFAULT 0, "failed_count" integer NOT NULL DEFAULT 0, "last_wallet_id" uuid, "failures" jsonb NOT NULL DEFAULT '[]', "error" text, "completed_at" TIMESTAMP WITH TIME ZONE, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_treasury_key_rotation_jobs_id" PRIMARY KEY ("id"))`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "treasury_key_rotation_jobs"`);
+    await queryRunner.query(`DROP TYPE "public"."treasury_key_rotation_jobs_status_enum"`);
+  }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAuditLogEntries1792630547120 implements MigrationInterface {
+  name = 'AddAuditLogEntries1792630547120';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TYPE "public"."audit_log_entries_outcome_enum" AS ENUM('success', 'failure')`);
+    await queryRunner.query(
+      `CREATE TABLE "audit_log_entries" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "sequence" bigint NOT NULL, "action" character varying NOT NULL, "outcome" "public"."audit_log_entries_outcome_enum" NOT NULL DEFAULT 'success', "actor" character varying NOT NULL, "user_id" character varying, "vault_id" uuid, "request_id" character varying, "ip_address" character varying, "user_agent" character varying, "method" character varying, "path" character varying, "details" jsonb NOT NULL DEFAULT '{}', "prev_hash" character varying(64), "hash" character varying(64) NOT NULL, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL, CONSTRAINT "UQ_audit_log_entries_sequence" UNIQUE ("sequence"), CONSTRAINT "UQ_audit_log_entries_hash" UNIQUE ("hash"), CONSTRAINT "PK_audit_log_entries_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_audit_log_entries_action_created_at" ON "audit_log_entries" ("action", "created_at")`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_audit_log_entries_vault_created_at" ON "audit_log_entries" ("vault_id", "created_at")`
+    );
+
+    // Append-only: rewriting history has to go through dropping the trigger, which is itself visible
+    await queryRunner.query(`
+      CREATE FUNCTION "audit_log_entries_append_only"() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'audit_log_entries is append-only (% rejected)', TG_OP;
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await queryRunner.query(
+      `CREATE TRIGGER "TRG_audit_log_entries_no_update_delete" BEFORE UPDATE OR DELETE ON "audit_log_entries" FOR EACH ROW EXECUTE FUNCTION "audit_log_entries_append_only"()`
+    );
+    await queryRunner.query(
+      `CREATE TRIGGER "TRG_audit_log_entries_no_truncate" BEFORE TRUNCATE ON "audit_log_entries" FOR EACH STATEMENT EXECUTE FUNCTION "audit_log_entries_append_only"()`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TRIGGER "TRG_audit_log_entries_no_truncate" ON "audit_log_entries"`);
+    await queryRunner.query(`DROP TRIGGER "TRG_audit_log_entries_no_update_delete" ON "audit_log_entries"`);
+    await queryRunner.query(`DROP FUNCTION "audit_log_entries_append_only"()`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_audit_log_entries_vault_created_at"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_audit_log_entries_action_created_at"`);
+    await queryRunner.query(`DROP TABLE "audit_log_entries"`);
+    await queryRunner.query(`DROP TYPE "public"."audit_log_entries_outcome_enum"`);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTreasuryLedgerEntries1792652318694 implements MigrationInterface {
+  name = 'AddTreasuryLedgerEntries1792652318694';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."treasury_ledger_entries_category_enum" AS ENUM('sale', 'marketplace_listing', 'purchase', 'swap', 'lp_withdrawal', 'distribution', 'extraction', 'staking', 'staking_reward', 'governance_fee', 'network_fee', 'transfer_in', 'transfer_out')`
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."treasury_ledger_entries_direction_enum" AS ENUM('inflow', 'outflow')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "treasury_ledger_entries" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "vault_id" uuid NOT NULL, "address" character varying NOT NULL, "tx_hash" character varying NOT NULL, "block_height" integer NOT NULL, "tx_index" integer NOT NULL, "block_time" TIMESTAMP WITH TIME ZONE NOT NULL, "category" "public"."treasury_ledger_entries_category_enum" NOT NULL, "direction" "public"."treasury_ledger_entries_direction_enum" NOT NULL, "unit" character varying NOT NULL, "quantity" numeric(78,0) NOT NULL, "decimals" integer NOT NULL DEFAULT 0, "ada_value" numeric(30,6), "usd_value" numeric(30,6), "ada_usd_price" numeric(20,8), "priced_at" TIMESTAMP WITH TIME ZONE, "transaction_id" uuid, "metadata" jsonb, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_treasury_ledger_entries_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_treasury_ledger_entries_vault_block" ON "treasury_ledger_entries" ("vault_id", "block_height", "tx_index")`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_treasury_ledger_entries_vault_tx_unit_category" ON "treasury_ledger_entries" ("vault_id", "tx_hash", "unit", "category")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."UQ_treasury_ledger_entries_vault_tx_unit_category"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_treasury_ledger_entries_vault_block"`);
+    await queryRunner.query(`DROP TABLE "treasury_ledger_entries"`);
+    await queryRunner.query(`DROP TYPE "public"."treasury_ledger_entries_direction_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."treasury_ledger_entries_category_enum"`);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTreasurySweeps1792674095231 implements MigrationInterface {
+  name = 'AddTreasurySweeps1792674095231';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."treasury_sweeps_status_enum" AS ENUM('prepared', 'confirmed', 'submitted', 'skipped', 'cancelled', 'expired', 'failed')`
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."treasury_sweeps_destination_kind_enum" AS ENUM('vault_contract', 'multisig_treasury', 'burn_wallet', 'platform_admin', 'governance_approved')`
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."treasury_sweeps_authorization_type_enum" AS ENUM('proposal', 'termination', 'multisig_migration')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "treasury_sweeps" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "vault_id" uuid NOT NULL, "status" "public"."treasury_sweeps_status_enum" NOT NULL DEFAULT 'prepared', "destination_address" character varying NOT NULL, "destination_kind" "public"."treasury_sweeps_destination_kind_enum" NOT NULL, "authorization_type" "public"."treasury_sweeps_authorization_type_enum" NOT NULL, "proposal_id" uuid, "lovelace" numeric(78,0) NOT NULL, "assets" jsonb NOT NULL DEFAULT '[]', "value_ada" numeric(30,6) NOT NULL, "requires_confirmation" boolean NOT NULL DEFAULT false, "requested_by" character varying NOT NULL, "confirmed_by" character varying, "expires_at" TIMESTAMP WITH TIME ZONE NOT NULL, "tx_hash" character varying, "error" text, "confirmed_at" TIMESTAMP WITH TIME ZONE, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_treasury_sweeps_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_treasury_sweeps_vault_status" ON "treasury_sweeps" ("vault_id", "status")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_treasury_sweeps_vault_status"`);
+    await queryRunner.query(`DROP TABLE "treasury_sweeps"`);
+    await queryRunner.query(`DROP TYPE "public"."treasury_sweeps_authorization_type_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."treasury_sweeps_destination_kind_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."treasury_sweeps_status_enum"`);
+  }
+}
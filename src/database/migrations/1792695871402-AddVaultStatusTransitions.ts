@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddVaultStatusTransitions1792695871402 implements MigrationInterface {
+  name = 'AddVaultStatusTransitions1792695871402';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "vault_status_transitions" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "vault_id" uuid NOT NULL, "from_status" character varying, "to_status" character varying NOT NULL, "reason" character varying NOT NULL, "actor" character varying NOT NULL, "tx_hash" character varying, "proposal_id" uuid, "details" jsonb, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_vault_status_transitions_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_vault_status_transitions_vault_created" ON "vault_status_transitions" ("vault_id", "created_at")`
+    );
+
+    // Existing vaults start their timeline at the status they are in now
+    await queryRunner.query(
+      `INSERT INTO "vault_status_transitions" ("vault_id", "from_status", "to_status", "reason", "actor") SELECT "id", NULL, "vault_status"::text, 'backfill', 'system' FROM "vaults" WHERE "vault_status" IS NOT NULL`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_vault_status_transitions_vault_created"`);
+    await queryRunner.query(`DROP TABLE "vault_status_transitions"`);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddClaimReconciliationReports1792718964127 implements MigrationInterface {
+  name = 'AddClaimReconciliationReports1792718964127';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."claim_reconciliation_reports_trigger_enum" AS ENUM('post_distribution', 'scheduled', 'manual')`
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."claim_reconciliation_reports_status_enum" AS ENUM('ok', 'discrepancies', 'failed')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "claim_reconciliation_reports" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "vault_id" uuid NOT NULL, "trigger" "public"."claim_reconciliation_reports_trigger_enum" NOT NULL, "status" "public"."claim_reconciliation_reports_status_enum" NOT NULL, "claims_checked" integer NOT NULL DEFAULT 0, "calculation_discrepancies" integer NOT NULL DEFAULT 0, "vt_difference" numeric(40,6) NOT NULL DEFAULT 0, "lovelace_difference" numeric(40,6) NOT NULL DEFAULT 0, "distributed_claims_checked" integer NOT NULL DEFAULT 0, "on_chain_discrepancies" integer NOT NULL DEFAULT 0, "unconfirmed_distribution_txs" integer NOT NULL DEFAULT 0, "on_chain_expected_vt" numeric(78,0) NOT NULL DEFAULT 0, "on_chain_received_vt" numeric(78,0) NOT NULL DEFAULT 0, "on_chain_expected_lovelace" numeric(78,0) NOT NULL DEFAULT 0, "on_chain_received_lovelace" numeric(78,0) NOT NULL DEFAULT 0, "discrepancies" jsonb NOT NULL DEFAULT '{}', "error" text, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_claim_reconciliation_reports_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_claim_reconciliation_reports_vault_created" ON "claim_reconciliation_reports" ("vault_id", "created_at")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_claim_reconciliation_reports_vault_created"`);
+    await queryRunner.query(`DROP TABLE "claim_reconciliation_reports"`);
+    await queryRunner.query(`DROP TYPE "public"."claim_reconciliation_reports_status_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."claim_reconciliation_reports_trigger_enum"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCardanoClaimSets1792741302856 implements MigrationInterface {
+  name = 'AddCardanoClaimSets1792741302856';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "cardano_claim_sets" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "vault_id" uuid NOT NULL, "root" character varying(66) NOT NULL, "leaf_count" integer NOT NULL, "total_vt" numeric(78,0) NOT NULL, "total_lovelace" numeric(78,0) NOT NULL, "metadata_tx_hash" character varying, "published_at" TIMESTAMP WITH TIME ZONE, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_cardano_claim_sets_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_cardano_claim_sets_vault_root" ON "cardano_claim_sets" ("vault_id", "root")`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "cardano_claim_leaves" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "claim_set_id" uuid NOT NULL, "vault_id" uuid NOT NULL, "leaf_index" integer NOT NULL, "address" character varying NOT NULL, "user_id" uuid, "vt_amount" numeric(78,0) NOT NULL, "lovelace_amount" numeric(78,0) NOT NULL, "claim_ids" jsonb NOT NULL, "leaf_hash" character varying(66) NOT NULL, "proof" jsonb NOT NULL, CONSTRAINT "PK_cardano_claim_leaves_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_cardano_claim_leaves_set_address" ON "cardano_claim_leaves" ("claim_set_id", "address")`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_cardano_claim_leaves_vault_address" ON "cardano_claim_leaves" ("vault_id", "address")`
+    );
+    await queryRunner.query(`ALTER TABLE "vaults" ADD "claims_merkle_root" character varying(66)`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "vaults" DROP COLUMN "claims_merkle_root"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_cardano_claim_leaves_vault_address"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_cardano_claim_leaves_set_address"`);
+    await queryRunner.query(`DROP TABLE "cardano_claim_leaves"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_cardano_claim_sets_vault_root"`);
+    await queryRunner.query(`DROP TABLE "cardano_claim_sets"`);
+  }
+}
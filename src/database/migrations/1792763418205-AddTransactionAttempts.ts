@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTransactionAttempts1792763418205 implements MigrationInterface {
+  name = 'AddTransactionAttempts1792763418205';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."transaction_attempts_kind_enum" AS ENUM('submit', 'rebuild', 'fee-bump')`
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."transaction_attempts_status_enum" AS ENUM('submitted', 'confirmed', 'replaced', 'expired', 'double-spent', 'failed')`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "transaction_attempts" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "transaction_id" uuid, "attempt_number" integer NOT NULL DEFAULT 1, "kind" "public"."transaction_attempts_kind_enum" NOT NULL DEFAULT 'submit', "status" "public"."transaction_attempts_status_enum" NOT NULL DEFAULT 'submitted', "tx_hash" character varying NOT NULL, "replaces_tx_hash" character varying, "tx_cbor" text, "signatures" jsonb, "inputs" jsonb, "ttl_slot" bigint, "nonce" integer, "evm_request" jsonb, "broadcast_count" integer NOT NULL DEFAULT 1, "last_broadcast_at" TIMESTAMP WITH TIME ZONE NOT NULL, "consumed_by" character varying, "error" text, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_transaction_attempts_id" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_transaction_attempts_tx_hash" ON "transaction_attempts" ("tx_hash")`
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_transaction_attempts_transaction" ON "transaction_attempts" ("transaction_id", "attempt_number")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_transaction_attempts_transaction"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_transaction_attempts_tx_hash"`);
+    await queryRunner.query(`DROP TABLE "transaction_attempts"`);
+    await queryRunner.query(`DROP TYPE "public"."transaction_attempts_status_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."transaction_attempts_kind_enum"`);
+  }
+}
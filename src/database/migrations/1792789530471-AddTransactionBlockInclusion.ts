@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTransactionBlockInclusion1792789530471 implements MigrationInterface {
+  name = 'AddTransactionBlockInclusion1792789530471';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "transactions" ADD "block_hash" character varying`);
+    await queryRunner.query(`ALTER TABLE "transactions" ADD "block_slot" bigint`);
+    await queryRunner.query(`ALTER TABLE "transactions" ADD "rollback_count" integer NOT NULL DEFAULT 0`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_transactions_block_inclusion" ON "transactions" ("block_number") WHERE "block_hash" IS NOT NULL`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_transactions_block_inclusion"`);
+    await queryRunner.query(`ALTER TABLE "transactions" DROP COLUMN "rollback_count"`);
+    await queryRunner.query(`ALTER TABLE "transactions" DROP COLUMN "block_slot"`);
+    await queryRunner.query(`ALTER TABLE "transactions" DROP COLUMN "block_hash"`);
+  }
+}
@@ -7,7 +7,8 @@ import {
   NonFungibleTokenDto,
 } from '../modules/vaults/phase-management/governance/dto/create-proposal.req';
 import { DistributionMetadata } from '../modules/vaults/phase-management/governance/dto/distribution.dto';
-import { ProposalStatus, ProposalType } from '../types/proposal.types';
+import { CompositeStepType, ProposalStatus, ProposalStepStatus, ProposalType } from '../types/proposal.types';
+import { TreasurySignerElection } from '../types/treasury.types';
 
 import { Claim } from './claim.entity';
 import { Snapshot } from './snapshot.entity';
@@ -66,6 +67,11 @@ export class Proposal {
   @Column({ name: 'execution_date', nullable: true, type: 'timestamptz' })
   executionDate?: Date;
 
+  // End of the post-PASSED timelock; execution is held back (and vetoes accepted) until then
+  @Expose({ name: 'executableAt' })
+  @Column({ name: 'executable_at', nullable: true, type: 'timestamptz' })
+  executableAt?: Date;
+
   @Expose({ name: 'snapshot' })
   @ManyToOne(() => Snapshot, snapshot => snapshot.proposals, { nullable: false, onDelete: 'CASCADE' })
   @JoinColumn({ name: 'snapshot_id' })
@@ -82,18 +88,44 @@ export class Proposal {
     fungibleTokens?: FungibleTokenDto[];
     nonFungibleTokens?: NonFungibleTokenDto[];
 
+    // Treasury stake-pool delegation (bech32 pool ID); rewards are withdrawn before re-delegating when requested
+    stakeDelegation?: {
+      poolId: string;
+      withdrawRewards: boolean;
+    };
+
     // Buy/Sell data - each action can include a displayName field (fetched from Blockfrost on-chain metadata)
     marketplaceActions?: MarketplaceActionDto[];
 
     // Distribution data - total lovelace amount to distribute
     distributionLovelaceAmount?: string;
 
+    // Native tokens distributed alongside the lovelace (unit = policy ID + hex asset name)
+    distributionAssets?: Array<{ unit: string; quantity: string }>;
+
     // Distribution execution tracking (for ADA distributions)
     distribution?: DistributionMetadata;
 
+    // Recurring distribution policy terms; each run is tracked in distribution_policy_runs
+    distributionPolicy?: {
+      percentOfExcess: number;
+      floorLovelace: string;
+      intervalMs: number;
+      runCount: number;
+    };
+
+    // Policy revoked by a REVOKE_DISTRIBUTION_POLICY proposal
+    revokeDistributionPolicyId?: string;
+
     // Burning data
     burnAssets?: string[];
 
+    // Addresses the treasury may be swept to once the proposal passed (allow-list of TreasurySweepService)
+    treasurySweepDestinations?: string[];
+
+    // Multisig treasury cosigners elected by the proposal (TreasuryMultisigService.enableMultisig)
+    treasurySigners?: TreasurySignerElection;
+
     // Expansion data
     expansion?: {
       policyIds: string[];
@@ -152,6 +184,24 @@ export class Proposal {
       actualSlippage?: number;
     }>;
 
+    // Composite proposal steps, executed in order; each step carries the metadata of its own type
+    steps?: Array<{
+      type: CompositeStepType;
+      metadata: {
+        fungibleTokens?: FungibleTokenDto[];
+        nonFungibleTokens?: NonFungibleTokenDto[];
+        stakeDelegation?: { poolId: string; withdrawRewards: boolean };
+        marketplaceActions?: MarketplaceActionDto[];
+        distributionLovelaceAmount?: string;
+        distributionAssets?: Array<{ unit: string; quantity: string }>;
+        burnAssets?: string[];
+      };
+      status: ProposalStepStatus;
+      startedAt?: string; // ISO date string
+      completedAt?: string; // ISO date string
+      error?: string;
+    }>;
+
     // Execution retry tracking
     _executionRetry?: {
       count: number;
@@ -165,6 +215,15 @@ export class Proposal {
       feeAmount: number; // Fee amount in lovelace
     };
 
+    // Veto during the timelock (owner veto or holder supermajority)
+    veto?: {
+      vetoedBy: 'owner' | 'holders';
+      userId?: string;
+      reason?: string;
+      vetoWeight?: string;
+      timestamp: string; // ISO date string
+    };
+
     // Error tracking
     executionError?: {
       message: string;
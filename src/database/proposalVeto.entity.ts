@@ -0,0 +1,56 @@
+import { Expose } from 'class-transformer';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, JoinColumn, Index } from 'typeorm';
+
+import { Proposal } from './proposal.entity';
+import { User } from './user.entity';
+
+/**
+ * Signed veto from a VT holder against a PASSED proposal still inside its timelock.
+ * Once the snapshot weight of all vetoes reaches the configured supermajority the proposal is VETOED.
+ */
+@Entity('proposal_vetoes')
+@Index(['proposalId', 'voterAddress'], { unique: true })
+export class ProposalVeto {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'proposalId' })
+  @Column({ name: 'proposal_id', type: 'uuid' })
+  proposalId: string;
+
+  @ManyToOne(() => Proposal, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'proposal_id' })
+  proposal: Proposal;
+
+  @Expose({ name: 'voterId' })
+  @Column({ name: 'voter_id', type: 'uuid' })
+  voterId: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'voter_id' })
+  voter: User;
+
+  @Expose({ name: 'voterAddress' })
+  @Column({ name: 'voter_address' })
+  voterAddress: string;
+
+  @Expose({ name: 'weight' })
+  @Column({ name: 'weight', type: 'numeric' })
+  weight: string;
+
+  @Expose({ name: 'signedPayload' })
+  @Column({ name: 'signed_payload', type: 'text' })
+  signedPayload: string;
+
+  @Expose({ name: 'signature' })
+  @Column({ name: 'signature', type: 'text' })
+  signature: string;
+
+  @Expose({ name: 'signatureKey' })
+  @Column({ name: 'signature_key', type: 'text' })
+  signatureKey: string;
+
+  @Expose({ name: 'createdAt' })
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -1,6 +1,8 @@
 import { Expose } from 'class-transformer';
 import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, OneToMany, CreateDateColumn, JoinColumn } from 'typeorm';
 
+import { SnapshotSource } from '../types/snapshot.types';
+
 import { Proposal } from './proposal.entity';
 import { Vault } from './vault.entity';
 import { Vote } from './vote.entity';
@@ -19,10 +21,27 @@ export class Snapshot {
   @Column({ name: 'address_balances', type: 'jsonb' })
   addressBalances: Record<string, string>;
 
+  // Point in time the balances describe; set explicitly for historical snapshots
   @Expose({ name: 'createdAt' })
   @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
   createdAt: Date;
 
+  @Expose({ name: 'slot' })
+  @Column({ name: 'slot', type: 'bigint', nullable: true })
+  slot?: string;
+
+  @Expose({ name: 'source' })
+  @Column({ name: 'source', type: 'enum', enum: SnapshotSource, default: SnapshotSource.AUTOMATIC })
+  source: SnapshotSource;
+
+  @Expose({ name: 'holderCount' })
+  @Column({ name: 'holder_count', type: 'int', default: 0 })
+  holderCount: number;
+
+  @Expose({ name: 'totalBalance' })
+  @Column({ name: 'total_balance', type: 'numeric', default: 0 })
+  totalBalance: string;
+
   @Expose({ name: 'vault' })
   @ManyToOne(() => Vault, vault => vault.snapshots, { nullable: false, onDelete: 'CASCADE' })
   @JoinColumn({ name: 'vault_id' })
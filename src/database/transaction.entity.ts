@@ -20,6 +20,7 @@ import { User } from './user.entity';
 import { Vault } from './vault.entity';
 
 @Entity('transactions')
+@Index('IDX_transactions_block_inclusion', ['block_number'], { where: '"block_hash" IS NOT NULL' })
 export class Transaction {
   @ApiProperty({ description: 'Unique identifier of the transaction' })
   @PrimaryGeneratedColumn('uuid')
@@ -140,11 +141,32 @@ export class Transaction {
   @Column({ name: 'to_address', nullable: true })
   to_address?: string;
 
-  /** EVM: block number in which the transaction was included. */
+  /** Block number (EVM) / block height (Cardano) in which the transaction was included. */
   @Expose({ name: 'blockNumber' })
   @Column({ name: 'block_number', type: 'bigint', nullable: true })
   block_number?: number;
 
+  // ---------------------------------------------------------------------------
+  // Cardano inclusion. Recorded when the transaction is seen in a block and
+  // cleared if that block is rolled back; the confirmation cron compares it
+  // with the canonical chain (see TransactionConfirmationService).
+  // ---------------------------------------------------------------------------
+
+  /** Cardano: hash of the block holding the transaction. */
+  @Expose({ name: 'blockHash' })
+  @Column({ name: 'block_hash', type: 'varchar', nullable: true })
+  block_hash?: string | null;
+
+  /** Cardano: slot of the block holding the transaction. */
+  @Expose({ name: 'blockSlot' })
+  @Column({ name: 'block_slot', type: 'bigint', nullable: true })
+  block_slot?: number | null;
+
+  /** Number of times a confirmation of this transaction was reverted by a chain rollback. */
+  @Expose({ name: 'rollbackCount' })
+  @Column({ name: 'rollback_count', type: 'integer', default: 0 })
+  rollback_count: number;
+
   /**
    * Numeric EVM chain ID (e.g. 46630 for Robinhood testnet).
    * Allows chain discrimination without joining through the vault.
@@ -0,0 +1,101 @@
+import { Expose } from 'class-transformer';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+
+import { EvmAttemptRequest, TransactionAttemptKind, TransactionAttemptStatus } from '../types/transaction.types';
+
+/**
+ * One broadcast of a `Transaction`. The first submit, every Cardano rebuild after a TTL expiry and every EVM
+ * fee bump get their own row, so the transaction's `tx_hash` always points at the latest attempt while the
+ * history stays queryable.
+ *
+ * Cardano broadcasts are recorded as they are submitted, before the caller has stored the hash on its
+ * Transaction row, so `transactionId` stays null until the tracker links the attempt by hash.
+ */
+@Entity('transaction_attempts')
+@Index('IDX_transaction_attempts_tx_hash', ['txHash'], { unique: true })
+@Index('IDX_transaction_attempts_transaction', ['transactionId', 'attemptNumber'])
+export class TransactionAttempt {
+  @Expose({ name: 'id' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'transactionId' })
+  @Column({ name: 'transaction_id', type: 'uuid', nullable: true })
+  transactionId: string | null;
+
+  // 1-based position in the transaction's attempt history
+  @Expose({ name: 'attemptNumber' })
+  @Column({ name: 'attempt_number', type: 'int', default: 1 })
+  attemptNumber: number;
+
+  @Expose({ name: 'kind' })
+  @Column({ name: 'kind', type: 'enum', enum: TransactionAttemptKind, default: TransactionAttemptKind.submit })
+  kind: TransactionAttemptKind;
+
+  @Expose({ name: 'status' })
+  @Column({
+    name: 'status',
+    type: 'enum',
+    enum: TransactionAttemptStatus,
+    default: TransactionAttemptStatus.submitted,
+  })
+  status: TransactionAttemptStatus;
+
+  @Expose({ name: 'txHash' })
+  @Column({ name: 'tx_hash', type: 'varchar' })
+  txHash: string;
+
+  @Expose({ name: 'replacesTxHash' })
+  @Column({ name: 'replaces_tx_hash', type: 'varchar', nullable: true })
+  replacesTxHash: string | null;
+
+  // Cardano: signed CBOR and extra witnesses as submitted, used to rebroadcast
+  @Column({ name: 'tx_cbor', type: 'text', nullable: true })
+  txCbor: string | null;
+
+  @Column({ name: 'signatures', type: 'jsonb', nullable: true })
+  signatures: string[] | null;
+
+  // Cardano: inputs as `<tx hash>#<index>`
+  @Expose({ name: 'inputs' })
+  @Column({ name: 'inputs', type: 'jsonb', nullable: true })
+  inputs: string[] | null;
+
+  @Expose({ name: 'ttlSlot' })
+  @Column({ name: 'ttl_slot', type: 'bigint', nullable: true })
+  ttlSlot: string | null;
+
+  // EVM: sender nonce and the fields needed to re-send with that nonce
+  @Expose({ name: 'nonce' })
+  @Column({ name: 'nonce', type: 'int', nullable: true })
+  nonce: number | null;
+
+  @Expose({ name: 'evmRequest' })
+  @Column({ name: 'evm_request', type: 'jsonb', nullable: true })
+  evmRequest: EvmAttemptRequest | null;
+
+  @Expose({ name: 'broadcastCount' })
+  @Column({ name: 'broadcast_count', type: 'int', default: 1 })
+  broadcastCount: number;
+
+  @Expose({ name: 'lastBroadcastAt' })
+  @Column({ name: 'last_broadcast_at', type: 'timestamptz' })
+  lastBroadcastAt: Date;
+
+  // Transaction that spent an input / used the nonce instead of this attempt
+  @Expose({ name: 'consumedBy' })
+  @Column({ name: 'consumed_by', type: 'varchar', nullable: true })
+  consumedBy: string | null;
+
+  @Expose({ name: 'error' })
+  @Column({ name: 'error', type: 'text', nullable: true })
+  error: string | null;
+
+  @Expose({ name: 'createdAt' })
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Expose({ name: 'updatedAt' })
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
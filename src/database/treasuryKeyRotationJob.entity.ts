@@ -0,0 +1,77 @@
+import { Expose } from 'class-transformer';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+import { TreasuryKeyRotationFailure, TreasuryKeyRotationStatus } from '../types/treasury.types';
+
+/**
+ * Admin-triggered re-encryption of treasury wallet keys under a new KMS key or key version.
+ * Wallets are processed in id order and `lastWalletId` is the resume cursor.
+ */
+@Entity('treasury_key_rotation_jobs')
+export class TreasuryKeyRotationJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'status' })
+  @Column({
+    name: 'status',
+    type: 'enum',
+    enum: TreasuryKeyRotationStatus,
+    default: TreasuryKeyRotationStatus.RUNNING,
+  })
+  status: TreasuryKeyRotationStatus;
+
+  @Expose({ name: 'targetKeyName' })
+  @Column({ name: 'target_key_name', type: 'varchar' })
+  targetKeyName: string;
+
+  // Primary version of the target key when the job started
+  @Expose({ name: 'targetKeyVersion' })
+  @Column({ name: 'target_key_version', type: 'varchar' })
+  targetKeyVersion: string;
+
+  @Expose({ name: 'requestedBy' })
+  @Column({ name: 'requested_by', type: 'varchar' })
+  requestedBy: string;
+
+  @Expose({ name: 'totalWallets' })
+  @Column({ name: 'total_wallets', type: 'int', default: 0 })
+  totalWallets: number;
+
+  @Expose({ name: 'rotatedCount' })
+  @Column({ name: 'rotated_count', type: 'int', default: 0 })
+  rotatedCount: number;
+
+  // Wallets already encrypted under the target key version
+  @Expose({ name: 'skippedCount' })
+  @Column({ name: 'skipped_count', type: 'int', default: 0 })
+  skippedCount: number;
+
+  @Expose({ name: 'failedCount' })
+  @Column({ name: 'failed_count', type: 'int', default: 0 })
+  failedCount: number;
+
+  @Expose({ name: 'lastWalletId' })
+  @Column({ name: 'last_wallet_id', type: 'uuid', nullable: true })
+  lastWalletId?: string;
+
+  @Expose({ name: 'failures' })
+  @Column({ name: 'failures', type: 'jsonb', default: [] })
+  failures: TreasuryKeyRotationFailure[];
+
+  @Expose({ name: 'error' })
+  @Column({ name: 'error', type: 'text', nullable: true })
+  error?: string;
+
+  @Expose({ name: 'completedAt' })
+  @Column({ name: 'completed_at', type: 'timestamptz', nullable: true })
+  completedAt?: Date;
+
+  @Expose({ name: 'createdAt' })
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Expose({ name: 'updatedAt' })
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,128 @@
+import { Expose } from 'class-transformer';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+import { TreasuryLedgerCategory, TreasuryLedgerDirection } from '../types/treasury.types';
+
+import { ColumnBigintStringTransformer } from './column-bigint-string.transformer';
+import { ColumnNumericTransformer } from './column-numeric.transformer';
+
+/**
+ * One asset movement of a vault treasury wallet, derived from an on-chain transaction.
+ * A transaction produces one entry per unit and category (e.g. a swap yields the sold unit,
+ * the bought unit and the network fee), priced in ADA and USD when it was ingested.
+ */
+@Entity('treasury_ledger_entries')
+@Index('IDX_treasury_ledger_entries_vault_block', ['vaultId', 'blockHeight', 'txIndex'])
+@Index('UQ_treasury_ledger_entries_vault_tx_unit_category', ['vaultId', 'txHash', 'unit', 'category'], {
+  unique: true,
+})
+export class TreasuryLedgerEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'vaultId' })
+  @Column({ name: 'vault_id', type: 'uuid' })
+  vaultId: string;
+
+  // Treasury address the movement was observed on
+  @Expose({ name: 'address' })
+  @Column({ name: 'address', type: 'varchar' })
+  address: string;
+
+  @Expose({ name: 'txHash' })
+  @Column({ name: 'tx_hash', type: 'varchar' })
+  txHash: string;
+
+  @Expose({ name: 'blockHeight' })
+  @Column({ name: 'block_height', type: 'int' })
+  blockHeight: number;
+
+  @Expose({ name: 'txIndex' })
+  @Column({ name: 'tx_index', type: 'int' })
+  txIndex: number;
+
+  @Expose({ name: 'blockTime' })
+  @Column({ name: 'block_time', type: 'timestamptz' })
+  blockTime: Date;
+
+  @Expose({ name: 'category' })
+  @Column({ name: 'category', type: 'enum', enum: TreasuryLedgerCategory })
+  category: TreasuryLedgerCategory;
+
+  @Expose({ name: 'direction' })
+  @Column({ name: 'direction', type: 'enum', enum: TreasuryLedgerDirection })
+  direction: TreasuryLedgerDirection;
+
+  // `lovelace` or policy id + hex asset name
+  @Expose({ name: 'unit' })
+  @Column({ name: 'unit', type: 'varchar' })
+  unit: string;
+
+  // Base units, always positive; the sign is given by `direction`
+  @Expose({ name: 'quantity' })
+  @Column({
+    name: 'quantity',
+    type: 'decimal',
+    precision: 78,
+    scale: 0,
+    transformer: new ColumnBigintStringTransformer(),
+  })
+  quantity: string;
+
+  @Expose({ name: 'decimals' })
+  @Column({ name: 'decimals', type: 'int', default: 0 })
+  decimals: number;
+
+  // Null when no price source knew the unit
+  @Expose({ name: 'adaValue' })
+  @Column({
+    name: 'ada_value',
+    type: 'decimal',
+    precision: 30,
+    scale: 6,
+    nullable: true,
+    transformer: new ColumnNumericTransformer(),
+  })
+  adaValue: number | null;
+
+  @Expose({ name: 'usdValue' })
+  @Column({
+    name: 'usd_value',
+    type: 'decimal',
+    precision: 30,
+    scale: 6,
+    nullable: true,
+    transformer: new ColumnNumericTransformer(),
+  })
+  usdValue: number | null;
+
+  @Expose({ name: 'adaUsdPrice' })
+  @Column({
+    name: 'ada_usd_price',
+    type: 'decimal',
+    precision: 20,
+    scale: 8,
+    nullable: true,
+    transformer: new ColumnNumericTransformer(),
+  })
+  adaUsdPrice: number | null;
+
+  // When the unit price was taken; later than `blockTime` for token prices of backfilled transactions
+  @Expose({ name: 'pricedAt' })
+  @Column({ name: 'priced_at', type: 'timestamptz', nullable: true })
+  pricedAt: Date | null;
+
+  // Platform transaction this movement belongs to, when the treasury transaction was submitted by us
+  @Expose({ name: 'transactionId' })
+  @Column({ name: 'transaction_id', type: 'uuid', nullable: true })
+  transactionId: string | null;
+
+  // Category-specific context, e.g. `listingTxHash` for sales
+  @Expose({ name: 'metadata' })
+  @Column({ name: 'metadata', type: 'jsonb', nullable: true })
+  metadata: Record<string, unknown> | null;
+
+  @Expose({ name: 'createdAt' })
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
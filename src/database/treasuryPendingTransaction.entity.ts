@@ -0,0 +1,100 @@
+import { Expose } from 'class-transformer';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+import { TreasuryPendingTransactionStatus } from '../types/treasury.types';
+
+import { Transaction } from './transaction.entity';
+import { Vault } from './vault.entity';
+
+/**
+ * Transaction spending from a multisig treasury while cosigner witnesses are collected.
+ * It is submitted as soon as the number of valid witnesses reaches the script threshold.
+ */
+@Entity('treasury_pending_transactions')
+@Index(['vaultId', 'status'])
+export class TreasuryPendingTransaction {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'vaultId' })
+  @Column({ name: 'vault_id', type: 'uuid' })
+  vaultId: string;
+
+  @ManyToOne(() => Vault, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vault_id' })
+  vault: Vault;
+
+  // Transaction row of the operation (distribution batch, marketplace action, ...) this spend belongs to
+  @Expose({ name: 'transactionId' })
+  @Column({ name: 'transaction_id', type: 'uuid', nullable: true })
+  transactionId?: string;
+
+  @ManyToOne(() => Transaction, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'transaction_id' })
+  transaction?: Transaction;
+
+  @Expose({ name: 'purpose' })
+  @Column({ name: 'purpose', type: 'varchar', length: 50 })
+  purpose: string;
+
+  @Expose({ name: 'status' })
+  @Column({
+    name: 'status',
+    type: 'enum',
+    enum: TreasuryPendingTransactionStatus,
+    default: TreasuryPendingTransactionStatus.COLLECTING,
+  })
+  status: TreasuryPendingTransactionStatus;
+
+  // Transaction hash is the body hash, so it is known before any witness is added
+  @Expose({ name: 'txHash' })
+  @Column({ name: 'tx_hash', type: 'varchar', length: 64 })
+  txHash: string;
+
+  // Full transaction CBOR with the native script and the witnesses collected so far
+  @Expose({ name: 'txCbor' })
+  @Column({ name: 'tx_cbor', type: 'text' })
+  txCbor: string;
+
+  @Expose({ name: 'requiredSignatures' })
+  @Column({ name: 'required_signatures', type: 'int' })
+  requiredSignatures: number;
+
+  // Signer key hashes whose witness has been verified and added to txCbor
+  @Expose({ name: 'signedBy' })
+  @Column({ name: 'signed_by', type: 'jsonb', default: [] })
+  signedBy: string[];
+
+  @Expose({ name: 'spentInputs' })
+  @Column({ name: 'spent_inputs', type: 'jsonb', default: [] })
+  spentInputs: string[]; // txHash#index, kept out of other treasury transactions while collecting
+
+  @Expose({ name: 'expiresAt' })
+  @Column({ name: 'expires_at', type: 'timestamptz', nullable: true })
+  expiresAt?: Date;
+
+  @Expose({ name: 'submittedAt' })
+  @Column({ name: 'submitted_at', type: 'timestamptz', nullable: true })
+  submittedAt?: Date;
+
+  @Expose({ name: 'error' })
+  @Column({ name: 'error', type: 'text', nullable: true })
+  error?: string;
+
+  @Expose({ name: 'createdAt' })
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Expose({ name: 'updatedAt' })
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,109 @@
+import { Expose } from 'class-transformer';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+
+import {
+  TreasurySweepAsset,
+  TreasurySweepAuthorizationType,
+  TreasurySweepDestinationKind,
+  TreasurySweepStatus,
+} from '../types/treasury.types';
+
+import { ColumnBigintStringTransformer } from './column-bigint-string.transformer';
+import { ColumnNumericTransformer } from './column-numeric.transformer';
+
+/**
+ * A sweep of a vault treasury wallet to an allow-listed destination, linked to the proposal or
+ * termination step that authorized it. Sweeps above the value threshold wait in PREPARED for confirmation.
+ */
+@Entity('treasury_sweeps')
+@Index('IDX_treasury_sweeps_vault_status', ['vaultId', 'status'])
+export class TreasurySweep {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'vaultId' })
+  @Column({ name: 'vault_id', type: 'uuid' })
+  vaultId: string;
+
+  @Expose({ name: 'status' })
+  @Column({ name: 'status', type: 'enum', enum: TreasurySweepStatus, default: TreasurySweepStatus.PREPARED })
+  status: TreasurySweepStatus;
+
+  @Expose({ name: 'destinationAddress' })
+  @Column({ name: 'destination_address', type: 'varchar' })
+  destinationAddress: string;
+
+  @Expose({ name: 'destinationKind' })
+  @Column({ name: 'destination_kind', type: 'enum', enum: TreasurySweepDestinationKind })
+  destinationKind: TreasurySweepDestinationKind;
+
+  @Expose({ name: 'authorizationType' })
+  @Column({ name: 'authorization_type', type: 'enum', enum: TreasurySweepAuthorizationType })
+  authorizationType: TreasurySweepAuthorizationType;
+
+  @Expose({ name: 'proposalId' })
+  @Column({ name: 'proposal_id', type: 'uuid', nullable: true })
+  proposalId: string | null;
+
+  // Preview of the treasury balance when the sweep was prepared
+  @Expose({ name: 'lovelace' })
+  @Column({
+    name: 'lovelace',
+    type: 'decimal',
+    precision: 78,
+    scale: 0,
+    transformer: new ColumnBigintStringTransformer(),
+  })
+  lovelace: string;
+
+  @Expose({ name: 'assets' })
+  @Column({ name: 'assets', type: 'jsonb', default: [] })
+  assets: TreasurySweepAsset[];
+
+  // ADA plus the priced assets
+  @Expose({ name: 'valueAda' })
+  @Column({
+    name: 'value_ada',
+    type: 'decimal',
+    precision: 30,
+    scale: 6,
+    transformer: new ColumnNumericTransformer(),
+  })
+  valueAda: number;
+
+  @Expose({ name: 'requiresConfirmation' })
+  @Column({ name: 'requires_confirmation', type: 'boolean', default: false })
+  requiresConfirmation: boolean;
+
+  @Expose({ name: 'requestedBy' })
+  @Column({ name: 'requested_by', type: 'varchar' })
+  requestedBy: string;
+
+  @Expose({ name: 'confirmedBy' })
+  @Column({ name: 'confirmed_by', type: 'varchar', nullable: true })
+  confirmedBy: string | null;
+
+  @Expose({ name: 'expiresAt' })
+  @Column({ name: 'expires_at', type: 'timestamptz' })
+  expiresAt: Date;
+
+  @Expose({ name: 'txHash' })
+  @Column({ name: 'tx_hash', type: 'varchar', nullable: true })
+  txHash: string | null;
+
+  @Expose({ name: 'error' })
+  @Column({ name: 'error', type: 'text', nullable: true })
+  error: string | null;
+
+  @Expose({ name: 'confirmedAt' })
+  @Column({ name: 'confirmed_at', type: 'timestamptz', nullable: true })
+  confirmedAt: Date | null;
+
+  @Expose({ name: 'createdAt' })
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Expose({ name: 'updatedAt' })
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -27,6 +27,7 @@ import {
   VaultStatus,
   VaultType,
 } from '../types/vault.types';
+import { VoteCountingStrategy } from '../types/vote.types';
 
 import { AcquirerWhitelistEntity } from './acquirerWhitelist.entity';
 import { Asset } from './asset.entity';
@@ -378,6 +379,24 @@ export class Vault {
   })
   cosigning_threshold?: number;
 
+  @Expose({ name: 'voteCountingStrategy' })
+  @Column({
+    name: 'vote_counting_strategy',
+    type: 'enum',
+    enum: VoteCountingStrategy,
+    default: VoteCountingStrategy.LINEAR,
+  })
+  vote_counting_strategy: VoteCountingStrategy;
+
+  @Expose({ name: 'voteCountingCapPercent' })
+  @Transform(({ value }) => (value ? Number(value) : null))
+  @Column({
+    name: 'vote_counting_cap_percent',
+    type: 'numeric',
+    nullable: true,
+  })
+  vote_counting_cap_percent?: number; // Max share of total voting power a single address can count for (capped strategy)
+
   @Expose({ name: 'totalAssetsCostUsd' })
   @Transform(({ value }) => (value ? Number(value) : null))
   @Column({
@@ -851,6 +870,11 @@ export class Vault {
   @Column({ name: 'evm_cancel_cycle_tx_hash', nullable: true })
   evm_cancel_cycle_tx_hash?: string;
 
+  /** Root of the latest Cardano claim set (`cardano_claim_sets`), committed when a distribution starts. */
+  @Expose({ name: 'claimsMerkleRoot' })
+  @Column({ name: 'claims_merkle_root', type: 'varchar', length: 66, nullable: true })
+  claims_merkle_root?: string;
+
   @BeforeInsert()
   setDate(): void {
     const now = new Date();
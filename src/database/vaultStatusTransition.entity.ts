@@ -0,0 +1,51 @@
+import { Expose } from 'class-transformer';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+import { VaultStatus } from '../types/vault.types';
+
+/**
+ * One step of a vault's lifecycle, written by the vault state machine in the same transaction as the status change
+ */
+@Entity('vault_status_transitions')
+@Index('IDX_vault_status_transitions_vault_created', ['vaultId', 'createdAt'])
+export class VaultStatusTransition {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'vaultId' })
+  @Column({ name: 'vault_id', type: 'uuid' })
+  vaultId: string;
+
+  // Stored as text so the log is unaffected when the vault status enum is recreated
+  @Expose({ name: 'fromStatus' })
+  @Column({ name: 'from_status', type: 'varchar', nullable: true })
+  fromStatus: VaultStatus | null;
+
+  @Expose({ name: 'toStatus' })
+  @Column({ name: 'to_status', type: 'varchar' })
+  toStatus: VaultStatus;
+
+  @Expose({ name: 'reason' })
+  @Column({ name: 'reason', type: 'varchar' })
+  reason: string;
+
+  @Expose({ name: 'actor' })
+  @Column({ name: 'actor', type: 'varchar' })
+  actor: string;
+
+  @Expose({ name: 'txHash' })
+  @Column({ name: 'tx_hash', type: 'varchar', nullable: true })
+  txHash: string | null;
+
+  @Expose({ name: 'proposalId' })
+  @Column({ name: 'proposal_id', type: 'uuid', nullable: true })
+  proposalId: string | null;
+
+  @Expose({ name: 'details' })
+  @Column({ name: 'details', type: 'jsonb', nullable: true })
+  details: Record<string, unknown> | null;
+
+  @Expose({ name: 'createdAt' })
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -1,5 +1,7 @@
 import { Column, CreateDateColumn, Entity, JoinColumn, OneToOne, PrimaryGeneratedColumn } from 'typeorm';
 
+import { TreasurySigner, TreasuryWalletMode } from '../types/treasury.types';
+
 import { Vault } from './vault.entity';
 
 @Entity('vault_treasury_wallets')
@@ -32,6 +34,18 @@ export class VaultTreasuryWallet {
   @Column({ type: 'jsonb' })
   metadata: any;
 
+  @Column({ type: 'enum', enum: TreasuryWalletMode, default: TreasuryWalletMode.SINGLE_KEY })
+  mode: TreasuryWalletMode;
+
+  @Column({ type: 'text', nullable: true })
+  native_script: string | null; // CBOR hex of the m-of-n script (MULTISIG only)
+
+  @Column({ type: 'jsonb', nullable: true })
+  signers: TreasurySigner[] | null; // Key hashes allowed to witness (MULTISIG only)
+
+  @Column({ type: 'int', nullable: true })
+  required_signatures: number | null; // m of the m-of-n script (MULTISIG only)
+
   @Column({ default: true })
   is_active: boolean;
 
@@ -25,6 +25,11 @@ export class Vote {
   @Column({ name: 'vote_weight' })
   voteWeight: string;
 
+  /** Delegator address -> snapshot balance folded into voteWeight when the vote was cast */
+  @Expose({ name: 'delegatedFrom' })
+  @Column({ name: 'delegated_from', type: 'jsonb', nullable: true })
+  delegatedFrom?: Record<string, string>;
+
   @Expose({ name: 'vote' })
   @Column({
     name: 'vote',
@@ -38,6 +43,18 @@ export class Vote {
   @CreateDateColumn({ name: 'timestamp', type: 'timestamptz' })
   timestamp: Date;
 
+  @Expose({ name: 'signedPayload' })
+  @Column({ name: 'signed_payload', type: 'text', nullable: true })
+  signedPayload?: string;
+
+  @Expose({ name: 'signature' })
+  @Column({ name: 'signature', type: 'text', nullable: true })
+  signature?: string;
+
+  @Expose({ name: 'signatureKey' })
+  @Column({ name: 'signature_key', type: 'text', nullable: true })
+  signatureKey?: string;
+
   @ManyToOne(() => Proposal, proposal => proposal.votes, { nullable: false, onDelete: 'CASCADE' })
   @JoinColumn({ name: 'proposal_id' })
   proposal: Proposal;
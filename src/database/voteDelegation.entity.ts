@@ -0,0 +1,49 @@
+import { Expose } from 'class-transformer';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, JoinColumn, Index } from 'typeorm';
+
+import { User } from './user.entity';
+import { Vault } from './vault.entity';
+
+/**
+ * Delegation of a holder's vault-token voting power to another address, scoped to one vault.
+ * Only one delegation per (vault, delegator) can be active; revoked rows are kept for history.
+ */
+@Entity('vote_delegations')
+@Index(['vaultId', 'delegatorAddress'], { unique: true, where: '"revoked_at" IS NULL' })
+@Index(['vaultId', 'delegateAddress'])
+export class VoteDelegation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'vaultId' })
+  @Column({ name: 'vault_id', type: 'uuid' })
+  vaultId: string;
+
+  @ManyToOne(() => Vault, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'vault_id' })
+  vault: Vault;
+
+  @Expose({ name: 'delegatorId' })
+  @Column({ name: 'delegator_id', type: 'uuid' })
+  delegatorId: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'delegator_id' })
+  delegator: User;
+
+  @Expose({ name: 'delegatorAddress' })
+  @Column({ name: 'delegator_address' })
+  delegatorAddress: string;
+
+  @Expose({ name: 'delegateAddress' })
+  @Column({ name: 'delegate_address' })
+  delegateAddress: string;
+
+  @Expose({ name: 'createdAt' })
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Expose({ name: 'revokedAt' })
+  @Column({ name: 'revoked_at', type: 'timestamptz', nullable: true })
+  revokedAt?: Date;
+}
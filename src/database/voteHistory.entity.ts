@@ -0,0 +1,75 @@
+import { Expose } from 'class-transformer';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, JoinColumn, Index } from 'typeorm';
+
+import { VoteHistoryAction, VoteType } from '../types/vote.types';
+
+import { Proposal } from './proposal.entity';
+import { User } from './user.entity';
+
+/**
+ * Append-only log of every vote cast, change and revocation.
+ * The `vote` table only holds the latest vote per address and is what the tally uses.
+ */
+@Entity('vote_history')
+@Index(['proposalId', 'voterAddress'])
+export class VoteHistory {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Expose({ name: 'proposalId' })
+  @Column({ name: 'proposal_id' })
+  proposalId: string;
+
+  @Expose({ name: 'voteId' })
+  @Column({ name: 'vote_id', type: 'uuid' })
+  voteId: string;
+
+  @Expose({ name: 'voterAddress' })
+  @Column({ name: 'voter_address' })
+  voterAddress: string;
+
+  @Expose({ name: 'action' })
+  @Column({ name: 'action', type: 'enum', enum: VoteHistoryAction })
+  action: VoteHistoryAction;
+
+  @Expose({ name: 'previousVote' })
+  @Column({ name: 'previous_vote', type: 'enum', enum: VoteType, nullable: true })
+  previousVote?: VoteType;
+
+  /** Null when the vote was revoked */
+  @Expose({ name: 'newVote' })
+  @Column({ name: 'new_vote', type: 'enum', enum: VoteType, nullable: true })
+  newVote?: VoteType;
+
+  @Expose({ name: 'voteWeight' })
+  @Column({ name: 'vote_weight' })
+  voteWeight: string;
+
+  @Expose({ name: 'signedPayload' })
+  @Column({ name: 'signed_payload', type: 'text', nullable: true })
+  signedPayload?: string;
+
+  @Expose({ name: 'signature' })
+  @Column({ name: 'signature', type: 'text', nullable: true })
+  signature?: string;
+
+  @Expose({ name: 'signatureKey' })
+  @Column({ name: 'signature_key', type: 'text', nullable: true })
+  signatureKey?: string;
+
+  @Expose({ name: 'timestamp' })
+  @CreateDateColumn({ name: 'timestamp', type: 'timestamptz' })
+  timestamp: Date;
+
+  @ManyToOne(() => Proposal, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'proposal_id' })
+  proposal: Proposal;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'voter_id' })
+  voter: User;
+
+  @Expose({ name: 'voterId' })
+  @Column({ name: 'voter_id' })
+  voterId: string;
+}
@@ -1,6 +1,7 @@
 import './instrument';
 import { ValidationPipe, VersioningType } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import * as bodyParser from 'body-parser';
 
@@ -16,10 +17,13 @@ async function bootstrap(): Promise<void> {
     // eslint-disable-next-line no-console
     console.error('Failed to load secrets:', error.message || error);
   }
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     bodyParser: false, // Disable default body parser so we can configure it manually
   });
 
+  // Only trust X-Forwarded-For entries added by our own proxies, so clients cannot spoof their IP
+  app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS ?? 1));
+
   // Configure CORS
   app.enableCors({
     origin: [
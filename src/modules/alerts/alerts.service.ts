@@ -15,6 +15,8 @@ export type SlackAlertType =
   | 'expansion_invalid_vtprice'
   | 'multiplier_underflow_detected'
   | 'stake_reward_insufficient_funds'
+  | 'claims_reconciliation_discrepancies'
+  | 'transaction_rollback_detected'
   | string;
 
 @Injectable()
@@ -673,6 +675,98 @@ export class AlertsService {
         };
       }
 
+      case 'claims_reconciliation_discrepancies': {
+        const vaults: Array<Record<string, any>> = data.vaults || [];
+        const vaultLines = vaults
+          .slice(0, 10)
+          .map(
+            vault =>
+              `• *${vault.vaultName || 'Unknown'}* (\`${vault.vaultId}\`): ` +
+              `${vault.calculationDiscrepancies} calculation, ${vault.onChainDiscrepancies} on-chain | ` +
+              `VT diff ${vault.vtDifference}, ADA diff ${vault.adaDifference} | report \`${vault.reportId}\``
+          )
+          .join('\n');
+
+        return {
+          text: `⚠️ Claims Reconciliation Discrepancies in ${vaults.length} Vault(s)`,
+          blocks: [
+            {
+              type: 'header',
+              text: {
+                type: 'plain_text',
+                text: '⚠️ Claims Reconciliation Discrepancies',
+                emoji: true,
+              },
+            },
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text:
+                  `Claims differ from the distribution calculation or from what addresses received on-chain ` +
+                  `by more than the configured tolerance.\n\n${vaultLines}` +
+                  (vaults.length > 10 ? `\n…and ${vaults.length - 10} more` : ''),
+              },
+            },
+            {
+              type: 'context',
+              elements: [
+                {
+                  type: 'mrkdwn',
+                  text: `*Trigger:* ${data.trigger || 'Unknown'} | *Timestamp:* ${timestamp}`,
+                },
+              ],
+            },
+          ],
+        };
+      }
+
+      case 'transaction_rollback_detected': {
+        const transactions: Array<Record<string, any>> = data.transactions || [];
+        const transactionLines = transactions
+          .slice(0, 10)
+          .map(
+            tx =>
+              `• *${tx.type || 'unknown'}* \`${tx.txHash}\` (vault \`${tx.vaultId || 'n/a'}\`), block ${tx.blockHeight}` +
+              (tx.unresolved?.length ? `\n   ⚠️ Not reverted: ${tx.unresolved.join('; ')}` : '')
+          )
+          .join('\n');
+
+        return {
+          text: `⛓️ Chain Rollback Reverted ${transactions.length} Transaction(s)`,
+          blocks: [
+            {
+              type: 'header',
+              text: {
+                type: 'plain_text',
+                text: '⛓️ Chain Rollback Detected',
+                emoji: true,
+              },
+            },
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text:
+                  `Confirmed transactions are no longer on the canonical chain. Their confirmation and domain effects ` +
+                  `were reverted and they will be rebroadcast; items listed as not reverted need manual review.\n\n` +
+                  transactionLines +
+                  (transactions.length > 10 ? `\n…and ${transactions.length - 10} more` : ''),
+              },
+            },
+            {
+              type: 'context',
+              elements: [
+                {
+                  type: 'mrkdwn',
+                  text: `*Tip height:* ${data.tipHeight} | *Timestamp:* ${timestamp}`,
+                },
+              ],
+            },
+          ],
+        };
+      }
+
       default:
         return {
           text: `📢 Alert: ${alertType}`,
@@ -0,0 +1,90 @@
+import { CallHandler, ExecutionContext, HttpException, Injectable, NestInterceptor } from '@nestjs/common';
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { isUUID } from 'class-validator';
+import { Observable, from, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+
+import { AuditLogService } from './audit-log.service';
+
+import { AdminGuard } from '@/modules/auth/admin.guard';
+import { AuditLogAction, AuditLogOutcome } from '@/types/audit-log.types';
+
+const REDACTED_FIELD_PATTERN = /private|secret|mnemonic|password|token|seed/i;
+
+/**
+ * Records every call to an AdminGuard-protected handler, with its parameters and outcome.
+ * Registered globally; handlers without AdminGuard pass through untouched.
+ */
+@Injectable()
+export class AdminAuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditLogService: AuditLogService
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http' || !this.isAdminHandler(context)) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const vaultId = request.params?.vaultId ?? request.params?.id;
+    const details = {
+      handler: `${context.getClass().name}.${context.getHandler().name}`,
+      params: request.params,
+      query: request.query,
+      body: this.redact(request.body),
+    };
+
+    const record = (outcome: AuditLogOutcome, extra: Record<string, unknown> = {}): Promise<void> =>
+      this.auditLogService.tryLog({
+        action: AuditLogAction.ADMIN_ENDPOINT_CALLED,
+        vaultId: typeof vaultId === 'string' && isUUID(vaultId) ? vaultId : undefined,
+        userId: typeof request.body?.requestedBy === 'string' ? request.body.requestedBy : undefined,
+        outcome,
+        details: { ...details, ...extra },
+      });
+
+    return next.handle().pipe(
+      mergeMap(async result => {
+        await record(AuditLogOutcome.SUCCESS);
+        return result;
+      }),
+      catchError(error =>
+        from(
+          record(AuditLogOutcome.FAILURE, {
+            statusCode: error instanceof HttpException ? error.getStatus() : 500,
+            error: error?.message,
+          })
+        ).pipe(mergeMap(() => throwError(() => error)))
+      )
+    );
+  }
+
+  private isAdminHandler(context: ExecutionContext): boolean {
+    const guards = this.reflector.getAllAndMerge<unknown[]>(GUARDS_METADATA, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    return guards.some(guard => guard === AdminGuard || guard instanceof AdminGuard);
+  }
+
+  private redact(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          REDACTED_FIELD_PATTERN.test(key) ? '[REDACTED]' : this.redact(item),
+        ])
+      );
+    }
+
+    return value;
+  }
+}
@@ -0,0 +1,34 @@
+import { ClassSerializerInterceptor, Controller, Get, Query, UseGuards, UseInterceptors } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+import { AuditLogService } from './audit-log.service';
+import { AuditLogQuery, AuditLogVerificationRes, VerifyAuditLogQuery } from './dto/audit-log.dto';
+
+import { AuditLogEntry } from '@/database/auditLogEntry.entity';
+import { AdminGuard } from '@/modules/auth/admin.guard';
+import { PaginatedResponseDto } from '@/modules/vaults/dto/paginated-response.dto';
+
+@ApiTags('Admin - Audit Log')
+@Controller('admin/audit-log')
+@UseGuards(AdminGuard)
+@UseInterceptors(ClassSerializerInterceptor)
+export class AuditLogController {
+  constructor(private readonly auditLogService: AuditLogService) {}
+
+  @Get()
+  @ApiOperation({ summary: '[Admin] Audit log entries, newest first' })
+  @ApiResponse({ status: 200, description: 'Paginated audit log entries', type: PaginatedResponseDto })
+  async getEntries(@Query() query: AuditLogQuery): Promise<PaginatedResponseDto<AuditLogEntry>> {
+    return this.auditLogService.getEntries(query);
+  }
+
+  @Get('verify')
+  @ApiOperation({
+    summary: '[Admin] Verify the audit log hash chain',
+    description: 'Recomputes every entry hash and checks the links between entries; reports the first break',
+  })
+  @ApiResponse({ status: 200, type: AuditLogVerificationRes })
+  async verifyChain(@Query() query: VerifyAuditLogQuery): Promise<AuditLogVerificationRes> {
+    return this.auditLogService.verifyChain(query.fromSequence);
+  }
+}
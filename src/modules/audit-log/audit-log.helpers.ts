@@ -0,0 +1,53 @@
+import * as crypto from 'crypto';
+
+import { AuditLogEntry } from '@/database/auditLogEntry.entity';
+
+type HashedAuditFields = Omit<AuditLogEntry, 'id' | 'hash'>;
+
+/**
+ * JSON with object keys sorted at every level, so jsonb's key reordering does not change the hash
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item)).join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter(key => value[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Converts details to what a jsonb column gives back (bigints as strings, no undefined, no class instances)
+ */
+export function toJsonDetails(details: Record<string, unknown> = {}): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(details, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)));
+}
+
+export function computeAuditEntryHash(entry: HashedAuditFields): string {
+  const content = canonicalJson({
+    sequence: entry.sequence,
+    action: entry.action,
+    outcome: entry.outcome,
+    actor: entry.actor,
+    userId: entry.user_id,
+    vaultId: entry.vault_id,
+    requestId: entry.request_id,
+    ipAddress: entry.ip_address,
+    userAgent: entry.user_agent,
+    method: entry.method,
+    path: entry.path,
+    details: entry.details,
+    prevHash: entry.prev_hash,
+    createdAt: entry.created_at.toISOString(),
+  });
+
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { AuditLogController } from './audit-log.controller';
+import { AuditLogService } from './audit-log.service';
+
+import { AuditLogEntry } from '@/database/auditLogEntry.entity';
+
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([AuditLogEntry])],
+  controllers: [AuditLogController],
+  providers: [AuditLogService],
+  exports: [AuditLogService],
+})
+export class AuditLogModule {}
@@ -0,0 +1,215 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { DataSource, MoreThanOrEqual, Repository } from 'typeorm';
+
+import { computeAuditEntryHash, toJsonDetails } from './audit-log.helpers';
+import { AuditLogQuery, AuditLogVerificationRes } from './dto/audit-log.dto';
+
+import { getRequestContext } from '@/common/context/request-context';
+import { AuditLogEntry } from '@/database/auditLogEntry.entity';
+import { PaginatedResponseDto } from '@/modules/vaults/dto/paginated-response.dto';
+import { AuditLogChainBreak, AuditLogEvent, AuditLogOutcome } from '@/types/audit-log.types';
+
+const SYSTEM_ACTOR = 'system';
+const VERIFY_BATCH_SIZE = 1000;
+
+/**
+ * Append-only, hash-chained audit log of privileged operations.
+ *
+ * Appends are serialized with a transaction-level advisory lock so every entry links to the one before it.
+ * Request context (actor, IP, user agent, request ID) is taken from the current HTTP request when there is one;
+ * cron jobs and event handlers are recorded as `system`.
+ */
+@Injectable()
+export class AuditLogService {
+  private readonly logger = new Logger(AuditLogService.name);
+
+  constructor(
+    @InjectRepository(AuditLogEntry)
+    private readonly auditLogRepository: Repository<AuditLogEntry>,
+    @InjectDataSource()
+    private readonly dataSource: DataSource
+  ) {}
+
+  /**
+   * Appends an entry to the chain. Throws when the entry cannot be written, so callers
+   * guarding sensitive operations can refuse to proceed without an audit trail.
+   */
+  async log(event: AuditLogEvent): Promise<AuditLogEntry> {
+    const context = getRequestContext();
+
+    return this.dataSource.transaction(async manager => {
+      await manager.query(`SELECT pg_advisory_xact_lock(hashtext('audit_log_entries'))`);
+
+      const [previous] = await manager.find(AuditLogEntry, {
+        select: ['sequence', 'hash'],
+        order: { sequence: 'DESC' },
+        take: 1,
+      });
+
+      const entry = manager.create(AuditLogEntry, {
+        sequence: previous ? (BigInt(previous.sequence) + 1n).toString() : '1',
+        action: event.action,
+        outcome: event.outcome ?? AuditLogOutcome.SUCCESS,
+        actor: context?.actor ?? (context ? 'anonymous' : SYSTEM_ACTOR),
+        user_id: event.userId ?? null,
+        vault_id: event.vaultId ?? null,
+        request_id: context?.requestId ?? null,
+        ip_address: context?.ipAddress ?? null,
+        user_agent: context?.userAgent ?? null,
+        method: context?.method ?? null,
+        path: context?.path ?? null,
+        details: toJsonDetails(event.details),
+        prev_hash: previous?.hash ?? null,
+        created_at: new Date(),
+      });
+      entry.hash = computeAuditEntryHash(entry);
+
+      return manager.save(entry);
+    });
+  }
+
+  /**
+   * Best-effort variant for failure paths, where the original error matters more than the audit write
+   */
+  async tryLog(event: AuditLogEvent): Promise<void> {
+    try {
+      await this.log(event);
+    } catch (error) {
+      this.logger.error(`Failed to write audit entry ${event.action}: ${error.message}`);
+    }
+  }
+
+  async getEntries(query: AuditLogQuery): Promise<PaginatedResponseDto<AuditLogEntry>> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+
+    const qb = this.auditLogRepository.createQueryBuilder('entry').orderBy('entry.sequence', 'DESC');
+
+    if (query.action) {
+      qb.andWhere('entry.action = :action', { action: query.action });
+    }
+    if (query.outcome) {
+      qb.andWhere('entry.outcome = :outcome', { outcome: query.outcome });
+    }
+    if (query.actor) {
+      qb.andWhere('entry.actor = :actor', { actor: query.actor });
+    }
+    if (query.userId) {
+      qb.andWhere('entry.user_id = :userId', { userId: query.userId });
+    }
+    if (query.vaultId) {
+      qb.andWhere('entry.vault_id = :vaultId', { vaultId: query.vaultId });
+    }
+    if (query.requestId) {
+      qb.andWhere('entry.request_id = :requestId', { requestId: query.requestId });
+    }
+    if (query.from) {
+      qb.andWhere('entry.created_at >= :from', { from: new Date(query.from) });
+    }
+    if (query.to) {
+      qb.andWhere('entry.created_at <= :to', { to: new Date(query.to) });
+    }
+
+    const [items, total] = await qb
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Walks the chain in sequence order and recomputes every hash.
+   * Reports the first entry whose sequence, link to its predecessor or content hash does not match.
+   * @param fromSequence - Start verifying at this entry (its predecessor is still checked as the link)
+   */
+  async verifyChain(fromSequence = '1'): Promise<AuditLogVerificationRes> {
+    let expectedSequence = BigInt(fromSequence);
+    let previousHash: string | null = null;
+
+    if (expectedSequence > 1n) {
+      const previous = await this.auditLogRepository.findOne({
+        where: { sequence: (expectedSequence - 1n).toString() },
+      });
+
+      if (!previous) {
+        return this.toVerification(0, null, {
+          sequence: (expectedSequence - 1n).toString(),
+          reason: 'Entry preceding the start of the verification is missing',
+        });
+      }
+      previousHash = previous.hash;
+    }
+
+    let checked = 0;
+    let lastSequence: string | null = null;
+
+    for (;;) {
+      const batch = await this.auditLogRepository.find({
+        where: { sequence: MoreThanOrEqual(expectedSequence.toString()) },
+        order: { sequence: 'ASC' },
+        take: VERIFY_BATCH_SIZE,
+      });
+
+      for (const entry of batch) {
+        const chainBreak = this.checkEntry(entry, expectedSequence, previousHash);
+        if (chainBreak) {
+          return this.toVerification(checked, lastSequence, chainBreak);
+        }
+
+        checked++;
+        lastSequence = entry.sequence;
+        previousHash = entry.hash;
+        expectedSequence++;
+      }
+
+      if (batch.length < VERIFY_BATCH_SIZE) {
+        return this.toVerification(checked, lastSequence);
+      }
+    }
+  }
+
+  private checkEntry(
+    entry: AuditLogEntry,
+    expectedSequence: bigint,
+    previousHash: string | null
+  ): AuditLogChainBreak | null {
+    if (BigInt(entry.sequence) !== expectedSequence) {
+      return { sequence: expectedSequence.toString(), reason: 'Entry is missing from the chain' };
+    }
+
+    if (entry.prev_hash !== previousHash) {
+      return { sequence: entry.sequence, reason: 'Previous hash does not match the preceding entry' };
+    }
+
+    if (computeAuditEntryHash(entry) !== entry.hash) {
+      return { sequence: entry.sequence, reason: 'Entry content does not match its hash' };
+    }
+
+    return null;
+  }
+
+  private toVerification(
+    checkedEntries: number,
+    lastSequence: string | null,
+    brokenAt?: AuditLogChainBreak
+  ): AuditLogVerificationRes {
+    if (brokenAt) {
+      this.logger.error(`Audit log chain broken at entry ${brokenAt.sequence}: ${brokenAt.reason}`);
+    }
+
+    return {
+      valid: !brokenAt,
+      checkedEntries,
+      lastSequence,
+      brokenAt: brokenAt ?? null,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { IsDateString, IsEnum, IsInt, IsNumberString, IsOptional, IsString, IsUUID, Max, Min } from 'class-validator';
+
+import { AuditLogAction, AuditLogOutcome } from '@/types/audit-log.types';
+
+export class AuditLogQuery {
+  @ApiProperty({ enum: AuditLogAction, required: false })
+  @IsOptional()
+  @IsEnum(AuditLogAction)
+  action?: AuditLogAction;
+
+  @ApiProperty({ enum: AuditLogOutcome, required: false })
+  @IsOptional()
+  @IsEnum(AuditLogOutcome)
+  outcome?: AuditLogOutcome;
+
+  @ApiProperty({ description: 'Request actor (`user:<id>`, `admin`, `system`)', required: false, example: 'admin' })
+  @IsOptional()
+  @IsString()
+  actor?: string;
+
+  @ApiProperty({ description: 'Caller-supplied identity recorded with the entry', required: false })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsUUID()
+  vaultId?: string;
+
+  @ApiProperty({ description: 'X-Request-Id of the originating request', required: false })
+  @IsOptional()
+  @IsString()
+  requestId?: string;
+
+  @ApiProperty({ description: 'Entries created at or after (ISO 8601)', required: false })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({ description: 'Entries created at or before (ISO 8601)', required: false })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiProperty({ required: false, minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({ required: false, minimum: 1, maximum: 200, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+}
+
+export class VerifyAuditLogQuery {
+  @ApiProperty({ description: 'First entry to verify; defaults to the start of the chain', required: false })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  fromSequence?: string;
+}
+
+export class AuditLogChainBreakDto {
+  @ApiProperty({ description: 'Sequence of the first entry that failed verification' })
+  @Expose()
+  sequence: string;
+
+  @ApiProperty({ example: 'Entry content does not match its hash' })
+  @Expose()
+  reason: string;
+}
+
+export class AuditLogVerificationRes {
+  @ApiProperty({ description: 'Whether every verified entry links to its predecessor and matches its hash' })
+  @Expose()
+  valid: boolean;
+
+  @ApiProperty({ description: 'Entries verified before the end of the chain or the first break', example: 1200 })
+  @Expose()
+  checkedEntries: number;
+
+  @ApiProperty({ description: 'Sequence of the last entry that verified', nullable: true })
+  @Expose()
+  lastSequence: string | null;
+
+  @ApiProperty({ type: AuditLogChainBreakDto, nullable: true })
+  @Expose()
+  brokenAt: AuditLogChainBreakDto | null;
+}
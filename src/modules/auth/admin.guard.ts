@@ -1,11 +1,38 @@
 import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 
+import { setRequestActor } from '@/common/context/request-context';
+import { AuditLogService } from '@/modules/audit-log/audit-log.service';
+import { AuditLogAction, AuditLogOutcome } from '@/types/audit-log.types';
+
+/**
+ * Accepts the shared ADMIN_SERVICE_TOKEN or a personal token from ADMIN_OPERATOR_TOKENS (`name:token,...`).
+ * Personal tokens identify the admin as `request.adminOperator`, for actions that need a named, accountable actor.
+ */
 @Injectable()
 export class AdminGuard implements CanActivate {
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly auditLogService: AuditLogService
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
+    try {
+      return this.authorize(context);
+    } catch (error) {
+      await this.auditLogService.tryLog({
+        action: AuditLogAction.ADMIN_ACCESS_DENIED,
+        outcome: AuditLogOutcome.FAILURE,
+        details: {
+          handler: `${context.getClass().name}.${context.getHandler().name}`,
+          reason: error.message,
+        },
+      });
+      throw error;
+    }
+  }
+
+  private authorize(context: ExecutionContext): boolean {
     const request = context.switchToHttp().getRequest();
     const authHeader = request.headers.authorization;
 
@@ -28,9 +55,36 @@ export class AdminGuard implements CanActivate {
 
     // Check if it's the service-to-service token
     if (token === adminServiceToken) {
+      setRequestActor('admin');
       return true; // Allow Django admin access
     }
 
+    const operator = this.findOperator(token);
+    if (operator) {
+      setRequestActor(`admin:${operator}`);
+      request.adminOperator = operator;
+      return true;
+    }
+
     throw new ForbiddenException('Access denied: Invalid admin credentials');
   }
+
+  private findOperator(token: string): string | undefined {
+    const operators = (this.configService.get<string>('ADMIN_OPERATOR_TOKENS') || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+
+    for (const entry of operators) {
+      const separator = entry.indexOf(':');
+      const name = entry.slice(0, separator).trim();
+      const operatorToken = entry.slice(separator + 1).trim();
+
+      if (separator > 0 && name && operatorToken && operatorToken === token) {
+        return name;
+      }
+    }
+
+    return undefined;
+  }
 }
@@ -3,6 +3,8 @@ import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { Request } from 'express';
 
+import { setRequestActor } from '@/common/context/request-context';
+
 @Injectable()
 export class AuthGuard implements CanActivate {
   constructor(
@@ -23,6 +25,7 @@ export class AuthGuard implements CanActivate {
     } catch {
       throw new UnauthorizedException();
     }
+    setRequestActor(`user:${request['user'].sub}`);
     return true;
   }
 
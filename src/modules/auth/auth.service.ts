@@ -1,7 +1,3 @@
-import { Buffer } from 'buffer';
-
-import { COSESign1, COSEKey, Label, Int, BigNum } from '@emurgo/cardano-message-signing-nodejs';
-import { Ed25519Signature, PublicKey, Address, RewardAddress } from '@emurgo/cardano-serialization-lib-nodejs';
 import { Injectable } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { InjectRepository } from '@nestjs/typeorm';
@@ -14,6 +10,7 @@ import { UsersService } from '../users/users.service';
 import { LoginReq } from './dto/login.req';
 import { LoginRes } from './dto/login.res';
 
+import { decodeCip30Signature } from '@/common/cardano/cip30-signature';
 import { Vault } from '@/database/vault.entity';
 import { transformImageToUrl } from '@/helpers';
 import { ChainType, VaultStatus } from '@/types/vault.types';
@@ -135,31 +132,15 @@ export class AuthService {
       const { signature, stakeAddress, walletAddress } = signatureData;
 
       // Verify the signature
-      const decoded = COSESign1.from_bytes(Buffer.from(signature.signature, 'hex'));
-      const headermap = decoded.headers().protected().deserialized_headers();
-      const addressHex = Buffer.from(headermap.header(Label.new_text('address')).to_bytes())
-        .toString('hex')
-        .substring(4);
-      const address = Address.from_bytes(Buffer.from(addressHex, 'hex'));
-
-      const key = COSEKey.from_bytes(Buffer.from(signature.key, 'hex'));
-      const pubKeyBytes = key.header(Label.new_int(Int.new_negative(BigNum.from_str('2')))).as_bytes();
-      const publicKey = PublicKey.from_bytes(pubKeyBytes);
-
-      const payload = decoded.payload();
-      const sig = Ed25519Signature.from_bytes(decoded.signature());
-      const signedData = decoded.signed_data().to_bytes();
-
-      const signerStakeAddrBech32 = RewardAddress.from_address(address).to_address().to_bech32();
+      const { isVerified, keyMatchesAddress, payload, signerStakeAddress } = decodeCip30Signature(signature);
 
-      const utf8Payload = Buffer.from(payload).toString('utf8');
-      const expectedMessage = `account: ${signerStakeAddrBech32}`;
+      const expectedMessage = `account: ${signerStakeAddress}`;
 
-      const isVerified = publicKey.verify(signedData, sig);
-      const messageMatches = utf8Payload === expectedMessage;
-      const addressMatches = signerStakeAddrBech32 === stakeAddress;
+      const messageMatches = payload === expectedMessage;
+      const addressMatches = !!signerStakeAddress && signerStakeAddress === stakeAddress;
 
-      if (!isVerified || !messageMatches || !addressMatches) {
+      // The signing key must belong to the signing address, otherwise any key could claim any base address
+      if (!isVerified || !keyMatchesAddress || !messageMatches || !addressMatches) {
         return {
           success: false,
           message: 'Signature verification failed',
@@ -4,6 +4,8 @@ import { Cron } from '@nestjs/schedule';
 
 import { DexHunterPricingService } from './dexhunter-pricing.service';
 
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
+
 /**
  * Background service for refreshing VyFi token prices in Redis cache
  * Runs every 10 minutes via cron to keep price data fresh
@@ -27,6 +29,7 @@ export class DexHunterPricingRefreshService {
     name: 'vyfi-price-refresh',
     timeZone: 'UTC',
   })
+  @CoordinatedJob('vyfi-price-refresh')
   async refreshPrices(): Promise<void> {
     if (!this.isMainnet) {
       return;
@@ -13,12 +13,22 @@ import {
 
 import { Claim } from '@/database/claim.entity';
 import { Vault } from '@/database/vault.entity';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
+import { VaultJobsService } from '@/modules/vault-jobs/vault-jobs.service';
+import { ClaimsMerkleService } from '@/modules/vaults/claims/claims-merkle.service';
+import { ClaimsReconciliationService } from '@/modules/vaults/claims/claims-reconciliation.service';
 import GovernanceService from '@/modules/vaults/phase-management/governance/governance.service';
 import { BlockchainService } from '@/modules/vaults/processing-tx/onchain/blockchain.service';
 import { VyfiService } from '@/modules/vyfi/vyfi.service';
 import { ClaimStatus, ClaimType } from '@/types/claim.types';
+import { ClaimReconciliationTrigger } from '@/types/claims-reconciliation.types';
+import { VaultDistributionJobName, VaultJobQueue } from '@/types/vault-jobs.types';
 import { VaultStatus, SmartContractVaultStatus } from '@/types/vault.types';
 
+// Expected states of the distribution jobs
+const DISTRIBUTION_READY = 'ready';
+const DISTRIBUTION_IN_PROGRESS = 'in_progress';
+
 /**
  * Automated Distribution Service
  *
@@ -27,11 +37,11 @@ import { VaultStatus, SmartContractVaultStatus } from '@/types/vault.types';
  * - Manages vault state transitions through distribution lifecycle
  * - Coordinates stake registration and finalization
  *
- * Flow:
- * 1. processLockedVaultsForDistribution() → Start distribution for locked vaults
+ * Flow (each vault is processed by its own queued job, see DistributionProcessor):
+ * 1. processDistributionStart() → Start distribution for locked vaults
  * 2. AcquirerDistributionOrchestrator → Extract acquirer claims (if applicable)
  * 3. Register stake credential
- * 4. ContributorDistributionOrchestrator → Pay contributors
+ * 4. processContributorPayments() → ContributorDistributionOrchestrator pays contributors
  * 5. finalizeVaultDistribution() → Create LP & snapshot
  */
 @Injectable()
@@ -42,7 +52,6 @@ export class AutomatedDistributionService {
   private readonly adminSKey: string;
   private readonly adminAddress: string;
   private readonly unparametizedDispatchHash: string;
-  private isRunning = false;
 
   constructor(
     @InjectRepository(Vault)
@@ -55,7 +64,10 @@ export class AutomatedDistributionService {
     private readonly vyfiService: VyfiService,
     private readonly acquirerOrchestrator: AcquirerDistributionOrchestrator,
     private readonly acquireOnlyOrchestrator: AcquireOnlyDistributionOrchestrator,
-    private readonly contributorOrchestrator: ContributorDistributionOrchestrator
+    private readonly contributorOrchestrator: ContributorDistributionOrchestrator,
+    private readonly vaultJobsService: VaultJobsService,
+    private readonly claimsReconciliationService: ClaimsReconciliationService,
+    private readonly claimsMerkleService: ClaimsMerkleService
   ) {
     this.unparametizedDispatchHash = this.configService.get<string>('DISPATCH_SCRIPT_HASH');
     this.adminHash = this.configService.get<string>('ADMIN_KEY_HASH');
@@ -82,32 +94,40 @@ export class AutomatedDistributionService {
   }
 
   @Cron(CronExpression.EVERY_10_MINUTES)
+  @CoordinatedJob('automated-distribution')
   async processVaultDistributions(): Promise<void> {
-    if (this.isRunning) {
-      this.logger.warn('Distribution process already running, skipping this execution');
-      return;
-    }
-
-    this.isRunning = true;
-
     try {
-      // Step 1: Find vaults ready for distribution and start acquirer extractions
-      await this.processLockedVaultsForDistribution();
+      // Step 1: Queue vaults ready for distribution to start acquirer extractions
+      for (const vault of await this.findVaultsReadyForDistribution()) {
+        await this.vaultJobsService.enqueue(VaultJobQueue.DISTRIBUTION, VaultDistributionJobName.START, {
+          vaultId: vault.id,
+          expectedState: DISTRIBUTION_READY,
+        });
+      }
 
-      // Step 2: Check extraction completion and trigger contributor payments
-      await this.checkExtractionsAndTriggerPayments();
+      // Step 2: Queue vaults whose acquirer extractions are done for contributor payments
+      for (const { vault, remainingAcquirerClaims } of await this.findVaultsInDistribution()) {
+        if (vault.is_acquire_only || remainingAcquirerClaims > 0) {
+          continue;
+        }
+
+        await this.vaultJobsService.enqueue(VaultJobQueue.DISTRIBUTION, VaultDistributionJobName.CONTRIBUTOR_PAYMENTS, {
+          vaultId: vault.id,
+          expectedState: DISTRIBUTION_IN_PROGRESS,
+        });
+      }
     } catch (error) {
       this.logger.error('Error in vault distribution process:', error);
-    } finally {
-      this.isRunning = false;
     }
   }
 
   /**
-   * Find locked vaults ready for distribution and initiate acquirer extractions
+   * Locked vaults ready for distribution; `vaultId` narrows it to that vault
    */
-  private async processLockedVaultsForDistribution(): Promise<void> {
-    const readyVaults: Pick<
+  private async findVaultsReadyForDistribution(
+    vaultId?: string
+  ): Promise<
+    Pick<
       Vault,
       | 'id'
       | 'tokens_for_acquires'
@@ -115,8 +135,11 @@ export class AutomatedDistributionService {
       | 'script_hash'
       | 'asset_vault_name'
       | 'is_acquire_only'
-    >[] = await this.vaultRepository.find({
+    >[]
+  > {
+    return this.vaultRepository.find({
       where: {
+        ...(vaultId && { id: vaultId }),
         vault_status: VaultStatus.locked,
         vault_sc_status: SmartContractVaultStatus.SUCCESSFUL,
         last_update_tx_hash: Not(IsNull()),
@@ -133,84 +156,93 @@ export class AutomatedDistributionService {
         'is_acquire_only',
       ],
     });
+  }
 
-    for (const vault of readyVaults) {
-      try {
-        this.logger.log(`Processing vault ${vault.id} for distribution`);
+  /**
+   * Job `distribution-start`: starts the distribution of a locked vault and its acquirer extractions
+   */
+  async processDistributionStart(vaultId: string): Promise<void> {
+    const [vault] = await this.findVaultsReadyForDistribution(vaultId);
 
-        await this.vaultRepository.update({ id: vault.id }, { distribution_in_progress: true });
+    if (!vault) {
+      this.logger.log(`Vault ${vaultId} is no longer ready for distribution, skipping`);
+      return;
+    }
 
-        // Acquire-only vaults bypass the dispatch contract entirely
-        if (vault.is_acquire_only) {
-          this.logger.log(`Vault ${vault.id} is acquire-only — using acquire-only distribution orchestrator`);
-          await this.acquireOnlyOrchestrator.processAcquireOnlyExtractions(vault.id, this.getConfig());
-          // LP creation + snapshot + mark processed — same finalization path as regular vaults
-          await this.finalizeVaultDistribution(vault.id, vault.script_hash, vault.asset_vault_name);
-          continue;
-        }
+    this.logger.log(`Processing vault ${vault.id} for distribution`);
 
-        await this.ensureDispatchParameterized(vault);
+    // Commit the allocations before anything is paid out; a failure here is retried with the job
+    await this.claimsMerkleService.commitClaimSet(vault.id);
 
-        // Check if vault has acquirer claims (including from acquire expansion)
-        const acquirerClaims = await this.claimRepository.find({
-          where: {
-            vault: { id: vault.id },
-            type: ClaimType.ACQUIRER,
-            status: In([ClaimStatus.PENDING, ClaimStatus.FAILED]),
-          },
-          relations: ['transaction'],
-        });
+    await this.vaultRepository.update({ id: vault.id }, { distribution_in_progress: true });
 
-        if (acquirerClaims.length === 0) {
-          this.logger.log(
-            `Vault ${vault.id} has no acquirer claims. ` + `Proceeding directly to contributor payments.`
-          );
-          continue; // Will be picked up by checkExtractionsAndTriggerPayments
-        }
+    // Acquire-only vaults bypass the dispatch contract entirely
+    if (vault.is_acquire_only) {
+      this.logger.log(`Vault ${vault.id} is acquire-only — using acquire-only distribution orchestrator`);
+      await this.acquireOnlyOrchestrator.processAcquireOnlyExtractions(vault.id, this.getConfig());
+      // LP creation + snapshot + mark processed — same finalization path as regular vaults
+      await this.finalizeVaultDistribution(vault.id, vault.script_hash, vault.asset_vault_name);
+      return;
+    }
 
-        // Check if claims are from acquire expansion (is_expansion = true)
-        const expansionClaimsCount = acquirerClaims.filter(c => c.transaction?.is_expansion).length;
-        const regularClaimsCount = acquirerClaims.length - expansionClaimsCount;
+    await this.ensureDispatchParameterized(vault);
 
-        this.logger.log(
-          `Vault ${vault.id} has ${acquirerClaims.length} acquirer claim(s): ` +
-            `${regularClaimsCount} regular, ${expansionClaimsCount} from acquire expansion`
-        );
+    // Check if vault has acquirer claims (including from acquire expansion)
+    const acquirerClaims = await this.claimRepository.find({
+      where: {
+        vault: { id: vault.id },
+        type: ClaimType.ACQUIRER,
+        status: In([ClaimStatus.PENDING, ClaimStatus.FAILED]),
+      },
+      relations: ['transaction'],
+    });
 
-        // Acquire expansion claims need to be minted (use acquire-only orchestrator)
-        // Regular claims need to be extracted from dispatch (use acquirer orchestrator)
-        if (expansionClaimsCount > 0 && regularClaimsCount === 0) {
-          this.logger.log(
-            `All acquirer claims are from acquire expansion. Using acquire-only orchestrator to mint tokens.`
-          );
-          await this.acquireOnlyOrchestrator.processAcquireOnlyExtractions(vault.id, this.getConfig());
-        } else if (expansionClaimsCount === 0 && regularClaimsCount > 0) {
-          this.logger.log(`All acquirer claims are regular. Using acquirer orchestrator to extract from dispatch.`);
-          await this.acquirerOrchestrator.processAcquirerExtractions(vault.id, this.getConfig());
-        } else {
-          // Mixed case: process expansion claims first (minting), then regular claims (extraction)
-          this.logger.log(
-            `Vault has mixed acquirer claims. Processing ${expansionClaimsCount} expansion claims first, ` +
-              `then ${regularClaimsCount} regular claims.`
-          );
-          // TODO: Handle mixed case - for now, log warning and use regular orchestrator
-          this.logger.warn(
-            `Mixed acquirer claim types not fully implemented. ` + `Vault ${vault.id} may require manual distribution.`
-          );
-          await this.vaultRepository.update({ id: vault.id }, { manual_distribution_mode: true });
-        }
-      } catch (error) {
-        this.logger.error(`Error processing vault ${vault.id}:`, error);
-      }
+    if (acquirerClaims.length === 0) {
+      this.logger.log(`Vault ${vault.id} has no acquirer claims. ` + `Proceeding directly to contributor payments.`);
+      return; // Picked up by the contributor-payments job
+    }
+
+    // Check if claims are from acquire expansion (is_expansion = true)
+    const expansionClaimsCount = acquirerClaims.filter(c => c.transaction?.is_expansion).length;
+    const regularClaimsCount = acquirerClaims.length - expansionClaimsCount;
+
+    this.logger.log(
+      `Vault ${vault.id} has ${acquirerClaims.length} acquirer claim(s): ` +
+        `${regularClaimsCount} regular, ${expansionClaimsCount} from acquire expansion`
+    );
+
+    // Acquire expansion claims need to be minted (use acquire-only orchestrator)
+    // Regular claims need to be extracted from dispatch (use acquirer orchestrator)
+    if (expansionClaimsCount > 0 && regularClaimsCount === 0) {
+      this.logger.log(
+        `All acquirer claims are from acquire expansion. Using acquire-only orchestrator to mint tokens.`
+      );
+      await this.acquireOnlyOrchestrator.processAcquireOnlyExtractions(vault.id, this.getConfig());
+    } else if (expansionClaimsCount === 0 && regularClaimsCount > 0) {
+      this.logger.log(`All acquirer claims are regular. Using acquirer orchestrator to extract from dispatch.`);
+      await this.acquirerOrchestrator.processAcquirerExtractions(vault.id, this.getConfig());
+    } else {
+      // Mixed case: process expansion claims first (minting), then regular claims (extraction)
+      this.logger.log(
+        `Vault has mixed acquirer claims. Processing ${expansionClaimsCount} expansion claims first, ` +
+          `then ${regularClaimsCount} regular claims.`
+      );
+      // TODO: Handle mixed case - for now, log warning and use regular orchestrator
+      this.logger.warn(
+        `Mixed acquirer claim types not fully implemented. ` + `Vault ${vault.id} may require manual distribution.`
+      );
+      await this.vaultRepository.update({ id: vault.id }, { manual_distribution_mode: true });
     }
   }
 
   /**
-   * Check if acquirer extractions are complete and trigger contributor payments
-   * For multi-batch vaults, only processes claims for the current batch
+   * Vaults with a distribution in progress and their remaining acquirer claims; `vaultId` narrows it to that vault
+   * For multi-batch vaults, only claims for the current batch count
    */
-  private async checkExtractionsAndTriggerPayments(): Promise<void> {
-    const vaultsWithClaims = await this.vaultRepository
+  private async findVaultsInDistribution(
+    vaultId?: string
+  ): Promise<{ vault: Vault; remainingAcquirerClaims: number }[]> {
+    const query = this.vaultRepository
       .createQueryBuilder('vault')
       .select([
         'vault.id',
@@ -238,73 +270,83 @@ export class AutomatedDistributionService {
       .where('vault.distribution_processed = :processed', { processed: false })
       .andWhere('vault.distribution_in_progress = :inProgress', { inProgress: true })
       .andWhere('vault.manual_distribution_mode = :manualMode', { manualMode: false })
-      .groupBy('vault.id')
-      .getRawAndEntities();
-
-    const vaults = vaultsWithClaims.entities;
-    const claimCounts = vaultsWithClaims.raw;
+      .groupBy('vault.id');
 
-    if (vaults.length === 0) {
-      return;
+    if (vaultId) {
+      query.andWhere('vault.id = :vaultId', { vaultId });
     }
 
-    this.logger.log(`Found ${vaults.length} vaults in distribution to check`);
+    const { entities, raw } = await query.getRawAndEntities();
 
-    for (let i = 0; i < vaults.length; i++) {
-      const vault = vaults[i];
-      const remainingAcquirerClaims = parseInt(claimCounts[i].remainingAcquirerClaims || '0');
+    return entities.map((vault, i) => ({
+      vault,
+      remainingAcquirerClaims: parseInt(raw[i].remainingAcquirerClaims || '0'),
+    }));
+  }
 
-      try {
-        this.logger.log(`Checking vault ${vault.id} - ${remainingAcquirerClaims} acquirer claims remaining`);
+  /**
+   * Job `contributor-payments`: pays the next contributor batch once acquirer extractions are complete and
+   * finalizes the distribution when every payment is done
+   */
+  async processContributorPayments(vaultId: string): Promise<void> {
+    const [entry] = await this.findVaultsInDistribution(vaultId);
 
-        // Acquire-only vaults are fully handled by processAcquireOnlyExtractions; skip here
-        if (vault.is_acquire_only) {
-          this.logger.log(`Vault ${vault.id} is acquire-only — skipping contributor payment check`);
-          continue;
-        }
+    if (!entry) {
+      this.logger.log(`Vault ${vaultId} has no distribution in progress, skipping`);
+      return;
+    }
 
-        // Wait for all acquirer claims to complete (including acquire expansion claims)
-        if (remainingAcquirerClaims > 0) {
-          this.logger.log(
-            `Vault ${vault.id} still has ${remainingAcquirerClaims} acquirer claim(s) pending. ` +
-              `Skipping contributor payments for now.`
-          );
-          continue;
-        }
+    const { vault, remainingAcquirerClaims } = entry;
 
-        this.logger.log(`All acquirer extractions complete for vault ${vault.id}`);
+    try {
+      this.logger.log(`Checking vault ${vault.id} - ${remainingAcquirerClaims} acquirer claims remaining`);
 
-        // Delegate to contributor orchestrator
-        await this.contributorOrchestrator.processContributorPayments(vault.id, vault, this.getConfig());
+      // Acquire-only vaults are fully handled by processAcquireOnlyExtractions; skip here
+      if (vault.is_acquire_only) {
+        this.logger.log(`Vault ${vault.id} is acquire-only — skipping contributor payment check`);
+        return;
+      }
 
-        // Check if all payments complete
-        const isComplete = await this.contributorOrchestrator.arePaymentsComplete(vault.id);
+      // Wait for all acquirer claims to complete (including acquire expansion claims)
+      if (remainingAcquirerClaims > 0) {
+        this.logger.log(
+          `Vault ${vault.id} still has ${remainingAcquirerClaims} acquirer claim(s) pending. ` +
+            `Skipping contributor payments for now.`
+        );
+        return;
+      }
 
-        if (isComplete) {
-          this.logger.log(`All contributor payments complete for vault ${vault.id}, finalizing...`);
+      this.logger.log(`All acquirer extractions complete for vault ${vault.id}`);
 
-          // Wait for UTXOs to settle on-chain before attempting LP creation
-          // This prevents "Missing UTxO" errors when Anvil fetches UTXOs that were just spent
-          this.logger.log('Waiting 10 seconds for UTXOs to settle before LP creation...');
-          await new Promise(resolve => setTimeout(resolve, 10000));
+      // Delegate to contributor orchestrator
+      await this.contributorOrchestrator.processContributorPayments(vault.id, vault, this.getConfig());
 
-          await this.finalizeVaultDistribution(vault.id, vault.script_hash, vault.asset_vault_name);
-        }
-      } catch (error) {
-        // Handle insufficient UTXOs - stop processing this vault and wait for next cron cycle
-        if (error instanceof InsufficientUtxosException) {
-          this.logger.warn(
-            `Vault ${vault.id} has insufficient UTXOs. Skipping remaining processing. ` +
-              `Will retry in next cron cycle (10 minutes).`
-          );
-          continue;
-        }
+      // Check if all payments complete
+      const isComplete = await this.contributorOrchestrator.arePaymentsComplete(vault.id);
+
+      if (isComplete) {
+        this.logger.log(`All contributor payments complete for vault ${vault.id}, finalizing...`);
+
+        // Wait for UTXOs to settle on-chain before attempting LP creation
+        // This prevents "Missing UTxO" errors when Anvil fetches UTXOs that were just spent
+        this.logger.log('Waiting 10 seconds for UTXOs to settle before LP creation...');
+        await new Promise(resolve => setTimeout(resolve, 10000));
 
-        this.logger.error(`Error processing vault ${vault.id} for contributor payments:`, error);
+        await this.finalizeVaultDistribution(vault.id, vault.script_hash, vault.asset_vault_name);
+      }
+    } catch (error) {
+      // Handle insufficient UTXOs - stop processing this vault and wait for next cron cycle
+      if (error instanceof InsufficientUtxosException) {
+        this.logger.warn(
+          `Vault ${vault.id} has insufficient UTXOs. Skipping remaining processing. ` +
+            `Will retry in next cron cycle (10 minutes).`
+        );
+        return;
       }
-    }
 
-    this.logger.log('Completed checking extractions and triggering payments for all vaults');
+      this.logger.error(`Error processing vault ${vault.id} for contributor payments:`, error);
+      throw error;
+    }
   }
 
   /**
@@ -425,6 +467,11 @@ export class AutomatedDistributionService {
         this.logger.error(`Error creating governance snapshot for vault ${vaultId}:`, error);
       }
 
+      // Reconcile in the background; payouts not on-chain yet are picked up by the scheduled reconciliation
+      this.claimsReconciliationService
+        .reconcile(vaultId, ClaimReconciliationTrigger.POST_DISTRIBUTION)
+        .catch(error => this.logger.error(`Claims reconciliation of vault ${vaultId} failed: ${error.message}`));
+
       this.logger.log(
         `Vault ${vaultId} distribution finalized successfully ` +
           `(${hasExpansionClaims ? 'expansion distribution' : vault.liquidity_pool_contribution > 0 ? 'LP created' : 'no LP'})`
@@ -11,6 +11,7 @@ import { AcquireOnlyExtractionBuilder } from './builders/acquire-only-extraction
 import { AcquirerExtractionBuilder } from './builders/acquirer-extraction.builder';
 import { ContributorPaymentBuilder } from './builders/contributor-payment.builder';
 import { DistributionCalculationModule } from './distribution-calculation.module';
+import { DistributionProcessor } from './distribution.processor';
 import { MultiBatchDistributionService } from './multi-batch-distribution.service';
 import { AcquireOnlyDistributionOrchestrator } from './orchestrators/acquire-only-distribution.orchestrator';
 import { AcquirerDistributionOrchestrator } from './orchestrators/acquirer-distribution.orchestrator';
@@ -44,6 +45,7 @@ import { VyfiModule } from '@/modules/vyfi/vyfi.module';
   ],
   providers: [
     AutomatedDistributionService,
+    DistributionProcessor,
     MultiBatchDistributionService,
     AcquirerExtractionBuilder,
     AcquireOnlyExtractionBuilder,
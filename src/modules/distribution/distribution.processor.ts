@@ -0,0 +1,33 @@
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job, UnrecoverableError } from 'bullmq';
+
+import { AutomatedDistributionService } from './automated-distribution.service';
+
+import { VaultJobsService } from '@/modules/vault-jobs/vault-jobs.service';
+import { VaultDistributionJobName, VaultJobData, VaultJobQueue } from '@/types/vault-jobs.types';
+
+@Processor(VaultJobQueue.DISTRIBUTION)
+export class DistributionProcessor extends WorkerHost {
+  constructor(
+    private readonly automatedDistributionService: AutomatedDistributionService,
+    private readonly vaultJobsService: VaultJobsService
+  ) {
+    super();
+  }
+
+  async process(job: Job<VaultJobData>): Promise<void> {
+    switch (job.name) {
+      case VaultDistributionJobName.START:
+        return this.automatedDistributionService.processDistributionStart(job.data.vaultId);
+      case VaultDistributionJobName.CONTRIBUTOR_PAYMENTS:
+        return this.automatedDistributionService.processContributorPayments(job.data.vaultId);
+      default:
+        throw new UnrecoverableError(`Unknown job name: ${job.name}`);
+    }
+  }
+
+  @OnWorkerEvent('failed')
+  async onFailed(job: Job<VaultJobData> | undefined, error: Error): Promise<void> {
+    await this.vaultJobsService.handleFailedJob(VaultJobQueue.DISTRIBUTION, job, error);
+  }
+}
@@ -4,7 +4,9 @@ import { In, Repository } from 'typeorm';
 
 import { Claim } from '@/database/claim.entity';
 import { Vault } from '@/database/vault.entity';
+import { AuditLogService } from '@/modules/audit-log/audit-log.service';
 import { VaultManagingService } from '@/modules/vaults/processing-tx/onchain/vault-managing.service';
+import { AuditLogAction, AuditLogOutcome } from '@/types/audit-log.types';
 import { SmartContractVaultStatus } from '@/types/vault.types';
 
 /**
@@ -28,7 +30,8 @@ export class MultiBatchDistributionService {
     private readonly vaultRepository: Repository<Vault>,
     @InjectRepository(Claim)
     private readonly claimRepository: Repository<Claim>,
-    private readonly vaultManagingService: VaultManagingService
+    private readonly vaultManagingService: VaultManagingService,
+    private readonly auditLogService: AuditLogService
   ) {}
 
   /**
@@ -255,6 +258,20 @@ export class MultiBatchDistributionService {
         last_update_tx_index: 0, // Vault token is always first output
       });
 
+      await this.auditLogService.tryLog({
+        action: AuditLogAction.VAULT_MULTIPLIERS_MANUALLY_UPDATED,
+        vaultId,
+        details: {
+          txHash: response.txHash,
+          reason: updateDescription,
+          replaceExisting,
+          addedMultipliers: additionalMultipliers.length,
+          addedAdaDistribution: additionalAdaDistribution.length,
+          previousMultiplierCount: vault.acquire_multiplier?.length ?? 0,
+          newMultiplierCount: newMultipliers.length,
+        },
+      });
+
       return {
         success: true,
         txHash: response.txHash,
@@ -264,6 +281,12 @@ export class MultiBatchDistributionService {
       };
     } catch (error) {
       this.logger.error(`Failed to manually update vault ${vaultId}:`, error);
+      await this.auditLogService.tryLog({
+        action: AuditLogAction.VAULT_MULTIPLIERS_MANUALLY_UPDATED,
+        vaultId,
+        outcome: AuditLogOutcome.FAILURE,
+        details: { reason: updateDescription, replaceExisting, error: error.message },
+      });
       throw error;
     }
   }
@@ -4,6 +4,8 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 
 import { SystemSettings } from '@/database/systemSettings.entity';
+import { AuditLogService } from '@/modules/audit-log/audit-log.service';
+import { AuditLogAction } from '@/types/audit-log.types';
 
 export interface SystemSettingsData {
   protocol_enabled: boolean;
@@ -34,7 +36,16 @@ export interface SystemSettingsData {
   governance_fee_proposal_marketplace_action: number;
   governance_fee_proposal_expansion: number;
   governance_fee_proposal_asset_whitelist_update: number;
+  governance_fee_proposal_composite: number;
   governance_fee_voting: number; // Fee per vote
+  // Timelock between PASSED and execution (in milliseconds, 0 disables)
+  governance_timelock_termination: number;
+  governance_timelock_burning: number;
+  governance_timelock_distribution: number;
+  // Distributions at or above this amount (in lovelace) are timelocked
+  governance_timelock_distribution_min_lovelace: number;
+  // Share of snapshot voting power needed for holders to veto a timelocked proposal
+  governance_veto_supermajority_percent: number;
   // Voting duration constraints (in milliseconds)
   min_voting_duration: number;
   max_voting_duration: number;
@@ -71,7 +82,14 @@ const DEFAULT_SETTINGS: SystemSettingsData = {
   governance_fee_proposal_marketplace_action: 5000000, // 5 ADA
   governance_fee_proposal_expansion: 10000000, // 10 ADA
   governance_fee_proposal_asset_whitelist_update: 5000000, // 5 ADA
+  governance_fee_proposal_composite: 10000000, // 10 ADA
   governance_fee_voting: 0, // No voting fee by default
+  // Governance timelocks (in milliseconds)
+  governance_timelock_termination: 172800000, // 48 hours
+  governance_timelock_burning: 86400000, // 24 hours
+  governance_timelock_distribution: 86400000, // 24 hours
+  governance_timelock_distribution_min_lovelace: 10000000000, // 10,000 ADA
+  governance_veto_supermajority_percent: 66.67,
   // Voting duration constraints (in milliseconds)
   min_voting_duration: 86400000, // 24 hours in ms
   max_voting_duration: 259200000, // 3 days in ms
@@ -103,7 +121,8 @@ export class SystemSettingsService implements OnModuleInit {
   constructor(
     @InjectRepository(SystemSettings)
     private readonly systemSettingsRepository: Repository<SystemSettings>,
-    private readonly configService: ConfigService
+    private readonly configService: ConfigService,
+    private readonly auditLogService: AuditLogService
   ) {
     this.isMainnet = this.configService.get<string>('CARDANO_NETWORK') === 'mainnet';
   }
@@ -134,8 +153,20 @@ export class SystemSettingsService implements OnModuleInit {
   }
 
   async reloadSettings(): Promise<SystemSettingsData> {
+    const previous = this.settings;
+
     await new Promise(resolve => setTimeout(resolve, 1500));
     await this.loadSettings();
+
+    const changes = Object.keys(this.settings)
+      .filter(key => JSON.stringify(previous[key]) !== JSON.stringify(this.settings[key]))
+      .map(key => ({ setting: key, from: previous[key], to: this.settings[key] }));
+
+    await this.auditLogService.tryLog({
+      action: AuditLogAction.SYSTEM_SETTINGS_RELOADED,
+      details: { changes },
+    });
+
     return this.settings;
   }
 
@@ -239,10 +270,21 @@ export class SystemSettingsService implements OnModuleInit {
     return this.settings.governance_fee_proposal_asset_whitelist_update || 0;
   }
 
+  get governanceFeeProposalComposite(): number {
+    return this.settings.governance_fee_proposal_composite || 0;
+  }
+
   get governanceFeeVoting(): number {
     return this.settings.governance_fee_voting || 0;
   }
 
+  get governanceVetoSupermajorityPercent(): number {
+    const value = Number(this.settings.governance_veto_supermajority_percent);
+    return Number.isFinite(value) && value > 50 && value <= 100
+      ? value
+      : DEFAULT_SETTINGS.governance_veto_supermajority_percent;
+  }
+
   get minVotingDuration(): number {
     // Environment-based: 5 min (preprod) / 1 day (mainnet)
     // Always use environment-based value (database setting is ignored for this)
@@ -320,6 +362,10 @@ export class SystemSettingsService implements OnModuleInit {
         return this.governanceFeeProposalStaking;
       case 'distribution':
         return this.governanceFeeProposalDistribution;
+      case 'distribution_policy':
+        return this.governanceFeeProposalDistribution;
+      case 'revoke_distribution_policy':
+        return this.governanceFeeProposalDistribution;
       case 'termination':
         return this.governanceFeeProposalTermination;
       case 'burning':
@@ -334,9 +380,43 @@ export class SystemSettingsService implements OnModuleInit {
         return this.governanceFeeProposalExpansion;
       case 'asset_whitelist_update':
         return this.governanceFeeProposalAssetWhitelistUpdate;
+      case 'composite':
+        return this.governanceFeeProposalComposite;
       default:
         this.logger.warn(`Unknown proposal type: "${proposalType}" - returning 0`);
         return 0;
     }
   }
+
+  /**
+   * Get the timelock between PASSED and execution for a proposal
+   * @param proposalType - The type of proposal
+   * @param distributionLovelaceAmount - Distribution amount, only large one-off distributions are timelocked
+   * @param distributionAssets - Native tokens of the distribution; any token leg is timelocked, as it has no lovelace value to compare
+   * @returns Timelock in milliseconds (0 means execute immediately)
+   */
+  getGovernanceTimelockForProposalType(
+    proposalType: string,
+    distributionLovelaceAmount?: string | number,
+    distributionAssets?: Array<{ unit: string; quantity: string }>
+  ): number {
+    switch (proposalType) {
+      case 'termination':
+        return this.settings.governance_timelock_termination || 0;
+      case 'burning':
+        return this.settings.governance_timelock_burning || 0;
+      case 'distribution': {
+        const minLovelace = this.settings.governance_timelock_distribution_min_lovelace || 0;
+        const movesTokens = (distributionAssets || []).some(asset => BigInt(asset.quantity) > BigInt(0));
+        return movesTokens || Number(distributionLovelaceAmount || 0) >= minLovelace
+          ? this.settings.governance_timelock_distribution || 0
+          : 0;
+      }
+      // A standing policy keeps paying out without further votes, whatever a single run is worth
+      case 'distribution_policy':
+        return this.settings.governance_timelock_distribution || 0;
+      default:
+        return 0;
+    }
+  }
 }
@@ -4,7 +4,6 @@ import { ConfigModule } from '@nestjs/config';
 
 import { TransactionsModule } from '../vaults/processing-tx/offchain-tx/transactions.module';
 
-import { AuditLogService } from './audit-log.service';
 import { GoogleKMSService } from './google-kms.service';
 import { GoogleSecretService } from './google-secret.service';
 
@@ -17,7 +16,7 @@ import { GoogleSecretService } from './google-secret.service';
     TransactionsModule,
   ],
   controllers: [],
-  providers: [GoogleKMSService, GoogleSecretService, AuditLogService],
-  exports: [GoogleKMSService, GoogleSecretService, AuditLogService],
+  providers: [GoogleKMSService, GoogleSecretService],
+  exports: [GoogleKMSService, GoogleSecretService],
 })
 export class GoogleCloudModule {}
@@ -92,10 +92,26 @@ export class GoogleKMSService {
 
   /**
    * Get full KMS key resource name
+   * @param keyId - Key in the configured key ring; defaults to GCP_KMS_KEY
    */
-  private getKeyName(): string {
+  getKeyName(keyId: string = this.keyId): string {
     this.ensureKmsClient();
-    return this.kmsClient.cryptoKeyPath(this.projectId, this.locationId, this.keyRingId, this.keyId);
+    return this.kmsClient.cryptoKeyPath(this.projectId, this.locationId, this.keyRingId, keyId);
+  }
+
+  /**
+   * Resource name of the key version KMS currently encrypts with
+   */
+  async getPrimaryKeyVersion(keyName: string = this.getKeyName()): Promise<string> {
+    this.ensureKmsClient();
+
+    const [cryptoKey] = await this.kmsClient.getCryptoKey({ name: keyName });
+
+    if (!cryptoKey.primary?.name) {
+      throw new Error(`KMS key ${keyName} has no primary version`);
+    }
+
+    return cryptoKey.primary.name;
   }
 
   /**
@@ -103,7 +119,8 @@ export class GoogleKMSService {
    */
   async encryptTreasuryKey(
     privateKey: PrivateKey,
-    vaultId: string
+    vaultId: string,
+    keyName: string = this.getKeyName()
   ): Promise<{
     encryptedKey: Buffer;
     encryptedDEK: Buffer;
@@ -111,6 +128,7 @@ export class GoogleKMSService {
     authTag: Buffer;
     algorithm: string;
     kmsKeyName: string;
+    kmsKeyVersion: string;
   }> {
     this.ensureKmsClient();
 
@@ -128,7 +146,6 @@ export class GoogleKMSService {
     const authTag = cipher.getAuthTag();
 
     // 4. Encrypt DEK with Cloud KMS
-    const keyName = this.getKeyName();
 
     // Use consistent AAD without timestamp
     // For mainnet: keep original format for backward compatibility with existing keys
@@ -162,11 +179,13 @@ export class GoogleKMSService {
       authTag,
       algorithm: 'AES-256-GCM',
       kmsKeyName: keyName,
+      kmsKeyVersion: encryptResponse.name, // Primary version that encrypted the DEK
     };
   }
 
   /**
    * Decrypt treasury key using Cloud KMS
+   * @param keyName - Key the DEK was encrypted under (stored as kmsKeyName); KMS picks the version itself
    */
   async decryptTreasuryKey(
     encryptedPackage: {
@@ -175,12 +194,11 @@ export class GoogleKMSService {
       iv: Buffer;
       authTag: Buffer;
     },
-    vaultId: string
+    vaultId: string,
+    keyName: string = this.getKeyName()
   ): Promise<PrivateKey> {
     this.ensureKmsClient();
 
-    const keyName = this.getKeyName();
-
     // 1. Decrypt DEK with Cloud KMS (use same AAD as encryption)
     // For mainnet: use original format for backward compatibility
     // For testnet: include network field
@@ -224,7 +242,8 @@ export class GoogleKMSService {
    */
   async encryptStakeKey(
     stakePrivateKey: PrivateKey,
-    vaultId: string
+    vaultId: string,
+    keyName: string = this.getKeyName()
   ): Promise<{
     encryptedKey: Buffer;
     encryptedDEK: Buffer;
@@ -232,6 +251,7 @@ export class GoogleKMSService {
     authTag: Buffer;
     algorithm: string;
     kmsKeyName: string;
+    kmsKeyVersion: string;
   }> {
     this.ensureKmsClient();
 
@@ -249,7 +269,6 @@ export class GoogleKMSService {
     const authTag = cipher.getAuthTag();
 
     // 4. Encrypt DEK with Cloud KMS
-    const keyName = this.getKeyName();
 
     // For mainnet: keep original format for backward compatibility
     // For testnet: add network field for isolation
@@ -281,6 +300,7 @@ export class GoogleKMSService {
       authTag,
       algorithm: 'AES-256-GCM',
       kmsKeyName: keyName,
+      kmsKeyVersion: encryptResponse.name, // Primary version that encrypted the DEK
     };
   }
 
@@ -294,12 +314,11 @@ export class GoogleKMSService {
       iv: Buffer;
       authTag: Buffer;
     },
-    vaultId: string
+    vaultId: string,
+    keyName: string = this.getKeyName()
   ): Promise<PrivateKey> {
     this.ensureKmsClient();
 
-    const keyName = this.getKeyName();
-
     // For mainnet: use original format for backward compatibility
     // For testnet: include network field
     const aadData: any = {
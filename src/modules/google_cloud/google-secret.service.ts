@@ -142,46 +142,4 @@ export class GoogleSecretService {
   //     await this.markSecretAsUnused(secretId);
   //   }
   // }
-
-  /**
-   * Store master HD wallet seed
-   */
-  async storeMasterSeed(mnemonic: string): Promise<string> {
-    // Keep original name for mainnet backward compatibility
-    const secretId = this.isMainnet ? 'l4va-treasury-master-seed' : 'l4va-treasury-master-seed-testnet';
-
-    const labels = {
-      purpose: 'treasury',
-      network: this.isMainnet ? 'mainnet' : 'testnet',
-      environment: process.env.NODE_ENV || 'development',
-    };
-
-    const data = {
-      mnemonic,
-      derivation_standard: 'CIP-1852',
-      network: 'mainnet',
-      created_at: new Date().toISOString(),
-    };
-
-    try {
-      await this.createSecret(secretId, labels);
-      return await this.addSecretVersion(secretId, data);
-    } catch (error) {
-      // If secret exists, just add new version
-      return await this.addSecretVersion(secretId, data);
-    }
-  }
-
-  /**
-   * Retrieve master seed
-   */
-  async getMasterSeed(): Promise<{
-    mnemonic: string;
-    derivation_standard: string;
-    network: string;
-  }> {
-    // Keep original name for mainnet backward compatibility
-    const secretId = this.isMainnet ? 'l4va-treasury-master-seed' : 'l4va-treasury-master-seed-testnet';
-    return await this.getSecretValue(secretId);
-  }
 }
@@ -8,11 +8,13 @@ import { GoogleCloudStorageController } from './bucket.controller';
 import { GoogleCloudStorageService } from './bucket.service';
 
 import { FileEntity } from '@/database/file.entity';
+import { StorageModule } from '@/modules/storage/storage.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([FileEntity]),
     HttpModule,
+    StorageModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
@@ -1,11 +1,8 @@
 import * as crypto from 'crypto';
-import * as fs from 'fs';
-import * as path from 'path';
 import * as process from 'process';
 
-import { Storage } from '@google-cloud/storage';
 import { HttpService } from '@nestjs/axios';
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, Inject } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import * as csv from 'csv-parse';
@@ -16,12 +13,19 @@ import { v4 as uuid } from 'uuid';
 import { UploadImageDto, ImageResizeMap } from './dto/bucket.dto';
 
 import { FileEntity } from '@/database/file.entity';
-
+import {
+  MAX_SIGNED_URL_EXPIRES_IN,
+  STORAGE_DRIVER,
+  StorageDriver,
+  StorageObjectNotFoundError,
+} from '@/modules/storage/storage.types';
+
+/**
+ * File uploads and downloads on top of the configured STORAGE_DRIVER (GCS, local disk or S3/MinIO).
+ * Objects are referenced by key; FileEntity URLs point at this API so they do not depend on the driver.
+ */
 @Injectable()
 export class GoogleCloudStorageService {
-  private readonly storage: Storage;
-  private readonly bucketName: string;
-  private readonly bucketPrefix: string;
   private readonly appHost: string;
   private readonly ASSET_IMAGES_FOLDER = 'asset-images';
 
@@ -30,6 +34,8 @@ export class GoogleCloudStorageService {
   constructor(
     @InjectRepository(FileEntity)
     private readonly fileRepository: Repository<FileEntity>,
+    @Inject(STORAGE_DRIVER)
+    private readonly storageDriver: StorageDriver,
     private readonly httpService: HttpService,
     private readonly configService: ConfigService
   ) {
@@ -37,100 +43,29 @@ export class GoogleCloudStorageService {
     if (!this.appHost) {
       throw new Error('APP_HOST environment variable is required');
     }
-
-    const bucketConfig = process.env.GOOGLE_BUCKET_NAME;
-    if (!bucketConfig) {
-      throw new Error('GOOGLE_BUCKET_NAME environment variable is required');
-    }
-
-    const [bucket, ...prefixParts] = bucketConfig.split('/');
-    this.bucketName = bucket;
-    this.bucketPrefix = prefixParts.length > 0 ? prefixParts.join('/') : '';
-
-    const nodeEnv = process.env.NODE_ENV;
-    const isDevelopment = nodeEnv === 'dev' || nodeEnv === 'development';
-
-    // For development: expect file path in GOOGLE_BUCKET_CREDENTIALS
-    // For production/testnet: use ADC (Application Default Credentials)
-    if (isDevelopment) {
-      const credentialsJson = process.env.GOOGLE_BUCKET_CREDENTIALS;
-      if (!credentialsJson) {
-        throw new Error('GOOGLE_BUCKET_CREDENTIALS environment variable is required for development');
-      }
-
-      // Local development: treat GOOGLE_BUCKET_CREDENTIALS as a file path
-      const resolvedCredentialsPath = path.resolve(process.cwd(), credentialsJson);
-
-      if (!fs.existsSync(resolvedCredentialsPath)) {
-        throw new Error(`GOOGLE_BUCKET_CREDENTIALS file not found at ${resolvedCredentialsPath} (development mode)`);
-      }
-
-      const credentialsContent = fs.readFileSync(resolvedCredentialsPath, 'utf8');
-      const credentials = JSON.parse(credentialsContent);
-      this.storage = new Storage({
-        credentials: credentials,
-        projectId: credentials.project_id,
-      });
-      this.logger.log('✅ Initialized Google Cloud Storage from file (dev mode)');
-    } else {
-      // Production/Testnet: use ADC (VM service account)
-      this.storage = new Storage();
-      this.logger.log('✅ Initialized Google Cloud Storage with ADC (VM service account)');
-    }
-  }
-
-  private getStorage(): Storage {
-    return this.storage;
-  }
-
-  private getFullPath(key: string): string {
-    return this.bucketPrefix ? `${this.bucketPrefix}/${key}` : key;
   }
 
   async uploadFile(buffer: Buffer, name: string, type: string): Promise<{ Key: string; Location: string }> {
-    const bucket = this.getStorage().bucket(this.bucketName);
-    const fileName = this.getFullPath(name);
-    const gcsFile = bucket.file(fileName);
-
-    return new Promise((resolve, reject) => {
-      const stream = gcsFile.createWriteStream({
-        metadata: {
-          contentType: type,
-        },
-      });
-
-      stream.on('error', err => {
-        this.logger.error('Error uploading file:', err);
-        reject(err.message);
-      });
-
-      stream.on('finish', async () => {
-        try {
-          resolve({
-            Key: name,
-            Location: `gs://${this.bucketName}/${fileName}`,
-          });
-        } catch (err) {
-          this.logger.error('Error finalizing upload:', err);
-          reject(err.message);
-        }
-      });
+    try {
+      const { key, location } = await this.storageDriver.upload(name, buffer, type);
 
-      stream.end(buffer);
-    });
+      return { Key: key, Location: location };
+    } catch (error) {
+      this.logger.error('Error uploading file:', error);
+      throw error;
+    }
   }
 
+  /**
+   * Time-limited read URL for a stored object, with the same semantics on every driver
+   * @param expiresIn - Lifetime in seconds (1 to 7 days max)
+   */
   async getSignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
-    const bucket = this.getStorage().bucket(this.bucketName);
-    const fileName = this.getFullPath(key);
-    const file = bucket.file(fileName);
-
-    const [url] = await file.getSignedUrl({
-      action: 'read',
-      expires: Date.now() + expiresIn * 1000,
-    });
+    if (!Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > MAX_SIGNED_URL_EXPIRES_IN) {
+      throw new BadRequestException(`expiresIn must be between 1 and ${MAX_SIGNED_URL_EXPIRES_IN} seconds`);
+    }
 
-    return url;
+    return this.storageDriver.getSignedUrl(key, expiresIn);
   }
 
   async getImage(bucketKey: string): Promise<{ stream: NodeJS.ReadableStream; contentType: string }> {
@@ -138,11 +73,6 @@ export class GoogleCloudStorageService {
       throw new BadRequestException(`Invalid file key: ${bucketKey}`);
     }
 
-    const fileName = this.getFullPath(bucketKey);
-    if (!fileName || typeof fileName !== 'string') {
-      throw new BadRequestException(`Invalid file path for key: ${bucketKey}`);
-    }
-
     let contentType = 'application/octet-stream';
     try {
       const fileEntity = await this.fileRepository.findOne({
@@ -156,29 +86,7 @@ export class GoogleCloudStorageService {
     }
 
     try {
-      const storage = this.getStorage();
-      if (!storage) {
-        throw new Error('Storage is not initialized');
-      }
-
-      const bucket = storage.bucket(this.bucketName);
-      if (!bucket) {
-        throw new Error('Bucket is not initialized');
-      }
-
-      const filePath = String(fileName).trim();
-      if (!filePath) {
-        throw new Error('File path is empty');
-      }
-
-      const file = bucket.file(filePath);
-      if (!file) {
-        throw new Error('File object is not created');
-      }
-
-      const stream = file.createReadStream({
-        validation: false,
-      });
+      const stream = await this.storageDriver.createReadStream(bucketKey.trim());
 
       stream.on('error', streamError => {
         this.logger.error(`Stream error for ${bucketKey}: ${streamError.message}`, streamError);
@@ -189,7 +97,7 @@ export class GoogleCloudStorageService {
         contentType,
       };
     } catch (error) {
-      if (error.code === 404 || error.message?.includes('No such object')) {
+      if (this.isNotFoundError(error)) {
         throw new BadRequestException(`Image with key ${bucketKey} not found`);
       }
       throw new BadRequestException(`Failed to retrieve image: ${error.message}`);
@@ -201,11 +109,6 @@ export class GoogleCloudStorageService {
       throw new BadRequestException(`Invalid file key: ${bucketKey}`);
     }
 
-    const fileName = this.getFullPath(bucketKey);
-    if (!fileName || typeof fileName !== 'string') {
-      throw new BadRequestException(`Invalid file path for key: ${bucketKey}`);
-    }
-
     let contentType = 'text/csv';
     try {
       const fileEntity = await this.fileRepository.findOne({
@@ -219,19 +122,7 @@ export class GoogleCloudStorageService {
     }
 
     try {
-      const bucket = this.getStorage().bucket(this.bucketName);
-
-      if (!bucket) {
-        throw new Error('Bucket is not initialized');
-      }
-
-      const file = bucket.file(fileName);
-
-      if (!file) {
-        throw new Error('File object is not created');
-      }
-
-      const stream = file.createReadStream();
+      const stream = await this.storageDriver.createReadStream(bucketKey);
 
       stream.on('error', streamError => {
         this.logger.error(`Stream error for CSV ${bucketKey}: ${streamError.message}`);
@@ -243,7 +134,7 @@ export class GoogleCloudStorageService {
       };
     } catch (error) {
       this.logger.error(`Error getting CSV ${bucketKey}: ${error.message}`, error);
-      if (error.code === 404 || error.message?.includes('No such object')) {
+      if (this.isNotFoundError(error)) {
         throw new BadRequestException(`CSV with key ${bucketKey} not found`);
       }
       throw new BadRequestException(`Failed to retrieve CSV: ${error.message}`);
@@ -349,7 +240,7 @@ export class GoogleCloudStorageService {
       const uploadResult = await this.uploadFile(processedImageBuffer, fileKey, mimeType);
       const protocol = process.env.NODE_ENV === 'dev' ? 'http://' : 'https://';
 
-      if (!uploadResult) throw new BadRequestException('Failed to upload file to Google Cloud Storage');
+      if (!uploadResult) throw new BadRequestException('Failed to upload file to storage');
 
       const fileUrl = `${protocol}${this.appHost}/api/v1/image/${uploadResult.Key}`;
       this.logger.log(`File uploaded successfully. Key: ${uploadResult.Key}, URL: ${fileUrl}`);
@@ -390,12 +281,12 @@ export class GoogleCloudStorageService {
 
   /**
    * Downloads/decodes an asset image, converts it to WebP
-   * (animated WebP for GIFs/WebPs), and stores it under `asset-images/` in GCS.
+   * (animated WebP for GIFs/WebPs), and stores it under `asset-images/` in the configured storage.
    *
    * Supports `ipfs://...`, `http(s)://...`, and `data:image/...;base64,...` sources.
    *
    * @param imageUrl - Source image URL or data URL.
-   * @returns `ipfs://{id}` handle used by the app (mapped to `asset-images/{id}` in GCS),
+   * @returns `ipfs://{id}` handle used by the app (mapped to `asset-images/{id}` in storage),
    *          or `null` when decoding/downloading/conversion/upload fails.
    */
   async uploadAssetImage(imageUrl: string): Promise<string | null> {
@@ -473,11 +364,9 @@ export class GoogleCloudStorageService {
 
   async getAssetImage(id: string): Promise<{ stream: NodeJS.ReadableStream; contentType: string }> {
     const bucketKey = `${this.ASSET_IMAGES_FOLDER}/${id}`;
-    const fileName = this.getFullPath(bucketKey);
 
     try {
-      const bucket = this.getStorage().bucket(this.bucketName);
-      const stream = bucket.file(fileName).createReadStream({ validation: false });
+      const stream = await this.storageDriver.createReadStream(bucketKey);
 
       stream.on('error', err => {
         this.logger.error(`Stream error for asset image ${id}:`, err);
@@ -485,7 +374,7 @@ export class GoogleCloudStorageService {
 
       return { stream, contentType: 'image/webp' };
     } catch (error) {
-      if (error.code === 404 || error.message?.includes('No such object')) {
+      if (this.isNotFoundError(error)) {
         throw new BadRequestException(`Asset image ${id} not found`);
       }
       throw new BadRequestException(`Failed to retrieve asset image: ${error.message}`);
@@ -493,9 +382,9 @@ export class GoogleCloudStorageService {
   }
 
   /**
-   * Creates a new file record in the database for a vault, referencing an existing GCS object.
+   * Creates a new file record in the database for a vault, referencing an existing stored object.
    *
-   * @param fileKey - The GCS key of the original file to reference.
+   * @param fileKey - The storage key of the original file to reference.
    * @returns A promise that resolves to the newly created FileEntity.
    * @throws {BadRequestException} If the original file with the given key is not found.
    */
@@ -528,27 +417,21 @@ export class GoogleCloudStorageService {
       throw new BadRequestException('Invalid file key: empty');
     }
 
-    const fileName = this.getFullPath(trimmedKey);
-
     try {
-      const storage = this.getStorage();
-      if (!storage) {
-        throw new Error('Storage is not initialized');
-      }
-
-      const bucket = storage.bucket(this.bucketName);
-      if (!bucket) {
-        throw new Error('Bucket is not initialized');
-      }
-
-      await bucket.file(fileName).delete({ ignoreNotFound: true });
+      await this.storageDriver.delete(trimmedKey);
 
       await this.fileRepository.delete({ file_key: trimmedKey });
 
-      this.logger.log(`Deleted file ${trimmedKey} (${fileName})`);
+      this.logger.log(`Deleted file ${trimmedKey} (${this.storageDriver.driverName})`);
     } catch (error) {
       this.logger.error(`Failed to delete file ${trimmedKey}: ${error.message}`, error);
       throw new BadRequestException(`Failed to delete file: ${error.message}`);
     }
   }
+
+  private isNotFoundError(error: any): boolean {
+    return (
+      error instanceof StorageObjectNotFoundError || error.code === 404 || error.message?.includes('No such object')
+    );
+  }
 }
@@ -0,0 +1,58 @@
+import { CoordinatedJobOptions } from '@/types/job-coordinator.types';
+
+export const COORDINATED_JOB_METADATA = 'COORDINATED_JOB_METADATA';
+
+export interface CoordinatedJobMetadata {
+  name: string;
+  options: CoordinatedJobOptions;
+  /** `ClassName.method` */
+  handler: string;
+  /** The undecorated method, for admin-triggered runs that bypass the pause flag */
+  run: (this: unknown, ...args: unknown[]) => Promise<unknown>;
+}
+
+type CoordinatedJobRunner = (
+  name: string,
+  handler: () => Promise<unknown>,
+  options: CoordinatedJobOptions
+) => Promise<unknown>;
+
+let coordinatedJobRunner: CoordinatedJobRunner | undefined;
+
+/**
+ * Installed by `JobCoordinatorService`; until then (and in unit tests) decorated methods run uncoordinated
+ */
+export function setCoordinatedJobRunner(runner: CoordinatedJobRunner): void {
+  coordinatedJobRunner = runner;
+}
+
+/**
+ * Runs the method only on the replica holding the job's Redis lease, skips it while the job is paused and records
+ * the run's duration and outcome. Combine with `@Cron`; the order of the two decorators does not matter.
+ */
+export function CoordinatedJob(name: string, options: CoordinatedJobOptions = {}): MethodDecorator {
+  return (target: object, key: string | symbol, descriptor: PropertyDescriptor) => {
+    const original = descriptor.value;
+
+    const wrapper = function (this: unknown, ...args: unknown[]): Promise<unknown> {
+      const handler = (): Promise<unknown> => original.apply(this, args);
+      return coordinatedJobRunner ? coordinatedJobRunner(name, handler, options) : handler();
+    };
+
+    // Keep metadata of decorators applied before this one, e.g. a @Cron listed below it
+    for (const metadataKey of Reflect.getMetadataKeys(original)) {
+      Reflect.defineMetadata(metadataKey, Reflect.getMetadata(metadataKey, original), wrapper);
+    }
+
+    const metadata: CoordinatedJobMetadata = {
+      name,
+      options,
+      handler: `${target.constructor.name}.${String(key)}`,
+      run: original,
+    };
+    Reflect.defineMetadata(COORDINATED_JOB_METADATA, metadata, wrapper);
+
+    descriptor.value = wrapper;
+    return descriptor;
+  };
+}
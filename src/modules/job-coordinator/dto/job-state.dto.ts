@@ -0,0 +1,62 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+import { JobRunOutcome, JobState } from '@/types/job-coordinator.types';
+
+export class JobStateDto implements JobState {
+  @ApiProperty({ example: 'vault-lifecycle-transitions' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ example: 'LifecycleService.handleVaultLifecycleTransitions' })
+  @Expose()
+  handler: string;
+
+  @ApiProperty({ description: 'Skipped by every replica until resumed' })
+  @Expose()
+  paused: boolean;
+
+  @ApiProperty()
+  @Expose()
+  running: boolean;
+
+  @ApiProperty({ description: 'Replica (`host:pid`) holding the lease', nullable: true })
+  @Expose()
+  leaseHolder: string | null;
+
+  @ApiProperty({ description: 'Fencing token of the latest run', nullable: true })
+  @Expose()
+  fencingToken: number | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  lastStartedAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  lastFinishedAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  lastDurationMs: number | null;
+
+  @ApiProperty({ enum: JobRunOutcome, nullable: true })
+  @Expose()
+  lastOutcome: JobRunOutcome | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  lastError: string | null;
+
+  @ApiProperty({ description: 'Replica that ran the job last', nullable: true })
+  @Expose()
+  lastInstance: string | null;
+
+  @ApiProperty()
+  @Expose()
+  runCount: number;
+
+  @ApiProperty()
+  @Expose()
+  failureCount: number;
+}
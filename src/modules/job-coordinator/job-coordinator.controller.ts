@@ -0,0 +1,56 @@
+import { Controller, Get, HttpCode, HttpStatus, Param, Post, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+
+import { JobStateDto } from './dto/job-state.dto';
+import { JobCoordinatorService } from './job-coordinator.service';
+
+import { AdminGuard } from '@/modules/auth/admin.guard';
+
+@ApiTags('Admin - Scheduled Jobs')
+@Controller('admin/jobs')
+@UseGuards(AdminGuard)
+export class JobCoordinatorController {
+  constructor(private readonly jobCoordinatorService: JobCoordinatorService) {}
+
+  @Get()
+  @ApiOperation({ summary: '[Admin] Scheduled jobs with their lease, pause flag and last run' })
+  @ApiResponse({ status: 200, type: [JobStateDto] })
+  async listJobs(): Promise<JobStateDto[]> {
+    const jobs = await this.jobCoordinatorService.listJobs();
+
+    return plainToInstance(JobStateDto, jobs, { excludeExtraneousValues: true });
+  }
+
+  @Post(':name/pause')
+  @ApiOperation({ summary: '[Admin] Pause a scheduled job on every replica' })
+  @ApiResponse({ status: 201, type: JobStateDto })
+  async pauseJob(@Param('name') name: string): Promise<JobStateDto> {
+    const job = await this.jobCoordinatorService.setPaused(name, true);
+
+    return plainToInstance(JobStateDto, job, { excludeExtraneousValues: true });
+  }
+
+  @Post(':name/resume')
+  @ApiOperation({ summary: '[Admin] Resume a paused scheduled job' })
+  @ApiResponse({ status: 201, type: JobStateDto })
+  async resumeJob(@Param('name') name: string): Promise<JobStateDto> {
+    const job = await this.jobCoordinatorService.setPaused(name, false);
+
+    return plainToInstance(JobStateDto, job, { excludeExtraneousValues: true });
+  }
+
+  @Post(':name/trigger')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: '[Admin] Run a scheduled job now',
+    description: 'Runs in the background on the replica handling the request, also when the job is paused',
+  })
+  @ApiResponse({ status: 202, type: JobStateDto })
+  @ApiResponse({ status: 409, description: 'The job is already running' })
+  async triggerJob(@Param('name') name: string): Promise<JobStateDto> {
+    const job = await this.jobCoordinatorService.trigger(name);
+
+    return plainToInstance(JobStateDto, job, { excludeExtraneousValues: true });
+  }
+}
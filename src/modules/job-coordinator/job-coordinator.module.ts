@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+
+import { JobCoordinatorController } from './job-coordinator.controller';
+import { JobCoordinatorService } from './job-coordinator.service';
+
+import { RedisModule } from '@/modules/redis/redis.module';
+
+@Global()
+@Module({
+  imports: [DiscoveryModule, RedisModule],
+  controllers: [JobCoordinatorController],
+  providers: [JobCoordinatorService],
+  exports: [JobCoordinatorService],
+})
+export class JobCoordinatorModule {}
@@ -0,0 +1,329 @@
+import { hostname } from 'os';
+
+import { ConflictException, Inject, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner } from '@nestjs/core';
+import { InjectDataSource } from '@nestjs/typeorm';
+import Redis from 'ioredis';
+import { DataSource, EntityManager } from 'typeorm';
+
+import { COORDINATED_JOB_METADATA, CoordinatedJobMetadata, setCoordinatedJobRunner } from './coordinated-job.decorator';
+
+import { getJobContext, JobContextData, runWithJobContext } from '@/common/context/job-context';
+import { REDIS_CLIENT } from '@/modules/redis/redis.module';
+import { CoordinatedJobOptions, JobRunOutcome, JobState } from '@/types/job-coordinator.types';
+
+const DEFAULT_LEASE_MS = 2 * 60 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+// Extend / delete the lease only while it still holds our value
+const RENEW_LEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('pexpire', KEYS[1], ARGV[2]) else return 0 end`;
+const RELEASE_LEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
+// Moves the job's fence forward; returns no row when a run with a larger token has already written
+const ADVANCE_FENCE_SQL = `INSERT INTO job_fences (name, fencing_token, updated_at) VALUES ($1, $2, now())
+  ON CONFLICT (name) DO UPDATE SET fencing_token = EXCLUDED.fencing_token, updated_at = now()
+  WHERE job_fences.fencing_token <= EXCLUDED.fencing_token
+  RETURNING name`;
+
+export class JobLeaseLostError extends Error {
+  constructor(name: string, fencingToken: number) {
+    super(`Job ${name} lost its lease (fencing token ${fencingToken})`);
+    this.name = 'JobLeaseLostError';
+  }
+}
+
+interface RegisteredJob extends CoordinatedJobMetadata {
+  instance: object;
+}
+
+/**
+ * Coordinates scheduled jobs across API replicas through per-job Redis leases.
+ *
+ * A run first takes a fencing token (INCR, so a later lease always has a larger token) and then the lease
+ * (SET NX PX). The lease is renewed while the job runs and released when it finishes; a replica that dies
+ * blocks the job for at most one lease TTL. Last run, duration, outcome and the pause flag are kept in a Redis
+ * hash per job. If Redis is unreachable the job is skipped rather than run uncoordinated.
+ *
+ * A lease alone cannot stop a run that was paused past its TTL from writing after its successor started;
+ * writes that must not interleave go through `fenced`, which the database checks against the token.
+ */
+@Injectable()
+export class JobCoordinatorService implements OnModuleInit {
+  private readonly logger = new Logger(JobCoordinatorService.name);
+  private readonly instanceId = `${hostname()}:${process.pid}`;
+  private readonly jobs = new Map<string, RegisteredJob>();
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    @InjectDataSource() private readonly dataSource: DataSource,
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner
+  ) {
+    setCoordinatedJobRunner((name, handler, options) => this.run(name, handler, options));
+  }
+
+  onModuleInit(): void {
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const { instance } = wrapper;
+      if (!instance || !Object.getPrototypeOf(instance)) {
+        continue;
+      }
+
+      for (const methodName of this.metadataScanner.getAllMethodNames(Object.getPrototypeOf(instance))) {
+        const metadata: CoordinatedJobMetadata | undefined = Reflect.getMetadata(
+          COORDINATED_JOB_METADATA,
+          instance[methodName]
+        );
+        if (!metadata) {
+          continue;
+        }
+
+        if (this.jobs.has(metadata.name)) {
+          this.logger.warn(`Job name ${metadata.name} is used by more than one handler; ${metadata.handler} ignored`);
+          continue;
+        }
+
+        this.jobs.set(metadata.name, { ...metadata, instance });
+      }
+    }
+
+    this.logger.log(`Coordinating ${this.jobs.size} scheduled jobs as ${this.instanceId}`);
+  }
+
+  /**
+   * Runs `handler` if this replica gets the job's lease and the job is not paused (unless `force`).
+   * Returns undefined without running it otherwise. Errors from the handler are recorded and rethrown.
+   */
+  async run<T>(
+    name: string,
+    handler: () => Promise<T>,
+    options: CoordinatedJobOptions = {},
+    force = false
+  ): Promise<T | undefined> {
+    const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+    const leaseKey = this.leaseKey(name);
+    let context: JobContextData;
+
+    try {
+      if (!force && (await this.redis.hget(this.stateKey(name), 'paused')) === '1') {
+        this.logger.debug(`Job ${name} is paused, skipping`);
+        return undefined;
+      }
+
+      const fencingToken = await this.redis.incr(this.fenceKey(name));
+      const leaseValue = `${this.instanceId}:${fencingToken}`;
+
+      if ((await this.redis.set(leaseKey, leaseValue, 'PX', leaseMs, 'NX')) !== 'OK') {
+        this.logger.debug(`Job ${name} is running on another replica, skipping`);
+        return undefined;
+      }
+
+      context = { name, fencingToken, leaseValue, leaseLost: false };
+    } catch (error) {
+      this.logger.error(`Failed to acquire lease for job ${name}: ${error.message}`);
+      return undefined;
+    }
+
+    const startedAt = Date.now();
+    await this.updateState(name, {
+      fencingToken: String(context.fencingToken),
+      lastStartedAt: new Date(startedAt).toISOString(),
+      lastInstance: this.instanceId,
+    });
+
+    const renewal = setInterval(
+      () => {
+        this.redis
+          .eval(RENEW_LEASE_SCRIPT, 1, leaseKey, context.leaseValue, leaseMs)
+          .then(renewed => {
+            if (!renewed && !context.leaseLost) {
+              context.leaseLost = true;
+              this.logger.error(`Job ${name} lost its lease (fencing token ${context.fencingToken})`);
+            }
+          })
+          .catch(error => this.logger.warn(`Failed to renew lease for job ${name}: ${error.message}`));
+      },
+      Math.max(Math.floor(leaseMs / 3), 1000)
+    );
+
+    let outcome = JobRunOutcome.SUCCESS;
+    let lastError = '';
+
+    try {
+      return await runWithJobContext(context, handler);
+    } catch (error) {
+      outcome = error instanceof JobLeaseLostError ? JobRunOutcome.LEASE_LOST : JobRunOutcome.FAILED;
+      lastError = String(error?.message ?? error).slice(0, MAX_ERROR_LENGTH);
+      throw error;
+    } finally {
+      clearInterval(renewal);
+
+      if (context.leaseLost && outcome === JobRunOutcome.SUCCESS) {
+        outcome = JobRunOutcome.LEASE_LOST;
+      }
+
+      const finishedAt = Date.now();
+      await this.updateState(
+        name,
+        {
+          lastFinishedAt: new Date(finishedAt).toISOString(),
+          lastDurationMs: String(finishedAt - startedAt),
+          lastOutcome: outcome,
+          lastError,
+        },
+        outcome === JobRunOutcome.SUCCESS ? ['runCount'] : ['runCount', 'failureCount']
+      );
+
+      try {
+        await this.redis.eval(RELEASE_LEASE_SCRIPT, 1, leaseKey, context.leaseValue);
+      } catch (error) {
+        this.logger.warn(`Failed to release lease for job ${name}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Throws `JobLeaseLostError` when called from a coordinated job whose lease is no longer held,
+   * e.g. after a long pause in the event loop let it expire. Call between steps of a long run so it stops early;
+   * the check is not atomic with the writes that follow, so guard those with `fenced`.
+   * A no-op outside of coordinated jobs.
+   */
+  async assertLeaseHeld(): Promise<void> {
+    const context = getJobContext();
+    if (!context) {
+      return;
+    }
+
+    if (context.leaseLost || (await this.redis.get(this.leaseKey(context.name))) !== context.leaseValue) {
+      context.leaseLost = true;
+      throw new JobLeaseLostError(context.name, context.fencingToken);
+    }
+  }
+
+  /**
+   * Whether any replica holds the job's lease. Also works for jobs run through `run` without `@CoordinatedJob`.
+   */
+  async isRunning(name: string): Promise<boolean> {
+    return (await this.redis.exists(this.leaseKey(name))) > 0;
+  }
+
+  /**
+   * Runs `work` in a transaction that first records this run's fencing token in `job_fences`. Once a run with a
+   * larger token has written, an older one fails here with `JobLeaseLostError` and its writes are rolled back;
+   * the fence row stays locked until commit, so the two cannot interleave either.
+   * Outside of coordinated jobs `work` just runs in a transaction.
+   *
+   * @param manager - Run inside the caller's transaction instead of opening a new one
+   */
+  async fenced<T>(work: (manager: EntityManager) => Promise<T>, manager?: EntityManager): Promise<T> {
+    const context = getJobContext();
+
+    const run = async (em: EntityManager): Promise<T> => {
+      if (context) {
+        const advanced = await em.query(ADVANCE_FENCE_SQL, [context.name, context.fencingToken]);
+
+        if (context.leaseLost || advanced.length === 0) {
+          context.leaseLost = true;
+          throw new JobLeaseLostError(context.name, context.fencingToken);
+        }
+      }
+
+      return work(em);
+    };
+
+    return manager ? run(manager) : this.dataSource.transaction(run);
+  }
+
+  async listJobs(): Promise<JobState[]> {
+    const names = [...this.jobs.keys()].sort();
+    return Promise.all(names.map(name => this.getJob(name)));
+  }
+
+  async getJob(name: string): Promise<JobState> {
+    const job = this.getRegisteredJob(name);
+    const [state, lease] = await Promise.all([
+      this.redis.hgetall(this.stateKey(name)),
+      this.redis.get(this.leaseKey(name)),
+    ]);
+    const toDate = (value?: string): Date | null => (value ? new Date(value) : null);
+    const toNumber = (value?: string): number | null => (value ? Number(value) : null);
+
+    return {
+      name,
+      handler: job.handler,
+      paused: state.paused === '1',
+      running: Boolean(lease),
+      // Lease values are `<instance>:<fencing token>`
+      leaseHolder: lease ? lease.slice(0, lease.lastIndexOf(':')) : null,
+      fencingToken: toNumber(state.fencingToken),
+      lastStartedAt: toDate(state.lastStartedAt),
+      lastFinishedAt: toDate(state.lastFinishedAt),
+      lastDurationMs: toNumber(state.lastDurationMs),
+      lastOutcome: (state.lastOutcome as JobRunOutcome) || null,
+      lastError: state.lastError || null,
+      lastInstance: state.lastInstance || null,
+      runCount: Number(state.runCount ?? 0),
+      failureCount: Number(state.failureCount ?? 0),
+    };
+  }
+
+  /**
+   * Paused jobs are skipped by every replica until resumed; a run already in progress finishes
+   */
+  async setPaused(name: string, paused: boolean): Promise<JobState> {
+    this.getRegisteredJob(name);
+    await this.redis.hset(this.stateKey(name), 'paused', paused ? '1' : '0');
+    this.logger.log(`Job ${name} ${paused ? 'paused' : 'resumed'}`);
+
+    return this.getJob(name);
+  }
+
+  /**
+   * Starts a run now on this replica, also when the job is paused. The run happens in the background;
+   * the result is recorded in the job state.
+   */
+  async trigger(name: string): Promise<JobState> {
+    const job = this.getRegisteredJob(name);
+
+    if (await this.isRunning(name)) {
+      throw new ConflictException(`Job ${name} is already running`);
+    }
+
+    this.run(name, () => job.run.call(job.instance), job.options, true).catch(error =>
+      this.logger.error(`Triggered run of job ${name} failed: ${error.message}`)
+    );
+
+    return this.getJob(name);
+  }
+
+  private getRegisteredJob(name: string): RegisteredJob {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new NotFoundException(`Job ${name} not found`);
+    }
+
+    return job;
+  }
+
+  private async updateState(name: string, fields: Record<string, string>, counters: string[] = []): Promise<void> {
+    try {
+      const pipeline = this.redis.multi().hset(this.stateKey(name), fields);
+      counters.forEach(counter => pipeline.hincrby(this.stateKey(name), counter, 1));
+      await pipeline.exec();
+    } catch (error) {
+      this.logger.warn(`Failed to record state of job ${name}: ${error.message}`);
+    }
+  }
+
+  private leaseKey(name: string): string {
+    return `jobs:${name}:lease`;
+  }
+
+  private fenceKey(name: string): string {
+    return `jobs:${name}:fence`;
+  }
+
+  private stateKey(name: string): string {
+    return `jobs:${name}:state`;
+  }
+}
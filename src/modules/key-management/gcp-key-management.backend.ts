@@ -0,0 +1,80 @@
+import { PrivateKey } from '@emurgo/cardano-serialization-lib-nodejs';
+import { status as GrpcStatus } from '@grpc/grpc-js';
+import { Logger } from '@nestjs/common';
+
+import { EncryptedKeyInput, EncryptedKeyPackage, KeyManagementBackend, MasterSeed } from './key-management.types';
+import { buildMasterSeedSecret, getMasterSeedLabels, getMasterSeedSecretId } from './master-seed.helpers';
+
+import { GoogleKMSService } from '@/modules/google_cloud/google-kms.service';
+import { GoogleSecretService } from '@/modules/google_cloud/google-secret.service';
+
+/**
+ * Cloud KMS envelope encryption and Secret Manager storage
+ */
+export class GcpKeyManagementBackend implements KeyManagementBackend {
+  readonly backendName = 'google-kms';
+  private readonly logger = new Logger(GcpKeyManagementBackend.name);
+
+  constructor(
+    private readonly googleKMSService: GoogleKMSService,
+    private readonly googleSecretService: GoogleSecretService,
+    private readonly isMainnet: boolean
+  ) {}
+
+  getKeyName(keyId?: string): string {
+    return this.googleKMSService.getKeyName(keyId);
+  }
+
+  getPrimaryKeyVersion(keyName?: string): Promise<string> {
+    return this.googleKMSService.getPrimaryKeyVersion(keyName);
+  }
+
+  encryptTreasuryKey(privateKey: PrivateKey, vaultId: string, keyName?: string): Promise<EncryptedKeyPackage> {
+    return this.googleKMSService.encryptTreasuryKey(privateKey, vaultId, keyName);
+  }
+
+  decryptTreasuryKey(encryptedPackage: EncryptedKeyInput, vaultId: string, keyName?: string): Promise<PrivateKey> {
+    return this.googleKMSService.decryptTreasuryKey(encryptedPackage, vaultId, keyName);
+  }
+
+  encryptStakeKey(stakePrivateKey: PrivateKey, vaultId: string, keyName?: string): Promise<EncryptedKeyPackage> {
+    return this.googleKMSService.encryptStakeKey(stakePrivateKey, vaultId, keyName);
+  }
+
+  decryptStakeKey(encryptedPackage: EncryptedKeyInput, vaultId: string, keyName?: string): Promise<PrivateKey> {
+    return this.googleKMSService.decryptStakeKey(encryptedPackage, vaultId, keyName);
+  }
+
+  async storeSecret(secretId: string, data: Record<string, any>, labels: Record<string, string>): Promise<string> {
+    try {
+      await this.googleSecretService.createSecret(secretId, labels);
+    } catch (error: any) {
+      if (error.code !== GrpcStatus.ALREADY_EXISTS) {
+        throw error;
+      }
+      this.logger.warn(`Secret ${secretId} already exists, adding new version`);
+    }
+
+    return this.googleSecretService.addSecretVersion(secretId, data);
+  }
+
+  getSecretValue(secretId: string): Promise<any> {
+    return this.googleSecretService.getSecretValue(secretId);
+  }
+
+  markSecretAsUnused(secretId: string): Promise<void> {
+    return this.googleSecretService.markSecretAsUnused(secretId);
+  }
+
+  storeMasterSeed(mnemonic: string): Promise<string> {
+    return this.storeSecret(
+      getMasterSeedSecretId(this.isMainnet),
+      buildMasterSeedSecret(mnemonic),
+      getMasterSeedLabels(this.isMainnet)
+    );
+  }
+
+  getMasterSeed(): Promise<MasterSeed> {
+    return this.getSecretValue(getMasterSeedSecretId(this.isMainnet));
+  }
+}
@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+
+import { GcpKeyManagementBackend } from './gcp-key-management.backend';
+import { KEY_MANAGEMENT, KeyManagementBackend, KeyManagementBackendType } from './key-management.types';
+import { LocalKeyManagementBackend } from './local-key-management.backend';
+
+import { GoogleCloudModule } from '@/modules/google_cloud/google-cloud.module';
+import { GoogleKMSService } from '@/modules/google_cloud/google-kms.service';
+import { GoogleSecretService } from '@/modules/google_cloud/google-secret.service';
+
+/**
+ * Provides the KEY_MANAGEMENT backend selected by KEY_MANAGEMENT_BACKEND (`gcp` | `local`, default `gcp`)
+ */
+@Module({
+  imports: [ConfigModule, GoogleCloudModule],
+  providers: [
+    {
+      provide: KEY_MANAGEMENT,
+      useFactory: (
+        configService: ConfigService,
+        googleKMSService: GoogleKMSService,
+        googleSecretService: GoogleSecretService
+      ): KeyManagementBackend => {
+        const backend = configService.get<string>('KEY_MANAGEMENT_BACKEND') || KeyManagementBackendType.GCP;
+
+        switch (backend) {
+          case KeyManagementBackendType.GCP:
+            return new GcpKeyManagementBackend(
+              googleKMSService,
+              googleSecretService,
+              configService.get<string>('CARDANO_NETWORK') === 'mainnet'
+            );
+          case KeyManagementBackendType.LOCAL:
+            return new LocalKeyManagementBackend(configService);
+          default:
+            throw new Error(`Unknown KEY_MANAGEMENT_BACKEND "${backend}" (expected gcp or local)`);
+        }
+      },
+      inject: [ConfigService, GoogleKMSService, GoogleSecretService],
+    },
+  ],
+  exports: [KEY_MANAGEMENT],
+})
+export class KeyManagementModule {}
@@ -0,0 +1,80 @@
+import { PrivateKey } from '@emurgo/cardano-serialization-lib-nodejs';
+
+export const KEY_MANAGEMENT = 'KEY_MANAGEMENT';
+
+export enum KeyManagementBackendType {
+  GCP = 'gcp',
+  LOCAL = 'local',
+}
+
+/**
+ * Envelope-encrypted private key: the key is sealed with a random DEK (AES-256-GCM)
+ * and the DEK is wrapped by the backend master key
+ */
+export interface EncryptedKeyPackage {
+  encryptedKey: Buffer;
+  encryptedDEK: Buffer;
+  iv: Buffer;
+  authTag: Buffer;
+  algorithm: string;
+  kmsKeyName: string;
+  kmsKeyVersion: string;
+}
+
+export type EncryptedKeyInput = Pick<EncryptedKeyPackage, 'encryptedKey' | 'encryptedDEK' | 'iv' | 'authTag'>;
+
+export interface MasterSeed {
+  mnemonic: string;
+  derivation_standard: string;
+  network: string;
+}
+
+/**
+ * Key encryption and secret storage used by the treasury.
+ * Selected with KEY_MANAGEMENT_BACKEND (`gcp` by default, `local` for offline development and tests).
+ */
+export interface KeyManagementBackend {
+  /** Recorded as the wallet `encryptionMethod` (`<backendName>-envelope`) */
+  readonly backendName: string;
+
+  /**
+   * Full resource name of a master key
+   * @param keyId - Key in the configured key ring; defaults to the configured treasury key
+   */
+  getKeyName(keyId?: string): string;
+
+  /** Resource name of the key version new encryptions use */
+  getPrimaryKeyVersion(keyName?: string): Promise<string>;
+
+  encryptTreasuryKey(privateKey: PrivateKey, vaultId: string, keyName?: string): Promise<EncryptedKeyPackage>;
+
+  /**
+   * @param keyName - Key the DEK was wrapped under (stored as kmsKeyName); the version is resolved from the ciphertext
+   */
+  decryptTreasuryKey(encryptedPackage: EncryptedKeyInput, vaultId: string, keyName?: string): Promise<PrivateKey>;
+
+  encryptStakeKey(stakePrivateKey: PrivateKey, vaultId: string, keyName?: string): Promise<EncryptedKeyPackage>;
+
+  decryptStakeKey(encryptedPackage: EncryptedKeyInput, vaultId: string, keyName?: string): Promise<PrivateKey>;
+
+  /**
+   * Creates the secret if needed and stores `data` as its latest version
+   * @returns Name of the stored version
+   */
+  storeSecret(secretId: string, data: Record<string, any>, labels: Record<string, string>): Promise<string>;
+
+  /** Latest version of a secret */
+  getSecretValue(secretId: string): Promise<any>;
+
+  /** Marks a secret as no longer used; secrets are kept for manual deletion */
+  markSecretAsUnused(secretId: string): Promise<void>;
+
+  /**
+   * Stores the master HD wallet seed for the configured network as a new secret version
+   * @returns Name of the stored version
+   */
+  storeMasterSeed(mnemonic: string): Promise<string>;
+
+  /** Master HD wallet seed of the configured network */
+  getMasterSeed(): Promise<MasterSeed>;
+}
@@ -0,0 +1,341 @@
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import { PrivateKey } from '@emurgo/cardano-serialization-lib-nodejs';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { EncryptedKeyInput, EncryptedKeyPackage, KeyManagementBackend, MasterSeed } from './key-management.types';
+import { buildMasterSeedSecret, getMasterSeedLabels, getMasterSeedSecretId } from './master-seed.helpers';
+
+interface LocalKeyring {
+  keys: Record<
+    string,
+    {
+      primaryVersion: number;
+      versions: Record<string, { salt: string; createdAt: string }>;
+    }
+  >;
+}
+
+interface LocalSecretFile {
+  labels: Record<string, string>;
+  unused: boolean;
+  versions: Array<{ version: number; createdAt: string; payload: string }>;
+}
+
+const KEY_RING = 'treasury';
+const VERSION_PREFIX_BYTES = 4;
+const GCM_IV_BYTES = 12;
+const GCM_TAG_BYTES = 16;
+
+/**
+ * Offline envelope encryption for local development and tests.
+ *
+ * Master keys are derived with scrypt from KEY_MANAGEMENT_LOCAL_PASSPHRASE and a per-version salt kept
+ * in `<KEY_MANAGEMENT_LOCAL_DIR>/keyring.json`; the passphrase itself is never written. Wrapped DEKs are
+ * prefixed with the master key version, so, like Cloud KMS, decryption only needs the key name.
+ * Keys referenced for encryption are created on first use, which lets a rotation target a new key ID.
+ * Secrets are stored as encrypted, versioned JSON files under `<dir>/secrets`.
+ */
+export class LocalKeyManagementBackend implements KeyManagementBackend {
+  readonly backendName = 'local-file';
+  private readonly logger = new Logger(LocalKeyManagementBackend.name);
+  private readonly directory: string;
+  private readonly passphrase: string;
+  private readonly keyId: string;
+  private readonly isMainnet: boolean;
+  private readonly masterKeys = new Map<string, Buffer>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.isMainnet = this.configService.get<string>('CARDANO_NETWORK') === 'mainnet';
+    this.directory = path.resolve(this.configService.get<string>('KEY_MANAGEMENT_LOCAL_DIR') || '.keys');
+    this.passphrase = this.configService.get<string>('KEY_MANAGEMENT_LOCAL_PASSPHRASE');
+    this.keyId = this.configService.get<string>('KEY_MANAGEMENT_LOCAL_KEY') || 'treasury-key';
+
+    if (!this.passphrase) {
+      throw new Error('KEY_MANAGEMENT_LOCAL_PASSPHRASE is required for the local key management backend');
+    }
+
+    if (this.isMainnet) {
+      this.logger.warn('Local key management backend is in use on mainnet; it is meant for development and tests');
+    }
+
+    this.logger.log(`Local key management initialized in ${this.directory}`);
+  }
+
+  getKeyName(keyId: string = this.keyId): string {
+    return `local/keyRings/${KEY_RING}/cryptoKeys/${keyId}`;
+  }
+
+  async getPrimaryKeyVersion(keyName: string = this.getKeyName()): Promise<string> {
+    const { version } = await this.getPrimaryMasterKey(keyName);
+
+    return this.getVersionName(keyName, version);
+  }
+
+  encryptTreasuryKey(privateKey: PrivateKey, vaultId: string, keyName?: string): Promise<EncryptedKeyPackage> {
+    return this.encryptKey(privateKey, this.getKeyAad(vaultId, 'treasury_wallet'), keyName);
+  }
+
+  decryptTreasuryKey(encryptedPackage: EncryptedKeyInput, vaultId: string, keyName?: string): Promise<PrivateKey> {
+    return this.decryptKey(encryptedPackage, this.getKeyAad(vaultId, 'treasury_wallet'), keyName);
+  }
+
+  encryptStakeKey(stakePrivateKey: PrivateKey, vaultId: string, keyName?: string): Promise<EncryptedKeyPackage> {
+    return this.encryptKey(stakePrivateKey, this.getKeyAad(vaultId, 'treasury_wallet_stake'), keyName);
+  }
+
+  decryptStakeKey(encryptedPackage: EncryptedKeyInput, vaultId: string, keyName?: string): Promise<PrivateKey> {
+    return this.decryptKey(encryptedPackage, this.getKeyAad(vaultId, 'treasury_wallet_stake'), keyName);
+  }
+
+  async storeSecret(secretId: string, data: Record<string, any>, labels: Record<string, string>): Promise<string> {
+    const secret = (await this.readSecretFile(secretId)) ?? { labels, unused: false, versions: [] };
+    const version = secret.versions.length + 1;
+    const keyName = this.getKeyName();
+    const { key, version: keyVersion } = await this.getPrimaryMasterKey(keyName);
+
+    secret.versions.push({
+      version,
+      createdAt: new Date().toISOString(),
+      payload: this.seal(key, keyVersion, Buffer.from(JSON.stringify(data)), this.getSecretAad(secretId)).toString(
+        'base64'
+      ),
+    });
+    await this.writeJson(this.getSecretPath(secretId), secret);
+
+    return `local/secrets/${secretId}/versions/${version}`;
+  }
+
+  async getSecretValue(secretId: string): Promise<any> {
+    const secret = await this.readSecretFile(secretId);
+
+    if (!secret || secret.versions.length === 0) {
+      throw new Error(`Secret ${secretId} not found`);
+    }
+
+    const latest = secret.versions[secret.versions.length - 1];
+    const sealed = Buffer.from(latest.payload, 'base64');
+    const key = await this.getMasterKey(this.getKeyName(), sealed.readUInt32BE(0));
+    const plaintext = this.open(key, sealed, this.getSecretAad(secretId));
+
+    return JSON.parse(plaintext.toString('utf8'));
+  }
+
+  async markSecretAsUnused(secretId: string): Promise<void> {
+    const secret = await this.readSecretFile(secretId);
+
+    if (secret) {
+      secret.unused = true;
+      await this.writeJson(this.getSecretPath(secretId), secret);
+    }
+
+    this.logger.log(`Marked secret as unused (not deleted): ${secretId}`);
+  }
+
+  storeMasterSeed(mnemonic: string): Promise<string> {
+    return this.storeSecret(
+      getMasterSeedSecretId(this.isMainnet),
+      buildMasterSeedSecret(mnemonic),
+      getMasterSeedLabels(this.isMainnet)
+    );
+  }
+
+  getMasterSeed(): Promise<MasterSeed> {
+    return this.getSecretValue(getMasterSeedSecretId(this.isMainnet));
+  }
+
+  private async encryptKey(
+    privateKey: PrivateKey,
+    aad: Buffer,
+    keyName = this.getKeyName()
+  ): Promise<EncryptedKeyPackage> {
+    const { key, version } = await this.getPrimaryMasterKey(keyName);
+    const dek = crypto.randomBytes(32);
+
+    try {
+      const iv = crypto.randomBytes(16);
+      const cipher = crypto.createCipheriv('aes-256-gcm', dek, iv);
+      const encryptedKey = Buffer.concat([cipher.update(privateKey.to_bech32(), 'utf8'), cipher.final()]);
+
+      return {
+        encryptedKey,
+        encryptedDEK: this.seal(key, version, dek, aad),
+        iv,
+        authTag: cipher.getAuthTag(),
+        algorithm: 'AES-256-GCM',
+        kmsKeyName: keyName,
+        kmsKeyVersion: this.getVersionName(keyName, version),
+      };
+    } finally {
+      dek.fill(0);
+    }
+  }
+
+  private async decryptKey(
+    encryptedPackage: EncryptedKeyInput,
+    aad: Buffer,
+    keyName = this.getKeyName()
+  ): Promise<PrivateKey> {
+    const key = await this.getMasterKey(keyName, encryptedPackage.encryptedDEK.readUInt32BE(0));
+    const dek = this.open(key, encryptedPackage.encryptedDEK, aad);
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', dek, encryptedPackage.iv);
+      decipher.setAuthTag(encryptedPackage.authTag);
+
+      const privateKeyBech32 = Buffer.concat([
+        decipher.update(encryptedPackage.encryptedKey),
+        decipher.final(),
+      ]).toString('utf8');
+
+      return PrivateKey.from_bech32(privateKeyBech32);
+    } finally {
+      dek.fill(0);
+    }
+  }
+
+  /**
+   * AES-256-GCM under a master key version: version (uint32 BE) | iv | auth tag | ciphertext
+   */
+  private seal(key: Buffer, version: number, plaintext: Buffer, aad: Buffer): Buffer {
+    const prefix = Buffer.alloc(VERSION_PREFIX_BYTES);
+    prefix.writeUInt32BE(version);
+
+    const iv = crypto.randomBytes(GCM_IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(aad);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return Buffer.concat([prefix, iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  private open(key: Buffer, sealed: Buffer, aad: Buffer): Buffer {
+    const ivStart = VERSION_PREFIX_BYTES;
+    const tagStart = ivStart + GCM_IV_BYTES;
+    const dataStart = tagStart + GCM_TAG_BYTES;
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, sealed.subarray(ivStart, tagStart));
+    decipher.setAAD(aad);
+    decipher.setAuthTag(sealed.subarray(tagStart, dataStart));
+
+    return Buffer.concat([decipher.update(sealed.subarray(dataStart)), decipher.final()]);
+  }
+
+  // Same AAD layout as the Cloud KMS backend
+  private getKeyAad(vaultId: string, purpose: string): Buffer {
+    const aadData: any = {
+      vaultId,
+      purpose,
+      algorithm: 'AES-256-GCM',
+    };
+
+    if (!this.isMainnet) {
+      aadData.network = 'testnet';
+    }
+
+    return Buffer.from(JSON.stringify(aadData));
+  }
+
+  private getSecretAad(secretId: string): Buffer {
+    return Buffer.from(JSON.stringify({ secretId, purpose: 'secret' }));
+  }
+
+  private async getPrimaryMasterKey(keyName: string): Promise<{ key: Buffer; version: number }> {
+    const keyId = this.parseKeyId(keyName);
+    const keyring = await this.readKeyring();
+
+    if (!keyring.keys[keyId]) {
+      keyring.keys[keyId] = {
+        primaryVersion: 1,
+        versions: { '1': { salt: crypto.randomBytes(16).toString('base64'), createdAt: new Date().toISOString() } },
+      };
+      await this.writeJson(this.getKeyringPath(), keyring);
+      this.logger.log(`Created local master key ${keyName}`);
+    }
+
+    const version = keyring.keys[keyId].primaryVersion;
+
+    return { key: await this.getMasterKey(keyName, version, keyring), version };
+  }
+
+  private async getMasterKey(keyName: string, version: number, keyring?: LocalKeyring): Promise<Buffer> {
+    const versionName = this.getVersionName(keyName, version);
+    const cached = this.masterKeys.get(versionName);
+
+    if (cached) {
+      return cached;
+    }
+
+    const keyVersion = (keyring ?? (await this.readKeyring())).keys[this.parseKeyId(keyName)]?.versions[version];
+
+    if (!keyVersion) {
+      throw new Error(`Local master key version ${versionName} not found`);
+    }
+
+    const key = await new Promise<Buffer>((resolve, reject) =>
+      crypto.scrypt(this.passphrase, Buffer.from(keyVersion.salt, 'base64'), 32, (error, derived) =>
+        error ? reject(error) : resolve(derived)
+      )
+    );
+    this.masterKeys.set(versionName, key);
+
+    return key;
+  }
+
+  private parseKeyId(keyName: string): string {
+    const prefix = `local/keyRings/${KEY_RING}/cryptoKeys/`;
+
+    if (!keyName.startsWith(prefix)) {
+      throw new Error(`Key ${keyName} is not managed by the local key management backend`);
+    }
+
+    return keyName.slice(prefix.length);
+  }
+
+  private getVersionName(keyName: string, version: number): string {
+    return `${keyName}/cryptoKeyVersions/${version}`;
+  }
+
+  private async readKeyring(): Promise<LocalKeyring> {
+    return (await this.readJson<LocalKeyring>(this.getKeyringPath())) ?? { keys: {} };
+  }
+
+  private async readSecretFile(secretId: string): Promise<LocalSecretFile | null> {
+    return this.readJson<LocalSecretFile>(this.getSecretPath(secretId));
+  }
+
+  private getKeyringPath(): string {
+    return path.join(this.directory, 'keyring.json');
+  }
+
+  private getSecretPath(secretId: string): string {
+    if (!/^[a-zA-Z0-9_-]+$/.test(secretId)) {
+      throw new Error(`Invalid secret ID ${secretId}`);
+    }
+
+    return path.join(this.directory, 'secrets', `${secretId}.json`);
+  }
+
+  private async readJson<T>(filePath: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Write to a temporary file and rename so a crash never leaves a truncated keyring behind
+  private async writeJson(filePath: string, data: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+    await fs.rename(tmpPath, filePath);
+  }
+}
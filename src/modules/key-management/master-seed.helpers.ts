@@ -0,0 +1,24 @@
+import { MasterSeed } from './key-management.types';
+
+/**
+ * Secret holding the master HD wallet seed; the mainnet name predates testnet support and is kept as is
+ */
+export const getMasterSeedSecretId = (isMainnet: boolean): string =>
+  isMainnet ? 'l4va-treasury-master-seed' : 'l4va-treasury-master-seed-testnet';
+
+export function getMasterSeedLabels(isMainnet: boolean): Record<string, string> {
+  return {
+    purpose: 'treasury',
+    network: isMainnet ? 'mainnet' : 'testnet',
+    environment: process.env.NODE_ENV || 'development',
+  };
+}
+
+export function buildMasterSeedSecret(mnemonic: string): MasterSeed & { created_at: string } {
+  return {
+    mnemonic,
+    derivation_standard: 'CIP-1852',
+    network: 'mainnet',
+    created_at: new Date().toISOString(),
+  };
+}
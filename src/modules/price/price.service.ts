@@ -5,6 +5,8 @@ import NodeCache from 'node-cache';
 
 import { NexusClient } from '@/modules/nexus/nexus.client';
 
+const HISTORICAL_PRICE_LIVE_WINDOW_MS = 60 * 60 * 1000;
+
 @Injectable()
 export class PriceService {
   private readonly logger = new Logger(PriceService.name);
@@ -100,6 +102,52 @@ export class PriceService {
     }
   }
 
+  /**
+   * ADA/USD price at a point in time. Recent timestamps use the live price; older ones the
+   * CoinGecko daily price of that (UTC) day. Returns null when no daily price is available.
+   */
+  async getHistoricalAdaPrice(at: Date): Promise<number | null> {
+    if (Date.now() - at.getTime() < HISTORICAL_PRICE_LIVE_WINDOW_MS) {
+      return this.getAdaPrice();
+    }
+
+    const day = at.toISOString().slice(0, 10);
+    const cacheKey = `ada_price_usd_${day}`;
+    const cachedPrice = this.cache.get<number>(cacheKey);
+
+    if (cachedPrice !== undefined) {
+      return cachedPrice;
+    }
+
+    try {
+      const [year, month, date] = day.split('-');
+      const response = await axios.get(`${this.coinGeckoApiUrl}/v3/coins/cardano/history`, {
+        params: {
+          date: `${date}-${month}-${year}`,
+          localization: false,
+        },
+        headers: {
+          'x-cg-demo-api-key': this.coinGeckoApiKey,
+        },
+        timeout: 5000,
+      });
+
+      const adaPrice = Number(response.data?.market_data?.current_price?.usd);
+
+      if (!adaPrice || Number.isNaN(adaPrice)) {
+        throw new Error('Invalid historical price data from CoinGecko API');
+      }
+
+      // Past daily prices do not change
+      this.cache.set(cacheKey, adaPrice, 0);
+
+      return adaPrice;
+    } catch (error) {
+      this.logger.error(`Failed to fetch ADA price for ${day}: ${error.message}`);
+      return null;
+    }
+  }
+
   async getEthPrice(): Promise<number> {
     const cacheKey = 'eth_price_usd';
     const cachedPrice = this.cache.get<number>(cacheKey);
@@ -1,8 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Not, Repository } from 'typeorm';
 
-import { RewardEventOutbox } from '@/database/rewardEventOutbox.entity';
+import { OutboxStatus, RewardEventOutbox } from '@/database/rewardEventOutbox.entity';
 import { RewardActivityType } from '@/types/rewards.types';
 
 interface IndexEventInput {
@@ -60,4 +60,24 @@ export class RewardEventProducer {
       return null;
     }
   }
+
+  /**
+   * Withdraw the events indexed for a transaction that was rolled back off the chain.
+   * Events not yet processed are deleted; processed ones are already in l4va-rewards and are only counted,
+   * so the caller can flag them for manual correction.
+   */
+  async voidTransactionEvents(txHash: string): Promise<{ voided: number; alreadyProcessed: number }> {
+    const events = await this.outboxRepository
+      .createQueryBuilder('event')
+      .select(['event.id', 'event.status'])
+      .where(`event.event_data ->> 'tx_hash' = :txHash`, { txHash })
+      .getMany();
+
+    const voidable = events.filter(event => event.status !== OutboxStatus.PROCESSED).map(event => event.id);
+    const result = voidable.length
+      ? await this.outboxRepository.delete({ id: In(voidable), status: Not(OutboxStatus.PROCESSED) })
+      : { affected: 0 };
+
+    return { voided: result.affected ?? 0, alreadyProcessed: events.length - (result.affected ?? 0) };
+  }
 }
@@ -9,6 +9,7 @@ import { In, Repository } from 'typeorm';
 import { createLucidBlockfrostProvider, lucidNetworkFromCardanoEnv } from '@/common/cardano/blockfrost-lucid';
 import { StakingStatus, TokenStakingPosition } from '@/database/tokenStakingPosition.entity';
 import { Transaction } from '@/database/transaction.entity';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
 import { tryDecodeStakeDatum } from '@/modules/stake/stake-datum';
 import { TransactionStatus, TransactionType } from '@/types/transaction.types';
 
@@ -97,6 +98,7 @@ export class StakeReconciliationService {
    * (dropped/orphaned from mempool), then re-opens previously closed staking positions.
    */
   @Cron(CronExpression.EVERY_6_HOURS)
+  @CoordinatedJob('stake-dropped-unstakes')
   async reconcileDroppedUnstakes(): Promise<void> {
     const startedAt = Date.now();
     const threshold = new Date(Date.now() - 24 * 60 * 60 * 1000);
@@ -181,6 +183,7 @@ export class StakeReconciliationService {
   }
 
   @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  @CoordinatedJob('stake-reconciliation')
   async reconcileStakes(): Promise<void> {
     const startedAt = Date.now();
 
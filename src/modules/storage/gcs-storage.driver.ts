@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Storage } from '@google-cloud/storage';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { getPrefixedKey, parseBucketConfig } from './storage.helpers';
+import { StorageDriver, StoredObject } from './storage.types';
+
+/**
+ * Google Cloud Storage driver, configured with GOOGLE_BUCKET_NAME (`bucket` or `bucket/prefix`).
+ * Development reads a service account file from GOOGLE_BUCKET_CREDENTIALS; other environments use ADC.
+ */
+export class GcsStorageDriver implements StorageDriver {
+  readonly driverName = 'gcs';
+  private readonly logger = new Logger(GcsStorageDriver.name);
+  private readonly storage: Storage;
+  private readonly bucketName: string;
+  private readonly bucketPrefix: string;
+
+  constructor(private readonly configService: ConfigService) {
+    const bucketConfig = this.configService.get<string>('GOOGLE_BUCKET_NAME');
+    if (!bucketConfig) {
+      throw new Error('GOOGLE_BUCKET_NAME environment variable is required for the gcs storage driver');
+    }
+
+    const { bucket, prefix } = parseBucketConfig(bucketConfig);
+    this.bucketName = bucket;
+    this.bucketPrefix = prefix;
+
+    const nodeEnv = this.configService.get<string>('NODE_ENV');
+    const isDevelopment = nodeEnv === 'dev' || nodeEnv === 'development';
+
+    // For development: expect file path in GOOGLE_BUCKET_CREDENTIALS
+    // For production/testnet: use ADC (Application Default Credentials)
+    if (isDevelopment) {
+      const credentialsJson = this.configService.get<string>('GOOGLE_BUCKET_CREDENTIALS');
+      if (!credentialsJson) {
+        throw new Error('GOOGLE_BUCKET_CREDENTIALS environment variable is required for development');
+      }
+
+      // Local development: treat GOOGLE_BUCKET_CREDENTIALS as a file path
+      const resolvedCredentialsPath = path.resolve(process.cwd(), credentialsJson);
+
+      if (!fs.existsSync(resolvedCredentialsPath)) {
+        throw new Error(`GOOGLE_BUCKET_CREDENTIALS file not found at ${resolvedCredentialsPath} (development mode)`);
+      }
+
+      const credentials = JSON.parse(fs.readFileSync(resolvedCredentialsPath, 'utf8'));
+      this.storage = new Storage({
+        credentials: credentials,
+        projectId: credentials.project_id,
+      });
+      this.logger.log('✅ Initialized Google Cloud Storage from file (dev mode)');
+    } else {
+      // Production/Testnet: use ADC (VM service account)
+      this.storage = new Storage();
+      this.logger.log('✅ Initialized Google Cloud Storage with ADC (VM service account)');
+    }
+  }
+
+  async upload(key: string, buffer: Buffer, contentType: string): Promise<StoredObject> {
+    const fileName = getPrefixedKey(this.bucketPrefix, key);
+    const gcsFile = this.storage.bucket(this.bucketName).file(fileName);
+
+    return new Promise((resolve, reject) => {
+      const stream = gcsFile.createWriteStream({
+        metadata: {
+          contentType,
+        },
+      });
+
+      stream.on('error', err => {
+        this.logger.error('Error uploading file:', err);
+        reject(err);
+      });
+
+      stream.on('finish', () => {
+        resolve({
+          key,
+          location: `gs://${this.bucketName}/${fileName}`,
+        });
+      });
+
+      stream.end(buffer);
+    });
+  }
+
+  async createReadStream(key: string): Promise<NodeJS.ReadableStream> {
+    const fileName = getPrefixedKey(this.bucketPrefix, key);
+
+    return this.storage.bucket(this.bucketName).file(fileName).createReadStream({ validation: false });
+  }
+
+  async delete(key: string): Promise<void> {
+    const fileName = getPrefixedKey(this.bucketPrefix, key);
+
+    await this.storage.bucket(this.bucketName).file(fileName).delete({ ignoreNotFound: true });
+  }
+
+  async getSignedUrl(key: string, expiresIn: number): Promise<string> {
+    const fileName = getPrefixedKey(this.bucketPrefix, key);
+
+    const [url] = await this.storage
+      .bucket(this.bucketName)
+      .file(fileName)
+      .getSignedUrl({
+        version: 'v4',
+        action: 'read',
+        expires: Date.now() + expiresIn * 1000,
+      });
+
+    return url;
+  }
+}
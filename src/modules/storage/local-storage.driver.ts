@@ -0,0 +1,135 @@
+import * as crypto from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { StorageDriver, StorageObjectNotFoundError, StoredObject } from './storage.types';
+
+const METADATA_SUFFIX = '.meta.json';
+
+interface LocalObjectMetadata {
+  contentType: string;
+  size: number;
+  createdAt: string;
+}
+
+/**
+ * Local-disk driver for development and self-hosted deployments, rooted at STORAGE_LOCAL_DIR.
+ *
+ * Content types are kept in a `<key>.meta.json` sidecar. Signed URLs point at `GET /api/v1/storage/signed`
+ * and carry an HMAC-SHA256 over the key and expiry, keyed with STORAGE_LOCAL_SIGNING_SECRET (JWT_SECRET
+ * when unset), so they expire and are read-only like GCS and S3 presigned URLs.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly driverName = 'local';
+  private readonly logger = new Logger(LocalStorageDriver.name);
+  private readonly directory: string;
+  private readonly signingSecret: string;
+  private readonly appHost: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.directory = path.resolve(this.configService.get<string>('STORAGE_LOCAL_DIR') || '.uploads');
+    this.signingSecret =
+      this.configService.get<string>('STORAGE_LOCAL_SIGNING_SECRET') || this.configService.get<string>('JWT_SECRET');
+    this.appHost = this.configService.get<string>('APP_HOST');
+
+    if (!this.signingSecret) {
+      throw new Error('STORAGE_LOCAL_SIGNING_SECRET or JWT_SECRET is required for the local storage driver');
+    }
+
+    this.logger.log(`Local storage initialized in ${this.directory}`);
+  }
+
+  async upload(key: string, buffer: Buffer, contentType: string): Promise<StoredObject> {
+    const filePath = this.resolveObjectPath(key);
+    const metadata: LocalObjectMetadata = {
+      contentType,
+      size: buffer.length,
+      createdAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await this.writeAtomic(filePath, buffer);
+    await this.writeAtomic(`${filePath}${METADATA_SUFFIX}`, JSON.stringify(metadata));
+
+    return { key, location: `file://${filePath}` };
+  }
+
+  async createReadStream(key: string): Promise<NodeJS.ReadableStream> {
+    const filePath = this.resolveObjectPath(key);
+
+    try {
+      await fs.access(filePath);
+    } catch {
+      throw new StorageObjectNotFoundError(key);
+    }
+
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolveObjectPath(key);
+
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}${METADATA_SUFFIX}`, { force: true });
+  }
+
+  async getSignedUrl(key: string, expiresIn: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const protocol = process.env.NODE_ENV === 'dev' ? 'http://' : 'https://';
+    const query = new URLSearchParams({
+      key,
+      expires: expires.toString(),
+      signature: this.sign(key, expires),
+    });
+
+    return `${protocol}${this.appHost}/api/v1/storage/signed?${query.toString()}`;
+  }
+
+  /**
+   * Checks a signed URL issued by getSignedUrl; `expires` is a unix timestamp in seconds
+   */
+  verifySignature(key: string, expires: number, signature: string): boolean {
+    if (!Number.isInteger(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires), 'hex');
+    const provided = Buffer.from(signature ?? '', 'hex');
+
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  async getContentType(key: string): Promise<string> {
+    try {
+      const raw = await fs.readFile(`${this.resolveObjectPath(key)}${METADATA_SUFFIX}`, 'utf8');
+      return (JSON.parse(raw) as LocalObjectMetadata).contentType;
+    } catch {
+      return 'application/octet-stream';
+    }
+  }
+
+  private sign(key: string, expires: number): string {
+    return crypto.createHmac('sha256', this.signingSecret).update(`${key}\n${expires}`).digest('hex');
+  }
+
+  // Keys come from request parameters, so anything resolving outside the storage root is rejected
+  private resolveObjectPath(key: string): string {
+    const filePath = path.resolve(this.directory, key);
+
+    if (!key || key.endsWith(METADATA_SUFFIX) || !filePath.startsWith(`${this.directory}${path.sep}`)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+
+  // Write to a temporary file and rename so readers never see a partially written object
+  private async writeAtomic(filePath: string, data: Buffer | string): Promise<void> {
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, data);
+    await fs.rename(tmpPath, filePath);
+  }
+}
@@ -0,0 +1,206 @@
+import * as crypto from 'crypto';
+
+import { HttpService } from '@nestjs/axios';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { getPrefixedKey, parseBucketConfig } from './storage.helpers';
+import { StorageDriver, StorageObjectNotFoundError, StoredObject } from './storage.types';
+
+const SIGNING_ALGORITHM = 'AWS4-HMAC-SHA256';
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+interface SignedRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * S3-compatible driver (AWS S3, MinIO, ...) speaking the REST API with Signature V4.
+ *
+ * S3_BUCKET accepts `bucket` or `bucket/prefix`. With S3_ENDPOINT set (e.g. `http://localhost:9000` for MinIO)
+ * requests use path-style addressing unless S3_FORCE_PATH_STYLE=false; without it the regional AWS endpoint
+ * is used with virtual-hosted buckets.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly driverName = 's3';
+  private readonly logger = new Logger(S3StorageDriver.name);
+  private readonly endpoint: URL;
+  private readonly region: string;
+  private readonly bucketName: string;
+  private readonly bucketPrefix: string;
+  private readonly accessKeyId: string;
+  private readonly secretAccessKey: string;
+  private readonly forcePathStyle: boolean;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpService: HttpService
+  ) {
+    const bucketConfig = this.configService.get<string>('S3_BUCKET');
+    this.accessKeyId = this.configService.get<string>('S3_ACCESS_KEY_ID');
+    this.secretAccessKey = this.configService.get<string>('S3_SECRET_ACCESS_KEY');
+
+    if (!bucketConfig || !this.accessKeyId || !this.secretAccessKey) {
+      throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for the s3 storage driver');
+    }
+
+    const { bucket, prefix } = parseBucketConfig(bucketConfig);
+    this.bucketName = bucket;
+    this.bucketPrefix = prefix;
+    this.region = this.configService.get<string>('S3_REGION') || 'us-east-1';
+
+    const customEndpoint = this.configService.get<string>('S3_ENDPOINT');
+    this.endpoint = new URL(customEndpoint || `https://s3.${this.region}.amazonaws.com`);
+    this.forcePathStyle = customEndpoint
+      ? this.configService.get<string>('S3_FORCE_PATH_STYLE') !== 'false'
+      : this.configService.get<string>('S3_FORCE_PATH_STYLE') === 'true';
+
+    this.logger.log(`S3 storage initialized for bucket ${this.bucketName} at ${this.endpoint.origin}`);
+  }
+
+  async upload(key: string, buffer: Buffer, contentType: string): Promise<StoredObject> {
+    const objectKey = getPrefixedKey(this.bucketPrefix, key);
+    const { url, headers } = this.signRequest('PUT', objectKey, this.sha256(buffer), {
+      'content-type': contentType,
+    });
+
+    await this.httpService.axiosRef.put(url, buffer, {
+      headers,
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    });
+
+    return { key, location: `s3://${this.bucketName}/${objectKey}` };
+  }
+
+  async createReadStream(key: string): Promise<NodeJS.ReadableStream> {
+    const { url, headers } = this.signRequest('GET', getPrefixedKey(this.bucketPrefix, key), this.sha256(''));
+
+    try {
+      const response = await this.httpService.axiosRef.get<NodeJS.ReadableStream>(url, {
+        headers,
+        responseType: 'stream',
+      });
+
+      return response.data;
+    } catch (error) {
+      if (error.response?.status === 404) {
+        throw new StorageObjectNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { url, headers } = this.signRequest('DELETE', getPrefixedKey(this.bucketPrefix, key), this.sha256(''));
+
+    try {
+      await this.httpService.axiosRef.delete(url, { headers });
+    } catch (error) {
+      // S3 answers 204 for missing keys, some compatible stores answer 404
+      if (error.response?.status !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  async getSignedUrl(key: string, expiresIn: number): Promise<string> {
+    const { host, path } = this.getObjectAddress(getPrefixedKey(this.bucketPrefix, key));
+    const { amzDate, scope } = this.getRequestDate();
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': SIGNING_ALGORITHM,
+      'X-Amz-Credential': `${this.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': expiresIn.toString(),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const canonicalQuery = this.getCanonicalQuery(query);
+    const canonicalRequest = ['GET', path, canonicalQuery, `host:${host}\n`, 'host', UNSIGNED_PAYLOAD].join('\n');
+    const signature = this.getSignature(canonicalRequest, amzDate, scope);
+
+    return `${this.endpoint.protocol}//${host}${path}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  private signRequest(
+    method: string,
+    objectKey: string,
+    payloadHash: string,
+    extraHeaders: Record<string, string> = {}
+  ): SignedRequest {
+    const { host, path } = this.getObjectAddress(objectKey);
+    const { amzDate, scope } = this.getRequestDate();
+
+    // Node sets Host itself (sending it explicitly would break non-default ports), but it is always signed
+    const requestHeaders: Record<string, string> = {
+      ...extraHeaders,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const signedHeaderValues: Record<string, string> = { ...requestHeaders, host };
+    const headerNames = Object.keys(signedHeaderValues).sort();
+    const canonicalHeaders = headerNames.map(name => `${name}:${signedHeaderValues[name].trim()}\n`).join('');
+    const signedHeaders = headerNames.join(';');
+
+    const canonicalRequest = [method, path, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const signature = this.getSignature(canonicalRequest, amzDate, scope);
+
+    return {
+      url: `${this.endpoint.protocol}//${host}${path}`,
+      headers: {
+        ...requestHeaders,
+        Authorization: `${SIGNING_ALGORITHM} Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+    };
+  }
+
+  private getObjectAddress(objectKey: string): { host: string; path: string } {
+    const encodedKey = objectKey
+      .split('/')
+      .map(segment => this.encodeRfc3986(segment))
+      .join('/');
+
+    if (this.forcePathStyle) {
+      return { host: this.endpoint.host, path: `/${this.bucketName}/${encodedKey}` };
+    }
+
+    return { host: `${this.bucketName}.${this.endpoint.host}`, path: `/${encodedKey}` };
+  }
+
+  private getRequestDate(): { amzDate: string; scope: string } {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+    return { amzDate, scope: `${amzDate.slice(0, 8)}/${this.region}/s3/aws4_request` };
+  }
+
+  private getSignature(canonicalRequest: string, amzDate: string, scope: string): string {
+    const stringToSign = [SIGNING_ALGORITHM, amzDate, scope, this.sha256(canonicalRequest)].join('\n');
+
+    const dateKey = this.hmac(`AWS4${this.secretAccessKey}`, amzDate.slice(0, 8));
+    const regionKey = this.hmac(dateKey, this.region);
+    const serviceKey = this.hmac(regionKey, 's3');
+    const signingKey = this.hmac(serviceKey, 'aws4_request');
+
+    return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private getCanonicalQuery(query: Record<string, string>): string {
+    return Object.keys(query)
+      .sort()
+      .map(name => `${this.encodeRfc3986(name)}=${this.encodeRfc3986(query[name])}`)
+      .join('&');
+  }
+
+  private encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  private hmac(key: string | Buffer, data: string): Buffer {
+    return crypto.createHmac('sha256', key).update(data).digest();
+  }
+
+  private sha256(data: string | Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+}
@@ -0,0 +1,58 @@
+import { Controller, Get, Inject, Logger, NotFoundException, Query, Res } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+
+import { LocalStorageDriver } from './local-storage.driver';
+import { STORAGE_DRIVER, StorageDriver } from './storage.types';
+
+import { ApiDoc } from '@/decorators/api-doc.decorator';
+
+@ApiTags('files')
+@Controller('storage')
+export class StorageController {
+  private readonly logger = new Logger(StorageController.name);
+
+  constructor(@Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver) {}
+
+  @ApiDoc({
+    summary: 'Download a file through a signed URL',
+    description: 'Serves objects of the local storage driver for URLs issued by getSignedUrl',
+    status: 200,
+  })
+  @Get('signed')
+  async getSignedObject(
+    @Query('key') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Res() res: Response
+  ): Promise<void> {
+    // GCS and S3 signed URLs point at the provider, only the local driver serves its own
+    if (!(this.storageDriver instanceof LocalStorageDriver)) {
+      throw new NotFoundException();
+    }
+
+    if (!key || !this.storageDriver.verifySignature(key, Number(expires), signature)) {
+      res.status(403).json({ message: 'Invalid or expired signature' });
+      return;
+    }
+
+    try {
+      const stream = await this.storageDriver.createReadStream(key);
+      res.setHeader('Content-Type', await this.storageDriver.getContentType(key));
+      res.setHeader('Cache-Control', 'private, max-age=0');
+
+      stream.on('error', error => {
+        this.logger.error(`Error streaming ${key}:`, error);
+        if (!res.headersSent) {
+          res.status(500).json({ message: 'Error streaming file' });
+        }
+      });
+
+      stream.pipe(res);
+    } catch (error) {
+      if (!res.headersSent) {
+        res.status(404).json({ message: error.message || 'File not found' });
+      }
+    }
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Splits a `bucket/optional/prefix` setting into the bucket name and the key prefix
+ */
+export function parseBucketConfig(bucketConfig: string): { bucket: string; prefix: string } {
+  const [bucket, ...prefixParts] = bucketConfig.split('/');
+
+  return { bucket, prefix: prefixParts.filter(Boolean).join('/') };
+}
+
+export function getPrefixedKey(prefix: string, key: string): string {
+  return prefix ? `${prefix}/${key}` : key;
+}
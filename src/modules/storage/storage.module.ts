@@ -0,0 +1,39 @@
+import { HttpModule, HttpService } from '@nestjs/axios';
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+
+import { GcsStorageDriver } from './gcs-storage.driver';
+import { LocalStorageDriver } from './local-storage.driver';
+import { S3StorageDriver } from './s3-storage.driver';
+import { StorageController } from './storage.controller';
+import { STORAGE_DRIVER, StorageDriver, StorageDriverType } from './storage.types';
+
+/**
+ * Provides the STORAGE_DRIVER selected by STORAGE_DRIVER (`gcs` | `local` | `s3`, default `gcs`)
+ */
+@Module({
+  imports: [ConfigModule, HttpModule],
+  controllers: [StorageController],
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: (configService: ConfigService, httpService: HttpService): StorageDriver => {
+        const driver = configService.get<string>('STORAGE_DRIVER') || StorageDriverType.GCS;
+
+        switch (driver) {
+          case StorageDriverType.GCS:
+            return new GcsStorageDriver(configService);
+          case StorageDriverType.LOCAL:
+            return new LocalStorageDriver(configService);
+          case StorageDriverType.S3:
+            return new S3StorageDriver(configService, httpService);
+          default:
+            throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected gcs, local or s3)`);
+        }
+      },
+      inject: [ConfigService, HttpService],
+    },
+  ],
+  exports: [STORAGE_DRIVER],
+})
+export class StorageModule {}
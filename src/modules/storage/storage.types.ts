@@ -0,0 +1,50 @@
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+export enum StorageDriverType {
+  GCS = 'gcs',
+  LOCAL = 'local',
+  S3 = 's3',
+}
+
+/** Upper bound for signed URL lifetimes; GCS V4 and S3 SigV4 both reject anything longer than 7 days */
+export const MAX_SIGNED_URL_EXPIRES_IN = 7 * 24 * 60 * 60;
+
+export interface StoredObject {
+  /** Object key relative to the configured bucket/prefix */
+  key: string;
+  /** Driver-specific location (`gs://`, `s3://` or `file://`) */
+  location: string;
+}
+
+export class StorageObjectNotFoundError extends Error {
+  constructor(public readonly key: string) {
+    super(`No such object: ${key}`);
+    this.name = 'StorageObjectNotFoundError';
+  }
+}
+
+/**
+ * Object storage behind file uploads.
+ * Selected with STORAGE_DRIVER (`gcs` by default, `local` for disk, `s3` for S3-compatible stores such as MinIO).
+ */
+export interface StorageDriver {
+  readonly driverName: string;
+
+  upload(key: string, buffer: Buffer, contentType: string): Promise<StoredObject>;
+
+  /**
+   * Read stream of an object. A missing object either throws StorageObjectNotFoundError
+   * or surfaces as a stream error, depending on whether the driver can tell before streaming.
+   */
+  createReadStream(key: string): Promise<NodeJS.ReadableStream>;
+
+  /** Deletes an object; deleting a missing object is not an error */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Time-limited, read-only URL for an object. The object is not checked for existence,
+   * so a URL for a missing key fails only when it is fetched.
+   * @param expiresIn - Lifetime in seconds, at most MAX_SIGNED_URL_EXPIRES_IN
+   */
+  getSignedUrl(key: string, expiresIn: number): Promise<string>;
+}
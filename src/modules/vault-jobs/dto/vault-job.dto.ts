@@ -0,0 +1,84 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+
+import { VaultJob, VaultJobQueue, VaultJobState } from '@/types/vault-jobs.types';
+
+export class VaultJobsQuery {
+  @ApiProperty({ enum: VaultJobQueue, required: false })
+  @IsOptional()
+  @IsEnum(VaultJobQueue)
+  queue?: VaultJobQueue;
+
+  @ApiProperty({ enum: VaultJobState, required: false, description: '`failed` lists the dead letters' })
+  @IsOptional()
+  @IsEnum(VaultJobState)
+  state?: VaultJobState;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsUUID()
+  vaultId?: string;
+
+  @ApiProperty({ required: false, minimum: 1, maximum: 500, default: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number = 100;
+}
+
+export class VaultJobDto implements VaultJob {
+  @ApiProperty({ description: 'Idempotency key', example: 'contribution-end.8b1f….contribution' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ enum: VaultJobQueue })
+  @Expose()
+  queue: VaultJobQueue;
+
+  @ApiProperty({ example: 'contribution-end' })
+  @Expose()
+  name: string;
+
+  @ApiProperty()
+  @Expose()
+  vaultId: string;
+
+  @ApiProperty({ description: 'Vault status or termination step the job was queued for' })
+  @Expose()
+  expectedState: string;
+
+  @ApiProperty({ example: 'failed' })
+  @Expose()
+  state: string;
+
+  @ApiProperty()
+  @Expose()
+  attemptsMade: number;
+
+  @ApiProperty()
+  @Expose()
+  maxAttempts: number;
+
+  @ApiProperty({ description: 'Out of attempts; blocks new jobs with the same key until retried or discarded' })
+  @Expose()
+  deadLettered: boolean;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  failedReason: string | null;
+
+  @ApiProperty()
+  @Expose()
+  createdAt: Date;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  processedAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  finishedAt: Date | null;
+}
@@ -0,0 +1,16 @@
+import { JobsOptions } from 'bullmq';
+
+/**
+ * Retried with backoff for about 15 minutes. Completed jobs are removed so the next cron tick can enqueue the
+ * vault again when it still has work left; failed jobs are kept as the dead letter and block their key.
+ */
+export const VAULT_JOB_OPTIONS: JobsOptions = {
+  attempts: 5,
+  backoff: {
+    type: 'exponential',
+    delay: 60000,
+    jitter: 0.3,
+  },
+  removeOnComplete: true,
+  removeOnFail: false,
+};
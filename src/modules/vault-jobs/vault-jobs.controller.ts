@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+
+import { VaultJobDto, VaultJobsQuery } from './dto/vault-job.dto';
+import { VaultJobsService } from './vault-jobs.service';
+
+import { AdminGuard } from '@/modules/auth/admin.guard';
+import { VaultJobQueue } from '@/types/vault-jobs.types';
+
+@ApiTags('Admin - Vault Jobs')
+@Controller('admin/vault-jobs')
+@UseGuards(AdminGuard)
+export class VaultJobsController {
+  constructor(private readonly vaultJobsService: VaultJobsService) {}
+
+  @Get()
+  @ApiOperation({ summary: '[Admin] Lifecycle, termination and distribution jobs, newest first' })
+  @ApiResponse({ status: 200, type: [VaultJobDto] })
+  async listJobs(@Query() query: VaultJobsQuery): Promise<VaultJobDto[]> {
+    const jobs = await this.vaultJobsService.listJobs(query);
+
+    return plainToInstance(VaultJobDto, jobs, { excludeExtraneousValues: true });
+  }
+
+  @Get('counts')
+  @ApiOperation({ summary: '[Admin] Job counts per queue and state' })
+  @ApiResponse({ status: 200, description: 'Counts keyed by queue, then by job state' })
+  async getJobCounts(): Promise<Record<VaultJobQueue, Record<string, number>>> {
+    return this.vaultJobsService.getJobCounts();
+  }
+
+  @Post(':queue/:jobId/retry')
+  @ApiOperation({ summary: '[Admin] Retry a dead-lettered job with a fresh set of attempts' })
+  @ApiResponse({ status: 201, type: VaultJobDto })
+  @ApiResponse({ status: 409, description: 'The job has not failed' })
+  async retryJob(
+    @Param('queue', new ParseEnumPipe(VaultJobQueue)) queue: VaultJobQueue,
+    @Param('jobId') jobId: string
+  ): Promise<VaultJobDto> {
+    const job = await this.vaultJobsService.retryJob(queue, jobId);
+
+    return plainToInstance(VaultJobDto, job, { excludeExtraneousValues: true });
+  }
+
+  @Delete(':queue/:jobId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: '[Admin] Discard a job',
+    description: 'The next cron tick queues the vault again if it still has work due',
+  })
+  @ApiResponse({ status: 204 })
+  @ApiResponse({ status: 409, description: 'The job is running' })
+  async discardJob(
+    @Param('queue', new ParseEnumPipe(VaultJobQueue)) queue: VaultJobQueue,
+    @Param('jobId') jobId: string
+  ): Promise<void> {
+    await this.vaultJobsService.discardJob(queue, jobId);
+  }
+}
@@ -0,0 +1,28 @@
+import { BullModule } from '@nestjs/bullmq';
+import { Global, Module } from '@nestjs/common';
+
+import { VaultJobsController } from './vault-jobs.controller';
+import { VaultJobsService } from './vault-jobs.service';
+
+import { AlertsModule } from '@/modules/alerts/alerts.module';
+import { VaultJobQueue } from '@/types/vault-jobs.types';
+
+/**
+ * Registers the vault job queues. Their processors live next to the services doing the work:
+ * `LifecycleProcessor`, `TerminationProcessor` and `DistributionProcessor`.
+ */
+@Global()
+@Module({
+  imports: [
+    BullModule.registerQueue(
+      { name: VaultJobQueue.LIFECYCLE },
+      { name: VaultJobQueue.TERMINATION },
+      { name: VaultJobQueue.DISTRIBUTION }
+    ),
+    AlertsModule,
+  ],
+  controllers: [VaultJobsController],
+  providers: [VaultJobsService],
+  exports: [VaultJobsService],
+})
+export class VaultJobsModule {}
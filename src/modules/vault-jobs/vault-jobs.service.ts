@@ -0,0 +1,189 @@
+import { InjectQueue } from '@nestjs/bullmq';
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Job, Queue, UnrecoverableError } from 'bullmq';
+
+import { VaultJobsQuery } from './dto/vault-job.dto';
+import { VAULT_JOB_OPTIONS } from './vault-jobs.constants';
+
+import { AlertsService } from '@/modules/alerts/alerts.service';
+import { VaultJob, VaultJobData, VaultJobName, VaultJobQueue, VaultJobState } from '@/types/vault-jobs.types';
+
+const LISTED_STATES = [
+  VaultJobState.ACTIVE,
+  VaultJobState.WAITING,
+  VaultJobState.DELAYED,
+  VaultJobState.FAILED,
+  VaultJobState.COMPLETED,
+];
+
+/**
+ * Durable per-vault jobs for the lifecycle, termination and distribution flows.
+ *
+ * The crons only find vaults with work due and enqueue one job per vault; the queue processors do the work.
+ * The job id is the idempotency key `<job>.<vaultId>.<expected state>`, so a vault is never queued twice for
+ * the same work, and each job re-checks that the vault is still in `expectedState` before acting.
+ * A job that fails on every attempt stays in the failed set as a dead letter until an admin retries or discards it.
+ */
+@Injectable()
+export class VaultJobsService {
+  private readonly logger = new Logger(VaultJobsService.name);
+  private readonly queues: Record<VaultJobQueue, Queue<VaultJobData>>;
+
+  constructor(
+    @InjectQueue(VaultJobQueue.LIFECYCLE)
+    lifecycleQueue: Queue<VaultJobData>,
+    @InjectQueue(VaultJobQueue.TERMINATION)
+    terminationQueue: Queue<VaultJobData>,
+    @InjectQueue(VaultJobQueue.DISTRIBUTION)
+    distributionQueue: Queue<VaultJobData>,
+    private readonly alertsService: AlertsService
+  ) {
+    this.queues = {
+      [VaultJobQueue.LIFECYCLE]: lifecycleQueue,
+      [VaultJobQueue.TERMINATION]: terminationQueue,
+      [VaultJobQueue.DISTRIBUTION]: distributionQueue,
+    };
+  }
+
+  /**
+   * Queues `name` for the vault unless a job with the same key is already waiting, running, retrying
+   * or dead-lettered. Returns whether a new job was added.
+   */
+  async enqueue(queueName: VaultJobQueue, name: VaultJobName, data: VaultJobData): Promise<boolean> {
+    const queue = this.queues[queueName];
+    // BullMQ does not allow `:` in custom job ids
+    const jobId = `${name}.${data.vaultId}.${data.expectedState}`;
+
+    const existing = await queue.getJob(jobId);
+    if (existing) {
+      if (await existing.isFailed()) {
+        this.logger.debug(`Job ${jobId} is dead-lettered, not queuing it again`);
+      }
+      return false;
+    }
+
+    await queue.add(name, data, { ...VAULT_JOB_OPTIONS, jobId });
+    this.logger.log(`Queued ${name} for vault ${data.vaultId}`);
+
+    return true;
+  }
+
+  /**
+   * Worker `failed` handler shared by the vault job processors. Alerts once the job has no attempts left.
+   */
+  async handleFailedJob(queueName: VaultJobQueue, job: Job<VaultJobData> | undefined, error: Error): Promise<void> {
+    if (!job) {
+      this.logger.error(`A ${queueName} job failed: ${error.message}`);
+      return;
+    }
+
+    const maxAttempts = job.opts.attempts ?? 1;
+
+    if (!(error instanceof UnrecoverableError) && job.attemptsMade < maxAttempts) {
+      this.logger.warn(
+        `Job ${job.id} failed (attempt ${job.attemptsMade}/${maxAttempts}), retrying with backoff: ${error.message}`
+      );
+      return;
+    }
+
+    this.logger.error(`Job ${job.id} dead-lettered after ${job.attemptsMade} attempts: ${error.message}`, error.stack);
+
+    await this.alertsService.sendAlert('vault_job_dead_lettered', {
+      queue: queueName,
+      job: job.name,
+      jobId: job.id,
+      vaultId: job.data.vaultId,
+      attempts: job.attemptsMade,
+      error: error.message,
+    });
+  }
+
+  async listJobs(query: VaultJobsQuery): Promise<VaultJob[]> {
+    const queueNames = query.queue ? [query.queue] : Object.values(VaultJobQueue);
+    const states = query.state ? [query.state] : LISTED_STATES;
+    const limit = query.limit ?? 100;
+
+    const jobs = await Promise.all(
+      queueNames.map(async queueName => {
+        const queueJobs = await this.queues[queueName].getJobs(states, 0, limit - 1, false);
+        return Promise.all(
+          queueJobs
+            .filter(job => job && (!query.vaultId || job.data.vaultId === query.vaultId))
+            .map(async job => this.toVaultJob(queueName, job, query.state ?? (await job.getState())))
+        );
+      })
+    );
+
+    return jobs
+      .flat()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getJobCounts(): Promise<Record<VaultJobQueue, Record<string, number>>> {
+    const entries = await Promise.all(
+      Object.values(VaultJobQueue).map(
+        async queueName => [queueName, await this.queues[queueName].getJobCounts(...LISTED_STATES)] as const
+      )
+    );
+
+    return Object.fromEntries(entries) as Record<VaultJobQueue, Record<string, number>>;
+  }
+
+  /**
+   * Moves a dead-lettered job back to waiting with a fresh set of attempts
+   */
+  async retryJob(queueName: VaultJobQueue, jobId: string): Promise<VaultJob> {
+    const job = await this.getJobOrFail(queueName, jobId);
+
+    if (!(await job.isFailed())) {
+      throw new ConflictException(`Job ${jobId} has not failed`);
+    }
+
+    await job.retry('failed', { resetAttemptsMade: true, resetAttemptsStarted: true });
+    this.logger.log(`Dead-lettered job ${jobId} retried`);
+
+    return this.toVaultJob(queueName, job, await job.getState());
+  }
+
+  /**
+   * Removes a job that is not running. Discarding a dead letter lets the next cron tick queue the vault again.
+   */
+  async discardJob(queueName: VaultJobQueue, jobId: string): Promise<void> {
+    const job = await this.getJobOrFail(queueName, jobId);
+
+    if (await job.isActive()) {
+      throw new ConflictException(`Job ${jobId} is running`);
+    }
+
+    await job.remove();
+    this.logger.log(`Job ${jobId} discarded`);
+  }
+
+  private async getJobOrFail(queueName: VaultJobQueue, jobId: string): Promise<Job<VaultJobData>> {
+    const job = await this.queues[queueName].getJob(jobId);
+    if (!job) {
+      throw new NotFoundException(`Job ${jobId} not found in ${queueName}`);
+    }
+
+    return job;
+  }
+
+  private toVaultJob(queueName: VaultJobQueue, job: Job<VaultJobData>, state: string): VaultJob {
+    return {
+      id: job.id,
+      queue: queueName,
+      name: job.name,
+      vaultId: job.data.vaultId,
+      expectedState: job.data.expectedState,
+      state,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts ?? 1,
+      deadLettered: state === VaultJobState.FAILED,
+      failedReason: job.failedReason || null,
+      createdAt: new Date(job.timestamp),
+      processedAt: job.processedOn ? new Date(job.processedOn) : null,
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+    };
+  }
+}
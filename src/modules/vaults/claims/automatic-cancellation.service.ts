@@ -6,6 +6,7 @@ import { Queue } from 'bullmq';
 import { Repository } from 'typeorm';
 
 import { Claim } from '@/database/claim.entity';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
 import { ClaimStatus, ClaimType } from '@/types/claim.types';
 
 @Injectable()
@@ -21,6 +22,7 @@ export class AutomaticCancellationService {
   ) {}
 
   @Cron(CronExpression.EVERY_10_MINUTES)
+  @CoordinatedJob('claim-auto-cancellation')
   async processPendingCancellations(): Promise<void> {
     const lockKey = 'cancellation-processing-lock';
 
@@ -0,0 +1,97 @@
+import { describe, expect, it } from '@jest/globals';
+import { SimpleMerkleTree } from '@openzeppelin/merkle-tree';
+
+import { buildCardanoClaimMerkleTree, CardanoClaimLeafInput, hashCardanoClaimLeaf } from './cardano-claims-merkle';
+
+const vaultId = 'vault-1';
+
+const inputs: CardanoClaimLeafInput[] = [
+  { vaultId, address: 'addr_test1qzcarol', vtAmount: BigInt(300), lovelaceAmount: BigInt(0) },
+  { vaultId, address: 'addr_test1qzalice', vtAmount: BigInt(1000000), lovelaceAmount: BigInt(2500000) },
+  { vaultId, address: 'addr_test1qzdave', vtAmount: BigInt(0), lovelaceAmount: BigInt(7000000) },
+  { vaultId, address: 'addr_test1qzbob', vtAmount: BigInt(42), lovelaceAmount: BigInt(1) },
+];
+
+describe('hashCardanoClaimLeaf', () => {
+  const leaf = inputs[1];
+
+  it('hashes the ABI-encoded leaf fields with keccak256', () => {
+    // keccak256(abi.encode(string, string, uint256, uint256)) of the leaf
+    expect(hashCardanoClaimLeaf(leaf)).toBe('0x742563085d0bbc6ed86a553c00cceb9f825ced74db8ae00a36ee42b1df652217');
+  });
+
+  it('changes with every field', () => {
+    const hash = hashCardanoClaimLeaf(leaf);
+
+    expect(hashCardanoClaimLeaf({ ...leaf, vaultId: 'vault-2' })).not.toBe(hash);
+    expect(hashCardanoClaimLeaf({ ...leaf, address: 'addr_test1qzmallory' })).not.toBe(hash);
+    expect(hashCardanoClaimLeaf({ ...leaf, vtAmount: leaf.vtAmount + BigInt(1) })).not.toBe(hash);
+    expect(hashCardanoClaimLeaf({ ...leaf, lovelaceAmount: leaf.lovelaceAmount + BigInt(1) })).not.toBe(hash);
+  });
+
+  it('keeps amounts beyond Number precision apart', () => {
+    const large = BigInt('9007199254740993');
+
+    expect(hashCardanoClaimLeaf({ ...leaf, vtAmount: large })).not.toBe(
+      hashCardanoClaimLeaf({ ...leaf, vtAmount: large - BigInt(1) })
+    );
+  });
+});
+
+describe('buildCardanoClaimMerkleTree', () => {
+  it('orders leaves by address', () => {
+    const { leaves, leafHashes } = buildCardanoClaimMerkleTree(inputs);
+
+    expect(leaves.map(leaf => leaf.address)).toEqual([
+      'addr_test1qzalice',
+      'addr_test1qzbob',
+      'addr_test1qzcarol',
+      'addr_test1qzdave',
+    ]);
+    expect(leafHashes).toEqual(leaves.map(hashCardanoClaimLeaf));
+  });
+
+  it('builds the same root regardless of input order', () => {
+    const { root } = buildCardanoClaimMerkleTree(inputs);
+
+    expect(buildCardanoClaimMerkleTree([...inputs].reverse()).root).toBe(root);
+    expect(buildCardanoClaimMerkleTree([inputs[2], inputs[0], inputs[3], inputs[1]]).root).toBe(root);
+  });
+
+  it('changes the root when an allocation changes', () => {
+    const { root } = buildCardanoClaimMerkleTree(inputs);
+    const changed = inputs.map((input, i) => (i === 0 ? { ...input, vtAmount: input.vtAmount + BigInt(1) } : input));
+
+    expect(buildCardanoClaimMerkleTree(changed).root).not.toBe(root);
+  });
+
+  it('returns a proof that verifies every leaf against the root', () => {
+    const { root, leafHashes, proofs } = buildCardanoClaimMerkleTree(inputs);
+
+    leafHashes.forEach((leafHash, i) => {
+      expect(SimpleMerkleTree.verify(root, leafHash, proofs[i])).toBe(true);
+    });
+  });
+
+  it('rejects a tampered leaf or a proof of another leaf', () => {
+    const { root, leaves, leafHashes, proofs } = buildCardanoClaimMerkleTree(inputs);
+    const tampered = hashCardanoClaimLeaf({ ...leaves[0], lovelaceAmount: leaves[0].lovelaceAmount + BigInt(1) });
+
+    expect(SimpleMerkleTree.verify(root, tampered, proofs[0])).toBe(false);
+    expect(SimpleMerkleTree.verify(root, leafHashes[0], proofs[1])).toBe(false);
+  });
+
+  it('uses the leaf hash as the root of a single-leaf tree', () => {
+    const { root, leafHashes, proofs } = buildCardanoClaimMerkleTree([inputs[0]]);
+
+    expect(root).toBe(leafHashes[0]);
+    expect(proofs[0]).toEqual([]);
+  });
+
+  it('rejects an empty claim set and duplicate addresses', () => {
+    expect(() => buildCardanoClaimMerkleTree([])).toThrow('zero leaves');
+    expect(() => buildCardanoClaimMerkleTree([...inputs, { ...inputs[0], vtAmount: BigInt(1) }])).toThrow(
+      'appears in more than one leaf'
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { SimpleMerkleTree } from '@openzeppelin/merkle-tree';
+
+import { hashAbiEncodedLeaf } from '@/modules/vaults/processing-tx/onchain/evm-allocation-merkle';
+
+/**
+ * Merkle leaf helper for Cardano claim sets.
+ *
+ * One leaf per recipient address, with the address's total vault token and lovelace allocation:
+ *   leaf = keccak256(abi.encode(
+ *     string vaultId,
+ *     string address,        // bech32
+ *     uint256 vtAmount,      // VT base units
+ *     uint256 lovelaceAmount
+ *   ))
+ *
+ * Leaves and inner nodes use the same single-hashed leaves and sorted-pair keccak256 hashing as the
+ * EVM allocation tree (`evm-allocation-merkle.ts`), so a holder can check a proof with OZ `SimpleMerkleTree.verify`
+ * or any `MerkleProof`-compatible verifier, without trusting our database.
+ */
+
+/** 0x-prefixed hex string (viem's `Hex`). */
+type Hex = `0x${string}`;
+
+/** Fields that go into a Cardano claim leaf. */
+export interface CardanoClaimLeafInput {
+  vaultId: string;
+  address: string;
+  vtAmount: bigint;
+  lovelaceAmount: bigint;
+}
+
+const LEAF_ABI = [
+  { name: 'vaultId', type: 'string' as const },
+  { name: 'address', type: 'string' as const },
+  { name: 'vtAmount', type: 'uint256' as const },
+  { name: 'lovelaceAmount', type: 'uint256' as const },
+];
+
+/** Compute the leaf hash for a single address allocation. */
+export function hashCardanoClaimLeaf(input: CardanoClaimLeafInput): Hex {
+  return hashAbiEncodedLeaf(LEAF_ABI, [input.vaultId, input.address, input.vtAmount, input.lovelaceAmount]);
+}
+
+export interface CardanoClaimMerkleTreeBuildResult {
+  root: Hex;
+  /** Inputs ordered by address; `leafHashes[i]` and `proofs[i]` belong to `leaves[i]`. */
+  leaves: CardanoClaimLeafInput[];
+  leafHashes: Hex[];
+  proofs: Hex[][];
+}
+
+/**
+ * Build the claim set tree. Inputs are ordered by address first, so the same allocations
+ * always produce the same root regardless of how the claims were loaded.
+ */
+export function buildCardanoClaimMerkleTree(inputs: CardanoClaimLeafInput[]): CardanoClaimMerkleTreeBuildResult {
+  if (inputs.length === 0) {
+    throw new Error('Cannot build a Merkle tree with zero leaves');
+  }
+
+  const leaves = [...inputs].sort((a, b) => (a.address < b.address ? -1 : a.address > b.address ? 1 : 0));
+  for (let i = 1; i < leaves.length; i++) {
+    if (leaves[i].address === leaves[i - 1].address) {
+      throw new Error(`Address ${leaves[i].address} appears in more than one leaf; allocations must be aggregated`);
+    }
+  }
+
+  const leafHashes = leaves.map(hashCardanoClaimLeaf);
+  const tree = SimpleMerkleTree.of(leafHashes);
+
+  return {
+    root: tree.root as Hex,
+    leaves,
+    leafHashes,
+    proofs: leafHashes.map((_, i) => tree.getProof(i) as Hex[]),
+  };
+}
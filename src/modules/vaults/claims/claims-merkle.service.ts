@@ -0,0 +1,239 @@
+import { Blockfrost, Lucid } from '@lucid-evolution/lucid';
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+
+import { buildCardanoClaimMerkleTree, CardanoClaimLeafInput } from './cardano-claims-merkle';
+
+import { CardanoClaimLeaf } from '@/database/cardanoClaimLeaf.entity';
+import { CardanoClaimSet } from '@/database/cardanoClaimSet.entity';
+import { Claim } from '@/database/claim.entity';
+import { Vault } from '@/database/vault.entity';
+import { ClaimType } from '@/types/claim.types';
+import { ChainType } from '@/types/vault.types';
+
+/**
+ * Commits Cardano contributor and acquirer claims to a Merkle root so holders can verify their allocation
+ * independently of our database.
+ *
+ * A claim set is built when a distribution starts: claims are aggregated per recipient address into
+ * (address, vtAmount, lovelaceAmount) leaves, the root is stored on the vault and, when
+ * `CLAIMS_MERKLE_PUBLISH_METADATA` is enabled, published in the 674 metadata of an admin transaction.
+ */
+@Injectable()
+export class ClaimsMerkleService {
+  private readonly logger = new Logger(ClaimsMerkleService.name);
+  private readonly publishMetadata: boolean;
+
+  constructor(
+    @InjectRepository(CardanoClaimSet)
+    private readonly claimSetRepository: Repository<CardanoClaimSet>,
+    @InjectRepository(CardanoClaimLeaf)
+    private readonly claimLeafRepository: Repository<CardanoClaimLeaf>,
+    @InjectRepository(Claim)
+    private readonly claimRepository: Repository<Claim>,
+    @InjectRepository(Vault)
+    private readonly vaultRepository: Repository<Vault>,
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    private readonly configService: ConfigService
+  ) {
+    this.publishMetadata = this.configService.get<string>('CLAIMS_MERKLE_PUBLISH_METADATA') === 'true';
+  }
+
+  /**
+   * Builds the claim set from the vault's current claims. Returns the existing set when one with the same root
+   * was already committed, and null when the vault has no claims to commit.
+   */
+  async commitClaimSet(vaultId: string): Promise<CardanoClaimSet | null> {
+    const vault = await this.vaultRepository.findOne({
+      where: { id: vaultId },
+      select: ['id', 'chain_type', 'claims_merkle_root'],
+    });
+
+    if (!vault) {
+      throw new NotFoundException(`Vault ${vaultId} not found`);
+    }
+    if (vault.chain_type !== ChainType.cardano) {
+      throw new BadRequestException(`Vault ${vaultId} is not a Cardano vault (chain_type=${vault.chain_type})`);
+    }
+
+    const claims = await this.claimRepository.find({
+      where: {
+        vault: { id: vaultId },
+        type: In([ClaimType.CONTRIBUTOR, ClaimType.ACQUIRER]),
+      },
+      relations: ['user'],
+      order: { created_at: 'ASC' },
+    });
+
+    const byAddress = new Map<string, CardanoClaimLeafInput & { userId: string; claimIds: string[] }>();
+    for (const claim of claims) {
+      const address = claim.user?.address;
+      if (!address) {
+        this.logger.warn(`Claim ${claim.id} of vault ${vaultId} has no recipient address, leaving it out of the tree`);
+        continue;
+      }
+
+      const leaf = byAddress.get(address) ?? {
+        vaultId,
+        address,
+        vtAmount: 0n,
+        lovelaceAmount: 0n,
+        userId: claim.user_id,
+        claimIds: [],
+      };
+      leaf.vtAmount += BigInt(claim.amount ?? 0);
+      leaf.lovelaceAmount += BigInt(claim.lovelace_amount ?? 0);
+      leaf.claimIds.push(claim.id);
+      byAddress.set(address, leaf);
+    }
+
+    if (byAddress.size === 0) {
+      this.logger.log(`Vault ${vaultId} has no claims to commit`);
+      return null;
+    }
+
+    const { root, leaves, leafHashes, proofs } = buildCardanoClaimMerkleTree([...byAddress.values()]);
+
+    // Same allocations as an earlier set (usually the current one): point the vault back at it
+    const existing = await this.claimSetRepository.findOne({ where: { vaultId, root } });
+    if (existing) {
+      if (vault.claims_merkle_root !== root) {
+        await this.vaultRepository.update({ id: vaultId }, { claims_merkle_root: root });
+      }
+      return existing;
+    }
+
+    const claimSet = await this.dataSource.transaction(async manager => {
+      const saved = await manager.save(
+        manager.create(CardanoClaimSet, {
+          vaultId,
+          root,
+          leafCount: leaves.length,
+          totalVt: leaves.reduce((sum, leaf) => sum + leaf.vtAmount, 0n).toString(),
+          totalLovelace: leaves.reduce((sum, leaf) => sum + leaf.lovelaceAmount, 0n).toString(),
+          metadataTxHash: null,
+          publishedAt: null,
+        })
+      );
+
+      await manager.save(
+        leaves.map((leaf, i) => {
+          const { userId, claimIds } = byAddress.get(leaf.address);
+          return manager.create(CardanoClaimLeaf, {
+            claimSetId: saved.id,
+            vaultId,
+            leafIndex: i,
+            address: leaf.address,
+            userId,
+            vtAmount: leaf.vtAmount.toString(),
+            lovelaceAmount: leaf.lovelaceAmount.toString(),
+            claimIds,
+            leafHash: leafHashes[i],
+            proof: proofs[i],
+          });
+        }),
+        { chunk: 500 }
+      );
+
+      await manager.update(Vault, { id: vaultId }, { claims_merkle_root: root });
+
+      return saved;
+    });
+
+    this.logger.log(`Committed claim set ${claimSet.id} for vault ${vaultId}: root ${root}, ${leaves.length} leaves`);
+
+    if (this.publishMetadata) {
+      this.publishClaimSet(claimSet.id).catch(error =>
+        this.logger.error(`Failed to publish claim set ${claimSet.id} of vault ${vaultId}: ${error.message}`)
+      );
+    }
+
+    return claimSet;
+  }
+
+  /**
+   * Submits an admin self-payment carrying the claim set root in its 674 metadata
+   */
+  async publishClaimSet(claimSetId: string): Promise<CardanoClaimSet> {
+    const claimSet = await this.claimSetRepository.findOne({ where: { id: claimSetId } });
+
+    if (!claimSet) {
+      throw new NotFoundException(`Claim set ${claimSetId} not found`);
+    }
+    if (claimSet.metadataTxHash) {
+      throw new BadRequestException(`Claim set ${claimSetId} was already published in ${claimSet.metadataTxHash}`);
+    }
+
+    const adminAddress = this.configService.get<string>('ADMIN_ADDRESS');
+    const network = Number(this.configService.get<string>('NETWORK_ID')) === 1 ? 'Mainnet' : 'Preprod';
+    const lucid = await Lucid(
+      new Blockfrost(
+        `https://cardano-${network.toLowerCase()}.blockfrost.io/api/v0`,
+        this.configService.get<string>('BLOCKFROST_API_KEY')
+      ),
+      network
+    );
+    lucid.selectWallet.fromAddress(adminAddress, await lucid.utxosAt(adminAddress));
+
+    // Metadata strings are limited to 64 bytes, so the root goes in without its 0x prefix
+    const tx = await lucid
+      .newTx()
+      .attachMetadata(674, {
+        msg: [
+          'L4VA claims Merkle root',
+          `vault ${claimSet.vaultId}`,
+          claimSet.root.slice(2),
+          `leaves ${claimSet.leafCount}`,
+        ],
+      })
+      .complete({ changeAddress: adminAddress });
+
+    const signedTx = await tx.sign.withPrivateKey(this.configService.get<string>('ADMIN_S_KEY')).complete();
+    const txHash = await signedTx.submit();
+
+    await this.claimSetRepository.update({ id: claimSetId }, { metadataTxHash: txHash, publishedAt: new Date() });
+    this.logger.log(`Published claim set ${claimSetId} of vault ${claimSet.vaultId} in ${txHash}`);
+
+    return this.claimSetRepository.findOne({ where: { id: claimSetId } });
+  }
+
+  /**
+   * The set whose root is currently on the vault
+   */
+  async getLatestClaimSet(vaultId: string): Promise<CardanoClaimSet> {
+    const vault = await this.vaultRepository.findOne({
+      where: { id: vaultId },
+      select: ['id', 'claims_merkle_root'],
+    });
+
+    if (!vault) {
+      throw new NotFoundException(`Vault ${vaultId} not found`);
+    }
+
+    const claimSet =
+      vault.claims_merkle_root &&
+      (await this.claimSetRepository.findOne({ where: { vaultId, root: vault.claims_merkle_root } }));
+
+    if (!claimSet) {
+      throw new NotFoundException(`Vault ${vaultId} has no committed claim set`);
+    }
+
+    return claimSet;
+  }
+
+  async getProof(vaultId: string, address: string): Promise<{ claimSet: CardanoClaimSet; leaf: CardanoClaimLeaf }> {
+    const claimSet = await this.getLatestClaimSet(vaultId);
+    const leaf = await this.claimLeafRepository.findOne({
+      where: { claimSetId: claimSet.id, address },
+    });
+
+    if (!leaf) {
+      throw new NotFoundException(`Address ${address} has no allocation in the claim set of vault ${vaultId}`);
+    }
+
+    return { claimSet, leaf };
+  }
+}
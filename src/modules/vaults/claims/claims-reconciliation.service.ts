@@ -0,0 +1,398 @@
+import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, In, IsNull, Not, Repository } from 'typeorm';
+
+import { ClaimsVerificationService } from './claims-verification.service';
+
+import { Claim } from '@/database/claim.entity';
+import { ClaimReconciliationReport } from '@/database/claimReconciliationReport.entity';
+import { Vault } from '@/database/vault.entity';
+import { AlertsService } from '@/modules/alerts/alerts.service';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
+import { ClaimStatus, ClaimType } from '@/types/claim.types';
+import {
+  CalculationClaimDiscrepancy,
+  ClaimReconciliationStatus,
+  ClaimReconciliationTrigger,
+  OnChainClaimDiscrepancy,
+} from '@/types/claims-reconciliation.types';
+import { VaultStatus } from '@/types/vault.types';
+
+const VAULTS_PER_RUN = 20;
+const MAX_STORED_DISCREPANCIES = 50;
+const MAX_ERROR_LENGTH = 500;
+
+interface AddressClaims {
+  userId: string;
+  address: string;
+  claimIds: string[];
+  txHashes: Set<string>;
+  expectedVt: bigint;
+  expectedLovelace: bigint;
+}
+
+interface OnChainCheck {
+  distributedClaimsChecked: number;
+  unconfirmedDistributionTxs: number;
+  expectedVt: bigint;
+  receivedVt: bigint;
+  expectedLovelace: bigint;
+  receivedLovelace: bigint;
+  discrepancies: OnChainClaimDiscrepancy[];
+}
+
+/**
+ * Reconciles vault claims after distribution and then periodically.
+ *
+ * Each run recalculates the claims with `ClaimsVerificationService.verifyClaims` and compares the VT and ADA
+ * the distribution transactions actually paid to each claimant address with the claimed amounts. The result is
+ * stored as a `claim_reconciliation_reports` row; differences above the configured tolerances raise an alert.
+ * Claims whose distribution transaction is not on-chain yet are left for a later run.
+ */
+@Injectable()
+export class ClaimsReconciliationService {
+  private readonly logger = new Logger(ClaimsReconciliationService.name);
+  private readonly blockfrost: BlockFrostAPI;
+  private readonly intervalHours: number;
+  private readonly vtTolerancePercent: number;
+  private readonly adaToleranceLovelace: bigint;
+
+  constructor(
+    @InjectRepository(ClaimReconciliationReport)
+    private readonly reportRepository: Repository<ClaimReconciliationReport>,
+    @InjectRepository(Claim)
+    private readonly claimRepository: Repository<Claim>,
+    @InjectRepository(Vault)
+    private readonly vaultRepository: Repository<Vault>,
+    private readonly claimsVerificationService: ClaimsVerificationService,
+    private readonly alertsService: AlertsService,
+    private readonly configService: ConfigService
+  ) {
+    this.blockfrost = new BlockFrostAPI({
+      projectId: this.configService.get<string>('BLOCKFROST_API_KEY'),
+    });
+    this.intervalHours = Number(this.configService.get<string>('CLAIMS_RECONCILIATION_INTERVAL_HOURS') ?? 24);
+    // Contributor payouts may mint up to 1% more or less VT than the claim when multipliers round differently
+    this.vtTolerancePercent = Number(this.configService.get<string>('CLAIMS_RECONCILIATION_VT_TOLERANCE_PERCENT') ?? 1);
+    // Payout outputs without an ADA payment still carry the min-UTxO ADA
+    this.adaToleranceLovelace = BigInt(
+      this.configService.get<string>('CLAIMS_RECONCILIATION_ADA_TOLERANCE_LOVELACE') ?? 2_000_000
+    );
+  }
+
+  /**
+   * Reconciles vaults whose distribution finished but were never reconciled, then the ones whose last report
+   * is older than the interval. Reports with unconfirmed distribution transactions are retried on the next run.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  @CoordinatedJob('claims-reconciliation', { leaseMs: 10 * 60 * 1000 })
+  async reconcileDueVaults(): Promise<void> {
+    const cutoff = new Date(Date.now() - this.intervalHours * 60 * 60 * 1000);
+    const dueVaults: { id: string; last_report_at: Date | null }[] = await this.vaultRepository
+      .createQueryBuilder('vault')
+      .select('vault.id', 'id')
+      .addSelect('latest.created_at', 'last_report_at')
+      .leftJoin(
+        subQuery =>
+          subQuery
+            .select('report.vault_id', 'vault_id')
+            .addSelect('report.created_at', 'created_at')
+            .addSelect('report.unconfirmed_distribution_txs', 'unconfirmed_distribution_txs')
+            .from(ClaimReconciliationReport, 'report')
+            .distinctOn(['report.vault_id'])
+            .orderBy('report.vault_id')
+            .addOrderBy('report.created_at', 'DESC'),
+        'latest',
+        'latest.vault_id = vault.id'
+      )
+      .where('vault.distribution_processed = true')
+      .andWhere('vault.vault_status != :burned', { burned: VaultStatus.burned })
+      .andWhere(
+        new Brackets(qb =>
+          qb
+            .where('latest.created_at IS NULL')
+            .orWhere('latest.created_at < :cutoff', { cutoff })
+            .orWhere('latest.unconfirmed_distribution_txs > 0')
+        )
+      )
+      .orderBy('latest.created_at', 'ASC', 'NULLS FIRST')
+      .limit(VAULTS_PER_RUN)
+      .getRawMany();
+
+    if (dueVaults.length === 0) {
+      return;
+    }
+
+    this.logger.log(`Reconciling claims of ${dueVaults.length} vaults`);
+
+    const flagged: ClaimReconciliationReport[] = [];
+    for (const { id, last_report_at } of dueVaults) {
+      const trigger = last_report_at
+        ? ClaimReconciliationTrigger.SCHEDULED
+        : ClaimReconciliationTrigger.POST_DISTRIBUTION;
+      const report = await this.reconcile(id, trigger, false);
+
+      if (report.status === ClaimReconciliationStatus.DISCREPANCIES) {
+        flagged.push(report);
+      }
+    }
+
+    await this.alertDiscrepancies(flagged, ClaimReconciliationTrigger.SCHEDULED);
+  }
+
+  /**
+   * Reconciles one vault and stores the report. Failures are recorded as a FAILED report instead of thrown.
+   *
+   * @param alert - Raise the discrepancy alert for this vault; the scheduled run batches its alerts instead
+   */
+  async reconcile(
+    vaultId: string,
+    trigger: ClaimReconciliationTrigger,
+    alert = true
+  ): Promise<ClaimReconciliationReport> {
+    const vault = await this.vaultRepository.findOne({
+      where: { id: vaultId },
+      select: ['id', 'name', 'script_hash', 'asset_vault_name'],
+    });
+
+    if (!vault) {
+      throw new NotFoundException(`Vault ${vaultId} not found`);
+    }
+
+    let report: ClaimReconciliationReport;
+
+    try {
+      const verification = await this.claimsVerificationService.verifyClaims(vaultId);
+      const calculationDiscrepancies: CalculationClaimDiscrepancy[] = verification.discrepancies
+        .filter(
+          discrepancy =>
+            Math.abs(discrepancy.percentageDifference) > this.vtTolerancePercent ||
+            Math.abs(discrepancy.lovelaceDifference ?? 0) > Number(this.adaToleranceLovelace)
+        )
+        .map(discrepancy => ({
+          claimId: discrepancy.claimId,
+          userId: discrepancy.userId,
+          type: discrepancy.type,
+          actualAmount: discrepancy.actualAmount,
+          expectedAmount: discrepancy.expectedAmount,
+          difference: discrepancy.difference,
+          percentageDifference: discrepancy.percentageDifference,
+          lovelaceDifference: discrepancy.lovelaceDifference,
+        }));
+
+      const onChain = await this.checkOnChain(vault);
+      const hasDiscrepancies = calculationDiscrepancies.length > 0 || onChain.discrepancies.length > 0;
+
+      report = this.reportRepository.create({
+        vaultId,
+        trigger,
+        status: hasDiscrepancies ? ClaimReconciliationStatus.DISCREPANCIES : ClaimReconciliationStatus.OK,
+        claimsChecked: verification.summary.totalClaims,
+        calculationDiscrepancies: calculationDiscrepancies.length,
+        vtDifference: verification.summary.vtDistributionDifference,
+        lovelaceDifference: verification.summary.adaDistributionDifference,
+        distributedClaimsChecked: onChain.distributedClaimsChecked,
+        onChainDiscrepancies: onChain.discrepancies.length,
+        unconfirmedDistributionTxs: onChain.unconfirmedDistributionTxs,
+        onChainExpectedVt: onChain.expectedVt.toString(),
+        onChainReceivedVt: onChain.receivedVt.toString(),
+        onChainExpectedLovelace: onChain.expectedLovelace.toString(),
+        onChainReceivedLovelace: onChain.receivedLovelace.toString(),
+        discrepancies: {
+          calculation: calculationDiscrepancies.slice(0, MAX_STORED_DISCREPANCIES),
+          onChain: onChain.discrepancies.slice(0, MAX_STORED_DISCREPANCIES),
+        },
+        error: null,
+      });
+    } catch (error) {
+      this.logger.error(`Claims reconciliation of vault ${vaultId} failed: ${error.message}`, error.stack);
+      report = this.reportRepository.create({
+        vaultId,
+        trigger,
+        status: ClaimReconciliationStatus.FAILED,
+        error: String(error?.message ?? error).slice(0, MAX_ERROR_LENGTH),
+      });
+    }
+
+    report = await this.reportRepository.save(report);
+
+    this.logger.log(
+      `Claims reconciliation of vault ${vaultId} (${trigger}): ${report.status}, ` +
+        `${report.calculationDiscrepancies} calculation and ${report.onChainDiscrepancies} on-chain discrepancies, ` +
+        `${report.unconfirmedDistributionTxs} unconfirmed distribution txs`
+    );
+
+    if (alert && report.status === ClaimReconciliationStatus.DISCREPANCIES) {
+      await this.alertDiscrepancies([report], trigger, { [vaultId]: vault.name });
+    }
+
+    return report;
+  }
+
+  async getReports(vaultId: string, limit = 20): Promise<ClaimReconciliationReport[]> {
+    return this.reportRepository.find({
+      where: { vaultId },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Sums the vault token and lovelace each claimant address received in the distribution transactions
+   * of its claimed contributor and acquirer claims
+   */
+  private async checkOnChain(vault: Pick<Vault, 'id' | 'script_hash' | 'asset_vault_name'>): Promise<OnChainCheck> {
+    const vtUnit = `${vault.script_hash}${vault.asset_vault_name}`;
+    const claims = await this.claimRepository.find({
+      where: {
+        vault: { id: vault.id },
+        type: In([ClaimType.CONTRIBUTOR, ClaimType.ACQUIRER]),
+        status: ClaimStatus.CLAIMED,
+        distribution_tx_id: Not(IsNull()),
+        is_treasury_claim: false,
+      },
+      relations: ['user', 'distribution_transaction'],
+    });
+
+    const result: OnChainCheck = {
+      distributedClaimsChecked: 0,
+      unconfirmedDistributionTxs: 0,
+      expectedVt: 0n,
+      receivedVt: 0n,
+      expectedLovelace: 0n,
+      receivedLovelace: 0n,
+      discrepancies: [],
+    };
+
+    const byAddress = new Map<string, AddressClaims>();
+    for (const claim of claims) {
+      const txHash = claim.distribution_transaction?.tx_hash;
+      const address = claim.user?.address;
+      if (!txHash || !address) {
+        continue;
+      }
+
+      const entry = byAddress.get(address) ?? {
+        userId: claim.user_id,
+        address,
+        claimIds: [],
+        txHashes: new Set<string>(),
+        expectedVt: 0n,
+        expectedLovelace: 0n,
+      };
+      entry.claimIds.push(claim.id);
+      entry.txHashes.add(txHash);
+      entry.expectedVt += BigInt(claim.amount ?? 0);
+      entry.expectedLovelace += BigInt(claim.lovelace_amount ?? 0);
+      byAddress.set(address, entry);
+    }
+
+    // Outputs per distribution tx, or null while the tx is not on-chain
+    const txOutputs = new Map<string, Awaited<ReturnType<BlockFrostAPI['txsUtxos']>>['outputs'] | null>();
+    for (const txHash of new Set([...byAddress.values()].flatMap(entry => [...entry.txHashes]))) {
+      try {
+        txOutputs.set(txHash, (await this.blockfrost.txsUtxos(txHash)).outputs);
+      } catch (error) {
+        if (error.status_code !== 404) {
+          throw error;
+        }
+        txOutputs.set(txHash, null);
+        result.unconfirmedDistributionTxs++;
+      }
+    }
+
+    for (const entry of byAddress.values()) {
+      if ([...entry.txHashes].some(txHash => !txOutputs.get(txHash))) {
+        continue;
+      }
+
+      let receivedVt = 0n;
+      let receivedLovelace = 0n;
+      for (const txHash of entry.txHashes) {
+        for (const output of txOutputs.get(txHash)) {
+          if (output.address !== entry.address) {
+            continue;
+          }
+          for (const { unit, quantity } of output.amount) {
+            if (unit === vtUnit) {
+              receivedVt += BigInt(quantity);
+            } else if (unit === 'lovelace') {
+              receivedLovelace += BigInt(quantity);
+            }
+          }
+        }
+      }
+
+      result.distributedClaimsChecked += entry.claimIds.length;
+      result.expectedVt += entry.expectedVt;
+      result.receivedVt += receivedVt;
+      result.expectedLovelace += entry.expectedLovelace;
+      result.receivedLovelace += receivedLovelace;
+
+      if (
+        this.exceedsVtTolerance(entry.expectedVt, receivedVt) ||
+        this.absDiff(entry.expectedLovelace, receivedLovelace) > this.adaToleranceLovelace
+      ) {
+        result.discrepancies.push({
+          userId: entry.userId,
+          address: entry.address,
+          claimIds: entry.claimIds,
+          distributionTxHashes: [...entry.txHashes],
+          expectedVt: entry.expectedVt.toString(),
+          receivedVt: receivedVt.toString(),
+          expectedLovelace: entry.expectedLovelace.toString(),
+          receivedLovelace: receivedLovelace.toString(),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private exceedsVtTolerance(expected: bigint, received: bigint): boolean {
+    if (expected === 0n) {
+      return received > 0n;
+    }
+
+    // Basis points keep the comparison in bigint
+    return this.absDiff(expected, received) * 10_000n > expected * BigInt(Math.round(this.vtTolerancePercent * 100));
+  }
+
+  private absDiff(a: bigint, b: bigint): bigint {
+    return a > b ? a - b : b - a;
+  }
+
+  private async alertDiscrepancies(
+    reports: ClaimReconciliationReport[],
+    trigger: ClaimReconciliationTrigger,
+    vaultNames?: Record<string, string>
+  ): Promise<void> {
+    if (reports.length === 0) {
+      return;
+    }
+
+    if (!vaultNames) {
+      const vaults = await this.vaultRepository.find({
+        where: { id: In(reports.map(report => report.vaultId)) },
+        select: ['id', 'name'],
+      });
+      vaultNames = Object.fromEntries(vaults.map(vault => [vault.id, vault.name]));
+    }
+
+    await this.alertsService.sendAlert('claims_reconciliation_discrepancies', {
+      trigger,
+      vaults: reports.map(report => ({
+        vaultId: report.vaultId,
+        vaultName: vaultNames[report.vaultId],
+        reportId: report.id,
+        calculationDiscrepancies: report.calculationDiscrepancies,
+        onChainDiscrepancies: report.onChainDiscrepancies,
+        vtDifference: report.vtDifference,
+        adaDifference: report.lovelaceDifference,
+      })),
+    });
+  }
+}
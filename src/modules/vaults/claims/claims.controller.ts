@@ -1,20 +1,26 @@
 import { Controller, Get, Post, UseGuards, Query, Request, Body, Param, Res, Header } from '@nestjs/common';
 import { ApiTags, ApiResponse } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
 import { Response } from 'express';
 
 import { AuthGuard } from '../../auth/auth.guard';
 import { AuthRequest } from '../../auth/dto/auth-user.interface';
 
+import { ClaimsMerkleService } from './claims-merkle.service';
+import { ClaimsReconciliationService } from './claims-reconciliation.service';
 import { ClaimsVerificationService } from './claims-verification.service';
 import { ClaimsService } from './claims.service';
 import { ClaimResponseDto } from './dto/claim-response.dto';
+import { CardanoClaimProofDto, CardanoClaimSetDto } from './dto/claims-merkle.dto';
 import { GetClaimsDto } from './dto/get-claims.dto';
 import { VerifyClaimsQueryDto } from './dto/verify-claims-query.dto';
 import { VerifyClaimsResponseDto } from './dto/verify-claims.dto';
 import { L4vaRewardsService } from './l4va-rewards.service';
 
+import { ClaimReconciliationReport } from '@/database/claimReconciliationReport.entity';
 import { ApiDoc } from '@/decorators/api-doc.decorator';
 import { AdminGuard } from '@/modules/auth/admin.guard';
+import { ClaimReconciliationTrigger } from '@/types/claims-reconciliation.types';
 
 @ApiTags('Claims')
 @Controller('claims')
@@ -22,6 +28,8 @@ export class ClaimsController {
   constructor(
     private readonly claimsService: ClaimsService,
     private readonly claimsVerificationService: ClaimsVerificationService,
+    private readonly claimsReconciliationService: ClaimsReconciliationService,
+    private readonly claimsMerkleService: ClaimsMerkleService,
     private readonly l4vaRewardsService: L4vaRewardsService
   ) {}
 
@@ -120,6 +128,87 @@ export class ClaimsController {
     return this.claimsVerificationService.verifyClaims(vaultId, query);
   }
 
+  @ApiDoc({
+    summary: 'List vault claims reconciliation reports',
+    description: 'Returns the latest claims reconciliation reports of a vault, newest first',
+    status: 200,
+  })
+  @UseGuards(AdminGuard)
+  @Get('verify/:vaultId/reconciliations')
+  async getReconciliationReports(@Param('vaultId') vaultId: string): Promise<ClaimReconciliationReport[]> {
+    return this.claimsReconciliationService.getReports(vaultId);
+  }
+
+  @ApiDoc({
+    summary: 'Reconcile vault claims now',
+    description:
+      'Verifies the vault claims, compares distributed claims with the VT and ADA received on-chain and stores a reconciliation report',
+    status: 201,
+  })
+  @UseGuards(AdminGuard)
+  @Post('verify/:vaultId/reconcile')
+  async reconcileClaims(@Param('vaultId') vaultId: string): Promise<ClaimReconciliationReport> {
+    return this.claimsReconciliationService.reconcile(vaultId, ClaimReconciliationTrigger.MANUAL);
+  }
+
+  @ApiDoc({
+    summary: 'Get vault claim set Merkle root',
+    description: 'Returns the committed Merkle root over the vault allocations and the transaction publishing it',
+    status: 200,
+  })
+  @Get('merkle/:vaultId')
+  @ApiResponse({ type: CardanoClaimSetDto })
+  async getClaimSet(@Param('vaultId') vaultId: string): Promise<CardanoClaimSetDto> {
+    const claimSet = await this.claimsMerkleService.getLatestClaimSet(vaultId);
+    return plainToInstance(CardanoClaimSetDto, claimSet, { excludeExtraneousValues: true });
+  }
+
+  @ApiDoc({
+    summary: 'Get Merkle proof of an address allocation',
+    description:
+      'Returns the VT and lovelace allocated to an address with its Merkle proof, verifiable against the published root',
+    status: 200,
+  })
+  @Get('merkle/:vaultId/proof/:address')
+  @ApiResponse({ type: CardanoClaimProofDto })
+  async getClaimProof(
+    @Param('vaultId') vaultId: string,
+    @Param('address') address: string
+  ): Promise<CardanoClaimProofDto> {
+    const { claimSet, leaf } = await this.claimsMerkleService.getProof(vaultId, address);
+    return plainToInstance(
+      CardanoClaimProofDto,
+      { ...leaf, root: claimSet.root, metadataTxHash: claimSet.metadataTxHash },
+      { excludeExtraneousValues: true }
+    );
+  }
+
+  @ApiDoc({
+    summary: 'Commit vault claim set',
+    description: 'Rebuilds the Merkle tree from the current vault claims and stores it when the root changed',
+    status: 201,
+  })
+  @UseGuards(AdminGuard)
+  @Post('merkle/:vaultId/commit')
+  @ApiResponse({ type: CardanoClaimSetDto })
+  async commitClaimSet(@Param('vaultId') vaultId: string): Promise<CardanoClaimSetDto | null> {
+    const claimSet = await this.claimsMerkleService.commitClaimSet(vaultId);
+    return claimSet && plainToInstance(CardanoClaimSetDto, claimSet, { excludeExtraneousValues: true });
+  }
+
+  @ApiDoc({
+    summary: 'Publish claim set root on-chain',
+    description: 'Submits an admin transaction carrying the claim set root in its metadata (label 674)',
+    status: 201,
+  })
+  @UseGuards(AdminGuard)
+  @Post('merkle/sets/:claimSetId/publish')
+  @ApiResponse({ type: CardanoClaimSetDto })
+  async publishClaimSet(@Param('claimSetId') claimSetId: string): Promise<CardanoClaimSetDto> {
+    const claimSet = await this.claimsMerkleService.publishClaimSet(claimSetId);
+    return plainToInstance(CardanoClaimSetDto, claimSet, { excludeExtraneousValues: true });
+  }
+
   @ApiDoc({
     summary: 'Export vault claims verification as CSV',
     description: 'Exports per-user claim breakdowns and discrepancies as a CSV file for spreadsheet analysis',
@@ -5,17 +5,23 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { AutomaticCancellationService } from './automatic-cancellation.service';
 import { CancellationProcessor } from './cancellation.processor';
+import { ClaimsMerkleService } from './claims-merkle.service';
+import { ClaimsReconciliationService } from './claims-reconciliation.service';
 import { ClaimsVerificationService } from './claims-verification.service';
 import { ClaimsController } from './claims.controller';
 import { ClaimsService } from './claims.service';
 import { L4vaRewardsService } from './l4va-rewards.service';
 
 import { Asset } from '@/database/asset.entity';
+import { CardanoClaimLeaf } from '@/database/cardanoClaimLeaf.entity';
+import { CardanoClaimSet } from '@/database/cardanoClaimSet.entity';
 import { Claim } from '@/database/claim.entity';
+import { ClaimReconciliationReport } from '@/database/claimReconciliationReport.entity';
 import { Snapshot } from '@/database/snapshot.entity';
 import { Transaction } from '@/database/transaction.entity';
 import { User } from '@/database/user.entity';
 import { Vault } from '@/database/vault.entity';
+import { AlertsModule } from '@/modules/alerts/alerts.module';
 import { DistributionCalculationService } from '@/modules/distribution/distribution-calculation.service';
 import { AssetsModule } from '@/modules/vaults/assets/assets.module';
 import { GovernanceModule } from '@/modules/vaults/phase-management/governance/governance.module';
@@ -31,22 +37,35 @@ import { BlockchainModule } from '@/modules/vaults/processing-tx/onchain/blockch
         removeOnFail: 10,
       },
     }),
-    TypeOrmModule.forFeature([Claim, Transaction, Asset, User, Vault, Snapshot]),
+    TypeOrmModule.forFeature([
+      Claim,
+      Transaction,
+      Asset,
+      User,
+      Vault,
+      Snapshot,
+      ClaimReconciliationReport,
+      CardanoClaimSet,
+      CardanoClaimLeaf,
+    ]),
     BlockchainModule,
     TransactionsModule,
     HttpModule,
     AssetsModule,
     GovernanceModule,
+    AlertsModule,
   ],
   controllers: [ClaimsController],
   providers: [
     ClaimsService,
     ClaimsVerificationService,
+    ClaimsReconciliationService,
+    ClaimsMerkleService,
     L4vaRewardsService,
     AutomaticCancellationService,
     CancellationProcessor,
     DistributionCalculationService,
   ],
-  exports: [ClaimsService, L4vaRewardsService],
+  exports: [ClaimsService, L4vaRewardsService, ClaimsReconciliationService, ClaimsMerkleService],
 })
 export class ClaimsModule {}
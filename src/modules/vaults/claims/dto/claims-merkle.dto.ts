@@ -0,0 +1,80 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class CardanoClaimSetDto {
+  @Expose()
+  @ApiProperty()
+  id: string;
+
+  @Expose()
+  @ApiProperty()
+  vaultId: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Merkle root (0x-prefixed keccak256)' })
+  root: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Number of address leaves' })
+  leafCount: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Total VT in the set, in base units' })
+  totalVt: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Total lovelace in the set' })
+  totalLovelace: string;
+
+  @Expose()
+  @ApiProperty({ nullable: true, description: 'Transaction carrying the root in its 674 metadata' })
+  metadataTxHash: string | null;
+
+  @Expose()
+  @ApiProperty({ nullable: true })
+  publishedAt: Date | null;
+
+  @Expose()
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class CardanoClaimProofDto {
+  @Expose()
+  @ApiProperty()
+  vaultId: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Root the proof verifies against' })
+  root: string;
+
+  @Expose()
+  @ApiProperty({ nullable: true })
+  metadataTxHash: string | null;
+
+  @Expose()
+  @ApiProperty()
+  address: string;
+
+  @Expose()
+  @ApiProperty({ description: 'VT allocated to the address, in base units' })
+  vtAmount: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Lovelace allocated to the address' })
+  lovelaceAmount: string;
+
+  @Expose()
+  @ApiProperty({
+    description: 'keccak256(abi.encode(string vaultId, string address, uint256 vtAmount, uint256 lovelaceAmount))',
+  })
+  leafHash: string;
+
+  @Expose()
+  @ApiProperty({ type: [String], description: 'Sibling hashes from the leaf up, sorted-pair keccak256' })
+  proof: string[];
+
+  @Expose()
+  @ApiProperty({ type: [String] })
+  claimIds: string[];
+}
@@ -15,6 +15,7 @@ import { Snapshot } from '@/database/snapshot.entity';
 import { Transaction } from '@/database/transaction.entity';
 import { User } from '@/database/user.entity';
 import { Vault } from '@/database/vault.entity';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
 import { BlockchainService } from '@/modules/vaults/processing-tx/onchain/blockchain.service';
 import { getUtxosExtract } from '@/modules/vaults/processing-tx/onchain/utils/lib';
 import { ClaimStatus, ClaimType } from '@/types/claim.types';
@@ -111,6 +112,7 @@ export class L4vaRewardsService {
    * 5. Create claims: 20% to creator, 80% split by VT holdings
    */
   @Cron(CronExpression.EVERY_1ST_DAY_OF_MONTH_AT_MIDNIGHT)
+  @CoordinatedJob('l4va-monthly-rewards')
   async createMonthlyL4VARewards(): Promise<void> {
     this.logger.log('Running monthly L4VA rewards distribution...');
 
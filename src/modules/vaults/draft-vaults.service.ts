@@ -231,6 +231,8 @@ export class DraftVaultsService {
       if (data.voteThreshold) vaultData.vote_threshold = data.voteThreshold;
       if (data.executionThreshold) vaultData.execution_threshold = data.executionThreshold;
       if (data.cosigningThreshold) vaultData.cosigning_threshold = data.cosigningThreshold;
+      if (data.voteCountingStrategy) vaultData.vote_counting_strategy = data.voteCountingStrategy;
+      if (data.voteCountingCapPercent !== undefined) vaultData.vote_counting_cap_percent = data.voteCountingCapPercent;
       if (data.vaultAppreciation) vaultData.vault_appreciation = data.vaultAppreciation;
       if (data.isExpandableAssetWhitelist !== undefined)
         vaultData.is_expandable_asset_whitelist = data.isExpandableAssetWhitelist;
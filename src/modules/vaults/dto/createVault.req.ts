@@ -33,6 +33,7 @@ import {
   VaultType,
   ChainType,
 } from '@/types/vault.types';
+import { VoteCountingStrategy } from '@/types/vote.types';
 
 export class CreateVaultReq {
   @ApiProperty({ required: false })
@@ -390,6 +391,33 @@ export class CreateVaultReq {
   @Expose()
   executionThreshold: number;
 
+  @ApiProperty({
+    description: 'How proposal votes are weighed. One-address-one-vote is only available for semi-private vaults',
+    enum: VoteCountingStrategy,
+    required: false,
+    default: VoteCountingStrategy.LINEAR,
+  })
+  @IsOptional()
+  @IsEnum(VoteCountingStrategy)
+  @Expose()
+  voteCountingStrategy?: VoteCountingStrategy;
+
+  @ApiProperty({
+    description: 'Maximum share of total voting power a single address can hold (required for capped strategy)',
+    required: false,
+    minimum: 1,
+    maximum: 100,
+    type: Number,
+  })
+  @ValidateIf(o => o.voteCountingStrategy === VoteCountingStrategy.CAPPED)
+  @IsNotEmpty()
+  @IsNumber()
+  @Type(() => Number)
+  @Min(1)
+  @Max(100)
+  @Expose()
+  voteCountingCapPercent?: number;
+
   @ApiProperty()
   @IsNotEmpty()
   @Expose()
@@ -11,6 +11,7 @@ export enum VaultActivityFilter {
   CONTRIBUTE = 'contribute',
   ACQUIRE = 'acquire',
   GOVERNANCE = 'governance',
+  STAKING = 'staking',
 }
 
 export class GetVaultActivityDto extends PaginationDto {
@@ -32,7 +33,7 @@ export class GetVaultActivityDto extends PaginationDto {
     required: false,
     default: VaultActivityFilter.ALL,
     description:
-      'Filter by activity type: all (transactions + proposals), contribute, acquire, or governance (proposals only)',
+      'Filter by activity type: all (transactions + proposals), contribute, acquire, governance (proposals only) or staking (treasury delegation transactions)',
   })
   @Expose()
   filter?: VaultActivityFilter = VaultActivityFilter.ALL;
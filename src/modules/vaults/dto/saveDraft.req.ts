@@ -24,6 +24,7 @@ import {
   VaultPrivacy,
   VaultType,
 } from '../../../types/vault.types';
+import { VoteCountingStrategy } from '../../../types/vote.types';
 import { ContributorWhitelist, AcquirerWhitelist, AcquirerWhitelistCsv, SocialLink } from '../types';
 
 import { AssetWhitelistDto } from './assetWhitelist.dto';
@@ -343,6 +344,35 @@ export class SaveDraftReq {
   @Expose()
   cosigningThreshold?: number | null;
 
+  @ApiProperty({
+    description: 'How proposal votes are weighed. One-address-one-vote is only available for semi-private vaults',
+    required: false,
+    nullable: true,
+    enum: VoteCountingStrategy,
+  })
+  @IsOptional()
+  @ValidateIf((o, v) => v !== null)
+  @IsEnum(VoteCountingStrategy)
+  @Expose()
+  voteCountingStrategy?: VoteCountingStrategy | null;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'Per-address cap for the capped strategy, between 1.00 and 100.00',
+    minimum: 1,
+    maximum: 100,
+    type: Number,
+  })
+  @IsOptional()
+  @ValidateIf((o, v) => v !== null)
+  @IsNumber()
+  @Type(() => Number)
+  @Min(1)
+  @Max(100)
+  @Expose()
+  voteCountingCapPercent?: number | null;
+
   @ApiProperty({ required: false, nullable: true })
   @IsOptional()
   @ValidateIf((o, v) => v !== null)
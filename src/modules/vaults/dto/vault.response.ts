@@ -12,6 +12,7 @@ import {
   VaultFailureReason,
   ChainType,
 } from '../../../types/vault.types';
+import { VoteCountingStrategy } from '../../../types/vote.types';
 
 import { AcquirerWhitelistEntity } from '@/database/acquirerWhitelist.entity';
 import { Asset } from '@/database/asset.entity';
@@ -725,6 +726,20 @@ export class VaultFullResponse extends VaultShortResponse {
   })
   cosigningThreshold?: number;
 
+  @ApiProperty({ description: 'Vote counting strategy', enum: VoteCountingStrategy, required: false })
+  @DtoRepresent({
+    transform: false,
+    expose: true,
+  })
+  voteCountingStrategy?: VoteCountingStrategy;
+
+  @ApiProperty({ description: 'Per-address cap for the capped vote counting strategy', required: false })
+  @DtoRepresent({
+    transform: false,
+    expose: true,
+  })
+  voteCountingCapPercent?: number;
+
   @ApiProperty({ description: 'Gains in ADA', required: false })
   @DtoRepresent({
     transform: ({ value }) => (value ? Number(value) : null),
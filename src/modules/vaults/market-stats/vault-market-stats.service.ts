@@ -9,6 +9,7 @@ import { Market } from '@/database/market.entity';
 import { Vault } from '@/database/vault.entity';
 import { DexHunterPricingClient } from '@/modules/dexhunter/dexhunter-pricing.client';
 import { DexHunterPricingService } from '@/modules/dexhunter/dexhunter-pricing.service';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
 import { MarketOhlcvSeries } from '@/modules/market/dto/market-ohlcv.dto';
 import { TapToolsClient } from '@/modules/taptools/taptools.client';
 import { TaptoolsService } from '@/modules/taptools/taptools.service';
@@ -70,6 +71,7 @@ export class VaultMarketStatsService {
    * Runs every 30 minutes
    */
   @Cron(CronExpression.EVERY_30_MINUTES)
+  @CoordinatedJob('vault-market-stats')
   async scheduledUpdateVaultTokensMarketStats(): Promise<void> {
     try {
       await this.updateVaultTokensMarketStats();
@@ -0,0 +1,302 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+
+import { DistributionService } from './distribution.service';
+import { DistributionPolicyDto } from './dto/distribution-policy.dto';
+import { DistributionBatchStatus } from './dto/distribution.dto';
+
+import { DistributionPolicy } from '@/database/distributionPolicy.entity';
+import { DistributionPolicyRun } from '@/database/distributionPolicyRun.entity';
+import { Proposal } from '@/database/proposal.entity';
+import { Snapshot } from '@/database/snapshot.entity';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
+import { DistributionPolicyRunStatus, DistributionPolicyStatus } from '@/types/distribution-policy.types';
+
+/**
+ * Recurring distributions approved once by a DISTRIBUTION_POLICY proposal.
+ *
+ * Each run pays out a share of the treasury ADA above the policy floor to the holders of the latest
+ * snapshot. A run slot is consumed before the payout starts, so a crash or restart mid-run never pays
+ * the same slot twice; runs with batches waiting for a retry are picked up by the same cron.
+ */
+@Injectable()
+export class DistributionPolicyService {
+  private readonly logger = new Logger(DistributionPolicyService.name);
+  private isProcessing = false;
+
+  constructor(
+    @InjectRepository(DistributionPolicy)
+    private readonly policyRepository: Repository<DistributionPolicy>,
+    @InjectRepository(DistributionPolicyRun)
+    private readonly runRepository: Repository<DistributionPolicyRun>,
+    @InjectRepository(Proposal)
+    private readonly proposalRepository: Repository<Proposal>,
+    @InjectRepository(Snapshot)
+    private readonly snapshotRepository: Repository<Snapshot>,
+    private readonly distributionService: DistributionService,
+    private readonly eventEmitter: EventEmitter2
+  ) {}
+
+  /**
+   * Creates the policy of a passed DISTRIBUTION_POLICY proposal; the first run is due immediately.
+   */
+  async activatePolicy(proposal: Proposal): Promise<DistributionPolicy> {
+    const terms = proposal.metadata?.distributionPolicy;
+
+    if (!terms) {
+      throw new Error(`Distribution policy proposal ${proposal.id} has no policy terms`);
+    }
+
+    const existing = await this.policyRepository.findOne({ where: { proposalId: proposal.id } });
+    if (existing) {
+      return existing;
+    }
+
+    const policy = await this.policyRepository.save(
+      this.policyRepository.create({
+        vaultId: proposal.vaultId,
+        proposalId: proposal.id,
+        status: DistributionPolicyStatus.ACTIVE,
+        percentOfExcess: terms.percentOfExcess.toString(),
+        floorLovelace: terms.floorLovelace,
+        intervalMs: terms.intervalMs.toString(),
+        runCount: terms.runCount,
+        runsCompleted: 0,
+        nextRunAt: new Date(),
+      })
+    );
+
+    this.logger.log(`Distribution policy ${policy.id} activated for vault ${proposal.vaultId}`);
+
+    return policy;
+  }
+
+  /**
+   * Revokes the policy targeted by a passed REVOKE_DISTRIBUTION_POLICY proposal.
+   * Runs already paid out stay as they are.
+   */
+  async revokePolicy(proposal: Proposal): Promise<void> {
+    const policyId = proposal.metadata?.revokeDistributionPolicyId;
+
+    const result = await this.policyRepository.update(
+      { id: policyId, vaultId: proposal.vaultId, status: DistributionPolicyStatus.ACTIVE },
+      {
+        status: DistributionPolicyStatus.REVOKED,
+        revokedByProposalId: proposal.id,
+        revokedAt: new Date(),
+        nextRunAt: null,
+      }
+    );
+
+    if (!result.affected) {
+      this.logger.warn(`Distribution policy ${policyId} was no longer active when proposal ${proposal.id} passed`);
+      return;
+    }
+
+    this.logger.log(`Distribution policy ${policyId} revoked by proposal ${proposal.id}`);
+  }
+
+  async findActivePolicy(vaultId: string, policyId?: string): Promise<DistributionPolicy | null> {
+    return this.policyRepository.findOne({
+      where: { vaultId, status: DistributionPolicyStatus.ACTIVE, ...(policyId && { id: policyId }) },
+    });
+  }
+
+  /**
+   * Policy of a DISTRIBUTION_POLICY proposal with its runs, for the proposal detail
+   */
+  async getPolicyForProposal(proposalId: string): Promise<DistributionPolicyDto | null> {
+    const policy = await this.policyRepository.findOne({
+      where: { proposalId },
+      relations: ['runs'],
+      order: { runs: { runNumber: 'ASC' } },
+    });
+
+    if (!policy) {
+      return null;
+    }
+
+    return {
+      id: policy.id,
+      status: policy.status,
+      percentOfExcess: Number(policy.percentOfExcess),
+      floorLovelace: policy.floorLovelace,
+      intervalMs: Number(policy.intervalMs),
+      runCount: policy.runCount,
+      runsCompleted: policy.runsCompleted,
+      nextRunAt: policy.nextRunAt,
+      revokedByProposalId: policy.revokedByProposalId,
+      runs: policy.runs.map(run => ({
+        id: run.id,
+        runNumber: run.runNumber,
+        status: run.status,
+        scheduledAt: run.scheduledAt,
+        treasuryLovelace: run.treasuryLovelace,
+        distributedLovelace: run.distributedLovelace,
+        recipientCount: run.recipientCount,
+        totalBatches: run.distribution?.batches.length ?? 0,
+        completedBatches: run.distribution?.completedBatches ?? 0,
+        error: run.error,
+        finishedAt: run.finishedAt,
+      })),
+    };
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  @CoordinatedJob('distribution-policies')
+  async processDuePolicies(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const duePolicies = await this.policyRepository.find({
+        where: { status: DistributionPolicyStatus.ACTIVE, nextRunAt: LessThanOrEqual(new Date()) },
+      });
+
+      for (const policy of duePolicies) {
+        try {
+          await this.runPolicy(policy);
+        } catch (error) {
+          this.logger.error(`Error running distribution policy ${policy.id}: ${error.message}`, error.stack);
+        }
+      }
+
+      await this.retryPartiallyFailedRuns();
+    } catch (error) {
+      this.logger.error(`processDuePolicies failed: ${error.message}`, error.stack);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async runPolicy(policy: DistributionPolicy): Promise<void> {
+    const proposal = await this.proposalRepository.findOne({
+      where: { id: policy.proposalId },
+      select: ['id', 'title', 'vaultId', 'snapshotId'],
+    });
+
+    const runNumber = policy.runsCompleted + 1;
+
+    // Unique (policy, run number) keeps two instances from running the same slot
+    const run = await this.runRepository.save(
+      this.runRepository.create({
+        policyId: policy.id,
+        runNumber,
+        status: DistributionPolicyRunStatus.RUNNING,
+        scheduledAt: policy.nextRunAt,
+        distributedLovelace: '0',
+        recipientCount: 0,
+      })
+    );
+
+    // Consume the slot before paying out; a missed interval is not caught up with back-to-back runs
+    const intervalMs = Number(policy.intervalMs);
+    const nextRunAt = new Date(Math.max(policy.nextRunAt.getTime() + intervalMs, Date.now() + intervalMs));
+    const isLastRun = runNumber >= policy.runCount;
+
+    await this.policyRepository.update(
+      { id: policy.id },
+      {
+        runsCompleted: runNumber,
+        nextRunAt: isLastRun ? null : nextRunAt,
+        status: isLastRun ? DistributionPolicyStatus.COMPLETED : DistributionPolicyStatus.ACTIVE,
+      }
+    );
+
+    this.logger.log(`Distribution policy ${policy.id}: starting run ${runNumber}/${policy.runCount}`);
+
+    try {
+      const info = await this.distributionService.getDistributionInfo(policy.vaultId);
+      const treasuryLovelace = BigInt(info.treasuryBalance.lovelace);
+      run.treasuryLovelace = treasuryLovelace.toString();
+
+      const amount = this.calculateRunAmount(policy, treasuryLovelace, info.maxDistributableAda);
+      const minLovelace = BigInt(Math.round(info.minAdaPerHolder * 1_000_000));
+
+      const snapshot = await this.snapshotRepository.findOne({
+        where: { vaultId: policy.vaultId },
+        order: { createdAt: 'DESC' },
+      });
+
+      if (!snapshot?.addressBalances) {
+        run.status = DistributionPolicyRunStatus.SKIPPED;
+        run.error = 'No snapshot available for the vault';
+      } else if (amount < minLovelace) {
+        run.status = DistributionPolicyRunStatus.SKIPPED;
+        run.error = `Treasury has ${treasuryLovelace} lovelace, not enough above the ${policy.floorLovelace} lovelace floor to distribute`;
+      } else {
+        run.snapshotId = snapshot.id;
+        run.status = await this.distributionService.executePolicyRun(run, proposal, snapshot.addressBalances, amount);
+
+        if (run.status === DistributionPolicyRunStatus.SKIPPED) {
+          run.error = 'No holder share reaches the minimum UTxO';
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Distribution policy ${policy.id} run ${runNumber} failed: ${error.message}`, error.stack);
+      run.status = DistributionPolicyRunStatus.FAILED;
+      run.error = error.message;
+    }
+
+    run.finishedAt = new Date();
+    await this.runRepository.save(run);
+
+    this.eventEmitter.emit('distribution.policy.run', {
+      policyId: policy.id,
+      proposalId: policy.proposalId,
+      vaultId: policy.vaultId,
+      runNumber,
+      status: run.status,
+      distributedLovelace: run.distributedLovelace,
+      recipientCount: run.recipientCount,
+    });
+  }
+
+  /**
+   * Share of the treasury above the floor, capped at what the treasury can pay after fee reserves
+   */
+  private calculateRunAmount(
+    policy: DistributionPolicy,
+    treasuryLovelace: bigint,
+    maxDistributableAda: number
+  ): bigint {
+    const floor = BigInt(policy.floorLovelace);
+    if (treasuryLovelace <= floor) {
+      return BigInt(0);
+    }
+
+    // Percent has two decimals, so basis points are exact
+    const basisPoints = BigInt(Math.round(Number(policy.percentOfExcess) * 100));
+    const amount = ((treasuryLovelace - floor) * basisPoints) / BigInt(10000);
+    const maxDistributable = BigInt(Math.floor(maxDistributableAda * 1_000_000));
+
+    return amount < maxDistributable ? amount : maxDistributable;
+  }
+
+  private async retryPartiallyFailedRuns(): Promise<void> {
+    const runs = await this.runRepository.find({
+      where: { status: DistributionPolicyRunStatus.PARTIALLY_FAILED },
+      relations: ['policy'],
+    });
+
+    for (const run of runs) {
+      if (!run.distribution?.batches.some(b => b.status === DistributionBatchStatus.RETRY_PENDING)) {
+        continue;
+      }
+
+      try {
+        const completed = await this.distributionService.retryPolicyRunBatches(run, run.policy.vaultId);
+
+        if (completed) {
+          await this.runRepository.update({ id: run.id }, { status: DistributionPolicyRunStatus.COMPLETED });
+          this.logger.log(`Distribution policy run ${run.id} fully completed after retry`);
+        }
+      } catch (error) {
+        this.logger.error(`Error retrying distribution policy run ${run.id}: ${error.message}`, error.stack);
+      }
+    }
+  }
+}
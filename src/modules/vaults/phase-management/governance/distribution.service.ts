@@ -1,12 +1,20 @@
 import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
-import { Address, FixedTransaction } from '@emurgo/cardano-serialization-lib-nodejs';
+import {
+  Address,
+  BigNum,
+  ByronAddress,
+  DataCost,
+  TransactionOutput,
+  min_ada_for_output,
+} from '@emurgo/cardano-serialization-lib-nodejs';
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
 import { InjectRepository } from '@nestjs/typeorm';
 import { In, Repository } from 'typeorm';
 
 import {
+  DistributionAssetAmount,
   DistributionBatch,
   DistributionBatchStatus,
   DistributionInfo,
@@ -15,17 +23,25 @@ import {
 } from './dto/distribution.dto';
 
 import { Claim } from '@/database/claim.entity';
+import { DistributionPolicyRun } from '@/database/distributionPolicyRun.entity';
 import { Proposal } from '@/database/proposal.entity';
 import { Snapshot } from '@/database/snapshot.entity';
 import { Transaction } from '@/database/transaction.entity';
 import { User } from '@/database/user.entity';
 import { Vault } from '@/database/vault.entity';
 import { BlockchainService } from '@/modules/vaults/processing-tx/onchain/blockchain.service';
-import { getUtxosExtract } from '@/modules/vaults/processing-tx/onchain/utils/lib';
+import { assetsToValue, getUtxosExtract } from '@/modules/vaults/processing-tx/onchain/utils/lib';
 import { TreasuryWalletService } from '@/modules/vaults/treasure/treasure-wallet.service';
+import { TreasuryMultisigService, TreasurySubmitResult } from '@/modules/vaults/treasure/treasury-multisig.service';
 import { DistributionClaimMetadata } from '@/types/claim-metadata.types';
 import { ClaimStatus, ClaimType } from '@/types/claim.types';
-import { TransactionStatus, TransactionType } from '@/types/transaction.types';
+import { DistributionPolicyRunStatus } from '@/types/distribution-policy.types';
+import {
+  TransactionLifecycleEvent,
+  TransactionRebuildResult,
+  TransactionStatus,
+  TransactionType,
+} from '@/types/transaction.types';
 
 export type DistributionStatus = 'pending' | 'in_progress' | 'completed' | 'partially_failed' | 'failed';
 
@@ -41,6 +57,8 @@ export class DistributionService {
   private readonly MAX_RETRY_ATTEMPTS = 3;
   private readonly BATCH_RETRY_DELAY_MS = 60_000; // 1 minute between retries
   private readonly FEE_RESERVE_PER_BATCH = 2_000_000; // 2 ADA buffer per batch (tx fees + min UTxO + safety margin)
+  private readonly MAX_BATCH_OUTPUTS_BYTES = 13_500; // Leaves room in the 16KB tx for inputs, change, witnesses and metadata
+  private readonly COINS_PER_UTXO_BYTE = '4310'; // Protocol parameter used for the minimum UTxO of token outputs
 
   constructor(
     @InjectRepository(Vault)
@@ -55,9 +73,12 @@ export class DistributionService {
     private readonly proposalRepository: Repository<Proposal>,
     @InjectRepository(Transaction)
     private readonly transactionRepository: Repository<Transaction>,
+    @InjectRepository(DistributionPolicyRun)
+    private readonly policyRunRepository: Repository<DistributionPolicyRun>,
     private readonly configService: ConfigService,
     private readonly blockchainService: BlockchainService,
     private readonly treasuryWalletService: TreasuryWalletService,
+    private readonly treasuryMultisigService: TreasuryMultisigService,
     private readonly eventEmitter: EventEmitter2
   ) {
     this.isMainnet = this.configService.get<string>('CARDANO_NETWORK') === 'mainnet';
@@ -78,7 +99,7 @@ export class DistributionService {
 
     if (!treasuryWallet) {
       return {
-        treasuryBalance: { lovelace: 0, lovelaceFormatted: '0' },
+        treasuryBalance: { lovelace: 0, lovelaceFormatted: '0', assets: [] },
         vtHolderCount: 0,
         minDistributableAda: 0,
         maxDistributableAda: 0,
@@ -100,7 +121,7 @@ export class DistributionService {
       );
 
       return {
-        treasuryBalance: { lovelace: 0, lovelaceFormatted: '0.000000' },
+        treasuryBalance: { lovelace: 0, lovelaceFormatted: '0.000000', assets: [] },
         vtHolderCount: 0,
         minDistributableAda: 0,
         maxDistributableAda: 0,
@@ -111,6 +132,7 @@ export class DistributionService {
     }
 
     const lovelaceFormatted = (balance.lovelace / 1_000_000).toFixed(6);
+    const treasuryAssets = balance.assets.map(asset => ({ unit: asset.unit, quantity: asset.quantity }));
 
     // Get latest snapshot for VT holders
     const snapshot = await this.snapshotRepository.findOne({
@@ -121,7 +143,7 @@ export class DistributionService {
     if (!snapshot || !snapshot.addressBalances) {
       warnings.push('No snapshot available. Create a proposal to generate a new snapshot.');
       return {
-        treasuryBalance: { lovelace: balance.lovelace, lovelaceFormatted },
+        treasuryBalance: { lovelace: balance.lovelace, lovelaceFormatted, assets: treasuryAssets },
         vtHolderCount: 0,
         minDistributableAda: 0,
         maxDistributableAda: balance.lovelace / 1_000_000,
@@ -163,7 +185,7 @@ export class DistributionService {
     }
 
     return {
-      treasuryBalance: { lovelace: balance.lovelace, lovelaceFormatted },
+      treasuryBalance: { lovelace: balance.lovelace, lovelaceFormatted, assets: treasuryAssets },
       vtHolderCount,
       minDistributableAda,
       maxDistributableAda,
@@ -175,10 +197,12 @@ export class DistributionService {
 
   /**
    * Validate distribution proposal parameters
+   * @param assets - Native tokens to distribute alongside the lovelace amount
    */
   async validateDistribution(
     vaultId: string,
-    lovelaceAmount: string
+    lovelaceAmount: string,
+    assets: DistributionAssetAmount[] = []
   ): Promise<{
     valid: boolean;
     errors: string[];
@@ -204,6 +228,10 @@ export class DistributionService {
       return { valid: false, errors, warnings };
     }
 
+    if (assets.length > 0) {
+      return this.validateMultiAssetDistribution(vaultId, amount, assets, info);
+    }
+
     // Check if amount exceeds max distributable (treasury balance minus fee reserve)
     const maxDistributableLovelace = BigInt(Math.floor(info.maxDistributableAda * 1_000_000));
     if (amount > maxDistributableLovelace) {
@@ -256,6 +284,87 @@ export class DistributionService {
     };
   }
 
+  /**
+   * Validate a distribution that includes native tokens
+   * Token outputs are topped up to the minimum UTxO from the treasury, so the exact recipient list is
+   * calculated from the latest snapshot (the one the proposal will use) to price the top-up
+   */
+  private async validateMultiAssetDistribution(
+    vaultId: string,
+    amount: bigint,
+    assets: DistributionAssetAmount[],
+    info: DistributionInfo
+  ): Promise<{
+    valid: boolean;
+    errors: string[];
+    warnings: string[];
+    recipientCount?: number;
+    lovelacePerHolder?: string;
+  }> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const asset of assets) {
+      const held = BigInt(info.treasuryBalance.assets.find(a => a.unit === asset.unit)?.quantity ?? '0');
+
+      if (BigInt(asset.quantity) <= BigInt(0)) {
+        errors.push(`Quantity of ${asset.unit} must be greater than 0`);
+      } else if (BigInt(asset.quantity) > held) {
+        errors.push(`Treasury holds ${held} of ${asset.unit}, cannot distribute ${asset.quantity}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { valid: false, errors, warnings };
+    }
+
+    const snapshot = await this.snapshotRepository.findOne({
+      where: { vaultId },
+      order: { createdAt: 'DESC' },
+    });
+    const recipients = await this.calculateDistributionAmounts(snapshot?.addressBalances || {}, amount, assets);
+
+    if (recipients.length === 0) {
+      errors.push('Distribution amounts too small. No holder would receive any of the distributed assets.');
+      return { valid: false, errors, warnings };
+    }
+
+    const minUtxoTopUp = recipients.reduce((sum, r) => sum + r.minUtxoTopUp, BigInt(0));
+    const maxDistributableLovelace = BigInt(Math.floor(info.maxDistributableAda * 1_000_000));
+
+    if (amount + minUtxoTopUp > maxDistributableLovelace) {
+      errors.push(
+        `Distribution needs ${Number(amount + minUtxoTopUp) / 1_000_000} ADA (including ${Number(minUtxoTopUp) / 1_000_000} ADA ` +
+          `to meet the minimum UTxO of token outputs) but max distributable is ${info.maxDistributableAda.toFixed(6)} ADA.`
+      );
+    } else if (minUtxoTopUp > BigInt(0)) {
+      warnings.push(
+        `${Number(minUtxoTopUp) / 1_000_000} ADA from the treasury is added to token outputs to meet the minimum UTxO.`
+      );
+    }
+
+    const skippedHolders = info.vtHolderCount - recipients.length;
+    if (skippedHolders > 0) {
+      warnings.push(`${skippedHolders} holder(s) have a share too small to receive any of the distributed assets.`);
+    }
+
+    const batchCount = this.estimateBatchCount(recipients);
+    if (batchCount > 10) {
+      warnings.push(
+        `Distribution will require ${batchCount} batch transactions due to ${recipients.length} recipients. ` +
+          `This may take some time to complete.`
+      );
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      recipientCount: recipients.length,
+      lovelacePerHolder: (amount / BigInt(recipients.length)).toString(),
+    };
+  }
+
   /**
    * Execute distribution proposal - creates claims and processes batches
    */
@@ -282,14 +391,15 @@ export class DistributionService {
       throw new Error(`Snapshot not found for proposal ${proposal.id}`);
     }
 
-    // Get distribution amount from proposal metadata
+    // Get distribution amounts from proposal metadata
     const lovelaceAmountStr = proposal.metadata?.distributionLovelaceAmount;
+    const assets = proposal.metadata?.distributionAssets || [];
 
-    if (!lovelaceAmountStr) {
+    if (!lovelaceAmountStr && assets.length === 0) {
       throw new Error('No distribution amount found in proposal metadata');
     }
 
-    const totalLovelace = BigInt(lovelaceAmountStr);
+    const totalLovelace = BigInt(lovelaceAmountStr || '0');
 
     // Get treasury wallet
     const treasuryWallet = await this.treasuryWalletService.getTreasuryWallet(vault.id);
@@ -299,12 +409,14 @@ export class DistributionService {
     }
 
     // Calculate distribution amounts for each holder
-    const recipients = await this.calculateDistributionAmounts(snapshot.addressBalances, totalLovelace);
+    const recipients = await this.calculateDistributionAmounts(snapshot.addressBalances, totalLovelace, assets);
 
     if (recipients.length === 0) {
       throw new Error('No valid recipients for distribution');
     }
 
+    const minUtxoTopUp = recipients.reduce((sum, r) => sum + r.minUtxoTopUp, BigInt(0));
+
     // Create claims for all recipients
     const claims = await this.createDistributionClaims(vault, proposal, recipients);
 
@@ -317,6 +429,10 @@ export class DistributionService {
       totalRecipients: recipients.length,
       lovelacePerHolder: (totalLovelace / BigInt(recipients.length)).toString(),
       minLovelacePerHolder: Math.min(...recipients.map(r => Number(r.lovelaceShare))).toString(),
+      ...(assets.length > 0 && {
+        assetsToDistribute: assets,
+        minUtxoTopUpLovelace: minUtxoTopUp.toString(),
+      }),
       batches,
       completedBatches: 0,
       failedBatches: 0,
@@ -330,9 +446,10 @@ export class DistributionService {
     await this.proposalRepository.save(proposal);
 
     // Process all batches
+    const persist = (): Promise<Proposal> => this.proposalRepository.save(proposal);
     let allSuccess = true;
     for (const batch of batches) {
-      const success = await this.processBatch(proposal, batch, treasuryWallet.address);
+      const success = await this.processBatch(distributionMetadata, batch, vault.id, treasuryWallet.address, persist);
 
       if (!success) {
         allSuccess = false;
@@ -354,6 +471,7 @@ export class DistributionService {
       proposalId: proposal.id,
       vaultId: vault.id,
       totalDistributed: totalLovelace.toString(),
+      assetsDistributed: assets,
       recipientCount: recipients.length,
       batchCount: batches.length,
       completedBatches: updatedMetadata.completedBatches,
@@ -398,9 +516,10 @@ export class DistributionService {
 
     let successCount = 0;
     let stillFailedCount = 0;
+    const persist = (): Promise<Proposal> => this.proposalRepository.save(proposal);
 
     for (const batch of failedBatches) {
-      const success = await this.processBatch(proposal, batch, treasuryWallet.address);
+      const success = await this.processBatch(distribution, batch, proposal.vaultId, treasuryWallet.address, persist);
 
       if (success) {
         successCount++;
@@ -420,11 +539,112 @@ export class DistributionService {
   }
 
   /**
-   * Calculate distribution amounts for each VT holder based on their holdings
+   * Execute one run of a recurring distribution policy
+   * Claims belong to the policy proposal; batch tracking is stored on the run instead of the proposal metadata
+   * @returns SKIPPED when no holder's share reaches the minimum, otherwise whether every batch went through
    */
-  private async calculateDistributionAmounts(
+  async executePolicyRun(
+    run: DistributionPolicyRun,
+    proposal: Proposal,
     addressBalances: Record<string, string>,
     totalLovelace: bigint
+  ): Promise<DistributionPolicyRunStatus> {
+    const vault = await this.vaultRepository.findOne({
+      where: { id: proposal.vaultId },
+    });
+
+    if (!vault) {
+      throw new Error(`Vault ${proposal.vaultId} not found`);
+    }
+
+    const treasuryWallet = await this.treasuryWalletService.getTreasuryWallet(vault.id);
+
+    if (!treasuryWallet) {
+      throw new Error(`No treasury wallet found for vault ${vault.id}`);
+    }
+
+    const recipients = await this.calculateDistributionAmounts(addressBalances, totalLovelace);
+
+    if (recipients.length === 0) {
+      return DistributionPolicyRunStatus.SKIPPED;
+    }
+
+    const claims = await this.createDistributionClaims(
+      vault,
+      proposal,
+      recipients,
+      `run ${run.runNumber} of distribution policy "${proposal.title}"`
+    );
+    const batches = this.createBatches(claims, run.id);
+    const distributedLovelace = recipients.reduce((sum, r) => sum + r.lovelaceShare, BigInt(0));
+
+    run.recipientCount = recipients.length;
+    run.distributedLovelace = distributedLovelace.toString();
+    run.distribution = {
+      totalLovelaceToDistribute: distributedLovelace.toString(),
+      totalRecipients: recipients.length,
+      lovelacePerHolder: (distributedLovelace / BigInt(recipients.length)).toString(),
+      minLovelacePerHolder: Math.min(...recipients.map(r => Number(r.lovelaceShare))).toString(),
+      batches,
+      completedBatches: 0,
+      failedBatches: 0,
+    };
+    await this.policyRunRepository.save(run);
+
+    const persist = (): Promise<DistributionPolicyRun> => this.policyRunRepository.save(run);
+    let allSuccess = true;
+    for (const batch of batches) {
+      const success = await this.processBatch(run.distribution, batch, vault.id, treasuryWallet.address, persist);
+
+      if (!success) {
+        allSuccess = false;
+      }
+
+      if (batches.indexOf(batch) < batches.length - 1) {
+        await this.delay(5000);
+      }
+    }
+
+    return allSuccess ? DistributionPolicyRunStatus.COMPLETED : DistributionPolicyRunStatus.PARTIALLY_FAILED;
+  }
+
+  /**
+   * Retry batches of a policy run that are waiting for a retry
+   * @returns Whether every batch of the run has now completed
+   */
+  async retryPolicyRunBatches(run: DistributionPolicyRun, vaultId: string): Promise<boolean> {
+    const treasuryWallet = await this.treasuryWalletService.getTreasuryWallet(vaultId);
+    if (!treasuryWallet || !run.distribution) {
+      return false;
+    }
+
+    const persist = (): Promise<DistributionPolicyRun> => this.policyRunRepository.save(run);
+    const pendingBatches = run.distribution.batches.filter(b => b.status === DistributionBatchStatus.RETRY_PENDING);
+
+    for (const batch of pendingBatches) {
+      await this.processBatch(run.distribution, batch, vaultId, treasuryWallet.address, persist);
+      await this.delay(this.BATCH_RETRY_DELAY_MS);
+    }
+
+    return run.distribution.completedBatches === run.distribution.batches.length;
+  }
+
+  /**
+   * Number of transactions needed to pay the given recipients
+   */
+  estimateBatchCount(recipients: DistributionRecipient[]): number {
+    return this.splitIntoBatches(recipients, r =>
+      this.estimateOutputSize(r.address, r.lovelaceShare, this.toAssetAmounts(r.assetShares))
+    ).length;
+  }
+
+  /**
+   * Calculate distribution amounts for each VT holder based on their holdings
+   */
+  async calculateDistributionAmounts(
+    addressBalances: Record<string, string>,
+    totalLovelace: bigint,
+    assets: DistributionAssetAmount[] = []
   ): Promise<DistributionRecipient[]> {
     const recipients: DistributionRecipient[] = [];
 
@@ -435,7 +655,7 @@ export class DistributionService {
       return recipients;
     }
 
-    const eligibleAddresses: { address: string; vtBalance: bigint; lovelaceShare: bigint }[] = [];
+    const eligibleAddresses: Omit<DistributionRecipient, 'userId'>[] = [];
 
     for (const [address, balance] of Object.entries(addressBalances)) {
       const vtBalance = BigInt(balance);
@@ -443,15 +663,33 @@ export class DistributionService {
       if (vtBalance === BigInt(0)) continue;
 
       const lovelaceShare = (totalLovelace * vtBalance) / totalVtSupply;
-
-      if (lovelaceShare < BigInt(this.MIN_ADA_PER_RECIPIENT)) {
-        this.logger.warn(
-          `Skipping address ${address} - share ${lovelaceShare} below minimum ${this.MIN_ADA_PER_RECIPIENT}`
-        );
+      const assetShares = assets
+        .map(asset => ({ unit: asset.unit, quantity: (BigInt(asset.quantity) * vtBalance) / totalVtSupply }))
+        .filter(share => share.quantity > BigInt(0));
+
+      // ADA-only outputs below the minimum are skipped; token outputs are topped up to their minimum UTxO
+      if (assetShares.length === 0) {
+        if (lovelaceShare < BigInt(this.MIN_ADA_PER_RECIPIENT)) {
+          this.logger.warn(
+            `Skipping address ${address} - share ${lovelaceShare} below minimum ${this.MIN_ADA_PER_RECIPIENT}`
+          );
+          continue;
+        }
+
+        eligibleAddresses.push({ address, vtBalance, lovelaceShare, assetShares, minUtxoTopUp: BigInt(0) });
         continue;
       }
 
-      eligibleAddresses.push({ address, vtBalance, lovelaceShare });
+      const minUtxo = this.calculateMinUtxo(address, this.toAssetAmounts(assetShares));
+      const minUtxoTopUp = lovelaceShare < minUtxo ? minUtxo - lovelaceShare : BigInt(0);
+
+      eligibleAddresses.push({
+        address,
+        vtBalance,
+        lovelaceShare: lovelaceShare + minUtxoTopUp,
+        assetShares,
+        minUtxoTopUp,
+      });
     }
 
     if (eligibleAddresses.length === 0) {
@@ -466,32 +704,115 @@ export class DistributionService {
 
     const addressToUserIdMap = new Map(users.map(u => [u.address, u.id]));
 
-    for (const { address, vtBalance, lovelaceShare } of eligibleAddresses) {
+    for (const eligible of eligibleAddresses) {
       recipients.push({
-        address,
-        vtBalance,
-        lovelaceShare,
-        userId: addressToUserIdMap.get(address),
+        ...eligible,
+        userId: addressToUserIdMap.get(eligible.address),
       });
     }
 
     return recipients;
   }
 
+  /**
+   * Minimum lovelace an output carrying the given tokens to the address must hold
+   */
+  private calculateMinUtxo(address: string, assets: DistributionAssetAmount[]): bigint {
+    const output = TransactionOutput.new(
+      this.parseAddress(address),
+      assetsToValue([{ unit: 'lovelace', quantity: String(this.MIN_ADA_PER_RECIPIENT) }, ...assets])
+    );
+    const minAda = min_ada_for_output(output, DataCost.new_coins_per_byte(BigNum.from_str(this.COINS_PER_UTXO_BYTE)));
+
+    return BigInt(minAda.to_str());
+  }
+
+  /**
+   * Serialized size of a distribution output, used to keep batches under the transaction size limit
+   */
+  private estimateOutputSize(address: string, lovelace: bigint, assets: DistributionAssetAmount[]): number {
+    const output = TransactionOutput.new(
+      this.parseAddress(address),
+      assetsToValue([{ unit: 'lovelace', quantity: lovelace.toString() }, ...assets])
+    );
+
+    return output.to_bytes().length;
+  }
+
+  /**
+   * Snapshot addresses are bech32, except for the odd legacy Byron holder
+   */
+  private parseAddress(address: string): Address {
+    return ByronAddress.is_valid(address)
+      ? ByronAddress.from_base58(address).to_address()
+      : Address.from_bech32(address);
+  }
+
+  /**
+   * Group outputs into transactions by recipient count and serialized size
+   */
+  private splitIntoBatches<T>(items: T[], outputSize: (item: T) => number): T[][] {
+    const batches: T[][] = [];
+    let current: T[] = [];
+    let currentSize = 0;
+
+    for (const item of items) {
+      const size = outputSize(item);
+
+      if (
+        current.length > 0 &&
+        (current.length >= this.MAX_RECIPIENTS_PER_BATCH || currentSize + size > this.MAX_BATCH_OUTPUTS_BYTES)
+      ) {
+        batches.push(current);
+        current = [];
+        currentSize = 0;
+      }
+
+      current.push(item);
+      currentSize += size;
+    }
+
+    if (current.length > 0) {
+      batches.push(current);
+    }
+
+    return batches;
+  }
+
+  private toAssetAmounts(shares: Array<{ unit: string; quantity: bigint }>): DistributionAssetAmount[] {
+    return shares.map(share => ({ unit: share.unit, quantity: share.quantity.toString() }));
+  }
+
+  /**
+   * Sum token quantities per unit
+   */
+  private sumAssets(assetLists: DistributionAssetAmount[][]): DistributionAssetAmount[] {
+    const totals = new Map<string, bigint>();
+
+    for (const asset of assetLists.flat()) {
+      totals.set(asset.unit, (totals.get(asset.unit) ?? BigInt(0)) + BigInt(asset.quantity));
+    }
+
+    return Array.from(totals, ([unit, quantity]) => ({ unit, quantity: quantity.toString() }));
+  }
+
   /**
    * Create distribution claims for all recipients
    */
   private async createDistributionClaims(
     vault: Vault,
     proposal: Proposal,
-    recipients: DistributionRecipient[]
+    recipients: DistributionRecipient[],
+    source = `proposal "${proposal.title}"`
   ): Promise<Claim[]> {
     const claims: Partial<Claim>[] = [];
 
     for (const recipient of recipients) {
       const metadata: DistributionClaimMetadata = {
         address: recipient.address,
+        ...(recipient.assetShares.length > 0 && { assets: this.toAssetAmounts(recipient.assetShares) }),
       };
+      const tokenNote = recipient.assetShares.length > 0 ? ` and ${recipient.assetShares.length} native token(s)` : '';
 
       claims.push({
         user_id: recipient.userId,
@@ -501,7 +822,7 @@ export class DistributionService {
         status: ClaimStatus.PENDING, // Will be updated to AVAILABLE after successful tx
         amount: 0, // Not used for distribution claims
         lovelace_amount: Number(recipient.lovelaceShare),
-        description: `Distribution of ${Number(recipient.lovelaceShare) / 1_000_000} ADA from proposal "${proposal.title}"`,
+        description: `Distribution of ${Number(recipient.lovelaceShare) / 1_000_000} ADA${tokenNote} from ${source}`,
         metadata,
       });
     }
@@ -516,47 +837,55 @@ export class DistributionService {
 
   /**
    * Split claims into batches for transaction processing
+   * Batches are bounded by recipient count and by the serialized size of their outputs
+   * @param batchIdPrefix - Proposal ID, or run ID for recurring distribution runs
    */
-  private createBatches(claims: Claim[], proposalId: string): DistributionBatch[] {
-    const batches: DistributionBatch[] = [];
-    const totalBatches = Math.ceil(claims.length / this.MAX_RECIPIENTS_PER_BATCH);
-
-    for (let i = 0; i < totalBatches; i++) {
-      const batchClaims = claims.slice(i * this.MAX_RECIPIENTS_PER_BATCH, (i + 1) * this.MAX_RECIPIENTS_PER_BATCH);
+  private createBatches(claims: Claim[], batchIdPrefix: string): DistributionBatch[] {
+    const claimGroups = this.splitIntoBatches(claims, claim => {
+      const metadata = claim.metadata as DistributionClaimMetadata;
+      return this.estimateOutputSize(metadata.address, BigInt(claim.lovelace_amount || 0), metadata.assets || []);
+    });
 
+    return claimGroups.map((batchClaims, i) => {
       const totalLovelace = batchClaims.reduce((sum, c) => sum + BigInt(c.lovelace_amount || 0), BigInt(0));
+      const assets = this.sumAssets(batchClaims.map(c => (c.metadata as DistributionClaimMetadata).assets || []));
 
-      batches.push({
-        batchId: `${proposalId}-batch-${i + 1}`,
+      return {
+        batchId: `${batchIdPrefix}-batch-${i + 1}`,
         batchNumber: i + 1,
-        totalBatches,
+        totalBatches: claimGroups.length,
         recipientCount: batchClaims.length,
         lovelaceAmount: totalLovelace.toString(),
+        ...(assets.length > 0 && { assets }),
         status: DistributionBatchStatus.PENDING,
         claimIds: batchClaims.map(c => c.id),
         retryCount: 0,
-      });
-    }
-
-    return batches;
+      };
+    });
   }
 
   /**
    * Process a single distribution batch
    * Creates a Transaction entity to track the tx hash
+   * @param persist - Saves the entity holding the distribution tracking (proposal or policy run)
    */
-  private async processBatch(proposal: Proposal, batch: DistributionBatch, treasuryAddress: string): Promise<boolean> {
-    const distribution = proposal.metadata.distribution as DistributionMetadata;
-
+  private async processBatch(
+    distribution: DistributionMetadata,
+    batch: DistributionBatch,
+    vaultId: string,
+    treasuryAddress: string,
+    persist: () => Promise<unknown>
+  ): Promise<boolean> {
     // Update batch status to processing
     batch.status = DistributionBatchStatus.PROCESSING;
     batch.lastAttempt = new Date().toISOString();
-    await this.proposalRepository.save(proposal);
+    await persist();
 
     this.logger.log(
       `Processing batch ${batch.batchNumber}/${batch.totalBatches} with ${batch.recipientCount} recipients`
     );
 
+    let transaction: Transaction | undefined;
     try {
       // Get claims for this batch
       const claims = await this.claimRepository.find({
@@ -567,43 +896,63 @@ export class DistributionService {
         throw new Error(`No claims found for batch ${batch.batchId}`);
       }
 
-      // Build and submit the distribution transaction
-      const txHash = await this.buildAndSubmitDistributionTx(treasuryAddress, proposal.vaultId, claims);
-
-      // Create transaction record
+      // Create transaction record before submission so a multisig treasury can link its pending spend to it
       // Convert lovelace to ADA for the amount field (must be integer if column is bigint)
       const amountInAda = Math.floor(Number(batch.lovelaceAmount) / 1_000_000);
-      const transaction = await this.transactionRepository.save({
+      transaction = await this.transactionRepository.save({
         type: TransactionType.distribution,
-        status: TransactionStatus.submitted,
-        vault_id: proposal.vaultId,
-        tx_hash: txHash,
+        status: TransactionStatus.created,
+        vault_id: vaultId,
         amount: amountInAda,
         metadata: {
           batchId: batch.batchId,
           recipientCount: claims.length,
           lovelaceAmount: batch.lovelaceAmount, // Store exact lovelace amount in metadata
+          ...(batch.assets && { assets: batch.assets }),
         },
       });
 
+      // Build and submit the distribution transaction
+      const { txHash, status } = await this.buildAndSubmitDistributionTx(
+        treasuryAddress,
+        vaultId,
+        claims,
+        transaction.id
+      );
+      await this.transactionRepository.update({ id: transaction.id }, { tx_hash: txHash, status });
+
       // Update claims with transaction reference
       for (let i = 0; i < claims.length; i++) {
         const claim = claims[i];
-        claim.status = ClaimStatus.CLAIMED;
         claim.distribution_tx_id = transaction.id;
         const currentMetadata = claim.metadata as DistributionClaimMetadata;
         claim.metadata = {
           address: currentMetadata.address,
+          ...(currentMetadata.assets && { assets: currentMetadata.assets }),
           batchId: batch.batchId,
         };
       }
+
+      batch.transactionId = transaction.id;
+
+      if (status === TransactionStatus.pending) {
+        // Claims stay pending until the cosigners reach the threshold (see handleMultisigSubmitted)
+        await this.claimRepository.save(claims);
+        batch.status = DistributionBatchStatus.AWAITING_SIGNATURES;
+        await persist();
+
+        this.logger.log(`Batch ${batch.batchNumber} awaiting treasury cosigner witnesses: ${txHash}`);
+
+        return true;
+      }
+
+      claims.forEach(claim => (claim.status = ClaimStatus.CLAIMED));
       await this.claimRepository.save(claims);
 
       // Update batch status with transaction reference
       batch.status = DistributionBatchStatus.COMPLETED;
-      batch.transactionId = transaction.id;
       distribution.completedBatches++;
-      await this.proposalRepository.save(proposal);
+      await persist();
 
       this.logger.log(`Batch ${batch.batchNumber} completed successfully: ${txHash}`);
 
@@ -611,42 +960,58 @@ export class DistributionService {
     } catch (error) {
       this.logger.error(`Batch ${batch.batchNumber} failed: ${error.message}`, error.stack);
 
-      batch.retryCount++;
-      batch.error = error.message;
-
-      if (batch.retryCount >= this.MAX_RETRY_ATTEMPTS) {
-        batch.status = DistributionBatchStatus.FAILED;
-        distribution.failedBatches++;
-
-        // Mark claims as failed
-        await this.claimRepository.update(batch.claimIds, {
-          status: ClaimStatus.FAILED,
-        });
-      } else {
-        batch.status = DistributionBatchStatus.RETRY_PENDING;
+      if (transaction) {
+        await this.transactionRepository.update({ id: transaction.id }, { status: TransactionStatus.failed });
       }
 
-      await this.proposalRepository.save(proposal);
+      await this.markBatchFailed(distribution, batch, error.message, persist);
 
       return false;
     }
   }
 
+  /**
+   * Count a failed attempt; the batch is retried until MAX_RETRY_ATTEMPTS, then its claims fail
+   */
+  private async markBatchFailed(
+    distribution: DistributionMetadata,
+    batch: DistributionBatch,
+    error: string,
+    persist: () => Promise<unknown>
+  ): Promise<void> {
+    batch.retryCount++;
+    batch.error = error;
+
+    if (batch.retryCount >= this.MAX_RETRY_ATTEMPTS) {
+      batch.status = DistributionBatchStatus.FAILED;
+      distribution.failedBatches++;
+
+      // Mark claims as failed
+      await this.claimRepository.update(batch.claimIds, {
+        status: ClaimStatus.FAILED,
+      });
+    } else {
+      batch.status = DistributionBatchStatus.RETRY_PENDING;
+    }
+
+    await persist();
+  }
+
   /**
    * Build and submit the distribution transaction
    */
   private async buildAndSubmitDistributionTx(
     treasuryAddress: string,
     vaultId: string,
-    claims: Claim[]
-  ): Promise<string> {
-    // Get treasury wallet keys
-    const { privateKey: treasuryPrivateKey, stakePrivateKey: treasuryStakeKey } =
-      await this.treasuryWalletService.getTreasuryWalletPrivateKey(vaultId);
-    const treasuryPubKeyHash = treasuryPrivateKey.to_public().hash().to_hex();
+    claims: Claim[],
+    transactionId: string
+  ): Promise<TreasurySubmitResult> {
+    const treasuryWallet = await this.treasuryWalletService.getTreasuryWallet(vaultId);
 
+    // Inputs of multisig spends still collecting witnesses are reserved
     const { utxos: treasuryUtxos } = await getUtxosExtract(Address.from_bech32(treasuryAddress), this.blockfrost, {
       validateUtxos: false,
+      excludeUtxoRefs: await this.treasuryMultisigService.getReservedUtxoRefs(vaultId),
     });
 
     const outputs = claims.map(claim => {
@@ -661,6 +1026,14 @@ export class DistributionService {
       return {
         address: recipientAddress,
         lovelace: claim.lovelace_amount.toString(),
+        ...(metadata.assets?.length && {
+          assets: metadata.assets.map(asset => ({
+            policyId: asset.unit.slice(0, 56),
+            assetName: { name: asset.unit.slice(56), format: 'hex' as const },
+            // Kept as a string: token amounts can exceed Number precision
+            quantity: asset.quantity,
+          })),
+        }),
       };
     });
 
@@ -670,7 +1043,7 @@ export class DistributionService {
       utxos: treasuryUtxos,
       message: `Distribution for vault ${vaultId}`,
       outputs,
-      requiredSigners: [treasuryPubKeyHash],
+      requiredSigners: [treasuryWallet.publicKeyHash],
       validityInterval: {
         start: true,
         end: true,
@@ -681,17 +1054,133 @@ export class DistributionService {
     // Build transaction
     const buildResponse = await this.blockchainService.buildTransaction(txInput);
 
-    // Sign with both treasury and admin keys
-    const txToSubmit = FixedTransaction.from_bytes(Buffer.from(buildResponse.complete, 'hex'));
-    txToSubmit.sign_and_add_vkey_signature(treasuryPrivateKey);
-    txToSubmit.sign_and_add_vkey_signature(treasuryStakeKey);
+    // Sign with the treasury keys and submit; a multisig treasury keeps it pending for cosigners
+    return this.treasuryMultisigService.submitTreasuryTransaction(vaultId, buildResponse.complete, {
+      purpose: 'distribution',
+      transactionId,
+    });
+  }
+
+  /**
+   * Complete a batch whose multisig treasury transaction reached its signature threshold
+   */
+  @OnEvent('treasury.multisig.submitted')
+  async handleMultisigSubmitted(event: { transactionId?: string; purpose: string }): Promise<void> {
+    if (event.purpose !== 'distribution' || !event.transactionId) {
+      return;
+    }
+
+    const tracked = await this.findBatchByTransaction(event.transactionId);
+    if (!tracked || tracked.batch.status !== DistributionBatchStatus.AWAITING_SIGNATURES) {
+      return;
+    }
+
+    await this.claimRepository.update(tracked.batch.claimIds, { status: ClaimStatus.CLAIMED });
+
+    tracked.batch.status = DistributionBatchStatus.COMPLETED;
+    tracked.distribution.completedBatches++;
+    await tracked.persist();
+
+    this.logger.log(`Batch ${tracked.batch.batchId} completed after collecting treasury cosigner witnesses`);
+  }
+
+  /**
+   * A multisig batch that expired or was rejected goes back to the retry flow with its claims unlinked
+   */
+  @OnEvent('treasury.multisig.expired')
+  @OnEvent('treasury.multisig.failed')
+  async handleMultisigAbandoned(event: { transactionId?: string; purpose: string; error?: string }): Promise<void> {
+    if (event.purpose !== 'distribution' || !event.transactionId) {
+      return;
+    }
+
+    const tracked = await this.findBatchByTransaction(event.transactionId);
+    if (!tracked || tracked.batch.status !== DistributionBatchStatus.AWAITING_SIGNATURES) {
+      return;
+    }
+
+    await this.claimRepository.update(tracked.batch.claimIds, { distribution_tx_id: null });
+
+    await this.markBatchFailed(
+      tracked.distribution,
+      tracked.batch,
+      event.error ?? 'Treasury cosigner witnesses were not collected before the transaction expired',
+      tracked.persist
+    );
+  }
+
+  /**
+   * A submitted batch whose transaction expired unconfirmed (inputs still unspent, see TransactionTrackerService)
+   * never paid anyone: its claims go back to pending and the batch back to the retry flow, which rebuilds it
+   * from current treasury UTxOs
+   */
+  @OnEvent('transaction.expired')
+  async handleTransactionExpired(event: TransactionLifecycleEvent): Promise<TransactionRebuildResult | undefined> {
+    if (event.type !== TransactionType.distribution) {
+      return undefined;
+    }
+
+    const tracked = await this.findBatchByTransaction(event.transactionId);
+    if (!tracked || tracked.batch.status !== DistributionBatchStatus.COMPLETED) {
+      return undefined;
+    }
 
-    // Submit transaction
-    const submitResponse = await this.blockchainService.submitTransaction({
-      transaction: txToSubmit.to_hex(),
+    await this.claimRepository.update(tracked.batch.claimIds, {
+      status: ClaimStatus.PENDING,
+      distribution_tx_id: null,
     });
 
-    return submitResponse.txHash;
+    tracked.distribution.completedBatches--;
+    await this.markBatchFailed(
+      tracked.distribution,
+      tracked.batch,
+      `Transaction ${event.txHash} expired before confirmation`,
+      tracked.persist
+    );
+
+    this.logger.warn(`Batch ${tracked.batch.batchId} requeued after its transaction ${event.txHash} expired`);
+
+    return { requeued: true };
+  }
+
+  /**
+   * Locate the proposal or policy run tracking the batch paid by a Transaction row
+   */
+  private async findBatchByTransaction(transactionId: string): Promise<{
+    distribution: DistributionMetadata;
+    batch: DistributionBatch;
+    persist: () => Promise<unknown>;
+  } | null> {
+    const batchFilter = JSON.stringify([{ transactionId }]);
+
+    const proposal = await this.proposalRepository
+      .createQueryBuilder('p')
+      .where(`p.metadata -> 'distribution' -> 'batches' @> :batchFilter::jsonb`, { batchFilter })
+      .getOne();
+
+    if (proposal) {
+      const distribution = proposal.metadata.distribution as DistributionMetadata;
+      return {
+        distribution,
+        batch: distribution.batches.find(b => b.transactionId === transactionId),
+        persist: () => this.proposalRepository.save(proposal),
+      };
+    }
+
+    const run = await this.policyRunRepository
+      .createQueryBuilder('r')
+      .where(`r.distribution -> 'batches' @> :batchFilter::jsonb`, { batchFilter })
+      .getOne();
+
+    if (run) {
+      return {
+        distribution: run.distribution,
+        batch: run.distribution.batches.find(b => b.transactionId === transactionId),
+        persist: () => this.policyRunRepository.save(run),
+      };
+    }
+
+    return null;
   }
 
   /**
@@ -734,7 +1223,11 @@ export class DistributionService {
       status = 'failed';
     } else if (distribution.failedBatches > 0) {
       status = 'partially_failed';
-    } else if (distribution.completedBatches > 0 || pendingRetry > 0) {
+    } else if (
+      distribution.completedBatches > 0 ||
+      pendingRetry > 0 ||
+      distribution.batches.some(b => b.status === DistributionBatchStatus.AWAITING_SIGNATURES)
+    ) {
       status = 'in_progress';
     } else {
       status = 'pending';
@@ -12,11 +12,21 @@ import {
   IsNumberString,
   Matches,
   ArrayMinSize,
+  ArrayMaxSize,
+  IsIn,
+  IsUUID,
   ValidateIf,
+  IsBoolean,
+  IsInt,
+  Min,
 } from 'class-validator';
 
+import { DistributionPolicyTermsDto } from './distribution-policy.dto';
+
 import { AssetWhitelistDto } from '@/modules/vaults/dto/assetWhitelist.dto';
-import { MarketplaceAction, ProposalType } from '@/types/proposal.types';
+import { COMPOSITE_STEP_TYPES, CompositeStepType, MarketplaceAction, ProposalType } from '@/types/proposal.types';
+
+const STAKE_POOL_ID_REGEX = /^pool1[02-9ac-hj-np-z]{51}$/;
 
 // Common FT asset class for staking
 export class FungibleTokenDto {
@@ -42,6 +52,21 @@ export class NonFungibleTokenDto {
   market: string;
 }
 
+// Native token paid out by a distribution, pro-rata to VT holders
+export class DistributionAssetDto {
+  @ApiProperty({
+    description: 'Policy ID + hex asset name',
+    example: 'a0028f350aaabe0545fdcb56b039bfb08e4bb4d8c4d7c3c7d481c235484f534b59',
+  })
+  @IsString()
+  @Matches(/^[0-9a-f]{56}([0-9a-f]{2}){0,32}$/, { message: 'unit must be a policy ID followed by a hex asset name' })
+  unit: string;
+
+  @ApiProperty({ description: 'Total quantity to distribute', example: '1000000' })
+  @IsNumberString({ no_symbols: true })
+  quantity: string;
+}
+
 export class MarketplaceAssetDto {
   @ApiProperty({
     description: 'Marketplace action type',
@@ -292,6 +317,101 @@ export class ExpansionPolicyIdDto {
   label?: string;
 }
 
+// Multisig treasury cosigners; the platform key and the vault owner are added when the multisig is enabled
+export class TreasurySignersDto {
+  @ApiProperty({
+    description: 'Addresses of the holder cosigners',
+    type: [String],
+    example: [
+      'addr1qx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgse35a3x',
+    ],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @Expose()
+  holderAddresses: string[];
+
+  @ApiProperty({
+    description: 'Owner and holder signatures required on top of the platform signature',
+    example: 2,
+  })
+  @IsInt()
+  @Min(1)
+  @Expose()
+  cosignerThreshold: number;
+}
+
+// Single step of a composite proposal; fields mirror the top-level fields of its type
+export class ProposalActionDto {
+  @ApiProperty({
+    description: 'Proposal type this step executes',
+    enum: COMPOSITE_STEP_TYPES,
+    example: ProposalType.MARKETPLACE_ACTION,
+  })
+  @IsIn(COMPOSITE_STEP_TYPES)
+  type: CompositeStepType;
+
+  @ApiProperty({ description: 'Fungible tokens for a staking step', type: [FungibleTokenDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => FungibleTokenDto)
+  fts?: FungibleTokenDto[];
+
+  @ApiProperty({ description: 'Non-fungible tokens for a staking step', type: [NonFungibleTokenDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => NonFungibleTokenDto)
+  nfts?: NonFungibleTokenDto[];
+
+  @ApiProperty({ description: 'Stake pool to delegate the treasury to for a staking step', required: false })
+  @IsOptional()
+  @Matches(STAKE_POOL_ID_REGEX, { message: 'Stake pool ID must be a bech32 pool ID (pool1...)' })
+  stakePoolId?: string;
+
+  @ApiProperty({ description: 'Withdraw accrued treasury rewards for a staking step', required: false })
+  @IsOptional()
+  @IsBoolean()
+  withdrawStakingRewards?: boolean;
+
+  @ApiProperty({ description: 'Amount to distribute in lovelace for a distribution step', required: false })
+  @IsOptional()
+  @IsNumber()
+  distributionLovelaceAmount?: number;
+
+  @ApiProperty({
+    description: 'Native tokens to distribute for a distribution step',
+    type: [DistributionAssetDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => DistributionAssetDto)
+  distributionAssets?: DistributionAssetDto[];
+
+  @ApiProperty({
+    description: 'Marketplace actions for a marketplace step',
+    type: [MarketplaceActionDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => MarketplaceActionDto)
+  marketplaceActions?: MarketplaceActionDto[];
+
+  @ApiProperty({ description: 'Asset IDs to burn for a burning step', type: [String], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  burnAssets?: string[];
+}
+
 export class AssetWhitelistProposalDto extends OmitType(AssetWhitelistDto, ['countCapMin', 'countCapMax'] as const) {}
 
 export class CreateProposalReq {
@@ -369,6 +489,26 @@ export class CreateProposalReq {
   @Expose()
   nfts?: NonFungibleTokenDto[];
 
+  @ApiProperty({
+    description: 'Stake pool (bech32 pool ID) to delegate the treasury wallet to for staking proposals',
+    example: 'pool1pu5jlj4q9w9jlxeu370a3c9myx47md5j5m2str0naunn2q3lkdy',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(STAKE_POOL_ID_REGEX, { message: 'Stake pool ID must be a bech32 pool ID (pool1...)' })
+  @Expose()
+  stakePoolId?: string;
+
+  @ApiProperty({
+    description: 'Withdraw the staking rewards accrued by the treasury before delegating (staking proposals)',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Expose()
+  withdrawStakingRewards?: boolean;
+
   @ApiProperty({
     description: 'Amount to distribute in lovelace for distribution proposals (1 ADA = 1,000,000 lovelace)',
     example: 100000000,
@@ -379,6 +519,20 @@ export class CreateProposalReq {
   @Expose()
   distributionLovelaceAmount?: number;
 
+  @ApiProperty({
+    description:
+      'Native tokens from the treasury to distribute alongside the lovelace amount for distribution proposals',
+    type: [DistributionAssetDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20, { message: 'At most 20 different tokens can be distributed in one proposal' })
+  @ValidateNested({ each: true })
+  @Type(() => DistributionAssetDto)
+  @Expose()
+  distributionAssets?: DistributionAssetDto[];
+
   @ApiProperty({
     description: 'Marketplace actions for marketplace proposals (buy, offer, cancel offer, sell, unlist, update)',
     type: [MarketplaceActionDto],
@@ -545,6 +699,65 @@ export class CreateProposalReq {
   @Expose()
   assetsWhitelist?: AssetWhitelistProposalDto[];
 
+  @ApiProperty({
+    description: 'Ordered steps for composite proposals, executed one after another once the proposal passes',
+    type: [ProposalActionDto],
+    required: false,
+  })
+  @ValidateIf(o => o.type === ProposalType.COMPOSITE)
+  @IsArray()
+  @ArrayMinSize(2, { message: 'Composite proposals need at least two actions' })
+  @ArrayMaxSize(10, { message: 'Composite proposals can have at most 10 actions' })
+  @ValidateNested({ each: true })
+  @Type(() => ProposalActionDto)
+  @Expose()
+  actions?: ProposalActionDto[];
+
+  @ApiProperty({
+    description: 'Terms of the recurring distribution for distribution policy proposals',
+    type: DistributionPolicyTermsDto,
+    required: false,
+  })
+  @ValidateIf(o => o.type === ProposalType.DISTRIBUTION_POLICY)
+  @IsNotEmpty({ message: 'Policy terms are required for distribution policy proposals' })
+  @ValidateNested()
+  @Type(() => DistributionPolicyTermsDto)
+  @Expose()
+  distributionPolicy?: DistributionPolicyTermsDto;
+
+  @ApiProperty({
+    description: 'ID of the active distribution policy to stop, for revoke distribution policy proposals',
+    required: false,
+  })
+  @ValidateIf(o => o.type === ProposalType.REVOKE_DISTRIBUTION_POLICY)
+  @IsUUID()
+  @Expose()
+  revokeDistributionPolicyId?: string;
+
+  @ApiProperty({
+    description:
+      'Addresses the vault treasury may be swept to once the proposal passes (e.g. a successor vault or a buyer)',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(5)
+  @IsString({ each: true })
+  @Expose()
+  treasurySweepDestinations?: string[];
+
+  @ApiProperty({
+    description: 'Holder cosigners of a multisig treasury, elected once the proposal passes',
+    type: () => TreasurySignersDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TreasurySignersDto)
+  @Expose()
+  treasurySigners?: TreasurySignersDto;
+
   @ApiProperty({
     description: 'Additional metadata for the proposal',
     required: false,
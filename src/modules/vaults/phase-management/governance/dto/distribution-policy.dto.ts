@@ -0,0 +1,126 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { IsInt, IsNumber, Max, Min } from 'class-validator';
+
+import { DistributionPolicyRunStatus, DistributionPolicyStatus } from '@/types/distribution-policy.types';
+
+/**
+ * Terms of a recurring distribution, e.g. 50% of the treasury ADA above 1,000 ADA every 30 days, 6 times
+ */
+export class DistributionPolicyTermsDto {
+  @ApiProperty({ description: 'Share of the treasury ADA above the floor distributed each run', example: 50 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @Max(100)
+  @Expose()
+  percentOfExcess: number;
+
+  @ApiProperty({ description: 'Treasury lovelace that is never distributed', example: 1000000000 })
+  @IsInt()
+  @Min(0)
+  @Expose()
+  floorLovelace: number;
+
+  @ApiProperty({ description: 'Days between runs', example: 30 })
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @Expose()
+  intervalDays: number;
+
+  @ApiProperty({ description: 'Number of runs before the policy completes', example: 6 })
+  @IsInt()
+  @Min(1)
+  @Max(120)
+  @Expose()
+  runCount: number;
+}
+
+export class DistributionPolicyRunDto {
+  @Expose()
+  @ApiProperty({ description: 'Run ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ description: 'One-based run number', example: 1 })
+  runNumber: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Run status', enum: DistributionPolicyRunStatus })
+  status: DistributionPolicyRunStatus;
+
+  @Expose()
+  @ApiProperty({ description: 'When the run was due', example: '2023-08-16T10:00:00Z' })
+  scheduledAt: Date;
+
+  @Expose()
+  @ApiPropertyOptional({ description: 'Treasury lovelace when the run started', example: '5000000000' })
+  treasuryLovelace?: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Lovelace paid out to holders', example: '2000000000' })
+  distributedLovelace: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Number of holders paid', example: 42 })
+  recipientCount: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Number of distribution batches', example: 1 })
+  totalBatches: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Number of completed distribution batches', example: 1 })
+  completedBatches: number;
+
+  @Expose()
+  @ApiPropertyOptional({ description: 'Why the run was skipped or failed' })
+  error?: string;
+
+  @Expose()
+  @ApiPropertyOptional({ description: 'When the run finished', example: '2023-08-16T10:05:00Z' })
+  finishedAt?: Date;
+}
+
+export class DistributionPolicyDto {
+  @Expose()
+  @ApiProperty({ description: 'Policy ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Policy status', enum: DistributionPolicyStatus })
+  status: DistributionPolicyStatus;
+
+  @Expose()
+  @ApiProperty({ description: 'Share of the treasury ADA above the floor distributed each run', example: 50 })
+  percentOfExcess: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Treasury lovelace that is never distributed', example: '1000000000' })
+  floorLovelace: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Milliseconds between runs', example: 2592000000 })
+  intervalMs: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Number of runs the policy was approved for', example: 6 })
+  runCount: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Number of runs that have happened', example: 2 })
+  runsCompleted: number;
+
+  @Expose()
+  @ApiPropertyOptional({ description: 'When the next run is due', example: '2023-09-15T10:00:00Z' })
+  nextRunAt?: Date;
+
+  @Expose()
+  @ApiPropertyOptional({ description: 'Proposal that revoked the policy' })
+  revokedByProposalId?: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Runs so far, oldest first', type: [DistributionPolicyRunDto] })
+  @Type(() => DistributionPolicyRunDto)
+  runs: DistributionPolicyRunDto[];
+}
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { Expose } from 'class-transformer';
+import { Expose, Type } from 'class-transformer';
 import { IsNotEmpty, IsNumber, IsOptional, IsString, Min } from 'class-validator';
 
 /**
@@ -34,6 +34,15 @@ export enum DistributionBatchStatus {
   COMPLETED = 'completed',
   FAILED = 'failed',
   RETRY_PENDING = 'retry_pending',
+  AWAITING_SIGNATURES = 'awaiting_signatures', // Multisig treasury tx waiting for cosigner witnesses
+}
+
+/**
+ * Native token amount in a multi-asset distribution
+ */
+export interface DistributionAssetAmount {
+  unit: string; // Policy ID + hex asset name
+  quantity: string;
 }
 
 /**
@@ -46,6 +55,7 @@ export interface DistributionBatch {
   totalBatches: number;
   recipientCount: number;
   lovelaceAmount: string; // Total lovelace in this batch
+  assets?: DistributionAssetAmount[]; // Total native tokens in this batch
   status: DistributionBatchStatus;
   claimIds: string[];
   transactionId?: string; // Reference to Transaction entity
@@ -63,11 +73,29 @@ export interface DistributionMetadata {
   totalRecipients: number;
   lovelacePerHolder: string; // Average, actual amounts may vary based on VT proportion
   minLovelacePerHolder: string;
+  assetsToDistribute?: DistributionAssetAmount[];
+  minUtxoTopUpLovelace?: string; // Lovelace added so token outputs meet the minimum UTxO
   batches: DistributionBatch[];
   completedBatches: number;
   failedBatches: number;
 }
 
+/**
+ * Native token amount for API responses
+ */
+export class DistributionAssetAmountDto {
+  @ApiProperty({
+    description: 'Policy ID + hex asset name',
+    example: 'a0028f350aaabe0545fdcb56b039bfb08e4bb4d8c4d7c3c7d481c235484f534b59',
+  })
+  @Expose()
+  unit: string;
+
+  @ApiProperty({ description: 'Token quantity', example: '1000000' })
+  @Expose()
+  quantity: string;
+}
+
 /**
  * Treasury balance information for UI
  */
@@ -79,6 +107,11 @@ export class TreasuryBalanceDto {
   @ApiProperty({ description: 'Balance formatted in ADA', example: '100.000000' })
   @Expose()
   lovelaceFormatted: string;
+
+  @ApiProperty({ description: 'Native tokens held by the treasury', type: [DistributionAssetAmountDto] })
+  @Type(() => DistributionAssetAmountDto)
+  @Expose()
+  assets: DistributionAssetAmountDto[];
 }
 
 /**
@@ -151,9 +184,14 @@ export class DistributionBatchDto {
   @Expose()
   lovelaceAmount: string;
 
+  @ApiProperty({ description: 'Native tokens in this batch', type: [DistributionAssetAmountDto], required: false })
+  @Type(() => DistributionAssetAmountDto)
+  @Expose()
+  assets?: DistributionAssetAmountDto[];
+
   @ApiProperty({
     description: 'Batch processing status',
-    enum: ['pending', 'processing', 'completed', 'failed', 'retry_pending'],
+    enum: DistributionBatchStatus,
   })
   @Expose()
   status: string;
@@ -186,6 +224,7 @@ export interface DistributionInfo {
   treasuryBalance: {
     lovelace: number;
     lovelaceFormatted: string; // In ADA
+    assets: DistributionAssetAmount[];
   };
   vtHolderCount: number;
   minDistributableAda: number; // Minimum ADA needed to distribute to all holders
@@ -201,6 +240,8 @@ export interface DistributionInfo {
 export interface DistributionRecipient {
   address: string;
   vtBalance: bigint;
-  lovelaceShare: bigint;
+  lovelaceShare: bigint; // Includes minUtxoTopUp
+  assetShares: Array<{ unit: string; quantity: bigint }>;
+  minUtxoTopUp: bigint; // Lovelace added on top of the pro-rata share to carry the tokens
   userId?: string;
 }
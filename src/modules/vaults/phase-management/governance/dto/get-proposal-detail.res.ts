@@ -3,11 +3,12 @@ import { Expose, Type } from 'class-transformer';
 
 import { DistributionStatus } from '../distribution.service';
 
-import { DistributionBatchStatus } from './distribution.dto';
+import { DistributionPolicyDto } from './distribution-policy.dto';
+import { DistributionAssetAmountDto, DistributionBatchStatus } from './distribution.dto';
 
 import { AssetType } from '@/types/asset.types';
-import { ProposalStatus, ProposalType } from '@/types/proposal.types';
-import { VoteType } from '@/types/vote.types';
+import { COMPOSITE_STEP_TYPES, ProposalStatus, ProposalStepStatus, ProposalType } from '@/types/proposal.types';
+import { VoteCountingStrategy, VoteType } from '@/types/vote.types';
 
 export class VotePercentagesDto {
   @Expose()
@@ -68,6 +69,10 @@ export class ProposalDetailDto {
   @ApiPropertyOptional({ description: 'Termination date', example: '2023-12-31T10:00:00Z' })
   terminationDate?: Date;
 
+  @Expose()
+  @ApiPropertyOptional({ description: 'End of the post-PASSED timelock', example: '2023-08-17T10:00:00Z' })
+  executableAt?: Date;
+
   @Expose()
   @ApiProperty({ description: 'Allow abstain votes', example: true })
   abstain: boolean;
@@ -130,6 +135,14 @@ export class ProposalVoteDto {
   @ApiProperty({ description: 'Vote weight', example: '1000000' })
   voteWeight: string;
 
+  @Expose()
+  @ApiPropertyOptional({
+    description: 'Delegator address -> snapshot balance included in the vote weight',
+    example: { 'addr1q8...': '500000' },
+    nullable: true,
+  })
+  delegatedFrom?: Record<string, string> | null;
+
   @Expose()
   @ApiProperty({ description: 'Vote type', enum: VoteType, example: VoteType.YES })
   vote: VoteType;
@@ -155,6 +168,14 @@ export class VoteTotalsDto {
   @Expose()
   @ApiProperty({ description: 'Percentage of votes cast', example: 65.5 })
   votedPercentage: number;
+
+  @Expose()
+  @ApiProperty({
+    description: 'Vault vote counting strategy used to weigh the totals',
+    enum: VoteCountingStrategy,
+    example: VoteCountingStrategy.LINEAR,
+  })
+  countingStrategy: VoteCountingStrategy;
 }
 
 export class ProposerDto {
@@ -303,6 +324,13 @@ export class DistributionInfoDto {
   @Expose()
   @ApiProperty({ description: 'Minimum ADA per recipient (Cardano requirement)', example: 2 })
   minAdaPerRecipient: number;
+
+  @Expose()
+  @ApiPropertyOptional({
+    description: 'ADA added from the treasury so token outputs meet the minimum UTxO',
+    example: 1.5,
+  })
+  minUtxoTopUpAda?: number;
 }
 
 /**
@@ -329,6 +357,11 @@ export class DistributionBatchDetailDto {
   @ApiProperty({ description: 'Total lovelace amount in this batch' })
   lovelaceAmount: string;
 
+  @Expose()
+  @ApiPropertyOptional({ description: 'Native tokens in this batch', type: [DistributionAssetAmountDto] })
+  @Type(() => DistributionAssetAmountDto)
+  assets?: DistributionAssetAmountDto[];
+
   @Expose()
   @ApiProperty({
     description: 'Batch processing status',
@@ -390,6 +423,76 @@ export class DistributionStatusDto {
   batches: DistributionBatchDetailDto[];
 }
 
+/**
+ * Execution progress of a single step of a COMPOSITE proposal
+ */
+export class ProposalStepDto {
+  @Expose()
+  @ApiProperty({ description: 'Zero-based position of the step', example: 0 })
+  index: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Proposal type the step executes', enum: COMPOSITE_STEP_TYPES })
+  type: ProposalType;
+
+  @Expose()
+  @ApiProperty({ description: 'Step execution status', enum: ProposalStepStatus, example: ProposalStepStatus.PENDING })
+  status: ProposalStepStatus;
+
+  @Expose()
+  @ApiProperty({ description: 'Type-specific step metadata (same shape as the proposal metadata of that type)' })
+  metadata: any;
+
+  @Expose()
+  @ApiPropertyOptional({ description: 'When the step last started executing', example: '2023-08-16T10:00:00Z' })
+  startedAt?: string;
+
+  @Expose()
+  @ApiPropertyOptional({ description: 'When the step completed', example: '2023-08-16T10:05:00Z' })
+  completedAt?: string;
+
+  @Expose()
+  @ApiPropertyOptional({ description: 'Error of the last failed attempt' })
+  error?: string;
+}
+
+/**
+ * Timelock window between PASSED and execution, during which the proposal can be vetoed
+ */
+export class ProposalTimelockDto {
+  @Expose()
+  @ApiProperty({ description: 'When the proposal becomes executable', example: '2023-08-17T10:00:00Z' })
+  executableAt: Date;
+
+  @Expose()
+  @ApiProperty({ description: 'Milliseconds left in the timelock (0 once elapsed)', example: 3600000 })
+  remainingMs: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Whether the proposal is still waiting out its timelock', example: true })
+  isPending: boolean;
+
+  @Expose()
+  @ApiProperty({ description: 'Snapshot VT weight of all holder vetoes', example: '4500000' })
+  vetoWeight: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Holder veto weight as a percentage of the snapshot supply', example: 45 })
+  vetoPercent: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Holder veto percentage that cancels the proposal', example: 66.67 })
+  vetoThresholdPercent: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Whether the current user can still veto', example: false })
+  canVeto: boolean;
+
+  @Expose()
+  @ApiPropertyOptional({ description: 'Who vetoed the proposal', enum: ['owner', 'holders'] })
+  vetoedBy?: 'owner' | 'holders';
+}
+
 export class GetProposalDetailRes {
   @Expose()
   @ApiProperty({ description: 'Proposal details', type: ProposalDetailDto })
@@ -414,6 +517,26 @@ export class GetProposalDetailRes {
   @ApiProperty({ description: 'User selected vote if any', enum: VoteType, required: false, example: VoteType.YES })
   selectedVote: VoteType | null;
 
+  @Expose()
+  @ApiProperty({ description: 'Number of times votes were changed or revoked on this proposal', example: 2 })
+  voteChangesCount: number;
+
+  @Expose()
+  @ApiPropertyOptional({
+    description: 'Steps and their progress (only for COMPOSITE proposals)',
+    type: [ProposalStepDto],
+  })
+  @Type(() => ProposalStepDto)
+  steps?: ProposalStepDto[];
+
+  @Expose()
+  @ApiPropertyOptional({
+    description: 'Timelock and veto state (only for proposals that passed with a timelock)',
+    type: ProposalTimelockDto,
+  })
+  @Type(() => ProposalTimelockDto)
+  timelock?: ProposalTimelockDto;
+
   @Expose()
   @ApiProperty({ description: 'Proposer information', type: ProposerDto })
   @Type(() => ProposerDto)
@@ -431,6 +554,14 @@ export class GetProposalDetailRes {
   })
   distributionLovelaceAmount?: string;
 
+  @Expose()
+  @ApiPropertyOptional({
+    description: 'Native tokens distributed alongside the lovelace for DISTRIBUTION proposals',
+    type: [DistributionAssetAmountDto],
+  })
+  @Type(() => DistributionAssetAmountDto)
+  distributionAssets?: DistributionAssetAmountDto[];
+
   @Expose()
   @ApiPropertyOptional({
     description: 'Distribution info calculated from snapshot (holders, amounts, etc.)',
@@ -447,6 +578,14 @@ export class GetProposalDetailRes {
   @Type(() => DistributionStatusDto)
   distributionStatus?: DistributionStatusDto;
 
+  @Expose()
+  @ApiPropertyOptional({
+    description: 'Recurring policy and its runs (only for DISTRIBUTION_POLICY proposals that passed)',
+    type: DistributionPolicyDto,
+  })
+  @Type(() => DistributionPolicyDto)
+  distributionPolicy?: DistributionPolicyDto;
+
   @Expose()
   @ApiPropertyOptional({ description: 'Fungible tokens for staking', type: [StakingTokenDto] })
   @Type(() => StakingTokenDto)
@@ -0,0 +1,166 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+
+import { DistributionAssetAmountDto } from './distribution.dto';
+
+import { AssetStatus, AssetType } from '@/types/asset.types';
+import { ProposalType } from '@/types/proposal.types';
+
+export class SimulatedAssetDto {
+  @Expose()
+  @ApiProperty({ description: 'Asset ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Asset name', required: false, nullable: true })
+  name: string | null;
+
+  @Expose()
+  @ApiProperty({ description: 'Policy ID' })
+  policyId: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Hex-encoded asset name' })
+  assetId: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Asset type', enum: AssetType })
+  type: AssetType;
+
+  @Expose()
+  @ApiProperty({ description: 'Current asset status', enum: AssetStatus })
+  status: AssetStatus;
+
+  @Expose()
+  @ApiProperty({ description: 'Quantity affected by the proposal', example: 1 })
+  quantity: number;
+
+  @Expose()
+  @ApiProperty({ description: 'What execution does with the asset', example: 'burn' })
+  action: string;
+}
+
+export class TreasuryBalanceChangeDto {
+  @Expose()
+  @ApiProperty({ description: 'Unit (lovelace or policy ID + hex asset name)', example: 'lovelace' })
+  unit: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Current treasury balance for this unit', example: '150000000' })
+  currentAmount: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Signed balance change expected from execution', example: '-100000000' })
+  change: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Why the balance changes', example: 'Distribution to VT holders' })
+  reason: string;
+}
+
+export class SimulatedRecipientDto {
+  @Expose()
+  @ApiProperty({ description: 'Holder address' })
+  address: string;
+
+  @Expose()
+  @ApiProperty({ description: 'VT balance in the snapshot', example: '250000' })
+  vtBalance: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Lovelace the holder would receive', example: '25000000' })
+  lovelaceShare: string;
+
+  @Expose()
+  @ApiProperty({
+    description: 'Native tokens the holder would receive',
+    type: [DistributionAssetAmountDto],
+    required: false,
+  })
+  @Type(() => DistributionAssetAmountDto)
+  assetShares?: DistributionAssetAmountDto[];
+}
+
+export class SimulatedDistributionDto {
+  @Expose()
+  @ApiProperty({ description: 'Total lovelace sent to holders', example: '99000000' })
+  totalLovelace: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Native tokens sent to holders', type: [DistributionAssetAmountDto], required: false })
+  @Type(() => DistributionAssetAmountDto)
+  assets?: DistributionAssetAmountDto[];
+
+  @Expose()
+  @ApiProperty({
+    description: 'Part of totalLovelace added so token outputs meet the minimum UTxO',
+    example: '1200000',
+    required: false,
+  })
+  minUtxoTopUpLovelace?: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Number of holders receiving a share', example: 42 })
+  recipientCount: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Holders skipped because their share is below the minimum UTxO', example: 3 })
+  skippedHolderCount: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Number of distribution transactions', example: 1 })
+  batchCount: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Per-holder amounts', type: [SimulatedRecipientDto] })
+  @Type(() => SimulatedRecipientDto)
+  recipients: SimulatedRecipientDto[];
+}
+
+export class EstimatedFeesDto {
+  @Expose()
+  @ApiProperty({ description: 'Number of on-chain transactions execution submits', example: 2 })
+  transactionCount: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Estimated network fees in lovelace', example: '420000' })
+  networkFeeLovelace: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Governance fee charged to the proposer in lovelace', example: '5000000' })
+  governanceFeeLovelace: string;
+}
+
+export class SimulateProposalRes {
+  @Expose()
+  @ApiProperty({ description: 'Proposal type', enum: ProposalType })
+  proposalType: ProposalType;
+
+  @Expose()
+  @ApiProperty({ description: 'Assets touched by execution', type: [SimulatedAssetDto] })
+  @Type(() => SimulatedAssetDto)
+  affectedAssets: SimulatedAssetDto[];
+
+  @Expose()
+  @ApiProperty({ description: 'Expected treasury balance changes', type: [TreasuryBalanceChangeDto] })
+  @Type(() => TreasuryBalanceChangeDto)
+  treasuryChanges: TreasuryBalanceChangeDto[];
+
+  @Expose()
+  @ApiProperty({ description: 'Per-holder distribution plan', type: SimulatedDistributionDto, required: false })
+  @Type(() => SimulatedDistributionDto)
+  distribution?: SimulatedDistributionDto;
+
+  @Expose()
+  @ApiProperty({ description: 'Estimated fees', type: EstimatedFeesDto })
+  @Type(() => EstimatedFeesDto)
+  estimatedFees: EstimatedFeesDto;
+
+  @Expose()
+  @ApiProperty({
+    description: 'Conditions that would make execution fail or differ from the plan',
+    type: [String],
+    example: ['Assets not in LOCKED status: My NFT'],
+  })
+  warnings: string[];
+}
@@ -0,0 +1,169 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { IsDateString, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+
+import { PaginationDto } from '@/modules/vaults/dto/pagination.dto';
+import { SnapshotSource } from '@/types/snapshot.types';
+
+/**
+ * Request body for an on-demand snapshot; without `at` or `slot` the current holders are captured
+ */
+export class CreateSnapshotReq {
+  @ApiProperty({
+    description: 'Point in time to reconstruct holder balances for (ISO 8601). Mutually exclusive with slot',
+    required: false,
+    example: '2026-09-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  at?: string;
+
+  @ApiProperty({
+    description: 'Absolute slot to reconstruct holder balances for. Mutually exclusive with at',
+    required: false,
+    example: 168000000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  slot?: number;
+}
+
+export class GetSnapshotsQuery extends PaginationDto {}
+
+export class SnapshotDiffQuery {
+  @ApiProperty({ description: 'Older snapshot; defaults to the snapshot preceding `to`', required: false })
+  @IsOptional()
+  @IsUUID()
+  from?: string;
+
+  @ApiProperty({ description: 'Newer snapshot; defaults to the latest snapshot', required: false })
+  @IsOptional()
+  @IsUUID()
+  to?: string;
+
+  @ApiProperty({ description: 'Maximum entries per list', required: false, default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class SnapshotSummaryDto {
+  @ApiProperty({ description: 'Snapshot ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Vault token unit (policy ID + hex asset name)' })
+  @Expose()
+  assetId: string;
+
+  @ApiProperty({ description: 'How the snapshot was created', enum: SnapshotSource })
+  @Expose()
+  source: SnapshotSource;
+
+  @ApiProperty({ description: 'Slot the balances were taken at, when known', required: false, example: '168000000' })
+  @Expose()
+  slot?: string;
+
+  @ApiProperty({ description: 'Number of holder addresses', example: 150 })
+  @Expose()
+  holderCount: number;
+
+  @ApiProperty({ description: 'Sum of holder balances (raw units, LP and admin addresses excluded)' })
+  @Expose()
+  totalBalance: string;
+
+  @ApiProperty({ description: 'Point in time the balances describe' })
+  @Expose()
+  createdAt: Date;
+}
+
+export class HolderBalanceHistoryItemDto {
+  @ApiProperty({ description: 'Snapshot ID' })
+  @Expose()
+  snapshotId: string;
+
+  @ApiProperty({ description: 'How the snapshot was created', enum: SnapshotSource })
+  @Expose()
+  source: SnapshotSource;
+
+  @ApiProperty({ description: 'Slot the balances were taken at, when known', required: false })
+  @Expose()
+  slot?: string;
+
+  @ApiProperty({ description: 'Point in time the balances describe' })
+  @Expose()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Balance of the address in raw units; 0 when it held no tokens', example: '1000000' })
+  @Expose()
+  balance: string;
+}
+
+export class SnapshotHolderChangeDto {
+  @ApiProperty({ description: 'Holder address' })
+  @Expose()
+  address: string;
+
+  @ApiProperty({ description: 'Balance in the older snapshot', example: '0' })
+  @Expose()
+  fromBalance: string;
+
+  @ApiProperty({ description: 'Balance in the newer snapshot', example: '1000000' })
+  @Expose()
+  toBalance: string;
+
+  @ApiProperty({ description: 'toBalance - fromBalance', example: '1000000' })
+  @Expose()
+  delta: string;
+}
+
+export class SnapshotDiffRes {
+  @ApiProperty({ type: SnapshotSummaryDto })
+  @Type(() => SnapshotSummaryDto)
+  @Expose()
+  from: SnapshotSummaryDto;
+
+  @ApiProperty({ type: SnapshotSummaryDto })
+  @Type(() => SnapshotSummaryDto)
+  @Expose()
+  to: SnapshotSummaryDto;
+
+  @ApiProperty({ description: 'Total number of addresses that started holding', example: 12 })
+  @Expose()
+  newHolderCount: number;
+
+  @ApiProperty({ description: 'Total number of addresses that stopped holding', example: 3 })
+  @Expose()
+  exitedHolderCount: number;
+
+  @ApiProperty({ description: 'Total number of continuing holders whose balance changed', example: 40 })
+  @Expose()
+  changedHolderCount: number;
+
+  @ApiProperty({ description: 'Change of the summed holder balance', example: '-500000' })
+  @Expose()
+  totalBalanceDelta: string;
+
+  @ApiProperty({ description: 'New holders, largest balance first', type: [SnapshotHolderChangeDto] })
+  @Type(() => SnapshotHolderChangeDto)
+  @Expose()
+  newHolders: SnapshotHolderChangeDto[];
+
+  @ApiProperty({ description: 'Exited holders, largest former balance first', type: [SnapshotHolderChangeDto] })
+  @Type(() => SnapshotHolderChangeDto)
+  @Expose()
+  exitedHolders: SnapshotHolderChangeDto[];
+
+  @ApiProperty({
+    description: 'Continuing holders with the largest absolute balance change',
+    type: [SnapshotHolderChangeDto],
+  })
+  @Type(() => SnapshotHolderChangeDto)
+  @Expose()
+  biggestMovers: SnapshotHolderChangeDto[];
+}
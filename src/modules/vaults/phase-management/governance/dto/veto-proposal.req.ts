@@ -0,0 +1,35 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { IsObject, IsOptional, IsString, MaxLength, ValidateNested } from 'class-validator';
+
+import { SignatureData } from '@/modules/auth/dto/login.req';
+
+export class VetoProposalReq {
+  @ApiPropertyOptional({
+    description: "The holder's Cardano address. Required unless the caller is the vault owner",
+    example: 'addr_test1qpjavyk....nw8s46zete',
+  })
+  @IsOptional()
+  @IsString()
+  @Expose()
+  voterAddress?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'CIP-30 signData result over the veto payload "proposal: <proposalId>, vote: veto, snapshot: <snapshotId>". Required unless the caller is the vault owner',
+    type: SignatureData,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SignatureData)
+  @Expose()
+  signature?: SignatureData;
+
+  @ApiProperty({ description: 'Reason for the veto', required: false, example: 'Sale price is below floor' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  @Expose()
+  reason?: string;
+}
@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+import { ProposalStatus } from '@/types/proposal.types';
+
+export class VetoProposalRes {
+  @Expose()
+  @ApiProperty({ description: 'Whether the veto was recorded', example: true })
+  success: boolean;
+
+  @Expose()
+  @ApiProperty({ description: 'Response message', example: 'Veto recorded' })
+  message: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Proposal status after the veto', enum: ProposalStatus, example: ProposalStatus.PASSED })
+  status: ProposalStatus;
+
+  @Expose()
+  @ApiProperty({ description: 'Snapshot VT weight of all holder vetoes', example: '4500000' })
+  vetoWeight: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Holder veto weight as a percentage of the snapshot supply', example: 45 })
+  vetoPercent: number;
+}
@@ -0,0 +1,47 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class DelegateVotesReq {
+  @ApiProperty({
+    description: 'Cardano address that will vote with the delegated vault-token power',
+    example: 'addr_test1qpjavyk....nw8s46zete',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Expose()
+  delegateAddress: string;
+}
+
+export class DelegatorDto {
+  @Expose()
+  @ApiProperty({ description: 'Delegator address', example: 'addr1q934ccfkwy292....' })
+  address: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Delegation start', example: '2023-08-15T10:30:00Z' })
+  since: Date;
+}
+
+export class VoteDelegationRes {
+  @Expose()
+  @ApiProperty({ description: 'Vault ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  vaultId: string;
+
+  @Expose()
+  @ApiPropertyOptional({
+    description: 'Address the user currently delegates to, null if not delegating',
+    example: 'addr1q934ccfkwy292....',
+    nullable: true,
+  })
+  delegatedTo: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({ description: 'When the current delegation was created', nullable: true })
+  delegatedSince: Date | null;
+
+  @Expose()
+  @ApiProperty({ description: 'Addresses delegating their voting power to the user', type: [DelegatorDto] })
+  @Type(() => DelegatorDto)
+  delegators: DelegatorDto[];
+}
@@ -0,0 +1,114 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+
+import { VoteCountingStrategy, VoteType } from '@/types/vote.types';
+
+export class VoteReceiptDto {
+  @Expose()
+  @ApiProperty({ description: 'Vote ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  voteId: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Voter wallet address', example: 'addr1q934ccfkwy292....' })
+  voterAddress: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Vote type', enum: VoteType, example: VoteType.YES })
+  vote: VoteType;
+
+  @Expose()
+  @ApiProperty({ description: 'Vote weight counted in the tally', example: '1000000' })
+  voteWeight: string;
+
+  @Expose()
+  @ApiProperty({ description: 'VT balance of the voter address in the proposal snapshot', example: '1000000' })
+  snapshotBalance: string;
+
+  @Expose()
+  @ApiProperty({
+    description: 'Delegator address -> snapshot balance included in voteWeight',
+    example: { 'addr1q8...': '500000' },
+    nullable: true,
+  })
+  delegatedFrom: Record<string, string> | null;
+
+  @Expose()
+  @ApiProperty({
+    description: 'Signed payload',
+    example: 'proposal: 123e4567-e89b-12d3-a456-426614174000, vote: yes, snapshot: 123e4567-...',
+    nullable: true,
+  })
+  signedPayload: string | null;
+
+  @Expose()
+  @ApiProperty({ description: 'Hex-encoded COSE_Sign1 signature', nullable: true })
+  signature: string | null;
+
+  @Expose()
+  @ApiProperty({ description: 'Hex-encoded COSE_Key of the signer', nullable: true })
+  signatureKey: string | null;
+
+  @Expose()
+  @ApiProperty({
+    description: 'Whether the signature re-verifies against the payload and voter address',
+    example: true,
+  })
+  verified: boolean;
+
+  @Expose()
+  @ApiProperty({ description: 'Vote timestamp', example: '2023-08-15T10:30:00Z' })
+  timestamp: Date;
+}
+
+export class VoteReceiptTotalsDto {
+  @Expose()
+  @ApiProperty({
+    description: 'Total yes weight from verified receipts, weighed with the vault counting strategy',
+    example: '1000000',
+  })
+  yes: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Total no weight from verified receipts', example: '500000' })
+  no: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Total abstain weight from verified receipts', example: '0' })
+  abstain: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Total voting power in the snapshot', example: '10000000' })
+  totalVotingPower: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Number of receipts that failed verification', example: 0 })
+  unverifiedCount: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Vote counting strategy used for the totals', enum: VoteCountingStrategy })
+  countingStrategy: VoteCountingStrategy;
+}
+
+export class GetVoteReceiptsRes {
+  @Expose()
+  @ApiProperty({ description: 'Proposal ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  proposalId: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Snapshot ID the votes were cast against', example: '123e4567-...' })
+  snapshotId: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Snapshot address balances used to weight votes' })
+  snapshotBalances: Record<string, string>;
+
+  @Expose()
+  @ApiProperty({ description: 'Vote receipts', type: [VoteReceiptDto] })
+  @Type(() => VoteReceiptDto)
+  receipts: VoteReceiptDto[];
+
+  @Expose()
+  @ApiProperty({ description: 'Tally recomputed from verified receipts', type: VoteReceiptTotalsDto })
+  @Type(() => VoteReceiptTotalsDto)
+  totals: VoteReceiptTotalsDto;
+}
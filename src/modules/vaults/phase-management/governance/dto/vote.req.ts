@@ -1,7 +1,8 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { Expose } from 'class-transformer';
-import { IsEnum, IsNotEmpty, IsString } from 'class-validator';
+import { Expose, Type } from 'class-transformer';
+import { IsEnum, IsNotEmpty, IsObject, IsString, ValidateNested } from 'class-validator';
 
+import { SignatureData } from '@/modules/auth/dto/login.req';
 import { VoteType } from '@/types/vote.types';
 
 export class VoteReq {
@@ -23,4 +24,39 @@ export class VoteReq {
   @IsString()
   @Expose()
   voterAddress: string;
+
+  @ApiProperty({
+    description:
+      'CIP-30 signData result over the vote payload "proposal: <proposalId>, vote: <vote>, snapshot: <snapshotId>"',
+    type: SignatureData,
+  })
+  @IsNotEmpty()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SignatureData)
+  @Expose()
+  signature: SignatureData;
+}
+
+export class RevokeVoteReq {
+  @ApiProperty({
+    description: "The voter's Cardano address",
+    example: 'addr_test1qpjavyk....nw8s46zete',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Expose()
+  voterAddress: string;
+
+  @ApiProperty({
+    description:
+      'CIP-30 signData result over the revocation payload "proposal: <proposalId>, vote: revoke, snapshot: <snapshotId>"',
+    type: SignatureData,
+  })
+  @IsNotEmpty()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SignatureData)
+  @Expose()
+  signature: SignatureData;
 }
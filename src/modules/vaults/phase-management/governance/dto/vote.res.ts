@@ -47,3 +47,13 @@ export class VoteRes {
   @Type(() => VoteDetailDto)
   vote: VoteDetailDto;
 }
+
+export class RevokeVoteRes {
+  @Expose()
+  @ApiProperty({ description: 'Whether the vote was revoked', example: true })
+  success: boolean;
+
+  @Expose()
+  @ApiProperty({ description: 'Response message', example: 'Vote revoked successfully' })
+  message: string;
+}
@@ -11,6 +11,7 @@ import { Vault } from '@/database/vault.entity';
 import { AlertsService } from '@/modules/alerts/alerts.service';
 import { DexHunterPricingService } from '@/modules/dexhunter/dexhunter-pricing.service';
 import { DistributionCalculationService } from '@/modules/distribution/distribution-calculation.service';
+import { VaultStateMachineService } from '@/modules/vaults/phase-management/state-machine/vault-state-machine.service';
 import { TransactionsService } from '@/modules/vaults/processing-tx/offchain-tx/transactions.service';
 import { VaultManagingService } from '@/modules/vaults/processing-tx/onchain/vault-managing.service';
 import { ClaimStatus, ClaimType } from '@/types/claim.types';
@@ -36,7 +37,8 @@ export class ExpansionService {
     private readonly distributionCalculationService: DistributionCalculationService,
     private readonly alertsService: AlertsService,
     private readonly transactionsService: TransactionsService,
-    private readonly dexHunterPricingService: DexHunterPricingService
+    private readonly dexHunterPricingService: DexHunterPricingService,
+    private readonly vaultStateMachineService: VaultStateMachineService
   ) {}
 
   /**
@@ -62,6 +64,7 @@ export class ExpansionService {
           'contribution_phase_start',
           'contribution_duration',
           'value_method',
+          'vault_status',
         ],
       });
 
@@ -69,6 +72,8 @@ export class ExpansionService {
         throw new Error(`Vault ${proposal.vaultId} not found`);
       }
 
+      this.vaultStateMachineService.assertCanTransition(vault, VaultStatus.expansion, { proposalId: proposal.id });
+
       const onChainResult = await this.vaultManagingService.updateVaultMetadataTx({
         vault,
         vaultStatus: SmartContractVaultStatus.OPEN,
@@ -84,10 +89,11 @@ export class ExpansionService {
       });
 
       // Update vault status to EXPANSION in database
-      await this.vaultRepository.update(
-        { id: proposal.vaultId },
+      await this.vaultStateMachineService.transition(
+        proposal.vaultId,
+        VaultStatus.expansion,
+        { reason: 'expansion_proposal_executed', proposalId: proposal.id, txHash: onChainResult.txHash },
         {
-          vault_status: VaultStatus.expansion,
           vault_sc_status: SmartContractVaultStatus.OPEN,
           expansion_phase_start: new Date(),
           expansion_duration: expansionConfig.noLimit ? 365 * 24 * 60 * 60 * 1000 : expansionConfig.duration,
@@ -150,10 +156,11 @@ export class ExpansionService {
 
       // Update vault status back to LOCKED in database and save merged multipliers
       // Clear expansion phase fields to indicate expansion is complete
-      await this.vaultRepository.update(
-        { id: vaultId },
+      await this.vaultStateMachineService.transition(
+        vaultId,
+        VaultStatus.locked,
+        { reason: `expansion_${reason}`, proposalId, txHash: onChainResult.txHash },
         {
-          vault_status: VaultStatus.locked,
           vault_sc_status: SmartContractVaultStatus.SUCCESSFUL,
           last_update_tx_hash: onChainResult.txHash,
           acquire_multiplier: expansionMultipliers,
@@ -460,6 +467,7 @@ export class ExpansionService {
           'contribution_duration',
           'value_method',
           'allow_acquire_expansion',
+          'vault_status',
         ],
       });
 
@@ -471,6 +479,10 @@ export class ExpansionService {
         throw new Error(`Vault ${proposal.vaultId} does not allow acquire expansion`);
       }
 
+      this.vaultStateMachineService.assertCanTransition(vault, VaultStatus.acquire_expansion, {
+        proposalId: proposal.id,
+      });
+
       // Update vault metadata on-chain (OPEN status for acquire transactions)
       // For acquire expansion: close asset_window, open acquire_window
       const onChainResult = await this.vaultManagingService.updateVaultMetadataTx({
@@ -492,10 +504,11 @@ export class ExpansionService {
       });
 
       // Update vault status to ACQUIRE_EXPANSION in database
-      await this.vaultRepository.update(
-        { id: proposal.vaultId },
+      await this.vaultStateMachineService.transition(
+        proposal.vaultId,
+        VaultStatus.acquire_expansion,
+        { reason: 'acquire_expansion_proposal_executed', proposalId: proposal.id, txHash: onChainResult.txHash },
         {
-          vault_status: VaultStatus.acquire_expansion,
           vault_sc_status: SmartContractVaultStatus.OPEN,
           expansion_phase_start: new Date(),
           expansion_duration: expansionConfig.noLimit ? 365 * 24 * 60 * 60 * 1000 : expansionConfig.duration,
@@ -561,10 +574,11 @@ export class ExpansionService {
 
       // Update vault status back to LOCKED in database
       // Clear expansion phase fields to indicate expansion is complete
-      await this.vaultRepository.update(
-        { id: vaultId },
+      await this.vaultStateMachineService.transition(
+        vaultId,
+        VaultStatus.locked,
+        { reason: `acquire_expansion_${reason}`, proposalId, txHash: onChainResult.txHash },
         {
-          vault_status: VaultStatus.locked,
           vault_sc_status: SmartContractVaultStatus.SUCCESSFUL,
           last_update_tx_hash: onChainResult.txHash,
           acquire_multiplier: acquireMultiplier,
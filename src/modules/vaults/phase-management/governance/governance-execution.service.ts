@@ -4,8 +4,9 @@ import { ConfigService } from '@nestjs/config';
 import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, Repository } from 'typeorm';
+import { In, IsNull, LessThanOrEqual, Repository } from 'typeorm';
 
+import { DistributionPolicyService } from './distribution-policy.service';
 import { DistributionService } from './distribution.service';
 import { ExecType, MarketplaceActionDto } from './dto/create-proposal.req';
 import { ExpansionService } from './expansion.service';
@@ -21,15 +22,18 @@ import { Proposal } from '@/database/proposal.entity';
 import { Vault } from '@/database/vault.entity';
 import { AlertsService } from '@/modules/alerts/alerts.service';
 import { DexHunterService } from '@/modules/dexhunter/dexhunter.service';
+import { SystemSettingsService } from '@/modules/globals/system-settings/system-settings.service';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
 import { RewardEventProducer } from '@/modules/rewards/services/reward-event-producer.service';
 import { AssetsService } from '@/modules/vaults/assets/assets.service';
 import { TransactionsService } from '@/modules/vaults/processing-tx/offchain-tx/transactions.service';
 import { TreasuryWalletService } from '@/modules/vaults/treasure/treasure-wallet.service';
 import { TreasuryExtractionService } from '@/modules/vaults/treasure/treasury-extraction.service';
+import { TreasuryStakingService } from '@/modules/vaults/treasure/treasury-staking.service';
 import { WayUpPricingService } from '@/modules/wayup/wayup-pricing.service';
 import { WayUpService } from '@/modules/wayup/wayup.service';
 import { AssetOriginType, AssetStatus } from '@/types/asset.types';
-import { ProposalStatus, ProposalType } from '@/types/proposal.types';
+import { CompositeStepType, ProposalStatus, ProposalStepStatus, ProposalType } from '@/types/proposal.types';
 import { RewardActivityType } from '@/types/rewards.types';
 import { TransactionStatus } from '@/types/transaction.types';
 import { VaultStatus } from '@/types/vault.types';
@@ -67,14 +71,17 @@ export class GovernanceExecutionService {
     private readonly transactionsService: TransactionsService,
     private readonly terminationService: TerminationService,
     private readonly distributionService: DistributionService,
+    private readonly distributionPolicyService: DistributionPolicyService,
     private readonly dexHunterService: DexHunterService,
     private readonly expansionService: ExpansionService,
     private readonly wayUpPricingService: WayUpPricingService,
     private readonly treasuryWalletService: TreasuryWalletService,
+    private readonly treasuryStakingService: TreasuryStakingService,
     private readonly governanceRefundService: GovernanceRefundService,
     private readonly rewardEventProducer: RewardEventProducer,
     private readonly snapshotService: SnapshotService,
-    private readonly alertsService: AlertsService
+    private readonly alertsService: AlertsService,
+    private readonly systemSettingsService: SystemSettingsService
   ) {
     this.isMainnet = this.configService.get<string>('CARDANO_NETWORK') === 'mainnet';
     this.blockfrost = new BlockFrostAPI({
@@ -181,11 +188,15 @@ export class GovernanceExecutionService {
    * Also handles distribution batch retries for DISTRIBUTION proposals
    */
   @Cron(CronExpression.EVERY_5_MINUTES)
+  @CoordinatedJob('governance-execution-retry')
   async retryPassedProposals(): Promise<void> {
     try {
-      // Find all proposals in PASSED status with metadata for retry tracking
+      // Find all proposals in PASSED status whose timelock (if any) has elapsed
       const passedProposals = await this.proposalRepository.find({
-        where: { status: ProposalStatus.PASSED },
+        where: [
+          { status: ProposalStatus.PASSED, executableAt: IsNull() },
+          { status: ProposalStatus.PASSED, executableAt: LessThanOrEqual(new Date()) },
+        ],
         select: ['id', 'title', 'vaultId', 'metadata', 'proposalType'],
       });
 
@@ -355,10 +366,13 @@ export class GovernanceExecutionService {
           'vault.name',
           'vault.execution_threshold',
           'vault.cosigning_threshold',
+          'vault.vote_counting_strategy',
+          'vault.vote_counting_cap_percent',
           'treasury_wallet.treasury_address',
           'owner.address',
           'votes.voteWeight',
           'votes.vote',
+          'votes.delegatedFrom',
           'snapshot.addressBalances',
         ])
         .getOne();
@@ -371,20 +385,14 @@ export class GovernanceExecutionService {
       const executionThreshold = proposal.vault.execution_threshold;
       const participationThreshold = proposal.vault.cosigning_threshold || 0;
 
-      // Calculate total voting power from snapshot
-      let totalVotingPower = BigInt(0);
-      if (proposal.snapshot?.addressBalances) {
-        for (const balance of Object.values(proposal.snapshot.addressBalances)) {
-          totalVotingPower += BigInt(balance);
-        }
-      }
-
-      // Use vote counting service to calculate results with both thresholds
-      const voteResult = this.voteCountingService.calculateResult(
+      // Weigh votes and total voting power with the vault's counting strategy, then apply both thresholds
+      const voteResult = this.voteCountingService.calculateStrategyResult(
         proposal.votes,
+        proposal.snapshot?.addressBalances,
+        proposal.vault.vote_counting_strategy,
+        proposal.vault.vote_counting_cap_percent,
         executionThreshold,
-        participationThreshold,
-        totalVotingPower > BigInt(0) ? totalVotingPower : undefined
+        participationThreshold
       );
       const isSuccessful = voteResult.isSuccessful;
 
@@ -428,15 +436,49 @@ export class GovernanceExecutionService {
         },
       };
 
+      // High-impact proposals wait out a timelock during which they can be vetoed
+      // A composite proposal takes the longest timelock of its steps
+      const timelockMs =
+        proposal.proposalType === ProposalType.COMPOSITE
+          ? Math.max(
+              0,
+              ...(proposal.metadata?.steps || []).map(step =>
+                this.systemSettingsService.getGovernanceTimelockForProposalType(
+                  step.type,
+                  step.metadata.distributionLovelaceAmount,
+                  step.metadata.distributionAssets
+                )
+              )
+            )
+          : this.systemSettingsService.getGovernanceTimelockForProposalType(
+              proposal.proposalType,
+              proposal.metadata?.distributionLovelaceAmount,
+              proposal.metadata?.distributionAssets
+            );
+      const executableAt = timelockMs > 0 ? new Date(Date.now() + timelockMs) : null;
+
       await this.proposalRepository.update(
         { id: proposalId },
-        { status: ProposalStatus.PASSED, metadata: updatedMetadata }
+        { status: ProposalStatus.PASSED, metadata: updatedMetadata, executableAt }
       );
 
       this.logger.log(
         `Proposal ${proposal.id}: PASSED (participation: ${voteResult.participationPercent.toFixed(2)}%, yes votes: ${voteResult.yesVotePercent.toFixed(2)}%, thresholds: ${participationThreshold}%/${executionThreshold}%)`
       );
 
+      if (executableAt) {
+        // retryPassedProposals picks the proposal up once the timelock elapses
+        this.logger.log(`Proposal ${proposal.id}: timelocked until ${executableAt.toISOString()}`);
+        this.eventEmitter.emit('proposal.status.changed', {
+          proposalId: proposal.id,
+          status: ProposalStatus.PASSED,
+          previousStatus: ProposalStatus.ACTIVE,
+          executableAt,
+          timestamp: new Date(),
+        });
+        return;
+      }
+
       // Immediately trigger execution
       await this.executePassedProposal(proposalId);
     } catch (error) {
@@ -470,6 +512,7 @@ export class GovernanceExecutionService {
           'proposal.metadata',
           'proposal.title',
           'proposal.creatorId',
+          'proposal.executableAt',
           'vault.id',
           'vault.name',
           'treasury_wallet.treasury_address',
@@ -483,6 +526,13 @@ export class GovernanceExecutionService {
         return;
       }
 
+      if (proposal.executableAt && proposal.executableAt > new Date()) {
+        this.logger.log(
+          `Proposal ${proposalId} is timelocked until ${proposal.executableAt.toISOString()}, skipping execution`
+        );
+        return;
+      }
+
       const tokenHolderIds = await this.snapshotService.getTokenHolderIdsFromSnapshot(
         proposal.snapshot?.addressBalances
       );
@@ -607,7 +657,13 @@ export class GovernanceExecutionService {
       ProposalType.ASSET_WHITELIST_UPDATE,
     ];
 
-    if (lockedOnlyProposalTypes.includes(proposal.proposalType)) {
+    // A composite proposal is bound by the restrictions of every step it contains
+    const executedTypes =
+      proposal.proposalType === ProposalType.COMPOSITE
+        ? (proposal.metadata.steps || []).map(step => step.type as ProposalType)
+        : [proposal.proposalType];
+
+    if (executedTypes.some(type => lockedOnlyProposalTypes.includes(type))) {
       if (vault.vault_status !== VaultStatus.locked) {
         this.logger.warn(
           `Cannot execute ${proposal.proposalType} proposal ${proposal.id}: Vault must be in LOCKED status. Current status: ${vault.vault_status}`
@@ -642,6 +698,12 @@ export class GovernanceExecutionService {
         case ProposalType.DISTRIBUTION:
           return await this.executeDistributionProposal(proposal);
 
+        case ProposalType.DISTRIBUTION_POLICY:
+          return await this.executeDistributionPolicyProposal(proposal);
+
+        case ProposalType.REVOKE_DISTRIBUTION_POLICY:
+          return await this.executeRevokeDistributionPolicyProposal(proposal);
+
         case ProposalType.STAKING:
           return await this.executeStakingProposal(proposal);
 
@@ -660,6 +722,9 @@ export class GovernanceExecutionService {
         case ProposalType.ACQUIRE_EXPANSION:
           return await this.executeAcquireExpansionProposal(proposal);
 
+        case ProposalType.COMPOSITE:
+          return await this.executeCompositeProposal(proposal);
+
         default:
           this.logger.warn(`Unknown proposal type: ${proposal.proposalType}`);
           return false;
@@ -695,6 +760,142 @@ export class GovernanceExecutionService {
     }
   }
 
+  /**
+   * Execute COMPOSITE proposal steps in order
+   * Each step runs through the executor of its own type with the step metadata merged into the proposal.
+   * Step status is persisted after every transition, so a retry resumes at the first step that has not completed.
+   * Execution stops at the first failed step; rejections (e.g. asset already listed) reject the whole proposal.
+   * A step found still EXECUTING on retry was interrupted and may have submitted its transaction, so it is
+   * parked as NEEDS_REVIEW instead of being run again.
+   */
+  private async executeCompositeProposal(proposal: Proposal): Promise<boolean> {
+    const steps = proposal.metadata.steps || [];
+
+    if (steps.length === 0) {
+      this.logger.warn(`Composite proposal ${proposal.id} has no steps`);
+      return false;
+    }
+
+    for (const [index, step] of steps.entries()) {
+      if (step.status === ProposalStepStatus.COMPLETED) {
+        continue;
+      }
+
+      if (step.status === ProposalStepStatus.EXECUTING || step.status === ProposalStepStatus.NEEDS_REVIEW) {
+        if (step.status === ProposalStepStatus.EXECUTING) {
+          await this.updateCompositeStep(proposal, index, {
+            status: ProposalStepStatus.NEEDS_REVIEW,
+            error: 'Interrupted while executing; check on-chain before resuming',
+          });
+
+          await this.alertsService.sendAlert('composite_step_needs_review', {
+            proposalId: proposal.id,
+            proposalTitle: proposal.title,
+            vaultId: proposal.vaultId,
+            stepIndex: index,
+            stepType: step.type,
+            startedAt: step.startedAt,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        this.logger.error(
+          `Composite proposal ${proposal.id}: step ${index + 1} (${step.type}) was interrupted and needs manual review`
+        );
+        return false;
+      }
+
+      this.logger.log(`Composite proposal ${proposal.id}: executing step ${index + 1}/${steps.length} (${step.type})`);
+
+      await this.updateCompositeStep(proposal, index, {
+        status: ProposalStepStatus.EXECUTING,
+        startedAt: new Date().toISOString(),
+        error: undefined,
+      });
+
+      // Executors read their inputs from metadata; proposalType stays COMPOSITE so saves don't rewrite it
+      const stepProposal = Object.assign(new Proposal(), proposal, {
+        metadata: { ...proposal.metadata, ...step.metadata },
+      });
+
+      let executed: boolean;
+      try {
+        executed = await this.executeCompositeStep(stepProposal, step.type);
+      } catch (error) {
+        await this.updateCompositeStep(proposal, index, { status: ProposalStepStatus.FAILED, error: error.message });
+        throw error;
+      }
+
+      if (!executed) {
+        await this.updateCompositeStep(proposal, index, {
+          status: ProposalStepStatus.FAILED,
+          error: `${step.type} step did not complete`,
+        });
+        this.logger.warn(`Composite proposal ${proposal.id}: step ${index + 1} failed, stopping execution`);
+        return false;
+      }
+
+      await this.updateCompositeStep(proposal, index, {
+        status: ProposalStepStatus.COMPLETED,
+        completedAt: new Date().toISOString(),
+      });
+
+      this.eventEmitter.emit('proposal.step.executed', {
+        proposalId: proposal.id,
+        vaultId: proposal.vaultId,
+        stepIndex: index,
+        stepType: step.type,
+        totalSteps: steps.length,
+      });
+    }
+
+    return true;
+  }
+
+  private async executeCompositeStep(proposal: Proposal, type: CompositeStepType): Promise<boolean> {
+    switch (type) {
+      case ProposalType.MARKETPLACE_ACTION:
+        return this.executeMarketplaceProposal(proposal);
+      case ProposalType.DISTRIBUTION:
+        return this.executeDistributionProposal(proposal);
+      case ProposalType.BURNING:
+        return this.executeBurningProposal(proposal);
+      case ProposalType.STAKING:
+        return this.executeStakingProposal(proposal);
+    }
+  }
+
+  /**
+   * Persists a step status change on top of the latest stored metadata, since step executors
+   * (distribution tracking, execution errors) write to the proposal metadata as well.
+   * Step inputs they may have merged into the top level are dropped again.
+   */
+  private async updateCompositeStep(
+    proposal: Proposal,
+    index: number,
+    changes: Partial<Proposal['metadata']['steps'][number]>
+  ): Promise<void> {
+    const stored = await this.proposalRepository.findOne({
+      where: { id: proposal.id },
+      select: ['id', 'metadata'],
+    });
+
+    const metadata = { ...(stored?.metadata ?? proposal.metadata) };
+    delete metadata.fungibleTokens;
+    delete metadata.nonFungibleTokens;
+    delete metadata.stakeDelegation;
+    delete metadata.marketplaceActions;
+    delete metadata.distributionLovelaceAmount;
+    delete metadata.distributionAssets;
+    delete metadata.burnAssets;
+
+    // Step list is owned by this method, so the in-memory copy is authoritative
+    metadata.steps = proposal.metadata.steps.map((step, i) => (i === index ? { ...step, ...changes } : step));
+
+    await this.proposalRepository.update({ id: proposal.id }, { metadata });
+    proposal.metadata = metadata;
+  }
+
   /**
    * Execute Marketplace proposal actions via WayUp marketplace or DexHunter swap
    * Executes all marketplace operations (list, unlist, update, buy) in a single atomic transaction for WayUp
@@ -2035,6 +2236,10 @@ export class GovernanceExecutionService {
    * Only runs on mainnet - testnet just logs completion
    */
   private async executeStakingProposal(proposal: Proposal): Promise<boolean> {
+    if (proposal.metadata.stakeDelegation) {
+      return this.executeTreasuryDelegation(proposal);
+    }
+
     if (!this.isMainnet) {
       this.logger.log(`[TESTNET] Staking proposal ${proposal.id} marked as completed (no actual execution on testnet)`);
       this.eventEmitter.emit('proposal.staking.testnet.completed', {
@@ -2053,17 +2258,11 @@ export class GovernanceExecutionService {
     }
 
     try {
-      // TODO: Implement actual staking logic
-      // This would involve:
-      // 1. Getting the treasury wallet
-      // 2. Building staking transaction
-      // 3. Signing and submitting to blockchain
-
+      // Token staking has no on-chain counterpart yet; treasury ADA is staked through stakeDelegation
       this.logger.log(`Staking ${proposal.metadata.fungibleTokens.length} token(s) for vault ${proposal.vaultId}`);
 
       for (const token of proposal.metadata.fungibleTokens) {
         this.logger.log(`Staking ${token.amount} of token ${token.id}`);
-        // Actual staking implementation here
       }
 
       // Emit event for tracking
@@ -2083,6 +2282,43 @@ export class GovernanceExecutionService {
     }
   }
 
+  /**
+   * Delegates the treasury wallet to the proposed stake pool: registers the stake credential if needed,
+   * withdraws accrued rewards when requested and (re-)delegates. Each step is its own Transaction,
+   * and a retry only submits the steps not yet reflected on-chain.
+   */
+  private async executeTreasuryDelegation(proposal: Proposal): Promise<boolean> {
+    const { poolId, withdrawRewards } = proposal.metadata.stakeDelegation;
+
+    this.logger.log(`Delegating treasury of vault ${proposal.vaultId} to ${poolId} (proposal ${proposal.id})`);
+
+    try {
+      const result = await this.treasuryStakingService.delegateTreasury(proposal.vaultId, {
+        poolId,
+        withdrawRewards,
+        proposalId: proposal.id,
+      });
+
+      this.eventEmitter.emit('proposal.staking.executed', {
+        proposalId: proposal.id,
+        vaultId: proposal.vaultId,
+        poolId,
+        previousPoolId: result.previousPoolId,
+        transactions: result.steps,
+        network: this.isMainnet ? 'mainnet' : 'testnet',
+      });
+
+      this.logger.log(
+        `Treasury of vault ${proposal.vaultId} delegated to ${poolId} with ${result.steps.length} transaction(s)`
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(`Error delegating treasury for proposal ${proposal.id}: ${error.message}`, error.stack);
+      await this.storeExecutionError(proposal, error);
+      throw error;
+    }
+  }
+
   /**
    * Execute DISTRIBUTION proposal actions
    * Distributes ADA from treasury wallet to VT holders proportionally
@@ -2092,8 +2328,8 @@ export class GovernanceExecutionService {
     const networkLabel = this.isMainnet ? 'MAINNET' : 'TESTNET';
     this.logger.log(`[${networkLabel}] Executing distribution proposal ${proposal.id}`);
 
-    if (!proposal.metadata.distributionLovelaceAmount) {
-      this.logger.warn(`Distribution proposal ${proposal.id} has no lovelace amount to distribute`);
+    if (!proposal.metadata.distributionLovelaceAmount && !proposal.metadata.distributionAssets?.length) {
+      this.logger.warn(`Distribution proposal ${proposal.id} has no lovelace amount or tokens to distribute`);
       return false;
     }
 
@@ -2147,6 +2383,42 @@ export class GovernanceExecutionService {
     }
   }
 
+  /**
+   * Execute DISTRIBUTION_POLICY proposal actions
+   * Activates the recurring policy; the runs themselves are paid out by DistributionPolicyService
+   */
+  private async executeDistributionPolicyProposal(proposal: Proposal): Promise<boolean> {
+    try {
+      await this.distributionPolicyService.activatePolicy(proposal);
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Error activating distribution policy for proposal ${proposal.id}: ${error.message}`,
+        error.stack
+      );
+      await this.storeExecutionError(proposal, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Execute REVOKE_DISTRIBUTION_POLICY proposal actions
+   * Stops future runs of the targeted policy
+   */
+  private async executeRevokeDistributionPolicyProposal(proposal: Proposal): Promise<boolean> {
+    try {
+      await this.distributionPolicyService.revokePolicy(proposal);
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Error revoking distribution policy for proposal ${proposal.id}: ${error.message}`,
+        error.stack
+      );
+      await this.storeExecutionError(proposal, error);
+      throw error;
+    }
+  }
+
   /**
    * Execute BURNING proposal actions
    * Extracts selected assets directly to burn wallet
@@ -198,6 +198,8 @@ export class GovernanceFeeService {
     const labels: Record<string, string> = {
       staking: 'Staking',
       distribution: 'Distribution',
+      distribution_policy: 'Distribution Policy',
+      revoke_distribution_policy: 'Revoke Distribution Policy',
       termination: 'Termination',
       burning: 'Burning',
       marketplace_action: 'Marketplace Action',
@@ -205,6 +207,7 @@ export class GovernanceFeeService {
       buy_sell: 'Marketplace Action',
       acquire_expansion: 'Acquire Expansion',
       asset_whitelist_update: 'Asset Whitelist Update',
+      composite: 'Multi-Action',
     };
     return labels[proposalType] || proposalType;
   }
@@ -10,6 +10,7 @@ import { TransactionsService } from '../../processing-tx/offchain-tx/transaction
 import { formatCip674MetadataMessage } from '@/common/cardano/cip674-metadata';
 import { Proposal } from '@/database/proposal.entity';
 import { Transaction } from '@/database/transaction.entity';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
 import { ProposalStatus } from '@/types/proposal.types';
 import { TransactionStatus, TransactionType } from '@/types/transaction.types';
 
@@ -242,6 +243,7 @@ export class GovernanceRefundService {
 
   // Retry failed/pending refunds on rejected proposals.
   @Cron(CronExpression.EVERY_5_MINUTES)
+  @CoordinatedJob('governance-refund-retry')
   async retryPendingRefunds(): Promise<void> {
     if (this.isRetrying) return;
     this.isRetrying = true;
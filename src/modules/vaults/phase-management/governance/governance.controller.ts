@@ -17,10 +17,16 @@ import {
   GetGovernanceFeesRes,
   SubmitProposalFeePaymentReq,
 } from './dto/governance-fee.dto';
-import { VoteReq } from './dto/vote.req';
-import { VoteRes } from './dto/vote.res';
+import { SimulateProposalRes } from './dto/simulate-proposal.res';
+import { VetoProposalReq } from './dto/veto-proposal.req';
+import { VetoProposalRes } from './dto/veto-proposal.res';
+import { DelegateVotesReq, VoteDelegationRes } from './dto/vote-delegation.dto';
+import { GetVoteReceiptsRes } from './dto/vote-receipts.res';
+import { RevokeVoteReq, VoteReq } from './dto/vote.req';
+import { RevokeVoteRes, VoteRes } from './dto/vote.res';
 import { GovernanceFeeService } from './governance-fee.service';
 import GovernanceService from './governance.service';
+import { VoteDelegationService } from './vote-delegation.service';
 
 import { AuthGuard } from '@/modules/auth/auth.guard';
 import { AuthRequest } from '@/modules/auth/dto/auth-user.interface';
@@ -37,7 +43,8 @@ export class GovernanceController {
   constructor(
     private readonly governanceService: GovernanceService,
     private readonly distributionService: DistributionService,
-    private readonly governanceFeeService: GovernanceFeeService
+    private readonly governanceFeeService: GovernanceFeeService,
+    private readonly voteDelegationService: VoteDelegationService
   ) {}
 
   @Post('vaults/:vaultId/proposals')
@@ -52,6 +59,22 @@ export class GovernanceController {
     return this.governanceService.createProposal(vaultId, data, req.user.sub);
   }
 
+  @Post('vaults/:vaultId/proposals/simulate')
+  @UseGuards(AuthGuard)
+  @ApiOperation({
+    summary: 'Simulate a proposal before submission',
+    description:
+      'Runs proposal validation and returns the execution plan (affected assets, treasury changes, distribution amounts, estimated fees) without creating the proposal',
+  })
+  @ApiResponse({ status: 201, description: 'Execution plan', type: SimulateProposalRes })
+  async simulateProposal(
+    @Req() req: AuthRequest,
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Body() data: CreateProposalReq
+  ): Promise<SimulateProposalRes> {
+    return this.governanceService.simulateProposal(vaultId, data, req.user.sub);
+  }
+
   @Post('proposals/:proposalId/submit-fee-payment')
   @UseGuards(AuthGuard)
   @ApiOperation({
@@ -87,7 +110,7 @@ export class GovernanceController {
 
   @Post('proposals/:proposalId/vote')
   @UseGuards(AuthGuard)
-  @ApiOperation({ summary: 'Vote on a proposal' })
+  @ApiOperation({ summary: 'Vote on a proposal or change an existing vote' })
   @ApiResponse({ status: 201, description: 'Vote recorded successfully', type: VoteRes })
   async vote(
     @Req() req: AuthRequest,
@@ -98,6 +121,30 @@ export class GovernanceController {
     return this.governanceService.vote(proposalId, voteReq, userId);
   }
 
+  @Delete('proposals/:proposalId/vote')
+  @UseGuards(AuthGuard)
+  @ApiOperation({ summary: 'Revoke a vote on an active proposal' })
+  @ApiResponse({ status: 200, description: 'Vote revoked successfully', type: RevokeVoteRes })
+  async revokeVote(
+    @Req() req: AuthRequest,
+    @Param('proposalId', ParseUUIDPipe) proposalId: string,
+    @Body() revokeReq: RevokeVoteReq
+  ): Promise<RevokeVoteRes> {
+    return this.governanceService.revokeVote(proposalId, revokeReq, req.user.sub);
+  }
+
+  @Post('proposals/:proposalId/veto')
+  @UseGuards(AuthGuard)
+  @ApiOperation({ summary: 'Veto a passed proposal during its timelock (vault owner or signed holder veto)' })
+  @ApiResponse({ status: 201, description: 'Veto recorded', type: VetoProposalRes })
+  async vetoProposal(
+    @Req() req: AuthRequest,
+    @Param('proposalId', ParseUUIDPipe) proposalId: string,
+    @Body() vetoReq: VetoProposalReq
+  ): Promise<VetoProposalRes> {
+    return this.governanceService.vetoProposal(proposalId, vetoReq, req.user.sub);
+  }
+
   @Get('proposals/:proposalId')
   @UseGuards(AuthGuard)
   @ApiOperation({ summary: 'Get proposal details' })
@@ -109,6 +156,17 @@ export class GovernanceController {
     return this.governanceService.getProposal(proposalId, req.user.sub);
   }
 
+  @Get('proposals/:proposalId/receipts')
+  @ApiOperation({
+    summary: 'Get signed vote receipts for a proposal',
+    description:
+      'Public endpoint returning every vote with its CIP-30 signature and the snapshot balances, so the tally can be re-verified independently',
+  })
+  @ApiResponse({ status: 200, description: 'Vote receipts', type: GetVoteReceiptsRes })
+  async getVoteReceipts(@Param('proposalId', ParseUUIDPipe) proposalId: string): Promise<GetVoteReceiptsRes> {
+    return this.governanceService.getVoteReceipts(proposalId);
+  }
+
   @Delete('proposals/:proposalId')
   @UseGuards(AuthGuard)
   @ApiOperation({ summary: 'Delete an upcoming or unpaid governance proposal (owner only)' })
@@ -133,6 +191,43 @@ export class GovernanceController {
     return { votingPower };
   }
 
+  @Get('vaults/:vaultId/delegation')
+  @UseGuards(AuthGuard)
+  @ApiOperation({ summary: 'Get the user vote delegation for a vault (outgoing and incoming)' })
+  @ApiResponse({ status: 200, description: 'Vote delegation', type: VoteDelegationRes })
+  async getDelegation(
+    @Req() req: AuthRequest,
+    @Param('vaultId', ParseUUIDPipe) vaultId: string
+  ): Promise<VoteDelegationRes> {
+    return this.voteDelegationService.getDelegation(vaultId, req.user.sub);
+  }
+
+  @Post('vaults/:vaultId/delegation')
+  @UseGuards(AuthGuard)
+  @ApiOperation({
+    summary: 'Delegate vault-token voting power to another address',
+    description: 'Replaces any existing delegation for this vault',
+  })
+  @ApiResponse({ status: 201, description: 'Delegation created', type: VoteDelegationRes })
+  async delegateVotes(
+    @Req() req: AuthRequest,
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Body() data: DelegateVotesReq
+  ): Promise<VoteDelegationRes> {
+    return this.voteDelegationService.delegate(vaultId, req.user.sub, data.delegateAddress);
+  }
+
+  @Delete('vaults/:vaultId/delegation')
+  @UseGuards(AuthGuard)
+  @ApiOperation({ summary: 'Revoke the active vote delegation for a vault' })
+  @ApiResponse({ status: 200, description: 'Delegation revoked', type: VoteDelegationRes })
+  async revokeDelegation(
+    @Req() req: AuthRequest,
+    @Param('vaultId', ParseUUIDPipe) vaultId: string
+  ): Promise<VoteDelegationRes> {
+    return this.voteDelegationService.revokeDelegation(vaultId, req.user.sub);
+  }
+
   @Get('vaults/:vaultId/assets/sell')
   @UseGuards(AuthGuard)
   @ApiOperation({ summary: 'Get assets available for selling proposals' })
@@ -7,6 +7,7 @@ import { TransactionsModule } from '../../processing-tx/offchain-tx/transactions
 import { BlockchainModule } from '../../processing-tx/onchain/blockchain.module';
 import { TreasureWalletModule } from '../../treasure/treasure-wallet.module';
 
+import { DistributionPolicyService } from './distribution-policy.service';
 import { DistributionService } from './distribution.service';
 import { ExpansionService } from './expansion.service';
 import { GovernanceExecutionService } from './governance-execution.service';
@@ -16,15 +17,22 @@ import { GovernanceController } from './governance.controller';
 import GovernanceService from './governance.service';
 import { ProposalHealthService } from './proposal-health.service';
 import { ProposalSchedulerService } from './proposal-scheduler.service';
+import { ProposalSimulationService } from './proposal-simulation.service';
+import { SnapshotController } from './snapshot.controller';
 import { SnapshotModule } from './snapshot.module';
 import { TerminationController } from './termination.controller';
+import { TerminationProcessor } from './termination.processor';
 import { TerminationService } from './termination.service';
 import { VoteCountingService } from './vote-counting.service';
+import { VoteDelegationService } from './vote-delegation.service';
 
 import { Asset } from '@/database/asset.entity';
 import { AssetsWhitelistEntity } from '@/database/assetsWhitelist.entity';
 import { Claim } from '@/database/claim.entity';
+import { DistributionPolicy } from '@/database/distributionPolicy.entity';
+import { DistributionPolicyRun } from '@/database/distributionPolicyRun.entity';
 import { Proposal } from '@/database/proposal.entity';
+import { ProposalVeto } from '@/database/proposalVeto.entity';
 import { Snapshot } from '@/database/snapshot.entity';
 import { TokenVerification } from '@/database/token-verification.entity';
 import { Transaction } from '@/database/transaction.entity';
@@ -32,6 +40,8 @@ import { User } from '@/database/user.entity';
 import { Vault } from '@/database/vault.entity';
 import { VaultTreasuryWallet } from '@/database/vaultTreasuryWallet.entity';
 import { Vote } from '@/database/vote.entity';
+import { VoteDelegation } from '@/database/voteDelegation.entity';
+import { VoteHistory } from '@/database/voteHistory.entity';
 import { AlertsModule } from '@/modules/alerts/alerts.module';
 import { DexHunterModule } from '@/modules/dexhunter/dexhunter.module';
 import { DistributionCalculationModule } from '@/modules/distribution/distribution-calculation.module';
@@ -50,8 +60,13 @@ import { WayUpModule } from '@/modules/wayup/wayup.module';
       Asset,
       Snapshot,
       Proposal,
+      ProposalVeto,
       Vote,
+      VoteHistory,
+      VoteDelegation,
       Claim,
+      DistributionPolicy,
+      DistributionPolicyRun,
       User,
       Transaction,
       VaultTreasuryWallet,
@@ -73,17 +88,21 @@ import { WayUpModule } from '@/modules/wayup/wayup.module';
     WayUpPricingModule,
     TapToolsPricingModule,
   ],
-  controllers: [GovernanceController, TerminationController],
+  controllers: [GovernanceController, TerminationController, SnapshotController],
   providers: [
     GovernanceService,
     GovernanceFeeService,
     GovernanceExecutionService,
     GovernanceRefundService,
     ProposalSchedulerService,
+    ProposalSimulationService,
     ExpansionService,
     VoteCountingService,
+    VoteDelegationService,
     TerminationService,
+    TerminationProcessor,
     DistributionService,
+    DistributionPolicyService,
     {
       provide: ProposalHealthService,
       useFactory: (
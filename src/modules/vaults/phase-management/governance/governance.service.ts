@@ -1,4 +1,5 @@
 import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
+import { Address } from '@emurgo/cardano-serialization-lib-nodejs';
 import {
   BadRequestException,
   ForbiddenException,
@@ -19,45 +20,58 @@ import { Brackets, In, IsNull, Not, Repository } from 'typeorm';
 import { TransactionsService } from '../../processing-tx/offchain-tx/transactions.service';
 import { BlockchainService } from '../../processing-tx/onchain/blockchain.service';
 
+import { DistributionPolicyService } from './distribution-policy.service';
 import { DistributionService } from './distribution.service';
 import { CreateProposalReq, ExecType } from './dto/create-proposal.req';
 import { CreateProposalRes } from './dto/create-proposal.res';
 import { AssetBuySellDto, GetTerminationAssetsDto } from './dto/get-assets.dto';
 import { GetProposalDetailRes } from './dto/get-proposal-detail.res';
 import { GetProposalsResItem } from './dto/get-proposal.dto';
-import { VoteReq } from './dto/vote.req';
-import { VoteRes } from './dto/vote.res';
+import { SimulateProposalRes } from './dto/simulate-proposal.res';
+import { VetoProposalReq } from './dto/veto-proposal.req';
+import { VetoProposalRes } from './dto/veto-proposal.res';
+import { GetVoteReceiptsRes } from './dto/vote-receipts.res';
+import { RevokeVoteReq, VoteReq } from './dto/vote.req';
+import { RevokeVoteRes, VoteRes } from './dto/vote.res';
 import { GovernanceFeeService } from './governance-fee.service';
 import { GovernanceRefundService } from './governance-refund.service';
+import { ProposalSimulationService } from './proposal-simulation.service';
 import { SnapshotService } from './snapshot.service';
-import { VoteCountingService } from './vote-counting.service';
+import { VoteCountingService, VoteResult } from './vote-counting.service';
+import { VoteDelegationService } from './vote-delegation.service';
 
+import { Cip30SignatureData, decodeCip30Signature, getStakeAddress } from '@/common/cardano/cip30-signature';
 import { MIN_LP_LIQUIDITY_FOR_MARKET_EXPANSION } from '@/constants/expansion.constants';
 import { Asset } from '@/database/asset.entity';
 import { AssetsWhitelistEntity } from '@/database/assetsWhitelist.entity';
 import { Claim } from '@/database/claim.entity';
 import { Proposal } from '@/database/proposal.entity';
+import { ProposalVeto } from '@/database/proposalVeto.entity';
 import { Snapshot } from '@/database/snapshot.entity';
 import { TokenVerification } from '@/database/token-verification.entity';
 import { User } from '@/database/user.entity';
 import { Vault } from '@/database/vault.entity';
 import { Vote } from '@/database/vote.entity';
+import { VoteHistory } from '@/database/voteHistory.entity';
 import { DexHunterPricingService } from '@/modules/dexhunter/dexhunter-pricing.service';
 import { DexHunterService } from '@/modules/dexhunter/dexhunter.service';
 import { SystemSettingsService } from '@/modules/globals/system-settings/system-settings.service';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
 import { RewardEventProducer } from '@/modules/rewards/services/reward-event-producer.service';
 import { TapToolsClient } from '@/modules/taptools/taptools.client';
 import { PaginatedResponseDto } from '@/modules/vaults/dto/paginated-response.dto';
 import { GetAssetsToListRes } from '@/modules/vaults/phase-management/governance/dto/get-assets-to-list.res';
 import { TreasuryWalletService } from '@/modules/vaults/treasure/treasure-wallet.service';
+import { getPaymentKeyHash } from '@/modules/vaults/treasure/treasury-multisig.helpers';
 import { WayUpPricingService } from '@/modules/wayup/wayup-pricing.service';
 import { AssetOriginType, AssetStatus, AssetType, AssetValuationMethod } from '@/types/asset.types';
 import { ClaimStatus, ClaimType } from '@/types/claim.types';
-import { ProposalStatus, ProposalType } from '@/types/proposal.types';
+import { ProposalStatus, ProposalStepStatus, ProposalType } from '@/types/proposal.types';
 import { RewardActivityType } from '@/types/rewards.types';
+import { SnapshotSource } from '@/types/snapshot.types';
 import { TransactionStatus, TransactionType } from '@/types/transaction.types';
 import { VaultStatus } from '@/types/vault.types';
-import { VoteType } from '@/types/vote.types';
+import { VoteCountingStrategy, VoteHistoryAction, VoteType } from '@/types/vote.types';
 
 /*
         .-""""-.
@@ -119,6 +133,10 @@ export class GovernanceService {
     private readonly claimRepository: Repository<Claim>,
     @InjectRepository(Vote)
     private readonly voteRepository: Repository<Vote>,
+    @InjectRepository(VoteHistory)
+    private readonly voteHistoryRepository: Repository<VoteHistory>,
+    @InjectRepository(ProposalVeto)
+    private readonly proposalVetoRepository: Repository<ProposalVeto>,
     @InjectRepository(Asset)
     private readonly assetRepository: Repository<Asset>,
     @InjectRepository(AssetsWhitelistEntity)
@@ -142,7 +160,10 @@ export class GovernanceService {
     private readonly tapToolsClient: TapToolsClient,
     private readonly treasuryWalletService: TreasuryWalletService,
     private readonly rewardEventProducer: RewardEventProducer,
-    private readonly snapshotService: SnapshotService
+    private readonly snapshotService: SnapshotService,
+    private readonly voteDelegationService: VoteDelegationService,
+    private readonly proposalSimulationService: ProposalSimulationService,
+    private readonly distributionPolicyService: DistributionPolicyService
   ) {
     this.isMainnet = this.configService.get<string>('CARDANO_NETWORK') === 'mainnet';
     this.poolAddress = this.configService.get<string>('POOL_ADDRESS');
@@ -171,6 +192,7 @@ export class GovernanceService {
   }
 
   @Cron(CronExpression.EVERY_12_HOURS)
+  @CoordinatedJob('governance-daily-snapshots')
   async createDailySnapshots(): Promise<void> {
     this.logger.log('Starting daily snapshot creation');
 
@@ -223,9 +245,14 @@ export class GovernanceService {
    * Creates an automatic snapshot for a vault.
    * @param vaultId - The ID of the vault
    * @param assetId - Concatenation of the policy ID and hex-encoded asset name
+   * @param source - AUTOMATIC for platform-created snapshots, ON_DEMAND when requested through the API
    * @returns - List of a addresses containing a specific asset.
    */
-  async createAutomaticSnapshot(vaultId: string, assetId: string): Promise<Snapshot> {
+  async createAutomaticSnapshot(
+    vaultId: string,
+    assetId: string,
+    source: SnapshotSource = SnapshotSource.AUTOMATIC
+  ): Promise<Snapshot> {
     try {
       // Fetch vault info including token unit for LP detection
       const vault: Pick<Vault, 'id' | 'ft_token_decimals' | 'policy_id' | 'asset_vault_name' | 'has_active_lp'> =
@@ -400,14 +427,10 @@ export class GovernanceService {
         addressBalancesForSnapshot[address] = String(balance);
       }
 
-      const snapshot = this.snapshotRepository.create({
-        vaultId,
-        assetId,
-        addressBalances: addressBalancesForSnapshot,
+      const snapshot = await this.snapshotService.saveSnapshot(vaultId, assetId, addressBalancesForSnapshot, {
+        source,
       });
 
-      await this.snapshotRepository.save(snapshot);
-
       this.logger.log(
         `Automatic snapshot created for vault ${vaultId} with ${Object.keys(addressBalances).length} voting addresses`
       );
@@ -419,11 +442,74 @@ export class GovernanceService {
     }
   }
 
-  async createProposal(
+  /**
+   * Snapshot requested through the API. Without a point in time the current holders are captured
+   * like the daily snapshot; a past time or slot is reconstructed from the vault token history.
+   */
+  async createOnDemandSnapshot(vaultId: string, at?: string, slot?: number): Promise<Snapshot> {
+    if (at !== undefined && slot !== undefined) {
+      throw new BadRequestException('Provide either at or slot, not both');
+    }
+
+    const vault = await this.vaultRepository.findOne({
+      where: { id: vaultId },
+      select: ['id', 'script_hash', 'asset_vault_name'],
+    });
+
+    if (!vault) {
+      throw new NotFoundException(`Vault ${vaultId} not found`);
+    }
+
+    if (!vault.script_hash || !vault.asset_vault_name) {
+      throw new BadRequestException('Vault token has not been minted yet');
+    }
+
+    if (at === undefined && slot === undefined) {
+      return this.createAutomaticSnapshot(
+        vaultId,
+        `${vault.script_hash}${vault.asset_vault_name}`,
+        SnapshotSource.ON_DEMAND
+      );
+    }
+
+    const pointInTime = slot !== undefined ? await this.snapshotService.slotToDate(slot) : new Date(at);
+
+    if (pointInTime.getTime() > Date.now()) {
+      throw new BadRequestException('Snapshot time cannot be in the future');
+    }
+
+    return this.snapshotService.createHistoricalSnapshot(vaultId, pointInTime, slot);
+  }
+
+  /**
+   * Dry-run of createProposal: runs the same validation and returns the execution plan
+   * (affected assets, treasury balance changes, distribution amounts, estimated fees) without persisting anything.
+   */
+  async simulateProposal(
     vaultId: string,
     createProposalReq: CreateProposalReq,
     userId: string
-  ): Promise<CreateProposalRes> {
+  ): Promise<SimulateProposalRes> {
+    const { latestSnapshot, proposal } = await this.prepareProposal(vaultId, createProposalReq, userId);
+
+    return this.proposalSimulationService.buildExecutionPlan(proposal, latestSnapshot);
+  }
+
+  /**
+   * Validates a proposal request and builds the (unsaved) proposal with its type-specific metadata.
+   * Shared by createProposal and simulateProposal so a dry run rejects exactly what a real submission would.
+   */
+  private async prepareProposal(
+    vaultId: string,
+    createProposalReq: CreateProposalReq,
+    userId: string
+  ): Promise<{
+    vault: Pick<Vault, 'id' | 'name'>;
+    user: User;
+    latestSnapshot: Snapshot;
+    proposal: Proposal;
+    startDate: Date;
+  }> {
     // Check governance kill switch
     if (!this.systemSettingsService.governanceEnabled) {
       throw new BadRequestException(
@@ -471,7 +557,18 @@ export class GovernanceService {
     // During expansion or acquire expansion, only Distribution proposals are allowed
     // All other proposal types involve extracting assets from vault which conflicts with expansion
     if (vault.vault_status === VaultStatus.expansion || vault.vault_status === VaultStatus.acquire_expansion) {
-      if (createProposalReq.type !== ProposalType.DISTRIBUTION) {
+      const requestedTypes =
+        createProposalReq.type === ProposalType.COMPOSITE
+          ? (createProposalReq.actions || []).map(action => action.type)
+          : [createProposalReq.type];
+
+      const distributionTypes: ProposalType[] = [
+        ProposalType.DISTRIBUTION,
+        ProposalType.DISTRIBUTION_POLICY,
+        ProposalType.REVOKE_DISTRIBUTION_POLICY,
+      ];
+
+      if (requestedTypes.some(type => !distributionTypes.includes(type))) {
         throw new BadRequestException(
           'During vault expansion, only Distribution proposals are allowed. ' +
             'Proposals that extract assets (Marketplace Actions, Burning, Termination, or new Expansions) must wait until the current expansion completes.'
@@ -695,29 +792,125 @@ export class GovernanceService {
     // Initialize metadata object
     proposal.metadata = {};
 
+    if (createProposalReq.treasurySweepDestinations?.length) {
+      proposal.metadata.treasurySweepDestinations = createProposalReq.treasurySweepDestinations;
+    }
+
+    if (createProposalReq.treasurySigners) {
+      const { holderAddresses, cosignerThreshold } = createProposalReq.treasurySigners;
+
+      // The full signer set (platform key, owner) is checked again when the multisig is enabled
+      holderAddresses.forEach(address => getPaymentKeyHash(address));
+      if (cosignerThreshold > holderAddresses.length + 1) {
+        throw new BadRequestException('Cosigner threshold exceeds the number of holder signers plus the vault owner');
+      }
+
+      proposal.metadata.treasurySigners = { holderAddresses, cosignerThreshold };
+    }
+
     // Set type-specific fields based on proposal type
     switch (createProposalReq.type) {
       case ProposalType.STAKING:
         proposal.metadata.fungibleTokens = createProposalReq.fts || [];
         proposal.metadata.nonFungibleTokens = createProposalReq.nfts || [];
+
+        if (createProposalReq.stakePoolId) {
+          const treasuryWallet = await this.treasuryWalletService.getTreasuryWallet(vaultId);
+          if (!treasuryWallet) {
+            throw new BadRequestException('No treasury wallet available for this vault');
+          }
+
+          try {
+            await this.blockfrost.poolsById(createProposalReq.stakePoolId);
+          } catch (error) {
+            if (error.status_code === 404 || error.message?.includes('not been found')) {
+              throw new BadRequestException(`Stake pool ${createProposalReq.stakePoolId} not found`);
+            }
+            throw error;
+          }
+
+          proposal.metadata.stakeDelegation = {
+            poolId: createProposalReq.stakePoolId,
+            withdrawRewards: createProposalReq.withdrawStakingRewards ?? false,
+          };
+        } else if (createProposalReq.withdrawStakingRewards) {
+          throw new BadRequestException('A stake pool is required to withdraw treasury staking rewards');
+        }
         break;
 
       case ProposalType.DISTRIBUTION: {
-        const lovelaceAmount = createProposalReq.distributionLovelaceAmount;
+        const lovelaceAmount = createProposalReq.distributionLovelaceAmount ?? 0;
+        const assets = (createProposalReq.distributionAssets || []).map(({ unit, quantity }) => ({ unit, quantity }));
 
-        if (!lovelaceAmount || lovelaceAmount <= 0) {
+        if (assets.length === 0 && lovelaceAmount <= 0) {
           throw new BadRequestException('Distribution lovelace amount is required and must be greater than 0');
         }
 
+        if (lovelaceAmount < 0) {
+          throw new BadRequestException('Distribution lovelace amount cannot be negative');
+        }
+
+        if (new Set(assets.map(asset => asset.unit)).size !== assets.length) {
+          throw new BadRequestException('Each token can only be listed once in a distribution');
+        }
+
         // Validate distribution using DistributionService
-        const validation = await this.distributionService.validateDistribution(vaultId, lovelaceAmount.toString());
+        const validation = await this.distributionService.validateDistribution(
+          vaultId,
+          lovelaceAmount.toString(),
+          assets
+        );
 
         if (!validation.valid) {
           throw new BadRequestException(validation.errors.join('; '));
         }
 
-        // Store the lovelace amount in metadata
+        // Store the distribution amounts in metadata
         proposal.metadata.distributionLovelaceAmount = lovelaceAmount.toString();
+        if (assets.length > 0) {
+          proposal.metadata.distributionAssets = assets;
+        }
+        break;
+      }
+
+      case ProposalType.DISTRIBUTION_POLICY: {
+        const terms = createProposalReq.distributionPolicy;
+
+        if (!terms) {
+          throw new BadRequestException('Policy terms are required for distribution policy proposals');
+        }
+
+        const treasuryWallet = await this.treasuryWalletService.getTreasuryWallet(vaultId);
+        if (!treasuryWallet) {
+          throw new BadRequestException('No treasury wallet available for this vault');
+        }
+
+        // One recurring policy per vault; a new one has to wait until the current one ends or is revoked
+        const activePolicy = await this.distributionPolicyService.findActivePolicy(vaultId);
+        if (activePolicy) {
+          throw new BadRequestException(
+            `Vault already has an active distribution policy (${activePolicy.id}). Revoke it before proposing a new one.`
+          );
+        }
+
+        proposal.metadata.distributionPolicy = {
+          percentOfExcess: terms.percentOfExcess,
+          floorLovelace: terms.floorLovelace.toString(),
+          intervalMs: terms.intervalDays * 24 * 60 * 60 * 1000,
+          runCount: terms.runCount,
+        };
+        break;
+      }
+
+      case ProposalType.REVOKE_DISTRIBUTION_POLICY: {
+        const policyId = createProposalReq.revokeDistributionPolicyId;
+
+        const activePolicy = policyId && (await this.distributionPolicyService.findActivePolicy(vaultId, policyId));
+        if (!activePolicy) {
+          throw new BadRequestException('Distribution policy not found or no longer active for this vault');
+        }
+
+        proposal.metadata.revokeDistributionPolicyId = policyId;
         break;
       }
 
@@ -1873,8 +2066,79 @@ export class GovernanceService {
 
         break;
       }
+
+      case ProposalType.COMPOSITE: {
+        const actions = createProposalReq.actions || [];
+
+        if (actions.length < 2) {
+          throw new BadRequestException('Composite proposals need at least two actions');
+        }
+
+        // The same asset can't be sold, burned or otherwise moved by two steps of one proposal
+        const stepAssetIds = actions.flatMap(action => [
+          ...(action.burnAssets || []),
+          ...(action.marketplaceActions || [])
+            .filter(ma => ma.exec !== ExecType.BUY && ma.exec !== ExecType.OFFER)
+            .map(ma => ma.assetId),
+        ]);
+        const duplicateAssetId = stepAssetIds.find((id, index) => stepAssetIds.indexOf(id) !== index);
+
+        if (duplicateAssetId) {
+          throw new BadRequestException(`Asset ${duplicateAssetId} is used by more than one action`);
+        }
+
+        // Each step goes through the same validation as a standalone proposal of its type
+        proposal.metadata.steps = [];
+        for (const [index, action] of actions.entries()) {
+          try {
+            const { proposal: stepProposal } = await this.prepareProposal(
+              vaultId,
+              {
+                ...createProposalReq,
+                type: action.type,
+                fts: action.fts,
+                nfts: action.nfts,
+                stakePoolId: action.stakePoolId,
+                withdrawStakingRewards: action.withdrawStakingRewards,
+                distributionLovelaceAmount: action.distributionLovelaceAmount,
+                distributionAssets: action.distributionAssets,
+                marketplaceActions: action.marketplaceActions,
+                metadata: { ...createProposalReq.metadata, burnAssets: action.burnAssets },
+                actions: undefined,
+              },
+              userId
+            );
+
+            proposal.metadata.steps.push({
+              type: action.type,
+              metadata: stepProposal.metadata,
+              status: ProposalStepStatus.PENDING,
+            });
+          } catch (error) {
+            if (error instanceof BadRequestException) {
+              throw new BadRequestException(`Action ${index + 1} (${action.type}): ${error.message}`);
+            }
+            throw error;
+          }
+        }
+        break;
+      }
     }
 
+    return { vault, user, latestSnapshot, proposal, startDate };
+  }
+
+  async createProposal(
+    vaultId: string,
+    createProposalReq: CreateProposalReq,
+    userId: string
+  ): Promise<CreateProposalRes> {
+    const { vault, user, latestSnapshot, proposal, startDate } = await this.prepareProposal(
+      vaultId,
+      createProposalReq,
+      userId
+    );
+
     // Check if governance fee is required for this proposal type
     const feeAmount = this.governanceFeeService.getProposalFee(createProposalReq.type);
     const requiresPayment = feeAmount > 0;
@@ -2018,8 +2282,7 @@ export class GovernanceService {
         }
 
         try {
-          const { votes: voteList, totals } = await this.getVotes(proposal.id);
-          const voteResult = this.voteCountingService.calculateResult(voteList, 0, 0, BigInt(totals.totalVotingPower));
+          const { result: voteResult } = await this.getVotes(proposal.id);
 
           return {
             ...baseProposal,
@@ -2040,7 +2303,7 @@ export class GovernanceService {
   async getProposal(proposalId: string, userId: string): Promise<GetProposalDetailRes> {
     const proposal = await this.proposalRepository.findOne({
       where: { id: proposalId },
-      relations: ['vault', 'snapshot'],
+      relations: ['vault', 'vault.owner', 'snapshot'],
       select: {
         vault: {
           id: true,
@@ -2049,6 +2312,7 @@ export class GovernanceService {
           vault_status: true,
           termination_type: true,
           termination_metadata: true,
+          owner: { id: true },
         },
       },
     });
@@ -2058,7 +2322,7 @@ export class GovernanceService {
     }
 
     // Parallelize independent queries for better performance
-    const [user, proposer, { votes, totals }] = await Promise.all([
+    const [user, proposer, { votes, totals, result: voteResult }, voteChangesCount] = await Promise.all([
       this.userRepository.findOne({
         where: { id: userId },
         select: ['id', 'address'],
@@ -2068,6 +2332,9 @@ export class GovernanceService {
         select: ['id', 'address'],
       }),
       this.getVotes(proposalId),
+      this.voteHistoryRepository.count({
+        where: { proposalId, action: In([VoteHistoryAction.CHANGE, VoteHistoryAction.REVOKE]) },
+      }),
     ]);
 
     // Calculate voting eligibility
@@ -2079,7 +2346,12 @@ export class GovernanceService {
 
       if (user?.address && proposal.snapshot) {
         const voteWeight = proposal.snapshot.addressBalances[user.address];
-        const hasVotingPower = voteWeight && voteWeight !== '0';
+        let hasVotingPower = !!voteWeight && voteWeight !== '0';
+
+        if (!hasVotingPower && isActive) {
+          const delegatedFrom = await this.voteDelegationService.resolveDelegatedWeights(proposal, user.address);
+          hasVotingPower = Object.keys(delegatedFrom).length > 0;
+        }
 
         const existingVote = await this.voteRepository.findOne({
           where: {
@@ -2091,9 +2363,10 @@ export class GovernanceService {
 
         if (existingVote) {
           selectedVote = existingVote.vote;
-        } else {
-          canVote = isActive && hasVotingPower;
         }
+
+        // Votes can be changed or revoked until the proposal ends
+        canVote = isActive && hasVotingPower;
       }
     } catch (error) {
       this.logger.error(
@@ -2156,6 +2429,7 @@ export class GovernanceService {
 
     // Get distribution info for DISTRIBUTION proposals
     const distributionLovelaceAmount = proposal.metadata?.distributionLovelaceAmount || null;
+    const distributionAssets = proposal.metadata?.distributionAssets;
     let distributionInfo = null;
 
     if (proposal.proposalType === ProposalType.DISTRIBUTION && distributionLovelaceAmount) {
@@ -2165,24 +2439,14 @@ export class GovernanceService {
         const totalLovelace = BigInt(distributionLovelaceAmount);
         const minAdaPerRecipient = BigInt(2_000_000); // 2 ADA minimum
 
-        // Calculate total VT supply and eligible holders
-        const totalVtSupply = Object.values(snapshot.addressBalances).reduce(
-          (sum, balance) => sum + BigInt(balance as string),
-          BigInt(0)
+        // Same eligibility rules as execution: ADA-only shares need 2 ADA, token shares are topped up
+        const recipients = await this.distributionService.calculateDistributionAmounts(
+          snapshot.addressBalances,
+          totalLovelace,
+          distributionAssets
         );
-
-        let eligibleHolders = 0;
-
-        for (const balance of Object.values(snapshot.addressBalances)) {
-          const vtBalance = BigInt(balance as string);
-          if (vtBalance === BigInt(0)) continue;
-
-          // Calculate proportional share
-          const share = (totalLovelace * vtBalance) / totalVtSupply;
-          if (share >= minAdaPerRecipient) {
-            eligibleHolders++;
-          }
-        }
+        const eligibleHolders = recipients.length;
+        const minUtxoTopUp = recipients.reduce((sum, r) => sum + r.minUtxoTopUp, BigInt(0));
 
         const totalHolders = Object.values(snapshot.addressBalances).filter(
           b => BigInt(b as string) > BigInt(0)
@@ -2199,6 +2463,7 @@ export class GovernanceService {
           skippedHolders,
           avgAdaPerHolder: avgLovelacePerHolder / 1_000_000,
           minAdaPerRecipient: Number(minAdaPerRecipient) / 1_000_000,
+          ...(minUtxoTopUp > BigInt(0) && { minUtxoTopUpAda: Number(minUtxoTopUp) / 1_000_000 }),
         };
       }
     }
@@ -2283,7 +2548,8 @@ export class GovernanceService {
     // Get distribution status for DISTRIBUTION proposals that have started execution
     let distributionStatus = null;
     if (
-      proposal.proposalType === ProposalType.DISTRIBUTION &&
+      (proposal.proposalType === ProposalType.DISTRIBUTION ||
+        proposal.metadata?.steps?.some(step => step.type === ProposalType.DISTRIBUTION)) &&
       proposal.metadata?.distribution &&
       (proposal.status === ProposalStatus.PASSED || proposal.status === ProposalStatus.EXECUTED)
     ) {
@@ -2303,6 +2569,7 @@ export class GovernanceService {
             totalBatches: b.totalBatches,
             recipientCount: b.recipientCount,
             lovelaceAmount: b.lovelaceAmount,
+            assets: b.assets,
             status: b.status,
             txHash: b.txHash,
             retryCount: b.retryCount,
@@ -2314,6 +2581,11 @@ export class GovernanceService {
       }
     }
 
+    const distributionPolicy =
+      proposal.proposalType === ProposalType.DISTRIBUTION_POLICY
+        ? await this.distributionPolicyService.getPolicyForProposal(proposalId)
+        : null;
+
     // Extract execution error from metadata if present
     const executionError = proposal.metadata?.executionError
       ? {
@@ -2324,22 +2596,47 @@ export class GovernanceService {
         }
       : undefined;
 
-    // Calculate vote percentages
-    let votePercentages = null;
-    try {
-      const voteResult = this.voteCountingService.calculateResult(votes, 0, 0, BigInt(totals.totalVotingPower));
-      votePercentages = {
-        yes: voteResult.yesVotePercent,
-        no: voteResult.noVotePercent,
-        abstain: proposal.abstain ? voteResult.abstainVotePercent : 0,
+    const steps = proposal.metadata?.steps?.map((step, index) => ({ index, ...step }));
+
+    // Timelock countdown and veto progress for proposals waiting to execute
+    let timelock = null;
+    if (
+      proposal.executableAt &&
+      (proposal.status === ProposalStatus.PASSED || proposal.status === ProposalStatus.VETOED)
+    ) {
+      const remainingMs = Math.max(0, proposal.executableAt.getTime() - Date.now());
+      const isPending = proposal.status === ProposalStatus.PASSED && remainingMs > 0;
+      const { vetoWeight, vetoPercent } = await this.getVetoTotals(proposal);
+
+      let canVeto = false;
+      if (isPending && user?.address) {
+        const isOwner = proposal.vault?.owner?.id === userId;
+        const holderBalance = proposal.snapshot?.addressBalances?.[user.address];
+        const hasVetoed = await this.proposalVetoRepository.exists({
+          where: { proposalId, voterAddress: user.address },
+        });
+        canVeto = isOwner || (!!holderBalance && holderBalance !== '0' && !hasVetoed);
+      }
+
+      timelock = {
+        executableAt: proposal.executableAt,
+        remainingMs,
+        isPending,
+        vetoWeight,
+        vetoPercent,
+        vetoThresholdPercent: this.systemSettingsService.governanceVetoSupermajorityPercent,
+        canVeto,
+        vetoedBy: proposal.metadata?.veto?.vetoedBy,
       };
-    } catch (error) {
-      this.logger.error(
-        `Error calculating vote percentages for proposal ${proposal.id}: ${error.message}`,
-        error.stack
-      );
     }
 
+    // Vote percentages as weighed by the vault's counting strategy
+    const votePercentages = {
+      yes: voteResult.yesVotePercent,
+      no: voteResult.noVotePercent,
+      abstain: proposal.abstain ? voteResult.abstainVotePercent : 0,
+    };
+
     // Map proposal entity to DTO with only needed fields
     const proposalDto = {
       id: proposal.id,
@@ -2353,6 +2650,7 @@ export class GovernanceService {
       endDate: proposal.endDate,
       executionDate: proposal.executionDate,
       terminationDate: proposal.terminationDate,
+      executableAt: proposal.executableAt,
       abstain: proposal.abstain,
       snapshotId: proposal.snapshotId,
       vaultId: proposal.vaultId,
@@ -2379,11 +2677,16 @@ export class GovernanceService {
       totals,
       canVote,
       selectedVote,
+      voteChangesCount,
+      steps,
+      timelock,
       proposer,
       burnAssets: burnAssetsWithNames,
       distributionLovelaceAmount,
+      distributionAssets,
       distributionInfo,
       distributionStatus,
+      distributionPolicy,
       fungibleTokens: fungibleTokensWithNames,
       nonFungibleTokens: nonFungibleTokensWithNames,
       marketplaceActions,
@@ -2395,75 +2698,110 @@ export class GovernanceService {
   }
 
   async vote(proposalId: string, voteReq: VoteReq, userId: string): Promise<VoteRes> {
-    const proposal = await this.proposalRepository.findOne({
-      where: { id: proposalId },
-    });
+    const proposal = await this.getProposalOpenForVoting(proposalId);
 
-    if (!proposal) {
-      throw new NotFoundException('Proposal not found');
+    if (!proposal.abstain && voteReq.vote === VoteType.ABSTAIN) {
+      throw new BadRequestException('Abstain option is not allowed for this proposal');
     }
 
-    if (proposal.status !== ProposalStatus.ACTIVE) {
-      throw new BadRequestException('Voting is only allowed on active proposals');
-    }
+    await this.assertVoterAddress(userId, voteReq.voterAddress);
 
-    if (!proposal.endDate || new Date() > proposal.endDate) {
-      throw new BadRequestException('Voting period has ended');
-    }
+    const signedPayload = this.buildVotePayload(proposalId, voteReq.vote, proposal.snapshotId);
 
-    if (!proposal.abstain && voteReq.vote === VoteType.ABSTAIN) {
-      throw new BadRequestException('Abstain option is not allowed for this proposal');
+    if (!this.isValidVoteSignature(voteReq.voterAddress, signedPayload, voteReq.signature)) {
+      throw new BadRequestException('Vote signature verification failed');
     }
 
-    // Check if user has already voted
-    const existingVote = await this.voteRepository.exists({
+    // An existing vote is replaced, so the vote table always holds the latest vote per address
+    const existingVote = await this.voteRepository.findOne({
       where: {
         proposalId,
         voterAddress: voteReq.voterAddress,
       },
     });
 
-    if (existingVote) {
-      throw new BadRequestException('Address has already voted on this proposal');
+    if (existingVote?.vote === voteReq.vote) {
+      throw new BadRequestException(`Address has already voted "${voteReq.vote}" on this proposal`);
     }
 
-    const voteWeight = await this.getVotingPower(proposal.vaultId, userId, 'vote');
-
-    const vote = this.voteRepository.create({
-      proposalId,
-      snapshotId: proposal.snapshotId,
-      voterId: userId,
-      voterAddress: voteReq.voterAddress,
-      voteWeight,
-      vote: voteReq.vote,
+    const hasVotedBefore = await this.voteHistoryRepository.exists({
+      where: { proposalId, voterAddress: voteReq.voterAddress },
     });
 
-    await this.voteRepository.save(vote);
+    // Delegated balances are resolved against the proposal snapshot at vote time
+    const delegatedFrom = await this.voteDelegationService.resolveDelegatedWeights(proposal, voteReq.voterAddress);
+    const delegatedWeight = Object.values(delegatedFrom).reduce((sum, balance) => sum + BigInt(balance), BigInt(0));
+
+    const voteWeight = await this.getProposalVoteWeight(proposal, voteReq.voterAddress, delegatedWeight);
+
+    const vote = await this.voteRepository.manager.transaction(async manager => {
+      // Voting directly overrides this address's own delegation for this proposal
+      await this.voteDelegationService.detachDelegator(manager, proposalId, voteReq.voterAddress);
+
+      const savedVote = await manager.save(
+        Vote,
+        manager.create(Vote, {
+          ...existingVote,
+          proposalId,
+          snapshotId: proposal.snapshotId,
+          voterId: userId,
+          voterAddress: voteReq.voterAddress,
+          voteWeight,
+          delegatedFrom: Object.keys(delegatedFrom).length > 0 ? delegatedFrom : null,
+          vote: voteReq.vote,
+          signedPayload,
+          signature: voteReq.signature.signature,
+          signatureKey: voteReq.signature.key,
+        })
+      );
+
+      await manager.save(
+        VoteHistory,
+        manager.create(VoteHistory, {
+          proposalId,
+          voteId: savedVote.id,
+          voterId: userId,
+          voterAddress: voteReq.voterAddress,
+          action: existingVote ? VoteHistoryAction.CHANGE : VoteHistoryAction.CAST,
+          previousVote: existingVote?.vote ?? null,
+          newVote: voteReq.vote,
+          voteWeight,
+          signedPayload,
+          signature: voteReq.signature.signature,
+          signatureKey: voteReq.signature.key,
+        })
+      );
+
+      return savedVote;
+    });
 
     // Index reward event for governance vote
+    // Only the first vote of an address counts, so revoking and re-voting can't farm rewards
     // Await for durability, but don't fail the main operation
-    try {
-      await this.rewardEventProducer.indexEvent({
-        walletAddress: voteReq.voterAddress,
-        vaultId: proposal.vaultId,
-        eventType: RewardActivityType.GOVERNANCE_VOTE,
-        units: 1,
-        metadata: { proposal_id: proposalId, vote_type: voteReq.vote },
-        idempotencyKey: `governance_vote:${vote.id}`,
-      });
-    } catch (rewardEventError) {
-      // Log but don't throw - main operation already succeeded
-      const errorMsg = rewardEventError instanceof Error ? rewardEventError.message : String(rewardEventError);
-      const errorStack = rewardEventError instanceof Error ? rewardEventError.stack : undefined;
-      this.logger.error(
-        `Vote ${vote.id} recorded successfully, but reward event indexing failed: ${errorMsg}`,
-        errorStack
-      );
+    if (!hasVotedBefore) {
+      try {
+        await this.rewardEventProducer.indexEvent({
+          walletAddress: voteReq.voterAddress,
+          vaultId: proposal.vaultId,
+          eventType: RewardActivityType.GOVERNANCE_VOTE,
+          units: 1,
+          metadata: { proposal_id: proposalId, vote_type: voteReq.vote },
+          idempotencyKey: `governance_vote:${vote.id}`,
+        });
+      } catch (rewardEventError) {
+        // Log but don't throw - main operation already succeeded
+        const errorMsg = rewardEventError instanceof Error ? rewardEventError.message : String(rewardEventError);
+        const errorStack = rewardEventError instanceof Error ? rewardEventError.stack : undefined;
+        this.logger.error(
+          `Vote ${vote.id} recorded successfully, but reward event indexing failed: ${errorMsg}`,
+          errorStack
+        );
+      }
     }
 
     return {
       success: true,
-      message: 'Vote recorded successfully',
+      message: existingVote ? 'Vote changed successfully' : 'Vote recorded successfully',
       vote: {
         id: vote.id,
         proposalId,
@@ -2476,6 +2814,235 @@ export class GovernanceService {
     };
   }
 
+  /**
+   * Withdraw a vote while the proposal is still active.
+   * The revocation is kept in the vote history; the tally simply no longer includes the address.
+   */
+  async revokeVote(proposalId: string, revokeReq: RevokeVoteReq, userId: string): Promise<RevokeVoteRes> {
+    const proposal = await this.getProposalOpenForVoting(proposalId);
+
+    await this.assertVoterAddress(userId, revokeReq.voterAddress);
+
+    const signedPayload = this.buildVotePayload(proposalId, 'revoke', proposal.snapshotId);
+
+    if (!this.isValidVoteSignature(revokeReq.voterAddress, signedPayload, revokeReq.signature)) {
+      throw new BadRequestException('Vote signature verification failed');
+    }
+
+    const existingVote = await this.voteRepository.findOne({
+      where: {
+        proposalId,
+        voterAddress: revokeReq.voterAddress,
+      },
+    });
+
+    if (!existingVote) {
+      throw new NotFoundException('No vote found for this address on this proposal');
+    }
+
+    await this.voteRepository.manager.transaction(async manager => {
+      await manager.delete(Vote, { id: existingVote.id });
+
+      // Without a direct vote the address's delegation applies again
+      await this.voteDelegationService.reattachDelegator(manager, proposal, revokeReq.voterAddress);
+
+      await manager.save(
+        VoteHistory,
+        manager.create(VoteHistory, {
+          proposalId,
+          voteId: existingVote.id,
+          voterId: userId,
+          voterAddress: revokeReq.voterAddress,
+          action: VoteHistoryAction.REVOKE,
+          previousVote: existingVote.vote,
+          newVote: null,
+          voteWeight: existingVote.voteWeight,
+          signedPayload,
+          signature: revokeReq.signature.signature,
+          signatureKey: revokeReq.signature.key,
+        })
+      );
+    });
+
+    return {
+      success: true,
+      message: 'Vote revoked successfully',
+    };
+  }
+
+  /**
+   * Veto a PASSED proposal while it is still inside its timelock.
+   * The vault owner cancels it outright; holders sign a veto and the proposal is cancelled
+   * once their combined snapshot weight reaches the configured supermajority.
+   */
+  async vetoProposal(proposalId: string, vetoReq: VetoProposalReq, userId: string): Promise<VetoProposalRes> {
+    const proposal = await this.proposalRepository.findOne({
+      where: { id: proposalId },
+      relations: ['vault', 'vault.owner', 'snapshot'],
+      select: {
+        vault: { id: true, owner: { id: true } },
+        snapshot: { id: true, addressBalances: true },
+      },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    if (proposal.status !== ProposalStatus.PASSED || !proposal.executableAt || new Date() >= proposal.executableAt) {
+      throw new BadRequestException('Only passed proposals inside their timelock can be vetoed');
+    }
+
+    if (proposal.vault?.owner?.id === userId) {
+      await this.markProposalVetoed(proposal, {
+        vetoedBy: 'owner',
+        userId,
+        reason: vetoReq.reason,
+        timestamp: new Date().toISOString(),
+      });
+
+      const { vetoWeight, vetoPercent } = await this.getVetoTotals(proposal);
+
+      return {
+        success: true,
+        message: 'Proposal vetoed by the vault owner',
+        status: ProposalStatus.VETOED,
+        vetoWeight,
+        vetoPercent,
+      };
+    }
+
+    if (!vetoReq.voterAddress || !vetoReq.signature) {
+      throw new BadRequestException('Holder vetoes require a voter address and signature');
+    }
+
+    await this.assertVoterAddress(userId, vetoReq.voterAddress);
+
+    const signedPayload = this.buildVotePayload(proposalId, 'veto', proposal.snapshotId);
+
+    if (!this.isValidVoteSignature(vetoReq.voterAddress, signedPayload, vetoReq.signature)) {
+      throw new BadRequestException('Veto signature verification failed');
+    }
+
+    const weight = proposal.snapshot?.addressBalances?.[vetoReq.voterAddress];
+
+    if (!weight || BigInt(weight) === BigInt(0)) {
+      throw new BadRequestException('NO_VOTING_POWER');
+    }
+
+    const alreadyVetoed = await this.proposalVetoRepository.exists({
+      where: { proposalId, voterAddress: vetoReq.voterAddress },
+    });
+
+    if (alreadyVetoed) {
+      throw new BadRequestException('Address has already vetoed this proposal');
+    }
+
+    await this.proposalVetoRepository.save(
+      this.proposalVetoRepository.create({
+        proposalId,
+        voterId: userId,
+        voterAddress: vetoReq.voterAddress,
+        weight,
+        signedPayload,
+        signature: vetoReq.signature.signature,
+        signatureKey: vetoReq.signature.key,
+      })
+    );
+
+    const { vetoWeight, vetoPercent } = await this.getVetoTotals(proposal);
+    const isVetoed = vetoPercent >= this.systemSettingsService.governanceVetoSupermajorityPercent;
+
+    if (isVetoed) {
+      await this.markProposalVetoed(proposal, {
+        vetoedBy: 'holders',
+        vetoWeight,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return {
+      success: true,
+      message: isVetoed ? 'Veto supermajority reached, proposal vetoed' : 'Veto recorded',
+      status: isVetoed ? ProposalStatus.VETOED : ProposalStatus.PASSED,
+      vetoWeight,
+      vetoPercent,
+    };
+  }
+
+  /**
+   * Sums holder vetoes against the proposal snapshot supply.
+   */
+  private async getVetoTotals(proposal: Proposal): Promise<{ vetoWeight: string; vetoPercent: number }> {
+    const vetoes = await this.proposalVetoRepository.find({
+      where: { proposalId: proposal.id },
+      select: ['weight'],
+    });
+
+    const vetoWeight = vetoes.reduce((sum, veto) => sum + BigInt(veto.weight), BigInt(0));
+    const totalSupply = Object.values(proposal.snapshot?.addressBalances || {}).reduce(
+      (sum, balance) => sum + BigInt(balance),
+      BigInt(0)
+    );
+
+    // Basis points keep two decimals without converting large supplies to Number
+    const vetoPercent = totalSupply > BigInt(0) ? Number((vetoWeight * BigInt(10000)) / totalSupply) / 100 : 0;
+
+    return { vetoWeight: vetoWeight.toString(), vetoPercent };
+  }
+
+  private async markProposalVetoed(proposal: Proposal, veto: Proposal['metadata']['veto']): Promise<void> {
+    // Guarded on PASSED so a proposal the executor already picked up is not flipped afterwards
+    const result = await this.proposalRepository.update(
+      { id: proposal.id, status: ProposalStatus.PASSED },
+      { status: ProposalStatus.VETOED, metadata: { ...proposal.metadata, veto } }
+    );
+
+    if (!result.affected) {
+      throw new BadRequestException('Proposal is no longer awaiting execution');
+    }
+
+    this.logger.log(`Proposal ${proposal.id} vetoed by ${veto.vetoedBy}`);
+
+    this.eventEmitter.emit('proposal.status.changed', {
+      proposalId: proposal.id,
+      status: ProposalStatus.VETOED,
+      previousStatus: ProposalStatus.PASSED,
+      timestamp: new Date(),
+    });
+  }
+
+  private async getProposalOpenForVoting(proposalId: string): Promise<Proposal> {
+    const proposal = await this.proposalRepository.findOne({
+      where: { id: proposalId },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    if (proposal.status !== ProposalStatus.ACTIVE) {
+      throw new BadRequestException('Voting is only allowed on active proposals');
+    }
+
+    if (!proposal.endDate || new Date() > proposal.endDate) {
+      throw new BadRequestException('Voting period has ended');
+    }
+
+    return proposal;
+  }
+
+  private async assertVoterAddress(userId: string, voterAddress: string): Promise<void> {
+    const voter = await this.userRepository.findOne({
+      where: { id: userId },
+      select: ['id', 'address'],
+    });
+
+    if (!voter || voter.address !== voterAddress) {
+      throw new ForbiddenException('Voter address does not match the authenticated wallet');
+    }
+  }
+
   /**
    * Submit governance fee payment transaction and activate proposal
    * Takes signed transaction, submits to blockchain, and activates the proposal
@@ -2769,6 +3336,7 @@ export class GovernanceService {
       id: string;
       voterAddress: string;
       voteWeight: string;
+      delegatedFrom: Record<string, string> | null;
       vote: VoteType;
       timestamp: Date;
     }[];
@@ -2778,10 +3346,18 @@ export class GovernanceService {
       abstain: string;
       totalVotingPower: string;
       votedPercentage: number;
+      countingStrategy: VoteCountingStrategy;
     };
+    result: VoteResult;
   }> {
     const proposal = await this.proposalRepository.findOne({
       where: { id: proposalId },
+      relations: ['vault'],
+      select: {
+        id: true,
+        snapshotId: true,
+        vault: { id: true, vote_counting_strategy: true, vote_counting_cap_percent: true },
+      },
     });
 
     if (!proposal) {
@@ -2791,7 +3367,7 @@ export class GovernanceService {
     const votes = await this.voteRepository.find({
       where: { proposalId },
       order: { timestamp: 'DESC' },
-      select: ['id', 'voterAddress', 'voteWeight', 'vote', 'timestamp'],
+      select: ['id', 'voterAddress', 'voteWeight', 'delegatedFrom', 'vote', 'timestamp'],
     });
 
     const snapshot = await this.snapshotRepository.findOne({
@@ -2807,36 +3383,140 @@ export class GovernanceService {
       BigInt(0)
     );
     const totalVotingPower = totalVotingPowerBigInt.toString();
+    const countingStrategy = proposal.vault?.vote_counting_strategy ?? VoteCountingStrategy.LINEAR;
 
-    // Use vote counting service to calculate all vote totals and percentages
-    const voteResult = this.voteCountingService.calculateResult(votes, 0, 0, totalVotingPowerBigInt);
+    // Use vote counting service to calculate all vote totals and percentages with the vault's strategy
+    const voteResult = this.voteCountingService.calculateStrategyResult(
+      votes,
+      snapshot.addressBalances,
+      countingStrategy,
+      proposal.vault?.vote_counting_cap_percent,
+      0,
+      0
+    );
 
     const totals = {
       yes: voteResult.yesVotes.toString(),
       no: voteResult.noVotes.toString(),
       abstain: voteResult.abstainVotes.toString(),
       totalVotingPower,
-      votedPercentage: 0,
+      votedPercentage: Math.floor(voteResult.participationPercent),
+      countingStrategy,
     };
 
-    // Calculate the percentage of total voting power that has voted
-    const votedVotingPower = voteResult.yesVotes + voteResult.noVotes + voteResult.abstainVotes;
-    if (totalVotingPowerBigInt > 0) {
-      totals.votedPercentage = Number((votedVotingPower * BigInt(100)) / totalVotingPowerBigInt);
-    }
-
     return {
       votes: votes.map(vote => ({
         id: vote.id,
         voterAddress: vote.voterAddress,
         voteWeight: vote.voteWeight,
+        delegatedFrom: vote.delegatedFrom ?? null,
         vote: vote.vote,
         timestamp: vote.timestamp,
       })),
       totals,
+      result: voteResult,
     };
   }
 
+  /**
+   * Returns every vote on a proposal together with its signed payload so anyone can
+   * re-verify the signatures against the snapshot and recompute the tally.
+   * Verified receipts are tallied with the vault's counting strategy, like `getVotes`.
+   */
+  async getVoteReceipts(proposalId: string): Promise<GetVoteReceiptsRes> {
+    const proposal = await this.proposalRepository.findOne({
+      where: { id: proposalId, status: Not(ProposalStatus.UNPAID) },
+      relations: ['snapshot', 'vault'],
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    if (!proposal.snapshot) {
+      throw new NotFoundException('Snapshot not found');
+    }
+
+    const votes = await this.voteRepository.find({
+      where: { proposalId },
+      order: { timestamp: 'ASC' },
+      select: [
+        'id',
+        'voterAddress',
+        'voteWeight',
+        'delegatedFrom',
+        'vote',
+        'snapshotId',
+        'signedPayload',
+        'signature',
+        'signatureKey',
+        'timestamp',
+      ],
+    });
+
+    const balances = proposal.snapshot.addressBalances;
+    const totalVotingPower = Object.values(balances).reduce((sum, balance) => sum + BigInt(balance), BigInt(0));
+    const countingStrategy = proposal.vault?.vote_counting_strategy ?? VoteCountingStrategy.LINEAR;
+    const verifiedVotes: Vote[] = [];
+
+    const receipts = votes.map(vote => {
+      const expectedPayload = this.buildVotePayload(proposalId, vote.vote, vote.snapshotId);
+      const verified =
+        !!vote.signature &&
+        vote.signedPayload === expectedPayload &&
+        this.isValidVoteSignature(vote.voterAddress, expectedPayload, {
+          signature: vote.signature,
+          key: vote.signatureKey,
+        });
+
+      if (verified) {
+        verifiedVotes.push(vote);
+      }
+
+      return {
+        voteId: vote.id,
+        voterAddress: vote.voterAddress,
+        vote: vote.vote,
+        voteWeight: vote.voteWeight,
+        snapshotBalance: balances[vote.voterAddress] ?? '0',
+        delegatedFrom: vote.delegatedFrom ?? null,
+        signedPayload: vote.signedPayload ?? null,
+        signature: vote.signature ?? null,
+        signatureKey: vote.signatureKey ?? null,
+        verified,
+        timestamp: vote.timestamp,
+      };
+    });
+
+    const tally = this.voteCountingService.calculateStrategyResult(
+      verifiedVotes,
+      balances,
+      countingStrategy,
+      proposal.vault?.vote_counting_cap_percent,
+      0,
+      0
+    );
+
+    return plainToInstance(
+      GetVoteReceiptsRes,
+      {
+        proposalId,
+        snapshotId: proposal.snapshotId,
+        snapshotBalances: balances,
+        receipts,
+        totals: {
+          yes: tally.yesVotes.toString(),
+          no: tally.noVotes.toString(),
+          abstain: tally.abstainVotes.toString(),
+          totalVotingPower: totalVotingPower.toString(),
+          unverifiedCount: votes.length - verifiedVotes.length,
+          countingStrategy,
+        },
+      },
+      { excludeExtraneousValues: true }
+    );
+  }
+
   async getVotingPower(vaultId: string, userId: string, action?: 'vote' | 'create_proposal'): Promise<string> {
     // Check if distribution is processed - don't use cache during distribution
     const vault = await this.vaultRepository.findOne({
@@ -3815,6 +4495,95 @@ export class GovernanceService {
     }
   }
 
+  /**
+   * Own plus delegated weight of a voter, both taken from the proposal snapshot. The vault's vote
+   * threshold applies to the combined weight, so a delegate without enough own VT can still vote
+   * with the power delegated to it.
+   */
+  private async getProposalVoteWeight(
+    proposal: Proposal,
+    voterAddress: string,
+    delegatedWeight: bigint
+  ): Promise<string> {
+    // LP VTs are excluded from governance
+    if (voterAddress === this.poolAddress) {
+      throw new BadRequestException(
+        'NO_VOTING_POWER',
+        'Liquidity pool addresses cannot vote. VT tokens in LP are excluded from governance.'
+      );
+    }
+
+    const [snapshot, vault] = await Promise.all([
+      this.snapshotRepository.findOne({
+        where: { id: proposal.snapshotId },
+        select: ['id', 'addressBalances'],
+      }),
+      this.vaultRepository.findOne({
+        where: { id: proposal.vaultId },
+        select: ['id', 'vote_threshold'],
+      }),
+    ]);
+
+    if (!snapshot) {
+      throw new NotFoundException('Snapshot not found');
+    }
+
+    if (!vault) {
+      throw new NotFoundException('Vault not found');
+    }
+
+    const voteWeight = BigInt(snapshot.addressBalances[voterAddress] ?? 0) + delegatedWeight;
+
+    if (voteWeight === BigInt(0)) {
+      throw new BadRequestException(
+        'NO_VOTING_POWER',
+        'You have no voting power in this vault. You must hold or be delegated vault tokens to vote.'
+      );
+    }
+
+    const totalVotingPower = Object.values(snapshot.addressBalances).reduce(
+      (sum, balance) => sum + BigInt(balance),
+      BigInt(0)
+    );
+    const voteWeightPercentFromAll = (voteWeight * BigInt(100)) / totalVotingPower;
+
+    if (voteWeightPercentFromAll < vault.vote_threshold) {
+      throw new BadRequestException(
+        'BELOW_THRESHOLD',
+        `Your voting power (${voteWeightPercentFromAll}) is below the minimum threshold (${vault.vote_threshold}).`
+      );
+    }
+
+    return voteWeight.toString();
+  }
+
+  /**
+   * Message the voter's wallet signs via CIP-30 signData. Binding the snapshot ID
+   * prevents a signature from being replayed against a different voting power base.
+   */
+  private buildVotePayload(proposalId: string, vote: VoteType | 'revoke' | 'veto', snapshotId: string): string {
+    return `proposal: ${proposalId}, vote: ${vote}, snapshot: ${snapshotId}`;
+  }
+
+  /**
+   * Verifies a COSE_Sign1 vote signature: valid Ed25519 signature, expected payload,
+   * and a signing key that belongs to the voter's wallet (same stake credential).
+   */
+  private isValidVoteSignature(voterAddress: string, expectedPayload: string, signature: Cip30SignatureData): boolean {
+    try {
+      const decoded = decodeCip30Signature(signature);
+      const voterStakeAddress = getStakeAddress(Address.from_bech32(voterAddress));
+      const signerMatches = voterStakeAddress
+        ? decoded.signerStakeAddress === voterStakeAddress
+        : decoded.signerAddress === voterAddress;
+
+      return decoded.isVerified && decoded.keyMatchesAddress && decoded.payload === expectedPayload && signerMatches;
+    } catch (error) {
+      this.logger.warn(`Failed to decode vote signature for ${voterAddress}: ${error.message}`);
+      return false;
+    }
+  }
+
   /**
    * Check if a target quantity is a valid combination (sum) of available amounts
    * Uses subset sum algorithm with memoization for efficiency
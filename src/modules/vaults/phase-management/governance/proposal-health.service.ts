@@ -8,6 +8,7 @@ import type { GovernanceExecutionService } from './governance-execution.service'
 import { ProposalSchedulerService } from './proposal-scheduler.service';
 
 import { Proposal } from '@/database/proposal.entity';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
 import { ProposalStatus } from '@/types/proposal.types';
 
 /**
@@ -32,6 +33,7 @@ export class ProposalHealthService {
    * This ensures that even if the dynamic scheduling fails, proposals will eventually be processed
    */
   @Cron(CronExpression.EVERY_6_HOURS)
+  @CoordinatedJob('proposal-fallback-processing')
   async fallbackProcessProposals(): Promise<void> {
     try {
       // Handle overdue activations using scheduler service
@@ -72,6 +74,7 @@ export class ProposalHealthService {
    * and reschedules if there's a mismatch
    */
   @Cron(CronExpression.EVERY_30_MINUTES)
+  @CoordinatedJob('proposal-job-health')
   async monitorJobHealth(): Promise<void> {
     try {
       const upcomingProposals = await this.proposalRepository.count({
@@ -0,0 +1,468 @@
+import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+
+import { DistributionService } from './distribution.service';
+import { ExecType } from './dto/create-proposal.req';
+import {
+  SimulatedAssetDto,
+  SimulatedDistributionDto,
+  SimulateProposalRes,
+  TreasuryBalanceChangeDto,
+} from './dto/simulate-proposal.res';
+import { GovernanceFeeService } from './governance-fee.service';
+
+import { Asset } from '@/database/asset.entity';
+import { Proposal } from '@/database/proposal.entity';
+import { Snapshot } from '@/database/snapshot.entity';
+import { TreasuryWalletService } from '@/modules/vaults/treasure/treasure-wallet.service';
+import { AssetOriginType, AssetStatus } from '@/types/asset.types';
+import { ProposalType } from '@/types/proposal.types';
+
+type SimulatedAsset = Pick<Asset, 'id' | 'name' | 'policy_id' | 'asset_id' | 'type' | 'status' | 'quantity'>;
+
+interface ExecutionPlan {
+  affectedAssets: SimulatedAssetDto[];
+  treasuryDeltas: Array<{ unit: string; change: bigint; reason: string }>;
+  distribution?: SimulatedDistributionDto;
+  /** Estimated serialized size of every transaction execution submits */
+  txSizes: number[];
+  /** Transactions that spend from the vault script and pay for Plutus execution units */
+  scriptTxCount: number;
+  warnings: string[];
+}
+
+/**
+ * Builds a dry-run execution plan for a validated, unsaved proposal.
+ * Mirrors what GovernanceExecutionService would do on PASSED without touching the chain or the database.
+ */
+@Injectable()
+export class ProposalSimulationService {
+  private readonly logger = new Logger(ProposalSimulationService.name);
+  private readonly blockfrost: BlockFrostAPI;
+
+  // Size heuristics for fee estimation (bytes)
+  private readonly TX_BASE_SIZE = 400;
+  private readonly TX_OUTPUT_SIZE = 70;
+  private readonly TX_ASSET_SIZE = 45;
+  private readonly SCRIPT_TX_OVERHEAD_SIZE = 4_000;
+  private readonly SCRIPT_EXECUTION_FEE = 300_000; // ~0.3 ADA for execution units of a vault script spend
+  // Mainnet linear fee parameters, used when protocol parameters can't be fetched
+  private readonly DEFAULT_MIN_FEE_A = 44;
+  private readonly DEFAULT_MIN_FEE_B = 155_381;
+
+  constructor(
+    @InjectRepository(Asset)
+    private readonly assetRepository: Repository<Asset>,
+    private readonly configService: ConfigService,
+    private readonly distributionService: DistributionService,
+    private readonly governanceFeeService: GovernanceFeeService,
+    private readonly treasuryWalletService: TreasuryWalletService
+  ) {
+    this.blockfrost = new BlockFrostAPI({
+      projectId: this.configService.get<string>('BLOCKFROST_API_KEY'),
+    });
+  }
+
+  async buildExecutionPlan(proposal: Proposal, snapshot: Snapshot | null): Promise<SimulateProposalRes> {
+    const warnings: string[] = [];
+    const treasuryBalances = await this.getTreasuryBalances(proposal.vaultId, warnings);
+
+    let plan: ExecutionPlan;
+    switch (proposal.proposalType) {
+      case ProposalType.DISTRIBUTION:
+        plan = await this.planDistribution(proposal, snapshot);
+        break;
+      case ProposalType.BURNING:
+        plan = await this.planBurning(proposal);
+        break;
+      case ProposalType.MARKETPLACE_ACTION:
+        plan = await this.planMarketplaceActions(proposal);
+        break;
+      case ProposalType.TERMINATION:
+        plan = await this.planTermination(proposal, snapshot, treasuryBalances.get('lovelace') ?? BigInt(0));
+        break;
+      case ProposalType.COMPOSITE:
+        plan = await this.planComposite(proposal, snapshot);
+        break;
+      default:
+        plan = {
+          affectedAssets: [],
+          treasuryDeltas: [],
+          txSizes: [],
+          scriptTxCount: 0,
+          warnings: [`No execution plan is available for ${proposal.proposalType} proposals`],
+        };
+    }
+
+    warnings.push(...plan.warnings);
+
+    const networkFee = await this.estimateNetworkFee(plan.txSizes, plan.scriptTxCount);
+    const treasuryChanges = this.aggregateTreasuryChanges(plan.treasuryDeltas, treasuryBalances, warnings);
+
+    return {
+      proposalType: proposal.proposalType,
+      affectedAssets: plan.affectedAssets,
+      treasuryChanges,
+      distribution: plan.distribution,
+      estimatedFees: {
+        transactionCount: plan.txSizes.length,
+        networkFeeLovelace: networkFee.toString(),
+        governanceFeeLovelace: String(this.governanceFeeService.getProposalFee(proposal.proposalType)),
+      },
+      warnings,
+    };
+  }
+
+  /**
+   * Concatenates the plans of every step, in execution order.
+   */
+  private async planComposite(proposal: Proposal, snapshot: Snapshot | null): Promise<ExecutionPlan> {
+    const plan: ExecutionPlan = { affectedAssets: [], treasuryDeltas: [], txSizes: [], scriptTxCount: 0, warnings: [] };
+
+    for (const [index, step] of (proposal.metadata.steps || []).entries()) {
+      const stepProposal = Object.assign(new Proposal(), proposal, {
+        proposalType: step.type,
+        metadata: { ...proposal.metadata, ...step.metadata },
+      });
+
+      let stepPlan: ExecutionPlan;
+      switch (step.type) {
+        case ProposalType.DISTRIBUTION:
+          stepPlan = await this.planDistribution(stepProposal, snapshot);
+          break;
+        case ProposalType.BURNING:
+          stepPlan = await this.planBurning(stepProposal);
+          break;
+        case ProposalType.MARKETPLACE_ACTION:
+          stepPlan = await this.planMarketplaceActions(stepProposal);
+          break;
+        default:
+          stepPlan = {
+            affectedAssets: [],
+            treasuryDeltas: [],
+            txSizes: [],
+            scriptTxCount: 0,
+            warnings: [`No execution plan is available for ${step.type} steps`],
+          };
+      }
+
+      plan.affectedAssets.push(...stepPlan.affectedAssets);
+      plan.treasuryDeltas.push(...stepPlan.treasuryDeltas);
+      plan.txSizes.push(...stepPlan.txSizes);
+      plan.scriptTxCount += stepPlan.scriptTxCount;
+      plan.warnings.push(...stepPlan.warnings.map(warning => `Step ${index + 1} (${step.type}): ${warning}`));
+      // Only one distribution step is reported in detail
+      plan.distribution ??= stepPlan.distribution;
+    }
+
+    return plan;
+  }
+
+  private async planDistribution(proposal: Proposal, snapshot: Snapshot | null): Promise<ExecutionPlan> {
+    const lovelaceAmount = BigInt(proposal.metadata.distributionLovelaceAmount || '0');
+    const assets = proposal.metadata.distributionAssets || [];
+    const distribution = await this.buildDistribution(snapshot, lovelaceAmount, assets);
+    const warnings: string[] = [];
+
+    if (distribution.skippedHolderCount > 0) {
+      warnings.push(
+        `${distribution.skippedHolderCount} holder(s) would receive less than the minimum UTxO and are skipped`
+      );
+    }
+
+    return {
+      affectedAssets: [],
+      treasuryDeltas: [
+        { unit: 'lovelace', change: -BigInt(distribution.totalLovelace), reason: 'Distribution to VT holders' },
+        ...(distribution.assets || []).map(asset => ({
+          unit: asset.unit,
+          change: -BigInt(asset.quantity),
+          reason: 'Distribution to VT holders',
+        })),
+      ],
+      distribution,
+      txSizes: this.distributionTxSizes(distribution),
+      scriptTxCount: 0,
+      warnings,
+    };
+  }
+
+  private async planBurning(proposal: Proposal): Promise<ExecutionPlan> {
+    const assetIds = proposal.metadata.burnAssets || [];
+    const warnings: string[] = [];
+
+    if (assetIds.length === 0) {
+      warnings.push('Proposal has no assets to burn');
+    }
+
+    const assets = await this.findAssets(assetIds);
+    const missing = assetIds.filter(id => !assets.some(asset => asset.id === id));
+    if (missing.length > 0) {
+      warnings.push(`Assets not found: ${missing.join(', ')}`);
+    }
+
+    // Same check executeBurningProposal performs before extracting to the burn wallet
+    const notLocked = assets.filter(asset => asset.status !== AssetStatus.LOCKED);
+    if (notLocked.length > 0) {
+      warnings.push(`Assets not in LOCKED status: ${notLocked.map(a => a.name || a.id).join(', ')}`);
+    }
+
+    return {
+      affectedAssets: assets.map(asset => this.toSimulatedAsset(asset, 'burn')),
+      treasuryDeltas: [],
+      txSizes: assets.length > 0 ? [this.scriptTxSize(assets.length)] : [],
+      scriptTxCount: assets.length > 0 ? 1 : 0,
+      warnings,
+    };
+  }
+
+  private async planMarketplaceActions(proposal: Proposal): Promise<ExecutionPlan> {
+    const actions = proposal.metadata.marketplaceActions || [];
+    const isSwap = actions[0]?.market?.toLowerCase() === 'dexhunter';
+    const warnings: string[] = [];
+    const affectedAssets: SimulatedAssetDto[] = [];
+    const treasuryDeltas: ExecutionPlan['treasuryDeltas'] = [];
+    const txSizes: number[] = [];
+
+    const dbAssetIds = actions.flatMap(action => {
+      if (action.resolvedAssets?.length) return action.resolvedAssets.map(r => r.assetId);
+      return action.exec === ExecType.BUY || action.exec === ExecType.OFFER ? [] : [action.assetId];
+    });
+    const assets = await this.findAssets(dbAssetIds);
+    const assetsById = new Map(assets.map(asset => [asset.id, asset]));
+
+    for (const action of actions) {
+      const label = action.nftSnapshot?.name || action.assetName || action.assetId;
+
+      if (isSwap) {
+        for (const resolved of action.resolvedAssets || []) {
+          const asset = assetsById.get(resolved.assetId);
+          if (!asset) continue;
+          affectedAssets.push({ ...this.toSimulatedAsset(asset, 'swap'), quantity: resolved.quantity });
+          treasuryDeltas.push({
+            unit: `${asset.policy_id}${asset.asset_id}`,
+            change: -BigInt(Math.floor(resolved.quantity)),
+            reason: `DexHunter swap of ${asset.name || label}`,
+          });
+        }
+        txSizes.push(this.scriptTxSize(action.resolvedAssets?.length || 1));
+        continue;
+      }
+
+      switch (action.exec) {
+        case ExecType.BUY:
+        case ExecType.OFFER: {
+          const priceAda = parseFloat(action.price || action.maxPrice || '0');
+          treasuryDeltas.push({
+            unit: 'lovelace',
+            change: -BigInt(Math.round(priceAda * 1_000_000)),
+            reason: `${action.exec === ExecType.BUY ? 'Buy' : 'Offer on'} ${label}`,
+          });
+          txSizes.push(this.TX_BASE_SIZE + 2 * this.TX_OUTPUT_SIZE);
+          break;
+        }
+        default: {
+          const asset = assetsById.get(action.assetId);
+          if (asset) {
+            affectedAssets.push(this.toSimulatedAsset(asset, action.exec.toLowerCase()));
+          }
+          txSizes.push(this.scriptTxSize(1));
+        }
+      }
+    }
+
+    if (isSwap) {
+      warnings.push('ADA received from swaps depends on the market price at execution time and is not included');
+    }
+
+    return {
+      affectedAssets,
+      treasuryDeltas,
+      txSizes,
+      scriptTxCount: txSizes.length,
+      warnings,
+    };
+  }
+
+  private async planTermination(
+    proposal: Proposal,
+    snapshot: Snapshot | null,
+    treasuryLovelace: bigint
+  ): Promise<ExecutionPlan> {
+    // Termination processes every locked asset except fee assets, then pays the treasury out to VT holders
+    const assets = await this.assetRepository.find({
+      where: { vault: { id: proposal.vaultId }, status: AssetStatus.LOCKED, deleted: false },
+      select: ['id', 'name', 'policy_id', 'asset_id', 'type', 'status', 'quantity', 'origin_type'],
+    });
+    const nonFeeAssets = assets.filter(asset => asset.origin_type !== AssetOriginType.FEE);
+
+    const distribution = await this.buildDistribution(snapshot, treasuryLovelace);
+    const txSizes = this.distributionTxSizes(distribution);
+    if (nonFeeAssets.length > 0) {
+      txSizes.unshift(this.scriptTxSize(nonFeeAssets.length));
+    }
+
+    return {
+      affectedAssets: nonFeeAssets.map(asset => this.toSimulatedAsset(asset, 'terminate')),
+      treasuryDeltas: [
+        {
+          unit: 'lovelace',
+          change: -BigInt(distribution.totalLovelace),
+          reason: 'Termination claims for VT holders',
+        },
+      ],
+      distribution,
+      txSizes,
+      scriptTxCount: nonFeeAssets.length > 0 ? 1 : 0,
+      warnings: [
+        'Termination amounts are estimated from the current treasury balance; ADA recovered from LP positions and asset sales is not included',
+      ],
+    };
+  }
+
+  private async buildDistribution(
+    snapshot: Snapshot | null,
+    lovelaceAmount: bigint,
+    assets: Array<{ unit: string; quantity: string }> = []
+  ): Promise<SimulatedDistributionDto> {
+    const addressBalances = snapshot?.addressBalances || {};
+    const recipients = await this.distributionService.calculateDistributionAmounts(
+      addressBalances,
+      lovelaceAmount,
+      assets
+    );
+    const holderCount = Object.values(addressBalances).filter(balance => BigInt(balance) > BigInt(0)).length;
+    const totalLovelace = recipients.reduce((sum, r) => sum + r.lovelaceShare, BigInt(0));
+    const minUtxoTopUp = recipients.reduce((sum, r) => sum + r.minUtxoTopUp, BigInt(0));
+
+    // Rounding leaves dust of each token in the treasury, so report what is actually sent
+    const assetTotals = assets.map(asset => ({
+      unit: asset.unit,
+      quantity: recipients
+        .reduce(
+          (sum, r) => sum + (r.assetShares.find(share => share.unit === asset.unit)?.quantity ?? BigInt(0)),
+          BigInt(0)
+        )
+        .toString(),
+    }));
+
+    return {
+      totalLovelace: totalLovelace.toString(),
+      ...(assets.length > 0 && { assets: assetTotals, minUtxoTopUpLovelace: minUtxoTopUp.toString() }),
+      recipientCount: recipients.length,
+      skippedHolderCount: holderCount - recipients.length,
+      batchCount: this.distributionService.estimateBatchCount(recipients),
+      recipients: recipients.map(r => ({
+        address: r.address,
+        vtBalance: r.vtBalance.toString(),
+        lovelaceShare: r.lovelaceShare.toString(),
+        ...(r.assetShares.length > 0 && {
+          assetShares: r.assetShares.map(share => ({ unit: share.unit, quantity: share.quantity.toString() })),
+        }),
+      })),
+    };
+  }
+
+  private distributionTxSizes(distribution: SimulatedDistributionDto): number[] {
+    const sizes: number[] = [];
+    let remaining = distribution.recipientCount;
+    const outputSize = this.TX_OUTPUT_SIZE + (distribution.assets?.length ?? 0) * this.TX_ASSET_SIZE;
+
+    for (let batch = 0; batch < distribution.batchCount; batch++) {
+      const outputs = Math.ceil(remaining / (distribution.batchCount - batch));
+      sizes.push(this.TX_BASE_SIZE + (outputs + 1) * outputSize);
+      remaining -= outputs;
+    }
+
+    return sizes;
+  }
+
+  private scriptTxSize(assetCount: number): number {
+    return this.TX_BASE_SIZE + this.SCRIPT_TX_OVERHEAD_SIZE + 2 * this.TX_OUTPUT_SIZE + assetCount * this.TX_ASSET_SIZE;
+  }
+
+  private async estimateNetworkFee(txSizes: number[], scriptTxCount: number): Promise<bigint> {
+    let minFeeA = this.DEFAULT_MIN_FEE_A;
+    let minFeeB = this.DEFAULT_MIN_FEE_B;
+
+    if (txSizes.length > 0) {
+      try {
+        const params = await this.blockfrost.epochsLatestParameters();
+        minFeeA = params.min_fee_a;
+        minFeeB = params.min_fee_b;
+      } catch (error) {
+        this.logger.warn(`Failed to fetch protocol parameters, using default fee parameters: ${error.message}`);
+      }
+    }
+
+    const linearFees = txSizes.reduce((sum, size) => sum + BigInt(minFeeA * size + minFeeB), BigInt(0));
+    return linearFees + BigInt(scriptTxCount * this.SCRIPT_EXECUTION_FEE);
+  }
+
+  private async getTreasuryBalances(vaultId: string, warnings: string[]): Promise<Map<string, bigint>> {
+    const balances = new Map<string, bigint>();
+
+    try {
+      const balance = await this.treasuryWalletService.getTreasuryWalletBalance(vaultId);
+      balances.set('lovelace', BigInt(balance.lovelace));
+      for (const asset of balance.assets) {
+        balances.set(asset.unit, BigInt(asset.quantity));
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to load treasury balance for vault ${vaultId}: ${error.message}`);
+      warnings.push('Treasury balance is unavailable; current amounts are reported as 0');
+    }
+
+    return balances;
+  }
+
+  private aggregateTreasuryChanges(
+    deltas: ExecutionPlan['treasuryDeltas'],
+    balances: Map<string, bigint>,
+    warnings: string[]
+  ): TreasuryBalanceChangeDto[] {
+    const totals = new Map<string, bigint>();
+    for (const delta of deltas) {
+      totals.set(delta.unit, (totals.get(delta.unit) ?? BigInt(0)) + delta.change);
+    }
+
+    for (const [unit, change] of totals) {
+      const current = balances.get(unit) ?? BigInt(0);
+      if (current + change < BigInt(0)) {
+        warnings.push(`Treasury balance of ${unit} (${current}) does not cover the planned ${-change}`);
+      }
+    }
+
+    return deltas.map(delta => ({
+      unit: delta.unit,
+      currentAmount: (balances.get(delta.unit) ?? BigInt(0)).toString(),
+      change: delta.change.toString(),
+      reason: delta.reason,
+    }));
+  }
+
+  private async findAssets(assetIds: string[]): Promise<SimulatedAsset[]> {
+    if (assetIds.length === 0) return [];
+
+    return this.assetRepository.find({
+      where: { id: In(assetIds) },
+      select: ['id', 'name', 'policy_id', 'asset_id', 'type', 'status', 'quantity'],
+    });
+  }
+
+  private toSimulatedAsset(asset: SimulatedAsset, action: string): SimulatedAssetDto {
+    return {
+      id: asset.id,
+      name: asset.name ?? null,
+      policyId: asset.policy_id,
+      assetId: asset.asset_id,
+      type: asset.type,
+      status: asset.status,
+      quantity: asset.quantity,
+      action,
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import { Body, Controller, Get, Param, ParseUUIDPipe, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+import {
+  CreateSnapshotReq,
+  GetSnapshotsQuery,
+  HolderBalanceHistoryItemDto,
+  SnapshotDiffQuery,
+  SnapshotDiffRes,
+  SnapshotSummaryDto,
+} from './dto/snapshot.dto';
+import GovernanceService from './governance.service';
+import { SnapshotService } from './snapshot.service';
+
+import { AdminGuard } from '@/modules/auth/admin.guard';
+import { PaginatedResponseDto } from '@/modules/vaults/dto/paginated-response.dto';
+
+@ApiTags('Snapshots')
+@Controller('vaults')
+export class SnapshotController {
+  constructor(
+    private readonly governanceService: GovernanceService,
+    private readonly snapshotService: SnapshotService
+  ) {}
+
+  @Post(':vaultId/snapshots')
+  @UseGuards(AdminGuard)
+  @ApiOperation({
+    summary: 'Create an on-demand snapshot',
+    description:
+      'Captures the current VT holders, or reconstructs the holders at a past time or slot from the vault token transaction history',
+  })
+  @ApiResponse({ status: 201, description: 'Snapshot created', type: SnapshotSummaryDto })
+  async createSnapshot(
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Body() body: CreateSnapshotReq
+  ): Promise<SnapshotSummaryDto> {
+    const snapshot = await this.governanceService.createOnDemandSnapshot(vaultId, body.at, body.slot);
+
+    return {
+      id: snapshot.id,
+      assetId: snapshot.assetId,
+      source: snapshot.source,
+      slot: snapshot.slot ?? undefined,
+      holderCount: snapshot.holderCount,
+      totalBalance: snapshot.totalBalance,
+      createdAt: snapshot.createdAt,
+    };
+  }
+
+  @Get(':vaultId/snapshots')
+  @ApiOperation({ summary: 'List vault snapshots, newest first' })
+  @ApiResponse({ status: 200, description: 'Paginated snapshots', type: PaginatedResponseDto })
+  async getSnapshots(
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Query() query: GetSnapshotsQuery
+  ): Promise<PaginatedResponseDto<SnapshotSummaryDto>> {
+    return this.snapshotService.getSnapshots(vaultId, query.page, query.limit);
+  }
+
+  @Get(':vaultId/snapshots/diff')
+  @ApiOperation({
+    summary: 'Compare two snapshots',
+    description: 'New holders, exited holders and biggest balance movers between two snapshots of the vault',
+  })
+  @ApiResponse({ status: 200, description: 'Snapshot diff', type: SnapshotDiffRes })
+  async diffSnapshots(
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Query() query: SnapshotDiffQuery
+  ): Promise<SnapshotDiffRes> {
+    return this.snapshotService.diffSnapshots(vaultId, query.from, query.to, query.limit);
+  }
+
+  @Get(':vaultId/snapshots/holders/:address')
+  @ApiOperation({ summary: 'Balance history of one address across the vault snapshots' })
+  @ApiResponse({ status: 200, description: 'Paginated balance history', type: PaginatedResponseDto })
+  async getHolderHistory(
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Param('address') address: string,
+    @Query() query: GetSnapshotsQuery
+  ): Promise<PaginatedResponseDto<HolderBalanceHistoryItemDto>> {
+    return this.snapshotService.getHolderHistory(vaultId, address, query.page, query.limit);
+  }
+}
@@ -5,9 +5,10 @@ import { SnapshotService } from './snapshot.service';
 
 import { Snapshot } from '@/database/snapshot.entity';
 import { User } from '@/database/user.entity';
+import { Vault } from '@/database/vault.entity';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Snapshot, User])],
+  imports: [TypeOrmModule.forFeature([Snapshot, User, Vault])],
   providers: [SnapshotService],
   exports: [SnapshotService],
 })
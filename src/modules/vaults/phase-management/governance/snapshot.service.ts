@@ -1,22 +1,62 @@
-import { Injectable } from '@nestjs/common';
+import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, Repository } from 'typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+
+import {
+  HolderBalanceHistoryItemDto,
+  SnapshotDiffRes,
+  SnapshotHolderChangeDto,
+  SnapshotSummaryDto,
+} from './dto/snapshot.dto';
 
 import { Snapshot } from '@/database/snapshot.entity';
 import { User } from '@/database/user.entity';
+import { Vault } from '@/database/vault.entity';
+import { PaginatedResponseDto } from '@/modules/vaults/dto/paginated-response.dto';
+import { SnapshotSource } from '@/types/snapshot.types';
 
 /**
  * Service for snapshot-related utility operations
- * Provides shared methods for working with snapshot data across governance services
+ * Provides shared methods for working with snapshot data across governance services,
+ * plus the snapshot history (listing, per-holder lookups, diffs and historical reconstruction)
  */
 @Injectable()
 export class SnapshotService {
+  private readonly logger = new Logger(SnapshotService.name);
+  private readonly blockfrost: BlockFrostAPI;
+  private readonly poolAddress: string;
+  private readonly adminAddress: string;
+
+  // Upper bound on VT transactions replayed for a historical snapshot (one Blockfrost call each)
+  private readonly MAX_HISTORY_TRANSACTIONS = 2000;
+
+  private readonly SUMMARY_COLUMNS: (keyof Snapshot)[] = [
+    'id',
+    'assetId',
+    'source',
+    'slot',
+    'holderCount',
+    'totalBalance',
+    'createdAt',
+  ];
+
   constructor(
     @InjectRepository(Snapshot)
     private readonly snapshotsRepository: Repository<Snapshot>,
     @InjectRepository(User)
-    private readonly userRepository: Repository<User>
-  ) {}
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Vault)
+    private readonly vaultRepository: Repository<Vault>,
+    private readonly configService: ConfigService
+  ) {
+    this.poolAddress = this.configService.get<string>('POOL_ADDRESS');
+    this.adminAddress = this.configService.get<string>('ADMIN_ADDRESS');
+    this.blockfrost = new BlockFrostAPI({
+      projectId: this.configService.get<string>('BLOCKFROST_API_KEY'),
+    });
+  }
 
   /**
    * Resolve user IDs from snapshot addressBalances.
@@ -56,4 +96,305 @@ export class SnapshotService {
 
     return this.getTokenHolderIdsFromSnapshot(snapshot?.addressBalances);
   }
+
+  /**
+   * Persist a snapshot together with its holder count and balance total.
+   *
+   * @param createdAt - Point in time the balances describe; defaults to now
+   */
+  async saveSnapshot(
+    vaultId: string,
+    assetId: string,
+    addressBalances: Record<string, string>,
+    options: { source: SnapshotSource; createdAt?: Date; slot?: number }
+  ): Promise<Snapshot> {
+    const totalBalance = Object.values(addressBalances).reduce((sum, balance) => sum + BigInt(balance), BigInt(0));
+
+    const snapshot = this.snapshotsRepository.create({
+      vaultId,
+      assetId,
+      addressBalances,
+      source: options.source,
+      holderCount: Object.keys(addressBalances).length,
+      totalBalance: totalBalance.toString(),
+      ...(options.createdAt && { createdAt: options.createdAt }),
+      ...(options.slot !== undefined && { slot: options.slot.toString() }),
+    });
+
+    return this.snapshotsRepository.save(snapshot);
+  }
+
+  /**
+   * Snapshots of a vault, newest first, without the balances themselves
+   */
+  async getSnapshots(vaultId: string, page = 1, limit = 10): Promise<PaginatedResponseDto<SnapshotSummaryDto>> {
+    const [items, total] = await this.snapshotsRepository.findAndCount({
+      where: { vaultId },
+      select: this.SUMMARY_COLUMNS,
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      items: items.map(snapshot => this.toSummary(snapshot)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Balance of one address across the vault's snapshots, newest first.
+   * Snapshots where the address held nothing are included with a zero balance.
+   */
+  async getHolderHistory(
+    vaultId: string,
+    address: string,
+    page = 1,
+    limit = 10
+  ): Promise<PaginatedResponseDto<HolderBalanceHistoryItemDto>> {
+    const total = await this.snapshotsRepository.count({ where: { vaultId } });
+
+    const rows: Array<{
+      snapshotId: string;
+      source: SnapshotSource;
+      slot: string | null;
+      createdAt: Date;
+      balance: string | null;
+    }> = await this.snapshotsRepository
+      .createQueryBuilder('snapshot')
+      .select('snapshot.id', 'snapshotId')
+      .addSelect('snapshot.source', 'source')
+      .addSelect('snapshot.slot', 'slot')
+      .addSelect('snapshot.created_at', 'createdAt')
+      .addSelect('snapshot.address_balances ->> :address', 'balance')
+      .where('snapshot.vault_id = :vaultId', { vaultId })
+      .setParameter('address', address)
+      .orderBy('snapshot.created_at', 'DESC')
+      .offset((page - 1) * limit)
+      .limit(limit)
+      .getRawMany();
+
+    return {
+      items: rows.map(row => ({
+        snapshotId: row.snapshotId,
+        source: row.source,
+        slot: row.slot ?? undefined,
+        createdAt: row.createdAt,
+        balance: row.balance ?? '0',
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Compares two snapshots of a vault: holders that appeared, holders that left and the
+   * continuing holders with the largest balance change.
+   *
+   * @param toId - Newer snapshot; defaults to the latest one
+   * @param fromId - Older snapshot; defaults to the one preceding `toId`
+   * @param limit - Maximum entries in each list
+   */
+  async diffSnapshots(vaultId: string, fromId?: string, toId?: string, limit = 20): Promise<SnapshotDiffRes> {
+    const to = toId
+      ? await this.snapshotsRepository.findOne({ where: { id: toId, vaultId } })
+      : await this.snapshotsRepository.findOne({ where: { vaultId }, order: { createdAt: 'DESC' } });
+
+    if (!to) {
+      throw new NotFoundException(toId ? `Snapshot ${toId} not found for vault ${vaultId}` : 'Vault has no snapshots');
+    }
+
+    const from = fromId
+      ? await this.snapshotsRepository.findOne({ where: { id: fromId, vaultId } })
+      : await this.snapshotsRepository.findOne({
+          where: { vaultId, createdAt: LessThan(to.createdAt) },
+          order: { createdAt: 'DESC' },
+        });
+
+    if (!from) {
+      throw new NotFoundException(
+        fromId ? `Snapshot ${fromId} not found for vault ${vaultId}` : `No snapshot precedes snapshot ${to.id}`
+      );
+    }
+
+    const fromBalances = from.addressBalances ?? {};
+    const toBalances = to.addressBalances ?? {};
+
+    const newHolders: SnapshotHolderChangeDto[] = [];
+    const exitedHolders: SnapshotHolderChangeDto[] = [];
+    const movers: SnapshotHolderChangeDto[] = [];
+
+    for (const [address, balance] of Object.entries(toBalances)) {
+      const previous = fromBalances[address];
+
+      if (previous === undefined) {
+        newHolders.push(this.toHolderChange(address, '0', balance));
+      } else if (BigInt(previous) !== BigInt(balance)) {
+        movers.push(this.toHolderChange(address, previous, balance));
+      }
+    }
+
+    for (const [address, balance] of Object.entries(fromBalances)) {
+      if (toBalances[address] === undefined) {
+        exitedHolders.push(this.toHolderChange(address, balance, '0'));
+      }
+    }
+
+    const abs = (value: bigint): bigint => (value < BigInt(0) ? -value : value);
+    const byMagnitudeDesc = (a: bigint, b: bigint): number => (a > b ? -1 : a < b ? 1 : 0);
+
+    newHolders.sort((a, b) => byMagnitudeDesc(BigInt(a.toBalance), BigInt(b.toBalance)));
+    exitedHolders.sort((a, b) => byMagnitudeDesc(BigInt(a.fromBalance), BigInt(b.fromBalance)));
+    movers.sort((a, b) => byMagnitudeDesc(abs(BigInt(a.delta)), abs(BigInt(b.delta))));
+
+    return {
+      from: this.toSummary(from),
+      to: this.toSummary(to),
+      newHolderCount: newHolders.length,
+      exitedHolderCount: exitedHolders.length,
+      changedHolderCount: movers.length,
+      totalBalanceDelta: (BigInt(to.totalBalance) - BigInt(from.totalBalance)).toString(),
+      newHolders: newHolders.slice(0, limit),
+      exitedHolders: exitedHolders.slice(0, limit),
+      biggestMovers: movers.slice(0, limit),
+    };
+  }
+
+  /**
+   * Converts an absolute slot to a date, anchored on the chain tip (one slot per second since Shelley)
+   */
+  async slotToDate(slot: number): Promise<Date> {
+    const tip = await this.blockfrost.blocksLatest();
+    return new Date((tip.time - (tip.slot - slot)) * 1000);
+  }
+
+  /**
+   * Rebuilds holder balances of the vault token at a past point in time and stores them as a
+   * HISTORICAL snapshot dated `at`.
+   *
+   * Current holders are taken from Blockfrost and every VT transaction after `at` is undone
+   * (outputs subtracted, spent inputs added back). Collateral and reference inputs are ignored.
+   * LP positions cannot be reconstructed, so vaults with an active LP are rejected rather than
+   * getting a snapshot that would weigh LP providers differently from the automatic ones.
+   */
+  async createHistoricalSnapshot(vaultId: string, at: Date, slot?: number): Promise<Snapshot> {
+    const vault = await this.vaultRepository.findOne({
+      where: { id: vaultId },
+      select: ['id', 'script_hash', 'asset_vault_name', 'has_active_lp'],
+    });
+
+    if (!vault) {
+      throw new NotFoundException(`Vault ${vaultId} not found`);
+    }
+
+    if (!vault.script_hash || !vault.asset_vault_name) {
+      throw new BadRequestException('Vault token has not been minted yet');
+    }
+
+    if (vault.has_active_lp) {
+      throw new BadRequestException('Historical snapshots are not available for vaults with an active liquidity pool');
+    }
+
+    const assetId = `${vault.script_hash}${vault.asset_vault_name}`;
+    const atSeconds = Math.floor(at.getTime() / 1000);
+
+    const balances = new Map<string, bigint>();
+
+    for (let page = 1; ; page++) {
+      const holders = await this.blockfrost.assetsAddresses(assetId, { page, order: 'desc' });
+      if (holders.length === 0) break;
+
+      for (const holder of holders) {
+        balances.set(holder.address, BigInt(holder.quantity));
+      }
+    }
+
+    const laterTxHashes: string[] = [];
+    let reachedTarget = false;
+
+    for (let page = 1; !reachedTarget; page++) {
+      const txs = await this.blockfrost.assetsTransactions(assetId, { page, order: 'desc' });
+      if (txs.length === 0) break;
+
+      for (const tx of txs) {
+        if (tx.block_time <= atSeconds) {
+          reachedTarget = true;
+          break;
+        }
+
+        laterTxHashes.push(tx.tx_hash);
+
+        if (laterTxHashes.length > this.MAX_HISTORY_TRANSACTIONS) {
+          throw new BadRequestException(
+            `More than ${this.MAX_HISTORY_TRANSACTIONS} vault token transactions happened since ${at.toISOString()}; choose a more recent point in time`
+          );
+        }
+      }
+    }
+
+    for (const txHash of laterTxHashes) {
+      const utxos = await this.blockfrost.txsUtxos(txHash);
+
+      for (const output of utxos.outputs) {
+        if (output.collateral) continue;
+        const quantity = output.amount.find(a => a.unit === assetId)?.quantity;
+        if (quantity) {
+          balances.set(output.address, (balances.get(output.address) ?? BigInt(0)) - BigInt(quantity));
+        }
+      }
+
+      for (const input of utxos.inputs) {
+        if (input.collateral || input.reference) continue;
+        const quantity = input.amount.find(a => a.unit === assetId)?.quantity;
+        if (quantity) {
+          balances.set(input.address, (balances.get(input.address) ?? BigInt(0)) + BigInt(quantity));
+        }
+      }
+    }
+
+    const addressBalances: Record<string, string> = {};
+    for (const [address, balance] of balances) {
+      if (balance <= BigInt(0) || address === this.poolAddress || address === this.adminAddress) continue;
+      addressBalances[address] = balance.toString();
+    }
+
+    const snapshot = await this.saveSnapshot(vaultId, assetId, addressBalances, {
+      source: SnapshotSource.HISTORICAL,
+      createdAt: at,
+      slot,
+    });
+
+    this.logger.log(
+      `Historical snapshot ${snapshot.id} for vault ${vaultId} at ${at.toISOString()}: ` +
+        `${snapshot.holderCount} holders, ${laterTxHashes.length} transactions replayed`
+    );
+
+    return snapshot;
+  }
+
+  private toSummary(snapshot: Snapshot): SnapshotSummaryDto {
+    return {
+      id: snapshot.id,
+      assetId: snapshot.assetId,
+      source: snapshot.source,
+      slot: snapshot.slot ?? undefined,
+      holderCount: snapshot.holderCount,
+      totalBalance: snapshot.totalBalance,
+      createdAt: snapshot.createdAt,
+    };
+  }
+
+  private toHolderChange(address: string, fromBalance: string, toBalance: string): SnapshotHolderChangeDto {
+    return {
+      address,
+      fromBalance,
+      toBalance,
+      delta: (BigInt(toBalance) - BigInt(fromBalance)).toString(),
+    };
+  }
 }
@@ -0,0 +1,31 @@
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job, UnrecoverableError } from 'bullmq';
+
+import { TerminationService } from './termination.service';
+
+import { VaultJobsService } from '@/modules/vault-jobs/vault-jobs.service';
+import { VaultJobData, VaultJobQueue, VaultTerminationJobName } from '@/types/vault-jobs.types';
+
+@Processor(VaultJobQueue.TERMINATION)
+export class TerminationProcessor extends WorkerHost {
+  constructor(
+    private readonly terminationService: TerminationService,
+    private readonly vaultJobsService: VaultJobsService
+  ) {
+    super();
+  }
+
+  async process(job: Job<VaultJobData>): Promise<void> {
+    switch (job.name) {
+      case VaultTerminationJobName.STEP:
+        return this.terminationService.processQueuedTerminationStep(job.data.vaultId, job.data.expectedState);
+      default:
+        throw new UnrecoverableError(`Unknown job name: ${job.name}`);
+    }
+  }
+
+  @OnWorkerEvent('failed')
+  async onFailed(job: Job<VaultJobData> | undefined, error: Error): Promise<void> {
+    await this.vaultJobsService.handleFailedJob(VaultJobQueue.TERMINATION, job, error);
+  }
+}
@@ -2,12 +2,11 @@ import { Buffer } from 'buffer';
 
 import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
 import { Address, FixedTransaction, PrivateKey } from '@emurgo/cardano-serialization-lib-nodejs';
-import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectRepository } from '@nestjs/typeorm';
-import Redis from 'ioredis';
 import NodeCache from 'node-cache';
 import { In, Repository } from 'typeorm';
 
@@ -18,18 +17,23 @@ import { getUtxosExtract } from '../../processing-tx/onchain/utils/lib';
 import { VaultManagingService } from '../../processing-tx/onchain/vault-managing.service';
 import { TreasuryWalletService } from '../../treasure/treasure-wallet.service';
 import { TreasuryExtractionService } from '../../treasure/treasury-extraction.service';
+import { TreasurySweepService } from '../../treasure/treasury-sweep.service';
+import { VaultStateMachineService } from '../state-machine/vault-state-machine.service';
 
 import { Asset } from '@/database/asset.entity';
 import { Claim } from '@/database/claim.entity';
 import { Snapshot } from '@/database/snapshot.entity';
 import { User } from '@/database/user.entity';
 import { Vault } from '@/database/vault.entity';
-import { REDIS_CLIENT } from '@/modules/redis/redis.module';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
+import { VaultJobsService } from '@/modules/vault-jobs/vault-jobs.service';
 import { VyfiService } from '@/modules/vyfi/vyfi.service';
 import { AssetOriginType, AssetStatus, AssetType } from '@/types/asset.types';
 import type { TerminationClaimMetadata } from '@/types/claim-metadata.types';
 import { ClaimStatus, ClaimType } from '@/types/claim.types';
 import { TransactionStatus, TransactionType } from '@/types/transaction.types';
+import { TreasurySweepAuthorizationType, TreasurySweepStatus } from '@/types/treasury.types';
+import { VaultJobQueue, VaultTerminationJobName } from '@/types/vault-jobs.types';
 import { VaultStatus } from '@/types/vault.types';
 
 /**
@@ -68,6 +72,7 @@ export interface TerminationMetadata {
   actualAdaReturn?: string; // Actual ADA received from VyFi (in lovelace)
   vtBurnTxHash?: string;
   adaTransferTxHash?: string;
+  treasurySweepId?: string;
   treasurySweepTxHash?: string;
   sweptLovelace?: string;
   totalAdaForDistribution?: string; // In lovelace
@@ -80,6 +85,8 @@ export interface TerminationMetadata {
   error?: string;
 }
 
+const TERMINATION_ACTOR = 'cron:termination';
+
 @Injectable()
 export class TerminationService {
   private readonly logger = new Logger(TerminationService.name);
@@ -125,8 +132,10 @@ export class TerminationService {
     private readonly treasuryWalletService: TreasuryWalletService,
     private readonly vaultManagingService: VaultManagingService,
     private readonly treasuryExtractionService: TreasuryExtractionService,
+    private readonly treasurySweepService: TreasurySweepService,
     private readonly transactionsService: TransactionsService,
-    @Inject(REDIS_CLIENT) private readonly redis: Redis
+    private readonly vaultStateMachineService: VaultStateMachineService,
+    private readonly vaultJobsService: VaultJobsService
   ) {
     this.isMainnet = this.configService.get<string>('CARDANO_NETWORK') === 'mainnet';
     this.adminAddress = this.configService.get<string>('ADMIN_ADDRESS');
@@ -160,70 +169,63 @@ export class TerminationService {
   }
 
   /**
-   * Acquire a distributed lock using Redis
-   * Uses Redis SET NX EX for atomic lock acquisition with TTL
+   * Monitor termination progress every 10 minutes
+   * Queues the next termination step of every terminating vault; steps waiting on chain (LP return, claims)
+   * are queued again on each run until they advance
    */
-  private async acquireLock(lockKey: string, ttlSeconds: number): Promise<boolean> {
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  @CoordinatedJob('vault-termination')
+  async monitorTerminations(): Promise<void> {
     try {
-      // SET NX EX: Set if Not eXists with EXpiration
-      // Returns 'OK' if lock acquired, null if already exists
-      const result = await this.redis.set(lockKey, '1', 'EX', ttlSeconds, 'NX');
-      return result === 'OK';
-    } catch (error: any) {
-      this.logger.error(`Failed to acquire lock ${lockKey}: ${error.message}`);
-      return false;
-    }
-  }
+      // Find vaults in terminating status
+      const terminatingVaults = await this.vaultRepository.find({
+        where: { vault_status: VaultStatus.terminating }, // Will add to enum
+        select: ['id', 'termination_metadata'],
+      });
 
-  /**
-   * Release a distributed lock
-   */
-  private async releaseLock(lockKey: string): Promise<void> {
-    try {
-      await this.redis.del(lockKey);
+      for (const vault of terminatingVaults) {
+        await this.enqueueTerminationStep(vault);
+      }
     } catch (error: any) {
-      this.logger.warn(`Failed to release lock ${lockKey}: ${error.message}`);
+      this.logger.error(`Error in termination monitor: ${error.message}`, error.stack);
     }
   }
 
   /**
-   * Monitor termination progress every 10 minutes
-   * Checks for pending LP returns and advances termination state
-   * Uses distributed locking to prevent multiple instances from processing simultaneously
+   * Job `termination-step`: runs the step for `expectedStep` if the vault is still at it
    */
-  @Cron(CronExpression.EVERY_10_MINUTES)
-  async monitorTerminations(): Promise<void> {
-    const lockKey = 'termination:monitor:lock';
-    const acquired = await this.acquireLock(lockKey, 540); // 9 min TTL (in seconds)
+  async processQueuedTerminationStep(vaultId: string, expectedStep: string): Promise<void> {
+    const vault = await this.vaultRepository.findOne({
+      where: { id: vaultId },
+      relations: ['treasury_wallet'],
+    });
 
-    if (!acquired) {
-      this.logger.debug('Another instance is processing terminations, skipping');
+    const termination = vault?.termination_metadata as TerminationMetadata | undefined;
+
+    if (vault?.vault_status !== VaultStatus.terminating || termination?.status !== expectedStep) {
+      this.logger.log(`Vault ${vaultId} is no longer at termination step ${expectedStep}, skipping`);
       return;
     }
 
-    try {
-      // Find vaults in terminating status
-      const terminatingVaults = await this.vaultRepository.find({
-        where: { vault_status: VaultStatus.terminating }, // Will add to enum
-        relations: ['treasury_wallet'],
-      });
+    await this.processTerminationStep(vault);
+  }
 
-      if (terminatingVaults.length === 0) {
-        return;
-      }
+  private async enqueueTerminationStep(vault: Pick<Vault, 'id' | 'termination_metadata'>): Promise<void> {
+    const termination = vault.termination_metadata as TerminationMetadata | undefined;
 
-      for (const vault of terminatingVaults) {
-        try {
-          await this.processTerminationStep(vault);
-        } catch (error: any) {
-          this.logger.error(`Error processing termination for vault ${vault.id}: ${error.message}`, error.stack);
-        }
-      }
-    } catch (error: any) {
-      this.logger.error(`Error in termination monitor: ${error.message}`, error.stack);
-    } finally {
-      await this.releaseLock(lockKey);
+    if (!termination) {
+      this.logger.warn(`Vault ${vault.id} has no termination metadata`);
+      return;
     }
+
+    if (termination.status === TerminationStatus.TREASURY_CLEANED) {
+      return;
+    }
+
+    await this.vaultJobsService.enqueue(VaultJobQueue.TERMINATION, VaultTerminationJobName.STEP, {
+      vaultId: vault.id,
+      expectedState: termination.status,
+    });
   }
 
   /**
@@ -248,17 +250,17 @@ export class TerminationService {
     };
 
     // Update vault status to terminating
-    await this.vaultRepository.update(
-      { id: vaultId },
-      {
-        vault_status: VaultStatus.terminating,
-        termination_metadata: terminationMetadata,
-      }
+    const transition = await this.vaultStateMachineService.transition(
+      vaultId,
+      VaultStatus.terminating,
+      { reason: 'termination_proposal_executed', proposalId },
+      { termination_metadata: terminationMetadata }
     );
 
-    // Refresh vault object with updated termination_metadata
-    vault.vault_status = VaultStatus.terminating;
-    vault.termination_metadata = terminationMetadata;
+    if (!transition) {
+      this.logger.warn(`Vault ${vaultId} is already terminating - the termination monitor continues it`);
+      return;
+    }
 
     this.eventEmitter.emit('vault.termination_started', {
       vaultId,
@@ -266,7 +268,7 @@ export class TerminationService {
     });
 
     // Start the termination process
-    await this.processTerminationStep(vault);
+    await this.enqueueTerminationStep({ id: vaultId, termination_metadata: terminationMetadata });
   }
 
   /**
@@ -1190,9 +1192,16 @@ export class TerminationService {
       await this.transactionsService.updateTransactionHash(txId, submitResponse.txHash);
 
       // Update vault status to burned
-      await this.vaultRepository.update(
-        { id: vault.id },
-        { vault_status: VaultStatus.burned, deactivated_at: new Date() }
+      await this.vaultStateMachineService.transition(
+        vault.id,
+        VaultStatus.burned,
+        {
+          reason: 'termination_vault_burned',
+          actor: TERMINATION_ACTOR,
+          txHash: submitResponse.txHash,
+          proposalId: (vault.termination_metadata as TerminationMetadata)?.proposalId,
+        },
+        { deactivated_at: new Date() }
       );
 
       await this.updateTerminationStatus(vault.id, TerminationStatus.VAULT_BURNED);
@@ -1209,9 +1218,15 @@ export class TerminationService {
       // Handle case where vault UTXO is not found (already burned)
       if (error.message?.includes('not found') || error.status === 404) {
         this.logger.warn(`Vault UTXO not found for ${vault.asset_vault_name} - may already be burned`);
-        await this.vaultRepository.update(
-          { id: vault.id },
-          { vault_status: VaultStatus.burned, deactivated_at: new Date() }
+        await this.vaultStateMachineService.transition(
+          vault.id,
+          VaultStatus.burned,
+          {
+            reason: 'termination_vault_already_burned',
+            actor: TERMINATION_ACTOR,
+            proposalId: (vault.termination_metadata as TerminationMetadata)?.proposalId,
+          },
+          { deactivated_at: new Date() }
         );
         await this.updateTerminationStatus(vault.id, TerminationStatus.VAULT_BURNED);
         await this.stepCleanupTreasuryWallet(vault);
@@ -1242,28 +1257,61 @@ export class TerminationService {
         return;
       }
 
-      const balance = await this.treasuryWalletService.getTreasuryWalletBalance(vault.id);
+      // A sweep from an earlier run is followed up instead of preparing another one
+      const sweepId = (vault.termination_metadata as TerminationMetadata)?.treasurySweepId;
+      const recordedSweep = sweepId ? await this.treasurySweepService.getSweep(vault.id, sweepId) : null;
 
-      if (balance && balance.lovelace > 0) {
-        if (balance.lovelace >= this.MIN_ADA_FOR_SWEEP) {
-          this.logger.log(
-            `Treasury wallet has ${balance.lovelace} lovelace (${balance.lovelace / 1_000_000} ADA) remaining - sweeping to admin wallet`
-          );
+      if (
+        recordedSweep?.status === TreasurySweepStatus.PREPARED ||
+        recordedSweep?.status === TreasurySweepStatus.CONFIRMED
+      ) {
+        this.logger.log(`Treasury sweep ${recordedSweep.id} of vault ${vault.id} is still ${recordedSweep.status}`);
+        return;
+      }
 
-          // Sweep remaining ADA to admin wallet
-          const sweepTxHash = await this.treasuryWalletService.sweepTreasuryWallet(vault.id, this.adminAddress);
+      if (recordedSweep?.status === TreasurySweepStatus.SUBMITTED) {
+        this.logger.log(
+          `Treasury sweep ${recordedSweep.id} of vault ${vault.id} was submitted in ${recordedSweep.txHash}`
+        );
+        await this.updateTerminationMetadata(vault.id, {
+          treasurySweepTxHash: recordedSweep.txHash,
+          sweptLovelace: recordedSweep.lovelace,
+        });
+      } else {
+        const balance = await this.treasuryWalletService.getTreasuryWalletBalance(vault.id);
 
-          await this.updateTerminationMetadata(vault.id, {
-            treasurySweepTxHash: sweepTxHash,
-            sweptLovelace: balance.lovelace.toString(),
-          });
+        if (balance && balance.lovelace > 0) {
+          if (balance.lovelace >= this.MIN_ADA_FOR_SWEEP) {
+            this.logger.log(
+              `Treasury wallet has ${balance.lovelace} lovelace (${balance.lovelace / 1_000_000} ADA) remaining - sweeping to admin wallet`
+            );
+
+            // Sweep remaining ADA to admin wallet
+            const sweep = await this.treasurySweepService.sweep(vault.id, this.adminAddress, {
+              type: TreasurySweepAuthorizationType.TERMINATION,
+              proposalId: (vault.termination_metadata as TerminationMetadata)?.proposalId,
+            });
+
+            if (sweep.status === TreasurySweepStatus.PREPARED) {
+              // Large remainder: the step is retried until an admin confirms the sweep
+              this.logger.log(`Treasury sweep ${sweep.id} of vault ${vault.id} is waiting for admin confirmation`);
+              await this.updateTerminationMetadata(vault.id, { treasurySweepId: sweep.id });
+              return;
+            }
+
+            await this.updateTerminationMetadata(vault.id, {
+              treasurySweepId: sweep.id,
+              treasurySweepTxHash: sweep.txHash,
+              sweptLovelace: balance.lovelace.toString(),
+            });
+          } else {
+            this.logger.log(
+              `Treasury wallet has ${balance.lovelace} lovelace (${balance.lovelace / 1_000_000} ADA) - below sweep threshold (${this.MIN_ADA_FOR_SWEEP / 1_000_000} ADA), skipping sweep`
+            );
+          }
         } else {
-          this.logger.log(
-            `Treasury wallet has ${balance.lovelace} lovelace (${balance.lovelace / 1_000_000} ADA) - below sweep threshold (${this.MIN_ADA_FOR_SWEEP / 1_000_000} ADA), skipping sweep`
-          );
+          this.logger.log(`Treasury wallet is empty - proceeding to key deletion`);
         }
-      } else {
-        this.logger.log(`Treasury wallet is empty - proceeding to key deletion`);
       }
 
       // We currently keep the KMS keys for record-keeping and manual cleanup later if needed
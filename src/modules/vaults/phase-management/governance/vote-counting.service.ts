@@ -1,6 +1,17 @@
 import { Injectable } from '@nestjs/common';
 
-import { VoteType } from '@/types/vote.types';
+import { VOTE_WEIGHT_STRATEGIES } from './vote-counting.strategies';
+
+import { VoteCountingStrategy, VoteType } from '@/types/vote.types';
+
+export interface CountableVote {
+  id: string;
+  voterAddress: string;
+  voteWeight: string;
+  vote: VoteType;
+  timestamp: Date;
+  delegatedFrom?: Record<string, string> | null;
+}
 
 export interface VoteResult {
   yesVotes: bigint;
@@ -27,13 +38,7 @@ export class VoteCountingService {
    * @returns Vote calculation result with success status
    */
   calculateResult(
-    votes: {
-      id: string;
-      voterAddress: string;
-      voteWeight: string;
-      vote: VoteType;
-      timestamp: Date;
-    }[],
+    votes: CountableVote[],
     executionThreshold: number,
     participationThreshold: number = 0,
     totalVotingPower?: bigint
@@ -96,4 +101,59 @@ export class VoteCountingService {
       meetsParticipationThreshold,
     };
   }
+
+  /**
+   * Calculate vote results using the vault's counting strategy.
+   * Each address behind a vote (the voter and any delegators) is weighed separately,
+   * and total voting power is re-weighed from the snapshot the same way.
+   * @param votes - Array of votes for the proposal
+   * @param snapshotBalances - Address balances from the proposal snapshot
+   * @param strategy - Vault vote counting strategy
+   * @param capPercent - Per-address cap for the capped strategy (0-100)
+   * @param executionThreshold - Required percentage of yes votes for execution (0-100)
+   * @param participationThreshold - Required percentage of total voting power that must participate (0-100)
+   * @returns Vote calculation result with success status
+   */
+  calculateStrategyResult(
+    votes: CountableVote[],
+    snapshotBalances: Record<string, string> | null | undefined,
+    strategy: VoteCountingStrategy | null | undefined,
+    capPercent: number | null | undefined,
+    executionThreshold: number,
+    participationThreshold: number = 0
+  ): VoteResult {
+    const balances = Object.values(snapshotBalances || {}).map(balance => BigInt(balance));
+    const totalSupply = balances.reduce((sum, balance) => sum + balance, BigInt(0));
+    const hasSnapshot = totalSupply > BigInt(0);
+
+    if (!strategy || strategy === VoteCountingStrategy.LINEAR) {
+      return this.calculateResult(
+        votes,
+        executionThreshold,
+        participationThreshold,
+        hasSnapshot ? totalSupply : undefined
+      );
+    }
+
+    const handler = VOTE_WEIGHT_STRATEGIES[strategy];
+    const context = { totalSupply, capPercent: capPercent ? Number(capPercent) : undefined };
+
+    const weightedVotes = votes.map(vote => {
+      const delegated = Object.values(vote.delegatedFrom || {}).map(balance => BigInt(balance));
+      const delegatedTotal = delegated.reduce((sum, balance) => sum + balance, BigInt(0));
+      const ownBalance = BigInt(vote.voteWeight) - delegatedTotal;
+
+      const weight = [ownBalance, ...delegated]
+        .filter(balance => balance > BigInt(0))
+        .reduce((sum, balance) => sum + handler.weigh(balance, context), BigInt(0));
+
+      return { ...vote, voteWeight: weight.toString() };
+    });
+
+    const totalVotingPower = hasSnapshot
+      ? balances.reduce((sum, balance) => sum + handler.weigh(balance, context), BigInt(0))
+      : undefined;
+
+    return this.calculateResult(weightedVotes, executionThreshold, participationThreshold, totalVotingPower);
+  }
 }
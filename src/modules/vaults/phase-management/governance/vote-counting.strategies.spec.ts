@@ -0,0 +1,252 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { VoteCountingService, CountableVote } from './vote-counting.service';
+import { VOTE_WEIGHT_STRATEGIES } from './vote-counting.strategies';
+
+import { VoteCountingStrategy, VoteType } from '@/types/vote.types';
+
+const context = { totalSupply: BigInt(1000) };
+
+function vote(
+  voterAddress: string,
+  choice: VoteType,
+  voteWeight: string,
+  delegatedFrom?: Record<string, string>
+): CountableVote {
+  return { id: voterAddress, voterAddress, vote: choice, voteWeight, delegatedFrom, timestamp: new Date() };
+}
+
+describe('VOTE_WEIGHT_STRATEGIES', () => {
+  describe('linear', () => {
+    const { weigh } = VOTE_WEIGHT_STRATEGIES[VoteCountingStrategy.LINEAR];
+
+    it('counts the raw balance', () => {
+      expect(weigh(BigInt(0), context)).toBe(BigInt(0));
+      expect(weigh(BigInt(1234), context)).toBe(BigInt(1234));
+    });
+  });
+
+  describe('quadratic', () => {
+    const { weigh } = VOTE_WEIGHT_STRATEGIES[VoteCountingStrategy.QUADRATIC];
+
+    it('takes the floor of the square root', () => {
+      expect(weigh(BigInt(0), context)).toBe(BigInt(0));
+      expect(weigh(BigInt(1), context)).toBe(BigInt(1));
+      expect(weigh(BigInt(99), context)).toBe(BigInt(9));
+      expect(weigh(BigInt(100), context)).toBe(BigInt(10));
+    });
+
+    it('stays exact beyond Number precision', () => {
+      const root = BigInt('123456789012345678901');
+      expect(weigh(root * root, context)).toBe(root);
+      expect(weigh(root * root - BigInt(1), context)).toBe(root - BigInt(1));
+    });
+  });
+
+  describe('capped', () => {
+    const { weigh } = VOTE_WEIGHT_STRATEGIES[VoteCountingStrategy.CAPPED];
+
+    it('limits a balance to the cap share of total supply', () => {
+      expect(weigh(BigInt(700), { ...context, capPercent: 25 })).toBe(BigInt(250));
+      expect(weigh(BigInt(250), { ...context, capPercent: 25 })).toBe(BigInt(250));
+      expect(weigh(BigInt(100), { ...context, capPercent: 25 })).toBe(BigInt(100));
+    });
+
+    it('keeps two decimals of the cap percentage', () => {
+      expect(weigh(BigInt(700), { ...context, capPercent: 12.55 })).toBe(BigInt(125));
+      expect(weigh(BigInt(70000), { totalSupply: BigInt(100000), capPercent: 12.55 })).toBe(BigInt(12550));
+    });
+
+    it('leaves balances uncapped without a cap below 100%', () => {
+      expect(weigh(BigInt(700), context)).toBe(BigInt(700));
+      expect(weigh(BigInt(700), { ...context, capPercent: 0 })).toBe(BigInt(700));
+      expect(weigh(BigInt(700), { ...context, capPercent: 100 })).toBe(BigInt(700));
+    });
+  });
+
+  describe('one address one vote', () => {
+    const { weigh } = VOTE_WEIGHT_STRATEGIES[VoteCountingStrategy.ONE_ADDRESS_ONE_VOTE];
+
+    it('counts every holder once', () => {
+      expect(weigh(BigInt(0), context)).toBe(BigInt(0));
+      expect(weigh(BigInt(1), context)).toBe(BigInt(1));
+      expect(weigh(BigInt(10) ** BigInt(30), context)).toBe(BigInt(1));
+    });
+  });
+});
+
+describe('VoteCountingService.calculateStrategyResult', () => {
+  const service = new VoteCountingService();
+
+  describe('linear', () => {
+    const balances = { a: '300', b: '300', c: '400' };
+    const votes: CountableVote[] = [vote('a', VoteType.YES, '300'), vote('b', VoteType.NO, '300')];
+
+    it('passes a tie when the execution threshold is 50%', () => {
+      const result = service.calculateStrategyResult(votes, balances, VoteCountingStrategy.LINEAR, null, 50, 60);
+
+      expect(result.yesVotes).toBe(result.noVotes);
+      expect(result.participationPercent).toBe(60);
+      expect(result.meetsParticipationThreshold).toBe(true);
+      expect(result.isSuccessful).toBe(true);
+    });
+
+    it('fails a tie above a 50% execution threshold', () => {
+      const result = service.calculateStrategyResult(votes, balances, VoteCountingStrategy.LINEAR, null, 51, 0);
+
+      expect(result.isSuccessful).toBe(false);
+    });
+
+    it('fails just below quorum', () => {
+      const result = service.calculateStrategyResult(votes, balances, VoteCountingStrategy.LINEAR, null, 50, 61);
+
+      expect(result.meetsParticipationThreshold).toBe(false);
+      expect(result.isSuccessful).toBe(false);
+    });
+
+    it('falls back to linear counting without a strategy', () => {
+      const result = service.calculateStrategyResult(votes, balances, null, null, 50, 60);
+
+      expect(result).toEqual(
+        service.calculateStrategyResult(votes, balances, VoteCountingStrategy.LINEAR, null, 50, 60)
+      );
+    });
+  });
+
+  describe('quadratic', () => {
+    const balances = { a: '100', b: '100', c: '400' };
+
+    it('weighs each delegator balance separately', () => {
+      const result = service.calculateStrategyResult(
+        [vote('a', VoteType.YES, '200', { d: '100' })],
+        { ...balances, d: '100' },
+        VoteCountingStrategy.QUADRATIC,
+        null,
+        50
+      );
+
+      // sqrt(100) + sqrt(100), not sqrt(200)
+      expect(result.yesVotes).toBe(BigInt(20));
+    });
+
+    it('treats equal square-rooted weights as a tie and measures quorum on weighted supply', () => {
+      const votes = [vote('a', VoteType.YES, '100'), vote('b', VoteType.NO, '100')];
+
+      const atQuorum = service.calculateStrategyResult(votes, balances, VoteCountingStrategy.QUADRATIC, null, 50, 50);
+      const belowQuorum = service.calculateStrategyResult(
+        votes,
+        balances,
+        VoteCountingStrategy.QUADRATIC,
+        null,
+        50,
+        51
+      );
+
+      expect(atQuorum.yesVotes).toBe(BigInt(10));
+      expect(atQuorum.noVotes).toBe(BigInt(10));
+      // 20 of sqrt(100) + sqrt(100) + sqrt(400) = 40
+      expect(atQuorum.participationPercent).toBe(50);
+      expect(atQuorum.isSuccessful).toBe(true);
+      expect(belowQuorum.isSuccessful).toBe(false);
+    });
+  });
+
+  describe('capped', () => {
+    // Supply 1000, 25% cap = 250: weighted supply is 250 + 100 + 150 + 50 = 550
+    const balances = { whale: '700', a: '100', b: '150', c: '50' };
+
+    it('caps a large holder into a tie with smaller holders', () => {
+      const votes = [vote('whale', VoteType.YES, '700'), vote('a', VoteType.NO, '100'), vote('b', VoteType.NO, '150')];
+
+      const result = service.calculateStrategyResult(votes, balances, VoteCountingStrategy.CAPPED, 25, 50, 0);
+
+      expect(result.yesVotes).toBe(BigInt(250));
+      expect(result.noVotes).toBe(BigInt(250));
+      expect(result.isSuccessful).toBe(true);
+      expect(
+        service.calculateStrategyResult(votes, balances, VoteCountingStrategy.CAPPED, 25, 51, 0).isSuccessful
+      ).toBe(false);
+    });
+
+    it('does not let a capped holder alone reach quorum', () => {
+      const votes = [vote('whale', VoteType.YES, '700')];
+
+      const result = service.calculateStrategyResult(votes, balances, VoteCountingStrategy.CAPPED, 25, 50, 50);
+
+      // 250 of 550 weighted supply, although the whale holds 70% of VT
+      expect(result.participationPercent).toBeCloseTo(45.45, 2);
+      expect(result.meetsParticipationThreshold).toBe(false);
+      expect(result.isSuccessful).toBe(false);
+    });
+  });
+
+  describe('one address one vote', () => {
+    const balances = { a: '1', b: '5000', c: '20', d: '300' };
+
+    it('counts a two-against-two split as a tie regardless of balances', () => {
+      const votes = [
+        vote('a', VoteType.YES, '1'),
+        vote('c', VoteType.YES, '20'),
+        vote('b', VoteType.NO, '5000'),
+        vote('d', VoteType.NO, '300'),
+      ];
+
+      const result = service.calculateStrategyResult(
+        votes,
+        balances,
+        VoteCountingStrategy.ONE_ADDRESS_ONE_VOTE,
+        null,
+        50,
+        100
+      );
+
+      expect(result.yesVotes).toBe(BigInt(2));
+      expect(result.noVotes).toBe(BigInt(2));
+      expect(result.participationPercent).toBe(100);
+      expect(result.isSuccessful).toBe(true);
+    });
+
+    it('counts abstentions toward quorum but not toward the outcome', () => {
+      const votes = [vote('a', VoteType.YES, '1'), vote('b', VoteType.ABSTAIN, '5000'), vote('c', VoteType.NO, '20')];
+
+      const atQuorum = service.calculateStrategyResult(
+        votes,
+        balances,
+        VoteCountingStrategy.ONE_ADDRESS_ONE_VOTE,
+        null,
+        50,
+        75
+      );
+      const belowQuorum = service.calculateStrategyResult(
+        votes,
+        balances,
+        VoteCountingStrategy.ONE_ADDRESS_ONE_VOTE,
+        null,
+        50,
+        76
+      );
+
+      expect(atQuorum.abstainVotes).toBe(BigInt(1));
+      expect(atQuorum.participationPercent).toBe(75);
+      expect(atQuorum.isSuccessful).toBe(true);
+      expect(belowQuorum.meetsParticipationThreshold).toBe(false);
+    });
+  });
+
+  it('assumes full participation when there is no snapshot', () => {
+    const votes = [vote('a', VoteType.YES, '100')];
+
+    const result = service.calculateStrategyResult(votes, null, VoteCountingStrategy.QUADRATIC, null, 50, 100);
+
+    expect(result.participationPercent).toBe(100);
+    expect(result.isSuccessful).toBe(true);
+  });
+
+  it('fails a proposal nobody voted on', () => {
+    const result = service.calculateStrategyResult([], { a: '100' }, VoteCountingStrategy.QUADRATIC, null, 50, 0);
+
+    expect(result.participationPercent).toBe(0);
+    expect(result.meetsParticipationThreshold).toBe(true);
+    expect(result.isSuccessful).toBe(false);
+  });
+});
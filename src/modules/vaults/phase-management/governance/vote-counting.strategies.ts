@@ -0,0 +1,58 @@
+import { VoteCountingStrategy } from '@/types/vote.types';
+
+export interface VoteCountingContext {
+  /** Sum of all raw balances in the proposal snapshot */
+  totalSupply: bigint;
+  /** Cap for the CAPPED strategy, as a percentage of totalSupply */
+  capPercent?: number;
+}
+
+/**
+ * Maps one address's raw VT balance to the weight it counts for in the tally.
+ * Strategies are applied per address, so a delegate's vote is weighed as the sum of
+ * its own balance and each delegator balance weighed separately.
+ */
+export interface VoteWeightStrategy {
+  weigh(balance: bigint, context: VoteCountingContext): bigint;
+}
+
+/** Integer square root (floor) for arbitrarily large balances */
+function bigintSqrt(value: bigint): bigint {
+  if (value < BigInt(2)) return value;
+
+  let x = value;
+  let y = (x + BigInt(1)) / BigInt(2);
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / BigInt(2);
+  }
+  return x;
+}
+
+const linearStrategy: VoteWeightStrategy = {
+  weigh: balance => balance,
+};
+
+const quadraticStrategy: VoteWeightStrategy = {
+  weigh: balance => bigintSqrt(balance),
+};
+
+const cappedStrategy: VoteWeightStrategy = {
+  weigh: (balance, { totalSupply, capPercent }) => {
+    if (!capPercent || capPercent >= 100) return balance;
+    // Basis points keep two decimals of the percentage without floating point on bigint
+    const cap = (totalSupply * BigInt(Math.round(capPercent * 100))) / BigInt(10000);
+    return balance > cap ? cap : balance;
+  },
+};
+
+const oneAddressOneVoteStrategy: VoteWeightStrategy = {
+  weigh: balance => (balance > BigInt(0) ? BigInt(1) : BigInt(0)),
+};
+
+export const VOTE_WEIGHT_STRATEGIES: Record<VoteCountingStrategy, VoteWeightStrategy> = {
+  [VoteCountingStrategy.LINEAR]: linearStrategy,
+  [VoteCountingStrategy.QUADRATIC]: quadraticStrategy,
+  [VoteCountingStrategy.CAPPED]: cappedStrategy,
+  [VoteCountingStrategy.ONE_ADDRESS_ONE_VOTE]: oneAddressOneVoteStrategy,
+};
@@ -0,0 +1,182 @@
+import { EnterpriseAddress, Credential, PrivateKey } from '@emurgo/cardano-serialization-lib-nodejs';
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { VoteDelegationService } from './vote-delegation.service';
+
+import { Proposal } from '@/database/proposal.entity';
+import { Snapshot } from '@/database/snapshot.entity';
+import { User } from '@/database/user.entity';
+import { Vault } from '@/database/vault.entity';
+import { Vote } from '@/database/vote.entity';
+import { VoteDelegation } from '@/database/voteDelegation.entity';
+import { ProposalStatus } from '@/types/proposal.types';
+
+function randomAddress(): string {
+  return EnterpriseAddress.new(0, Credential.from_keyhash(PrivateKey.generate_ed25519().to_public().hash()))
+    .to_address()
+    .to_bech32();
+}
+
+function matches(row: object, criteria: Record<string, unknown>): boolean {
+  return Object.entries(criteria).every(([key, value]) =>
+    // IsNull() is the only FindOperator the service uses in its criteria
+    typeof value === 'object' && value !== null ? row[key] === null || row[key] === undefined : row[key] === value
+  );
+}
+
+interface FakeQueryBuilder {
+  where(condition: string, values: Record<string, string>): FakeQueryBuilder;
+  andWhere(condition: string, values: Record<string, string>): FakeQueryBuilder;
+  getMany(): Promise<Partial<Vote>[]>;
+}
+
+/**
+ * In-memory stand-in for the delegation and vote tables, covering the TypeORM calls the service makes.
+ */
+class FakeStore {
+  delegations: Partial<VoteDelegation>[] = [];
+  votes: Partial<Vote>[] = [];
+  proposals: Partial<Proposal>[] = [];
+
+  private rows(entity: unknown): object[] {
+    if (entity === VoteDelegation) return this.delegations;
+    if (entity === Vote) return this.votes;
+    if (entity === Proposal) return this.proposals;
+    throw new Error(`Unexpected entity ${String(entity)}`);
+  }
+
+  readonly manager = {
+    transaction: async <T>(work: (manager: FakeStore['manager']) => Promise<T>): Promise<T> => work(this.manager),
+    create: (_entity: unknown, data: object): object => ({ ...data }),
+    save: async (entity: unknown, row: object): Promise<object> => {
+      this.rows(entity).push({ id: `${this.rows(entity).length + 1}`, revokedAt: null, createdAt: new Date(), ...row });
+      return row;
+    },
+    update: async (
+      entity: unknown,
+      criteria: Record<string, unknown>,
+      changes: object
+    ): Promise<{ affected: number }> => {
+      const rows = this.rows(entity).filter(row => matches(row, criteria));
+      rows.forEach(row => Object.assign(row, changes));
+      return { affected: rows.length };
+    },
+    find: async (entity: unknown, options: { where: Record<string, unknown> }): Promise<object[]> =>
+      this.rows(entity).filter(row => matches(row, options.where)),
+    findOne: async (entity: unknown, options: { where: Record<string, unknown> }): Promise<object | null> =>
+      this.rows(entity).find(row => matches(row, options.where)) ?? null,
+    createQueryBuilder: (): FakeQueryBuilder => {
+      const params: Record<string, string> = {};
+      const builder: FakeQueryBuilder = {
+        where: (_condition, values): FakeQueryBuilder => (Object.assign(params, values), builder),
+        andWhere: (_condition, values): FakeQueryBuilder => (Object.assign(params, values), builder),
+        getMany: async (): Promise<Partial<Vote>[]> =>
+          this.votes.filter(v => v.proposalId === params.proposalId && v.delegatedFrom?.[params.delegatorAddress]),
+      };
+      return builder;
+    },
+  };
+
+  repository(entity: unknown): object {
+    return {
+      manager: this.manager,
+      update: (criteria: Record<string, unknown>, changes: object) => this.manager.update(entity, criteria, changes),
+      find: (options: { where: Record<string, unknown> }) => this.manager.find(entity, options),
+      findOne: (options: { where: Record<string, unknown> }) => this.manager.findOne(entity, options),
+    };
+  }
+}
+
+describe('VoteDelegationService', () => {
+  const vaultId = 'vault-1';
+  const delegator = { id: 'user-delegator', address: randomAddress() };
+  const firstDelegate = randomAddress();
+  const secondDelegate = randomAddress();
+  const proposal = { id: 'proposal-1', vaultId, snapshotId: 'snapshot-1', status: ProposalStatus.ACTIVE } as Proposal;
+  const snapshot = {
+    id: proposal.snapshotId,
+    addressBalances: { [delegator.address]: '100', [firstDelegate]: '50', [secondDelegate]: '30' },
+  };
+
+  let store: FakeStore;
+  let service: VoteDelegationService;
+
+  beforeEach(async () => {
+    store = new FakeStore();
+    store.proposals.push(proposal);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VoteDelegationService,
+        { provide: getRepositoryToken(VoteDelegation), useValue: store.repository(VoteDelegation) },
+        { provide: getRepositoryToken(Vote), useValue: store.repository(Vote) },
+        { provide: getRepositoryToken(Vault), useValue: { exists: async () => true } },
+        { provide: getRepositoryToken(User), useValue: { findOne: async () => delegator } },
+        { provide: getRepositoryToken(Snapshot), useValue: { findOne: async () => snapshot } },
+      ],
+    }).compile();
+
+    service = module.get<VoteDelegationService>(VoteDelegationService);
+  });
+
+  /** Casts the delegate's vote the way GovernanceService.vote folds in delegated weight. */
+  async function castDelegateVote(delegateAddress: string): Promise<Partial<Vote>> {
+    const delegatedFrom = await service.resolveDelegatedWeights(proposal, delegateAddress);
+    const delegatedWeight = Object.values(delegatedFrom).reduce((sum, balance) => sum + BigInt(balance), BigInt(0));
+    const vote = {
+      id: `vote-${delegateAddress}`,
+      proposalId: proposal.id,
+      voterAddress: delegateAddress,
+      voteWeight: (BigInt(snapshot.addressBalances[delegateAddress]) + delegatedWeight).toString(),
+      delegatedFrom,
+    };
+    store.votes.push(vote);
+    return vote;
+  }
+
+  function countedWeight(address: string): bigint {
+    return store.votes
+      .filter(vote => vote.delegatedFrom?.[address])
+      .reduce((sum, vote) => sum + BigInt(vote.delegatedFrom[address]), BigInt(0));
+  }
+
+  it('moves the balance off the first delegate vote when re-delegating during an active proposal', async () => {
+    await service.delegate(vaultId, delegator.id, firstDelegate);
+    const firstVote = await castDelegateVote(firstDelegate);
+    expect(firstVote.voteWeight).toBe('150');
+
+    await service.delegate(vaultId, delegator.id, secondDelegate);
+    expect(firstVote.voteWeight).toBe('50');
+    expect(firstVote.delegatedFrom).toEqual({});
+
+    const secondVote = await castDelegateVote(secondDelegate);
+    expect(secondVote.voteWeight).toBe('130');
+    expect(countedWeight(delegator.address)).toBe(BigInt(100));
+  });
+
+  it('removes the balance from the delegate vote when revoking during an active proposal', async () => {
+    await service.delegate(vaultId, delegator.id, firstDelegate);
+    const firstVote = await castDelegateVote(firstDelegate);
+
+    await service.revokeDelegation(vaultId, delegator.id);
+
+    expect(firstVote.voteWeight).toBe('50');
+    expect(countedWeight(delegator.address)).toBe(BigInt(0));
+  });
+
+  it('leaves votes on proposals that are no longer active untouched', async () => {
+    await service.delegate(vaultId, delegator.id, firstDelegate);
+    const firstVote = await castDelegateVote(firstDelegate);
+    proposal.status = ProposalStatus.PASSED;
+
+    try {
+      await service.delegate(vaultId, delegator.id, secondDelegate);
+    } finally {
+      proposal.status = ProposalStatus.ACTIVE;
+    }
+
+    expect(firstVote.voteWeight).toBe('150');
+  });
+});
@@ -0,0 +1,264 @@
+import { Address } from '@emurgo/cardano-serialization-lib-nodejs';
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { plainToInstance } from 'class-transformer';
+import { EntityManager, In, IsNull, Repository } from 'typeorm';
+
+import { VoteDelegationRes } from './dto/vote-delegation.dto';
+
+import { Proposal } from '@/database/proposal.entity';
+import { Snapshot } from '@/database/snapshot.entity';
+import { User } from '@/database/user.entity';
+import { Vault } from '@/database/vault.entity';
+import { Vote } from '@/database/vote.entity';
+import { VoteDelegation } from '@/database/voteDelegation.entity';
+import { ProposalStatus } from '@/types/proposal.types';
+
+/**
+ * Per-vault delegation of vault-token voting power.
+ *
+ * Delegations are not transitive: a delegate only votes with its own balance plus the balances
+ * of addresses delegating directly to it. Balances are resolved against the proposal snapshot
+ * when the delegate votes, and a delegator voting directly takes its balance back for that proposal.
+ */
+@Injectable()
+export class VoteDelegationService {
+  private readonly logger = new Logger(VoteDelegationService.name);
+
+  constructor(
+    @InjectRepository(VoteDelegation)
+    private readonly delegationRepository: Repository<VoteDelegation>,
+    @InjectRepository(Vault)
+    private readonly vaultRepository: Repository<Vault>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Snapshot)
+    private readonly snapshotRepository: Repository<Snapshot>,
+    @InjectRepository(Vote)
+    private readonly voteRepository: Repository<Vote>
+  ) {}
+
+  async delegate(vaultId: string, userId: string, delegateAddress: string): Promise<VoteDelegationRes> {
+    const vaultExists = await this.vaultRepository.exists({ where: { id: vaultId } });
+
+    if (!vaultExists) {
+      throw new NotFoundException('Vault not found');
+    }
+
+    const user = await this.getUserWithAddress(userId);
+
+    try {
+      Address.from_bech32(delegateAddress);
+    } catch (error) {
+      throw new BadRequestException('Delegate address is not a valid Cardano address');
+    }
+
+    if (delegateAddress === user.address) {
+      throw new BadRequestException('Cannot delegate voting power to yourself');
+    }
+
+    await this.delegationRepository.manager.transaction(async manager => {
+      await manager.update(
+        VoteDelegation,
+        { vaultId, delegatorAddress: user.address, revokedAt: IsNull() },
+        { revokedAt: new Date() }
+      );
+      await this.detachFromActiveProposals(manager, vaultId, user.address);
+
+      await manager.save(
+        VoteDelegation,
+        manager.create(VoteDelegation, {
+          vaultId,
+          delegatorId: user.id,
+          delegatorAddress: user.address,
+          delegateAddress,
+        })
+      );
+    });
+
+    this.logger.log(`Vault ${vaultId}: ${user.address} delegated voting power to ${delegateAddress}`);
+
+    return this.getDelegation(vaultId, userId);
+  }
+
+  async revokeDelegation(vaultId: string, userId: string): Promise<VoteDelegationRes> {
+    const user = await this.getUserWithAddress(userId);
+
+    await this.delegationRepository.manager.transaction(async manager => {
+      const result = await manager.update(
+        VoteDelegation,
+        { vaultId, delegatorAddress: user.address, revokedAt: IsNull() },
+        { revokedAt: new Date() }
+      );
+
+      if (!result.affected) {
+        throw new NotFoundException('No active delegation found for this vault');
+      }
+
+      await this.detachFromActiveProposals(manager, vaultId, user.address);
+    });
+
+    this.logger.log(`Vault ${vaultId}: ${user.address} revoked voting power delegation`);
+
+    return this.getDelegation(vaultId, userId);
+  }
+
+  async getDelegation(vaultId: string, userId: string): Promise<VoteDelegationRes> {
+    const user = await this.getUserWithAddress(userId);
+
+    const [outgoing, incoming] = await Promise.all([
+      this.delegationRepository.findOne({
+        where: { vaultId, delegatorAddress: user.address, revokedAt: IsNull() },
+      }),
+      this.delegationRepository.find({
+        where: { vaultId, delegateAddress: user.address, revokedAt: IsNull() },
+        order: { createdAt: 'ASC' },
+      }),
+    ]);
+
+    return plainToInstance(
+      VoteDelegationRes,
+      {
+        vaultId,
+        delegatedTo: outgoing?.delegateAddress ?? null,
+        delegatedSince: outgoing?.createdAt ?? null,
+        delegators: incoming.map(d => ({ address: d.delegatorAddress, since: d.createdAt })),
+      },
+      { excludeExtraneousValues: true }
+    );
+  }
+
+  /**
+   * Resolves the snapshot balances delegated to an address for a proposal.
+   * Delegators that already voted directly on the proposal are skipped.
+   *
+   * @returns Delegator address -> snapshot balance (only non-zero balances)
+   */
+  async resolveDelegatedWeights(proposal: Proposal, delegateAddress: string): Promise<Record<string, string>> {
+    const delegations = await this.delegationRepository.find({
+      where: { vaultId: proposal.vaultId, delegateAddress, revokedAt: IsNull() },
+      select: ['delegatorAddress'],
+    });
+
+    if (delegations.length === 0) {
+      return {};
+    }
+
+    const snapshot = await this.snapshotRepository.findOne({
+      where: { id: proposal.snapshotId },
+      select: ['id', 'addressBalances'],
+    });
+
+    if (!snapshot) {
+      throw new NotFoundException('Snapshot not found');
+    }
+
+    const delegatorAddresses = delegations.map(d => d.delegatorAddress);
+    const directVotes = await this.voteRepository.find({
+      where: { proposalId: proposal.id, voterAddress: In(delegatorAddresses) },
+      select: ['voterAddress'],
+    });
+    const votedDirectly = new Set(directVotes.map(v => v.voterAddress));
+
+    const delegatedFrom: Record<string, string> = {};
+    for (const address of delegatorAddresses) {
+      const balance = snapshot.addressBalances[address];
+      if (votedDirectly.has(address) || !balance || BigInt(balance) === BigInt(0)) continue;
+      delegatedFrom[address] = balance;
+    }
+
+    return delegatedFrom;
+  }
+
+  /**
+   * Removes a delegator's balance from any delegate vote on the proposal.
+   * Called when the delegator votes directly, which overrides the delegation for that proposal.
+   */
+  async detachDelegator(manager: EntityManager, proposalId: string, delegatorAddress: string): Promise<void> {
+    const delegateVotes = await manager
+      .createQueryBuilder(Vote, 'vote')
+      .where('vote.proposal_id = :proposalId', { proposalId })
+      .andWhere('vote.delegated_from -> :delegatorAddress IS NOT NULL', { delegatorAddress })
+      .getMany();
+
+    for (const delegateVote of delegateVotes) {
+      const { [delegatorAddress]: weight, ...remaining } = delegateVote.delegatedFrom;
+
+      await manager.update(
+        Vote,
+        { id: delegateVote.id },
+        {
+          voteWeight: (BigInt(delegateVote.voteWeight) - BigInt(weight)).toString(),
+          delegatedFrom: remaining,
+        }
+      );
+    }
+  }
+
+  /**
+   * Hands a delegator's balance back to its delegate's vote after the delegator revoked
+   * its own vote, so the delegation applies again as if the delegator never voted.
+   */
+  async reattachDelegator(manager: EntityManager, proposal: Proposal, delegatorAddress: string): Promise<void> {
+    const delegation = await manager.findOne(VoteDelegation, {
+      where: { vaultId: proposal.vaultId, delegatorAddress, revokedAt: IsNull() },
+    });
+
+    if (!delegation) return;
+
+    const delegateVote = await manager.findOne(Vote, {
+      where: { proposalId: proposal.id, voterAddress: delegation.delegateAddress },
+    });
+
+    if (!delegateVote || delegateVote.delegatedFrom?.[delegatorAddress]) return;
+
+    const snapshot = await manager.findOne(Snapshot, {
+      where: { id: proposal.snapshotId },
+      select: ['id', 'addressBalances'],
+    });
+    const balance = snapshot?.addressBalances[delegatorAddress];
+
+    if (!balance || BigInt(balance) === BigInt(0)) return;
+
+    await manager.update(
+      Vote,
+      { id: delegateVote.id },
+      {
+        voteWeight: (BigInt(delegateVote.voteWeight) + BigInt(balance)).toString(),
+        delegatedFrom: { ...delegateVote.delegatedFrom, [delegatorAddress]: balance },
+      }
+    );
+  }
+
+  /**
+   * Takes a delegator's balance out of the votes its previous delegate already cast on the vault's
+   * active proposals, so re-delegating or revoking can't leave it counted on the old delegate's vote.
+   */
+  private async detachFromActiveProposals(
+    manager: EntityManager,
+    vaultId: string,
+    delegatorAddress: string
+  ): Promise<void> {
+    const activeProposals = await manager.find(Proposal, {
+      where: { vaultId, status: ProposalStatus.ACTIVE },
+      select: ['id'],
+    });
+
+    for (const proposal of activeProposals) {
+      await this.detachDelegator(manager, proposal.id, delegatorAddress);
+    }
+  }
+
+  private async getUserWithAddress(userId: string): Promise<User> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      select: ['id', 'address'],
+    });
+
+    if (!user?.address) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+}
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
+import { LifecycleProcessor } from './lifecycle.processor';
 import { LifecycleService } from './lifecycle.service';
 
 import { Asset } from '@/database/asset.entity';
@@ -49,7 +50,7 @@ import { VyfiModule } from '@/modules/vyfi/vyfi.module';
     ScheduleModule.forRoot(),
     BlockchainModule,
   ],
-  providers: [LifecycleService],
+  providers: [LifecycleService, LifecycleProcessor],
   exports: [LifecycleService],
 })
 export class LifecycleModule {}
@@ -0,0 +1,35 @@
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job, UnrecoverableError } from 'bullmq';
+
+import { LifecycleService } from './lifecycle.service';
+
+import { VaultJobsService } from '@/modules/vault-jobs/vault-jobs.service';
+import { VaultJobData, VaultJobQueue, VaultLifecycleJobName } from '@/types/vault-jobs.types';
+
+@Processor(VaultJobQueue.LIFECYCLE)
+export class LifecycleProcessor extends WorkerHost {
+  constructor(
+    private readonly lifecycleService: LifecycleService,
+    private readonly vaultJobsService: VaultJobsService
+  ) {
+    super();
+  }
+
+  async process(job: Job<VaultJobData>): Promise<void> {
+    switch (job.name) {
+      case VaultLifecycleJobName.CONTRIBUTION_END:
+        return this.lifecycleService.processContributionEnd(job.data.vaultId);
+      case VaultLifecycleJobName.ACQUIRE_END:
+        return this.lifecycleService.processAcquireEnd(job.data.vaultId);
+      case VaultLifecycleJobName.ACQUIRE_ONLY_END:
+        return this.lifecycleService.processAcquireOnlyEnd(job.data.vaultId);
+      default:
+        throw new UnrecoverableError(`Unknown job name: ${job.name}`);
+    }
+  }
+
+  @OnWorkerEvent('failed')
+  async onFailed(job: Job<VaultJobData> | undefined, error: Error): Promise<void> {
+    await this.vaultJobsService.handleFailedJob(VaultJobQueue.LIFECYCLE, job, error);
+  }
+}
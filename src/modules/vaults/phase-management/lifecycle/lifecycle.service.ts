@@ -7,6 +7,7 @@ import { DataSource, In, Repository } from 'typeorm';
 import { ClaimsService } from '../../claims/claims.service';
 import { TransactionsService } from '../../processing-tx/offchain-tx/transactions.service';
 import { ExpansionService } from '../governance/expansion.service';
+import { VaultStateMachineService } from '../state-machine/vault-state-machine.service';
 
 import { Asset } from '@/database/asset.entity';
 import { AssetsWhitelistEntity } from '@/database/assetsWhitelist.entity';
@@ -19,7 +20,10 @@ import { Vault } from '@/database/vault.entity';
 import { AlertsService } from '@/modules/alerts/alerts.service';
 import { DistributionCalculationService } from '@/modules/distribution/distribution-calculation.service';
 import { SystemSettingsService } from '@/modules/globals/system-settings/system-settings.service';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
+import { JobCoordinatorService } from '@/modules/job-coordinator/job-coordinator.service';
 import { TaptoolsService } from '@/modules/taptools/taptools.service';
+import { VaultJobsService } from '@/modules/vault-jobs/vault-jobs.service';
 import { EvmAirdropOrchestrator } from '@/modules/vaults/processing-tx/onchain/evm-airdrop-orchestrator.service';
 import { EvmAllocationService } from '@/modules/vaults/processing-tx/onchain/evm-allocation.service';
 import { EvmContractReader } from '@/modules/vaults/processing-tx/onchain/evm-contract-reader.service';
@@ -39,6 +43,7 @@ import { ClaimStatus, ClaimType } from '@/types/claim.types';
 import { ProposalStatus, ProposalType } from '@/types/proposal.types';
 import { TokenRegistryStatus } from '@/types/tokenRegistry.types';
 import { TransactionStatus, TransactionType } from '@/types/transaction.types';
+import { VaultJobQueue, VaultLifecycleJobName } from '@/types/vault-jobs.types';
 import {
   ChainType,
   ContributionWindowType,
@@ -48,12 +53,13 @@ import {
   VaultStatus,
 } from '@/types/vault.types';
 
+const LIFECYCLE_ACTOR = 'cron:lifecycle';
+
 @Injectable()
 export class LifecycleService {
   private readonly logger = new Logger(LifecycleService.name);
   private readonly processingVaults = new Set<string>(); // Track vaults currently being processed
   private readonly MAX_FAILED_ATTEMPTS = 3; // Maximum allowed failed attempts before skipping
-  private isRunning = false;
   private readonly EVM_BACKFILL_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
   private lastEvmBackfillSweepAt = 0;
 
@@ -82,6 +88,7 @@ export class LifecycleService {
     private readonly eventEmitter: EventEmitter2,
     private readonly systemSettingsService: SystemSettingsService,
     private readonly expansionService: ExpansionService,
+    private readonly vaultStateMachineService: VaultStateMachineService,
     private readonly alertsService: AlertsService,
     private readonly dataSource: DataSource,
     private readonly evmCycleCloseService: EvmCycleCloseService,
@@ -90,41 +97,44 @@ export class LifecycleService {
     private readonly evmRefundOrchestrator: EvmRefundOrchestrator,
     private readonly evmAllocationService: EvmAllocationService,
     private readonly evmLockTimePricingService: EvmLockTimePricingService,
-    private readonly evmContributionBackfillService: EvmContributionBackfillService
+    private readonly evmContributionBackfillService: EvmContributionBackfillService,
+    private readonly jobCoordinatorService: JobCoordinatorService,
+    private readonly vaultJobsService: VaultJobsService
   ) {}
 
   @Cron(CronExpression.EVERY_MINUTE)
+  @CoordinatedJob('vault-lifecycle')
   async handleVaultLifecycleTransitions(): Promise<void> {
-    if (this.isRunning) {
-      this.logger.warn('Distribution process already running, skipping this execution');
-      return;
-    }
-
-    try {
-      this.isRunning = true;
-      await this.handlePublishedToContribution(); // Handle created vault -> contribution transitin
-      await this.handleContributionToAcquire(); // Handle contribution -> acquire transitions (also handles direct contribution -> governance for 0% acquire vaults)
-      await this.handlePublishedToAcquire(); // Handle acquire-only vault: published -> acquire transition
-      await this.handleAcquireToGovernance(); // Handle acquire -> governance transitions
-      await this.handleAcquireOnlyToLockedOrFailed(); // Handle acquire-only vault: acquire -> locked or failed
-      await this.handleExpansionToLocked(); // Handle expansion -> locked transitions
-      await this.handleAcquireExpansionToLocked(); // Handle acquire expansion -> locked transitions
-      await this.handleEvmContributionBackfill(); // EVM: reconcile missing evm_contributions rows against on-chain state
-      await this.handleEvmContributionToAcquireLabel(); // EVM: flip DB vault_status contribution → acquire when contribution window elapses
-      await this.handleEvmContributionToSnapshotReady(); // EVM: build ready snapshot for vaults whose windows have closed with threshold met
-      await this.handleEvmAcquireToLocked(); // EVM: broadcast closeCycle for vaults with a ready snapshot
-      await this.handleEvmAirdropClaims(); // EVM: batch-claim allocations for confirmed snapshots
-      await this.handleEvmFailedVaultDetection(); // EVM: cancelCurrentCycle when threshold not met OR nobody contributed
-      await this.handleEvmRefundBatches(); // EVM: refundContributions for cancelled cycles
-      await this.handleEvmFinalizeCancelledVaults(); // EVM: mark vault_status=failed once cancel + refunds settle
-    } finally {
-      this.isRunning = false;
+    const steps: Array<(this: LifecycleService) => Promise<unknown>> = [
+      this.handlePublishedToContribution, // Handle created vault -> contribution transitin
+      this.handleContributionToAcquire, // Handle contribution -> acquire transitions (also handles direct contribution -> governance for 0% acquire vaults)
+      this.handlePublishedToAcquire, // Handle acquire-only vault: published -> acquire transition
+      this.handleAcquireToGovernance, // Handle acquire -> governance transitions
+      this.handleAcquireOnlyToLockedOrFailed, // Handle acquire-only vault: acquire -> locked or failed
+      this.handleExpansionToLocked, // Handle expansion -> locked transitions
+      this.handleAcquireExpansionToLocked, // Handle acquire expansion -> locked transitions
+      this.handleEvmContributionBackfill, // EVM: reconcile missing evm_contributions rows against on-chain state
+      this.handleEvmContributionToAcquireLabel, // EVM: flip DB vault_status contribution → acquire when contribution window elapses
+      this.handleEvmContributionToSnapshotReady, // EVM: build ready snapshot for vaults whose windows have closed with threshold met
+      this.handleEvmAcquireToLocked, // EVM: broadcast closeCycle for vaults with a ready snapshot
+      this.handleEvmAirdropClaims, // EVM: batch-claim allocations for confirmed snapshots
+      this.handleEvmFailedVaultDetection, // EVM: cancelCurrentCycle when threshold not met OR nobody contributed
+      this.handleEvmRefundBatches, // EVM: refundContributions for cancelled cycles
+      this.handleEvmFinalizeCancelledVaults, // EVM: mark vault_status=failed once cancel + refunds settle
+    ];
+
+    // Overlapping runs are prevented by the job lease; stop between steps once it is lost
+    for (const step of steps) {
+      await this.jobCoordinatorService.assertLeaseHeld();
+      await step.call(this);
     }
   }
 
   private async executePhaseTransition(data: {
     vaultId: string;
     newStatus: VaultStatus;
+    /** Recorded in the vault timeline; failed transitions default to the failure reason */
+    reason?: string;
     phaseStartField?: 'contribution_phase_start' | 'acquire_phase_start' | 'governance_phase_start';
     newScStatus?: SmartContractVaultStatus;
     txHash?: string;
@@ -148,17 +158,65 @@ export class LifecycleService {
         return;
       }
 
-      vault.vault_status = data.newStatus;
+      const changes: Partial<Vault> = {};
 
       if (data.phaseStartField) {
-        vault[data.phaseStartField] = new Date();
+        changes[data.phaseStartField] = new Date();
       }
 
       if (data.newStatus === VaultStatus.failed) {
-        vault.failure_reason = data.failureReason;
-        vault.failure_details = data.failureDetails;
-        vault.deactivated_at = new Date();
+        changes.failure_reason = data.failureReason;
+        changes.failure_details = data.failureDetails;
+        changes.deactivated_at = new Date();
+      }
+
+      if (data.newScStatus === SmartContractVaultStatus.SUCCESSFUL) {
+        changes.vault_sc_status = data.newScStatus;
+        changes.last_update_tx_hash = data.txHash;
+        changes.locked_at = new Date();
+        changes.ada_pair_multiplier = data.ada_pair_multiplier;
+        changes.vt_price = data.vtPrice;
+        changes.acquire_multiplier = data.acquire_multiplier;
+        changes.ada_distribution = data.ada_distribution;
+        changes.fdv = data.fdv;
+        changes.fdv_tvl = data.fdvTvl;
 
+        // Set initial value for gains calculation (baseline for future price changes)
+        // This is the total value of all contributed assets at the moment of locking
+        if (vault.total_assets_cost_ada && vault.total_assets_cost_ada > 0) {
+          changes.initial_total_value_ada = vault.total_assets_cost_ada;
+        }
+      } else if (data.newScStatus) {
+        changes.vault_sc_status = data.newScStatus;
+      }
+
+      if (data.newScStatus === SmartContractVaultStatus.CANCELLED) {
+        changes.vault_sc_status = data.newScStatus;
+        changes.last_update_tx_hash = data.txHash;
+      }
+
+      // Fenced so a run that lost its lease cannot move the vault after the run that took over
+      const transition = await this.jobCoordinatorService.fenced(manager =>
+        this.vaultStateMachineService.transition(
+          vault.id,
+          data.newStatus,
+          {
+            reason: data.reason ?? data.failureReason ?? data.newStatus,
+            actor: LIFECYCLE_ACTOR,
+            txHash: data.txHash,
+          },
+          changes,
+          manager
+        )
+      );
+
+      if (!transition) {
+        return;
+      }
+
+      Object.assign(vault, changes, { vault_status: data.newStatus });
+
+      if (data.newStatus === VaultStatus.failed) {
         const pr = await this.tokenRegistryRepository.findOne({
           where: {
             vault_id: data.vaultId,
@@ -217,33 +275,6 @@ export class LifecycleService {
         }
       }
 
-      if (data.newScStatus === SmartContractVaultStatus.SUCCESSFUL) {
-        vault.vault_sc_status = data.newScStatus;
-        vault.last_update_tx_hash = data.txHash;
-        vault.locked_at = new Date();
-        vault.ada_pair_multiplier = data.ada_pair_multiplier;
-        vault.vt_price = data.vtPrice;
-        vault.acquire_multiplier = data.acquire_multiplier;
-        vault.ada_distribution = data.ada_distribution;
-        vault.fdv = data.fdv;
-        vault.fdv_tvl = data.fdvTvl;
-
-        // Set initial value for gains calculation (baseline for future price changes)
-        // This is the total value of all contributed assets at the moment of locking
-        if (vault.total_assets_cost_ada && vault.total_assets_cost_ada > 0) {
-          vault.initial_total_value_ada = vault.total_assets_cost_ada;
-        }
-      } else if (data.newScStatus) {
-        vault.vault_sc_status = data.newScStatus;
-      }
-
-      if (data.newScStatus === SmartContractVaultStatus.CANCELLED) {
-        vault.vault_sc_status = data.newScStatus;
-        vault.last_update_tx_hash = data.txHash;
-      }
-
-      await this.vaultRepository.save(vault);
-
       this.logger.log(
         `Executed immediate phase transition for vault ${vault.id} to ${data.newStatus}` +
           (data.phaseStartField ? ` and set ${data.phaseStartField}` : '')
@@ -441,6 +472,7 @@ export class LifecycleService {
       await this.executePhaseTransition({
         vaultId: vault.id,
         newStatus: VaultStatus.contribution,
+        reason: 'contribution_window_opened',
         phaseStartField: 'contribution_phase_start',
         newScStatus: SmartContractVaultStatus.OPEN,
       });
@@ -468,6 +500,7 @@ export class LifecycleService {
         await this.executePhaseTransition({
           vaultId: vault.id,
           newStatus: VaultStatus.contribution,
+          reason: 'contribution_window_opened',
           phaseStartField: 'contribution_phase_start',
           newScStatus: SmartContractVaultStatus.OPEN,
         });
@@ -490,11 +523,25 @@ export class LifecycleService {
    * - Scenario 4: Vault has no assets, any policy → ❌ FAIL (no contributions)
    */
   private async handleContributionToAcquire(): Promise<void> {
+    const contributionVaults = await this.findVaultsAtContributionEnd();
+
+    for (const vault of contributionVaults) {
+      await this.vaultJobsService.enqueue(VaultJobQueue.LIFECYCLE, VaultLifecycleJobName.CONTRIBUTION_END, {
+        vaultId: vault.id,
+        expectedState: VaultStatus.contribution,
+      });
+    }
+  }
+
+  /**
+   * Contribution vaults whose window has closed; `vaultId` narrows it to that vault
+   */
+  private async findVaultsAtContributionEnd(vaultId?: string): Promise<Vault[]> {
     const now = new Date();
 
     // Skip vaults with manual_distribution = true from automatic phase transitions
     // Manual distribution vaults require admin intervention and should not auto-transition
-    const contributionVaults = await this.vaultRepository
+    const query = this.vaultRepository
       .createQueryBuilder('vault')
       .where('vault.vault_status = :status', { status: VaultStatus.contribution })
       .andWhere('vault.contribution_phase_start IS NOT NULL')
@@ -508,178 +555,174 @@ export class LifecycleService {
       .andWhere(`(vault.chain_type IS NULL OR vault.chain_type <> :evmChain)`, {
         evmChain: ChainType.robinhood,
       })
-      .andWhere('vault.id NOT IN (:...processingIds)', {
-        processingIds:
-          this.processingVaults.size > 0 ? Array.from(this.processingVaults) : ['00000000-0000-0000-0000-000000000000'], // Dummy UUID to avoid empty array
-      })
       .andWhere('(vault.manual_distribution_mode IS NULL OR vault.manual_distribution_mode = :manualDist)', {
         manualDist: false,
       })
       .leftJoinAndSelect('vault.owner', 'owner')
       .leftJoinAndSelect('vault.assets_whitelist', 'assets_whitelist')
-      .leftJoinAndSelect('vault.assets', 'assets', 'assets.deleted = :deleted', { deleted: false })
-      .getMany();
+      .leftJoinAndSelect('vault.assets', 'assets', 'assets.deleted = :deleted', { deleted: false });
 
-    for (const vault of contributionVaults) {
-      // Skip if vault is already being processed (double-check in case of race condition)
-      if (this.processingVaults.has(vault.id)) {
-        continue;
-      }
+    if (vaultId) {
+      query.andWhere('vault.id = :vaultId', { vaultId });
+    }
 
-      // Check for failed update-vault transactions
-      const failedTransactionsCount = await this.transactionsRepository.count({
-        where: {
-          vault_id: vault.id,
-          type: TransactionType.updateVault,
-          status: TransactionStatus.failed,
+    return query.getMany();
+  }
+
+  /**
+   * Job `contribution-end`: fails the vault when nothing or too much/too little was contributed, otherwise moves it
+   * to acquire, or on to locked when acquirers get 0%. A no-op once the vault has left the contribution phase.
+   */
+  async processContributionEnd(vaultId: string): Promise<void> {
+    const [vault] = await this.findVaultsAtContributionEnd(vaultId);
+
+    if (!vault) {
+      this.logger.log(`Vault ${vaultId} has nothing due for contribution-end, skipping`);
+      return;
+    }
+
+    // Check for failed update-vault transactions
+    const failedTransactionsCount = await this.transactionsRepository.count({
+      where: {
+        vault_id: vault.id,
+        type: TransactionType.updateVault,
+        status: TransactionStatus.failed,
+      },
+    });
+
+    if (failedTransactionsCount >= this.MAX_FAILED_ATTEMPTS) {
+      this.logger.warn(
+        `Skipping vault ${vault.id} - exceeded max failed attempts (${failedTransactionsCount}/${this.MAX_FAILED_ATTEMPTS}) for update-vault transactions`
+      );
+      return;
+    }
+
+    await this.transactionsService.syncVaultTransactions(vault.id);
+
+    // Check if vault has any contributed assets (excluding fee-type assets)
+    const contributedAssets = vault.assets.filter(asset => asset.origin_type === AssetOriginType.CONTRIBUTED);
+
+    if (contributedAssets.length === 0) {
+      this.logger.warn(`Vault ${vault.id} has no contributed assets. Failing vault.`);
+
+      const response = await this.vaultManagingService.updateVaultMetadataTx({
+        vault,
+        vaultStatus: SmartContractVaultStatus.CANCELLED,
+      });
+      await this.claimsService.createCancellationClaims(vault, 'no_contributions');
+      await this.executePhaseTransition({
+        vaultId: vault.id,
+        newStatus: VaultStatus.failed,
+        newScStatus: SmartContractVaultStatus.CANCELLED,
+        txHash: response.txHash,
+        failureReason: VaultFailureReason.NO_CONTRIBUTIONS,
+        failureDetails: {
+          message: 'No assets were contributed to the vault',
+          totalAssets: vault.assets.length,
+          contributedAssets: 0,
         },
       });
 
-      if (failedTransactionsCount >= this.MAX_FAILED_ATTEMPTS) {
-        this.logger.warn(
-          `Skipping vault ${vault.id} - exceeded max failed attempts (${failedTransactionsCount}/${this.MAX_FAILED_ATTEMPTS}) for update-vault transactions`
-        );
-        continue;
-      }
+      return;
+    }
 
-      await this.transactionsService.syncVaultTransactions(vault.id);
+    const policyIdCounts = contributedAssets.reduce(
+      (counts, asset) => {
+        if (!counts[asset.policy_id]) {
+          counts[asset.policy_id] = 0;
+        }
+        // Use centralized normalization logic from Asset entity
+        counts[asset.policy_id] += asset.normalizedQuantity;
+        return counts;
+      },
+      {} as Record<string, number>
+    );
+
+    let assetsWithinThreshold = true;
+    const thresholdViolations: Array<{ policyId: string; count: number; min: number; max: number }> = [];
 
-      // Check if vault has any contributed assets (excluding fee-type assets)
-      const contributedAssets = vault.assets.filter(asset => asset.origin_type === AssetOriginType.CONTRIBUTED);
+    // Check if vault has at least one contributed asset (already validated above)
+    const hasAnyAssets = contributedAssets.length > 0;
+
+    if (vault.assets_whitelist && vault.assets_whitelist.length > 0) {
+      for (const whitelistItem of vault.assets_whitelist) {
+        const policyId = whitelistItem.policy_id;
+        const count = Number(policyIdCounts[policyId]) || 0;
+        const minRequired = Number(whitelistItem.asset_count_cap_min);
+        const maxAllowed = Number(whitelistItem.asset_count_cap_max);
+
+        // Apply soft requirement logic:
+        // If vault has assets AND min requirement is 1,
+        // then skip MINIMUM validation (soft requirement)
+        // BUT still enforce MAXIMUM validation
+        const isSoftRequirement = hasAnyAssets && minRequired === 1;
+
+        // Check minimum threshold (skip if soft requirement)
+        const violatesMinimum = !isSoftRequirement && count < minRequired;
+
+        // Always check maximum threshold (even for soft requirements)
+        const violatesMaximum = count > maxAllowed;
+
+        if (violatesMinimum || violatesMaximum) {
+          assetsWithinThreshold = false;
+          thresholdViolations.push({
+            policyId,
+            count,
+            min: minRequired,
+            max: maxAllowed,
+          });
+        }
+      }
+
+      if (!assetsWithinThreshold) {
+        this.logger.warn(
+          `Vault ${vault.id} assets do not meet threshold requirements: ${JSON.stringify(thresholdViolations)}`
+        );
 
-      if (contributedAssets.length === 0) {
-        this.logger.warn(`Vault ${vault.id} has no contributed assets. Failing vault.`);
+        // Check for failed transactions before attempting cancellation update
+        if (failedTransactionsCount >= this.MAX_FAILED_ATTEMPTS) {
+          this.logger.warn(
+            `Skipping vault ${vault.id} cancellation update - exceeded max failed attempts (${failedTransactionsCount}/${this.MAX_FAILED_ATTEMPTS}) for update-vault transactions`
+          );
+          return;
+        }
 
         const response = await this.vaultManagingService.updateVaultMetadataTx({
           vault,
           vaultStatus: SmartContractVaultStatus.CANCELLED,
         });
-        await this.claimsService.createCancellationClaims(vault, 'no_contributions');
+        await this.claimsService.createCancellationClaims(vault, 'threshold_violation');
         await this.executePhaseTransition({
           vaultId: vault.id,
           newStatus: VaultStatus.failed,
           newScStatus: SmartContractVaultStatus.CANCELLED,
           txHash: response.txHash,
-          failureReason: VaultFailureReason.NO_CONTRIBUTIONS,
+          failureReason: VaultFailureReason.ASSET_THRESHOLD_VIOLATION,
           failureDetails: {
-            message: 'No assets were contributed to the vault',
-            totalAssets: vault.assets.length,
-            contributedAssets: 0,
+            message: 'Assets do not meet threshold requirements',
+            thresholdViolations,
           },
         });
 
-        continue;
+        return;
       }
+    }
 
-      const policyIdCounts = contributedAssets.reduce(
-        (counts, asset) => {
-          if (!counts[asset.policy_id]) {
-            counts[asset.policy_id] = 0;
-          }
-          // Use centralized normalization logic from Asset entity
-          counts[asset.policy_id] += asset.normalizedQuantity;
-          return counts;
-        },
-        {} as Record<string, number>
+    // Check if vault should skip acquire phase (Acquirers % = 0%)
+    if (Number(vault.tokens_for_acquires) === 0) {
+      this.logger.log(
+        `Vault ${vault.id} has 0% tokens for acquirers. ` +
+          `Skipping acquire phase and transitioning directly to governance.`
       );
 
-      let assetsWithinThreshold = true;
-      const thresholdViolations: Array<{ policyId: string; count: number; min: number; max: number }> = [];
-
-      // Check if vault has at least one contributed asset (already validated above)
-      const hasAnyAssets = contributedAssets.length > 0;
-
-      if (vault.assets_whitelist && vault.assets_whitelist.length > 0) {
-        for (const whitelistItem of vault.assets_whitelist) {
-          const policyId = whitelistItem.policy_id;
-          const count = Number(policyIdCounts[policyId]) || 0;
-          const minRequired = Number(whitelistItem.asset_count_cap_min);
-          const maxAllowed = Number(whitelistItem.asset_count_cap_max);
-
-          // Apply soft requirement logic:
-          // If vault has assets AND min requirement is 1,
-          // then skip MINIMUM validation (soft requirement)
-          // BUT still enforce MAXIMUM validation
-          const isSoftRequirement = hasAnyAssets && minRequired === 1;
-
-          // Check minimum threshold (skip if soft requirement)
-          const violatesMinimum = !isSoftRequirement && count < minRequired;
-
-          // Always check maximum threshold (even for soft requirements)
-          const violatesMaximum = count > maxAllowed;
-
-          if (violatesMinimum || violatesMaximum) {
-            assetsWithinThreshold = false;
-            thresholdViolations.push({
-              policyId,
-              count,
-              min: minRequired,
-              max: maxAllowed,
-            });
-          }
-        }
-
-        if (!assetsWithinThreshold) {
-          this.logger.warn(
-            `Vault ${vault.id} assets do not meet threshold requirements: ${JSON.stringify(thresholdViolations)}`
-          );
-
-          // Check for failed transactions before attempting cancellation update
-          if (failedTransactionsCount >= this.MAX_FAILED_ATTEMPTS) {
-            this.logger.warn(
-              `Skipping vault ${vault.id} cancellation update - exceeded max failed attempts (${failedTransactionsCount}/${this.MAX_FAILED_ATTEMPTS}) for update-vault transactions`
-            );
-            continue;
-          }
+      // Calculate distributions without acquire phase
+      // FDV = TVL of contributed assets
+      // All VT goes to contributors (minus LP if ADA was contributed)
 
-          const response = await this.vaultManagingService.updateVaultMetadataTx({
-            vault,
-            vaultStatus: SmartContractVaultStatus.CANCELLED,
-          });
-          await this.claimsService.createCancellationClaims(vault, 'threshold_violation');
-          await this.executePhaseTransition({
-            vaultId: vault.id,
-            newStatus: VaultStatus.failed,
-            newScStatus: SmartContractVaultStatus.CANCELLED,
-            txHash: response.txHash,
-            failureReason: VaultFailureReason.ASSET_THRESHOLD_VIOLATION,
-            failureDetails: {
-              message: 'Assets do not meet threshold requirements',
-              thresholdViolations,
-            },
-          });
-
-          continue;
-        }
-      }
-
-      // Check if vault should skip acquire phase (Acquirers % = 0%)
-      if (Number(vault.tokens_for_acquires) === 0) {
-        this.logger.log(
-          `Vault ${vault.id} has 0% tokens for acquirers. ` +
-            `Skipping acquire phase and transitioning directly to governance.`
-        );
-
-        // Calculate distributions without acquire phase
-        // FDV = TVL of contributed assets
-        // All VT goes to contributors (minus LP if ADA was contributed)
-
-        // Skip to governance immediately after contribution window ends
-        try {
-          this.processingVaults.add(vault.id);
-          await this.executeContributionDirectToGovernance(vault);
-        } finally {
-          this.processingVaults.delete(vault.id);
-        }
-        return;
-      } else {
-        try {
-          this.processingVaults.add(vault.id);
-          await this.executeContributionToAcquireTransition(vault);
-        } finally {
-          this.processingVaults.delete(vault.id);
-        }
-      }
+      // Skip to governance immediately after contribution window ends
+      await this.executeContributionDirectToGovernance(vault);
+    } else {
+      await this.executeContributionToAcquireTransition(vault);
     }
   }
 
@@ -740,6 +783,7 @@ export class LifecycleService {
         await this.executePhaseTransition({
           vaultId: vault.id,
           newStatus: VaultStatus.acquire,
+          reason: 'contribution_window_closed',
           phaseStartField: 'acquire_phase_start',
         });
         await emitContributionCompleteEvent();
@@ -753,6 +797,7 @@ export class LifecycleService {
           await this.executePhaseTransition({
             vaultId: vault.id,
             newStatus: VaultStatus.acquire,
+            reason: 'contribution_window_closed',
             phaseStartField: 'acquire_phase_start',
           });
           await emitContributionCompleteEvent();
@@ -761,6 +806,7 @@ export class LifecycleService {
       }
     } catch (error) {
       this.logger.error(`Error executing contribution to acquire transition for vault ${vault.id}`, error);
+      throw error;
     }
   }
 
@@ -779,11 +825,25 @@ export class LifecycleService {
    * Note: This function is designed to be idempotent and can safely be retried in case of failures, as it checks the current status of the vault before attempting any transitions.
    */
   private async handleAcquireToGovernance(): Promise<void> {
+    const acquireVaults = await this.findVaultsAtAcquireEnd();
+
+    for (const vault of acquireVaults) {
+      await this.vaultJobsService.enqueue(VaultJobQueue.LIFECYCLE, VaultLifecycleJobName.ACQUIRE_END, {
+        vaultId: vault.id,
+        expectedState: VaultStatus.acquire,
+      });
+    }
+  }
+
+  /**
+   * Acquire vaults (not acquire-only) whose window has closed; `vaultId` narrows it to that vault
+   */
+  private async findVaultsAtAcquireEnd(vaultId?: string): Promise<Vault[]> {
     const now = new Date();
 
     // Skip vaults with manual_distribution = true from automatic phase transitions
     // Manual distribution vaults require admin intervention and should not auto-transition
-    const acquireVaults = await this.vaultRepository
+    const query = this.vaultRepository
       .createQueryBuilder('vault')
       .where('vault.vault_status = :status', { status: VaultStatus.acquire })
       .andWhere('vault.acquire_phase_start IS NOT NULL')
@@ -796,45 +856,46 @@ export class LifecycleService {
       .andWhere(`(vault.chain_type IS NULL OR vault.chain_type <> :evmChain)`, {
         evmChain: 'robinhood',
       })
-      .andWhere('vault.id NOT IN (:...processingIds)', {
-        processingIds:
-          this.processingVaults.size > 0 ? Array.from(this.processingVaults) : ['00000000-0000-0000-0000-000000000000'], // Dummy UUID to avoid empty array
-      })
       .andWhere('(vault.manual_distribution_mode IS NULL OR vault.manual_distribution_mode = :manualDist)', {
         manualDist: false,
       })
       .leftJoinAndSelect('vault.owner', 'owner')
-      .leftJoinAndSelect('vault.assets', 'assets')
-      .getMany();
+      .leftJoinAndSelect('vault.assets', 'assets');
 
-    if (acquireVaults.length === 0) {
-      return;
+    if (vaultId) {
+      query.andWhere('vault.id = :vaultId', { vaultId });
     }
 
-    // I want to get all failed transaction for vault with type update-vault. If there is more than MAX_FAILED_ATTEMPTS. I will skip the vault processing
+    return query.getMany();
+  }
 
-    for (const vault of acquireVaults) {
-      const failedTransactionsCount = await this.transactionsRepository.count({
-        where: {
-          vault_id: vault.id,
-          type: TransactionType.updateVault,
-          status: TransactionStatus.failed,
-        },
-      });
+  /**
+   * Job `acquire-end`: locks the vault when the acquire threshold is met and fails it otherwise.
+   * A no-op once the vault has left the acquire phase.
+   */
+  async processAcquireEnd(vaultId: string): Promise<void> {
+    const [vault] = await this.findVaultsAtAcquireEnd(vaultId);
 
-      if (failedTransactionsCount >= this.MAX_FAILED_ATTEMPTS) {
-        this.logger.warn(
-          `Skipping vault ${vault.id} - exceeded max failed attempts (${failedTransactionsCount}/${this.MAX_FAILED_ATTEMPTS}) for update-vault transactions`
-        );
-        continue;
-      }
-      try {
-        this.processingVaults.add(vault.id);
-        await this.executeAcquireToGovernanceTransition(vault);
-      } finally {
-        this.processingVaults.delete(vault.id);
-      }
+    if (!vault) {
+      this.logger.log(`Vault ${vaultId} has nothing due for acquire-end, skipping`);
+      return;
+    }
+
+    const failedTransactionsCount = await this.transactionsRepository.count({
+      where: {
+        vault_id: vault.id,
+        type: TransactionType.updateVault,
+        status: TransactionStatus.failed,
+      },
+    });
+
+    if (failedTransactionsCount >= this.MAX_FAILED_ATTEMPTS) {
+      this.logger.warn(
+        `Skipping vault ${vault.id} - exceeded max failed attempts (${failedTransactionsCount}/${this.MAX_FAILED_ATTEMPTS}) for update-vault transactions`
+      );
+      return;
     }
+    await this.executeAcquireToGovernanceTransition(vault);
   }
 
   /**
@@ -1366,6 +1427,7 @@ export class LifecycleService {
         await this.executePhaseTransition({
           vaultId: vault.id,
           newStatus: VaultStatus.locked,
+          reason: 'acquire_threshold_met',
           phaseStartField: 'governance_phase_start',
           newScStatus: SmartContractVaultStatus.SUCCESSFUL,
           txHash: response.txHash,
@@ -1445,6 +1507,7 @@ export class LifecycleService {
       }
     } catch (error) {
       this.logger.error(`Error executing acquire to governance transition for vault ${vault.id}`, error);
+      throw error;
     }
   }
 
@@ -1740,6 +1803,7 @@ export class LifecycleService {
       await this.executePhaseTransition({
         vaultId: vault.id,
         newStatus: VaultStatus.locked,
+        reason: 'contribution_window_closed_without_acquire',
         phaseStartField: 'governance_phase_start',
         newScStatus: SmartContractVaultStatus.SUCCESSFUL,
         txHash: response.txHash,
@@ -2141,6 +2205,7 @@ export class LifecycleService {
       await this.executePhaseTransition({
         vaultId: vault.id,
         newStatus: VaultStatus.acquire,
+        reason: 'acquire_window_opened',
         phaseStartField: 'acquire_phase_start',
         newScStatus: SmartContractVaultStatus.OPEN,
       });
@@ -2169,6 +2234,7 @@ export class LifecycleService {
         await this.executePhaseTransition({
           vaultId: vault.id,
           newStatus: VaultStatus.acquire,
+          reason: 'acquire_window_opened',
           phaseStartField: 'acquire_phase_start',
           newScStatus: SmartContractVaultStatus.OPEN,
         });
@@ -2189,9 +2255,23 @@ export class LifecycleService {
    *   Failure: totalAcquiredAda === 0 → failed
    */
   private async handleAcquireOnlyToLockedOrFailed(): Promise<void> {
+    const acquireOnlyVaults = await this.findAcquireOnlyVaultsAtAcquireEnd();
+
+    for (const vault of acquireOnlyVaults) {
+      await this.vaultJobsService.enqueue(VaultJobQueue.LIFECYCLE, VaultLifecycleJobName.ACQUIRE_ONLY_END, {
+        vaultId: vault.id,
+        expectedState: VaultStatus.acquire,
+      });
+    }
+  }
+
+  /**
+   * Acquire-only vaults whose window has closed; `vaultId` narrows it to that vault
+   */
+  private async findAcquireOnlyVaultsAtAcquireEnd(vaultId?: string): Promise<Vault[]> {
     const now = new Date();
 
-    const acquireOnlyVaults = await this.vaultRepository
+    const query = this.vaultRepository
       .createQueryBuilder('vault')
       .where('vault.vault_status = :status', { status: VaultStatus.acquire })
       .andWhere('vault.is_acquire_only = :isAcquireOnly', { isAcquireOnly: true })
@@ -2204,39 +2284,46 @@ export class LifecycleService {
       .andWhere(`vault.acquire_phase_start + (vault.acquire_window_duration * interval '1 millisecond') <= :now`, {
         now,
       })
-      .andWhere('vault.id NOT IN (:...processingIds)', {
-        processingIds:
-          this.processingVaults.size > 0 ? Array.from(this.processingVaults) : ['00000000-0000-0000-0000-000000000000'],
-      })
       .andWhere('(vault.manual_distribution_mode IS NULL OR vault.manual_distribution_mode = :manualDist)', {
         manualDist: false,
       })
-      .leftJoinAndSelect('vault.owner', 'owner')
-      .getMany();
+      .leftJoinAndSelect('vault.owner', 'owner');
 
-    for (const vault of acquireOnlyVaults) {
-      const failedTransactionsCount = await this.transactionsRepository.count({
-        where: {
-          vault_id: vault.id,
-          type: TransactionType.updateVault,
-          status: TransactionStatus.failed,
-        },
-      });
+    if (vaultId) {
+      query.andWhere('vault.id = :vaultId', { vaultId });
+    }
 
-      if (failedTransactionsCount >= this.MAX_FAILED_ATTEMPTS) {
-        this.logger.warn(
-          `Skipping acquire-only vault ${vault.id} - exceeded max failed attempts (${failedTransactionsCount}/${this.MAX_FAILED_ATTEMPTS})`
-        );
-        continue;
-      }
+    return query.getMany();
+  }
 
-      try {
-        this.processingVaults.add(vault.id);
-        await this.executeAcquireOnlyTransition(vault);
-      } finally {
-        this.processingVaults.delete(vault.id);
-      }
+  /**
+   * Job `acquire-only-end`: locks or fails an acquire-only vault at the end of its acquire window.
+   * A no-op once the vault has left the acquire phase.
+   */
+  async processAcquireOnlyEnd(vaultId: string): Promise<void> {
+    const [vault] = await this.findAcquireOnlyVaultsAtAcquireEnd(vaultId);
+
+    if (!vault) {
+      this.logger.log(`Vault ${vaultId} has nothing due for acquire-only-end, skipping`);
+      return;
     }
+
+    const failedTransactionsCount = await this.transactionsRepository.count({
+      where: {
+        vault_id: vault.id,
+        type: TransactionType.updateVault,
+        status: TransactionStatus.failed,
+      },
+    });
+
+    if (failedTransactionsCount >= this.MAX_FAILED_ATTEMPTS) {
+      this.logger.warn(
+        `Skipping acquire-only vault ${vault.id} - exceeded max failed attempts (${failedTransactionsCount}/${this.MAX_FAILED_ATTEMPTS})`
+      );
+      return;
+    }
+
+    await this.executeAcquireOnlyTransition(vault);
   }
 
   /**
@@ -2480,6 +2567,7 @@ export class LifecycleService {
         await this.executePhaseTransition({
           vaultId: vault.id,
           newStatus: VaultStatus.locked,
+          reason: 'acquire_window_closed',
           phaseStartField: 'governance_phase_start',
           newScStatus: SmartContractVaultStatus.SUCCESSFUL,
           txHash: response.txHash,
@@ -2555,6 +2643,7 @@ export class LifecycleService {
       }
     } catch (error) {
       this.logger.error(`Error executing acquire-only transition for vault ${vault.id}:`, error);
+      throw error;
     }
   }
 
@@ -2596,10 +2685,9 @@ export class LifecycleService {
     if (!this.isEvmCycleAutomationEnabled()) return;
     const now = new Date();
     try {
-      const result = await this.vaultRepository
+      const vaults = await this.vaultRepository
         .createQueryBuilder()
-        .update(Vault)
-        .set({ vault_status: VaultStatus.acquire, acquire_phase_start: now })
+        .select('id')
         .where('chain_type = :evmChain', { evmChain: ChainType.robinhood })
         .andWhere('vault_status = :status', { status: VaultStatus.contribution })
         .andWhere('contribution_phase_start IS NOT NULL')
@@ -2607,9 +2695,23 @@ export class LifecycleService {
         .andWhere(`contribution_phase_start + (contribution_duration * interval '1 millisecond') <= :now`, { now })
         .andWhere('evm_root_committed_at IS NULL')
         .andWhere('evm_cancel_cycle_tx_hash IS NULL')
-        .execute();
-      if (result.affected && result.affected > 0) {
-        this.logger.log(`EVM label flip: ${result.affected} vault(s) contribution → acquire`);
+        .getRawMany<{ id: string }>();
+
+      let flipped = 0;
+      for (const { id } of vaults) {
+        const transition = await this.jobCoordinatorService.fenced(manager =>
+          this.vaultStateMachineService.transition(
+            id,
+            VaultStatus.acquire,
+            { reason: 'contribution_window_closed', actor: LIFECYCLE_ACTOR, expectedFrom: [VaultStatus.contribution] },
+            { acquire_phase_start: now },
+            manager
+          )
+        );
+        if (transition) flipped++;
+      }
+      if (flipped > 0) {
+        this.logger.log(`EVM label flip: ${flipped} vault(s) contribution → acquire`);
       }
     } catch (err) {
       this.logger.error(`EVM contribution→acquire label sweep failed: ${(err as Error).message}`);
@@ -0,0 +1,17 @@
+import { ConflictException } from '@nestjs/common';
+
+import { VaultStatus } from '@/types/vault.types';
+
+/**
+ * The vault may not move from its current status to the requested one, either because the transition is not
+ * declared in `VAULT_STATUS_TRANSITIONS` or because its guard rejected it.
+ */
+export class IllegalVaultTransitionException extends ConflictException {
+  constructor(vaultId: string, from: VaultStatus | null, to: VaultStatus, detail?: string) {
+    super(
+      `Vault ${vaultId} cannot move from ${from ?? 'no status'} to ${to}` + (detail ? `: ${detail}` : ''),
+      'ILLEGAL_VAULT_TRANSITION'
+    );
+    this.name = 'IllegalVaultTransitionException';
+  }
+}
@@ -0,0 +1,17 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { VaultStateMachineService } from './vault-state-machine.service';
+import { VaultTimelineController } from './vault-timeline.controller';
+
+import { Vault } from '@/database/vault.entity';
+import { VaultStatusTransition } from '@/database/vaultStatusTransition.entity';
+
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([Vault, VaultStatusTransition])],
+  controllers: [VaultTimelineController],
+  providers: [VaultStateMachineService],
+  exports: [VaultStateMachineService],
+})
+export class VaultStateMachineModule {}
@@ -0,0 +1,136 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+
+import { IllegalVaultTransitionException } from './illegal-vault-transition.exception';
+import { isVaultTransitionAllowed, VAULT_TRANSITION_GUARDS } from './vault-status-transitions';
+
+import { getRequestContext } from '@/common/context/request-context';
+import { Vault } from '@/database/vault.entity';
+import { VaultStatusTransition } from '@/database/vaultStatusTransition.entity';
+import { VaultStatus, VaultStatusTransitionContext } from '@/types/vault.types';
+
+const SYSTEM_ACTOR = 'system';
+
+/**
+ * Single entry point for changing `vault_status`.
+ *
+ * Each transition locks the vault row, checks the move against `VAULT_STATUS_TRANSITIONS` and its guard,
+ * applies the status together with the caller's other column changes and appends a `vault_status_transitions`
+ * row, all in one database transaction.
+ */
+@Injectable()
+export class VaultStateMachineService {
+  private readonly logger = new Logger(VaultStateMachineService.name);
+
+  constructor(
+    @InjectRepository(VaultStatusTransition)
+    private readonly transitionRepository: Repository<VaultStatusTransition>,
+    @InjectDataSource()
+    private readonly dataSource: DataSource
+  ) {}
+
+  /**
+   * Throws when `vault` may not move to `to`. Used by flows that submit an on-chain transaction before
+   * recording the new status, so an illegal move is refused before anything reaches the chain.
+   */
+  assertCanTransition(
+    vault: Vault,
+    to: VaultStatus,
+    context: Pick<VaultStatusTransitionContext, 'proposalId'> = {},
+    changes: Partial<Vault> = {}
+  ): void {
+    this.checkTransition(vault, to, { reason: 'precheck', ...context }, changes);
+  }
+
+  /**
+   * Moves the vault to `to` and applies `changes` with it.
+   * Returns the new log row, or null when the vault is already in `to` or has left `context.expectedFrom`;
+   * in both cases nothing is written.
+   *
+   * @param manager - Run inside the caller's transaction instead of opening a new one
+   */
+  async transition(
+    vaultId: string,
+    to: VaultStatus,
+    context: VaultStatusTransitionContext,
+    changes: Partial<Vault> = {},
+    manager?: EntityManager
+  ): Promise<VaultStatusTransition | null> {
+    const run = async (em: EntityManager): Promise<VaultStatusTransition | null> => {
+      const vault = await em.findOne(Vault, {
+        where: { id: vaultId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!vault) {
+        throw new NotFoundException(`Vault ${vaultId} not found`);
+      }
+
+      const from = vault.vault_status ?? null;
+
+      if (from === to) {
+        this.logger.debug(`Vault ${vaultId} is already ${to}, skipping transition (${context.reason})`);
+        return null;
+      }
+
+      if (context.expectedFrom && !context.expectedFrom.includes(from)) {
+        this.logger.log(`Vault ${vaultId} moved to ${from} before ${context.reason}, skipping transition to ${to}`);
+        return null;
+      }
+
+      this.checkTransition(vault, to, context, changes);
+
+      await em.update(Vault, { id: vaultId }, { ...changes, vault_status: to } as QueryDeepPartialEntity<Vault>);
+
+      const transition = await em.save(
+        em.create(VaultStatusTransition, {
+          vaultId,
+          fromStatus: from,
+          toStatus: to,
+          reason: context.reason,
+          actor: context.actor ?? getRequestContext()?.actor ?? SYSTEM_ACTOR,
+          txHash: context.txHash ?? null,
+          proposalId: context.proposalId ?? null,
+          details: context.details ?? null,
+        })
+      );
+
+      this.logger.log(`Vault ${vaultId}: ${from} -> ${to} (${context.reason}, ${transition.actor})`);
+
+      return transition;
+    };
+
+    return manager ? run(manager) : this.dataSource.transaction(run);
+  }
+
+  async getTimeline(vaultId: string): Promise<VaultStatusTransition[]> {
+    if (!(await this.dataSource.manager.count(Vault, { where: { id: vaultId } }))) {
+      throw new NotFoundException(`Vault ${vaultId} not found`);
+    }
+
+    return this.transitionRepository.find({
+      where: { vaultId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  private checkTransition(
+    vault: Vault,
+    to: VaultStatus,
+    context: VaultStatusTransitionContext,
+    changes: Partial<Vault>
+  ): void {
+    const from = vault.vault_status ?? null;
+
+    if (!isVaultTransitionAllowed(from, to)) {
+      throw new IllegalVaultTransitionException(vault.id, from, to);
+    }
+
+    const rejection = VAULT_TRANSITION_GUARDS[to]?.({ ...vault, ...changes, vault_status: from } as Vault, context);
+    if (rejection) {
+      throw new IllegalVaultTransitionException(vault.id, from, to, rejection);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { Vault } from '@/database/vault.entity';
+import { SmartContractVaultStatus, VaultStatus, VaultStatusTransitionContext } from '@/types/vault.types';
+
+/**
+ * Checks a transition against the vault as it will be saved (current row plus the caller's changes,
+ * with `vault_status` still the source status). Returns why the transition is not allowed, if it is not.
+ */
+export type VaultTransitionGuard = (vault: Vault, context: VaultStatusTransitionContext) => string | undefined;
+
+/**
+ * Reason of the only move back to `published`: the createVault transaction that opened the first window was
+ * rolled back by a chain reorganization
+ */
+export const LAUNCH_ROLLED_BACK_REASON = 'create_vault_rolled_back';
+
+/**
+ * Every legal vault status change. `investment` and `govern` are legacy statuses that no vault enters any more.
+ */
+export const VAULT_STATUS_TRANSITIONS: Record<VaultStatus, readonly VaultStatus[]> = {
+  [VaultStatus.draft]: [VaultStatus.created, VaultStatus.published],
+  [VaultStatus.created]: [VaultStatus.published, VaultStatus.draft, VaultStatus.burned],
+  [VaultStatus.published]: [VaultStatus.contribution, VaultStatus.acquire, VaultStatus.failed, VaultStatus.burned],
+  [VaultStatus.contribution]: [VaultStatus.acquire, VaultStatus.locked, VaultStatus.failed, VaultStatus.published],
+  [VaultStatus.acquire]: [VaultStatus.locked, VaultStatus.failed, VaultStatus.published],
+  [VaultStatus.locked]: [VaultStatus.expansion, VaultStatus.acquire_expansion, VaultStatus.terminating],
+  [VaultStatus.expansion]: [VaultStatus.locked],
+  [VaultStatus.acquire_expansion]: [VaultStatus.locked],
+  [VaultStatus.terminating]: [VaultStatus.burned],
+  [VaultStatus.failed]: [VaultStatus.burned],
+  [VaultStatus.burned]: [],
+  [VaultStatus.investment]: [],
+  [VaultStatus.govern]: [],
+};
+
+const requireProposal: VaultTransitionGuard = (_vault, context) =>
+  context.proposalId ? undefined : 'a passed governance proposal is required';
+
+/**
+ * Extra conditions on entering a status, keyed by the target status
+ */
+export const VAULT_TRANSITION_GUARDS: Partial<Record<VaultStatus, VaultTransitionGuard>> = {
+  [VaultStatus.published]: (vault, context) =>
+    [VaultStatus.contribution, VaultStatus.acquire].includes(vault.vault_status) &&
+    context.reason !== LAUNCH_ROLLED_BACK_REASON
+      ? 'only a rolled back createVault transaction returns a vault to published'
+      : undefined,
+  [VaultStatus.contribution]: vault =>
+    vault.publication_hash ? undefined : 'the vault has not been published on-chain',
+  [VaultStatus.acquire]: vault =>
+    vault.vault_status !== VaultStatus.published || vault.publication_hash
+      ? undefined
+      : 'the vault has not been published on-chain',
+  [VaultStatus.locked]: vault =>
+    vault.vault_sc_status === SmartContractVaultStatus.SUCCESSFUL || vault.evm_root_committed_at
+      ? undefined
+      : 'the vault has not been locked on-chain',
+  [VaultStatus.expansion]: requireProposal,
+  [VaultStatus.acquire_expansion]: requireProposal,
+  [VaultStatus.terminating]: requireProposal,
+  [VaultStatus.failed]: vault =>
+    vault.failure_reason || vault.evm_cancel_cycle_tx_hash ? undefined : 'a failure reason is required',
+};
+
+export function isVaultTransitionAllowed(from: VaultStatus | null, to: VaultStatus): boolean {
+  return from !== null && VAULT_STATUS_TRANSITIONS[from]?.includes(to) === true;
+}
@@ -0,0 +1,24 @@
+import { ClassSerializerInterceptor, Controller, Get, Param, ParseUUIDPipe, UseInterceptors } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+
+import { VaultStateMachineService } from './vault-state-machine.service';
+
+import { VaultStatusTransition } from '@/database/vaultStatusTransition.entity';
+import { ApiDoc } from '@/decorators/api-doc.decorator';
+
+@ApiTags('vaults')
+@Controller('vaults')
+@UseInterceptors(ClassSerializerInterceptor)
+export class VaultTimelineController {
+  constructor(private readonly vaultStateMachineService: VaultStateMachineService) {}
+
+  @ApiDoc({
+    summary: 'Get vault timeline',
+    description: 'Every status change of the vault, oldest first, with its reason, actor and related tx/proposal.',
+    status: 200,
+  })
+  @Get(':id/timeline')
+  async getTimeline(@Param('id', ParseUUIDPipe) id: string): Promise<VaultStatusTransition[]> {
+    return this.vaultStateMachineService.getTimeline(id);
+  }
+}
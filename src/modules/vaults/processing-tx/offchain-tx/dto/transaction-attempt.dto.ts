@@ -0,0 +1,62 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+import { TransactionAttemptKind, TransactionAttemptStatus } from '@/types/transaction.types';
+
+export class TransactionAttemptDto {
+  @Expose()
+  @ApiProperty({ description: 'Attempt ID' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ description: '1-based position in the attempt history', example: 1 })
+  attemptNumber: number;
+
+  @Expose()
+  @ApiProperty({ description: 'How the attempt was broadcast', enum: TransactionAttemptKind })
+  kind: TransactionAttemptKind;
+
+  @Expose()
+  @ApiProperty({ description: 'Attempt status', enum: TransactionAttemptStatus })
+  status: TransactionAttemptStatus;
+
+  @Expose()
+  @ApiProperty({ description: 'Transaction hash of this attempt' })
+  txHash: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Hash of the attempt this one replaced', nullable: true })
+  replacesTxHash: string | null;
+
+  @Expose()
+  @ApiProperty({ description: 'Cardano inputs as <tx hash>#<index>', type: [String], nullable: true })
+  inputs: string[] | null;
+
+  @Expose()
+  @ApiProperty({ description: 'Cardano TTL slot', nullable: true })
+  ttlSlot: string | null;
+
+  @Expose()
+  @ApiProperty({ description: 'EVM sender nonce', nullable: true })
+  nonce: number | null;
+
+  @Expose()
+  @ApiProperty({ description: 'Times this attempt was broadcast', example: 1 })
+  broadcastCount: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Last broadcast time' })
+  lastBroadcastAt: Date;
+
+  @Expose()
+  @ApiProperty({ description: 'Transaction that consumed an input / the nonce instead', nullable: true })
+  consumedBy: string | null;
+
+  @Expose()
+  @ApiProperty({ description: 'Last broadcast or rebuild error', nullable: true })
+  error: string | null;
+
+  @Expose()
+  @ApiProperty({ description: 'Creation time' })
+  createdAt: Date;
+}
@@ -9,10 +9,12 @@ import { createPublicClient, http, PublicClient } from 'viem';
 import { BlockchainWebhookService } from '../onchain/blockchain-webhook.service';
 import { EvmVaultEventReconciler, VaultLogInput } from '../onchain/evm-vault-event-reconciler.service';
 
+import { TransactionTrackerService } from './transaction-tracker.service';
 import { TransactionsService } from './transactions.service';
 
 import { Transaction } from '@/database/transaction.entity';
-import { EvmReconciliationStatus, TransactionStatus, TransactionType } from '@/types/transaction.types';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
+import { EvmReconciliationStatus, TransactionStatus } from '@/types/transaction.types';
 
 @Injectable()
 export class TransactionHealthService {
@@ -29,7 +31,8 @@ export class TransactionHealthService {
     private readonly transactionsService: TransactionsService,
     private readonly blockchainWebhookService: BlockchainWebhookService,
     private readonly configService: ConfigService,
-    private readonly vaultEventReconciler: EvmVaultEventReconciler
+    private readonly vaultEventReconciler: EvmVaultEventReconciler,
+    private readonly transactionTracker: TransactionTrackerService
   ) {
     this.blockfrost = new BlockFrostAPI({
       projectId: this.configService.get<string>('BLOCKFROST_API_KEY'),
@@ -57,6 +60,7 @@ export class TransactionHealthService {
    *      when reconciled_at is set.
    */
   @Cron(CronExpression.EVERY_5_MINUTES)
+  @CoordinatedJob('transaction-health')
   async checkStuckTransactions(): Promise<void> {
     this.logger.log('Starting health check for stuck transactions');
 
@@ -95,7 +99,9 @@ export class TransactionHealthService {
   }
 
   /**
-   * Verify a transaction on-chain and update its status
+   * Verify a transaction on-chain and update its status. Transactions with an attempt history are first run
+   * through the tracker (rebroadcast, rebuild, fee bump, double-spend detection); the checks below only
+   * confirm the attempt that landed, or handle transactions the tracker has no history for.
    * @param transaction Transaction to verify
    */
   private async verifyAndUpdateTransaction(transaction: Transaction): Promise<void> {
@@ -137,6 +143,11 @@ export class TransactionHealthService {
       return;
     }
 
+    const outcome = await this.transactionTracker.trackEvm(transaction);
+    if (outcome === 'pending' || outcome === 'failed') {
+      return;
+    }
+
     try {
       // Get transaction receipt from EVM chain
       const receipt = await this.evmClient.getTransactionReceipt({
@@ -208,30 +219,27 @@ export class TransactionHealthService {
    * @param transaction Cardano transaction to verify
    */
   private async verifyCardanoTransaction(transaction: Transaction): Promise<void> {
+    const outcome = await this.transactionTracker.trackCardano(transaction);
+    if (outcome === 'pending' || outcome === 'failed') {
+      return;
+    }
+
     try {
       // Try to fetch transaction from blockchain
       const blockchainTx = await this.blockfrost.txs(transaction.tx_hash);
 
       if (blockchainTx && blockchainTx.block_height) {
-        // Transaction is confirmed on-chain
+        // Transaction is in a block
         this.logger.log(
-          `Cardano transaction ${transaction.tx_hash} is confirmed on-chain (block: ${blockchainTx.block_height}), updating status`
+          `Cardano transaction ${transaction.tx_hash} is on-chain (block: ${blockchainTx.block_height}), applying confirmation`
         );
 
-        await this.transactionsService.updateTransactionStatusByHash(
-          transaction.tx_hash,
-          blockchainTx.index,
-          TransactionStatus.confirmed
-        );
-
-        if (!transaction) {
-          return null;
-        }
-
-        if (transaction.type === TransactionType.contribute || transaction.type === TransactionType.acquire) {
-          const lockedCount = await this.transactionsService.lockAssetsForTransaction(transaction.id);
-          this.logger.log(`Locked ${lockedCount} assets for transaction ${transaction.tx_hash}`);
-        }
+        // Same confirmation logic as the webhook: waits for the confirmation depth, then applies the side effects
+        await this.blockchainWebhookService.confirmCardanoTransaction(transaction.tx_hash, blockchainTx.index, {
+          hash: blockchainTx.block,
+          height: blockchainTx.block_height,
+          slot: blockchainTx.slot,
+        });
       } else {
         // Transaction exists but not yet in a block
         this.logger.warn(
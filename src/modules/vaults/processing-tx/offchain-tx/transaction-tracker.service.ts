@@ -0,0 +1,547 @@
+import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
+import { FixedTransaction } from '@emurgo/cardano-serialization-lib-nodejs';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import type { Transaction as EvmTransaction } from 'viem' with { 'resolution-mode': 'import' };
+
+import { BlockchainService } from '../onchain/blockchain.service';
+import { EvmAdminSigner } from '../onchain/evm-admin-signer.service';
+import { EvmContractReader } from '../onchain/evm-contract-reader.service';
+import { UtxoSpentException } from '../onchain/exceptions/utxo-spent.exception';
+
+import { TransactionsService } from './transactions.service';
+
+import { Transaction } from '@/database/transaction.entity';
+import { TransactionAttempt } from '@/database/transactionAttempt.entity';
+import {
+  EvmAttemptRequest,
+  TransactionAttemptKind,
+  TransactionAttemptStatus,
+  TransactionLifecycleEvent,
+  TransactionRebuildResult,
+  TransactionStatus,
+} from '@/types/transaction.types';
+
+/**
+ * What the tracker made of a submitted transaction:
+ *   untracked — no attempt history to work from; the caller falls back to its own checks.
+ *   on-chain  — an attempt landed; `transaction.tx_hash` now points at it.
+ *   pending   — still in flight (possibly rebroadcast, rebuilt or fee-bumped this round).
+ *   failed    — double-spent, or expired without a rebuild; the transaction was marked failed.
+ */
+export type TrackedTransactionOutcome = 'untracked' | 'on-chain' | 'pending' | 'failed';
+
+interface BroadcastEvent {
+  txHash: string;
+  transaction: string;
+  signatures: string[];
+}
+
+/**
+ * Follows submitted transactions through every broadcast attempt.
+ *
+ * Cardano: each submit through `BlockchainService` is recorded with its CBOR, inputs and TTL. A transaction
+ * that is not on-chain is rebroadcast as is while its TTL holds, reported as double-spent when one of its
+ * inputs was consumed by another transaction, and handed to its owning flow through `transaction.expired`
+ * once the TTL passed with the inputs still unspent; a listener may rebuild and submit it (returning the new
+ * hash) or requeue the work (`{ requeued: true }`).
+ *
+ * EVM: admin transactions still pending after `EVM_FEE_BUMP_AFTER_MINUTES` are re-sent with the same nonce
+ * and higher fees; a nonce used by anything other than one of the attempts is reported as double-spent.
+ */
+@Injectable()
+export class TransactionTrackerService {
+  private readonly logger = new Logger(TransactionTrackerService.name);
+  private readonly blockfrost: BlockFrostAPI;
+  private readonly rebroadcastAfterMinutes: number;
+  private readonly maxRebuilds: number;
+  private readonly feeBumpAfterMinutes: number;
+  private readonly feeBumpPercent: number;
+  private readonly maxFeeBumps: number;
+
+  constructor(
+    @InjectRepository(TransactionAttempt)
+    private readonly attemptRepository: Repository<TransactionAttempt>,
+    @InjectRepository(Transaction)
+    private readonly transactionRepository: Repository<Transaction>,
+    private readonly transactionsService: TransactionsService,
+    private readonly blockchainService: BlockchainService,
+    private readonly evmAdminSigner: EvmAdminSigner,
+    private readonly evmContractReader: EvmContractReader,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2
+  ) {
+    this.blockfrost = new BlockFrostAPI({
+      projectId: this.configService.get<string>('BLOCKFROST_API_KEY'),
+    });
+    this.rebroadcastAfterMinutes = Number(this.configService.get<string>('TX_REBROADCAST_AFTER_MINUTES') ?? 10);
+    this.maxRebuilds = Number(this.configService.get<string>('TX_MAX_REBUILDS') ?? 3);
+    this.feeBumpAfterMinutes = Number(this.configService.get<string>('EVM_FEE_BUMP_AFTER_MINUTES') ?? 10);
+    this.feeBumpPercent = Number(this.configService.get<string>('EVM_FEE_BUMP_PERCENT') ?? 25);
+    this.maxFeeBumps = Number(this.configService.get<string>('EVM_MAX_FEE_BUMPS') ?? 5);
+  }
+
+  @OnEvent('transaction.broadcast')
+  async recordBroadcast(event: BroadcastEvent): Promise<void> {
+    let inputs: string[] | null = null;
+    let ttlSlot: string | null = null;
+
+    try {
+      const body = FixedTransaction.from_hex(event.transaction).body();
+      const txInputs = body.inputs();
+      inputs = [];
+      for (let i = 0; i < txInputs.len(); i++) {
+        inputs.push(`${txInputs.get(i).transaction_id().to_hex()}#${txInputs.get(i).index()}`);
+      }
+      ttlSlot = body.ttl_bignum()?.to_str() ?? null;
+    } catch (error) {
+      this.logger.warn(`Could not decode broadcast transaction ${event.txHash}: ${error.message}`);
+    }
+
+    try {
+      await this.attemptRepository.upsert(
+        {
+          txHash: event.txHash,
+          txCbor: event.transaction,
+          signatures: event.signatures,
+          inputs,
+          ttlSlot,
+          lastBroadcastAt: new Date(),
+        },
+        ['txHash']
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record broadcast of ${event.txHash}: ${error.message}`);
+    }
+  }
+
+  /**
+   * A confirmed attempt whose block was rolled back is in flight again; rebroadcast it on the next round
+   */
+  @OnEvent('transaction.rolled_back')
+  async reopenRolledBack(event: TransactionLifecycleEvent): Promise<void> {
+    await this.attemptRepository.update(
+      { transactionId: event.transactionId, txHash: event.txHash, status: TransactionAttemptStatus.confirmed },
+      { status: TransactionAttemptStatus.submitted, lastBroadcastAt: new Date(0) }
+    );
+  }
+
+  async getAttempts(transactionId: string): Promise<TransactionAttempt[]> {
+    const transaction = await this.transactionRepository.findOne({
+      where: { id: transactionId },
+      select: ['id', 'tx_hash'],
+    });
+
+    if (!transaction) {
+      throw new NotFoundException(`Transaction ${transactionId} not found`);
+    }
+
+    return this.loadAttempts(transaction);
+  }
+
+  async trackCardano(transaction: Transaction): Promise<TrackedTransactionOutcome> {
+    const attempts = await this.loadAttempts(transaction);
+    const open = attempts.filter(attempt => attempt.status === TransactionAttemptStatus.submitted);
+
+    if (open.length === 0) {
+      return 'untracked';
+    }
+
+    for (const attempt of open) {
+      if (await this.isCardanoTxOnChain(attempt.txHash)) {
+        await this.settle(transaction, attempt, attempts);
+        return 'on-chain';
+      }
+    }
+
+    const current = open[open.length - 1];
+    if (!current.inputs) {
+      return 'untracked';
+    }
+
+    const ours = new Set(attempts.map(attempt => attempt.txHash));
+    const consumedBy = await this.findCardanoInputSpender(current.inputs);
+
+    if (consumedBy && ours.has(consumedBy)) {
+      // An attempt we no longer considered open (expired or replaced) spent the inputs after all
+      await this.settle(
+        transaction,
+        attempts.find(attempt => attempt.txHash === consumedBy),
+        attempts
+      );
+      return 'on-chain';
+    }
+
+    if (consumedBy) {
+      await this.markDoubleSpent(transaction, current, consumedBy);
+      return 'failed';
+    }
+
+    const tip = await this.blockfrost.blocksLatest();
+    if (current.ttlSlot && tip.slot > Number(current.ttlSlot)) {
+      return this.handleExpired(transaction, current, attempts);
+    }
+
+    if (current.txCbor && this.minutesSince(current.lastBroadcastAt) >= this.rebroadcastAfterMinutes) {
+      await this.rebroadcast(current);
+    }
+
+    return 'pending';
+  }
+
+  async trackEvm(transaction: Transaction): Promise<TrackedTransactionOutcome> {
+    const client = this.evmContractReader.publicClient;
+    const attempts = await this.loadAttempts(transaction);
+    const candidates = attempts.filter(attempt =>
+      [TransactionAttemptStatus.submitted, TransactionAttemptStatus.replaced].includes(attempt.status)
+    );
+
+    const landed = await this.findEvmReceipt(candidates.map(attempt => attempt.txHash));
+    if (landed) {
+      await this.settle(
+        transaction,
+        candidates.find(attempt => attempt.txHash === landed),
+        attempts
+      );
+      return 'on-chain';
+    }
+
+    let current = [...attempts].reverse().find(attempt => attempt.status === TransactionAttemptStatus.submitted);
+
+    if (!current) {
+      if (attempts.length > 0) {
+        return 'untracked';
+      }
+
+      // EVM broadcasts are not recorded at submit time: start the history from the mempool entry
+      const pending = await this.getEvmTransaction(transaction.tx_hash);
+      if (!pending) {
+        return 'untracked';
+      }
+
+      current = await this.attemptRepository.save(
+        this.attemptRepository.create({
+          transactionId: transaction.id,
+          attemptNumber: 1,
+          kind: TransactionAttemptKind.submit,
+          status: TransactionAttemptStatus.submitted,
+          txHash: transaction.tx_hash,
+          nonce: Number(pending.nonce),
+          evmRequest: {
+            from: pending.from,
+            to: pending.to ?? null,
+            data: pending.input,
+            value: String(pending.value ?? 0),
+            gas: String(pending.gas),
+            maxFeePerGas: pending.maxFeePerGas != null ? String(pending.maxFeePerGas) : null,
+            maxPriorityFeePerGas: pending.maxPriorityFeePerGas != null ? String(pending.maxPriorityFeePerGas) : null,
+            gasPrice: pending.maxFeePerGas == null && pending.gasPrice != null ? String(pending.gasPrice) : null,
+          },
+          lastBroadcastAt: transaction.updated_at ?? new Date(),
+        })
+      );
+      attempts.push(current);
+    }
+
+    if (current.nonce === null || !current.evmRequest) {
+      return 'pending';
+    }
+
+    const confirmedNonce = Number(
+      await client.getTransactionCount({ address: current.evmRequest.from, blockTag: 'latest' })
+    );
+    if (confirmedNonce > current.nonce) {
+      // The nonce is used; re-check our attempts in case one was mined since the receipt lookup
+      const late = await this.findEvmReceipt(candidates.map(attempt => attempt.txHash).concat(current.txHash));
+      if (late) {
+        await this.settle(
+          transaction,
+          attempts.find(attempt => attempt.txHash === late),
+          attempts
+        );
+        return 'on-chain';
+      }
+
+      await this.markDoubleSpent(transaction, current, null);
+      return 'failed';
+    }
+
+    const feeBumps = attempts.filter(attempt => attempt.kind === TransactionAttemptKind.feeBump).length;
+    if (
+      current.evmRequest.from.toLowerCase() === this.evmAdminSigner.address.toLowerCase() &&
+      feeBumps < this.maxFeeBumps &&
+      this.minutesSince(current.lastBroadcastAt) >= this.feeBumpAfterMinutes
+    ) {
+      await this.bumpFees(transaction, current, attempts);
+    }
+
+    return 'pending';
+  }
+
+  /**
+   * Attempts of the transaction, oldest first. The broadcast recorded for the current hash is linked to the
+   * transaction the first time it is seen here.
+   */
+  private async loadAttempts(transaction: Pick<Transaction, 'id' | 'tx_hash'>): Promise<TransactionAttempt[]> {
+    if (transaction.tx_hash) {
+      await this.attemptRepository.update(
+        { txHash: transaction.tx_hash, transactionId: IsNull() },
+        { transactionId: transaction.id }
+      );
+    }
+
+    return this.attemptRepository.find({
+      where: { transactionId: transaction.id },
+      order: { attemptNumber: 'ASC' },
+    });
+  }
+
+  private async settle(
+    transaction: Transaction,
+    winner: TransactionAttempt,
+    attempts: TransactionAttempt[]
+  ): Promise<void> {
+    await this.attemptRepository.update({ id: winner.id }, { status: TransactionAttemptStatus.confirmed });
+
+    const others = attempts
+      .filter(attempt => attempt.id !== winner.id && attempt.status === TransactionAttemptStatus.submitted)
+      .map(attempt => attempt.id);
+    if (others.length > 0) {
+      await this.attemptRepository.update({ id: In(others) }, { status: TransactionAttemptStatus.replaced });
+    }
+
+    if (transaction.tx_hash !== winner.txHash) {
+      this.logger.log(`Transaction ${transaction.id} landed as attempt ${winner.attemptNumber} (${winner.txHash})`);
+      await this.transactionRepository.update({ id: transaction.id }, { tx_hash: winner.txHash });
+      transaction.tx_hash = winner.txHash;
+    }
+  }
+
+  private async handleExpired(
+    transaction: Transaction,
+    expired: TransactionAttempt,
+    attempts: TransactionAttempt[]
+  ): Promise<TrackedTransactionOutcome> {
+    await this.attemptRepository.update({ id: expired.id }, { status: TransactionAttemptStatus.expired });
+
+    const rebuilds = attempts.filter(attempt => attempt.kind === TransactionAttemptKind.rebuild).length;
+    if (rebuilds >= this.maxRebuilds) {
+      this.logger.error(`Transaction ${transaction.id} expired again after ${rebuilds} rebuilds, giving up`);
+      await this.transactionsService.updateTransactionStatusById(transaction.id, TransactionStatus.failed);
+      return 'failed';
+    }
+
+    let result: TransactionRebuildResult | undefined;
+    try {
+      const results: (TransactionRebuildResult | undefined)[] = await this.eventEmitter.emitAsync(
+        'transaction.expired',
+        this.lifecycleEvent(transaction, expired.txHash)
+      );
+      result = results.find(Boolean);
+    } catch (error) {
+      this.logger.error(`Rebuilding expired transaction ${transaction.id} failed: ${error.message}`);
+      await this.attemptRepository.update({ id: expired.id }, { error: String(error.message).slice(0, 500) });
+    }
+
+    if (result && 'txHash' in result) {
+      await this.recordReplacement(transaction, expired, attempts, TransactionAttemptKind.rebuild, result.txHash);
+      return 'pending';
+    }
+
+    this.logger.warn(
+      `Transaction ${transaction.id} (${expired.txHash}) expired before confirmation` +
+        (result ? ', its flow requeued the work' : ', nothing rebuilt it')
+    );
+    await this.transactionsService.updateTransactionStatusById(transaction.id, TransactionStatus.failed);
+    return 'failed';
+  }
+
+  private async markDoubleSpent(
+    transaction: Transaction,
+    attempt: TransactionAttempt,
+    consumedBy: string | null
+  ): Promise<void> {
+    this.logger.error(
+      `Transaction ${transaction.id} (${attempt.txHash}) was double-spent` + (consumedBy ? ` by ${consumedBy}` : '')
+    );
+
+    await this.attemptRepository.update(
+      { id: attempt.id },
+      { status: TransactionAttemptStatus.doubleSpent, consumedBy }
+    );
+    await this.transactionsService.updateTransactionStatusById(transaction.id, TransactionStatus.failed);
+
+    this.eventEmitter.emit('transaction.double_spent', {
+      ...this.lifecycleEvent(transaction, attempt.txHash),
+      consumedBy,
+    });
+  }
+
+  private async rebroadcast(attempt: TransactionAttempt): Promise<void> {
+    try {
+      await this.blockchainService.submitTransaction({
+        transaction: attempt.txCbor,
+        signatures: attempt.signatures ?? [],
+      });
+      this.logger.log(`Rebroadcast ${attempt.txHash} (broadcast ${attempt.broadcastCount + 1})`);
+    } catch (error) {
+      // Already in the mempool or a block; the next round picks it up
+      if (!(error instanceof UtxoSpentException && error.txHash === 'already-submitted')) {
+        this.logger.warn(`Rebroadcast of ${attempt.txHash} failed: ${error.message}`);
+        await this.attemptRepository.update(
+          { id: attempt.id },
+          { error: String(error.message).slice(0, 500), lastBroadcastAt: new Date() }
+        );
+        return;
+      }
+    }
+
+    await this.attemptRepository.update(
+      { id: attempt.id },
+      { broadcastCount: attempt.broadcastCount + 1, lastBroadcastAt: new Date(), error: null }
+    );
+  }
+
+  private async bumpFees(
+    transaction: Transaction,
+    current: TransactionAttempt,
+    attempts: TransactionAttempt[]
+  ): Promise<void> {
+    let replacement: { hash: string; request: EvmAttemptRequest };
+    try {
+      replacement = await this.evmAdminSigner.replaceTransaction(
+        current.evmRequest,
+        current.nonce,
+        this.feeBumpPercent
+      );
+    } catch (error) {
+      this.logger.warn(`Fee bump of ${current.txHash} failed: ${error.message}`);
+      await this.attemptRepository.update(
+        { id: current.id },
+        { error: String(error.message).slice(0, 500), lastBroadcastAt: new Date() }
+      );
+      return;
+    }
+
+    await this.recordReplacement(transaction, current, attempts, TransactionAttemptKind.feeBump, replacement.hash, {
+      nonce: current.nonce,
+      evmRequest: replacement.request,
+    });
+  }
+
+  private async recordReplacement(
+    transaction: Transaction,
+    previous: TransactionAttempt,
+    attempts: TransactionAttempt[],
+    kind: TransactionAttemptKind,
+    txHash: string,
+    fields: Partial<TransactionAttempt> = {}
+  ): Promise<void> {
+    if (previous.status === TransactionAttemptStatus.submitted) {
+      await this.attemptRepository.update({ id: previous.id }, { status: TransactionAttemptStatus.replaced });
+    }
+
+    // Upsert: a Cardano rebuild may already have been recorded by `recordBroadcast`
+    await this.attemptRepository.upsert(
+      {
+        ...fields,
+        transactionId: transaction.id,
+        attemptNumber: Math.max(...attempts.map(attempt => attempt.attemptNumber)) + 1,
+        kind,
+        status: TransactionAttemptStatus.submitted,
+        txHash,
+        replacesTxHash: previous.txHash,
+        lastBroadcastAt: new Date(),
+      },
+      ['txHash']
+    );
+
+    await this.transactionRepository.update({ id: transaction.id }, { tx_hash: txHash });
+    transaction.tx_hash = txHash;
+
+    this.logger.log(`Transaction ${transaction.id}: ${kind} attempt ${txHash} replaces ${previous.txHash}`);
+    this.eventEmitter.emit('transaction.replaced', {
+      ...this.lifecycleEvent(transaction, previous.txHash),
+      replacementTxHash: txHash,
+    });
+  }
+
+  private lifecycleEvent(transaction: Transaction, txHash: string): TransactionLifecycleEvent {
+    return {
+      transactionId: transaction.id,
+      type: transaction.type ?? null,
+      vaultId: transaction.vault_id ?? null,
+      txHash,
+    };
+  }
+
+  private async isCardanoTxOnChain(txHash: string): Promise<boolean> {
+    try {
+      const tx = await this.blockfrost.txs(txHash);
+      return Boolean(tx?.block_height);
+    } catch (error) {
+      if (error.status_code === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Hash of the transaction that consumed any of `inputs`, or null while they are all unspent
+   */
+  private async findCardanoInputSpender(inputs: string[]): Promise<string | null> {
+    for (const input of inputs) {
+      const [txHash, index] = input.split('#');
+      try {
+        const { outputs } = await this.blockfrost.txsUtxos(txHash);
+        const output = outputs.find(o => o.output_index === Number(index));
+        if (output?.consumed_by_tx) {
+          return output.consumed_by_tx;
+        }
+      } catch (error) {
+        // The producing transaction is not on-chain (yet, or any more): nothing spent it, the TTL check decides
+        if (error.status_code !== 404) {
+          throw error;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private async findEvmReceipt(hashes: string[]): Promise<string | null> {
+    for (const hash of new Set(hashes)) {
+      try {
+        const receipt = await this.evmContractReader.publicClient.getTransactionReceipt({ hash });
+        if (receipt) {
+          return hash;
+        }
+      } catch (error) {
+        if (error.name !== 'TransactionReceiptNotFoundError') {
+          throw error;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private async getEvmTransaction(hash: string): Promise<EvmTransaction | null> {
+    try {
+      return await this.evmContractReader.publicClient.getTransaction({ hash });
+    } catch (error) {
+      if (error.name === 'TransactionNotFoundError') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private minutesSince(date: Date): number {
+    return (Date.now() - new Date(date).getTime()) / 60_000;
+  }
+}
@@ -4,7 +4,13 @@ import { ConfigService } from '@nestjs/config/dist/config.service';
 import { InjectRepository } from '@nestjs/typeorm';
 import { plainToInstance } from 'class-transformer';
 import { AssetOriginType, AssetStatus, AssetType } from 'src/types/asset.types';
-import { TransactionStatus, TransactionType } from 'src/types/transaction.types';
+import {
+  CardanoBlockRef,
+  CONFIRMATION_DEPTHS,
+  DEFAULT_CONFIRMATION_DEPTH,
+  TransactionStatus,
+  TransactionType,
+} from 'src/types/transaction.types';
 import { In, IsNull, Not, Repository } from 'typeorm';
 
 import { TransactionsResponseDto, TransactionsResponseItemsDto } from './dto/transactions-response.dto';
@@ -538,12 +544,17 @@ export class TransactionsService {
     return { items, total, page: parsedPage, limit: parsedLimit };
   }
 
-  async updateTransactionHash(id: string, txHash: string, metadata?: Record<string, any>): Promise<void> {
+  async updateTransactionHash(
+    id: string,
+    txHash: string,
+    metadata?: Record<string, any>,
+    status: TransactionStatus = TransactionStatus.submitted
+  ): Promise<void> {
     const result = await this.transactionRepository.update(
       { id },
       {
         tx_hash: txHash,
-        status: TransactionStatus.submitted,
+        status,
         metadata,
       }
     );
@@ -589,6 +600,113 @@ export class TransactionsService {
     return this.transactionRepository.save(transaction);
   }
 
+  /**
+   * Blocks (counting the one holding it) a Cardano transaction of this type needs before it counts as confirmed
+   */
+  getRequiredConfirmationDepth(type?: TransactionType): number {
+    const depth =
+      (type && this.configService.get<string>(`TX_CONFIRMATION_DEPTH_${type.toUpperCase().replace(/-/g, '_')}`)) ||
+      (type && CONFIRMATION_DEPTHS[type]) ||
+      this.configService.get<string>('TX_CONFIRMATION_DEPTH_DEFAULT') ||
+      DEFAULT_CONFIRMATION_DEPTH;
+
+    return Math.max(Number(depth) || DEFAULT_CONFIRMATION_DEPTH, 1);
+  }
+
+  /**
+   * Store the block a Cardano transaction was included in and tell whether it is deep enough to count as confirmed
+   * @returns The transaction and its depth check, or null if no transaction has this hash
+   */
+  async recordBlockInclusion(
+    txHash: string,
+    block: CardanoBlockRef
+  ): Promise<{ transaction: Transaction; deepEnough: boolean } | null> {
+    const transaction = await this.transactionRepository.findOne({
+      where: { tx_hash: txHash },
+    });
+
+    if (!transaction) {
+      return null;
+    }
+
+    if (transaction.block_hash !== block.hash) {
+      await this.transactionRepository.update(
+        { id: transaction.id },
+        { block_hash: block.hash, block_number: block.height, block_slot: block.slot }
+      );
+      Object.assign(transaction, { block_hash: block.hash, block_number: block.height, block_slot: block.slot });
+    }
+
+    const tip = await this.blockfrost.blocksLatest();
+    const depth = tip.height - block.height + 1;
+
+    return { transaction, deepEnough: depth >= this.getRequiredConfirmationDepth(transaction.type) };
+  }
+
+  /**
+   * Put the assets locked by a transaction whose confirmation was rolled back back to pending
+   * and recompute the vault values and expansion counts that included them
+   * @returns Number of assets unlocked
+   */
+  async unlockAssetsForTransaction(transactionId: string): Promise<number> {
+    const transaction = await this.transactionRepository.findOne({
+      where: { id: transactionId },
+      select: ['id', 'vault_id', 'tx_hash'],
+      relations: ['user'],
+    });
+
+    if (!transaction) {
+      this.logger.warn(`Transaction ${transactionId} not found`);
+      return 0;
+    }
+
+    const result = await this.assetRepository.update(
+      {
+        transaction: { id: transaction.id },
+        status: AssetStatus.LOCKED,
+        deleted: false,
+      },
+      {
+        status: AssetStatus.PENDING,
+        locked_at: null,
+        updated_at: new Date(),
+      }
+    );
+
+    if (!result.affected) {
+      return 0;
+    }
+
+    if (transaction.user?.address) {
+      this.taptoolsService.invalidateWalletCache(transaction.user.address);
+    }
+
+    const vault = await this.vaultRepository.findOne({
+      where: { id: transaction.vault_id },
+      select: ['id', 'acquire_reserve'],
+    });
+
+    if (vault) {
+      const assetsPrices = await this.taptoolsService.getVaultAssetsSummary(transaction.vault_id);
+
+      await this.vaultRepository.update(vault.id, {
+        require_reserved_cost_ada: assetsPrices.totalValueAda * (vault.acquire_reserve * 0.01),
+        require_reserved_cost_usd: assetsPrices.totalValueUsd * (vault.acquire_reserve * 0.01),
+        total_assets_cost_ada: assetsPrices.totalValueAda,
+        total_assets_cost_usd: assetsPrices.totalValueUsd,
+        total_assets_cost_eth: assetsPrices.totalValueEth,
+        total_acquired_value_ada: assetsPrices.totalAcquiredAda,
+      });
+
+      await this.updateExpansionProposalAssetCount(transaction.vault_id);
+      await this.updateAcquireExpansionAdaRaised(transaction.vault_id);
+    }
+
+    this.logger.log(`Unlocked ${result.affected} assets of rolled back transaction ${transaction.tx_hash}`);
+
+    return result.affected;
+  }
+
   /**
    * Lock assets for a confirmed transaction and update vault values
    * Only locks assets that are still pending to prevent double locking
@@ -859,6 +977,18 @@ export class TransactionsService {
     if (txsToUpdate.length > 0) {
       try {
         for (const tx of txsToUpdate) {
+          // Only count transactions buried deep enough to survive a rollback
+          const onChainTx = await this.blockfrost.txs(tx.tx_hash);
+          const inclusion = await this.recordBlockInclusion(tx.tx_hash, {
+            hash: onChainTx.block,
+            height: onChainTx.block_height,
+            slot: onChainTx.slot,
+          });
+
+          if (!inclusion?.deepEnough) {
+            continue;
+          }
+
           const transaction = await this.updateTransactionStatusByHash(
             tx.tx_hash,
             tx.tx_index,
@@ -874,7 +1004,7 @@ export class TransactionsService {
             this.logger.log(`Locked ${lockedCount} assets for transaction ${tx.tx_hash}`);
           }
         }
-        this.logger.log(`Updated ${txsToUpdate.length} transactions to confirmed status`);
+        this.logger.log(`Checked ${txsToUpdate.length} unconfirmed transactions against the chain`);
       } catch (error) {
         this.logger.error('Failed to update transaction statuses', error);
       }
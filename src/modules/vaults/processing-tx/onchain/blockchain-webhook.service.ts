@@ -18,11 +18,25 @@ import { User } from '@/database/user.entity';
 import { Vault } from '@/database/vault.entity';
 import { RewardEventProducer } from '@/modules/rewards/services/reward-event-producer.service';
 import { AssetsService } from '@/modules/vaults/assets/assets.service';
+import { VaultStateMachineService } from '@/modules/vaults/phase-management/state-machine/vault-state-machine.service';
+import { LAUNCH_ROLLED_BACK_REASON } from '@/modules/vaults/phase-management/state-machine/vault-status-transitions';
+import { AssetStatus } from '@/types/asset.types';
 import { ClaimStatus } from '@/types/claim.types';
 import { RewardActivityType } from '@/types/rewards.types';
-import { TransactionStatus, TransactionType, EvmReconciliationStatus } from '@/types/transaction.types';
+import {
+  CardanoBlockRef,
+  TransactionStatus,
+  TransactionType,
+  EvmReconciliationStatus,
+} from '@/types/transaction.types';
 import { ContributionWindowType, InvestmentWindowType, VaultStatus } from '@/types/vault.types';
 
+// Windows a createVault confirmation can open, with the phase start it sets
+const LAUNCH_PHASE_START_FIELDS: Partial<Record<VaultStatus, 'contribution_phase_start' | 'acquire_phase_start'>> = {
+  [VaultStatus.contribution]: 'contribution_phase_start',
+  [VaultStatus.acquire]: 'acquire_phase_start',
+};
+
 @Injectable()
 export class BlockchainWebhookService {
   private readonly logger = new Logger(BlockchainWebhookService.name);
@@ -44,6 +58,7 @@ export class BlockchainWebhookService {
     private readonly assetsService: AssetsService,
     private readonly rewardEventProducer: RewardEventProducer,
     private readonly evmVaultSignerService: EvmVaultSignerService,
+    private readonly vaultStateMachineService: VaultStateMachineService,
     @InjectRepository(Asset)
     private readonly assetRepository: Repository<Asset>,
     @InjectRepository(Claim)
@@ -115,9 +130,45 @@ export class BlockchainWebhookService {
    */
   private async processTransaction({ tx }: BlockfrostTransactionEvent): Promise<string> {
     const internalStatus = this.determineInternalTransactionStatus(tx);
+
+    if (internalStatus === TransactionStatus.confirmed) {
+      return this.confirmCardanoTransaction(tx.hash, tx.index, {
+        hash: tx.block,
+        height: tx.block_height,
+        slot: tx.slot,
+      });
+    }
+
     return this.applyTransactionStatus(tx.hash, tx.index, internalStatus);
   }
 
+  /**
+   * Record the block a Cardano transaction landed in and confirm it once that block is buried deep enough
+   * for the transaction type (see TransactionsService.getRequiredConfirmationDepth). Shallower inclusions
+   * are confirmed later by TransactionConfirmationService.
+   *
+   * @returns Local transaction id, or null if no matching transaction
+   */
+  async confirmCardanoTransaction(txHash: string, txIndex: number, block: CardanoBlockRef): Promise<string | null> {
+    try {
+      const inclusion = await this.transactionsService.recordBlockInclusion(txHash, block);
+
+      if (!inclusion) {
+        return null;
+      }
+
+      if (!inclusion.deepEnough) {
+        this.logger.log(`WH: Transaction ${txHash} included in block ${block.height}, awaiting confirmation depth`);
+        return inclusion.transaction.id;
+      }
+    } catch (error) {
+      this.logger.error(`WH: Failed to record block inclusion of ${txHash}: ${error.message}`, error.stack);
+      return null;
+    }
+
+    return this.applyTransactionStatus(txHash, txIndex, TransactionStatus.confirmed);
+  }
+
   /**
    * Update a local transaction status by hash and run the chain-agnostic
    * post-confirmation side effects (locking assets, indexing rewards,
@@ -264,6 +315,116 @@ export class BlockchainWebhookService {
     }
   }
 
+  /**
+   * Undo the post-confirmation side effects of applyTransactionStatus for a Cardano transaction whose block
+   * was rolled back. Everything is put back to its pre-confirmation state, so confirming the transaction
+   * again (if it is re-included) applies the effects anew.
+   *
+   * @returns Effects that could not be undone automatically and need manual review
+   */
+  async revertTransactionEffects(transaction: Transaction): Promise<string[]> {
+    const unresolved: string[] = [];
+
+    if (transaction.type === TransactionType.contribute || transaction.type === TransactionType.acquire) {
+      const unlockedCount = await this.transactionsService.unlockAssetsForTransaction(transaction.id);
+      const { voided, alreadyProcessed } = await this.rewardEventProducer.voidTransactionEvents(transaction.tx_hash);
+      this.logger.log(
+        `WH: Unlocked ${unlockedCount} assets and voided ${voided} reward events of rolled back tx ${transaction.tx_hash}`
+      );
+
+      if (alreadyProcessed > 0) {
+        unresolved.push(`${alreadyProcessed} reward event(s) already processed by l4va-rewards`);
+      }
+    }
+
+    if (
+      (transaction.type === TransactionType.claim || transaction.type === TransactionType.extractDispatch) &&
+      transaction.metadata?.claimIds
+    ) {
+      await this.claimRepository.update(
+        { id: In(transaction.metadata.claimIds as string[]), status: ClaimStatus.CLAIMED },
+        { status: ClaimStatus.PENDING, updated_at: new Date() }
+      );
+
+      const transactionIds = transaction.metadata.transactionIds as string[];
+      if (transaction.type === TransactionType.extractDispatch && transactionIds?.length) {
+        await this.assetRepository.update(
+          { transaction: { id: In(transactionIds) }, status: AssetStatus.DISTRIBUTED, deleted: false },
+          { status: AssetStatus.LOCKED, updated_at: new Date() }
+        );
+      }
+    }
+
+    if (transaction.type === TransactionType.cancel && transaction.metadata?.cancellationClaimIds) {
+      const claimIds = transaction.metadata.cancellationClaimIds as string[];
+      const claims = await this.claimRepository.find({
+        where: { id: In(claimIds) },
+        select: ['id', 'transaction_id'],
+      });
+      const contributionTxIds = claims.map(claim => claim.transaction_id).filter(Boolean);
+
+      if (contributionTxIds.length > 0) {
+        await this.assetRepository.update(
+          { transaction: { id: In(contributionTxIds) }, status: AssetStatus.RELEASED, deleted: false },
+          { status: AssetStatus.LOCKED, released_at: null, updated_at: new Date() }
+        );
+      }
+      await this.claimRepository.update(
+        { id: In(claimIds), status: ClaimStatus.CLAIMED },
+        { status: ClaimStatus.PENDING, updated_at: new Date() }
+      );
+
+      unresolved.push(`user TVL deducted for ${claimIds.length} cancellation claim(s)`);
+    }
+
+    if (transaction.type === TransactionType.createVault && transaction.vault_id) {
+      const unreverted = await this.revertCreateVaultConfirmation(transaction);
+      if (unreverted) {
+        unresolved.push(unreverted);
+      }
+    }
+
+    return unresolved;
+  }
+
+  /**
+   * Moves the vault back to `published` when its last move was opening the first window after the createVault
+   * confirmation. Returns what could not be reverted: a vault that has moved on since is left for an admin.
+   */
+  private async revertCreateVaultConfirmation(transaction: Transaction): Promise<string | null> {
+    const vaultId = transaction.vault_id;
+    const timeline = await this.vaultStateMachineService.getTimeline(vaultId);
+    const last = timeline[timeline.length - 1];
+
+    if (!last || last.toStatus === VaultStatus.published) {
+      return null;
+    }
+
+    const phaseStartField = LAUNCH_PHASE_START_FIELDS[last.toStatus];
+    if (last.fromStatus !== VaultStatus.published || !phaseStartField) {
+      return `vault ${vaultId} moved on to ${last.toStatus} after its createVault confirmation`;
+    }
+
+    const reverted = await this.vaultStateMachineService.transition(
+      vaultId,
+      VaultStatus.published,
+      {
+        reason: LAUNCH_ROLLED_BACK_REASON,
+        actor: 'webhook',
+        txHash: transaction.tx_hash,
+        expectedFrom: [last.toStatus],
+      },
+      { [phaseStartField]: null }
+    );
+
+    if (!reverted) {
+      return `vault ${vaultId} left ${last.toStatus} before its createVault rollback could be reverted`;
+    }
+
+    this.logger.warn(`WH: Vault ${vaultId} returned to published after its createVault transaction was rolled back`);
+    return null;
+  }
+
   /**
    * Unified EVM confirmation handler shared by both the Alchemy webhook and the
    * health-check cron job. Parses any VaultCreated events from the transaction
@@ -543,12 +704,11 @@ export class BlockchainWebhookService {
 
         if (vault.is_acquire_only) {
           if (vault.acquire_open_window_type === InvestmentWindowType.uponAssetWindowClosing) {
-            await this.vaultRepository.update(
-              { id: vaultId },
-              {
-                vault_status: VaultStatus.acquire,
-                acquire_phase_start: transitionTimestamp,
-              }
+            await this.vaultStateMachineService.transition(
+              vaultId,
+              VaultStatus.acquire,
+              { reason: 'acquire_window_opened', actor: 'webhook', expectedFrom: [VaultStatus.published] },
+              { acquire_phase_start: transitionTimestamp }
             );
 
             this.logger.log(
@@ -558,12 +718,11 @@ export class BlockchainWebhookService {
           }
         } else {
           if (vault.contribution_open_window_type === ContributionWindowType.uponVaultLaunch) {
-            await this.vaultRepository.update(
-              { id: vaultId },
-              {
-                vault_status: VaultStatus.contribution,
-                contribution_phase_start: transitionTimestamp,
-              }
+            await this.vaultStateMachineService.transition(
+              vaultId,
+              VaultStatus.contribution,
+              { reason: 'contribution_window_opened', actor: 'webhook', expectedFrom: [VaultStatus.published] },
+              { contribution_phase_start: transitionTimestamp }
             );
 
             this.logger.log(
@@ -1,6 +1,7 @@
 import {
   Body,
   Controller,
+  Get,
   Post,
   UseGuards,
   HttpCode,
@@ -11,10 +12,13 @@ import {
 } from '@nestjs/common';
 import { ApiOperation, ApiResponse, ApiTags, ApiParam, ApiBody } from '@nestjs/swagger';
 import { InjectRepository } from '@nestjs/typeorm';
+import { plainToInstance } from 'class-transformer';
 import { Repository } from 'typeorm';
 
+import { TransactionAttemptDto } from '../offchain-tx/dto/transaction-attempt.dto';
 import { TriggerHealthCheckRes } from '../offchain-tx/dto/trigger-health-check.res';
 import { TransactionHealthService } from '../offchain-tx/transaction-health.service';
+import { TransactionTrackerService } from '../offchain-tx/transaction-tracker.service';
 
 import { BlockchainWebhookService } from './blockchain-webhook.service';
 import { BuildTransactionRes } from './dto/build-transaction.res';
@@ -43,6 +47,7 @@ export class BlockchainController {
     private readonly evmVaultContributionService: EvmVaultContributionService,
     private readonly metadataRegistryApiService: MetadataRegistryApiService,
     private readonly transactionHealthService: TransactionHealthService,
+    private readonly transactionTrackerService: TransactionTrackerService,
     @InjectRepository(Vault)
     private readonly vaultRepository: Repository<Vault>
   ) {}
@@ -249,4 +254,15 @@ export class BlockchainController {
   async triggerHealthCheck(): Promise<TriggerHealthCheckRes> {
     return this.transactionHealthService.triggerHealthCheck();
   }
+
+  @Get('transactions/:transactionId/attempts')
+  @UseGuards(AdminGuard)
+  @ApiOperation({ summary: 'Broadcast attempts of a transaction (submit, rebuilds, fee bumps), oldest first' })
+  @ApiParam({ name: 'transactionId', description: 'Transaction ID' })
+  @ApiResponse({ status: 200, description: 'Attempt history', type: [TransactionAttemptDto] })
+  @ApiResponse({ status: 404, description: 'Transaction not found' })
+  async getTransactionAttempts(@Param('transactionId') transactionId: string): Promise<TransactionAttemptDto[]> {
+    const attempts = await this.transactionTrackerService.getAttempts(transactionId);
+    return plainToInstance(TransactionAttemptDto, attempts, { excludeExtraneousValues: true });
+  }
 }
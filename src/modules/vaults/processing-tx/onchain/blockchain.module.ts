@@ -5,6 +5,7 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { AssetsModule } from '../../assets/assets.module';
 import { TransactionHealthService } from '../offchain-tx/transaction-health.service';
+import { TransactionTrackerService } from '../offchain-tx/transaction-tracker.service';
 import { TransactionsModule } from '../offchain-tx/transactions.module';
 
 import { BlockchainWebhookService } from './blockchain-webhook.service';
@@ -23,6 +24,7 @@ import { EvmVaultEventReconciler } from './evm-vault-event-reconciler.service';
 import { EvmVaultSignerService } from './evm-vault-signer.service';
 import { EvmWebhookService } from './evm-webhook.service';
 import { MetadataRegistryApiService } from './metadata-register.service';
+import { TransactionConfirmationService } from './transaction-confirmation.service';
 import { VaultContributionService } from './vault-contribution.service';
 import { VaultManagingService } from './vault-managing.service';
 
@@ -37,8 +39,10 @@ import { EvmAssetPriceFeedEntity } from '@/database/evmAssetPriceFeed.entity';
 import { Proposal } from '@/database/proposal.entity';
 import { TokenRegistry } from '@/database/tokenRegistry.entity';
 import { Transaction } from '@/database/transaction.entity';
+import { TransactionAttempt } from '@/database/transactionAttempt.entity';
 import { User } from '@/database/user.entity';
 import { Vault } from '@/database/vault.entity';
+import { AlertsModule } from '@/modules/alerts/alerts.module';
 import { RewardsModule } from '@/modules/rewards/rewards.module';
 
 @Module({
@@ -50,9 +54,11 @@ import { RewardsModule } from '@/modules/rewards/rewards.module';
     TransactionsModule,
     AssetsModule,
     RewardsModule,
+    AlertsModule,
     TypeOrmModule.forFeature([
       Vault,
       Transaction,
+      TransactionAttempt,
       AssetsWhitelistEntity,
       TokenRegistry,
       Asset,
@@ -86,6 +92,8 @@ import { RewardsModule } from '@/modules/rewards/rewards.module';
     EvmWebhookService,
     VaultManagingService,
     TransactionHealthService,
+    TransactionTrackerService,
+    TransactionConfirmationService,
   ],
   exports: [
     BlockchainService,
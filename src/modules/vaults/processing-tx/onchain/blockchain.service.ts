@@ -2,6 +2,7 @@ import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
 import { HttpService } from '@nestjs/axios';
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { firstValueFrom } from 'rxjs';
 
 import { FeeTooSmallException } from './exceptions/fee-too-small.exception';
@@ -37,7 +38,8 @@ export class BlockchainService {
 
   constructor(
     private readonly configService: ConfigService,
-    private readonly httpService: HttpService
+    private readonly httpService: HttpService,
+    private readonly eventEmitter: EventEmitter2
   ) {
     this.anvilApi = this.configService.get<string>('ANVIL_API_URL') + '/services';
     this.unparametizedDispatchHash = this.configService.get<string>('DISPATCH_SCRIPT_HASH');
@@ -240,6 +242,14 @@ export class BlockchainService {
       }
 
       this.logger.log(`Transaction submitted successfully: ${response.data.txHash}`);
+
+      // Recorded by the transaction tracker as an attempt it can rebroadcast
+      this.eventEmitter.emit('transaction.broadcast', {
+        txHash: response.data.txHash,
+        transaction: requestPayload.transaction,
+        signatures: requestPayload.signatures,
+      });
+
       return { txHash: response.data.txHash };
     } catch (error) {
       if (error.response?.status === 422) {
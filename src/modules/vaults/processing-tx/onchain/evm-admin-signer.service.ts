@@ -15,6 +15,8 @@ import { privateKeyToAccount } from 'viem/accounts';
 
 import { EvmContractReader } from './evm-contract-reader.service';
 
+import { EvmAttemptRequest } from '@/types/transaction.types';
+
 export interface AdminTxOptions<TAbi extends Abi, TFunctionName extends string> {
   address: Address;
   abi: TAbi;
@@ -202,6 +204,56 @@ export class EvmAdminSigner {
     };
   }
 
+  /**
+   * Re-sends a pending admin tx with the same nonce and fees raised by `bumpPercent` (at least the current
+   * network estimate), so it replaces the original in the mempool. Returns the replacement hash and the
+   * request it was sent with; does not wait for a receipt.
+   */
+  async replaceTransaction(
+    request: EvmAttemptRequest,
+    nonce: number,
+    bumpPercent: number
+  ): Promise<{ hash: Hex; request: EvmAttemptRequest }> {
+    const bump = (fee: string | null, estimate: bigint | undefined): bigint => {
+      const bumped = (BigInt(fee ?? 0) * BigInt(100 + bumpPercent) + 99n) / 100n;
+      return estimate !== undefined && estimate > bumped ? estimate : bumped;
+    };
+
+    const estimate = await this.publicClient.estimateFeesPerGas({
+      type: request.gasPrice !== null ? 'legacy' : 'eip1559',
+    });
+    const fees =
+      request.gasPrice !== null
+        ? { gasPrice: bump(request.gasPrice, estimate.gasPrice) }
+        : {
+            maxFeePerGas: bump(request.maxFeePerGas, estimate.maxFeePerGas),
+            maxPriorityFeePerGas: bump(request.maxPriorityFeePerGas, estimate.maxPriorityFeePerGas),
+          };
+
+    const hash = (await this.walletClient.sendTransaction({
+      account: this.account,
+      chain: null,
+      to: request.to as Address,
+      data: request.data as Hex,
+      value: BigInt(request.value),
+      gas: BigInt(request.gas),
+      nonce,
+      ...fees,
+    })) as Hex;
+
+    this.logger.log(`Replaced admin tx with nonce ${nonce} by ${hash}`);
+
+    return {
+      hash,
+      request: {
+        ...request,
+        gasPrice: 'gasPrice' in fees ? fees.gasPrice.toString() : null,
+        maxFeePerGas: 'maxFeePerGas' in fees ? fees.maxFeePerGas.toString() : null,
+        maxPriorityFeePerGas: 'maxPriorityFeePerGas' in fees ? fees.maxPriorityFeePerGas.toString() : null,
+      },
+    };
+  }
+
   private decodeEvents(
     abi: Abi,
     logs: readonly Log[],
@@ -47,9 +47,14 @@ const LEAF_ABI = [
   { name: 'nativeAmount', type: 'uint256' as const },
 ];
 
+/** keccak256(abi.encode(...values)): a single-hashed leaf as OZ `MerkleProof` expects it. */
+export function hashAbiEncodedLeaf(...args: Parameters<typeof encodeAbiParameters>): Hex {
+  return keccak256(encodeAbiParameters(...args));
+}
+
 /** Compute the on-chain leaf hash for a single allocation input. */
 export function hashAllocationLeaf(input: AllocationLeafInput): Hex {
-  const encoded = encodeAbiParameters(LEAF_ABI, [
+  return hashAbiEncodedLeaf(LEAF_ABI, [
     input.vault,
     input.chainId,
     input.cycleId,
@@ -58,7 +63,6 @@ export function hashAllocationLeaf(input: AllocationLeafInput): Hex {
     input.vtAmount,
     input.nativeAmount,
   ]);
-  return keccak256(encoded);
 }
 
 export interface AllocationMerkleTreeBuildResult {
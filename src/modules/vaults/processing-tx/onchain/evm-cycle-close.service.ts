@@ -10,6 +10,7 @@ import { EvmCycleStatus, EvmVaultOnchainStatus, VAULT_ABI } from './vault.abi';
 import { EvmSnapshotStatus, EvmValuationSnapshot } from '@/database/evm-valuation-snapshot.entity';
 import { Transaction } from '@/database/transaction.entity';
 import { Vault } from '@/database/vault.entity';
+import { VaultStateMachineService } from '@/modules/vaults/phase-management/state-machine/vault-state-machine.service';
 import {
   EvmReconciliationStatus,
   ExpectedEventSpec,
@@ -54,7 +55,8 @@ export class EvmCycleCloseService {
     @InjectRepository(Transaction) private readonly transactionsRepository: Repository<Transaction>,
     private readonly dataSource: DataSource,
     private readonly contractReader: EvmContractReader,
-    private readonly adminSigner: EvmAdminSigner
+    private readonly adminSigner: EvmAdminSigner,
+    private readonly vaultStateMachineService: VaultStateMachineService
   ) {}
 
   /**
@@ -592,17 +594,18 @@ export class EvmCycleCloseService {
           failure_reason: null,
         }
       );
-      await manager.update(
-        Vault,
-        { id: vaultId },
+      await this.vaultStateMachineService.transition(
+        vaultId,
+        VaultStatus.locked,
+        { reason: 'evm_cycle_closed', txHash },
         {
-          vault_status: VaultStatus.locked,
           locked_at: new Date(),
           evm_current_cycle_id: cycleId.toString(),
           evm_allocation_root: root,
           evm_close_cycle_tx_hash: txHash,
           evm_root_committed_at: new Date(),
-        }
+        },
+        manager
       );
       if (adminTxId) {
         // Mark admin Tx confirmed, and if the receipt-time event validation
@@ -14,6 +14,7 @@ import { EvmContribution, EvmContributionRowStatus } from '@/database/evm-contri
 import { EvmSnapshotStatus, EvmValuationSnapshot } from '@/database/evm-valuation-snapshot.entity';
 import { Transaction } from '@/database/transaction.entity';
 import { Vault } from '@/database/vault.entity';
+import { VaultStateMachineService } from '@/modules/vaults/phase-management/state-machine/vault-state-machine.service';
 import { AssetStatus } from '@/types/asset.types';
 import { EvmReconciliationStatus, TransactionStatus, TransactionType } from '@/types/transaction.types';
 import { ChainType, VaultStatus } from '@/types/vault.types';
@@ -71,6 +72,7 @@ export class EvmRefundOrchestrator {
     private readonly contractReader: EvmContractReader,
     private readonly adminSigner: EvmAdminSigner,
     private readonly cycleCloseService: EvmCycleCloseService,
+    private readonly vaultStateMachineService: VaultStateMachineService,
     configService: ConfigService
   ) {
     // Cache the factory address so we can exclude vaults whose contract_address
@@ -574,16 +576,12 @@ export class EvmRefundOrchestrator {
       });
       if (remaining > 0) continue;
 
-      const res = await this.vaultsRepository
-        .createQueryBuilder()
-        .update(Vault)
-        .set({ vault_status: VaultStatus.failed })
-        .where('id = :id AND vault_status IN (:...statuses)', {
-          id: vault.id,
-          statuses: [VaultStatus.contribution, VaultStatus.acquire, VaultStatus.published],
-        })
-        .execute();
-      if (res.affected && res.affected > 0) {
+      const transition = await this.vaultStateMachineService.transition(vault.id, VaultStatus.failed, {
+        reason: 'evm_cycle_cancelled_and_refunded',
+        actor: 'cron:evm-refunds',
+        expectedFrom: [VaultStatus.contribution, VaultStatus.acquire, VaultStatus.published],
+      });
+      if (transition) {
         finalized++;
         this.logger.log(`EVM vault ${vault.id} finalized as failed (cycle cancelled, no active contributions).`);
       }
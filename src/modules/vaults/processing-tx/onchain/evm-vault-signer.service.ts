@@ -10,6 +10,7 @@ import { TransactionsService } from '../offchain-tx/transactions.service';
 
 import { User } from '@/database/user.entity';
 import { Vault } from '@/database/vault.entity';
+import { VaultStateMachineService } from '@/modules/vaults/phase-management/state-machine/vault-state-machine.service';
 import { TransactionStatus, TransactionType } from '@/types/transaction.types';
 import { VaultStatus } from '@/types/vault.types';
 
@@ -115,7 +116,8 @@ export class EvmVaultSignerService {
     @InjectRepository(User)
     private readonly usersRepository: Repository<User>,
     private readonly configService: ConfigService,
-    private readonly transactionsService: TransactionsService
+    private readonly transactionsService: TransactionsService,
+    private readonly vaultStateMachineService: VaultStateMachineService
   ) {
     this.factoryAddress = this.configService.get<string>('EVM_FACTORY_ADDRESS') as Address;
     this.adminAddress = this.configService.get<string>('EVM_ADMIN_ADDRESS') as Address;
@@ -187,11 +189,13 @@ export class EvmVaultSignerService {
 
       // Mark vault as published. The actual vault contract address will be filled
       // when the VaultCreated event arrives via webhook (see updateVaultFromCreatedEvent).
-      vault.vault_status = VaultStatus.published;
-      vault.publication_hash = txHash;
-      vault.last_update_tx_hash = txHash;
       // Note: contract_address remains null/factory until webhook updates it
-      await this.vaultsRepository.save(vault);
+      await this.vaultStateMachineService.transition(
+        vault.id,
+        VaultStatus.published,
+        { reason: 'vault_published', actor: `user:${userId}`, txHash },
+        { publication_hash: txHash, last_update_tx_hash: txHash }
+      );
 
       this.logger.log(`EVM vault confirmed — dbId=${dbVaultId} txHash=${txHash} txId=${transactionId}`);
     } catch (error) {
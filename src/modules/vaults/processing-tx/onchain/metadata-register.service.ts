@@ -23,6 +23,7 @@ import { TokenMetadataDto } from './dto/token-metadata.dto';
 
 import { TokenRegistry } from '@/database/tokenRegistry.entity';
 import { Vault } from '@/database/vault.entity';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
 import { TokenRegistryStatus } from '@/types/tokenRegistry.types';
 
 type ItemData = {
@@ -79,6 +80,7 @@ export class MetadataRegistryApiService {
   }
 
   @Cron(CronExpression.EVERY_5_HOURS)
+  @CoordinatedJob('metadata-register-prs')
   async checkPendingPRs(): Promise<void> {
     this.logger.log('Checking pending token registry PRs');
 
@@ -0,0 +1,241 @@
+import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Not, Repository } from 'typeorm';
+
+import { TransactionsService } from '../offchain-tx/transactions.service';
+
+import { BlockchainWebhookService } from './blockchain-webhook.service';
+
+import { Transaction } from '@/database/transaction.entity';
+import { AlertsService } from '@/modules/alerts/alerts.service';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
+import { TransactionLifecycleEvent, TransactionStatus } from '@/types/transaction.types';
+
+interface RolledBackTransaction {
+  transactionId: string;
+  txHash: string;
+  type: string | null;
+  vaultId: string | null;
+  blockHeight: number;
+  unresolved: string[];
+}
+
+/**
+ * Follows Cardano transactions after they land in a block.
+ *
+ *   1. Included transactions still short of their confirmation depth are confirmed once the chain has grown
+ *      enough, or have their block cleared if they left the chain in the meantime.
+ *   2. Confirmed transactions within `TX_ROLLBACK_WINDOW_BLOCKS` of the tip are checked against the canonical
+ *      chain. When their block was orphaned and the transaction is not in another block, the confirmation is
+ *      reverted: status back to `submitted`, domain effects undone (BlockchainWebhookService.revertTransactionEffects)
+ *      and `transaction.rolled_back` emitted so the transaction tracker rebroadcasts it.
+ */
+@Injectable()
+export class TransactionConfirmationService {
+  private readonly logger = new Logger(TransactionConfirmationService.name);
+  private readonly blockfrost: BlockFrostAPI;
+  private readonly rollbackWindowBlocks: number;
+  private readonly BATCH_SIZE = 100;
+
+  constructor(
+    @InjectRepository(Transaction)
+    private readonly transactionRepository: Repository<Transaction>,
+    private readonly transactionsService: TransactionsService,
+    private readonly blockchainWebhookService: BlockchainWebhookService,
+    private readonly alertsService: AlertsService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2
+  ) {
+    this.blockfrost = new BlockFrostAPI({
+      projectId: this.configService.get<string>('BLOCKFROST_API_KEY'),
+    });
+    this.rollbackWindowBlocks = Number(this.configService.get<string>('TX_ROLLBACK_WINDOW_BLOCKS') ?? 120);
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  @CoordinatedJob('transaction-confirmations')
+  async checkConfirmations(): Promise<void> {
+    try {
+      await this.finalizeIncludedTransactions();
+    } catch (error) {
+      this.logger.error(`Error finalizing included transactions: ${error.message}`, error.stack);
+    }
+
+    try {
+      await this.detectRollbacks();
+    } catch (error) {
+      this.logger.error(`Error checking confirmed transactions for rollbacks: ${error.message}`, error.stack);
+    }
+  }
+
+  private async finalizeIncludedTransactions(): Promise<void> {
+    const included = await this.transactionRepository.find({
+      where: {
+        chain_id: IsNull(),
+        block_hash: Not(IsNull()),
+        status: In([
+          TransactionStatus.created,
+          TransactionStatus.pending,
+          TransactionStatus.submitted,
+          TransactionStatus.stuck,
+        ]),
+      },
+      order: { block_number: 'ASC' },
+      take: this.BATCH_SIZE,
+    });
+
+    for (const transaction of included) {
+      try {
+        const onChainTx = await this.findTx(transaction.tx_hash);
+
+        if (!onChainTx?.block_height) {
+          this.logger.warn(
+            `Transaction ${transaction.tx_hash} left block ${transaction.block_number} before reaching its confirmation depth`
+          );
+          await this.transactionRepository.update(
+            { id: transaction.id },
+            { block_hash: null, block_number: null, block_slot: null }
+          );
+          continue;
+        }
+
+        await this.blockchainWebhookService.confirmCardanoTransaction(transaction.tx_hash, onChainTx.index, {
+          hash: onChainTx.block,
+          height: onChainTx.block_height,
+          slot: onChainTx.slot,
+        });
+      } catch (error) {
+        this.logger.error(`Failed to finalize transaction ${transaction.tx_hash}: ${error.message}`);
+      }
+    }
+  }
+
+  private async detectRollbacks(): Promise<void> {
+    const tip = await this.blockfrost.blocksLatest();
+
+    const confirmed = await this.transactionRepository
+      .createQueryBuilder('transaction')
+      .where('transaction.status = :status', { status: TransactionStatus.confirmed })
+      .andWhere('transaction.chain_id IS NULL')
+      .andWhere('transaction.block_hash IS NOT NULL')
+      .andWhere('transaction.block_number >= :fromHeight', { fromHeight: tip.height - this.rollbackWindowBlocks })
+      .getMany();
+
+    const byHeight = new Map<number, Transaction[]>();
+    for (const transaction of confirmed) {
+      const height = Number(transaction.block_number);
+      byHeight.set(height, [...(byHeight.get(height) ?? []), transaction]);
+    }
+
+    const rolledBack: RolledBackTransaction[] = [];
+
+    for (const [height, transactions] of byHeight) {
+      // Null when the rollback took the tip below this height: every block recorded there was orphaned
+      const canonical = await this.findBlock(height);
+
+      for (const transaction of transactions.filter(t => t.block_hash !== canonical?.hash)) {
+        const onChainTx = await this.findTx(transaction.tx_hash);
+
+        if (onChainTx?.block_height) {
+          // Re-included in another block: the confirmation stands
+          this.logger.warn(
+            `Block ${transaction.block_hash} was orphaned; transaction ${transaction.tx_hash} is now in block ${onChainTx.block_height}`
+          );
+          await this.transactionsService.recordBlockInclusion(transaction.tx_hash, {
+            hash: onChainTx.block,
+            height: onChainTx.block_height,
+            slot: onChainTx.slot,
+          });
+          continue;
+        }
+
+        const reverted = await this.rollBack(transaction);
+        if (reverted) {
+          rolledBack.push(reverted);
+        }
+      }
+    }
+
+    if (rolledBack.length > 0) {
+      await this.alertsService.sendAlert('transaction_rollback_detected', {
+        tipHeight: tip.height,
+        transactions: rolledBack,
+      });
+    }
+  }
+
+  private async rollBack(transaction: Transaction): Promise<RolledBackTransaction | null> {
+    const result = await this.transactionRepository
+      .createQueryBuilder()
+      .update(Transaction)
+      .set({
+        status: TransactionStatus.submitted,
+        block_hash: null,
+        block_number: null,
+        block_slot: null,
+        rollback_count: () => 'rollback_count + 1',
+      })
+      .where('id = :id AND status = :status', { id: transaction.id, status: TransactionStatus.confirmed })
+      .execute();
+
+    if (!result.affected) {
+      return null;
+    }
+
+    this.logger.error(
+      `Block ${transaction.block_hash} (height ${transaction.block_number}) was rolled back; ` +
+        `reverting confirmation of ${transaction.type} transaction ${transaction.tx_hash}`
+    );
+
+    let unresolved: string[];
+    try {
+      unresolved = await this.blockchainWebhookService.revertTransactionEffects(transaction);
+    } catch (error) {
+      this.logger.error(`Failed to revert effects of ${transaction.tx_hash}: ${error.message}`, error.stack);
+      unresolved = [`reverting effects failed: ${error.message}`];
+    }
+
+    const event: TransactionLifecycleEvent = {
+      transactionId: transaction.id,
+      type: transaction.type ?? null,
+      vaultId: transaction.vault_id ?? null,
+      txHash: transaction.tx_hash,
+    };
+    this.eventEmitter.emit('transaction.rolled_back', event);
+
+    return {
+      transactionId: transaction.id,
+      txHash: transaction.tx_hash,
+      type: transaction.type ?? null,
+      vaultId: transaction.vault_id ?? null,
+      blockHeight: Number(transaction.block_number),
+      unresolved,
+    };
+  }
+
+  private async findBlock(height: number): Promise<Awaited<ReturnType<BlockFrostAPI['blocks']>> | null> {
+    try {
+      return await this.blockfrost.blocks(height);
+    } catch (error) {
+      if (error.status_code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async findTx(txHash: string): Promise<Awaited<ReturnType<BlockFrostAPI['txs']>> | null> {
+    try {
+      return await this.blockfrost.txs(txHash);
+    } catch (error) {
+      if (error.status_code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { IsNotEmpty, IsOptional, IsString, Matches } from 'class-validator';
+
+import { TreasuryKeyRotationFailure, TreasuryKeyRotationStatus } from '@/types/treasury.types';
+
+const KMS_KEY_ID_REGEX = /^[a-zA-Z0-9_-]{1,63}$/;
+
+export class TreasuryKeyRotationReportQuery {
+  @ApiProperty({
+    description: 'KMS key in the configured key ring to rotate to; defaults to the configured treasury key',
+    required: false,
+    example: 'treasury-key-v2',
+  })
+  @IsOptional()
+  @Matches(KMS_KEY_ID_REGEX, { message: 'targetKeyId must be a KMS key ID' })
+  targetKeyId?: string;
+}
+
+export class StartTreasuryKeyRotationReq extends TreasuryKeyRotationReportQuery {
+  @ApiProperty({ description: 'Admin starting the rotation, recorded in the audit log', example: 'ops@l4va.io' })
+  @IsString()
+  @IsNotEmpty()
+  requestedBy: string;
+}
+
+export class TreasuryKeyVersionEntryDto {
+  @ApiProperty({ description: 'Treasury wallet ID' })
+  @Expose()
+  walletId: string;
+
+  @ApiProperty({ description: 'Vault ID' })
+  @Expose()
+  vaultId: string;
+
+  @ApiProperty({ description: 'KMS key the payment key DEK is encrypted under', nullable: true })
+  @Expose()
+  kmsKeyName: string | null;
+
+  @ApiProperty({
+    description: 'KMS key version of the payment key; null when written before versions were recorded',
+    nullable: true,
+  })
+  @Expose()
+  kmsKeyVersion: string | null;
+
+  @ApiProperty({ description: 'Whether the wallet still stores an encrypted stake key' })
+  @Expose()
+  hasStakeKey: boolean;
+
+  @ApiProperty({ description: 'KMS key version of the stake key; null without a stake key', nullable: true })
+  @Expose()
+  stakeKmsKeyVersion: string | null;
+}
+
+export class TreasuryKeyRotationReportRes {
+  @ApiProperty({ description: 'Key the wallets should be encrypted under' })
+  @Expose()
+  targetKeyName: string;
+
+  @ApiProperty({ description: 'Current primary version of the target key' })
+  @Expose()
+  targetKeyVersion: string;
+
+  @ApiProperty({ description: 'Wallets holding encrypted keys', example: 120 })
+  @Expose()
+  totalWallets: number;
+
+  @ApiProperty({ description: 'Wallets already on the target key version', example: 100 })
+  @Expose()
+  upToDateWallets: number;
+
+  @ApiProperty({ description: 'Wallets still on an older key or key version', type: [TreasuryKeyVersionEntryDto] })
+  @Expose()
+  outdatedWallets: TreasuryKeyVersionEntryDto[];
+
+  @ApiProperty({ description: 'Wallets whose stored key envelope could not be parsed; they cannot be rotated' })
+  @Expose()
+  unreadableWallets: TreasuryKeyRotationFailure[];
+}
+
+export class TreasuryKeyRotationJobDto {
+  @ApiProperty({ description: 'Job ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ enum: TreasuryKeyRotationStatus })
+  @Expose()
+  status: TreasuryKeyRotationStatus;
+
+  @ApiProperty({ description: 'Key the wallets are re-encrypted under' })
+  @Expose()
+  targetKeyName: string;
+
+  @ApiProperty({ description: 'Primary key version when the job started' })
+  @Expose()
+  targetKeyVersion: string;
+
+  @ApiProperty({ description: 'Admin who started the rotation' })
+  @Expose()
+  requestedBy: string;
+
+  @ApiProperty({ example: 120 })
+  @Expose()
+  totalWallets: number;
+
+  @ApiProperty({ example: 20 })
+  @Expose()
+  rotatedCount: number;
+
+  @ApiProperty({ description: 'Wallets already on the target key version', example: 100 })
+  @Expose()
+  skippedCount: number;
+
+  @ApiProperty({ example: 0 })
+  @Expose()
+  failedCount: number;
+
+  @ApiProperty({ description: 'Resume cursor', required: false })
+  @Expose()
+  lastWalletId?: string;
+
+  @ApiProperty({ description: 'Wallets that could not be rotated' })
+  @Expose()
+  failures: TreasuryKeyRotationFailure[];
+
+  @ApiProperty({ description: 'Error that stopped the job', required: false })
+  @Expose()
+  error?: string;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  completedAt?: Date;
+
+  @ApiProperty()
+  @Expose()
+  createdAt: Date;
+}
@@ -0,0 +1,184 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { IsDateString, IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+import { TreasuryLedgerCategory, TreasuryLedgerDirection } from '@/types/treasury.types';
+
+export class TreasuryLedgerQuery {
+  @ApiProperty({ enum: TreasuryLedgerCategory, required: false })
+  @IsOptional()
+  @IsEnum(TreasuryLedgerCategory)
+  category?: TreasuryLedgerCategory;
+
+  @ApiProperty({ enum: TreasuryLedgerDirection, required: false })
+  @IsOptional()
+  @IsEnum(TreasuryLedgerDirection)
+  direction?: TreasuryLedgerDirection;
+
+  @ApiProperty({ required: false, minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({ required: false, minimum: 1, maximum: 200, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+}
+
+export class TreasuryBalanceHistoryQuery {
+  @ApiProperty({ description: 'First day of the series (ISO 8601)', required: false })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({ description: 'Last day of the series (ISO 8601)', required: false })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class TreasuryHoldingDto {
+  @ApiProperty({ description: '`lovelace` or policy id + hex asset name' })
+  @Expose()
+  unit: string;
+
+  @ApiProperty({ description: 'Base units held, including units locked in marketplace listings and offers' })
+  @Expose()
+  quantity: string;
+
+  @ApiProperty({ description: 'Base units locked in WayUp listings and offers' })
+  @Expose()
+  listedQuantity: string;
+
+  @ApiProperty()
+  @Expose()
+  decimals: number;
+
+  @ApiProperty({ description: 'Average cost basis in ADA' })
+  @Expose()
+  costBasisAda: number;
+
+  @ApiProperty({ description: 'Average cost basis in USD' })
+  @Expose()
+  costBasisUsd: number;
+
+  @ApiProperty({ description: 'Current market value in ADA; null when the unit has no price', nullable: true })
+  @Expose()
+  valueAda: number | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  valueUsd: number | null;
+}
+
+export class TreasuryCategoryTotalDto {
+  @ApiProperty({ enum: TreasuryLedgerCategory })
+  @Expose()
+  category: TreasuryLedgerCategory;
+
+  @ApiProperty({ enum: TreasuryLedgerDirection })
+  @Expose()
+  direction: TreasuryLedgerDirection;
+
+  @ApiProperty({ description: 'Sum of the entry values in ADA at the time of each entry' })
+  @Expose()
+  adaValue: number;
+
+  @ApiProperty({ description: 'Sum of the entry values in USD at the time of each entry' })
+  @Expose()
+  usdValue: number;
+
+  @ApiProperty()
+  @Expose()
+  entries: number;
+}
+
+export class TreasuryPnlRes {
+  @ApiProperty()
+  @Expose()
+  vaultId: string;
+
+  @ApiProperty({ description: 'ADA/USD price used for current values' })
+  @Expose()
+  adaUsdPrice: number;
+
+  @ApiProperty()
+  @Expose()
+  costBasisAda: number;
+
+  @ApiProperty()
+  @Expose()
+  costBasisUsd: number;
+
+  @ApiProperty({ description: 'Market value of the priced holdings' })
+  @Expose()
+  currentValueAda: number;
+
+  @ApiProperty()
+  @Expose()
+  currentValueUsd: number;
+
+  @ApiProperty({ description: 'Gains minus losses on every disposal, against average cost' })
+  @Expose()
+  realizedAda: number;
+
+  @ApiProperty()
+  @Expose()
+  realizedUsd: number;
+
+  @ApiProperty({ description: 'Current value minus cost basis of the priced holdings' })
+  @Expose()
+  unrealizedAda: number;
+
+  @ApiProperty()
+  @Expose()
+  unrealizedUsd: number;
+
+  @ApiProperty({ description: 'Ledger entries without a price; carried at cost' })
+  @Expose()
+  unpricedEntries: number;
+
+  @ApiProperty({ description: 'Block time of the latest ingested treasury transaction', nullable: true })
+  @Expose()
+  lastEntryAt: Date | null;
+
+  @ApiProperty({ type: [TreasuryHoldingDto] })
+  @Expose()
+  @Type(() => TreasuryHoldingDto)
+  holdings: TreasuryHoldingDto[];
+
+  @ApiProperty({ type: [TreasuryCategoryTotalDto], description: 'Inflows and outflows per category' })
+  @Expose()
+  @Type(() => TreasuryCategoryTotalDto)
+  totals: TreasuryCategoryTotalDto[];
+}
+
+export class TreasuryBalancePointDto {
+  @ApiProperty({ description: 'Day (UTC) the balance was taken at the end of', example: '2026-03-14' })
+  @Expose()
+  date: string;
+
+  @ApiProperty({ description: 'ADA balance in lovelace, including ADA locked in marketplace offers' })
+  @Expose()
+  lovelace: string;
+
+  @ApiProperty({ description: 'Value of all holdings in ADA at the latest known prices of that day' })
+  @Expose()
+  valueAda: number;
+
+  @ApiProperty()
+  @Expose()
+  valueUsd: number;
+}
+
+export class TreasuryLedgerSyncRes {
+  @ApiProperty({ description: 'Ledger entries written by this sync' })
+  @Expose()
+  newEntries: number;
+}
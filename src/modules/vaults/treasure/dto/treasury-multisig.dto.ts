@@ -0,0 +1,83 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { IsHexadecimal, IsNotEmpty, IsUUID } from 'class-validator';
+
+import { TreasuryPendingTransactionStatus, TreasurySigner } from '@/types/treasury.types';
+
+export class EnableMultisigTreasuryReq {
+  @ApiProperty({
+    description:
+      'Passed or executed proposal electing the holder cosigners (`treasurySigners`). The platform key is always ' +
+      'required; the vault owner and the elected holders cosign up to the elected threshold',
+  })
+  @IsUUID()
+  proposalId: string;
+}
+
+export class AddTreasuryWitnessesReq {
+  @ApiProperty({
+    description: 'CBOR hex of a transaction witness set with the vkey witnesses of one or more signers',
+  })
+  @IsNotEmpty()
+  @IsHexadecimal()
+  witnessSet: string;
+}
+
+export class MultisigTreasuryRes {
+  @ApiProperty({ description: 'Script address of the treasury' })
+  @Expose()
+  address: string;
+
+  @ApiProperty({
+    description: 'Signatures required to spend from the treasury, the platform signature included',
+    example: 3,
+  })
+  @Expose()
+  requiredSignatures: number;
+
+  @ApiProperty({ description: 'Script signers (key hash, role and address)' })
+  @Expose()
+  signers: TreasurySigner[];
+
+  @ApiProperty({ description: 'Transaction moving the single-key balance to the script address', nullable: true })
+  @Expose()
+  sweepTxHash: string | null;
+}
+
+export class TreasuryPendingTransactionDto {
+  @ApiProperty({ description: 'Pending transaction ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Operation the spend belongs to', example: 'distribution' })
+  @Expose()
+  purpose: string;
+
+  @ApiProperty({ description: 'Collection status', enum: TreasuryPendingTransactionStatus })
+  @Expose()
+  status: TreasuryPendingTransactionStatus;
+
+  @ApiProperty({ description: 'Transaction hash (body hash) the witnesses must sign' })
+  @Expose()
+  txHash: string;
+
+  @ApiProperty({ description: 'Transaction CBOR hex with the witnesses collected so far' })
+  @Expose()
+  txCbor: string;
+
+  @ApiProperty({ description: 'Signatures required for submission', example: 2 })
+  @Expose()
+  requiredSignatures: number;
+
+  @ApiProperty({ description: 'Key hashes that already signed', type: [String] })
+  @Expose()
+  signedBy: string[];
+
+  @ApiProperty({ description: 'Time the validity interval ends', required: false })
+  @Expose()
+  expiresAt?: Date;
+
+  @ApiProperty({ description: 'Creation time' })
+  @Expose()
+  createdAt: Date;
+}
@@ -0,0 +1,119 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { IsIn, IsNotEmpty, IsString, IsUUID } from 'class-validator';
+
+import {
+  TreasurySweepAuthorizationType,
+  TreasurySweepDestinationKind,
+  TreasurySweepStatus,
+} from '@/types/treasury.types';
+
+// Multisig migrations are started by the vault owner, never through the admin API
+const ADMIN_AUTHORIZATION_TYPES = [TreasurySweepAuthorizationType.PROPOSAL, TreasurySweepAuthorizationType.TERMINATION];
+
+export class RequestTreasurySweepReq {
+  @ApiProperty({
+    description: 'Vault contract, burn wallet or an address approved by the authorizing proposal',
+    example: 'addr1qxnk9w6e3azattu87ythnnjt2vmtlskzcld0ptwa924j0znz7v4zyqfqapmueh24l2r8v848mya68nndvjy783m656kq0cxjsn',
+  })
+  @IsString()
+  @IsNotEmpty()
+  destinationAddress: string;
+
+  @ApiProperty({ enum: ADMIN_AUTHORIZATION_TYPES })
+  @IsIn(ADMIN_AUTHORIZATION_TYPES)
+  authorizationType: TreasurySweepAuthorizationType;
+
+  @ApiProperty({ description: 'Proposal authorizing the sweep; the termination proposal for termination sweeps' })
+  @IsUUID()
+  proposalId: string;
+}
+
+export class TreasurySweepAssetDto {
+  @ApiProperty({ description: 'Policy id + hex asset name' })
+  @Expose()
+  unit: string;
+
+  @ApiProperty({ description: 'Base units' })
+  @Expose()
+  quantity: string;
+
+  @ApiProperty({ description: 'Current market value in ADA', nullable: true })
+  @Expose()
+  valueAda: number | null;
+}
+
+export class TreasurySweepDto {
+  @ApiProperty()
+  @Expose()
+  id: string;
+
+  @ApiProperty()
+  @Expose()
+  vaultId: string;
+
+  @ApiProperty({ enum: TreasurySweepStatus })
+  @Expose()
+  status: TreasurySweepStatus;
+
+  @ApiProperty()
+  @Expose()
+  destinationAddress: string;
+
+  @ApiProperty({ enum: TreasurySweepDestinationKind })
+  @Expose()
+  destinationKind: TreasurySweepDestinationKind;
+
+  @ApiProperty({ enum: TreasurySweepAuthorizationType })
+  @Expose()
+  authorizationType: TreasurySweepAuthorizationType;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  proposalId: string | null;
+
+  @ApiProperty({ description: 'Lovelace in the treasury when the sweep was prepared' })
+  @Expose()
+  lovelace: string;
+
+  @ApiProperty({ type: [TreasurySweepAssetDto], description: 'Native assets in the treasury when prepared' })
+  @Expose()
+  @Type(() => TreasurySweepAssetDto)
+  assets: TreasurySweepAssetDto[];
+
+  @ApiProperty({ description: 'ADA plus the priced assets; any unpriced asset requires a confirmation' })
+  @Expose()
+  valueAda: number;
+
+  @ApiProperty({ description: 'Whether the sweep waits for an admin confirmation' })
+  @Expose()
+  requiresConfirmation: boolean;
+
+  @ApiProperty({ description: 'Admin who requested the sweep, or `system`' })
+  @Expose()
+  requestedBy: string;
+
+  @ApiProperty({ description: 'Admin who confirmed the sweep', nullable: true })
+  @Expose()
+  confirmedBy: string | null;
+
+  @ApiProperty({ description: 'Confirmation deadline of a prepared sweep' })
+  @Expose()
+  expiresAt: Date;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  txHash: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  error: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  confirmedAt: Date | null;
+
+  @ApiProperty()
+  @Expose()
+  createdAt: Date;
+}
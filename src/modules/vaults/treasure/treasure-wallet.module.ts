@@ -8,13 +8,30 @@ import { BlockchainModule } from '../processing-tx/onchain/blockchain.module';
 
 import { TreasuryWalletService } from './treasure-wallet.service';
 import { TreasuryExtractionService } from './treasury-extraction.service';
+import { TreasuryKeyRotationController } from './treasury-key-rotation.controller';
+import { TreasuryKeyRotationService } from './treasury-key-rotation.service';
+import { TreasuryLedgerController } from './treasury-ledger.controller';
+import { TreasuryLedgerService } from './treasury-ledger.service';
+import { TreasuryMultisigController } from './treasury-multisig.controller';
+import { TreasuryMultisigService } from './treasury-multisig.service';
+import { TreasuryStakingService } from './treasury-staking.service';
+import { TreasurySweepController } from './treasury-sweep.controller';
+import { TreasurySweepService } from './treasury-sweep.service';
 
 import { Asset } from '@/database/asset.entity';
+import { Proposal } from '@/database/proposal.entity';
 import { Transaction } from '@/database/transaction.entity';
+import { TreasuryKeyRotationJob } from '@/database/treasuryKeyRotationJob.entity';
+import { TreasuryLedgerEntry } from '@/database/treasuryLedgerEntry.entity';
+import { TreasuryPendingTransaction } from '@/database/treasuryPendingTransaction.entity';
+import { TreasurySweep } from '@/database/treasurySweep.entity';
 import { Vault } from '@/database/vault.entity';
 import { VaultTreasuryWallet } from '@/database/vaultTreasuryWallet.entity';
+import { DexHunterPricingModule } from '@/modules/dexhunter/dexhunter-pricing.module';
 import { SystemSettingsModule } from '@/modules/globals/system-settings/system-settings.module';
 import { GoogleCloudModule } from '@/modules/google_cloud/google-cloud.module';
+import { KeyManagementModule } from '@/modules/key-management/key-management.module';
+import { WayUpPricingModule } from '@/modules/wayup/wayup-pricing.module';
 
 @Module({
   imports: [
@@ -25,10 +42,43 @@ import { GoogleCloudModule } from '@/modules/google_cloud/google-cloud.module';
     BlockchainModule,
     TransactionsModule,
     GoogleCloudModule,
+    KeyManagementModule,
     SystemSettingsModule,
-    TypeOrmModule.forFeature([Vault, Transaction, Asset, VaultTreasuryWallet]),
+    DexHunterPricingModule,
+    WayUpPricingModule,
+    TypeOrmModule.forFeature([
+      Vault,
+      Transaction,
+      Asset,
+      VaultTreasuryWallet,
+      TreasuryPendingTransaction,
+      TreasuryKeyRotationJob,
+      TreasuryLedgerEntry,
+      TreasurySweep,
+      Proposal,
+    ]),
+  ],
+  controllers: [
+    TreasuryMultisigController,
+    TreasuryKeyRotationController,
+    TreasuryLedgerController,
+    TreasurySweepController,
+  ],
+  providers: [
+    TreasuryWalletService,
+    TreasuryExtractionService,
+    TreasuryStakingService,
+    TreasuryMultisigService,
+    TreasuryKeyRotationService,
+    TreasuryLedgerService,
+    TreasurySweepService,
+  ],
+  exports: [
+    TreasuryWalletService,
+    TreasuryExtractionService,
+    TreasuryStakingService,
+    TreasuryMultisigService,
+    TreasurySweepService,
   ],
-  providers: [TreasuryWalletService, TreasuryExtractionService],
-  exports: [TreasuryWalletService, TreasuryExtractionService],
 })
 export class TreasureWalletModule {}
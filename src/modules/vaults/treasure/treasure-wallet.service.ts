@@ -1,7 +1,6 @@
 import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
 import { Address, FixedTransaction, PrivateKey } from '@emurgo/cardano-serialization-lib-nodejs';
-import { status as GrpcStatus } from '@grpc/grpc-js';
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Cron, CronExpression } from '@nestjs/schedule';
@@ -11,13 +10,17 @@ import { Repository } from 'typeorm';
 import { CreateTreasuryWalletDto } from './dto/create-treasury-wallet.dto';
 import { TreasuryWalletInfoDto } from './dto/treasury-wallet-info.dto';
 
+import { TreasurySweep } from '@/database/treasurySweep.entity';
 import { Vault } from '@/database/vault.entity';
 import { VaultTreasuryWallet } from '@/database/vaultTreasuryWallet.entity';
+import { AuditLogService } from '@/modules/audit-log/audit-log.service';
 import { SystemSettingsService } from '@/modules/globals/system-settings/system-settings.service';
-import { GoogleKMSService } from '@/modules/google_cloud/google-kms.service';
-import { GoogleSecretService } from '@/modules/google_cloud/google-secret.service';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
+import { KEY_MANAGEMENT, KeyManagementBackend } from '@/modules/key-management/key-management.types';
 import { BlockchainService } from '@/modules/vaults/processing-tx/onchain/blockchain.service';
 import { generateCardanoWallet, getUtxosExtract } from '@/modules/vaults/processing-tx/onchain/utils/lib';
+import { AuditLogAction, AuditLogOutcome } from '@/types/audit-log.types';
+import { TreasurySweepStatus, TreasuryWalletMode } from '@/types/treasury.types';
 import { VaultStatus } from '@/types/vault.types';
 @Injectable()
 export class TreasuryWalletService {
@@ -31,11 +34,12 @@ export class TreasuryWalletService {
     @InjectRepository(Vault)
     private readonly vaultRepository: Repository<Vault>,
     private readonly configService: ConfigService,
-    private readonly googleKMSService: GoogleKMSService,
-    private readonly googleSecretService: GoogleSecretService,
+    @Inject(KEY_MANAGEMENT)
+    private readonly keyManagement: KeyManagementBackend,
     private readonly systemSettingsService: SystemSettingsService,
     private readonly eventEmitter: EventEmitter2,
-    private readonly blockchainService: BlockchainService
+    private readonly blockchainService: BlockchainService,
+    private readonly auditLogService: AuditLogService
   ) {
     this.isMainnet = this.configService.get<string>('CARDANO_NETWORK') === 'mainnet';
 
@@ -94,9 +98,9 @@ export class TreasuryWalletService {
     const publicKey = privateKey.to_public();
     const publicKeyHash = publicKey.hash().to_hex();
 
-    // Encrypt BOTH keys using Google Cloud KMS
-    const encryptedPackage = await this.googleKMSService.encryptTreasuryKey(privateKey, vaultId);
-    const encryptedStakePackage = await this.googleKMSService.encryptStakeKey(stakePrivateKey, vaultId);
+    // Encrypt BOTH keys with the configured key management backend
+    const encryptedPackage = await this.keyManagement.encryptTreasuryKey(privateKey, vaultId);
+    const encryptedStakePackage = await this.keyManagement.encryptStakeKey(stakePrivateKey, vaultId);
 
     // Store both encrypted packages
     const encryptedData = {
@@ -106,6 +110,7 @@ export class TreasuryWalletService {
       authTag: encryptedPackage.authTag.toString('base64'),
       algorithm: encryptedPackage.algorithm,
       kmsKeyName: encryptedPackage.kmsKeyName,
+      kmsKeyVersion: encryptedPackage.kmsKeyVersion,
     };
 
     const encryptedStakeData = {
@@ -115,12 +120,13 @@ export class TreasuryWalletService {
       authTag: encryptedStakePackage.authTag.toString('base64'),
       algorithm: encryptedStakePackage.algorithm,
       kmsKeyName: encryptedStakePackage.kmsKeyName,
+      kmsKeyVersion: encryptedStakePackage.kmsKeyVersion,
     };
 
     const encryptedBuffer = Buffer.from(JSON.stringify(encryptedData));
     const encryptedStakeBuffer = Buffer.from(JSON.stringify(encryptedStakeData));
 
-    // Optionally store mnemonic in Google Secret Manager (for recovery)
+    // Optionally store mnemonic in the secret store (for recovery)
     let secretVersionName: string | undefined;
     try {
       secretVersionName = await this.storeWalletMnemonic(vaultId, walletData.mnemonic, vault.name);
@@ -141,7 +147,7 @@ export class TreasuryWalletService {
         createdBy: 'system',
         vaultName: vault.name,
         network: this.isMainnet ? 'mainnet' : 'preprod',
-        encryptionMethod: 'google-kms-envelope',
+        encryptionMethod: `${this.keyManagement.backendName}-envelope`,
         secretManagerVersion: secretVersionName,
       },
       is_active: true,
@@ -166,7 +172,7 @@ export class TreasuryWalletService {
   }
 
   /**
-   * Store wallet mnemonic in Google Secret Manager
+   * Store wallet mnemonic in the key management secret store
    */
   private async storeWalletMnemonic(vaultId: string, mnemonic: string, vaultName: string): Promise<string> {
     const secretId = `treasury-wallet-${vaultId}`;
@@ -188,14 +194,8 @@ export class TreasuryWalletService {
     };
 
     try {
-      await this.googleSecretService.createSecret(secretId, labels);
-      return await this.googleSecretService.addSecretVersion(secretId, data);
+      return await this.keyManagement.storeSecret(secretId, data, labels);
     } catch (error: any) {
-      if (error.code === GrpcStatus.ALREADY_EXISTS) {
-        this.logger.warn(`Secret ${secretId} already exists, adding new version`);
-        return await this.googleSecretService.addSecretVersion(secretId, data);
-      }
-
       this.logger.error(
         `Failed to store mnemonic for vault ${vaultId}. ` + `Error code: ${error.code}, Message: ${error.message}`
       );
@@ -231,7 +231,7 @@ export class TreasuryWalletService {
 
   /**
    * Gets decrypted private key for treasury wallet (USE WITH CAUTION)
-   * Decrypts using Google Cloud KMS
+   * Decrypts with the configured key management backend; keys are only returned once the access is audited
    */
   async getTreasuryWalletPrivateKey(vaultId: string): Promise<{
     privateKey: PrivateKey;
@@ -249,6 +249,8 @@ export class TreasuryWalletService {
       throw new Error(`Treasury wallet ${wallet.id} has no encrypted keys`);
     }
 
+    let keys: { privateKey: PrivateKey; stakePrivateKey: PrivateKey };
+
     try {
       // Decrypt payment key
       const encryptedData = JSON.parse(wallet.encrypted_private_key.toString());
@@ -270,29 +272,68 @@ export class TreasuryWalletService {
 
       this.logger.log(`Decrypting keys for vault ${vaultId}`);
 
-      const privateKey = await this.googleKMSService.decryptTreasuryKey(encryptedPackage, vaultId);
-      const stakePrivateKey = await this.googleKMSService.decryptStakeKey(encryptedStakePackage, vaultId);
+      // Wallets rotated to another key carry its name; older records fall back to the configured key
+      const privateKey = await this.keyManagement.decryptTreasuryKey(
+        encryptedPackage,
+        vaultId,
+        encryptedData.kmsKeyName
+      );
+      const stakePrivateKey = await this.keyManagement.decryptStakeKey(
+        encryptedStakePackage,
+        vaultId,
+        encryptedStakeData.kmsKeyName
+      );
 
-      return { privateKey, stakePrivateKey };
+      keys = { privateKey, stakePrivateKey };
     } catch (error) {
       this.logger.error(`Failed to decrypt treasury wallet ${wallet.id}:`, error);
+      await this.auditLogService.tryLog({
+        action: AuditLogAction.TREASURY_PRIVATE_KEY_ACCESSED,
+        vaultId,
+        outcome: AuditLogOutcome.FAILURE,
+        details: { walletId: wallet.id, error: error.message },
+      });
       throw new Error(`Failed to decrypt treasury wallet credentials: ${error.message}`);
     }
+
+    await this.auditLogService.log({
+      action: AuditLogAction.TREASURY_PRIVATE_KEY_ACCESSED,
+      vaultId,
+      details: { walletId: wallet.id, publicKeyHash: wallet.public_key_hash },
+    });
+
+    return keys;
   }
 
   /**
-   * Gets mnemonic from Google Secret Manager (for recovery purposes)
+   * Gets mnemonic from the secret store (for recovery purposes)
    */
   async getTreasuryWalletMnemonic(vaultId: string): Promise<string> {
     const secretId = `treasury-wallet-${vaultId}`;
 
+    let mnemonic: string;
+
     try {
-      const data = await this.googleSecretService.getSecretValue(secretId);
-      return data.mnemonic;
+      const data = await this.keyManagement.getSecretValue(secretId);
+      mnemonic = data.mnemonic;
     } catch (error: any) {
       this.logger.error(`Failed to retrieve mnemonic for vault ${vaultId}:`, error);
+      await this.auditLogService.tryLog({
+        action: AuditLogAction.TREASURY_MNEMONIC_ACCESSED,
+        vaultId,
+        outcome: AuditLogOutcome.FAILURE,
+        details: { secretId, error: error.message },
+      });
       throw new Error(`Failed to retrieve wallet mnemonic: ${error.message}`);
     }
+
+    await this.auditLogService.log({
+      action: AuditLogAction.TREASURY_MNEMONIC_ACCESSED,
+      vaultId,
+      details: { secretId },
+    });
+
+    return mnemonic;
   }
 
   /**
@@ -379,14 +420,14 @@ export class TreasuryWalletService {
 
   /**
    * Mark vault secret as unused (not deleted from Secret Manager)
-   * Secrets are retained in Google Secret Manager and marked as unused in DB
+   * Secrets are retained in the secret store and marked as unused in DB
    * Manual deletion can be performed later if needed
    */
   async deleteVaultSecret(vaultId: string): Promise<void> {
     const secretId = `treasury-wallet-${vaultId}`;
 
     try {
-      await this.googleSecretService.markSecretAsUnused(secretId);
+      await this.keyManagement.markSecretAsUnused(secretId);
       this.logger.log(`Marked secret as unused for vault ${vaultId}`);
     } catch (error: any) {
       this.logger.error(`Failed to mark secret as unused for vault ${vaultId}:`, error);
@@ -412,10 +453,48 @@ export class TreasuryWalletService {
   }
 
   /**
-   * Sweep all remaining ADA from treasury wallet to destination address
-   * Used during vault termination cleanup to recover any leftover funds
+   * Sweep everything in the treasury wallet to the destination of a confirmed sweep.
+   * Only TreasurySweepService creates and confirms sweeps, after checking the destination allow-list
+   * and the authorizing proposal or termination step.
    */
-  async sweepTreasuryWallet(vaultId: string, destinationAddress: string): Promise<string> {
+  async sweepTreasuryWallet(sweep: TreasurySweep): Promise<string> {
+    const { vaultId, destinationAddress } = sweep;
+    const details = {
+      sweepId: sweep.id,
+      destinationAddress,
+      destinationKind: sweep.destinationKind,
+      authorizationType: sweep.authorizationType,
+      proposalId: sweep.proposalId,
+    };
+
+    try {
+      if (sweep.status !== TreasurySweepStatus.CONFIRMED) {
+        throw new Error(`Treasury sweep ${sweep.id} is ${sweep.status}, not confirmed`);
+      }
+
+      const txHash = await this.executeSweep(vaultId, destinationAddress);
+
+      await this.auditLogService.tryLog({
+        action: AuditLogAction.TREASURY_WALLET_SWEPT,
+        vaultId,
+        userId: sweep.confirmedBy ?? sweep.requestedBy,
+        details: { ...details, txHash, skipped: !txHash },
+      });
+
+      return txHash;
+    } catch (error) {
+      await this.auditLogService.tryLog({
+        action: AuditLogAction.TREASURY_WALLET_SWEPT,
+        vaultId,
+        userId: sweep.confirmedBy ?? sweep.requestedBy,
+        outcome: AuditLogOutcome.FAILURE,
+        details: { ...details, error: error.message },
+      });
+      throw error;
+    }
+  }
+
+  private async executeSweep(vaultId: string, destinationAddress: string): Promise<string> {
     // On testnet, check if feature is enabled. On mainnet, always allow sweep.
     if (!this.isMainnet && !this.systemSettingsService.autoCreateTreasuryWalletsTestnet) {
       throw new Error(`Treasury wallet sweep disabled for testnet`);
@@ -431,6 +510,12 @@ export class TreasuryWalletService {
       throw new Error(`Treasury wallet not found for vault ${vaultId}`);
     }
 
+    if (wallet.mode === TreasuryWalletMode.MULTISIG) {
+      throw new Error(
+        `Treasury wallet of vault ${vaultId} is a multisig script and cannot be swept with the platform key`
+      );
+    }
+
     // Get wallet balance to check if sweep is worthwhile
     const balance = await this.getTreasuryWalletBalance(vaultId);
 
@@ -585,6 +670,7 @@ export class TreasuryWalletService {
    * Controlled by auto_create_treasury_wallets feature flag in system settings
    */
   @Cron(process.env.TREASURY_WALLET_CRON || CronExpression.EVERY_6_HOURS)
+  @CoordinatedJob('treasury-wallet-auto-create')
   async autoCreateMissingTreasuryWallets(): Promise<void> {
     const isEnabled = this.systemSettingsService.autoCreateTreasuryWallets;
 
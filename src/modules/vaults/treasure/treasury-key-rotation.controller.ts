@@ -0,0 +1,67 @@
+import { Body, Controller, Get, Param, ParseUUIDPipe, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+
+import {
+  StartTreasuryKeyRotationReq,
+  TreasuryKeyRotationJobDto,
+  TreasuryKeyRotationReportQuery,
+  TreasuryKeyRotationReportRes,
+} from './dto/treasury-key-rotation.dto';
+import { TreasuryKeyRotationService } from './treasury-key-rotation.service';
+
+import { AdminGuard } from '@/modules/auth/admin.guard';
+
+@ApiTags('Admin - Treasury Keys')
+@Controller('admin/treasury/key-rotations')
+@UseGuards(AdminGuard)
+export class TreasuryKeyRotationController {
+  constructor(private readonly keyRotationService: TreasuryKeyRotationService) {}
+
+  @Get('report')
+  @ApiOperation({ summary: '[Admin] Dry run: treasury wallets still encrypted under an older KMS key version' })
+  @ApiResponse({ status: 200, type: TreasuryKeyRotationReportRes })
+  async getReport(@Query() query: TreasuryKeyRotationReportQuery): Promise<TreasuryKeyRotationReportRes> {
+    return this.keyRotationService.getReport(query.targetKeyId);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: '[Admin] Start re-encrypting treasury keys under the primary version of the target key',
+    description: 'Runs in the background; poll the job for progress',
+  })
+  @ApiResponse({ status: 201, type: TreasuryKeyRotationJobDto })
+  @ApiResponse({ status: 409, description: 'Another rotation is running' })
+  async startRotation(@Body() body: StartTreasuryKeyRotationReq): Promise<TreasuryKeyRotationJobDto> {
+    const job = await this.keyRotationService.startRotation(body.requestedBy, body.targetKeyId);
+
+    return plainToInstance(TreasuryKeyRotationJobDto, job, { excludeExtraneousValues: true });
+  }
+
+  @Get()
+  @ApiOperation({ summary: '[Admin] Recent key rotation jobs' })
+  @ApiResponse({ status: 200, type: [TreasuryKeyRotationJobDto] })
+  async getJobs(): Promise<TreasuryKeyRotationJobDto[]> {
+    const jobs = await this.keyRotationService.getJobs();
+
+    return plainToInstance(TreasuryKeyRotationJobDto, jobs, { excludeExtraneousValues: true });
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '[Admin] Key rotation job progress' })
+  @ApiResponse({ status: 200, type: TreasuryKeyRotationJobDto })
+  async getJob(@Param('id', ParseUUIDPipe) id: string): Promise<TreasuryKeyRotationJobDto> {
+    const job = await this.keyRotationService.getJob(id);
+
+    return plainToInstance(TreasuryKeyRotationJobDto, job, { excludeExtraneousValues: true });
+  }
+
+  @Post(':id/resume')
+  @ApiOperation({ summary: '[Admin] Resume a stopped key rotation after its last processed wallet' })
+  @ApiResponse({ status: 201, type: TreasuryKeyRotationJobDto })
+  async resumeRotation(@Param('id', ParseUUIDPipe) id: string): Promise<TreasuryKeyRotationJobDto> {
+    const job = await this.keyRotationService.resumeRotation(id);
+
+    return plainToInstance(TreasuryKeyRotationJobDto, job, { excludeExtraneousValues: true });
+  }
+}
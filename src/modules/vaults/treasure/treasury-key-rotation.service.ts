@@ -0,0 +1,401 @@
+import { Address, BaseAddress, PrivateKey } from '@emurgo/cardano-serialization-lib-nodejs';
+import { BadRequestException, ConflictException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Not, Repository } from 'typeorm';
+
+import { TreasuryKeyRotationJob } from '@/database/treasuryKeyRotationJob.entity';
+import { VaultTreasuryWallet } from '@/database/vaultTreasuryWallet.entity';
+import { AuditLogService } from '@/modules/audit-log/audit-log.service';
+import { JobCoordinatorService, JobLeaseLostError } from '@/modules/job-coordinator/job-coordinator.service';
+import { KEY_MANAGEMENT, KeyManagementBackend } from '@/modules/key-management/key-management.types';
+import { AuditLogAction } from '@/types/audit-log.types';
+import { TreasuryKeyRotationFailure, TreasuryKeyRotationStatus } from '@/types/treasury.types';
+
+const KEY_ROTATION_JOB = 'treasury-key-rotation';
+
+/**
+ * Serialized envelope stored in `encrypted_private_key` / `encrypted_stake_private_key`
+ */
+interface StoredKeyEnvelope {
+  encryptedKey: string;
+  encryptedDEK: string;
+  iv: string;
+  authTag: string;
+  algorithm: string;
+  kmsKeyName?: string;
+  kmsKeyVersion?: string; // Missing on envelopes written before rotation support
+}
+
+export interface TreasuryKeyVersionEntry {
+  walletId: string;
+  vaultId: string;
+  kmsKeyName: string | null;
+  kmsKeyVersion: string | null;
+  hasStakeKey: boolean;
+  stakeKmsKeyVersion: string | null;
+}
+
+export interface TreasuryKeyRotationReport {
+  targetKeyName: string;
+  targetKeyVersion: string;
+  totalWallets: number;
+  upToDateWallets: number;
+  outdatedWallets: TreasuryKeyVersionEntry[];
+  /** Wallets whose stored envelope could not be parsed; they need manual repair before they can be rotated */
+  unreadableWallets: TreasuryKeyRotationFailure[];
+}
+
+/**
+ * Re-encrypts treasury wallet keys under the primary version of a (new) KMS key.
+ *
+ * Each wallet is decrypted under the key it was written with, checked against its public key hash and
+ * stake credential, re-encrypted, decrypted again as a round-trip check and only then saved.
+ * Progress is stored on the job so an interrupted rotation resumes after the last processed wallet.
+ * Jobs run under a Redis lease of the job coordinator, so only one replica rotates at a time.
+ */
+@Injectable()
+export class TreasuryKeyRotationService {
+  private readonly logger = new Logger(TreasuryKeyRotationService.name);
+
+  constructor(
+    @InjectRepository(VaultTreasuryWallet)
+    private readonly treasuryWalletRepository: Repository<VaultTreasuryWallet>,
+    @InjectRepository(TreasuryKeyRotationJob)
+    private readonly rotationJobRepository: Repository<TreasuryKeyRotationJob>,
+    @Inject(KEY_MANAGEMENT)
+    private readonly keyManagement: KeyManagementBackend,
+    private readonly auditLogService: AuditLogService,
+    private readonly jobCoordinatorService: JobCoordinatorService
+  ) {}
+
+  /**
+   * Dry run: wallets whose payment or stake key is not encrypted under the target key version
+   * @param targetKeyId - Key in the configured key ring; defaults to the configured treasury key
+   */
+  async getReport(targetKeyId?: string): Promise<TreasuryKeyRotationReport> {
+    const targetKeyName = this.keyManagement.getKeyName(targetKeyId);
+    const targetKeyVersion = await this.keyManagement.getPrimaryKeyVersion(targetKeyName);
+
+    const wallets = await this.treasuryWalletRepository.find({
+      where: { encrypted_private_key: Not(IsNull()) },
+      order: { id: 'ASC' },
+    });
+
+    const outdatedWallets: TreasuryKeyVersionEntry[] = [];
+    const unreadableWallets: TreasuryKeyRotationFailure[] = [];
+
+    for (const wallet of wallets) {
+      try {
+        const entry = this.getKeyVersions(wallet);
+        if (!this.isOnTarget(entry, targetKeyName, targetKeyVersion)) {
+          outdatedWallets.push(entry);
+        }
+      } catch (error) {
+        unreadableWallets.push({ walletId: wallet.id, vaultId: wallet.vault_id, error: error.message });
+      }
+    }
+
+    return {
+      targetKeyName,
+      targetKeyVersion,
+      totalWallets: wallets.length,
+      upToDateWallets: wallets.length - outdatedWallets.length - unreadableWallets.length,
+      outdatedWallets,
+      unreadableWallets,
+    };
+  }
+
+  /**
+   * Creates a rotation job and processes it in the background
+   */
+  async startRotation(requestedBy: string, targetKeyId?: string): Promise<TreasuryKeyRotationJob> {
+    await this.assertNoRunningJob();
+
+    const targetKeyName = this.keyManagement.getKeyName(targetKeyId);
+    const targetKeyVersion = await this.keyManagement.getPrimaryKeyVersion(targetKeyName);
+
+    const job = await this.rotationJobRepository.save(
+      this.rotationJobRepository.create({
+        status: TreasuryKeyRotationStatus.RUNNING,
+        targetKeyName,
+        targetKeyVersion,
+        requestedBy,
+        totalWallets: await this.treasuryWalletRepository.count({
+          where: { encrypted_private_key: Not(IsNull()) },
+        }),
+        failures: [],
+      })
+    );
+
+    this.logger.log(`Treasury key rotation ${job.id} started by ${requestedBy}: target ${targetKeyVersion}`);
+    this.runInBackground(job);
+
+    return job;
+  }
+
+  /**
+   * Continues a job stopped by an error or by a restart, after its last processed wallet
+   */
+  async resumeRotation(jobId: string): Promise<TreasuryKeyRotationJob> {
+    await this.assertNoRunningJob();
+
+    const job = await this.getJob(jobId);
+
+    if (job.status === TreasuryKeyRotationStatus.COMPLETED) {
+      throw new BadRequestException('Key rotation job is already completed');
+    }
+
+    job.status = TreasuryKeyRotationStatus.RUNNING;
+    job.error = null;
+    await this.rotationJobRepository.save(job);
+
+    this.logger.log(`Resuming treasury key rotation ${job.id} after wallet ${job.lastWalletId ?? '(start)'}`);
+    this.runInBackground(job);
+
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<TreasuryKeyRotationJob> {
+    const job = await this.rotationJobRepository.findOne({ where: { id: jobId } });
+
+    if (!job) {
+      throw new NotFoundException('Key rotation job not found');
+    }
+
+    return job;
+  }
+
+  async getJobs(): Promise<TreasuryKeyRotationJob[]> {
+    return this.rotationJobRepository.find({ order: { createdAt: 'DESC' }, take: 50 });
+  }
+
+  /**
+   * Fast rejection for the admin; two requests racing past it are still serialized by the lease in `runInBackground`
+   */
+  private async assertNoRunningJob(): Promise<void> {
+    if (await this.jobCoordinatorService.isRunning(KEY_ROTATION_JOB)) {
+      throw new ConflictException('A treasury key rotation is already running');
+    }
+  }
+
+  private runInBackground(job: TreasuryKeyRotationJob): void {
+    // `force`: rotations are started by an admin, the pause flag of scheduled jobs does not apply
+    this.jobCoordinatorService
+      .run(KEY_ROTATION_JOB, () => this.processJob(job).then(() => true), {}, true)
+      .then(ran => {
+        if (!ran) {
+          throw new Error('Could not take the key rotation lease; another rotation may be running');
+        }
+      })
+      .catch(async error => {
+        this.logger.error(`Treasury key rotation ${job.id} stopped: ${error.message}`, error.stack);
+        job.status = TreasuryKeyRotationStatus.FAILED;
+        job.error = error.message;
+        await this.rotationJobRepository.save(job);
+      });
+  }
+
+  private async processJob(job: TreasuryKeyRotationJob): Promise<void> {
+    for (;;) {
+      const wallet = await this.treasuryWalletRepository.findOne({
+        where: {
+          encrypted_private_key: Not(IsNull()),
+          ...(job.lastWalletId && { id: MoreThan(job.lastWalletId) }),
+        },
+        order: { id: 'ASC' },
+      });
+
+      if (!wallet) {
+        break;
+      }
+
+      // Stop before touching the next wallet if another replica may have taken over
+      await this.jobCoordinatorService.assertLeaseHeld();
+
+      // A malformed envelope fails this wallet only
+      try {
+        if (this.isOnTarget(this.getKeyVersions(wallet), job.targetKeyName, job.targetKeyVersion)) {
+          job.skippedCount++;
+        } else {
+          await this.rotateWallet(wallet, job);
+          job.rotatedCount++;
+        }
+      } catch (error) {
+        if (error instanceof JobLeaseLostError) {
+          throw error;
+        }
+
+        this.logger.error(`Failed to rotate treasury keys of vault ${wallet.vault_id}: ${error.message}`);
+        job.failedCount++;
+        job.failures = [...job.failures, { walletId: wallet.id, vaultId: wallet.vault_id, error: error.message }];
+      }
+
+      job.lastWalletId = wallet.id;
+      await this.rotationJobRepository.save(job);
+    }
+
+    job.status = TreasuryKeyRotationStatus.COMPLETED;
+    job.completedAt = new Date();
+    await this.rotationJobRepository.save(job);
+
+    this.logger.log(
+      `Treasury key rotation ${job.id} completed: ${job.rotatedCount} rotated, ` +
+        `${job.skippedCount} already current, ${job.failedCount} failed`
+    );
+  }
+
+  private async rotateWallet(wallet: VaultTreasuryWallet, job: TreasuryKeyRotationJob): Promise<void> {
+    const vaultId = wallet.vault_id;
+    const paymentEnvelope = this.parseEnvelope(wallet.encrypted_private_key);
+    // Wallets whose stake key was cleared only have a payment key to rotate
+    const stakeEnvelope = wallet.encrypted_stake_private_key
+      ? this.parseEnvelope(wallet.encrypted_stake_private_key)
+      : null;
+
+    const privateKey = await this.keyManagement.decryptTreasuryKey(
+      this.toPackage(paymentEnvelope),
+      vaultId,
+      paymentEnvelope.kmsKeyName
+    );
+    const stakePrivateKey = stakeEnvelope
+      ? await this.keyManagement.decryptStakeKey(this.toPackage(stakeEnvelope), vaultId, stakeEnvelope.kmsKeyName)
+      : null;
+    this.verifyKeys(wallet, privateKey, stakePrivateKey);
+
+    const rotatedPayment = await this.keyManagement.encryptTreasuryKey(privateKey, vaultId, job.targetKeyName);
+    const rotatedStake = stakePrivateKey
+      ? await this.keyManagement.encryptStakeKey(stakePrivateKey, vaultId, job.targetKeyName)
+      : null;
+
+    // Round trip before overwriting the only copy of the encrypted keys
+    this.verifyKeys(
+      wallet,
+      await this.keyManagement.decryptTreasuryKey(rotatedPayment, vaultId, job.targetKeyName),
+      rotatedStake ? await this.keyManagement.decryptStakeKey(rotatedStake, vaultId, job.targetKeyName) : null
+    );
+
+    const rotation = {
+      jobId: job.id,
+      fromKeyVersion: paymentEnvelope.kmsKeyVersion ?? paymentEnvelope.kmsKeyName ?? null,
+      toKeyVersion: rotatedPayment.kmsKeyVersion,
+      rotatedAt: new Date().toISOString(),
+    };
+
+    // Fenced so a replica that lost the rotation lease cannot overwrite keys after the one that took over
+    await this.jobCoordinatorService.fenced(manager =>
+      manager.update(
+        VaultTreasuryWallet,
+        { id: wallet.id },
+        {
+          encrypted_private_key: this.serializeEnvelope(rotatedPayment),
+          ...(rotatedStake && { encrypted_stake_private_key: this.serializeEnvelope(rotatedStake) }),
+          encryption_key_id: job.targetKeyName,
+          metadata: {
+            ...wallet.metadata,
+            keyRotations: [...(wallet.metadata?.keyRotations ?? []), rotation],
+          },
+        }
+      )
+    );
+
+    try {
+      await this.auditLogService.log({
+        action: AuditLogAction.TREASURY_KEY_ROTATED,
+        vaultId,
+        userId: job.requestedBy,
+        details: {
+          walletId: wallet.id,
+          publicKeyHash: wallet.public_key_hash,
+          ...rotation,
+        },
+      });
+    } catch (error) {
+      // Keys are already re-encrypted; the rotation metadata on the wallet still records it
+      this.logger.error(`Failed to write key rotation audit entry for vault ${vaultId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Decrypted keys must still belong to the wallet: payment key to `public_key_hash`,
+   * stake key to the stake credential of the treasury address (kept when switching to multisig)
+   */
+  private verifyKeys(wallet: VaultTreasuryWallet, privateKey: PrivateKey, stakePrivateKey: PrivateKey | null): void {
+    if (privateKey.to_public().hash().to_hex() !== wallet.public_key_hash) {
+      throw new Error('Decrypted payment key does not match the wallet public key hash');
+    }
+
+    const stakeKeyHash = BaseAddress.from_address(Address.from_bech32(wallet.treasury_address))
+      ?.stake_cred()
+      .to_keyhash()
+      ?.to_hex();
+
+    if (stakePrivateKey && stakeKeyHash && stakePrivateKey.to_public().hash().to_hex() !== stakeKeyHash) {
+      throw new Error('Decrypted stake key does not match the wallet stake credential');
+    }
+  }
+
+  private getKeyVersions(wallet: VaultTreasuryWallet): TreasuryKeyVersionEntry {
+    const paymentEnvelope = this.parseEnvelope(wallet.encrypted_private_key);
+    const stakeEnvelope = wallet.encrypted_stake_private_key
+      ? this.parseEnvelope(wallet.encrypted_stake_private_key)
+      : null;
+
+    return {
+      walletId: wallet.id,
+      vaultId: wallet.vault_id,
+      kmsKeyName: paymentEnvelope.kmsKeyName ?? null,
+      kmsKeyVersion: paymentEnvelope.kmsKeyVersion ?? null,
+      hasStakeKey: !!stakeEnvelope,
+      stakeKmsKeyVersion: stakeEnvelope?.kmsKeyVersion ?? null,
+    };
+  }
+
+  private isOnTarget(entry: TreasuryKeyVersionEntry, targetKeyName: string, targetKeyVersion: string): boolean {
+    return (
+      entry.kmsKeyName === targetKeyName &&
+      entry.kmsKeyVersion === targetKeyVersion &&
+      // A wallet without a stake key has nothing else to rotate
+      (!entry.hasStakeKey || entry.stakeKmsKeyVersion === targetKeyVersion)
+    );
+  }
+
+  private parseEnvelope(encrypted: Buffer): StoredKeyEnvelope {
+    return JSON.parse(encrypted.toString());
+  }
+
+  private toPackage(envelope: StoredKeyEnvelope): {
+    encryptedKey: Buffer;
+    encryptedDEK: Buffer;
+    iv: Buffer;
+    authTag: Buffer;
+  } {
+    return {
+      encryptedKey: Buffer.from(envelope.encryptedKey, 'base64'),
+      encryptedDEK: Buffer.from(envelope.encryptedDEK, 'base64'),
+      iv: Buffer.from(envelope.iv, 'base64'),
+      authTag: Buffer.from(envelope.authTag, 'base64'),
+    };
+  }
+
+  private serializeEnvelope(encryptedPackage: {
+    encryptedKey: Buffer;
+    encryptedDEK: Buffer;
+    iv: Buffer;
+    authTag: Buffer;
+    algorithm: string;
+    kmsKeyName: string;
+    kmsKeyVersion: string;
+  }): Buffer {
+    const envelope: StoredKeyEnvelope = {
+      encryptedKey: encryptedPackage.encryptedKey.toString('base64'),
+      encryptedDEK: encryptedPackage.encryptedDEK.toString('base64'),
+      iv: encryptedPackage.iv.toString('base64'),
+      authTag: encryptedPackage.authTag.toString('base64'),
+      algorithm: encryptedPackage.algorithm,
+      kmsKeyName: encryptedPackage.kmsKeyName,
+      kmsKeyVersion: encryptedPackage.kmsKeyVersion,
+    };
+
+    return Buffer.from(JSON.stringify(envelope));
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  ClassSerializerInterceptor,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+import {
+  TreasuryBalanceHistoryQuery,
+  TreasuryBalancePointDto,
+  TreasuryLedgerQuery,
+  TreasuryLedgerSyncRes,
+  TreasuryPnlRes,
+} from './dto/treasury-ledger.dto';
+import { TreasuryLedgerService } from './treasury-ledger.service';
+
+import { TreasuryLedgerEntry } from '@/database/treasuryLedgerEntry.entity';
+import { AdminGuard } from '@/modules/auth/admin.guard';
+import { PaginatedResponseDto } from '@/modules/vaults/dto/paginated-response.dto';
+
+@ApiTags('Treasury')
+@Controller('vaults')
+@UseInterceptors(ClassSerializerInterceptor)
+export class TreasuryLedgerController {
+  constructor(private readonly treasuryLedgerService: TreasuryLedgerService) {}
+
+  @Get(':vaultId/treasury/ledger')
+  @ApiOperation({
+    summary: 'Treasury inflows and outflows',
+    description: 'Every treasury movement, newest first, priced in ADA/USD when it was recorded',
+  })
+  @ApiResponse({ status: 200, type: PaginatedResponseDto })
+  async getLedger(
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Query() query: TreasuryLedgerQuery
+  ): Promise<PaginatedResponseDto<TreasuryLedgerEntry>> {
+    return this.treasuryLedgerService.getLedger(vaultId, query);
+  }
+
+  @Get(':vaultId/treasury/pnl')
+  @ApiOperation({
+    summary: 'Treasury portfolio and P&L',
+    description: 'Current holdings with average cost basis, realized and unrealized P&L, and totals per category',
+  })
+  @ApiResponse({ status: 200, type: TreasuryPnlRes })
+  async getPnl(@Param('vaultId', ParseUUIDPipe) vaultId: string): Promise<TreasuryPnlRes> {
+    return this.treasuryLedgerService.getPnl(vaultId);
+  }
+
+  @Get(':vaultId/treasury/balance-history')
+  @ApiOperation({ summary: 'Daily treasury balance and value' })
+  @ApiResponse({ status: 200, type: [TreasuryBalancePointDto] })
+  async getBalanceHistory(
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Query() query: TreasuryBalanceHistoryQuery
+  ): Promise<TreasuryBalancePointDto[]> {
+    return this.treasuryLedgerService.getBalanceHistory(vaultId, query);
+  }
+
+  @Post(':vaultId/treasury/ledger/sync')
+  @UseGuards(AdminGuard)
+  @ApiOperation({ summary: '[Admin] Ingest new treasury transactions into the ledger now' })
+  @ApiResponse({ status: 201, type: TreasuryLedgerSyncRes })
+  async syncLedger(@Param('vaultId', ParseUUIDPipe) vaultId: string): Promise<TreasuryLedgerSyncRes> {
+    return { newEntries: await this.treasuryLedgerService.syncVault(vaultId) };
+  }
+}
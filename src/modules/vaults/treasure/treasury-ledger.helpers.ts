@@ -0,0 +1,228 @@
+import { TreasuryLedgerEntry } from '@/database/treasuryLedgerEntry.entity';
+import { TreasuryLedgerCategory, TreasuryLedgerDirection } from '@/types/treasury.types';
+
+export const LOVELACE = 'lovelace';
+export const LOVELACE_PER_ADA = 1_000_000;
+
+export interface TreasuryLot {
+  quantity: bigint;
+  costAda: number;
+  costUsd: number;
+}
+
+export interface TreasuryEscrowUnit {
+  unit: string;
+  quantity: string;
+}
+
+export interface TreasuryLedgerReplay {
+  /** Units in the treasury wallet with their average cost basis */
+  holdings: Map<string, TreasuryLot>;
+  /** Units locked in WayUp listings and offers; still owned by the treasury */
+  escrow: Map<string, TreasuryLot>;
+  realizedAda: number;
+  realizedUsd: number;
+  /** Entries without a price; their movements are carried at cost */
+  unpricedEntries: number;
+}
+
+interface LedgerValue {
+  ada: number;
+  usd: number;
+}
+
+const ZERO_VALUE: LedgerValue = { ada: 0, usd: 0 };
+
+function entryValue(entry: TreasuryLedgerEntry): LedgerValue | null {
+  if (!Number.isFinite(entry.adaValue)) {
+    return null;
+  }
+
+  return { ada: entry.adaValue, usd: Number.isFinite(entry.usdValue) ? entry.usdValue : 0 };
+}
+
+function take(lots: Map<string, TreasuryLot>, unit: string, quantity: bigint): TreasuryLot {
+  const lot = lots.get(unit);
+  if (!lot || lot.quantity <= 0n || quantity <= 0n) {
+    return { quantity: 0n, costAda: 0, costUsd: 0 };
+  }
+
+  const taken = quantity < lot.quantity ? quantity : lot.quantity;
+  const share = Number(taken) / Number(lot.quantity);
+  const result = { quantity: taken, costAda: lot.costAda * share, costUsd: lot.costUsd * share };
+
+  if (taken === lot.quantity) {
+    lots.delete(unit);
+  } else {
+    lot.quantity -= taken;
+    lot.costAda -= result.costAda;
+    lot.costUsd -= result.costUsd;
+  }
+
+  return result;
+}
+
+function put(lots: Map<string, TreasuryLot>, unit: string, lot: TreasuryLot): void {
+  if (lot.quantity <= 0n) {
+    return;
+  }
+
+  const existing = lots.get(unit);
+  if (existing) {
+    existing.quantity += lot.quantity;
+    existing.costAda += lot.costAda;
+    existing.costUsd += lot.costUsd;
+  } else {
+    lots.set(unit, { ...lot });
+  }
+}
+
+function realize(state: TreasuryLedgerReplay, proceeds: LedgerValue, cost: TreasuryLot): void {
+  state.realizedAda += proceeds.ada - cost.costAda;
+  state.realizedUsd += proceeds.usd - cost.costUsd;
+}
+
+/**
+ * A counterparty transaction spending one of our marketplace UTxOs: a WayUp sale (NFT out of escrow, ADA in)
+ * or an accepted offer (ADA out of escrow, NFT in). The lovelace side is the exchange value of both legs.
+ */
+function applySettlement(
+  state: TreasuryLedgerReplay,
+  entries: TreasuryLedgerEntry[],
+  settlement: TreasuryLedgerEntry
+): void {
+  const escrowUnits = (settlement.metadata?.escrowUnits ?? []) as TreasuryEscrowUnit[];
+  const released = escrowUnits.map(({ unit, quantity }) => ({
+    unit,
+    lot: take(state.escrow, unit, BigInt(quantity)),
+  }));
+  const releasedCost = released.reduce(
+    (total, { lot }) => ({ quantity: 0n, costAda: total.costAda + lot.costAda, costUsd: total.costUsd + lot.costUsd }),
+    { quantity: 0n, costAda: 0, costUsd: 0 }
+  );
+
+  const received = entries.filter(
+    entry => entry.category === settlement.category && entry.direction === TreasuryLedgerDirection.INFLOW
+  );
+
+  let exchange: LedgerValue;
+  if (settlement.category === TreasuryLedgerCategory.SALE) {
+    exchange = received
+      .filter(entry => entry.unit === LOVELACE)
+      .reduce((total, entry) => {
+        const value = entryValue(entry) ?? ZERO_VALUE;
+        return { ada: total.ada + value.ada, usd: total.usd + value.usd };
+      }, ZERO_VALUE);
+  } else {
+    const lovelace = released.find(({ unit }) => unit === LOVELACE)?.lot.quantity ?? 0n;
+    const ada = Number(lovelace) / LOVELACE_PER_ADA;
+    exchange = { ada, usd: ada * (Number.isFinite(settlement.adaUsdPrice) ? settlement.adaUsdPrice : 0) };
+  }
+
+  realize(state, exchange, releasedCost);
+
+  // Received units take the exchange value as cost, split by their own market value when every one is priced
+  const values = received.map(entry => entryValue(entry));
+  const totalAda = values.every(Boolean) ? values.reduce((total, value) => total + value.ada, 0) : 0;
+
+  received.forEach((entry, index) => {
+    const share = totalAda > 0 ? values[index].ada / totalAda : 1 / received.length;
+    put(state.holdings, entry.unit, {
+      quantity: BigInt(entry.quantity),
+      costAda: exchange.ada * share,
+      costUsd: exchange.usd * share,
+    });
+  });
+
+  entries.filter(entry => !received.includes(entry)).forEach(entry => applyEntry(state, entry));
+}
+
+function applyEntry(state: TreasuryLedgerReplay, entry: TreasuryLedgerEntry): void {
+  const quantity = BigInt(entry.quantity);
+  const value = entryValue(entry);
+  const outflow = entry.direction === TreasuryLedgerDirection.OUTFLOW;
+
+  if (!value) {
+    state.unpricedEntries++;
+  }
+
+  if (entry.category === TreasuryLedgerCategory.MARKETPLACE_LISTING) {
+    if (outflow) {
+      put(state.escrow, entry.unit, take(state.holdings, entry.unit, quantity));
+      return;
+    }
+
+    // Unlisted or cancelled: back to the wallet at the original cost; any excess is a new acquisition
+    const returned = take(state.escrow, entry.unit, quantity);
+    put(state.holdings, entry.unit, returned);
+
+    const remaining = quantity - returned.quantity;
+    if (remaining > 0n) {
+      const share = Number(remaining) / Number(quantity);
+      put(state.holdings, entry.unit, {
+        quantity: remaining,
+        costAda: (value?.ada ?? 0) * share,
+        costUsd: (value?.usd ?? 0) * share,
+      });
+    }
+    return;
+  }
+
+  if (outflow) {
+    const cost = take(state.holdings, entry.unit, quantity);
+    realize(state, value ?? { ada: cost.costAda, usd: cost.costUsd }, cost);
+    return;
+  }
+
+  put(state.holdings, entry.unit, { quantity, costAda: value?.ada ?? 0, costUsd: value?.usd ?? 0 });
+}
+
+export function createTreasuryLedgerReplay(): TreasuryLedgerReplay {
+  return {
+    holdings: new Map(),
+    escrow: new Map(),
+    realizedAda: 0,
+    realizedUsd: 0,
+    unpricedEntries: 0,
+  };
+}
+
+/**
+ * Splits chain-ordered entries into the groups of one transaction each
+ */
+export function groupLedgerEntriesByTransaction(entries: TreasuryLedgerEntry[]): TreasuryLedgerEntry[][] {
+  const groups: TreasuryLedgerEntry[][] = [];
+
+  for (const entry of entries) {
+    const group = groups[groups.length - 1];
+    if (group && group[0].txHash === entry.txHash) {
+      group.push(entry);
+    } else {
+      groups.push([entry]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Applies the entries of one transaction with average-cost accounting.
+ * Every outflow is a disposal at its market value when it happened; every inflow is an acquisition at its value.
+ * WayUp listings and offers only move units into escrow; the counterparty's settlement transaction realizes them.
+ */
+export function applyTreasuryLedgerTransaction(state: TreasuryLedgerReplay, entries: TreasuryLedgerEntry[]): void {
+  const settlement = entries.find(entry => entry.metadata?.escrowUnits);
+
+  if (settlement) {
+    applySettlement(state, entries, settlement);
+  } else {
+    entries.forEach(entry => applyEntry(state, entry));
+  }
+}
+
+export function replayTreasuryLedger(entries: TreasuryLedgerEntry[]): TreasuryLedgerReplay {
+  const state = createTreasuryLedgerReplay();
+  groupLedgerEntriesByTransaction(entries).forEach(group => applyTreasuryLedgerTransaction(state, group));
+
+  return state;
+}
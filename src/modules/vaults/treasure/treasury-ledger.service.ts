@@ -0,0 +1,557 @@
+import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+
+import {
+  TreasuryBalanceHistoryQuery,
+  TreasuryBalancePointDto,
+  TreasuryCategoryTotalDto,
+  TreasuryHoldingDto,
+  TreasuryLedgerQuery,
+  TreasuryPnlRes,
+} from './dto/treasury-ledger.dto';
+import {
+  LOVELACE,
+  LOVELACE_PER_ADA,
+  TreasuryEscrowUnit,
+  applyTreasuryLedgerTransaction,
+  createTreasuryLedgerReplay,
+  groupLedgerEntriesByTransaction,
+  replayTreasuryLedger,
+} from './treasury-ledger.helpers';
+
+import { Transaction } from '@/database/transaction.entity';
+import { TreasuryLedgerEntry } from '@/database/treasuryLedgerEntry.entity';
+import { VaultTreasuryWallet } from '@/database/vaultTreasuryWallet.entity';
+import { DexHunterPricingService } from '@/modules/dexhunter/dexhunter-pricing.service';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
+import { PriceService } from '@/modules/price/price.service';
+import { PaginatedResponseDto } from '@/modules/vaults/dto/paginated-response.dto';
+import { WayUpPricingService } from '@/modules/wayup/wayup-pricing.service';
+import { TransactionType } from '@/types/transaction.types';
+import { TreasuryLedgerCategory, TreasuryLedgerDirection } from '@/types/treasury.types';
+
+const SYNC_PAGE_SIZE = 100;
+
+interface AddressTransaction {
+  tx_hash: string;
+  tx_index: number;
+  block_height: number;
+  block_time: number;
+}
+
+interface UtxoAmount {
+  unit: string;
+  quantity: string;
+}
+
+export interface UnitPrice {
+  /** ADA per base unit */
+  ada: number | null;
+  decimals: number;
+  pricedAt: Date | null;
+}
+
+/**
+ * Ledger of every inflow and outflow of the vault treasury wallets.
+ *
+ * Treasury address transactions are ingested in chain order after the last recorded one; each transaction
+ * becomes one entry per unit and category, classified by the platform Transaction it belongs to and priced
+ * in ADA/USD when ingested. ADA/USD uses the price at block time; token and NFT prices are the ones available
+ * at ingestion, which `pricedAt` records. P&L and the balance series are replayed from the entries.
+ */
+@Injectable()
+export class TreasuryLedgerService {
+  private readonly logger = new Logger(TreasuryLedgerService.name);
+  private readonly blockfrost: BlockFrostAPI;
+  private isSyncInProgress = false;
+
+  constructor(
+    @InjectRepository(TreasuryLedgerEntry)
+    private readonly ledgerRepository: Repository<TreasuryLedgerEntry>,
+    @InjectRepository(VaultTreasuryWallet)
+    private readonly treasuryWalletRepository: Repository<VaultTreasuryWallet>,
+    @InjectRepository(Transaction)
+    private readonly transactionRepository: Repository<Transaction>,
+    private readonly configService: ConfigService,
+    private readonly priceService: PriceService,
+    private readonly dexHunterPricingService: DexHunterPricingService,
+    private readonly wayUpPricingService: WayUpPricingService
+  ) {
+    this.blockfrost = new BlockFrostAPI({
+      projectId: this.configService.get<string>('BLOCKFROST_API_KEY'),
+    });
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  @CoordinatedJob('treasury-ledger-sync')
+  async syncLedgers(): Promise<void> {
+    if (this.isSyncInProgress) {
+      this.logger.warn('Treasury ledger sync is already in progress, skipping this execution');
+      return;
+    }
+
+    this.isSyncInProgress = true;
+
+    try {
+      const wallets = await this.treasuryWalletRepository.find({
+        where: { is_active: true },
+        select: ['id', 'vault_id', 'treasury_address'],
+      });
+
+      let newEntries = 0;
+      for (const wallet of wallets) {
+        try {
+          newEntries += await this.syncWallet(wallet);
+        } catch (error) {
+          this.logger.error(`Failed to sync treasury ledger of vault ${wallet.vault_id}: ${error.message}`);
+        }
+      }
+
+      if (newEntries > 0) {
+        this.logger.log(`Recorded ${newEntries} treasury ledger entries across ${wallets.length} wallets`);
+      }
+    } finally {
+      this.isSyncInProgress = false;
+    }
+  }
+
+  /**
+   * Ingests the treasury transactions of a vault recorded on-chain since the last sync
+   * @returns Number of ledger entries written
+   */
+  async syncVault(vaultId: string): Promise<number> {
+    const wallet = await this.treasuryWalletRepository.findOne({
+      where: { vault_id: vaultId, is_active: true },
+      select: ['id', 'vault_id', 'treasury_address'],
+    });
+
+    if (!wallet) {
+      throw new NotFoundException(`No active treasury wallet for vault ${vaultId}`);
+    }
+
+    return this.syncWallet(wallet);
+  }
+
+  async getLedger(vaultId: string, query: TreasuryLedgerQuery): Promise<PaginatedResponseDto<TreasuryLedgerEntry>> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+
+    const qb = this.ledgerRepository
+      .createQueryBuilder('entry')
+      .where('entry.vault_id = :vaultId', { vaultId })
+      .orderBy('entry.block_height', 'DESC')
+      .addOrderBy('entry.tx_index', 'DESC');
+
+    if (query.category) {
+      qb.andWhere('entry.category = :category', { category: query.category });
+    }
+    if (query.direction) {
+      qb.andWhere('entry.direction = :direction', { direction: query.direction });
+    }
+
+    const [items, total] = await qb
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async getPnl(vaultId: string): Promise<TreasuryPnlRes> {
+    const entries = await this.getChainOrderedEntries(vaultId);
+    const replay = replayTreasuryLedger(entries);
+    const adaUsdPrice = await this.priceService.getAdaPrice();
+
+    const units = new Set([...replay.holdings.keys(), ...replay.escrow.keys()]);
+    const decimals = new Map(entries.map(entry => [entry.unit, entry.decimals]));
+    const holdings: TreasuryHoldingDto[] = [];
+
+    for (const unit of units) {
+      const held = replay.holdings.get(unit);
+      const listed = replay.escrow.get(unit);
+      const quantity = (held?.quantity ?? 0n) + (listed?.quantity ?? 0n);
+      const price = await this.getUnitPrice(unit, decimals.get(unit));
+      const valueAda = price.ada === null ? null : Number(quantity) * price.ada;
+
+      holdings.push({
+        unit,
+        quantity: quantity.toString(),
+        listedQuantity: (listed?.quantity ?? 0n).toString(),
+        decimals: price.decimals,
+        costBasisAda: (held?.costAda ?? 0) + (listed?.costAda ?? 0),
+        costBasisUsd: (held?.costUsd ?? 0) + (listed?.costUsd ?? 0),
+        valueAda,
+        valueUsd: valueAda === null ? null : valueAda * adaUsdPrice,
+      });
+    }
+
+    const priced = holdings.filter(holding => holding.valueAda !== null);
+    const sum = (items: TreasuryHoldingDto[], key: keyof TreasuryHoldingDto): number =>
+      items.reduce((total, item) => total + Number(item[key]), 0);
+
+    const currentValueAda = sum(priced, 'valueAda');
+    const currentValueUsd = sum(priced, 'valueUsd');
+
+    return {
+      vaultId,
+      adaUsdPrice,
+      costBasisAda: sum(holdings, 'costBasisAda'),
+      costBasisUsd: sum(holdings, 'costBasisUsd'),
+      currentValueAda,
+      currentValueUsd,
+      realizedAda: replay.realizedAda,
+      realizedUsd: replay.realizedUsd,
+      unrealizedAda: currentValueAda - sum(priced, 'costBasisAda'),
+      unrealizedUsd: currentValueUsd - sum(priced, 'costBasisUsd'),
+      unpricedEntries: replay.unpricedEntries,
+      lastEntryAt: entries.length > 0 ? entries[entries.length - 1].blockTime : null,
+      holdings,
+      totals: await this.getCategoryTotals(vaultId),
+    };
+  }
+
+  /**
+   * End-of-day treasury balance, valued at the latest ledger prices known on each day
+   */
+  async getBalanceHistory(vaultId: string, query: TreasuryBalanceHistoryQuery): Promise<TreasuryBalancePointDto[]> {
+    const entries = await this.getChainOrderedEntries(vaultId);
+    const from = query.from ? query.from.slice(0, 10) : null;
+    const to = query.to ? query.to.slice(0, 10) : null;
+
+    const state = createTreasuryLedgerReplay();
+    const unitPrices = new Map<string, number>();
+    let adaUsdPrice = 0;
+    const points: TreasuryBalancePointDto[] = [];
+
+    const pushPoint = (date: string): void => {
+      if ((from && date < from) || (to && date > to)) {
+        return;
+      }
+
+      let lovelace = 0n;
+      let valueAda = 0;
+      for (const lots of [state.holdings, state.escrow]) {
+        for (const [unit, lot] of lots) {
+          if (unit === LOVELACE) {
+            lovelace += lot.quantity;
+          }
+          valueAda += Number(lot.quantity) * (unitPrices.get(unit) ?? 0);
+        }
+      }
+
+      points.push({ date, lovelace: lovelace.toString(), valueAda, valueUsd: valueAda * adaUsdPrice });
+    };
+
+    unitPrices.set(LOVELACE, 1 / LOVELACE_PER_ADA);
+    let currentDate: string | null = null;
+
+    for (const group of groupLedgerEntriesByTransaction(entries)) {
+      const date = group[0].blockTime.toISOString().slice(0, 10);
+      if (currentDate && date !== currentDate) {
+        pushPoint(currentDate);
+      }
+      currentDate = date;
+
+      applyTreasuryLedgerTransaction(state, group);
+
+      for (const entry of group) {
+        const quantity = Number(entry.quantity);
+        if (Number.isFinite(entry.adaValue) && quantity > 0 && entry.unit !== LOVELACE) {
+          unitPrices.set(entry.unit, entry.adaValue / quantity);
+        }
+        if (Number.isFinite(entry.adaUsdPrice)) {
+          adaUsdPrice = entry.adaUsdPrice;
+        }
+      }
+    }
+
+    if (currentDate) {
+      pushPoint(currentDate);
+    }
+
+    return points;
+  }
+
+  /**
+   * Current ADA price per base unit: DexHunter for fungible tokens, WayUp floor price for NFTs.
+   * Lovelace is exact at any time, so it is priced at `at` (the block time when ingesting).
+   */
+  async getUnitPrice(unit: string, knownDecimals?: number, at = new Date()): Promise<UnitPrice> {
+    if (unit === LOVELACE) {
+      return { ada: 1 / LOVELACE_PER_ADA, decimals: 6, pricedAt: at };
+    }
+
+    try {
+      const asset = await this.blockfrost.assetsById(unit);
+      const decimals = knownDecimals ?? asset.metadata?.decimals ?? 0;
+
+      if (asset.quantity === '1') {
+        const { floorPriceAda } = await this.wayUpPricingService.getCollectionFloorPrice(asset.policy_id);
+        return { ada: floorPriceAda ?? null, decimals, pricedAt: floorPriceAda ? new Date() : null };
+      }
+
+      const tokenPrice = await this.dexHunterPricingService.getTokenPrice(unit);
+      return {
+        ada: tokenPrice ? tokenPrice / 10 ** decimals : null,
+        decimals,
+        pricedAt: tokenPrice ? new Date() : null,
+      };
+    } catch (error) {
+      this.logger.warn(`Failed to price unit ${unit}: ${error.message}`);
+      return { ada: null, decimals: knownDecimals ?? 0, pricedAt: null };
+    }
+  }
+
+  private async getChainOrderedEntries(vaultId: string): Promise<TreasuryLedgerEntry[]> {
+    return this.ledgerRepository.find({
+      where: { vaultId },
+      order: { blockHeight: 'ASC', txIndex: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  private async getCategoryTotals(vaultId: string): Promise<TreasuryCategoryTotalDto[]> {
+    const rows = await this.ledgerRepository
+      .createQueryBuilder('entry')
+      .select('entry.category', 'category')
+      .addSelect('entry.direction', 'direction')
+      .addSelect('COALESCE(SUM(entry.ada_value), 0)', 'adaValue')
+      .addSelect('COALESCE(SUM(entry.usd_value), 0)', 'usdValue')
+      .addSelect('COUNT(*)', 'entries')
+      .where('entry.vault_id = :vaultId', { vaultId })
+      .groupBy('entry.category')
+      .addGroupBy('entry.direction')
+      .orderBy('entry.category', 'ASC')
+      .getRawMany();
+
+    return rows.map(row => ({
+      category: row.category,
+      direction: row.direction,
+      adaValue: Number(row.adaValue),
+      usdValue: Number(row.usdValue),
+      entries: Number(row.entries),
+    }));
+  }
+
+  private async syncWallet(wallet: VaultTreasuryWallet): Promise<number> {
+    const address = wallet.treasury_address;
+    const last = await this.ledgerRepository.findOne({
+      where: { vaultId: wallet.vault_id, address },
+      order: { blockHeight: 'DESC', txIndex: 'DESC' },
+    });
+
+    let written = 0;
+    for (let page = 1; ; page++) {
+      let transactions: AddressTransaction[];
+      try {
+        transactions = await this.blockfrost.addressesTransactions(
+          address,
+          { order: 'asc', page, count: SYNC_PAGE_SIZE },
+          last ? { from: `${last.blockHeight}:${last.txIndex}` } : undefined
+        );
+      } catch (error) {
+        // Address never used on-chain
+        if (error.status_code === 404) {
+          return written;
+        }
+        throw error;
+      }
+
+      for (const transaction of transactions) {
+        const alreadyRecorded =
+          last &&
+          (transaction.block_height < last.blockHeight ||
+            (transaction.block_height === last.blockHeight && transaction.tx_index <= last.txIndex));
+
+        if (!alreadyRecorded) {
+          written += await this.ingestTransaction(wallet, transaction);
+        }
+      }
+
+      if (transactions.length < SYNC_PAGE_SIZE) {
+        return written;
+      }
+    }
+  }
+
+  private async ingestTransaction(wallet: VaultTreasuryWallet, tx: AddressTransaction): Promise<number> {
+    const address = wallet.treasury_address;
+    const [utxos, details] = await Promise.all([this.blockfrost.txsUtxos(tx.tx_hash), this.blockfrost.txs(tx.tx_hash)]);
+
+    // A failed script validation only consumes collateral (and returns the collateral output)
+    const failed = !details.valid_contract;
+    const inputs = utxos.inputs.filter(input => !input.reference && Boolean(input.collateral) === failed);
+    const outputs = utxos.outputs.filter(output => Boolean(output.collateral) === failed);
+
+    const deltas = new Map<string, bigint>();
+    const addAmounts = (amounts: UtxoAmount[], sign: bigint): void => {
+      for (const { unit, quantity } of amounts) {
+        deltas.set(unit, (deltas.get(unit) ?? 0n) + sign * BigInt(quantity));
+      }
+    };
+    inputs.filter(input => input.address === address).forEach(input => addAmounts(input.amount, -1n));
+    outputs.filter(output => output.address === address).forEach(output => addAmounts(output.amount, 1n));
+
+    // Split the network fee out of the ADA movement when the treasury paid it
+    let fee = 0n;
+    const lovelaceDelta = deltas.get(LOVELACE) ?? 0n;
+    if (failed) {
+      fee = lovelaceDelta < 0n ? -lovelaceDelta : 0n;
+    } else if (inputs.some(input => input.address === address)) {
+      fee = BigInt(details.fees);
+    }
+    deltas.set(LOVELACE, lovelaceDelta + fee);
+
+    const transaction = await this.transactionRepository.findOne({
+      where: { tx_hash: tx.tx_hash },
+      select: ['id', 'type', 'metadata'],
+    });
+
+    // Counterparty transactions spending our marketplace UTxOs settle a WayUp listing or offer
+    const settlement = transaction ? null : await this.findMarketplaceSettlement(wallet.vault_id, inputs);
+
+    const blockTime = new Date(tx.block_time * 1000);
+    const adaUsdPrice = await this.priceService.getHistoricalAdaPrice(blockTime);
+
+    const entries: Partial<TreasuryLedgerEntry>[] = [];
+    const addEntry = async (
+      unit: string,
+      delta: bigint,
+      category: TreasuryLedgerCategory,
+      metadata: Record<string, unknown> | null = null
+    ): Promise<void> => {
+      const quantity = delta < 0n ? -delta : delta;
+      const price = await this.getUnitPrice(unit, undefined, blockTime);
+      const adaValue = price.ada === null ? null : Number(quantity) * price.ada;
+
+      entries.push({
+        vaultId: wallet.vault_id,
+        address,
+        txHash: tx.tx_hash,
+        blockHeight: tx.block_height,
+        txIndex: tx.tx_index,
+        blockTime,
+        category,
+        direction: delta < 0n ? TreasuryLedgerDirection.OUTFLOW : TreasuryLedgerDirection.INFLOW,
+        unit,
+        quantity: quantity.toString(),
+        decimals: price.decimals,
+        adaValue,
+        usdValue: adaValue === null || adaUsdPrice === null ? null : adaValue * adaUsdPrice,
+        adaUsdPrice,
+        pricedAt: price.pricedAt,
+        transactionId: transaction?.id ?? null,
+        metadata,
+      });
+    };
+
+    if (fee > 0n) {
+      await addEntry(
+        LOVELACE,
+        -fee,
+        transaction ? TreasuryLedgerCategory.GOVERNANCE_FEE : TreasuryLedgerCategory.NETWORK_FEE
+      );
+    }
+
+    for (const [unit, delta] of deltas) {
+      if (delta === 0n) {
+        continue;
+      }
+
+      if (settlement && delta > 0n) {
+        await addEntry(unit, delta, settlement.category, { escrowUnits: settlement.escrowUnits });
+      } else {
+        await addEntry(unit, delta, this.categorize(transaction, delta > 0n));
+      }
+    }
+
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    // Concurrent syncs of the same wallet (several instances) write the same rows; the unique index drops repeats
+    const result = await this.ledgerRepository
+      .createQueryBuilder()
+      .insert()
+      .into(TreasuryLedgerEntry)
+      .values(entries)
+      .orIgnore()
+      .execute();
+
+    return result.raw.length;
+  }
+
+  private categorize(transaction: Transaction | null, inflow: boolean): TreasuryLedgerCategory {
+    switch (transaction?.type) {
+      case TransactionType.wayup:
+        return transaction.metadata?.operation === 'purchase'
+          ? TreasuryLedgerCategory.PURCHASE
+          : TreasuryLedgerCategory.MARKETPLACE_LISTING;
+      case TransactionType.swap:
+        return TreasuryLedgerCategory.SWAP;
+      case TransactionType.extractLp:
+        return TreasuryLedgerCategory.LP_WITHDRAWAL;
+      case TransactionType.distribution:
+      case TransactionType.distributeLp:
+        return TreasuryLedgerCategory.DISTRIBUTION;
+      case TransactionType.extract:
+      case TransactionType.extractDispatch:
+        return TreasuryLedgerCategory.EXTRACTION;
+      case TransactionType.treasuryStakeRegister:
+      case TransactionType.treasuryStakeDelegate:
+        return TreasuryLedgerCategory.STAKING;
+      case TransactionType.treasuryRewardWithdrawal:
+        return TreasuryLedgerCategory.STAKING_REWARD;
+      default:
+        return inflow ? TreasuryLedgerCategory.TRANSFER_IN : TreasuryLedgerCategory.TRANSFER_OUT;
+    }
+  }
+
+  /**
+   * Inputs created by our WayUp transactions are listing or offer UTxOs. Spending one with a NFT in it
+   * is a sale; spending an offer (ADA only) is a purchase.
+   */
+  private async findMarketplaceSettlement(
+    vaultId: string,
+    inputs: { tx_hash: string; amount: UtxoAmount[] }[]
+  ): Promise<{ category: TreasuryLedgerCategory; escrowUnits: TreasuryEscrowUnit[] } | null> {
+    const inputHashes = [...new Set(inputs.map(input => input.tx_hash))];
+    if (inputHashes.length === 0) {
+      return null;
+    }
+
+    const marketplaceTransactions = await this.transactionRepository.find({
+      where: { tx_hash: In(inputHashes), vault_id: vaultId, type: TransactionType.wayup },
+      select: ['tx_hash'],
+    });
+    if (marketplaceTransactions.length === 0) {
+      return null;
+    }
+
+    const marketplaceHashes = new Set(marketplaceTransactions.map(transaction => transaction.tx_hash));
+    const escrowed = new Map<string, bigint>();
+    for (const input of inputs.filter(item => marketplaceHashes.has(item.tx_hash))) {
+      for (const { unit, quantity } of input.amount) {
+        escrowed.set(unit, (escrowed.get(unit) ?? 0n) + BigInt(quantity));
+      }
+    }
+
+    const escrowUnits = [...escrowed].map(([unit, quantity]) => ({ unit, quantity: quantity.toString() }));
+
+    return {
+      category: escrowUnits.some(({ unit }) => unit !== LOVELACE)
+        ? TreasuryLedgerCategory.SALE
+        : TreasuryLedgerCategory.PURCHASE,
+      escrowUnits,
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { Body, Controller, Get, Param, ParseUUIDPipe, Post, Request, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+
+import {
+  AddTreasuryWitnessesReq,
+  EnableMultisigTreasuryReq,
+  MultisigTreasuryRes,
+  TreasuryPendingTransactionDto,
+} from './dto/treasury-multisig.dto';
+import { TreasuryMultisigService } from './treasury-multisig.service';
+
+import { AuthGuard } from '@/modules/auth/auth.guard';
+import { AuthRequest } from '@/modules/auth/dto/auth-user.interface';
+
+@ApiTags('Treasury')
+@Controller('vaults')
+export class TreasuryMultisigController {
+  constructor(private readonly treasuryMultisigService: TreasuryMultisigService) {}
+
+  @Post(':vaultId/treasury/multisig')
+  @UseGuards(AuthGuard)
+  @ApiOperation({
+    summary: 'Switch the treasury to a multisig script',
+    description:
+      'Vault owner only. Creates the native script elected by a passed proposal (platform key plus a threshold of ' +
+      'the owner and the elected holders) and sweeps the current treasury balance to the script address',
+  })
+  @ApiResponse({ status: 201, description: 'Multisig treasury enabled', type: MultisigTreasuryRes })
+  async enableMultisig(
+    @Request() req: AuthRequest,
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Body() body: EnableMultisigTreasuryReq
+  ): Promise<MultisigTreasuryRes> {
+    return this.treasuryMultisigService.enableMultisig(vaultId, req.user.sub, body.proposalId);
+  }
+
+  @Get(':vaultId/treasury/pending-transactions')
+  @UseGuards(AuthGuard)
+  @ApiOperation({ summary: 'Treasury transactions waiting for cosigner witnesses' })
+  @ApiResponse({ status: 200, type: [TreasuryPendingTransactionDto] })
+  async getPendingTransactions(
+    @Param('vaultId', ParseUUIDPipe) vaultId: string
+  ): Promise<TreasuryPendingTransactionDto[]> {
+    const pending = await this.treasuryMultisigService.getPendingTransactions(vaultId);
+
+    return plainToInstance(TreasuryPendingTransactionDto, pending, { excludeExtraneousValues: true });
+  }
+
+  @Post(':vaultId/treasury/pending-transactions/:id/witnesses')
+  @UseGuards(AuthGuard)
+  @ApiOperation({
+    summary: 'Add cosigner witnesses to a pending treasury transaction',
+    description: 'The transaction is submitted as soon as the number of valid signer witnesses reaches the threshold',
+  })
+  @ApiResponse({ status: 201, type: TreasuryPendingTransactionDto })
+  async addWitnesses(
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: AddTreasuryWitnessesReq
+  ): Promise<TreasuryPendingTransactionDto> {
+    const pending = await this.treasuryMultisigService.addWitnesses(vaultId, id, body.witnessSet);
+
+    return plainToInstance(TreasuryPendingTransactionDto, pending, { excludeExtraneousValues: true });
+  }
+}
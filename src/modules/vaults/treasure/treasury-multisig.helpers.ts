@@ -0,0 +1,111 @@
+import {
+  Address,
+  BaseAddress,
+  Credential,
+  Ed25519KeyHash,
+  NativeScript,
+  NativeScripts,
+  ScriptAll,
+  ScriptNOfK,
+  ScriptPubkey,
+} from '@emurgo/cardano-serialization-lib-nodejs';
+import { BadRequestException } from '@nestjs/common';
+
+import { TreasurySigner, TreasurySignerElection, TreasurySignerRole } from '@/types/treasury.types';
+
+export interface TreasuryMultisigScript {
+  signers: TreasurySigner[];
+  /** Witnesses a spend needs: the platform key plus the elected cosigner threshold */
+  requiredSignatures: number;
+  nativeScript: NativeScript;
+}
+
+export function getPaymentKeyHash(address: string): string {
+  let keyHash: Ed25519KeyHash | undefined;
+  try {
+    keyHash = Address.from_bech32(address).payment_cred()?.to_keyhash();
+  } catch {
+    throw new BadRequestException(`Invalid signer address ${address}`);
+  }
+
+  if (!keyHash) {
+    throw new BadRequestException(`Signer address ${address} does not have a payment key credential`);
+  }
+
+  return keyHash.to_hex();
+}
+
+/**
+ * Multisig script of a vault treasury: the platform key AND `cosignerThreshold` of the vault owner and the
+ * elected holders. The platform witness is part of every valid signature set, so neither the owner with keys
+ * it controls nor the platform alone can spend.
+ *
+ * @throws BadRequestException when the election does not describe a usable signer set
+ */
+export function buildTreasuryMultisigScript(
+  platformKeyHash: string,
+  ownerAddress: string,
+  election: TreasurySignerElection
+): TreasuryMultisigScript {
+  const holderAddresses = election.holderAddresses ?? [];
+
+  if (holderAddresses.length === 0) {
+    throw new BadRequestException('At least one elected holder signer is required');
+  }
+
+  const cosigners: TreasurySigner[] = [
+    { keyHash: getPaymentKeyHash(ownerAddress), role: TreasurySignerRole.OWNER, address: ownerAddress },
+  ];
+
+  for (const address of holderAddresses) {
+    const keyHash = getPaymentKeyHash(address);
+
+    if (keyHash === platformKeyHash || cosigners.some(signer => signer.keyHash === keyHash)) {
+      throw new BadRequestException(
+        `Holder signer ${address} duplicates the platform key, the owner or another holder`
+      );
+    }
+
+    cosigners.push({ keyHash, role: TreasurySignerRole.HOLDER, address });
+  }
+
+  const threshold = Number(election.cosignerThreshold);
+
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > cosigners.length) {
+    throw new BadRequestException(
+      `Cosigner threshold must be a whole number between 1 and ${cosigners.length} (owner and elected holders)`
+    );
+  }
+
+  const cosignerScripts = NativeScripts.new();
+  cosigners.forEach(signer => cosignerScripts.add(pubkeyScript(signer.keyHash)));
+
+  const scripts = NativeScripts.new();
+  scripts.add(pubkeyScript(platformKeyHash));
+  scripts.add(NativeScript.new_script_n_of_k(ScriptNOfK.new(threshold, cosignerScripts)));
+
+  return {
+    signers: [{ keyHash: platformKeyHash, role: TreasurySignerRole.PLATFORM }, ...cosigners],
+    requiredSignatures: threshold + 1,
+    nativeScript: NativeScript.new_script_all(ScriptAll.new(scripts)),
+  };
+}
+
+/**
+ * Script address of a multisig treasury, keeping the stake credential of the single-key treasury address
+ */
+export function getMultisigTreasuryAddress(
+  nativeScript: NativeScript,
+  singleKeyAddress: string,
+  isMainnet: boolean
+): string {
+  const stakeCredential = BaseAddress.from_address(Address.from_bech32(singleKeyAddress)).stake_cred();
+
+  return BaseAddress.new(isMainnet ? 1 : 0, Credential.from_scripthash(nativeScript.hash()), stakeCredential)
+    .to_address()
+    .to_bech32();
+}
+
+function pubkeyScript(keyHash: string): NativeScript {
+  return NativeScript.new_script_pubkey(ScriptPubkey.new(Ed25519KeyHash.from_hex(keyHash)));
+}
@@ -0,0 +1,506 @@
+import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
+import {
+  BigNum,
+  FixedTransaction,
+  NativeScript,
+  NativeScripts,
+  PrivateKey,
+  TransactionBody,
+  TransactionWitnessSet,
+} from '@emurgo/cardano-serialization-lib-nodejs';
+import { BadRequestException, ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+
+import { TreasuryWalletService } from './treasure-wallet.service';
+import { buildTreasuryMultisigScript, getMultisigTreasuryAddress } from './treasury-multisig.helpers';
+import { TreasurySweepService } from './treasury-sweep.service';
+
+import { Proposal } from '@/database/proposal.entity';
+import { TreasuryPendingTransaction } from '@/database/treasuryPendingTransaction.entity';
+import { Vault } from '@/database/vault.entity';
+import { VaultTreasuryWallet } from '@/database/vaultTreasuryWallet.entity';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
+import { TransactionsService } from '@/modules/vaults/processing-tx/offchain-tx/transactions.service';
+import { BlockchainService } from '@/modules/vaults/processing-tx/onchain/blockchain.service';
+import { ProposalStatus } from '@/types/proposal.types';
+import { TransactionStatus } from '@/types/transaction.types';
+import {
+  TreasuryPendingTransactionStatus,
+  TreasurySigner,
+  TreasurySweepAuthorizationType,
+  TreasuryWalletMode,
+} from '@/types/treasury.types';
+
+export interface TreasurySubmitResult {
+  txHash: string;
+  status: TransactionStatus.submitted | TransactionStatus.pending;
+  pendingTransactionId?: string;
+}
+
+/**
+ * Native multisig mode of the vault treasury.
+ *
+ * The platform treasury key is required by the script, so it always adds its witness when a spend is
+ * prepared. Until the owner and elected holder cosigners reach their threshold the transaction is parked as a
+ * TreasuryPendingTransaction and its inputs are reserved. Callers use `submitTreasuryTransaction` for
+ * every treasury spend; in single-key mode it signs and submits right away.
+ */
+@Injectable()
+export class TreasuryMultisigService {
+  private readonly logger = new Logger(TreasuryMultisigService.name);
+  private readonly blockfrost: BlockFrostAPI;
+  private readonly isMainnet: boolean;
+  private readonly multisigEnabled: boolean;
+
+  constructor(
+    @InjectRepository(VaultTreasuryWallet)
+    private readonly treasuryWalletRepository: Repository<VaultTreasuryWallet>,
+    @InjectRepository(TreasuryPendingTransaction)
+    private readonly pendingTransactionRepository: Repository<TreasuryPendingTransaction>,
+    @InjectRepository(Vault)
+    private readonly vaultRepository: Repository<Vault>,
+    @InjectRepository(Proposal)
+    private readonly proposalRepository: Repository<Proposal>,
+    private readonly configService: ConfigService,
+    private readonly treasuryWalletService: TreasuryWalletService,
+    private readonly treasurySweepService: TreasurySweepService,
+    private readonly transactionsService: TransactionsService,
+    private readonly blockchainService: BlockchainService,
+    private readonly eventEmitter: EventEmitter2
+  ) {
+    this.isMainnet = this.configService.get<string>('CARDANO_NETWORK') === 'mainnet';
+    this.multisigEnabled = this.configService.get<string>('TREASURY_MULTISIG_ENABLED') === 'true';
+    this.blockfrost = new BlockFrostAPI({
+      projectId: this.configService.get<string>('BLOCKFROST_API_KEY'),
+    });
+  }
+
+  /**
+   * Switches the vault treasury to the native multisig script elected by a passed proposal: the platform key
+   * plus `cosignerThreshold` of the vault owner and the elected holders. Funds held by the single-key address
+   * are swept to the script address first.
+   *
+   * Refused unless TREASURY_MULTISIG_ENABLED is set: DexHunter swaps, termination payouts, treasury staking and
+   * treasury sweeps still sign with the platform key alone and cannot spend from the script address yet.
+   */
+  async enableMultisig(
+    vaultId: string,
+    userId: string,
+    proposalId: string
+  ): Promise<{ address: string; requiredSignatures: number; signers: TreasurySigner[]; sweepTxHash: string | null }> {
+    const vault = await this.vaultRepository.findOne({
+      where: { id: vaultId },
+      relations: ['owner'],
+    });
+
+    if (!vault) {
+      throw new NotFoundException('Vault not found');
+    }
+
+    if (vault.owner?.id !== userId) {
+      throw new ForbiddenException('Only the vault owner can enable the multisig treasury');
+    }
+
+    if (!this.multisigEnabled) {
+      throw new BadRequestException(
+        'Multisig treasuries are not available yet: swaps, termination payouts, staking and sweeps cannot be cosigned'
+      );
+    }
+
+    const proposal = await this.proposalRepository.findOne({ where: { id: proposalId, vaultId } });
+
+    if (!proposal || ![ProposalStatus.PASSED, ProposalStatus.EXECUTED].includes(proposal.status)) {
+      throw new ForbiddenException('Treasury signers must be elected by a passed or executed proposal of the vault');
+    }
+
+    if (!proposal.metadata?.treasurySigners) {
+      throw new BadRequestException('Proposal does not elect treasury signers');
+    }
+
+    const wallet = await this.getActiveWallet(vaultId);
+
+    if (wallet.mode === TreasuryWalletMode.MULTISIG) {
+      throw new BadRequestException('Treasury wallet is already in multisig mode');
+    }
+
+    const { signers, requiredSignatures, nativeScript } = buildTreasuryMultisigScript(
+      wallet.public_key_hash,
+      vault.owner.address,
+      proposal.metadata.treasurySigners
+    );
+    const scriptAddress = getMultisigTreasuryAddress(nativeScript, wallet.treasury_address, this.isMainnet);
+
+    // Move funds before the record points at the script address, otherwise they would be stranded
+    const sweep = await this.treasurySweepService.sweep(
+      vaultId,
+      scriptAddress,
+      { type: TreasurySweepAuthorizationType.MULTISIG_MIGRATION, proposalId },
+      `user:${userId}`
+    );
+    const sweepTxHash = sweep.txHash;
+
+    if (sweepTxHash) {
+      const confirmed = await this.blockchainService.waitForTransactionConfirmation(sweepTxHash);
+      if (!confirmed) {
+        throw new Error(`Treasury sweep ${sweepTxHash} to the multisig address was not confirmed in time`);
+      }
+    }
+
+    await this.treasuryWalletRepository.update(
+      { id: wallet.id },
+      {
+        mode: TreasuryWalletMode.MULTISIG,
+        native_script: nativeScript.to_hex(),
+        signers,
+        required_signatures: requiredSignatures,
+        treasury_address: scriptAddress,
+        metadata: {
+          ...wallet.metadata,
+          singleKeyAddress: wallet.treasury_address,
+          multisigEnabledAt: new Date().toISOString(),
+          multisigSweepTxHash: sweepTxHash,
+          multisigProposalId: proposalId,
+        },
+      }
+    );
+
+    this.logger.log(
+      `Treasury of vault ${vaultId} switched to multisig (platform + ${requiredSignatures - 1} of ` +
+        `${signers.length - 1} cosigners): ${scriptAddress}`
+    );
+
+    return { address: scriptAddress, requiredSignatures, signers, sweepTxHash };
+  }
+
+  /**
+   * Signs an unsigned treasury transaction with the platform key and submits it. For multisig wallets
+   * the transaction is stored as pending instead, unless the platform witness alone meets the threshold.
+   *
+   * @param transactionId - Transaction row the spend belongs to; updated once the pending tx is submitted
+   */
+  async submitTreasuryTransaction(
+    vaultId: string,
+    txHex: string,
+    options: { purpose: string; transactionId?: string }
+  ): Promise<TreasurySubmitResult> {
+    const wallet = await this.getActiveWallet(vaultId);
+    const { privateKey, stakePrivateKey } = await this.treasuryWalletService.getTreasuryWalletPrivateKey(vaultId);
+
+    if (wallet.mode !== TreasuryWalletMode.MULTISIG) {
+      const txToSubmit = FixedTransaction.from_bytes(Buffer.from(txHex, 'hex'));
+      txToSubmit.sign_and_add_vkey_signature(privateKey);
+      txToSubmit.sign_and_add_vkey_signature(stakePrivateKey);
+
+      const { txHash } = await this.blockchainService.submitTransaction({
+        transaction: txToSubmit.to_hex(),
+      });
+
+      return { txHash, status: TransactionStatus.submitted };
+    }
+
+    const nativeScript = NativeScript.from_hex(wallet.native_script);
+    const tx = this.attachNativeScript(FixedTransaction.from_bytes(Buffer.from(txHex, 'hex')), nativeScript);
+    await this.coverWitnessFee(tx, wallet);
+    tx.sign_and_add_vkey_signature(privateKey);
+
+    const body = tx.body();
+    const inputs = body.inputs();
+    const spentInputs: string[] = [];
+    for (let i = 0; i < inputs.len(); i++) {
+      spentInputs.push(`${inputs.get(i).transaction_id().to_hex()}#${inputs.get(i).index()}`);
+    }
+
+    const pending = await this.pendingTransactionRepository.save(
+      this.pendingTransactionRepository.create({
+        vaultId,
+        transactionId: options.transactionId,
+        purpose: options.purpose,
+        status: TreasuryPendingTransactionStatus.COLLECTING,
+        txHash: tx.transaction_hash().to_hex(),
+        txCbor: tx.to_hex(),
+        requiredSignatures: wallet.required_signatures,
+        signedBy: [wallet.public_key_hash],
+        spentInputs,
+        expiresAt: await this.ttlToDate(body.ttl_bignum()),
+      })
+    );
+
+    this.logger.log(
+      `Treasury tx ${pending.txHash} (${options.purpose}) of vault ${vaultId} awaiting ` +
+        `${wallet.required_signatures - 1} cosigner witness(es)`
+    );
+
+    if (pending.signedBy.length >= pending.requiredSignatures) {
+      await this.submitPending(pending);
+      return { txHash: pending.txHash, status: TransactionStatus.submitted, pendingTransactionId: pending.id };
+    }
+
+    return { txHash: pending.txHash, status: TransactionStatus.pending, pendingTransactionId: pending.id };
+  }
+
+  /**
+   * Adds cosigner witnesses to a pending transaction. Every vkey witness must belong to a script signer
+   * and sign the transaction body; the transaction is submitted when the threshold is reached.
+   */
+  async addWitnesses(vaultId: string, pendingId: string, witnessSetHex: string): Promise<TreasuryPendingTransaction> {
+    const pending = await this.pendingTransactionRepository.findOne({
+      where: { id: pendingId, vaultId },
+    });
+
+    if (!pending) {
+      throw new NotFoundException('Pending treasury transaction not found');
+    }
+
+    if (pending.status !== TreasuryPendingTransactionStatus.COLLECTING) {
+      throw new BadRequestException(`Pending treasury transaction is ${pending.status}`);
+    }
+
+    if (pending.expiresAt && pending.expiresAt.getTime() <= Date.now()) {
+      await this.expire(pending);
+      throw new BadRequestException('Pending treasury transaction has expired');
+    }
+
+    const wallet = await this.getActiveWallet(vaultId);
+    const signerKeyHashes = new Set((wallet.signers ?? []).map(signer => signer.keyHash));
+
+    let witnessSet: TransactionWitnessSet;
+    try {
+      witnessSet = TransactionWitnessSet.from_hex(witnessSetHex);
+    } catch {
+      throw new BadRequestException('Invalid witness set CBOR');
+    }
+
+    const vkeys = witnessSet.vkeys();
+    if (!vkeys || vkeys.len() === 0) {
+      throw new BadRequestException('Witness set contains no vkey witnesses');
+    }
+
+    const tx = FixedTransaction.from_hex(pending.txCbor);
+    const txHashBytes = tx.transaction_hash().to_bytes();
+    const signedBy = new Set(pending.signedBy);
+
+    for (let i = 0; i < vkeys.len(); i++) {
+      const witness = vkeys.get(i);
+      const publicKey = witness.vkey().public_key();
+      const keyHash = publicKey.hash().to_hex();
+
+      if (!signerKeyHashes.has(keyHash)) {
+        throw new BadRequestException(`Key ${keyHash} is not a signer of this treasury`);
+      }
+
+      if (!publicKey.verify(txHashBytes, witness.signature())) {
+        throw new BadRequestException(`Witness of key ${keyHash} does not sign transaction ${pending.txHash}`);
+      }
+
+      if (!signedBy.has(keyHash)) {
+        tx.add_vkey_witness(witness);
+        signedBy.add(keyHash);
+      }
+    }
+
+    pending.txCbor = tx.to_hex();
+    pending.signedBy = [...signedBy];
+    await this.pendingTransactionRepository.save(pending);
+
+    if (pending.signedBy.length >= pending.requiredSignatures) {
+      await this.submitPending(pending);
+    }
+
+    return pending;
+  }
+
+  async getPendingTransactions(
+    vaultId: string,
+    statuses: TreasuryPendingTransactionStatus[] = [TreasuryPendingTransactionStatus.COLLECTING]
+  ): Promise<TreasuryPendingTransaction[]> {
+    return this.pendingTransactionRepository.find({
+      where: { vaultId, status: In(statuses) },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Inputs spent by transactions still collecting witnesses, as `txHash#index`.
+   * New treasury transactions must not select them.
+   */
+  async getReservedUtxoRefs(vaultId: string): Promise<string[]> {
+    const pending = await this.getPendingTransactions(vaultId);
+
+    return pending.flatMap(tx => tx.spentInputs);
+  }
+
+  async isMultisig(vaultId: string): Promise<boolean> {
+    const wallet = await this.treasuryWalletRepository.findOne({
+      where: { vault_id: vaultId, is_active: true },
+      select: ['id', 'mode'],
+    });
+
+    return wallet?.mode === TreasuryWalletMode.MULTISIG;
+  }
+
+  /**
+   * Releases reserved inputs of transactions whose validity interval passed before the threshold was reached
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  @CoordinatedJob('treasury-multisig-expiry')
+  async expirePendingTransactions(): Promise<void> {
+    const expired = await this.pendingTransactionRepository.find({
+      where: {
+        status: TreasuryPendingTransactionStatus.COLLECTING,
+        expiresAt: LessThan(new Date()),
+      },
+    });
+
+    for (const pending of expired) {
+      await this.expire(pending);
+    }
+  }
+
+  private async submitPending(pending: TreasuryPendingTransaction): Promise<void> {
+    try {
+      const { txHash } = await this.blockchainService.submitTransaction({
+        transaction: pending.txCbor,
+      });
+
+      pending.status = TreasuryPendingTransactionStatus.SUBMITTED;
+      pending.submittedAt = new Date();
+      await this.pendingTransactionRepository.save(pending);
+
+      if (pending.transactionId) {
+        await this.transactionsService.updateTransactionHash(pending.transactionId, txHash);
+      }
+
+      this.logger.log(`Multisig treasury tx ${txHash} (${pending.purpose}) of vault ${pending.vaultId} submitted`);
+
+      this.eventEmitter.emit('treasury.multisig.submitted', {
+        pendingTransactionId: pending.id,
+        vaultId: pending.vaultId,
+        transactionId: pending.transactionId,
+        purpose: pending.purpose,
+        txHash,
+      });
+    } catch (error) {
+      pending.status = TreasuryPendingTransactionStatus.FAILED;
+      pending.error = error.message;
+      await this.pendingTransactionRepository.save(pending);
+
+      if (pending.transactionId) {
+        await this.transactionsService.updateTransactionStatusById(pending.transactionId, TransactionStatus.failed);
+      }
+
+      this.eventEmitter.emit('treasury.multisig.failed', {
+        pendingTransactionId: pending.id,
+        vaultId: pending.vaultId,
+        transactionId: pending.transactionId,
+        purpose: pending.purpose,
+        error: error.message,
+      });
+
+      throw error;
+    }
+  }
+
+  private async expire(pending: TreasuryPendingTransaction): Promise<void> {
+    pending.status = TreasuryPendingTransactionStatus.EXPIRED;
+    await this.pendingTransactionRepository.save(pending);
+
+    if (pending.transactionId) {
+      await this.transactionsService.updateTransactionStatusById(pending.transactionId, TransactionStatus.failed);
+    }
+
+    this.logger.warn(
+      `Multisig treasury tx ${pending.txHash} (${pending.purpose}) of vault ${pending.vaultId} expired with ` +
+        `${pending.signedBy.length}/${pending.requiredSignatures} signatures`
+    );
+
+    this.eventEmitter.emit('treasury.multisig.expired', {
+      pendingTransactionId: pending.id,
+      vaultId: pending.vaultId,
+      transactionId: pending.transactionId,
+      purpose: pending.purpose,
+    });
+  }
+
+  private attachNativeScript(tx: FixedTransaction, nativeScript: NativeScript): FixedTransaction {
+    const witnessSet = tx.witness_set();
+    const scripts = witnessSet.native_scripts() ?? NativeScripts.new();
+    scripts.add(nativeScript);
+    witnessSet.set_native_scripts(scripts);
+    tx.set_witness_set(witnessSet.to_bytes());
+
+    return tx;
+  }
+
+  /**
+   * Builders size the fee for a single vkey witness. Raise it to cover the script and `m` witnesses,
+   * taking the difference from the change output back to the treasury.
+   */
+  private async coverWitnessFee(tx: FixedTransaction, wallet: VaultTreasuryWallet): Promise<void> {
+    const params = await this.blockfrost.epochsLatestParameters();
+
+    // Size the final transaction with throwaway witnesses of the same length as real ones
+    const draft = FixedTransaction.from_bytes(tx.to_bytes());
+    for (let i = 0; i < wallet.required_signatures; i++) {
+      draft.sign_and_add_vkey_signature(PrivateKey.generate_ed25519());
+    }
+
+    // Margin for the fee and change fields growing by a few bytes once re-encoded
+    const size = BigInt(draft.to_bytes().length + 16);
+    const requiredFee = BigInt(params.min_fee_a) * size + BigInt(params.min_fee_b);
+    const body = tx.body();
+    const currentFee = BigInt(body.fee().to_str());
+
+    if (requiredFee <= currentFee) {
+      return;
+    }
+
+    const bodyJson = JSON.parse(body.to_json());
+    const changeIndex = (bodyJson.outputs as Array<{ address: string }>)
+      .map(output => output.address)
+      .lastIndexOf(wallet.treasury_address);
+
+    if (changeIndex === -1) {
+      throw new Error('Multisig treasury transaction has no change output to take the witness fee from');
+    }
+
+    const extraFee = requiredFee - currentFee;
+    const changeOutput = body.outputs().get(changeIndex);
+    const changeCoin = BigInt(changeOutput.amount().coin().to_str());
+
+    if (changeCoin - extraFee < BigInt(1_000_000)) {
+      throw new Error('Treasury change output is too small to cover the multisig witness fee');
+    }
+
+    bodyJson.fee = requiredFee.toString();
+    bodyJson.outputs[changeIndex].amount.coin = (changeCoin - extraFee).toString();
+
+    tx.set_body(TransactionBody.from_json(JSON.stringify(bodyJson)).to_bytes());
+  }
+
+  private async ttlToDate(ttl: BigNum | undefined): Promise<Date | undefined> {
+    if (!ttl) {
+      return undefined;
+    }
+
+    const tip = await this.blockfrost.blocksLatest();
+    const secondsLeft = Number(ttl.to_str()) - tip.slot;
+
+    return new Date(tip.time * 1000 + secondsLeft * 1000);
+  }
+
+  private async getActiveWallet(vaultId: string): Promise<VaultTreasuryWallet> {
+    const wallet = await this.treasuryWalletRepository.findOne({
+      where: { vault_id: vaultId, is_active: true },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException(`Treasury wallet not found for vault ${vaultId}`);
+    }
+
+    return wallet;
+  }
+}
@@ -0,0 +1,239 @@
+import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
+import { Address, BaseAddress, FixedTransaction, RewardAddress } from '@emurgo/cardano-serialization-lib-nodejs';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { TreasuryWalletService } from './treasure-wallet.service';
+
+import { VaultTreasuryWallet } from '@/database/vaultTreasuryWallet.entity';
+import { TransactionsService } from '@/modules/vaults/processing-tx/offchain-tx/transactions.service';
+import { BlockchainService } from '@/modules/vaults/processing-tx/onchain/blockchain.service';
+import { getUtxosExtract } from '@/modules/vaults/processing-tx/onchain/utils/lib';
+import { TransactionStatus, TransactionType } from '@/types/transaction.types';
+import { TreasuryWalletMode } from '@/types/treasury.types';
+
+export interface TreasuryStakeAccount {
+  stakeAddress: string;
+  registered: boolean;
+  poolId: string | null;
+  withdrawableLovelace: bigint;
+}
+
+export interface TreasuryStakingStepResult {
+  type: TransactionType;
+  transactionId: string;
+  txHash: string;
+  lovelace?: string;
+}
+
+/**
+ * Stake-pool delegation of the vault treasury wallet.
+ *
+ * Every step (stake credential registration, reward withdrawal, delegation) is its own transaction,
+ * recorded as a Transaction row and awaited before the next one so the following step spends
+ * confirmed treasury UTxOs. Steps are derived from the on-chain account state, so re-running a
+ * partially executed delegation only submits what is still missing.
+ */
+@Injectable()
+export class TreasuryStakingService {
+  private readonly logger = new Logger(TreasuryStakingService.name);
+  private readonly blockfrost: BlockFrostAPI;
+  private readonly isMainnet: boolean;
+
+  constructor(
+    @InjectRepository(VaultTreasuryWallet)
+    private readonly treasuryWalletRepository: Repository<VaultTreasuryWallet>,
+    private readonly configService: ConfigService,
+    private readonly treasuryWalletService: TreasuryWalletService,
+    private readonly transactionsService: TransactionsService,
+    private readonly blockchainService: BlockchainService
+  ) {
+    this.isMainnet = this.configService.get<string>('CARDANO_NETWORK') === 'mainnet';
+    this.blockfrost = new BlockFrostAPI({
+      projectId: this.configService.get<string>('BLOCKFROST_API_KEY'),
+    });
+  }
+
+  /**
+   * Current stake account of the treasury wallet; an unregistered credential has no pool and no rewards
+   */
+  async getStakeAccount(vaultId: string): Promise<TreasuryStakeAccount> {
+    const wallet = await this.getActiveWallet(vaultId);
+    const stakeAddress = this.getStakeAddress(wallet.treasury_address);
+
+    try {
+      const account = await this.blockfrost.accounts(stakeAddress);
+
+      return {
+        stakeAddress,
+        registered: account.active,
+        poolId: account.active ? account.pool_id : null,
+        withdrawableLovelace: BigInt(account.withdrawable_amount),
+      };
+    } catch (error) {
+      if (error.status_code === 404 || error.message?.includes('not been found')) {
+        return { stakeAddress, registered: false, poolId: null, withdrawableLovelace: BigInt(0) };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Registers the treasury stake credential if needed, withdraws accrued rewards when requested and
+   * (re-)delegates to `poolId`. Steps that are already reflected on-chain are skipped.
+   */
+  async delegateTreasury(
+    vaultId: string,
+    options: { poolId: string; withdrawRewards: boolean; proposalId?: string }
+  ): Promise<{ previousPoolId: string | null; steps: TreasuryStakingStepResult[] }> {
+    const wallet = await this.getActiveWallet(vaultId);
+    const account = await this.getStakeAccount(vaultId);
+    const stakeKeyHash = this.getStakeKeyHash(wallet.treasury_address);
+    const steps: TreasuryStakingStepResult[] = [];
+
+    const baseMetadata = {
+      proposalId: options.proposalId,
+      stakeAddress: account.stakeAddress,
+      poolId: options.poolId,
+      previousPoolId: account.poolId,
+    };
+
+    if (!account.registered) {
+      steps.push(
+        await this.submitStep(wallet, TransactionType.treasuryStakeRegister, baseMetadata, {
+          deposits: [{ hash: stakeKeyHash, type: 'key', deposit: 'stake' }],
+        })
+      );
+    }
+
+    if (options.withdrawRewards && account.withdrawableLovelace > BigInt(0)) {
+      const lovelace = account.withdrawableLovelace.toString();
+
+      steps.push({
+        ...(await this.submitStep(
+          wallet,
+          TransactionType.treasuryRewardWithdrawal,
+          { ...baseMetadata, lovelace },
+          { withdrawals: [{ address: account.stakeAddress, lovelace }] },
+          account.withdrawableLovelace
+        )),
+        lovelace,
+      });
+    }
+
+    if (account.poolId !== options.poolId) {
+      steps.push(
+        await this.submitStep(wallet, TransactionType.treasuryStakeDelegate, baseMetadata, {
+          delegations: [{ hash: stakeKeyHash, type: 'key', poolId: options.poolId }],
+        })
+      );
+    } else {
+      this.logger.log(`Treasury of vault ${vaultId} is already delegated to ${options.poolId}`);
+    }
+
+    return { previousPoolId: account.poolId, steps };
+  }
+
+  /**
+   * Builds, signs and submits one staking transaction and waits for it to confirm
+   */
+  private async submitStep(
+    wallet: VaultTreasuryWallet,
+    type: TransactionType,
+    metadata: Record<string, unknown>,
+    certificateInput: Record<string, unknown>,
+    amount?: bigint
+  ): Promise<TreasuryStakingStepResult> {
+    const transaction = await this.transactionsService.createTransaction({
+      vault_id: wallet.vault_id,
+      type,
+      assets: [],
+      amount: amount !== undefined ? Number(amount) : undefined,
+      metadata,
+    });
+
+    try {
+      const { privateKey, stakePrivateKey } = await this.treasuryWalletService.getTreasuryWalletPrivateKey(
+        wallet.vault_id
+      );
+
+      const { utxos } = await getUtxosExtract(Address.from_bech32(wallet.treasury_address), this.blockfrost, {
+        validateUtxos: false,
+      });
+
+      if (utxos.length === 0) {
+        throw new Error('Treasury wallet has no UTxOs to pay the staking transaction');
+      }
+
+      const buildResponse = await this.blockchainService.buildTransaction({
+        changeAddress: wallet.treasury_address,
+        utxos,
+        message: `Treasury staking (${type}) for vault ${wallet.vault_id}`,
+        ...certificateInput,
+        requiredSigners: [privateKey.to_public().hash().to_hex(), stakePrivateKey.to_public().hash().to_hex()],
+        validityInterval: {
+          start: true,
+          end: true,
+        },
+        network: this.configService.get<string>('CARDANO_NETWORK'),
+      });
+
+      const txToSubmit = FixedTransaction.from_bytes(Buffer.from(buildResponse.complete, 'hex'));
+      txToSubmit.sign_and_add_vkey_signature(privateKey);
+      txToSubmit.sign_and_add_vkey_signature(stakePrivateKey);
+
+      const { txHash } = await this.blockchainService.submitTransaction({
+        transaction: txToSubmit.to_hex(),
+      });
+
+      await this.transactionsService.updateTransactionHash(transaction.id, txHash, {
+        ...metadata,
+        fee: txToSubmit.body().fee().to_str(),
+      });
+
+      this.logger.log(`Treasury staking ${type} for vault ${wallet.vault_id} submitted: ${txHash}`);
+
+      const confirmed = await this.blockchainService.waitForTransactionConfirmation(txHash);
+      if (!confirmed) {
+        throw new Error(`Treasury staking transaction ${txHash} (${type}) was not confirmed in time`);
+      }
+
+      await this.transactionsService.updateTransactionStatusById(transaction.id, TransactionStatus.confirmed);
+
+      return { type, transactionId: transaction.id, txHash };
+    } catch (error) {
+      await this.transactionsService.updateTransactionStatusById(transaction.id, TransactionStatus.failed);
+      throw error;
+    }
+  }
+
+  private async getActiveWallet(vaultId: string): Promise<VaultTreasuryWallet> {
+    const wallet = await this.treasuryWalletRepository.findOne({
+      where: { vault_id: vaultId, is_active: true },
+    });
+
+    if (!wallet) {
+      throw new Error(`Treasury wallet not found for vault ${vaultId}`);
+    }
+
+    if (wallet.mode === TreasuryWalletMode.MULTISIG) {
+      throw new Error(`Treasury of vault ${vaultId} is a multisig script; stake certificates need all cosigners`);
+    }
+
+    return wallet;
+  }
+
+  private getStakeAddress(treasuryAddress: string): string {
+    const baseAddress = BaseAddress.from_address(Address.from_bech32(treasuryAddress));
+
+    return RewardAddress.new(this.isMainnet ? 1 : 0, baseAddress.stake_cred())
+      .to_address()
+      .to_bech32();
+  }
+
+  private getStakeKeyHash(treasuryAddress: string): string {
+    return BaseAddress.from_address(Address.from_bech32(treasuryAddress)).stake_cred().to_keyhash().to_hex();
+  }
+}
@@ -0,0 +1,81 @@
+import { Body, Controller, Get, Param, ParseUUIDPipe, Post, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { plainToInstance } from 'class-transformer';
+
+import { RequestTreasurySweepReq, TreasurySweepDto } from './dto/treasury-sweep.dto';
+import { TreasurySweepService } from './treasury-sweep.service';
+
+import { AdminOperator } from '@/common/decorators/admin-operator.decorator';
+import { AdminGuard } from '@/modules/auth/admin.guard';
+
+@ApiTags('Admin - Treasury Sweeps')
+@Controller('admin/vaults')
+@UseGuards(AdminGuard)
+export class TreasurySweepController {
+  constructor(private readonly treasurySweepService: TreasurySweepService) {}
+
+  @Get(':vaultId/treasury/sweeps')
+  @ApiOperation({ summary: '[Admin] Treasury sweeps of a vault, newest first' })
+  @ApiResponse({ status: 200, type: [TreasurySweepDto] })
+  async getSweeps(@Param('vaultId', ParseUUIDPipe) vaultId: string): Promise<TreasurySweepDto[]> {
+    const sweeps = await this.treasurySweepService.getSweeps(vaultId);
+
+    return plainToInstance(TreasurySweepDto, sweeps, { excludeExtraneousValues: true });
+  }
+
+  @Post(':vaultId/treasury/sweeps')
+  @ApiOperation({
+    summary: '[Admin] Sweep the treasury to an allow-listed destination',
+    description:
+      'Executed right away when it stays below the confirmation threshold; otherwise returned as a prepared sweep ' +
+      'with a preview of the assets, to be confirmed by another admin within the confirmation window. ' +
+      'Requires a personal admin token.',
+  })
+  @ApiResponse({ status: 201, type: TreasurySweepDto })
+  @ApiResponse({ status: 403, description: 'Authorization invalid or destination not allowed' })
+  async requestSweep(
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Body() body: RequestTreasurySweepReq,
+    @AdminOperator() operator: string
+  ): Promise<TreasurySweepDto> {
+    const sweep = await this.treasurySweepService.sweep(
+      vaultId,
+      body.destinationAddress,
+      { type: body.authorizationType, proposalId: body.proposalId },
+      operator
+    );
+
+    return plainToInstance(TreasurySweepDto, sweep, { excludeExtraneousValues: true });
+  }
+
+  @Post(':vaultId/treasury/sweeps/:sweepId/confirm')
+  @ApiOperation({
+    summary: '[Admin] Execute a prepared treasury sweep',
+    description: 'Requires the personal admin token of an admin other than the one who requested the sweep',
+  })
+  @ApiResponse({ status: 201, type: TreasurySweepDto })
+  @ApiResponse({ status: 403, description: 'Shared service token, or confirmed by the requesting admin' })
+  @ApiResponse({ status: 409, description: 'Treasury changed since the preview, or sweep already confirmed' })
+  async confirmSweep(
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Param('sweepId', ParseUUIDPipe) sweepId: string,
+    @AdminOperator() operator: string
+  ): Promise<TreasurySweepDto> {
+    const sweep = await this.treasurySweepService.confirmSweep(vaultId, sweepId, operator);
+
+    return plainToInstance(TreasurySweepDto, sweep, { excludeExtraneousValues: true });
+  }
+
+  @Post(':vaultId/treasury/sweeps/:sweepId/cancel')
+  @ApiOperation({ summary: '[Admin] Cancel a prepared treasury sweep' })
+  @ApiResponse({ status: 201, type: TreasurySweepDto })
+  async cancelSweep(
+    @Param('vaultId', ParseUUIDPipe) vaultId: string,
+    @Param('sweepId', ParseUUIDPipe) sweepId: string,
+    @AdminOperator() operator: string
+  ): Promise<TreasurySweepDto> {
+    const sweep = await this.treasurySweepService.cancelSweep(vaultId, sweepId, operator);
+
+    return plainToInstance(TreasurySweepDto, sweep, { excludeExtraneousValues: true });
+  }
+}
@@ -0,0 +1,450 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, MoreThan, Repository } from 'typeorm';
+
+import { TreasuryWalletService } from './treasure-wallet.service';
+import { LOVELACE, LOVELACE_PER_ADA } from './treasury-ledger.helpers';
+import { TreasuryLedgerService } from './treasury-ledger.service';
+import { buildTreasuryMultisigScript, getMultisigTreasuryAddress } from './treasury-multisig.helpers';
+
+import { Proposal } from '@/database/proposal.entity';
+import { TreasurySweep } from '@/database/treasurySweep.entity';
+import { Vault } from '@/database/vault.entity';
+import { VaultTreasuryWallet } from '@/database/vaultTreasuryWallet.entity';
+import { AuditLogService } from '@/modules/audit-log/audit-log.service';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
+import { AuditLogAction, AuditLogOutcome } from '@/types/audit-log.types';
+import { ProposalStatus } from '@/types/proposal.types';
+import {
+  TreasurySweepAsset,
+  TreasurySweepAuthorization,
+  TreasurySweepAuthorizationType,
+  TreasurySweepDestinationKind,
+  TreasurySweepStatus,
+} from '@/types/treasury.types';
+
+const CONFIRMATION_WINDOW_MS = 60 * 60 * 1000;
+const DEFAULT_CONFIRMATION_THRESHOLD_ADA = 500;
+
+// Termination status of the final treasury cleanup step (TerminationStatus.VAULT_BURNED)
+const TERMINATION_CLEANUP_STATUS = 'vault_burned';
+
+// Destinations that keep the funds under the vault's own control never need confirmation
+const INTERNAL_DESTINATIONS = [
+  TreasurySweepDestinationKind.VAULT_CONTRACT,
+  TreasurySweepDestinationKind.MULTISIG_TREASURY,
+];
+
+/**
+ * Policy layer in front of treasury sweeps.
+ *
+ * A sweep needs an authorization (a passed proposal, the termination cleanup step or the owner's multisig switch)
+ * and a destination on the allow-list for that authorization. Sweeps leaving the vault's control and worth more
+ * than TREASURY_SWEEP_CONFIRMATION_THRESHOLD_ADA, or holding assets without a price, are only prepared, with a
+ * preview of the assets, and are executed once a second admin confirms them within the confirmation window.
+ */
+@Injectable()
+export class TreasurySweepService {
+  private readonly logger = new Logger(TreasurySweepService.name);
+  private readonly isMainnet: boolean;
+  private readonly adminAddress: string;
+  private readonly confirmationThresholdAda: number;
+
+  private readonly BURN_WALLET_TESTNET =
+    'addr_test1qzdv6pn0ltar7q3hhgrgts2yqvphxtptr4m3t4xf5lfyx7hc3v9amrnu0cp6zt3vkry03838n2mv9e69g8e70aqktgcsnvkule';
+  private readonly BURN_WALLET_MAINNET =
+    'addr1qxnk9w6e3azattu87ythnnjt2vmtlskzcld0ptwa924j0znz7v4zyqfqapmueh24l2r8v848mya68nndvjy783m656kq0cxjsn';
+
+  constructor(
+    @InjectRepository(TreasurySweep)
+    private readonly sweepRepository: Repository<TreasurySweep>,
+    @InjectRepository(Vault)
+    private readonly vaultRepository: Repository<Vault>,
+    @InjectRepository(Proposal)
+    private readonly proposalRepository: Repository<Proposal>,
+    @InjectRepository(VaultTreasuryWallet)
+    private readonly treasuryWalletRepository: Repository<VaultTreasuryWallet>,
+    private readonly configService: ConfigService,
+    private readonly treasuryWalletService: TreasuryWalletService,
+    private readonly treasuryLedgerService: TreasuryLedgerService,
+    private readonly auditLogService: AuditLogService
+  ) {
+    this.isMainnet = this.configService.get<string>('CARDANO_NETWORK') === 'mainnet';
+    this.adminAddress = this.configService.get<string>('ADMIN_ADDRESS');
+    this.confirmationThresholdAda = Number(
+      this.configService.get<string>('TREASURY_SWEEP_CONFIRMATION_THRESHOLD_ADA') ?? DEFAULT_CONFIRMATION_THRESHOLD_ADA
+    );
+  }
+
+  /**
+   * Sweeps the treasury right away when no confirmation is needed; otherwise returns the PREPARED sweep.
+   * Repeated calls with the same destination and authorization return the sweep still waiting for confirmation.
+   */
+  async sweep(
+    vaultId: string,
+    destinationAddress: string,
+    authorization: TreasurySweepAuthorization,
+    requestedBy = 'system'
+  ): Promise<TreasurySweep> {
+    const pending = await this.sweepRepository.findOne({
+      where: {
+        vaultId,
+        destinationAddress,
+        authorizationType: authorization.type,
+        proposalId: authorization.proposalId ?? IsNull(),
+        status: TreasurySweepStatus.PREPARED,
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+
+    if (pending) {
+      return pending;
+    }
+
+    const sweep = await this.prepareSweep(vaultId, destinationAddress, authorization, requestedBy);
+
+    if (sweep.requiresConfirmation) {
+      this.logger.log(
+        `Treasury sweep ${sweep.id} of vault ${vaultId} (${sweep.valueAda.toFixed(2)} ADA) is waiting for confirmation`
+      );
+      return sweep;
+    }
+
+    return this.executeSweep(sweep, requestedBy);
+  }
+
+  /**
+   * Checks the policy and records a preview of what would be swept
+   */
+  async prepareSweep(
+    vaultId: string,
+    destinationAddress: string,
+    authorization: TreasurySweepAuthorization,
+    requestedBy: string
+  ): Promise<TreasurySweep> {
+    let destinationKind: TreasurySweepDestinationKind;
+
+    try {
+      destinationKind = await this.checkPolicy(vaultId, destinationAddress, authorization);
+    } catch (error) {
+      await this.auditLogService.tryLog({
+        action: AuditLogAction.TREASURY_SWEEP_PREPARED,
+        vaultId,
+        userId: requestedBy,
+        outcome: AuditLogOutcome.FAILURE,
+        details: { destinationAddress, authorization, error: error.message },
+      });
+      throw error;
+    }
+
+    const preview = await this.getPreview(vaultId);
+
+    const sweep = await this.sweepRepository.save(
+      this.sweepRepository.create({
+        vaultId,
+        status: TreasurySweepStatus.PREPARED,
+        destinationAddress,
+        destinationKind,
+        authorizationType: authorization.type,
+        proposalId: authorization.proposalId ?? null,
+        lovelace: preview.lovelace,
+        assets: preview.assets,
+        valueAda: preview.valueAda,
+        // Unpriced assets may be worth anything, so they count as above the threshold
+        requiresConfirmation:
+          !INTERNAL_DESTINATIONS.includes(destinationKind) &&
+          (preview.valueAda >= this.confirmationThresholdAda || preview.assets.some(asset => asset.valueAda === null)),
+        requestedBy,
+        expiresAt: new Date(Date.now() + CONFIRMATION_WINDOW_MS),
+      })
+    );
+
+    await this.auditLogService.log({
+      action: AuditLogAction.TREASURY_SWEEP_PREPARED,
+      vaultId,
+      userId: requestedBy,
+      details: {
+        sweepId: sweep.id,
+        destinationAddress,
+        destinationKind,
+        authorization,
+        valueAda: sweep.valueAda,
+        requiresConfirmation: sweep.requiresConfirmation,
+      },
+    });
+
+    return sweep;
+  }
+
+  /**
+   * Executes a prepared sweep. It must be confirmed by someone other than its requester. The policy is checked
+   * again (a proposal may have been vetoed since), and the treasury must not hold anything beyond the preview,
+   * so the confirmed preview is what actually moves.
+   */
+  async confirmSweep(vaultId: string, sweepId: string, confirmedBy: string): Promise<TreasurySweep> {
+    const sweep = await this.getPreparedSweep(vaultId, sweepId);
+
+    if (confirmedBy === sweep.requestedBy) {
+      throw new ForbiddenException('A treasury sweep must be confirmed by a different admin than its requester');
+    }
+
+    await this.checkPolicy(vaultId, sweep.destinationAddress, {
+      type: sweep.authorizationType,
+      proposalId: sweep.proposalId ?? undefined,
+    });
+
+    const current = await this.getPreview(vaultId);
+    const previewed = new Map(sweep.assets.map(asset => [asset.unit, BigInt(asset.quantity)]));
+    previewed.set(LOVELACE, BigInt(sweep.lovelace));
+
+    const grown = [{ unit: LOVELACE, quantity: current.lovelace }, ...current.assets].filter(
+      ({ unit, quantity }) => BigInt(quantity) > (previewed.get(unit) ?? 0n)
+    );
+
+    if (grown.length > 0) {
+      throw new ConflictException(
+        `Treasury holds more than the sweep preview (${grown.map(({ unit }) => unit).join(', ')}); prepare a new sweep`
+      );
+    }
+
+    return this.executeSweep(sweep, confirmedBy);
+  }
+
+  async cancelSweep(vaultId: string, sweepId: string, cancelledBy: string): Promise<TreasurySweep> {
+    const sweep = await this.getPreparedSweep(vaultId, sweepId);
+
+    sweep.status = TreasurySweepStatus.CANCELLED;
+    await this.sweepRepository.update({ id: sweep.id }, { status: sweep.status });
+
+    await this.auditLogService.tryLog({
+      action: AuditLogAction.TREASURY_SWEEP_CANCELLED,
+      vaultId,
+      userId: cancelledBy,
+      details: { sweepId },
+    });
+
+    return sweep;
+  }
+
+  async getSweep(vaultId: string, sweepId: string): Promise<TreasurySweep | null> {
+    return this.sweepRepository.findOne({ where: { id: sweepId, vaultId } });
+  }
+
+  async getSweeps(vaultId: string): Promise<TreasurySweep[]> {
+    return this.sweepRepository.find({
+      where: { vaultId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  @CoordinatedJob('treasury-sweep-expiry')
+  async expireSweeps(): Promise<void> {
+    const result = await this.sweepRepository.update(
+      { status: TreasurySweepStatus.PREPARED, expiresAt: LessThan(new Date()) },
+      { status: TreasurySweepStatus.EXPIRED }
+    );
+
+    if (result.affected) {
+      this.logger.log(`Expired ${result.affected} unconfirmed treasury sweeps`);
+    }
+  }
+
+  private async executeSweep(sweep: TreasurySweep, confirmedBy: string): Promise<TreasurySweep> {
+    // Conditional update so two confirmations of the same sweep cannot both execute it
+    const claimed = await this.sweepRepository.update(
+      { id: sweep.id, status: TreasurySweepStatus.PREPARED },
+      { status: TreasurySweepStatus.CONFIRMED, confirmedBy, confirmedAt: new Date() }
+    );
+
+    if (!claimed.affected) {
+      throw new ConflictException(`Treasury sweep ${sweep.id} is no longer waiting for confirmation`);
+    }
+
+    const confirmed = await this.sweepRepository.findOneByOrFail({ id: sweep.id });
+
+    try {
+      const txHash = await this.treasuryWalletService.sweepTreasuryWallet(confirmed);
+
+      confirmed.status = txHash ? TreasurySweepStatus.SUBMITTED : TreasurySweepStatus.SKIPPED;
+      confirmed.txHash = txHash ?? null;
+    } catch (error) {
+      confirmed.status = TreasurySweepStatus.FAILED;
+      confirmed.error = error.message;
+      await this.sweepRepository.update({ id: confirmed.id }, { status: confirmed.status, error: confirmed.error });
+      throw error;
+    }
+
+    await this.sweepRepository.update({ id: confirmed.id }, { status: confirmed.status, txHash: confirmed.txHash });
+
+    return confirmed;
+  }
+
+  private async getPreparedSweep(vaultId: string, sweepId: string): Promise<TreasurySweep> {
+    const sweep = await this.sweepRepository.findOne({ where: { id: sweepId, vaultId } });
+
+    if (!sweep) {
+      throw new NotFoundException(`Treasury sweep ${sweepId} not found for vault ${vaultId}`);
+    }
+
+    if (sweep.status === TreasurySweepStatus.PREPARED && sweep.expiresAt < new Date()) {
+      await this.sweepRepository.update({ id: sweep.id }, { status: TreasurySweepStatus.EXPIRED });
+      throw new BadRequestException(`Treasury sweep ${sweepId} expired; prepare a new sweep`);
+    }
+
+    if (sweep.status !== TreasurySweepStatus.PREPARED) {
+      throw new BadRequestException(`Treasury sweep ${sweepId} is ${sweep.status}`);
+    }
+
+    return sweep;
+  }
+
+  /**
+   * Resolves the destination against the allow-list of the authorization
+   * @throws ForbiddenException when the authorization is not valid or does not allow the destination
+   */
+  private async checkPolicy(
+    vaultId: string,
+    destinationAddress: string,
+    authorization: TreasurySweepAuthorization
+  ): Promise<TreasurySweepDestinationKind> {
+    const vault = await this.vaultRepository.findOne({
+      where: { id: vaultId },
+      select: ['id', 'contract_address', 'termination_metadata'],
+    });
+
+    if (!vault) {
+      throw new NotFoundException(`Vault ${vaultId} not found`);
+    }
+
+    let approvedDestinations: string[] = [];
+
+    switch (authorization.type) {
+      case TreasurySweepAuthorizationType.PROPOSAL: {
+        const proposal = authorization.proposalId
+          ? await this.proposalRepository.findOne({ where: { id: authorization.proposalId, vaultId } })
+          : null;
+
+        if (!proposal || ![ProposalStatus.PASSED, ProposalStatus.EXECUTED].includes(proposal.status)) {
+          throw new ForbiddenException('Treasury sweeps need a passed or executed proposal of the vault');
+        }
+
+        approvedDestinations = proposal.metadata?.treasurySweepDestinations ?? [];
+        break;
+      }
+
+      case TreasurySweepAuthorizationType.TERMINATION: {
+        const termination = vault.termination_metadata;
+
+        if (
+          !termination ||
+          termination.proposalId !== authorization.proposalId ||
+          termination.status !== TERMINATION_CLEANUP_STATUS
+        ) {
+          throw new ForbiddenException('Termination sweeps are only allowed in the treasury cleanup step');
+        }
+
+        if (destinationAddress === this.adminAddress) {
+          return TreasurySweepDestinationKind.PLATFORM_ADMIN;
+        }
+        break;
+      }
+
+      case TreasurySweepAuthorizationType.MULTISIG_MIGRATION:
+        if (await this.isMultisigSuccessor(vaultId, destinationAddress, authorization.proposalId)) {
+          return TreasurySweepDestinationKind.MULTISIG_TREASURY;
+        }
+        break;
+    }
+
+    if (vault.contract_address && destinationAddress === vault.contract_address) {
+      return TreasurySweepDestinationKind.VAULT_CONTRACT;
+    }
+
+    if (destinationAddress === (this.isMainnet ? this.BURN_WALLET_MAINNET : this.BURN_WALLET_TESTNET)) {
+      return TreasurySweepDestinationKind.BURN_WALLET;
+    }
+
+    if (approvedDestinations.includes(destinationAddress)) {
+      return TreasurySweepDestinationKind.GOVERNANCE_APPROVED;
+    }
+
+    throw new ForbiddenException(
+      `${destinationAddress} is not an allowed destination for a ${authorization.type} sweep`
+    );
+  }
+
+  /**
+   * Exactly the script address elected by the proposal: the platform key, the vault owner and the elected holders
+   * with the elected threshold, keeping the stake credential of the current single-key treasury
+   */
+  private async isMultisigSuccessor(
+    vaultId: string,
+    destinationAddress: string,
+    proposalId: string | undefined
+  ): Promise<boolean> {
+    const proposal = proposalId ? await this.proposalRepository.findOne({ where: { id: proposalId, vaultId } }) : null;
+
+    if (
+      !proposal?.metadata?.treasurySigners ||
+      ![ProposalStatus.PASSED, ProposalStatus.EXECUTED].includes(proposal.status)
+    ) {
+      return false;
+    }
+
+    const [vault, wallet] = await Promise.all([
+      this.vaultRepository.findOne({ where: { id: vaultId }, relations: ['owner'] }),
+      this.treasuryWalletRepository.findOne({
+        where: { vault_id: vaultId, is_active: true },
+        select: ['id', 'treasury_address', 'public_key_hash'],
+      }),
+    ]);
+
+    if (!vault?.owner?.address || !wallet) {
+      return false;
+    }
+
+    try {
+      const { nativeScript } = buildTreasuryMultisigScript(
+        wallet.public_key_hash,
+        vault.owner.address,
+        proposal.metadata.treasurySigners
+      );
+
+      return destinationAddress === getMultisigTreasuryAddress(nativeScript, wallet.treasury_address, this.isMainnet);
+    } catch {
+      return false;
+    }
+  }
+
+  private async getPreview(
+    vaultId: string
+  ): Promise<{ lovelace: string; assets: TreasurySweepAsset[]; valueAda: number }> {
+    const balance = await this.treasuryWalletService.getTreasuryWalletBalance(vaultId);
+
+    const assets: TreasurySweepAsset[] = [];
+    for (const asset of balance.assets) {
+      const price = await this.treasuryLedgerService.getUnitPrice(asset.unit);
+      assets.push({
+        unit: asset.unit,
+        quantity: asset.quantity,
+        valueAda: price.ada === null ? null : Number(asset.quantity) * price.ada,
+      });
+    }
+
+    return {
+      lovelace: balance.lovelace.toString(),
+      assets,
+      valueAda: balance.lovelace / LOVELACE_PER_ADA + assets.reduce((total, asset) => total + (asset.valueAda ?? 0), 0),
+    };
+  }
+}
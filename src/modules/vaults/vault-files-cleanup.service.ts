@@ -8,6 +8,7 @@ import { GoogleCloudStorageService } from '../google_cloud/google_bucket/bucket.
 import { Asset } from '@/database/asset.entity';
 import { FileEntity } from '@/database/file.entity';
 import { Vault } from '@/database/vault.entity';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
 
 const DEACTIVATED_THRESHOLD_DAYS = 7;
 const ASSET_IMAGES_FOLDER = 'asset-images';
@@ -27,6 +28,7 @@ export class VaultFilesCleanupService {
   ) {}
 
   @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  @CoordinatedJob('vault-files-cleanup')
   async cleanupInactiveVaultFiles(): Promise<void> {
     this.logger.log('Starting vault files cleanup for deactivated vaults');
 
@@ -7,6 +7,7 @@ import { Transaction } from '@/database/transaction.entity';
 import { Vault } from '@/database/vault.entity';
 import { ClaimsService } from '@/modules/vaults/claims/claims.service';
 import { PaginatedResponseDto } from '@/modules/vaults/dto/paginated-response.dto';
+import { VaultStateMachineService } from '@/modules/vaults/phase-management/state-machine/vault-state-machine.service';
 import { VaultManagingService } from '@/modules/vaults/processing-tx/onchain/vault-managing.service';
 import { AssetStatus } from '@/types/asset.types';
 import { TransactionStatus, TransactionType } from '@/types/transaction.types';
@@ -27,7 +28,8 @@ export class VaultsAdminService {
     @InjectRepository(Transaction)
     private readonly transactionRepository: Repository<Transaction>,
     private readonly vaultContractService: VaultManagingService,
-    private readonly claimsService: ClaimsService
+    private readonly claimsService: ClaimsService,
+    private readonly vaultStateMachineService: VaultStateMachineService
   ) {}
 
   async getVaultToCancelByAdmin(
@@ -114,6 +116,15 @@ export class VaultsAdminService {
     const hasRefundableFlows = contribCount > 0 || acquireCount > 0;
 
     if (hasRefundableFlows) {
+      this.vaultStateMachineService.assertCanTransition(
+        vault,
+        VaultStatus.failed,
+        {},
+        {
+          failure_reason: VaultFailureReason.MANUAL_CANCELLATION,
+        }
+      );
+
       const response = await this.vaultContractService.updateVaultMetadataTx({
         vault,
         vaultStatus: SmartContractVaultStatus.CANCELLED,
@@ -121,13 +132,18 @@ export class VaultsAdminService {
 
       await this.claimsService.createCancellationClaims(vault, 'manual_admin_cancel');
 
-      vault.vault_status = VaultStatus.failed;
-      vault.vault_sc_status = SmartContractVaultStatus.CANCELLED;
-      vault.last_update_tx_hash = response.txHash;
-      vault.failure_reason = VaultFailureReason.MANUAL_CANCELLATION;
-      vault.failure_details = { message: 'Cancelled by admin' };
-      vault.deactivated_at = new Date();
-      await this.vaultsRepository.save(vault);
+      await this.vaultStateMachineService.transition(
+        vault.id,
+        VaultStatus.failed,
+        { reason: VaultFailureReason.MANUAL_CANCELLATION, actor: 'admin', txHash: response.txHash },
+        {
+          vault_sc_status: SmartContractVaultStatus.CANCELLED,
+          last_update_tx_hash: response.txHash,
+          failure_reason: VaultFailureReason.MANUAL_CANCELLATION,
+          failure_details: { message: 'Cancelled by admin' },
+          deactivated_at: new Date(),
+        }
+      );
 
       return { success: true };
     }
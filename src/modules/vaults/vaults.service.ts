@@ -28,6 +28,7 @@ import {
 } from './dto/vault-activity.dto';
 import { VaultAcquireResponse, VaultFullResponse, VaultShortResponse } from './dto/vault.response';
 import { GovernanceService } from './phase-management/governance/governance.service';
+import { VaultStateMachineService } from './phase-management/state-machine/vault-state-machine.service';
 import { TransactionsService } from './processing-tx/offchain-tx/transactions.service';
 import { BlockchainService } from './processing-tx/onchain/blockchain.service';
 import { EvmVaultSignerService } from './processing-tx/onchain/evm-vault-signer.service';
@@ -68,6 +69,7 @@ import {
   SmartContractVaultStatus,
   ChainType,
 } from '@/types/vault.types';
+import { VoteCountingStrategy } from '@/types/vote.types';
 
 /**
  * VaultsService
@@ -200,7 +202,8 @@ export class VaultsService {
     private readonly wayUpPricingService: WayUpPricingService,
     private readonly dexHunterService: DexHunterService,
     private readonly claimsService: ClaimsService,
-    private readonly evmVaultSignerService: EvmVaultSignerService
+    private readonly evmVaultSignerService: EvmVaultSignerService,
+    private readonly vaultStateMachineService: VaultStateMachineService
   ) {
     this.scVersion = this.configService.get<string>('SC_VERSION') || '1.0.0'; // Current SC version
     this.isMainnet = this.configService.get<string>('CARDANO_NETWORK') === 'mainnet';
@@ -322,6 +325,17 @@ export class VaultsService {
         throw new BadRequestException('Private and semi-private vaults can use either LBE or fixed valuation type');
       }
 
+      // Validate vote counting strategy against privacy setting
+      if (
+        data.voteCountingStrategy === VoteCountingStrategy.ONE_ADDRESS_ONE_VOTE &&
+        data.privacy !== VaultPrivacy.semiPrivate
+      ) {
+        throw new BadRequestException('One-address-one-vote counting is only available for semi-private vaults');
+      }
+      if (data.voteCountingStrategy !== VoteCountingStrategy.CAPPED && data.voteCountingCapPercent) {
+        throw new BadRequestException('Vote counting cap can only be set for the capped strategy');
+      }
+
       // Validate required fields for fixed valuation type
       if (data.valueMethod === ValueMethod.fixed) {
         if (!data.valuationCurrency) {
@@ -802,7 +816,10 @@ export class VaultsService {
       // tables — reverting to draft is simpler and keeps all related data intact.
       if (newVault?.id) {
         try {
-          await this.vaultsRepository.update({ id: newVault.id }, { vault_status: VaultStatus.draft });
+          await this.vaultStateMachineService.transition(newVault.id, VaultStatus.draft, {
+            reason: 'vault_creation_failed',
+            actor: `user:${userId}`,
+          });
           this.logger.log(`Reverted vault ${newVault.id} to draft status after creation failure`);
         } catch (cleanupError) {
           this.logger.error(`Failed to revert vault ${newVault.id} to draft:`, cleanupError);
@@ -863,14 +880,23 @@ export class VaultsService {
       throw new UnauthorizedException('You must be an owner of vault!');
     }
 
+    this.vaultStateMachineService.assertCanTransition(vault, VaultStatus.published);
+
     const publishedTx = await this.vaultContractService.submitOnChainVaultTx(signedTx, vault, userId);
 
-    vault.contract_address = getAddressFromHash(vault.script_hash, this.blockchainService.getNetworkId());
-    vault.vault_status = VaultStatus.published;
-    vault.publication_hash = publishedTx.txHash;
-    vault.last_update_tx_hash = publishedTx.txHash;
-    vault.sc_version = this.scVersion;
-    await this.vaultsRepository.save(vault);
+    const publication = {
+      contract_address: getAddressFromHash(vault.script_hash, this.blockchainService.getNetworkId()),
+      publication_hash: publishedTx.txHash,
+      last_update_tx_hash: publishedTx.txHash,
+      sc_version: this.scVersion,
+    };
+    await this.vaultStateMachineService.transition(
+      vault.id,
+      VaultStatus.published,
+      { reason: 'vault_published', actor: `user:${userId}`, txHash: publishedTx.txHash },
+      publication
+    );
+    Object.assign(vault, publication, { vault_status: VaultStatus.published });
 
     await this.usersRepository.increment({ id: vault.owner.id }, 'total_vaults', 1);
 
@@ -2005,17 +2031,19 @@ export class VaultsService {
         throw new UnauthorizedException('Vault is not found or you are not the owner of this vault');
       }
 
+      this.vaultStateMachineService.assertCanTransition(vault, VaultStatus.burned);
+
       const { txHash } = await this.blockchainService.submitTransaction({
         transaction: publishDto.transaction,
         signatures: publishDto.signatures,
       });
 
-      vault.deleted = true;
-      vault.liquidation_hash = txHash;
-      vault.vault_status = VaultStatus.burned;
-      vault.deactivated_at = new Date();
-
-      await this.vaultsRepository.update({ id: vault.id }, { ...vault });
+      await this.vaultStateMachineService.transition(
+        vault.id,
+        VaultStatus.burned,
+        { reason: 'burned_by_owner', actor: `user:${userId}`, txHash },
+        { deleted: true, liquidation_hash: txHash, deactivated_at: new Date() }
+      );
       await this.transactionsService.updateTransactionHash(publishDto.txId, txHash);
 
       this.logger.log(`Vault ${vaultId} successfully marked as burned`);
@@ -2200,8 +2228,21 @@ export class VaultsService {
     if (shouldFetchTransactions) {
       const transactionTypes: TransactionType[] = [];
 
+      const treasuryStakingTypes = [
+        TransactionType.treasuryStakeRegister,
+        TransactionType.treasuryStakeDelegate,
+        TransactionType.treasuryRewardWithdrawal,
+      ];
+
       if (filter === VaultActivityFilter.ALL) {
-        transactionTypes.push(TransactionType.createVault, TransactionType.contribute, TransactionType.acquire);
+        transactionTypes.push(
+          TransactionType.createVault,
+          TransactionType.contribute,
+          TransactionType.acquire,
+          ...treasuryStakingTypes
+        );
+      } else if (filter === VaultActivityFilter.STAKING) {
+        transactionTypes.push(...treasuryStakingTypes);
       } else if (filter === VaultActivityFilter.CONTRIBUTE) {
         transactionTypes.push(TransactionType.contribute);
       } else if (filter === VaultActivityFilter.ACQUIRE) {
@@ -2472,6 +2513,15 @@ export class VaultsService {
     const hasRefundableFlows = contribCount > 0 || acquireCount > 0;
 
     if (hasRefundableFlows) {
+      this.vaultStateMachineService.assertCanTransition(
+        vault,
+        VaultStatus.failed,
+        {},
+        {
+          failure_reason: VaultFailureReason.MANUAL_CANCELLATION,
+        }
+      );
+
       const response = await this.vaultContractService.updateVaultMetadataTx({
         vault,
         vaultStatus: SmartContractVaultStatus.CANCELLED,
@@ -2479,13 +2529,18 @@ export class VaultsService {
 
       await this.claimsService.createCancellationClaims(vault, 'manual_owner_cancel');
 
-      vault.vault_status = VaultStatus.failed;
-      vault.vault_sc_status = SmartContractVaultStatus.CANCELLED;
-      vault.last_update_tx_hash = response.txHash;
-      vault.failure_reason = VaultFailureReason.MANUAL_CANCELLATION;
-      vault.failure_details = { message: 'Cancelled by owner' };
-      vault.deactivated_at = new Date();
-      await this.vaultsRepository.save(vault);
+      await this.vaultStateMachineService.transition(
+        vault.id,
+        VaultStatus.failed,
+        { reason: VaultFailureReason.MANUAL_CANCELLATION, actor: `user:${ownerId}`, txHash: response.txHash },
+        {
+          vault_sc_status: SmartContractVaultStatus.CANCELLED,
+          last_update_tx_hash: response.txHash,
+          failure_reason: VaultFailureReason.MANUAL_CANCELLATION,
+          failure_details: { message: 'Cancelled by owner' },
+          deactivated_at: new Date(),
+        }
+      );
 
       return { success: true };
     }
@@ -16,6 +16,7 @@ import {
 } from './wayup.types';
 
 import { Asset } from '@/database/asset.entity';
+import { CoordinatedJob } from '@/modules/job-coordinator/coordinated-job.decorator';
 import { AssetsService } from '@/modules/vaults/assets/assets.service';
 import { AssetOriginType, AssetStatus } from '@/types/asset.types';
 
@@ -442,6 +443,7 @@ export class WayUpPricingService {
    * Implements locking mechanism to prevent concurrent executions
    */
   @Cron(CronExpression.EVERY_30_MINUTES)
+  @CoordinatedJob('wayup-nft-sales')
   async trackNFTSales(): Promise<void> {
     // Skip for testnet - WayUp doesn't support preprod
     if (!this.isMainnet) {
@@ -523,6 +525,7 @@ export class WayUpPricingService {
    * Detects accepted offers (NFT in treasury) and cancelled offers (no longer sent).
    */
   @Cron(CronExpression.EVERY_30_MINUTES)
+  @CoordinatedJob('wayup-offer-statuses')
   async trackOfferStatuses(): Promise<void> {
     if (!this.isMainnet) {
       this.logger.debug('Skipping offer status tracking for testnet');
@@ -1,7 +1,5 @@
-import { Buffer } from 'node:buffer';
-
 import { BlockFrostAPI } from '@blockfrost/blockfrost-js';
-import { Address, FixedTransaction } from '@emurgo/cardano-serialization-lib-nodejs';
+import { Address } from '@emurgo/cardano-serialization-lib-nodejs';
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
@@ -26,7 +24,7 @@ import { Vault } from '@/database/vault.entity';
 import { TransactionsService } from '@/modules/vaults/processing-tx/offchain-tx/transactions.service';
 import { BlockchainService } from '@/modules/vaults/processing-tx/onchain/blockchain.service';
 import { getUtxosExtract } from '@/modules/vaults/processing-tx/onchain/utils/lib';
-import { TreasuryWalletService } from '@/modules/vaults/treasure/treasure-wallet.service';
+import { TreasuryMultisigService } from '@/modules/vaults/treasure/treasury-multisig.service';
 import { TransactionStatus, TransactionType } from '@/types/transaction.types';
 
 @Injectable()
@@ -38,7 +36,7 @@ export class WayUpService {
   constructor(
     private readonly configService: ConfigService,
     private readonly blockchainService: BlockchainService,
-    private readonly treasuryWalletService: TreasuryWalletService,
+    private readonly treasuryMultisigService: TreasuryMultisigService,
     private readonly transactionsService: TransactionsService,
     @InjectRepository(Vault)
     private readonly vaultRepository: Repository<Vault>
@@ -97,6 +95,7 @@ export class WayUpService {
       Address.from_bech32(treasuryAddress),
       this.blockfrost,
       {
+        excludeUtxoRefs: await this.treasuryMultisigService.getReservedUtxoRefs(vaultId),
         targetAssets,
         maxUtxos: 20,
       }
@@ -142,19 +141,23 @@ export class WayUpService {
       // Build the transaction
       const buildResponse = await this.blockchainService.buildWayUpTransaction(listingPayload);
 
-      // Sign the transaction with treasury wallet keys
-      const signedTx = await this.signTransactionWithTreasuryWallet(vaultId, buildResponse.transactions[0]);
-
-      // Submit the transaction
+      // Sign with the treasury wallet and submit; a multisig treasury waits for cosigner witnesses instead
       this.logger.log('Submitting listing transaction to blockchain');
-      const submitResponse = await this.blockchainService.submitTransaction({
-        transaction: signedTx,
-      });
+      const submitResponse = await this.treasuryMultisigService.submitTreasuryTransaction(
+        vaultId,
+        buildResponse.transactions[0],
+        { purpose: 'wayup', transactionId: transaction.id }
+      );
 
       // Update transaction with hash and status
-      await this.transactionsService.updateTransactionHash(transaction.id, submitResponse.txHash, {
-        listedAssets: listings,
-      });
+      await this.transactionsService.updateTransactionHash(
+        transaction.id,
+        submitResponse.txHash,
+        {
+          listedAssets: listings,
+        },
+        submitResponse.status
+      );
 
       this.logger.log(`NFT listing created successfully. TxHash: ${submitResponse.txHash}`);
 
@@ -215,6 +218,7 @@ export class WayUpService {
 
       // Get treasury UTXOs for transaction fees
       const { utxos: treasuryUtxos } = await getUtxosExtract(Address.from_bech32(treasuryAddress), this.blockfrost, {
+        excludeUtxoRefs: await this.treasuryMultisigService.getReservedUtxoRefs(vaultId),
         maxUtxos: 10,
       });
 
@@ -235,18 +239,21 @@ export class WayUpService {
       // Build the transaction
       const buildResponse = await this.blockchainService.buildWayUpTransaction(unlistPayload);
 
-      // Sign the transaction with treasury wallet
-      // Treasury signature needed because the listing was created by treasury wallet
-      const signedTx = await this.signTransactionWithTreasuryWallet(vaultId, buildResponse.transactions[0]);
-
-      // Submit the transaction
+      // Sign with the treasury wallet and submit; a multisig treasury waits for cosigner witnesses instead
       this.logger.log('Submitting unlist transaction to blockchain');
-      const submitResponse = await this.blockchainService.submitTransaction({
-        transaction: signedTx,
-      });
+      const submitResponse = await this.treasuryMultisigService.submitTreasuryTransaction(
+        vaultId,
+        buildResponse.transactions[0],
+        { purpose: 'wayup', transactionId: transaction.id }
+      );
 
       // Update transaction with hash and status
-      await this.transactionsService.updateTransactionHash(transaction.id, submitResponse.txHash);
+      await this.transactionsService.updateTransactionHash(
+        transaction.id,
+        submitResponse.txHash,
+        undefined,
+        submitResponse.status
+      );
 
       this.logger.log(`NFT unlisting completed successfully. TxHash: ${submitResponse.txHash}`);
       this.logger.log(`${unlistings.length} NFT(s) returned to treasury wallet: ${treasuryAddress}`);
@@ -313,6 +320,7 @@ export class WayUpService {
 
       // Get treasury UTXOs for transaction fees
       const { utxos: treasuryUtxos } = await getUtxosExtract(Address.from_bech32(treasuryAddress), this.blockfrost, {
+        excludeUtxoRefs: await this.treasuryMultisigService.getReservedUtxoRefs(vaultId),
         maxUtxos: 10,
       });
 
@@ -333,20 +341,23 @@ export class WayUpService {
       // Build the transaction
       const buildResponse = await this.blockchainService.buildWayUpTransaction(updatePayload);
 
-      // Sign the transaction with treasury wallet
-      // Treasury signature needed because the listing was created by treasury wallet
-      const signedTx = await this.signTransactionWithTreasuryWallet(vaultId, buildResponse.transactions[0]);
-
-      // Submit the transaction
+      // Sign with the treasury wallet and submit; a multisig treasury waits for cosigner witnesses instead
       this.logger.log('Submitting update listing transaction to blockchain');
-      const submitResponse = await this.blockchainService.submitTransaction({
-        transaction: signedTx,
-      });
+      const submitResponse = await this.treasuryMultisigService.submitTreasuryTransaction(
+        vaultId,
+        buildResponse.transactions[0],
+        { purpose: 'wayup', transactionId: transaction.id }
+      );
 
       // Update transaction with hash and status
-      await this.transactionsService.updateTransactionHash(transaction.id, submitResponse.txHash, {
-        updatedAssets: updates,
-      });
+      await this.transactionsService.updateTransactionHash(
+        transaction.id,
+        submitResponse.txHash,
+        {
+          updatedAssets: updates,
+        },
+        submitResponse.status
+      );
 
       this.logger.log(`NFT listing update completed successfully. TxHash: ${submitResponse.txHash}`);
       this.logger.log(`${updates.length} listing(s) updated with new prices`);
@@ -419,6 +430,7 @@ export class WayUpService {
         Address.from_bech32(treasuryAddress),
         this.blockfrost,
         {
+          excludeUtxoRefs: await this.treasuryMultisigService.getReservedUtxoRefs(vaultId),
           targetAdaAmount: totalOfferLovelace, // Just the offer amount, no fees
           maxUtxos: 10,
         }
@@ -443,19 +455,23 @@ export class WayUpService {
       // Build the transaction
       const buildResponse = await this.blockchainService.buildWayUpTransaction(offerPayload);
 
-      // Sign the transaction with treasury wallet keys
-      const signedTx = await this.signTransactionWithTreasuryWallet(vaultId, buildResponse.transactions[0]);
-
-      // Submit the transaction
+      // Sign with the treasury wallet and submit; a multisig treasury waits for cosigner witnesses instead
       this.logger.log('Submitting offer transaction to blockchain');
-      const submitResponse = await this.blockchainService.submitTransaction({
-        transaction: signedTx,
-      });
+      const submitResponse = await this.treasuryMultisigService.submitTreasuryTransaction(
+        vaultId,
+        buildResponse.transactions[0],
+        { purpose: 'wayup', transactionId: transaction.id }
+      );
 
       // Update transaction with hash and status
-      await this.transactionsService.updateTransactionHash(transaction.id, submitResponse.txHash, {
-        submittedOffers: offers,
-      });
+      await this.transactionsService.updateTransactionHash(
+        transaction.id,
+        submitResponse.txHash,
+        {
+          submittedOffers: offers,
+        },
+        submitResponse.status
+      );
 
       this.logger.log(`NFT offer(s) submitted successfully. TxHash: ${submitResponse.txHash}`);
       this.logger.log(`${offers.length} offer(s) submitted for NFTs`);
@@ -527,6 +543,7 @@ export class WayUpService {
         Address.from_bech32(treasuryAddress),
         this.blockfrost,
         {
+          excludeUtxoRefs: await this.treasuryMultisigService.getReservedUtxoRefs(vaultId),
           targetAdaAmount: totalPurchaseLovelace, // Just the purchase amount, no fees
           maxUtxos: 15,
         }
@@ -551,19 +568,23 @@ export class WayUpService {
       // Build the transaction
       const buildResponse = await this.blockchainService.buildWayUpTransaction(buyPayload);
 
-      // Sign the transaction with treasury wallet keys
-      const signedTx = await this.signTransactionWithTreasuryWallet(vaultId, buildResponse.transactions[0]);
-
-      // Submit the transaction
+      // Sign with the treasury wallet and submit; a multisig treasury waits for cosigner witnesses instead
       this.logger.log('Submitting purchase transaction to blockchain');
-      const submitResponse = await this.blockchainService.submitTransaction({
-        transaction: signedTx,
-      });
+      const submitResponse = await this.treasuryMultisigService.submitTreasuryTransaction(
+        vaultId,
+        buildResponse.transactions[0],
+        { purpose: 'wayup', transactionId: transaction.id }
+      );
 
       // Update transaction with hash and status
-      await this.transactionsService.updateTransactionHash(transaction.id, submitResponse.txHash, {
-        purchasedAssets: purchases,
-      });
+      await this.transactionsService.updateTransactionHash(
+        transaction.id,
+        submitResponse.txHash,
+        {
+          purchasedAssets: purchases,
+        },
+        submitResponse.status
+      );
 
       this.logger.log(`NFT purchase completed successfully. TxHash: ${submitResponse.txHash}`);
       this.logger.log(`${purchases.length} NFT(s) purchased and delivered to treasury wallet: ${treasuryAddress}`);
@@ -693,6 +714,7 @@ export class WayUpService {
 
       // Get treasury UTXOs - treasury provides NFTs, ADA for offers/purchases, and transaction fees
       const result = await getUtxosExtract(Address.from_bech32(treasuryAddress), this.blockfrost, {
+        excludeUtxoRefs: await this.treasuryMultisigService.getReservedUtxoRefs(vaultId),
         targetAssets: targetAssets.length > 0 ? targetAssets : undefined,
       });
       const treasuryUtxos = result.utxos;
@@ -835,15 +857,13 @@ export class WayUpService {
       // Build the transaction
       const buildResponse = await this.blockchainService.buildWayUpTransaction(combinedPayload);
 
-      // Sign the transaction with treasury wallet keys
-      const signedTx = await this.signTransactionWithTreasuryWallet(vaultId, buildResponse.transactions[0]);
-
-      // Submit the transaction - try standard endpoint first, fallback to WayUp-specific endpoint
+      // Sign with the treasury wallet and submit; a multisig treasury waits for cosigner witnesses instead
       this.logger.log('Submitting combined marketplace transaction to blockchain');
-
-      const submitResponse = await this.blockchainService.submitTransaction({
-        transaction: signedTx,
-      });
+      const submitResponse = await this.treasuryMultisigService.submitTreasuryTransaction(
+        vaultId,
+        buildResponse.transactions[0],
+        { purpose: 'wayup', transactionId: transaction.id }
+      );
 
       const summary = {
         listedCount: actions.listings?.length ?? 0,
@@ -855,10 +875,14 @@ export class WayUpService {
       };
 
       // Update transaction with hash and status
-      await this.transactionsService.updateTransactionHash(transaction.id, submitResponse.txHash, {
-        executedActions: summary,
-      });
-      await this.transactionsService.updateTransactionStatusById(transaction.id, TransactionStatus.submitted);
+      await this.transactionsService.updateTransactionHash(
+        transaction.id,
+        submitResponse.txHash,
+        {
+          executedActions: summary,
+        },
+        submitResponse.status
+      );
 
       this.logger.log(`Combined marketplace transaction completed successfully. TxHash: ${submitResponse.txHash}`);
       this.logger.log(`Summary: ${JSON.stringify(summary)}`);
@@ -910,31 +934,4 @@ export class WayUpService {
       throw error;
     }
   }
-
-  /**
-   * Sign a transaction using the vault's treasury wallet private keys
-   *
-   * @param vaultId - The vault ID
-   * @param txHex - Transaction hex to sign
-   * @returns Signed transaction hex
-   */
-  private async signTransactionWithTreasuryWallet(vaultId: string, txHex: string): Promise<string> {
-    try {
-      const { privateKey, stakePrivateKey } = await this.treasuryWalletService.getTreasuryWalletPrivateKey(vaultId);
-
-      const txToSign = FixedTransaction.from_bytes(Buffer.from(txHex, 'hex'));
-
-      // Sign with treasury payment and staking keys
-      txToSign.sign_and_add_vkey_signature(privateKey);
-      txToSign.sign_and_add_vkey_signature(stakePrivateKey);
-
-      this.logger.log(`Transaction signed with treasury payment and staking keys for vault ${vaultId}`);
-
-      // Return the signed transaction as hex
-      return Buffer.from(txToSign.to_bytes()).toString('hex');
-    } catch (error) {
-      this.logger.error(`Failed to sign transaction for vault ${vaultId}`, error);
-      throw new Error(`Failed to sign transaction: ${error.message}`);
-    }
-  }
 }
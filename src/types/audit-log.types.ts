@@ -0,0 +1,31 @@
+export enum AuditLogAction {
+  TREASURY_PRIVATE_KEY_ACCESSED = 'treasury_private_key_accessed',
+  TREASURY_MNEMONIC_ACCESSED = 'treasury_mnemonic_accessed',
+  TREASURY_WALLET_SWEPT = 'treasury_wallet_swept',
+  TREASURY_SWEEP_PREPARED = 'treasury_sweep_prepared',
+  TREASURY_SWEEP_CANCELLED = 'treasury_sweep_cancelled',
+  TREASURY_KEY_ROTATED = 'treasury_key_rotated',
+  ADMIN_ENDPOINT_CALLED = 'admin_endpoint_called',
+  ADMIN_ACCESS_DENIED = 'admin_access_denied',
+  SYSTEM_SETTINGS_RELOADED = 'system_settings_reloaded',
+  VAULT_MULTIPLIERS_MANUALLY_UPDATED = 'vault_multipliers_manually_updated',
+}
+
+export enum AuditLogOutcome {
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+}
+
+export interface AuditLogEvent {
+  action: AuditLogAction;
+  vaultId?: string;
+  /** Caller-supplied identity (e.g. `requestedBy` of an admin request); the request actor is recorded separately */
+  userId?: string;
+  outcome?: AuditLogOutcome;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditLogChainBreak {
+  sequence: string;
+  reason: string;
+}
@@ -91,6 +91,8 @@ export interface LpClaimMetadata extends BaseClaimMetadata {
 export interface DistributionClaimMetadata extends BaseClaimMetadata {
   /** Recipient wallet address (required) */
   address: string;
+  /** Native tokens paid with the lovelace amount (policy ID + hex asset name per unit) */
+  assets?: Array<{ unit: string; quantity: string }>;
   /** Batch processing information */
   batchId?: string;
 }
@@ -0,0 +1,43 @@
+export enum ClaimReconciliationTrigger {
+  /** First run after the vault's distribution was finalized */
+  POST_DISTRIBUTION = 'post_distribution',
+  SCHEDULED = 'scheduled',
+  MANUAL = 'manual',
+}
+
+export enum ClaimReconciliationStatus {
+  /** All differences within tolerance */
+  OK = 'ok',
+  /** At least one VT or ADA difference above tolerance; an alert was raised */
+  DISCREPANCIES = 'discrepancies',
+  FAILED = 'failed',
+}
+
+/**
+ * What one address received on-chain from the distribution transactions of its claims.
+ * Amounts are base units (VT units / lovelace) as decimal strings.
+ */
+export interface OnChainClaimDiscrepancy {
+  userId: string;
+  address: string;
+  claimIds: string[];
+  distributionTxHashes: string[];
+  expectedVt: string;
+  receivedVt: string;
+  expectedLovelace: string;
+  receivedLovelace: string;
+}
+
+/**
+ * A claim whose stored amounts differ from the ones recalculated by claims verification
+ */
+export interface CalculationClaimDiscrepancy {
+  claimId: string;
+  userId: string;
+  type: string;
+  actualAmount: number;
+  expectedAmount: number;
+  difference: number;
+  percentageDifference: number;
+  lovelaceDifference?: number;
+}
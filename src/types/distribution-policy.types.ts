@@ -0,0 +1,21 @@
+export enum DistributionPolicyStatus {
+  /** Policy is scheduling runs */
+  ACTIVE = 'active',
+  /** All scheduled runs have happened */
+  COMPLETED = 'completed',
+  /** Holders revoked the policy through a revoke proposal */
+  REVOKED = 'revoked',
+}
+
+export enum DistributionPolicyRunStatus {
+  /** Run is creating claims and submitting batches */
+  RUNNING = 'running',
+  /** All batches were submitted */
+  COMPLETED = 'completed',
+  /** Some batches failed or are waiting for a retry */
+  PARTIALLY_FAILED = 'partially_failed',
+  /** Run could not distribute anything because of an error */
+  FAILED = 'failed',
+  /** Treasury had nothing above the floor (or too little to pay any holder) */
+  SKIPPED = 'skipped',
+}
@@ -0,0 +1,30 @@
+export enum JobRunOutcome {
+  SUCCESS = 'success',
+  FAILED = 'failed',
+  /** The lease expired or was taken over while the job was still running */
+  LEASE_LOST = 'lease_lost',
+}
+
+export interface CoordinatedJobOptions {
+  /** Lease TTL; renewed every third of it while the job runs. Bounds how long a crashed replica blocks the job */
+  leaseMs?: number;
+}
+
+export interface JobState {
+  name: string;
+  /** `ClassName.method` of the handler */
+  handler: string;
+  paused: boolean;
+  running: boolean;
+  /** Replica holding the lease while the job runs */
+  leaseHolder: string | null;
+  fencingToken: number | null;
+  lastStartedAt: Date | null;
+  lastFinishedAt: Date | null;
+  lastDurationMs: number | null;
+  lastOutcome: JobRunOutcome | null;
+  lastError: string | null;
+  lastInstance: string | null;
+  runCount: number;
+  failureCount: number;
+}
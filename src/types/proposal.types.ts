@@ -11,6 +11,8 @@ export enum ProposalStatus {
   REJECTED = 'rejected',
   /** Proposal has been executed (all actions completed) */
   EXECUTED = 'executed',
+  /** Proposal passed but was vetoed by the vault owner or a holder supermajority during its timelock */
+  VETOED = 'vetoed',
 }
 
 /**
@@ -26,6 +28,37 @@ export enum ProposalType {
   EXPANSION = 'expansion',
   ACQUIRE_EXPANSION = 'acquire_expansion',
   ASSET_WHITELIST_UPDATE = 'asset_whitelist_update',
+  COMPOSITE = 'composite', // Ordered list of steps from the types below, voted on once
+  DISTRIBUTION_POLICY = 'distribution_policy', // Standing recurring distribution
+  REVOKE_DISTRIBUTION_POLICY = 'revoke_distribution_policy',
+}
+
+/**
+ * Proposal types that can be a step of a COMPOSITE proposal
+ */
+export const COMPOSITE_STEP_TYPES = [
+  ProposalType.MARKETPLACE_ACTION,
+  ProposalType.DISTRIBUTION,
+  ProposalType.BURNING,
+  ProposalType.STAKING,
+] as const;
+
+export type CompositeStepType = (typeof COMPOSITE_STEP_TYPES)[number];
+
+export enum ProposalStepStatus {
+  /** Step has not started yet */
+  PENDING = 'pending',
+  /** Step is currently executing */
+  EXECUTING = 'executing',
+  /** Step finished successfully and is skipped on retry */
+  COMPLETED = 'completed',
+  /** Step failed; later steps are not run until it succeeds on retry */
+  FAILED = 'failed',
+  /**
+   * Step was interrupted while executing (e.g. a crash mid-submit) and may already have moved treasury funds.
+   * It is never re-run automatically: an admin checks the chain and sets it to COMPLETED or PENDING.
+   */
+  NEEDS_REVIEW = 'needs_review',
 }
 
 export enum MarketplaceAction {
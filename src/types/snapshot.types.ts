@@ -0,0 +1,8 @@
+export enum SnapshotSource {
+  /** Scheduled cron or created by the platform while processing a vault */
+  AUTOMATIC = 'automatic',
+  /** Requested for the current chain tip */
+  ON_DEMAND = 'on_demand',
+  /** Reconstructed for a past time or slot from the VT transaction history */
+  HISTORICAL = 'historical',
+}
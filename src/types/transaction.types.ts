@@ -35,6 +35,12 @@ export enum TransactionType {
   updateVault = 'update-vault',
   /** WayUp marketplace transaction (listing, unlisting, update, offer, purchase) */
   wayup = 'wayup',
+  /** Registration of the treasury wallet stake credential (STAKING proposal) */
+  treasuryStakeRegister = 'treasury-stake-register',
+  /** Delegation of the treasury stake credential to a stake pool (STAKING proposal) */
+  treasuryStakeDelegate = 'treasury-stake-delegate',
+  /** Withdrawal of the staking rewards accrued by the treasury wallet (STAKING proposal) */
+  treasuryRewardWithdrawal = 'treasury-reward-withdrawal',
   /** EVM: admin-signed `closeCycle(root, hash, totalVt, totalNative)`. */
   evmCloseCycle = 'evm-close-cycle',
   /** EVM: admin-signed `claimAllocations([...])` batch airdrop. */
@@ -76,3 +82,85 @@ export interface ExpectedEventSpec {
   name: string;
   count?: number;
 }
+
+/**
+ * How a `transaction_attempts` row came to be broadcast for its Transaction.
+ *   submit   — the first broadcast of the transaction.
+ *   rebuild  — a Cardano transaction rebuilt by its owning flow after the previous attempt's TTL expired.
+ *   fee-bump — an EVM admin transaction re-sent with the same nonce and higher fees.
+ */
+export enum TransactionAttemptKind {
+  submit = 'submit',
+  rebuild = 'rebuild',
+  feeBump = 'fee-bump',
+}
+
+/**
+ *   submitted    — broadcast, not seen on-chain yet.
+ *   confirmed    — this attempt is the one that landed.
+ *   replaced     — superseded by a later attempt (fee bump) or another attempt landed instead.
+ *   expired      — Cardano TTL passed with the inputs still unspent; safe to rebuild.
+ *   double-spent — an input / the nonce was consumed by a transaction that is not one of our attempts.
+ *   failed       — could not be broadcast or rebuilt.
+ */
+export enum TransactionAttemptStatus {
+  submitted = 'submitted',
+  confirmed = 'confirmed',
+  replaced = 'replaced',
+  expired = 'expired',
+  doubleSpent = 'double-spent',
+  failed = 'failed',
+}
+
+/**
+ * Payload of the `transaction.expired`, `transaction.double_spent` and `transaction.replaced` events
+ * emitted by the transaction tracker, and of `transaction.rolled_back` emitted when a confirmation is reverted.
+ */
+export interface TransactionLifecycleEvent {
+  transactionId: string;
+  type: TransactionType | null;
+  vaultId: string | null;
+  /** Hash of the attempt the event is about */
+  txHash: string;
+  /** Hash of the new attempt, for `transaction.replaced` */
+  replacementTxHash?: string;
+  /** For `transaction.double_spent`: the transaction that consumed the input / nonce, when known */
+  consumedBy?: string | null;
+}
+
+/**
+ * What a `transaction.expired` listener returns: the hash of the rebuilt transaction it submitted, or
+ * `requeued` when it handed the work back to its own retry flow instead.
+ */
+export type TransactionRebuildResult = { txHash: string } | { requeued: true };
+
+/** Parameters needed to re-send an EVM transaction with the same nonce */
+export interface EvmAttemptRequest {
+  from: string;
+  to: string | null;
+  data: string;
+  value: string;
+  gas: string;
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  gasPrice: string | null;
+}
+
+/** Block a Cardano transaction was included in */
+export interface CardanoBlockRef {
+  hash: string;
+  height: number;
+  slot: number;
+}
+
+/**
+ * Blocks (counting the one holding the transaction) before a Cardano transaction of a type counts as
+ * confirmed and its domain effects are applied. Types not listed use `DEFAULT_CONFIRMATION_DEPTH`.
+ * Overridable per type with `TX_CONFIRMATION_DEPTH_<TYPE>` (e.g. `TX_CONFIRMATION_DEPTH_EXTRACT_DISPATCH`)
+ * and for the rest with `TX_CONFIRMATION_DEPTH_DEFAULT`.
+ */
+export const DEFAULT_CONFIRMATION_DEPTH = 1;
+export const CONFIRMATION_DEPTHS: Partial<Record<TransactionType, number>> = {
+  [TransactionType.contribute]: 3,
+  [TransactionType.acquire]: 3,
+};
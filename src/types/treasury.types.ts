@@ -0,0 +1,133 @@
+export enum TreasuryWalletMode {
+  /** Single hot payment key held (KMS-encrypted) by the platform */
+  SINGLE_KEY = 'single_key',
+  /** Native m-of-n script between the platform key, the vault owner and elected holder signers */
+  MULTISIG = 'multisig',
+}
+
+export enum TreasurySignerRole {
+  PLATFORM = 'platform',
+  OWNER = 'owner',
+  HOLDER = 'holder',
+}
+
+export interface TreasurySigner {
+  keyHash: string;
+  role: TreasurySignerRole;
+  address?: string;
+}
+
+/**
+ * Multisig cosigners elected by a vault proposal. The platform key always signs as well.
+ * The threshold is elected with the signers: the vault's `cosigning_threshold` is the governance participation
+ * percentage (see GovernanceExecutionService), not a signer count, so it does not apply to the script.
+ */
+export interface TreasurySignerElection {
+  /** Holder addresses cosigning next to the vault owner */
+  holderAddresses: string[];
+  /** Owner and holder signatures required in addition to the platform signature */
+  cosignerThreshold: number;
+}
+
+export enum TreasuryPendingTransactionStatus {
+  /** Waiting for cosigner witnesses */
+  COLLECTING = 'collecting',
+  /** Threshold reached and submitted to the chain */
+  SUBMITTED = 'submitted',
+  /** Validity interval passed before the threshold was reached */
+  EXPIRED = 'expired',
+  /** Submission was rejected */
+  FAILED = 'failed',
+}
+
+export enum TreasuryKeyRotationStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  /** Stopped by an unexpected error; can be resumed from its cursor */
+  FAILED = 'failed',
+}
+
+export interface TreasuryKeyRotationFailure {
+  walletId: string;
+  vaultId: string;
+  error: string;
+}
+
+export enum TreasuryLedgerCategory {
+  /** NFT sale proceeds from a WayUp listing */
+  SALE = 'sale',
+  /** Listing, unlisting or update of a WayUp listing; the assets stay owned by the treasury */
+  MARKETPLACE_LISTING = 'marketplace_listing',
+  /** NFT bought directly on WayUp or through an accepted offer */
+  PURCHASE = 'purchase',
+  SWAP = 'swap',
+  LP_WITHDRAWAL = 'lp_withdrawal',
+  DISTRIBUTION = 'distribution',
+  /** Assets extracted from the vault contract into the treasury */
+  EXTRACTION = 'extraction',
+  /** Stake credential registration deposit and delegation */
+  STAKING = 'staking',
+  STAKING_REWARD = 'staking_reward',
+  /** Network fee of a transaction the platform submitted for a governance execution */
+  GOVERNANCE_FEE = 'governance_fee',
+  /** Network fee of any other transaction spending treasury funds */
+  NETWORK_FEE = 'network_fee',
+  /** Movements not attributable to a platform transaction */
+  TRANSFER_IN = 'transfer_in',
+  TRANSFER_OUT = 'transfer_out',
+}
+
+export enum TreasuryLedgerDirection {
+  INFLOW = 'inflow',
+  OUTFLOW = 'outflow',
+}
+
+/**
+ * Allow-listed treasury sweep destinations
+ */
+export enum TreasurySweepDestinationKind {
+  /** The vault's own contract address */
+  VAULT_CONTRACT = 'vault_contract',
+  /** The multisig script the treasury is being moved to */
+  MULTISIG_TREASURY = 'multisig_treasury',
+  BURN_WALLET = 'burn_wallet',
+  /** Platform admin wallet; only for the final cleanup step of a termination */
+  PLATFORM_ADMIN = 'platform_admin',
+  /** Listed in `treasurySweepDestinations` of a passed or executed proposal of the vault */
+  GOVERNANCE_APPROVED = 'governance_approved',
+}
+
+export enum TreasurySweepAuthorizationType {
+  PROPOSAL = 'proposal',
+  /** Treasury cleanup step of a vault termination */
+  TERMINATION = 'termination',
+  /** Owner-initiated switch of the treasury to the multisig script elected by `proposalId` */
+  MULTISIG_MIGRATION = 'multisig_migration',
+}
+
+export interface TreasurySweepAuthorization {
+  type: TreasurySweepAuthorizationType;
+  /** Proposal that authorized the sweep; the termination proposal for TERMINATION, the signer election for MULTISIG_MIGRATION */
+  proposalId?: string;
+}
+
+export enum TreasurySweepStatus {
+  /** Previewed; waiting for confirmation */
+  PREPARED = 'prepared',
+  /** Confirmed and being built, signed and submitted */
+  CONFIRMED = 'confirmed',
+  SUBMITTED = 'submitted',
+  /** Nothing worth sweeping was left when it was executed */
+  SKIPPED = 'skipped',
+  CANCELLED = 'cancelled',
+  /** Not confirmed before `expiresAt` */
+  EXPIRED = 'expired',
+  FAILED = 'failed',
+}
+
+export interface TreasurySweepAsset {
+  unit: string;
+  quantity: string;
+  /** Current market value in ADA; null when the unit has no price */
+  valueAda: number | null;
+}
@@ -0,0 +1,59 @@
+export enum VaultJobQueue {
+  LIFECYCLE = 'vaultLifecycle',
+  TERMINATION = 'vaultTermination',
+  DISTRIBUTION = 'vaultDistribution',
+}
+
+export enum VaultLifecycleJobName {
+  /** Contribution window closed: fail the vault, move it to acquire, or straight to locked when acquirers get 0% */
+  CONTRIBUTION_END = 'contribution-end',
+  /** Acquire window closed: lock the vault or fail it */
+  ACQUIRE_END = 'acquire-end',
+  /** Acquire window of an acquire-only vault closed */
+  ACQUIRE_ONLY_END = 'acquire-only-end',
+}
+
+export enum VaultTerminationJobName {
+  STEP = 'termination-step',
+}
+
+export enum VaultDistributionJobName {
+  /** Start the distribution of a locked vault with its acquirer extractions */
+  START = 'distribution-start',
+  /** Next contributor payment batch, then finalization once all payments are done */
+  CONTRIBUTOR_PAYMENTS = 'contributor-payments',
+}
+
+export type VaultJobName = VaultLifecycleJobName | VaultTerminationJobName | VaultDistributionJobName;
+
+export enum VaultJobState {
+  WAITING = 'waiting',
+  ACTIVE = 'active',
+  DELAYED = 'delayed',
+  FAILED = 'failed',
+  COMPLETED = 'completed',
+}
+
+export interface VaultJobData {
+  vaultId: string;
+  /** Vault state the job was enqueued for; the job does nothing once the vault has moved on */
+  expectedState: string;
+}
+
+export interface VaultJob {
+  /** The job's idempotency key */
+  id: string;
+  queue: VaultJobQueue;
+  name: string;
+  vaultId: string;
+  expectedState: string;
+  state: VaultJobState | string;
+  attemptsMade: number;
+  maxAttempts: number;
+  /** Failed on every attempt; stays until retried or discarded and blocks new jobs for the same key */
+  deadLettered: boolean;
+  failedReason: string | null;
+  createdAt: Date;
+  processedAt: Date | null;
+  finishedAt: Date | null;
+}
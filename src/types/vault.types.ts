@@ -248,3 +248,21 @@ export enum VaultFailureReason {
   MANUAL_CANCELLATION = 'manual_cancellation',
   INSUFFICIENT_LP_LIQUIDITY = 'insufficient_lp_liquidity',
 }
+
+/**
+ * Why and by whom a vault is moved to another status; stored with every transition
+ */
+export interface VaultStatusTransitionContext {
+  /** Short machine-readable cause, e.g. `contribution_window_opened` or a `VaultFailureReason` */
+  reason: string;
+  /** `cron:<job>`, `webhook`, `user:<id>` or `admin`; defaults to the request actor, then `system` */
+  actor?: string;
+  txHash?: string | null;
+  proposalId?: string | null;
+  /**
+   * Statuses the caller expects the vault to be in. When it has already moved on (another worker won the race)
+   * the transition is skipped instead of rejected.
+   */
+  expectedFrom?: VaultStatus[];
+  details?: Record<string, unknown>;
+}
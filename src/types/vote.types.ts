@@ -3,3 +3,23 @@ export enum VoteType {
   NO = 'no',
   ABSTAIN = 'abstain',
 }
+
+export enum VoteHistoryAction {
+  CAST = 'cast',
+  CHANGE = 'change',
+  REVOKE = 'revoke',
+}
+
+/**
+ * How vote weights are counted for a vault's proposals
+ */
+export enum VoteCountingStrategy {
+  /** One VT = one vote (default) */
+  LINEAR = 'linear',
+  /** Weight is the square root of the VT balance */
+  QUADRATIC = 'quadratic',
+  /** No single address counts for more than `vote_counting_cap_percent` of total voting power */
+  CAPPED = 'capped',
+  /** Every holder counts once regardless of balance (semi-private vaults only) */
+  ONE_ADDRESS_ONE_VOTE = 'one_address_one_vote',
+}